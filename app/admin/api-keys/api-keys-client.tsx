@@ -0,0 +1,219 @@
+"use client";
+
+import { useState, useTransition } from "react";
+
+interface ApiKeyEntry {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  perMinute: number;
+  perDay: number;
+  requestCount: number;
+  lastUsedAt: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+export function ApiKeysManager({ initialKeys }: { initialKeys: ApiKeyEntry[] }) {
+  const [keys, setKeys] = useState(initialKeys);
+  const [name, setName] = useState("");
+  const [perMinute, setPerMinute] = useState("");
+  const [perDay, setPerDay] = useState("");
+  const [issued, setIssued] = useState<{ name: string; key: string } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; perMinute: string; perDay: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, startTransition] = useTransition();
+
+  async function reload() {
+    const res = await fetch("/api/admin/api-keys");
+    if (res.ok) setKeys((await res.json()).keys);
+  }
+
+  async function send(method: "POST" | "PATCH" | "DELETE", body: unknown) {
+    setError(null);
+    const res = await fetch("/api/admin/api-keys", {
+      method,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setError(data.error ?? `HTTP ${res.status}`);
+      return null;
+    }
+    await reload();
+    return data;
+  }
+
+  function createKey() {
+    if (!name.trim()) return;
+    startTransition(async () => {
+      const data = await send("POST", {
+        name: name.trim(),
+        perMinute: perMinute ? parseInt(perMinute, 10) : undefined,
+        perDay: perDay ? parseInt(perDay, 10) : undefined,
+      });
+      if (data) {
+        setIssued({ name: data.entry.name, key: data.key });
+        setName("");
+        setPerMinute("");
+        setPerDay("");
+      }
+    });
+  }
+
+  function saveLimits() {
+    if (!editing) return;
+    startTransition(async () => {
+      const data = await send("PATCH", {
+        id: editing.id,
+        perMinute: parseInt(editing.perMinute, 10) || undefined,
+        perDay: parseInt(editing.perDay, 10) || undefined,
+      });
+      if (data) setEditing(null);
+    });
+  }
+
+  function revokeKey(key: ApiKeyEntry) {
+    if (!confirm(`Revoke the key for ${key.name}? Requests with it will fail immediately.`)) return;
+    startTransition(async () => {
+      await send("DELETE", { id: key.id });
+    });
+  }
+
+  const fmtDate = (d: string | null) =>
+    d
+      ? new Date(d).toLocaleDateString("en-GB", { day: "2-digit", month: "short", year: "numeric" })
+      : "Never";
+
+  return (
+    <section className="admin__section">
+      <h2 className="admin__section-title">Issue a key</h2>
+      <div className="admin__search-row" style={{ marginBottom: 12 }}>
+        <input
+          type="text"
+          placeholder="Who is it for? e.g. Northbridge School"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="form__input form__input--sm"
+        />
+        <input
+          type="number"
+          min={1}
+          placeholder="Per minute (60)"
+          value={perMinute}
+          onChange={(e) => setPerMinute(e.target.value)}
+          className="form__input form__input--sm"
+        />
+        <input
+          type="number"
+          min={1}
+          placeholder="Per day (5000)"
+          value={perDay}
+          onChange={(e) => setPerDay(e.target.value)}
+          className="form__input form__input--sm"
+        />
+        <button onClick={createKey} disabled={pending || !name.trim()} className="btn btn--primary btn--sm">
+          Create key
+        </button>
+      </div>
+
+      {issued && (
+        <div className="admin__sub-text" style={{ marginBottom: 16 }}>
+          Key for <strong>{issued.name}</strong> — copy it now, it won&apos;t be shown again:
+          <div style={{ marginTop: 6 }}>
+            <code style={{ userSelect: "all", wordBreak: "break-all" }}>{issued.key}</code>
+          </div>
+        </div>
+      )}
+      {error && <p className="admin__sub-text" style={{ color: "#ef4444" }}>{error}</p>}
+
+      <h2 className="admin__section-title">Keys</h2>
+      {keys.length === 0 ? (
+        <p className="admin__sub-text">No API keys yet.</p>
+      ) : (
+        <div className="admin__table-wrap">
+          <table className="admin__table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Key</th>
+                <th>Limits</th>
+                <th>Requests</th>
+                <th>Last used</th>
+                <th>Created</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((k) => (
+                <tr key={k.id} style={k.revokedAt ? { opacity: 0.5 } : undefined}>
+                  <td>
+                    {k.name}
+                    {k.revokedAt && <div className="admin__sub-text">Revoked {fmtDate(k.revokedAt)}</div>}
+                  </td>
+                  <td><code>{k.keyPrefix}…</code></td>
+                  <td className="admin__sub-text">
+                    {editing?.id === k.id ? (
+                      <>
+                        <input
+                          type="number"
+                          min={1}
+                          value={editing.perMinute}
+                          onChange={(e) => setEditing({ ...editing, perMinute: e.target.value })}
+                          className="form__input form__input--sm"
+                          style={{ width: 80 }}
+                          aria-label="Per minute"
+                        />{" "}
+                        <input
+                          type="number"
+                          min={1}
+                          value={editing.perDay}
+                          onChange={(e) => setEditing({ ...editing, perDay: e.target.value })}
+                          className="form__input form__input--sm"
+                          style={{ width: 100 }}
+                          aria-label="Per day"
+                        />
+                      </>
+                    ) : (
+                      `${k.perMinute}/min · ${k.perDay.toLocaleString()}/day`
+                    )}
+                  </td>
+                  <td>{k.requestCount.toLocaleString()}</td>
+                  <td className="admin__td-date">{fmtDate(k.lastUsedAt)}</td>
+                  <td className="admin__td-date">{fmtDate(k.createdAt)}</td>
+                  <td>
+                    {!k.revokedAt &&
+                      (editing?.id === k.id ? (
+                        <>
+                          <button onClick={saveLimits} disabled={pending} className="btn btn--primary btn--sm">
+                            Save
+                          </button>{" "}
+                          <button onClick={() => setEditing(null)} disabled={pending} className="btn btn--ghost btn--sm">
+                            Cancel
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => setEditing({ id: k.id, perMinute: String(k.perMinute), perDay: String(k.perDay) })}
+                            disabled={pending}
+                            className="btn btn--ghost btn--sm"
+                          >
+                            Limits
+                          </button>{" "}
+                          <button onClick={() => revokeKey(k)} disabled={pending} className="btn btn--danger btn--sm">
+                            Revoke
+                          </button>
+                        </>
+                      ))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
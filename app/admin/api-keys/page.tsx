@@ -0,0 +1,53 @@
+import { requireAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { unstable_noStore as noStore } from "next/cache";
+import Link from "next/link";
+import { ApiKeysManager } from "./api-keys-client";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export const metadata = {
+  title: "API Keys",
+};
+
+export default async function AdminApiKeysPage() {
+  noStore();
+  await requireAdmin();
+
+  const keys = await prisma.rentalApiKey.findMany({
+    orderBy: [{ revokedAt: { sort: "asc", nulls: "first" } }, { createdAt: "desc" }],
+    select: {
+      id: true,
+      name: true,
+      keyPrefix: true,
+      perMinute: true,
+      perDay: true,
+      requestCount: true,
+      lastUsedAt: true,
+      createdAt: true,
+      revokedAt: true,
+    },
+  });
+
+  return (
+    <div className="admin">
+      <div className="admin__header">
+        <div className="admin__header-info">
+          <h1 className="admin__title">Rental API Keys</h1>
+          <div className="admin__meta">
+            <span>
+              Keys for the public rental market API —{" "}
+              <a href="/api/v1/rentals/openapi.json" target="_blank" rel="noreferrer">OpenAPI spec</a>
+            </span>
+          </div>
+        </div>
+        <Link href="/admin" className="btn btn--outline btn--sm">
+          Back to Dashboard
+        </Link>
+      </div>
+
+      <ApiKeysManager initialKeys={JSON.parse(JSON.stringify(keys))} />
+    </div>
+  );
+}
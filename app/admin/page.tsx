@@ -142,6 +142,13 @@ export default async function AdminPage() {
             <small>Send emails, campaigns, AI generation &amp; subscriber management</small>
           </span>
         </Link>
+        <Link href="/admin/api-keys" className="admin__cgen-btn" style={{ flex: 1, minWidth: "260px" }}>
+          <span className="admin__cgen-btn-icon">🔑</span>
+          <span className="admin__cgen-btn-text">
+            <strong>Rental API Keys</strong>
+            <small>Issue, limit &amp; revoke partner keys for the public rental API</small>
+          </span>
+        </Link>
         <Link href="/tools" className="admin__cgen-btn admin__cgen-btn--tools" style={{ flex: 1, minWidth: "260px" }}>
           <span className="admin__cgen-btn-preview">
             <svg width="56" height="40" viewBox="0 0 56 40" fill="none" xmlns="http://www.w3.org/2000/svg">
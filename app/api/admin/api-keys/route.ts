@@ -0,0 +1,170 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+import { API_DEFAULT_PER_DAY, API_DEFAULT_PER_MINUTE } from "@/lib/rentals/config";
+import { generateApiKey } from "@/lib/rentals/publicApi";
+
+const createSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  perMinute: z.number().int().min(1).max(10_000).optional(),
+  perDay: z.number().int().min(1).max(10_000_000).optional(),
+});
+
+const updateSchema = z.object({
+  id: z.string().min(1),
+  perMinute: z.number().int().min(1).max(10_000).optional(),
+  perDay: z.number().int().min(1).max(10_000_000).optional(),
+});
+
+const revokeSchema = z.object({ id: z.string().min(1) });
+
+/** Key fields safe to return — never the hash */
+const keySelect = {
+  id: true,
+  name: true,
+  keyPrefix: true,
+  perMinute: true,
+  perDay: true,
+  requestCount: true,
+  lastUsedAt: true,
+  createdAt: true,
+  revokedAt: true,
+} as const;
+
+/**
+ * GET /api/admin/api-keys — list public rentals API keys.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id || session.user.role !== "ADMIN")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+
+  const keys = await prisma.rentalApiKey.findMany({
+    orderBy: [{ revokedAt: { sort: "asc", nulls: "first" } }, { createdAt: "desc" }],
+    select: keySelect,
+  });
+
+  return NextResponse.json({ keys });
+}
+
+/**
+ * POST /api/admin/api-keys — issue a key. The full key is in this
+ * response only; just its hash is stored.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id || session.user.role !== "ADMIN")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = createSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const { key, keyPrefix, keyHash } = generateApiKey();
+  const entry = await prisma.rentalApiKey.create({
+    data: {
+      name: parsed.data.name,
+      keyPrefix,
+      keyHash,
+      perMinute: parsed.data.perMinute ?? API_DEFAULT_PER_MINUTE,
+      perDay: parsed.data.perDay ?? API_DEFAULT_PER_DAY,
+      createdById: session.user.id,
+    },
+    select: keySelect,
+  });
+
+  await prisma.adminAuditLog.create({
+    data: {
+      adminUserId: session.user.id,
+      actionType: "CREATE_API_KEY",
+      targetType: "API_KEY",
+      targetId: entry.id,
+      metadata: JSON.stringify({ name: entry.name, keyPrefix, perMinute: entry.perMinute, perDay: entry.perDay }),
+    },
+  });
+
+  return NextResponse.json({ ok: true, key, entry }, { status: 201 });
+}
+
+/**
+ * PATCH /api/admin/api-keys — change a key's limits.
+ */
+export async function PATCH(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id || session.user.role !== "ADMIN")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const { id, perMinute, perDay } = parsed.data;
+  const before = await prisma.rentalApiKey.findUnique({ where: { id }, select: { perMinute: true, perDay: true } });
+  if (!before) return NextResponse.json({ error: "Key not found" }, { status: 404 });
+
+  const entry = await prisma.rentalApiKey.update({
+    where: { id },
+    data: { ...(perMinute ? { perMinute } : {}), ...(perDay ? { perDay } : {}) },
+    select: keySelect,
+  });
+
+  await prisma.adminAuditLog.create({
+    data: {
+      adminUserId: session.user.id,
+      actionType: "UPDATE_API_KEY",
+      targetType: "API_KEY",
+      targetId: id,
+      beforeJson: JSON.stringify(before),
+      afterJson: JSON.stringify({ perMinute: entry.perMinute, perDay: entry.perDay }),
+    },
+  });
+
+  return NextResponse.json({ ok: true, entry });
+}
+
+/**
+ * DELETE /api/admin/api-keys — revoke a key. Revoked keys stay listed
+ * with their usage.
+ */
+export async function DELETE(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id || session.user.role !== "ADMIN")
+    return NextResponse.json({ error: "Unauthorized" }, { status: 403 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = revokeSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const { count } = await prisma.rentalApiKey.updateMany({
+    where: { id: parsed.data.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 0) return NextResponse.json({ error: "Key not found or already revoked" }, { status: 404 });
+
+  await prisma.adminAuditLog.create({
+    data: {
+      adminUserId: session.user.id,
+      actionType: "REVOKE_API_KEY",
+      targetType: "API_KEY",
+      targetId: parsed.data.id,
+    },
+  });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,28 @@
+/**
+ * GET /api/rentals/autocomplete?q=…
+ *
+ * District and building-name suggestions for the /rentals search box.
+ * Districts match through their alternative and Khmer spellings too
+ * (lib/rentals/textSearch.ts). Public.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadAutocompleteSuggestions } from "@/lib/rentals/textSearchStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const q = (req.nextUrl.searchParams.get("q") ?? "").trim().slice(0, 100);
+    if (q.length < 2) return NextResponse.json({ suggestions: [] });
+
+    const suggestions = await loadAutocompleteSuggestions(q);
+    return NextResponse.json(
+      { suggestions },
+      { headers: { "Cache-Control": "public, max-age=300" } }
+    );
+  } catch (error) {
+    console.error("[Autocomplete] Error:", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
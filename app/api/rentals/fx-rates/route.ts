@@ -0,0 +1,25 @@
+/**
+ * GET /api/rentals/fx-rates
+ *
+ * Latest units-per-USD rate for each display currency, for converting
+ * prices on the public rentals pages. Public.
+ */
+
+import { NextResponse } from "next/server";
+import { latestFxRates } from "@/lib/rentals/currency";
+import { loadFxRates } from "@/lib/rentals/fxStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await loadFxRates();
+    return NextResponse.json(
+      { base: "USD", rates: latestFxRates() },
+      { headers: { "Cache-Control": "public, max-age=3600" } }
+    );
+  } catch (error) {
+    console.error("[FX Rates] Error:", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * GET /api/rentals/images/ab/<sha256>/<width>.webp|jpg
+ *
+ * Serves hosted listing photos from the local image store (dev, or any
+ * deployment without Blob storage). Keys are content-addressed, so
+ * responses are cached for a year. Public.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { readLocalImage } from "@/lib/rentals/imageStorage";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> },
+) {
+  const { key } = await params;
+  const image = await readLocalImage(key);
+  if (!image) {
+    return NextResponse.json({ error: "Image not found" }, { status: 404 });
+  }
+
+  return new NextResponse(image, {
+    headers: {
+      "Content-Type": key[key.length - 1].endsWith(".webp") ? "image/webp" : "image/jpeg",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  });
+}
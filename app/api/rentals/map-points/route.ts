@@ -0,0 +1,62 @@
+/**
+ * GET /api/rentals/map-points
+ *
+ * Coordinates of the listings matching a /rentals search, for the map
+ * view. Accepts the same query params as the results page (including the
+ * near/radiusKm and poly geo params) and applies the same matching (keyword
+ * search and max commute included), so the map shows exactly the listed results. Public.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildRentalsWhere, type RentalSearchParams } from "@/lib/rentalsQuery";
+import { applyGeoFilter } from "@/lib/rentals/geoFilter";
+import { applyTextFilter } from "@/lib/rentals/textSearchStore";
+import { applyCommuteFilter } from "@/lib/rentals/commuteStore";
+import { MAP_POINTS_LIMIT } from "@/lib/rentals/config";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  try {
+    const sp: RentalSearchParams = Object.fromEntries(new URL(req.url).searchParams);
+    let where = await applyGeoFilter(buildRentalsWhere(sp), sp);
+    where = await applyCommuteFilter(where, sp);
+    where = await applyTextFilter(where, sp);
+    const withCoords = { AND: [where, { latitude: { not: null }, longitude: { not: null } }] };
+
+    const [rows, total] = await Promise.all([
+      prisma.rentalListing.findMany({
+        where: withCoords,
+        select: {
+          id: true,
+          latitude: true,
+          longitude: true,
+          title: true,
+          titleRewritten: true,
+          propertyType: true,
+          bedrooms: true,
+          priceMonthlyUsd: true,
+        },
+        orderBy: { firstSeenAt: "desc" },
+        take: MAP_POINTS_LIMIT,
+      }),
+      prisma.rentalListing.count({ where: withCoords }),
+    ]);
+
+    const points = rows.map((r) => ({
+      id: r.id,
+      lat: r.latitude!,
+      lng: r.longitude!,
+      title: r.titleRewritten || r.title,
+      propertyType: r.propertyType,
+      bedrooms: r.bedrooms,
+      priceMonthlyUsd: r.priceMonthlyUsd,
+    }));
+
+    return NextResponse.json({ points, total, truncated: total > points.length });
+  } catch (error) {
+    console.error("[Map Points] Error:", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
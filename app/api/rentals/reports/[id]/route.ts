@@ -0,0 +1,37 @@
+/**
+ * GET /api/rentals/reports/[id]
+ *
+ * The PDF of a monthly market report, for the download link in the report
+ * email. Only published reports — their campaign scheduled or sent — are
+ * served; drafts and the rest stay on the admin analytics page. Public.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadReportFile } from "@/lib/rentals/monthlyReportStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+
+  try {
+    const file = await loadReportFile(id, "pdf");
+    if (!file || !file.published) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `inline; filename="${file.filename}"`,
+        "Cache-Control": "public, max-age=3600",
+      },
+    });
+  } catch (error) {
+    console.error("[Report PDF] Error:", error);
+    return NextResponse.json({ error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { MAX_NOTE_LENGTH } from "@/lib/rentals/savedListings";
+import { z } from "zod";
+
+const updateSchema = z.object({
+  note: z.string().trim().max(MAX_NOTE_LENGTH),
+});
+
+/**
+ * PATCH /api/rentals/saved-listings/[listingId] — set or clear the note.
+ */
+export async function PATCH(request: Request, { params }: { params: Promise<{ listingId: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const { listingId } = await params;
+  const result = await prisma.savedListing.updateMany({
+    where: { listingId, userId: session.user.id },
+    data: { note: parsed.data.note || null },
+  });
+
+  if (result.count === 0)
+    return NextResponse.json({ error: "Saved listing not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * DELETE /api/rentals/saved-listings/[listingId] — unsave a listing.
+ */
+export async function DELETE(_request: Request, { params }: { params: Promise<{ listingId: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { listingId } = await params;
+  await prisma.savedListing.deleteMany({
+    where: { listingId, userId: session.user.id },
+  });
+
+  // Already gone is fine — the client just wants it unsaved
+  return NextResponse.json({ ok: true });
+}
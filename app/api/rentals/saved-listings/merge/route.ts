@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { MAX_MERGE_IDS, MAX_SAVED_LISTINGS } from "@/lib/rentals/savedListings";
+import { z } from "zod";
+
+const mergeSchema = z.object({
+  listingIds: z.array(z.string().min(1).max(191)).max(MAX_MERGE_IDS),
+});
+
+/**
+ * POST /api/rentals/saved-listings/merge — upload favourites kept in
+ * localStorage while signed out. Unknown ids and ones already saved are
+ * skipped. Returns the user's full list of saved listing ids.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = mergeSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const userId = session.user.id;
+  const requested = [...new Set(parsed.data.listingIds)];
+
+  if (requested.length > 0) {
+    const [existing, listings] = await Promise.all([
+      prisma.savedListing.findMany({ where: { userId }, select: { listingId: true } }),
+      prisma.rentalListing.findMany({
+        where: { id: { in: requested } },
+        select: { id: true, priceMonthlyUsd: true },
+      }),
+    ]);
+
+    const have = new Set(existing.map((s) => s.listingId));
+    const room = Math.max(0, MAX_SAVED_LISTINGS - have.size);
+    const toAdd = listings.filter((l) => !have.has(l.id)).slice(0, room);
+
+    if (toAdd.length > 0) {
+      await prisma.savedListing.createMany({
+        data: toAdd.map((l) => ({ userId, listingId: l.id, savedPriceUsd: l.priceMonthlyUsd })),
+        skipDuplicates: true,
+      });
+    }
+  }
+
+  const rows = await prisma.savedListing.findMany({
+    where: { userId },
+    select: { listingId: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json({ listingIds: rows.map((r) => r.listingId) });
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { MAX_NOTE_LENGTH, MAX_SAVED_LISTINGS } from "@/lib/rentals/savedListings";
+import { z } from "zod";
+
+const saveSchema = z.object({
+  listingId: z.string().min(1).max(191),
+  note: z.string().trim().max(MAX_NOTE_LENGTH).optional(),
+});
+
+/**
+ * GET /api/rentals/saved-listings — the current user's saved listing ids and notes.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const rows = await prisma.savedListing.findMany({
+    where: { userId: session.user.id },
+    select: { listingId: true, note: true, createdAt: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json({ items: rows });
+}
+
+/**
+ * POST /api/rentals/saved-listings — save a listing (or update its note).
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = saveSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const userId = session.user.id;
+  const { listingId, note } = parsed.data;
+
+  const listing = await prisma.rentalListing.findUnique({
+    where: { id: listingId },
+    select: { id: true, priceMonthlyUsd: true },
+  });
+  if (!listing)
+    return NextResponse.json({ error: "Listing not found" }, { status: 404 });
+
+  const existing = await prisma.savedListing.findUnique({
+    where: { userId_listingId: { userId, listingId } },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    const count = await prisma.savedListing.count({ where: { userId } });
+    if (count >= MAX_SAVED_LISTINGS)
+      return NextResponse.json(
+        { error: `You can save up to ${MAX_SAVED_LISTINGS} listings. Remove one to add another.` },
+        { status: 409 },
+      );
+  }
+
+  await prisma.savedListing.upsert({
+    where: { userId_listingId: { userId, listingId } },
+    create: { userId, listingId, note: note || null, savedPriceUsd: listing.priceMonthlyUsd },
+    update: note !== undefined ? { note: note || null } : {},
+  });
+
+  return NextResponse.json({ ok: true }, { status: existing ? 200 : 201 });
+}
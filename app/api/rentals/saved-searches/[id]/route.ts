@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import { z } from "zod";
+
+const updateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  emailAlerts: z.boolean().optional(),
+});
+
+/**
+ * PATCH /api/rentals/saved-searches/[id] — rename or toggle email alerts.
+ */
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = updateSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const { id } = await params;
+  const { name, emailAlerts } = parsed.data;
+
+  const result = await prisma.savedSearch.updateMany({
+    where: { id, userId: session.user.id },
+    data: {
+      ...(name !== undefined ? { name } : {}),
+      // Re-enabling starts a fresh window rather than mailing the backlog
+      ...(emailAlerts !== undefined ? { emailAlerts, ...(emailAlerts ? { lastDigestAt: new Date() } : {}) } : {}),
+    },
+  });
+
+  if (result.count === 0)
+    return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
+
+/**
+ * DELETE /api/rentals/saved-searches/[id]
+ */
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await params;
+  const result = await prisma.savedSearch.deleteMany({
+    where: { id, userId: session.user.id },
+  });
+
+  if (result.count === 0)
+    return NextResponse.json({ error: "Saved search not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+import { auth } from "@/auth";
+import { prisma } from "@/lib/prisma";
+import {
+  MAX_SAVED_SEARCHES,
+  describeSearch,
+  normalizeSearchParams,
+  parseSavedParams,
+  savedSearchHref,
+} from "@/lib/rentals/savedSearch";
+import { z } from "zod";
+
+const createSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  params: z.record(z.string()),
+  emailAlerts: z.boolean().optional(),
+});
+
+/**
+ * GET /api/rentals/saved-searches — list the current user's saved searches.
+ */
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const rows = await prisma.savedSearch.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const items = rows.map((r) => {
+    const params = parseSavedParams(r.paramsJson);
+    return {
+      id: r.id,
+      name: r.name,
+      params,
+      href: savedSearchHref(params),
+      emailAlerts: r.emailAlerts,
+      lastDigestAt: r.lastDigestAt,
+      lastMatchCount: r.lastMatchCount,
+      createdAt: r.createdAt,
+    };
+  });
+
+  return NextResponse.json({ items });
+}
+
+/**
+ * POST /api/rentals/saved-searches — save the current /rentals filters.
+ */
+export async function POST(request: Request) {
+  const session = await auth();
+  if (!session?.user?.id)
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  let body: unknown;
+  try { body = await request.json(); } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = createSchema.safeParse(body);
+  if (!parsed.success)
+    return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+
+  const userId = session.user.id;
+  const params = normalizeSearchParams(parsed.data.params);
+  const paramsJson = JSON.stringify(params);
+
+  const existing = await prisma.savedSearch.findMany({
+    where: { userId },
+    select: { id: true, paramsJson: true },
+  });
+
+  // Same filters saved twice — return the existing one
+  const duplicate = existing.find((s) => s.paramsJson === paramsJson);
+  if (duplicate)
+    return NextResponse.json({ ok: true, id: duplicate.id, existing: true });
+
+  if (existing.length >= MAX_SAVED_SEARCHES)
+    return NextResponse.json(
+      { error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one to add another.` },
+      { status: 409 },
+    );
+
+  const search = await prisma.savedSearch.create({
+    data: {
+      userId,
+      name: parsed.data.name || describeSearch(params),
+      paramsJson,
+      emailAlerts: parsed.data.emailAlerts ?? true,
+      unsubscribeToken: randomBytes(24).toString("hex"),
+    },
+  });
+
+  return NextResponse.json({ ok: true, id: search.id }, { status: 201 });
+}
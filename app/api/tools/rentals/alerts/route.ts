@@ -0,0 +1,63 @@
+/**
+ * GET  /api/tools/rentals/alerts — recent scraper alerts
+ * POST /api/tools/rentals/alerts — acknowledge alerts
+ *
+ * Alerts are raised when a source's field completeness drops sharply or
+ * discover finds no URLs (lib/rentals/scraperHealth.ts). GET returns the
+ * latest alerts, open first (`?open=1` for open ones only). Acknowledging
+ * lets the same alert be raised — and emailed — again.
+ * Body: { id: string } | { all: true }
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const ackSchema = z.union([
+  z.object({ id: z.string().min(1) }),
+  z.object({ all: z.literal(true) }),
+]);
+
+export async function GET(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const openOnly = req.nextUrl.searchParams.get("open") === "1";
+    const alerts = await prisma.scraperAlert.findMany({
+      where: openOnly ? { acknowledgedAt: null } : {},
+      orderBy: [{ acknowledgedAt: { sort: "asc", nulls: "first" } }, { createdAt: "desc" }],
+      take: 100,
+    });
+    return NextResponse.json({ alerts });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = ackSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Provide an alert id or all: true" }, { status: 400 });
+    }
+
+    const { count } = await prisma.scraperAlert.updateMany({
+      where: "id" in parsed.data ? { id: parsed.data.id, acknowledgedAt: null } : { acknowledgedAt: null },
+      data: { acknowledgedAt: new Date() },
+    });
+    return NextResponse.json({ ok: true, acknowledged: count });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -2,7 +2,10 @@
  * GET /api/tools/rentals/analytics
  *
  * Returns structured analytics data for the rental intelligence dashboard.
- * All calculations derive from RentalIndexDaily (pre-aggregated), never from live listings.
+ * Price statistics derive from RentalIndexDaily (pre-aggregated). Days-on-market
+ * and discount stats (`lifecycle`) come from the listings themselves, since the
+ * index doesn't track individual units. `forecast` is the stored RentalForecast
+ * for the filtered segment (null until it has enough history).
  *
  * Query params:
  *   city        – required, defaults to "Phnom Penh"
@@ -25,6 +28,9 @@ import {
   type IndexRow,
 } from "@/lib/analytics/calculateStats";
 import { volatilityScore } from "@/lib/analytics/volatility";
+import { computeLifecycle, computeDistrictLifecycle } from "@/lib/analytics/listingLifecycle";
+import { getSegmentForecast } from "@/lib/rentals/forecast";
+import type { PropertyType } from "@prisma/client";
 
 const RANGE_DAYS: Record<string, number> = {
   "30d": 30,
@@ -92,6 +98,28 @@ export async function GET(req: NextRequest) {
       .filter((v): v is number => v !== null);
     const volScore = volatilityScore(allMedians);
 
+    // Listings on the market at any point in the window (one per duplicate cluster)
+    const listingWhere: Record<string, unknown> = {
+      city,
+      isClusterPrimary: true,
+      OR: [{ isActive: true }, { lastSeenAt: { gte: since } }],
+    };
+    if (district) listingWhere.district = district;
+    if (bedrooms !== undefined && !isNaN(bedrooms)) listingWhere.bedrooms = bedrooms;
+    if (propertyType) listingWhere.propertyType = propertyType;
+
+    const lifecycleListings = await prisma.rentalListing.findMany({
+      where: listingWhere,
+      select: { district: true, firstSeenAt: true, lastSeenAt: true, isActive: true, priceDropPct: true },
+    });
+
+    const forecast = await getSegmentForecast({
+      city,
+      district: district ?? null,
+      bedrooms: bedrooms !== undefined && !isNaN(bedrooms) ? bedrooms : null,
+      propertyType: (propertyType as PropertyType | undefined) ?? null,
+    });
+
     // Fetch distinct districts for this city (so client dropdown updates)
     const districtRows = await prisma.rentalIndexDaily.findMany({
       where: { city, district: { not: null } },
@@ -112,6 +140,11 @@ export async function GET(req: NextRequest) {
       distribution,
       movers,
       heatmapDistricts,
+      lifecycle: {
+        ...computeLifecycle(lifecycleListings),
+        districts: computeDistrictLifecycle(lifecycleListings),
+      },
+      forecast,
       districts: availableDistricts,
       filters: { city, district, bedrooms, propertyType, range },
       meta: {
@@ -1,20 +1,34 @@
 /**
  * POST /api/tools/rentals/build-index
  *
- * Triggers the build-daily-index job. Builds for both today and yesterday
- * UTC to ensure freshly scraped data is indexed.
+ * Re-clusters cross-source duplicates (on cached image hashes only — the
+ * scheduled build hosts photos and downloads hashes), then triggers the
+ * build-daily-index job. Builds for both today and yesterday UTC to ensure freshly scraped
+ * data is indexed, rolls them into the monthly index and regenerates the
+ * public market pages, then refreshes the price forecasts, listing
+ * embeddings and quality / risk scores.
  * Admin-only.
  */
 
 import { NextResponse } from "next/server";
 import { requireAdminApi } from "@/lib/rentals/api-guard";
 import { buildDailyIndexJob } from "@/lib/rentals/jobs/buildIndex";
+import { clusterDuplicatesJob } from "@/lib/rentals/jobs/clusterDuplicates";
+import { buildForecastJob } from "@/lib/rentals/jobs/buildForecast";
+import { embedListingsJob } from "@/lib/rentals/jobs/embedListings";
+import { scoreListingsJob } from "@/lib/rentals/jobs/scoreListings";
+import { refreshMarketPages } from "@/lib/rentals/marketReportStore";
+
+/** The index, forecast and embedding jobs run inside the request */
+export const maxDuration = 300;
 
 export async function POST() {
   const guard = await requireAdminApi();
   if (guard instanceof NextResponse) return guard;
 
   try {
+    const cluster = await clusterDuplicatesJob({ maxImageHashes: 0 });
+
     // Build for today
     const today = new Date();
     today.setUTCHours(0, 0, 0, 0);
@@ -23,9 +37,21 @@ export async function POST() {
     // Also build for yesterday (the original default)
     const resultYesterday = await buildDailyIndexJob();
 
+    const yesterday = new Date(today.getTime() - 86_400_000);
+    const market = await refreshMarketPages([today, yesterday]);
+
+    const forecast = await buildForecastJob();
+    const embed = await embedListingsJob();
+    const score = await scoreListingsJob({ maxImageHashes: 0 });
+
     return NextResponse.json({
+      cluster,
       today: resultToday,
       yesterday: resultYesterday,
+      market,
+      forecast,
+      embed,
+      score,
       indexRows: resultToday.indexRows + resultYesterday.indexRows,
     });
   } catch (error) {
@@ -0,0 +1,62 @@
+/**
+ * GET  /api/tools/rentals/fx-rates — the dated FX table (stored rates + built-in defaults)
+ * POST /api/tools/rentals/fx-rates — store a rate
+ *
+ * Body (POST): { currency, perUsd, date?: "YYYY-MM-DD" (default today), source? }
+ *   perUsd is units of `currency` per 1 USD (KHR ≈ 4,000).
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+import { CURRENCY_CODES, DEFAULT_FX_RATES, getFxRates } from "@/lib/rentals/currency";
+import { loadFxRates, saveFxRate } from "@/lib/rentals/fxStore";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const rateSchema = z.object({
+  currency: z.enum(CURRENCY_CODES).refine((c) => c !== "USD", { message: "USD is the base currency" }),
+  perUsd: z.number().positive(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "date must be YYYY-MM-DD")
+    .refine((d) => !Number.isNaN(Date.parse(d)), { message: "Invalid date" })
+    .optional(),
+  source: z.string().trim().max(100).optional(),
+});
+
+export async function GET() {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    await loadFxRates();
+    const stored = await prisma.fxRate.findMany({ orderBy: [{ currency: "asc" }, { date: "desc" }] });
+    return NextResponse.json({ rates: getFxRates(), stored, defaults: DEFAULT_FX_RATES });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = rateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { currency, perUsd, date, source } = parsed.data;
+
+    const rate = await saveFxRate(currency, date ?? new Date().toISOString().slice(0, 10), perUsd, source);
+    return NextResponse.json({ rate }, { status: 201 });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -43,7 +43,7 @@ export async function GET() {
 
     // Fallback: aggregate from active listings
     const listings = await prisma.rentalListing.findMany({
-      where: { isActive: true },
+      where: { isActive: true, isClusterPrimary: true },
       select: {
         district: true,
         city: true,
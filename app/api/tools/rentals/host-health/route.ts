@@ -0,0 +1,39 @@
+/**
+ * POST /api/tools/rentals/host-health — reset a host's circuit breaker
+ *
+ * Admin-only. Closes the circuit and drops any 429/503 backoff so the
+ * next run scrapes the host at normal pace.
+ * Body: { host: string }
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+import { resetHostHealthRecord } from "@/lib/rentals/hostHealthStore";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const host = typeof body.host === "string" ? body.host.trim() : "";
+    if (!host) {
+      return NextResponse.json({ error: "host is required" }, { status: 400 });
+    }
+
+    const existing = await prisma.scrapeHostHealth.findUnique({ where: { host }, select: { id: true } });
+    if (!existing) {
+      return NextResponse.json({ error: `No health record for ${host}` }, { status: 404 });
+    }
+
+    await resetHostHealthRecord(host);
+    return NextResponse.json({ ok: true, host });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -1,7 +1,13 @@
 /**
+ * GET   /api/tools/rentals/listings/[id]
  * PATCH /api/tools/rentals/listings/[id]
  *
- * Update a listing — currently supports:
+ * GET returns the listing with its change log — field-level edits to the
+ * title, description, photos, amenities, location and size between scrapes
+ * (newest first, `?limit=` up to 200). Used by the change timeline in the
+ * ListingsTable expanded row. Admin-only.
+ *
+ * PATCH updates a listing — currently supports:
  *   { action: "deactivate" }   — mark listing inactive (hides from UI)
  *   { action: "activate" }     — re-activate a deactivated listing
  *   { action: "pass" }         — manual pass (creates 100% AI review)
@@ -11,9 +17,66 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { PropertyType } from "@prisma/client";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { parseListingChanges } from "@/lib/rentals/listingDiff";
+import { promoteClusterPrimaries } from "@/lib/rentals/clusterStore";
+
+export const dynamic = "force-dynamic";
 
 const VALID_TYPES = new Set(Object.values(PropertyType));
 
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+  const limit = Math.min(200, Math.max(1, Number(req.nextUrl.searchParams.get("limit")) || 50));
+
+  try {
+    const listing = await prisma.rentalListing.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        source: true,
+        canonicalUrl: true,
+        title: true,
+        isActive: true,
+        firstSeenAt: true,
+        lastSeenAt: true,
+      },
+    });
+    if (!listing) {
+      return NextResponse.json({ error: "Listing not found" }, { status: 404 });
+    }
+
+    const [rows, total] = await Promise.all([
+      prisma.rentalListingChange.findMany({
+        where: { listingId: id },
+        orderBy: { changedAt: "desc" },
+        take: limit,
+      }),
+      prisma.rentalListingChange.count({ where: { listingId: id } }),
+    ]);
+
+    return NextResponse.json({
+      listing,
+      total,
+      changes: rows.map((row) => ({
+        id: row.id,
+        changedAt: row.changedAt,
+        pageHash: row.pageHash,
+        diffs: parseListingChanges(row.changesJson),
+      })),
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -76,8 +139,12 @@ export async function PATCH(
   const updated = await prisma.rentalListing.update({
     where: { id },
     data: updates,
-    select: { id: true, title: true, isActive: true, propertyType: true },
+    select: { id: true, title: true, isActive: true, propertyType: true, clusterId: true },
   });
+  // A deactivated primary hands over to its cluster's next best listing
+  if (body.action === "deactivate" && updated.clusterId) {
+    await promoteClusterPrimaries([updated.clusterId]);
+  }
 
   return NextResponse.json({
     ok: true,
@@ -33,6 +33,7 @@ export async function GET(
         propertyType: true,
         district: true,
         bedrooms: true,
+        pageHash: true,
       },
     });
 
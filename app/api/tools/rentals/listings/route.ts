@@ -2,15 +2,18 @@
  * GET /api/tools/rentals/listings
  *
  * Paginated list of scraped rental listings.
- * Query params: page, limit, source, propertyType, search, sort, order
+ * Query params: page, limit, source, propertyType, search, district,
+ * aiStatus, risk (high | medium | low | flagged = medium+high | unscored),
+ * sort, order
  * Admin-only.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { requireAdminApi } from "@/lib/rentals/api-guard";
 import { prisma } from "@/lib/prisma";
-import { Prisma, PropertyType, RentalSource } from "@prisma/client";
+import { Prisma, PropertyType } from "@prisma/client";
 import { reverseDistrictAliases } from "@/lib/rentals/district-geo";
+import { describeSources, isRentalSource } from "@/lib/rentals/sources/registry";
 
 /** Maps the virtual "LONG_TERM_RENTAL" filter to the underlying enum values. */
 const LONG_TERM_RENTAL_TYPES: PropertyType[] = ["VILLA", "TOWNHOUSE"];
@@ -36,12 +39,13 @@ export async function GET(req: NextRequest) {
     const search = url.searchParams.get("search") || undefined;
     const districtParam = url.searchParams.get("district") || undefined;
     const aiStatus = url.searchParams.get("aiStatus") || undefined;
+    const risk = url.searchParams.get("risk") || undefined;
     const sort = url.searchParams.get("sort") || "lastSeenAt";
     const order = url.searchParams.get("order") === "asc" ? "asc" : "desc";
 
     const where: Prisma.RentalListingWhereInput = {};
-    if (source && Object.values(RentalSource).includes(source as RentalSource)) {
-      where.source = source as RentalSource;
+    if (isRentalSource(source)) {
+      where.source = source;
     }
     if (propertyType && ALLOWED_PROPERTY_TYPES.has(propertyType)) {
       if (propertyType === "LONG_TERM_RENTAL") {
@@ -75,8 +79,20 @@ export async function GET(req: NextRequest) {
     } else if (aiStatus === "unrewritten") {
       where.descriptionRewritten = null;
     }
+    // Quality / risk filter (scored by the scoreListings job)
+    if (risk === "high") {
+      where.riskLevel = "HIGH";
+    } else if (risk === "medium") {
+      where.riskLevel = "MEDIUM";
+    } else if (risk === "low") {
+      where.riskLevel = "LOW";
+    } else if (risk === "flagged") {
+      where.riskLevel = { in: ["MEDIUM", "HIGH"] };
+    } else if (risk === "unscored") {
+      where.riskLevel = null;
+    }
 
-    const allowedSorts = ["lastSeenAt", "firstSeenAt", "priceMonthlyUsd", "title", "district", "sizeSqm", "postedAt"];
+    const allowedSorts = ["lastSeenAt", "firstSeenAt", "priceMonthlyUsd", "title", "district", "sizeSqm", "postedAt", "riskScore", "qualityScore"];
     const sortField = allowedSorts.includes(sort) ? sort : "lastSeenAt";
 
     const [listings, total] = await Promise.all([
@@ -107,6 +123,10 @@ export async function GET(req: NextRequest) {
           descriptionRewritten: true,
           descriptionRewrittenAt: true,
           titleRewritten: true,
+          qualityScore: true,
+          riskScore: true,
+          riskLevel: true,
+          qualityFlagsJson: true,
           _count: { select: { snapshots: true } },
           snapshots: {
             orderBy: { scrapedAt: "desc" as const },
@@ -116,6 +136,7 @@ export async function GET(req: NextRequest) {
               scrapedAt: true,
               priceMonthlyUsd: true,
               priceOriginal: true,
+              pageHash: true,
             },
           },
           aiReviews: {
@@ -174,6 +195,7 @@ export async function GET(req: NextRequest) {
       page,
       limit,
       totalPages: Math.ceil(total / limit),
+      sources: describeSources().map(({ source, label }) => ({ source, label })),
     });
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
@@ -9,20 +9,16 @@ import { NextRequest, NextResponse } from "next/server";
 import { requireAdminApi } from "@/lib/rentals/api-guard";
 import { processQueueJob } from "@/lib/rentals/jobs/processQueue";
 import { RentalSource } from "@prisma/client";
-
-const VALID_SOURCES = new Set<string>([
-  "KHMER24", "REALESTATE_KH", "IPS_CAMBODIA", "CAMREALTY",
-  "LONGTERMLETTINGS", "FAZWAZ", "HOMETOGO",
-]);
+import { isRentalSource, sourceUsageHint } from "@/lib/rentals/sources/registry";
 
 export async function POST(req: NextRequest) {
   const guard = await requireAdminApi();
   if (guard instanceof NextResponse) return guard;
 
   const source = req.nextUrl.searchParams.get("source");
-  if (!source || !VALID_SOURCES.has(source)) {
+  if (!source || !isRentalSource(source)) {
     return NextResponse.json(
-      { error: "Invalid source. Use ?source=KHMER24|REALESTATE_KH|IPS_CAMBODIA|CAMREALTY|LONGTERMLETTINGS|FAZWAZ" },
+      { error: `Invalid source. Use ?source=${sourceUsageHint()}` },
       { status: 400 }
     );
   }
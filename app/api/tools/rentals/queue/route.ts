@@ -0,0 +1,132 @@
+/**
+ * GET  /api/tools/rentals/queue — browse ScrapeQueue items + per-source status counts
+ * POST /api/tools/rentals/queue — requeue, reprioritise or purge items, or reap expired leases
+ *
+ * Query (GET): ?source=KHMER24&status=DEAD&page=1&limit=50
+ * Body (POST): { action: "requeue"|"prioritise"|"purge"|"reap", ids?, source?, status?, priority? }
+ *   Targets `ids` when given, otherwise every item matching source/status.
+ *   Items a live process-queue run holds are never touched.
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma, QueueStatus, RentalSource } from "@prisma/client";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+import { RELEASED_LEASE } from "@/lib/rentals/queueLease";
+import { isRentalSource } from "@/lib/rentals/sources/registry";
+import { liveLeaseWhere, reapExpiredQueueLeases } from "@/lib/rentals/queueLeaseStore";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const MAX_LIMIT = 200;
+
+const actionSchema = z
+  .object({
+    action: z.enum(["requeue", "prioritise", "purge", "reap"]),
+    ids: z.array(z.string().min(1)).max(500).optional(),
+    source: z.nativeEnum(RentalSource).optional(),
+    status: z.nativeEnum(QueueStatus).optional(),
+    priority: z.number().int().min(-1000).max(1000).optional(),
+  })
+  .refine((b) => b.action === "reap" || (b.ids && b.ids.length > 0) || b.source, {
+    message: "Pick items or a source",
+  })
+  .refine((b) => b.action !== "prioritise" || b.priority !== undefined, {
+    message: "priority is required",
+  });
+
+export async function GET(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const params = req.nextUrl.searchParams;
+    const source = params.get("source");
+    const status = params.get("status");
+    if (source && !isRentalSource(source)) {
+      return NextResponse.json({ error: `Unknown source: ${source}` }, { status: 400 });
+    }
+    if (status && !(Object.values(QueueStatus) as string[]).includes(status)) {
+      return NextResponse.json({ error: `Unknown status: ${status}` }, { status: 400 });
+    }
+    const page = Math.max(1, parseInt(params.get("page") ?? "1", 10) || 1);
+    const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(params.get("limit") ?? "50", 10) || 50));
+
+    const where: Prisma.ScrapeQueueWhereInput = {
+      ...(source ? { source: source as RentalSource } : {}),
+      ...(status ? { status: status as QueueStatus } : {}),
+    };
+
+    const [items, total, grouped] = await Promise.all([
+      prisma.scrapeQueue.findMany({
+        where,
+        orderBy: [{ priority: "desc" }, { updatedAt: "desc" }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.scrapeQueue.count({ where }),
+      prisma.scrapeQueue.groupBy({
+        by: ["source", "status"],
+        _count: { _all: true },
+      }),
+    ]);
+
+    const counts = grouped.map((g) => ({ source: g.source, status: g.status, count: g._count._all }));
+    return NextResponse.json({ items, total, page, limit, counts });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = actionSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { action, ids, source, status, priority } = parsed.data;
+
+    if (action === "reap") {
+      const reaped = await reapExpiredQueueLeases(source);
+      return NextResponse.json({ action, count: reaped.requeued + reaped.dead, ...reaped });
+    }
+
+    const where: Prisma.ScrapeQueueWhereInput = {
+      ...(ids && ids.length > 0 ? { id: { in: ids } } : {}),
+      ...(source ? { source } : {}),
+      ...(status ? { status } : {}),
+      NOT: liveLeaseWhere(),
+    };
+
+    let count: number;
+    if (action === "purge") {
+      ({ count } = await prisma.scrapeQueue.deleteMany({ where }));
+    } else if (action === "prioritise") {
+      ({ count } = await prisma.scrapeQueue.updateMany({ where, data: { priority } }));
+    } else {
+      // A fresh start: attempts reset so a dead item gets the full retry budget again
+      ({ count } = await prisma.scrapeQueue.updateMany({
+        where,
+        data: {
+          status: QueueStatus.PENDING,
+          attempts: 0,
+          lastError: null,
+          ...RELEASED_LEASE,
+          ...(priority !== undefined ? { priority } : {}),
+        },
+      }));
+    }
+
+    return NextResponse.json({ action, count });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
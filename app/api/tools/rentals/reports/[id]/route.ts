@@ -0,0 +1,74 @@
+/**
+ * GET  /api/tools/rentals/reports/[id]?format=pdf|html — download a stored report
+ * POST /api/tools/rentals/reports/[id] — email it to marketing subscribers
+ *
+ * Body (POST): { schedule?: boolean } — a draft campaign by default, or
+ * scheduled to send straight away. A report is only emailed once; asking
+ * again returns its existing campaign.
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { emailMonthlyReport, loadReportFile } from "@/lib/rentals/monthlyReportStore";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const emailSchema = z.object({
+  schedule: z.boolean().optional(),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const format = req.nextUrl.searchParams.get("format") === "html" ? "html" : "pdf";
+    const file = await loadReportFile(id, format);
+    if (!file) return NextResponse.json({ error: "Report not found" }, { status: 404 });
+
+    // HTML opens in the browser (print from there); the PDF downloads
+    const disposition = format === "html" ? "inline" : "attachment";
+    return new NextResponse(file.body, {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Disposition": `${disposition}; filename="${file.filename}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const parsed = emailSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+
+    const campaign = await emailMonthlyReport(id, { schedule: parsed.data.schedule ?? false });
+    if (!campaign) return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    return NextResponse.json({ ok: true, campaign });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * GET  /api/tools/rentals/reports — stored monthly market reports, newest first
+ * POST /api/tools/rentals/reports — generate (or regenerate) one month's report
+ *
+ * Body (POST): { month: "YYYY-MM", city?, email?: "draft" | "schedule" }
+ * `email` also creates a campaign to marketing subscribers — a draft to
+ * review in the email dashboard, or scheduled to send straight away.
+ * A report whose campaign has been scheduled or sent isn't regenerated.
+ * Reports are built from RentalIndexDaily (lib/analytics/monthlyReport.ts).
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { emailMonthlyReport, generateMonthlyReport, listMonthlyReports } from "@/lib/rentals/monthlyReportStore";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const generateSchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "month must be YYYY-MM"),
+  city: z.string().trim().min(1).max(100).default("Phnom Penh"),
+  email: z.enum(["draft", "schedule"]).optional(),
+});
+
+export async function GET() {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const reports = await listMonthlyReports();
+    return NextResponse.json({ reports });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = generateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { month, city, email } = parsed.data;
+    if (month > new Date().toISOString().slice(0, 7)) {
+      return NextResponse.json({ error: "That month hasn't started yet" }, { status: 400 });
+    }
+
+    const report = await generateMonthlyReport(city, month);
+    if (!report) {
+      return NextResponse.json({ error: `No index data for ${city} in ${month}` }, { status: 404 });
+    }
+    if (report.published) {
+      return NextResponse.json(
+        { error: `The ${city} report for ${month} has already been emailed, so it can't be regenerated` },
+        { status: 409 },
+      );
+    }
+
+    const campaign = email ? await emailMonthlyReport(report.id, { schedule: email === "schedule" }) : null;
+    return NextResponse.json({
+      ok: true,
+      report: {
+        ...report,
+        campaignId: campaign?.campaignId ?? report.campaignId,
+        published: email === "schedule" && !!campaign?.created,
+      },
+      campaign,
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -17,14 +17,16 @@ import { requireAdminApi } from "@/lib/rentals/api-guard";
 import { discoverListingsJob } from "@/lib/rentals/jobs/discover";
 import { processQueueJob } from "@/lib/rentals/jobs/processQueue";
 import { buildDailyIndexJob } from "@/lib/rentals/jobs/buildIndex";
+import { clusterDuplicatesJob } from "@/lib/rentals/jobs/clusterDuplicates";
+import { buildForecastJob } from "@/lib/rentals/jobs/buildForecast";
+import { embedListingsJob } from "@/lib/rentals/jobs/embedListings";
+import { scoreListingsJob } from "@/lib/rentals/jobs/scoreListings";
+import { refreshMarketPages } from "@/lib/rentals/marketReportStore";
 import { prisma } from "@/lib/prisma";
 import { RentalSource } from "@prisma/client";
+import { isRentalSource, sourceUsageHint } from "@/lib/rentals/sources/registry";
 import type { PipelineLogFn, PipelineLogEntry, PipelineProgressFn, PipelineProgressEntry } from "@/lib/rentals/pipelineLogger";
 
-const VALID_SOURCES = new Set<string>([
-  "KHMER24", "REALESTATE_KH", "IPS_CAMBODIA", "CAMREALTY",
-  "LONGTERMLETTINGS", "FAZWAZ", "HOMETOGO",
-]);
 const VALID_JOBS = new Set<string>(["discover", "process-queue", "build-index", "run-all"]);
 
 /** Allow longer execution for streaming jobs on Vercel */
@@ -44,9 +46,9 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  if (job !== "build-index" && job !== "run-all" && (!source || !VALID_SOURCES.has(source))) {
+  if (job !== "build-index" && job !== "run-all" && (!source || !isRentalSource(source))) {
     return NextResponse.json(
-      { error: "Invalid source. Use ?source=KHMER24|REALESTATE_KH|IPS_CAMBODIA|CAMREALTY|LONGTERMLETTINGS|FAZWAZ" },
+      { error: `Invalid source. Use ?source=${sourceUsageHint()}` },
       { status: 400 }
     );
   }
@@ -147,6 +149,10 @@ export async function POST(req: NextRequest) {
             case "build-index": {
               const log = makeLog("index");
               const progress = makeProgress();
+              /* Re-cluster cross-source duplicates so each unit is counted once
+                 (cached image hashes only — downloading more would outlast the request) */
+              const clusterResult = await clusterDuplicatesJob({ maxImageHashes: 0 }, makeLog("cluster"), makeProgress(0, 30));
+              jobRunIds.push(clusterResult.jobRunId);
               /* Build for today AND yesterday so freshly-scraped data appears */
               const now = new Date();
               const todayUTC = new Date(
@@ -158,7 +164,16 @@ export async function POST(req: NextRequest) {
               log("info", "Building index for yesterday …");
               const yesterdayResult = await buildDailyIndexJob(undefined, log, progress);
               jobRunIds.push(yesterdayResult.jobRunId);
-              result = { today: todayResult, yesterday: yesterdayResult };
+              /* Roll into the monthly index and regenerate the public market pages */
+              const marketResult = await refreshMarketPages([todayUTC, new Date(todayUTC.getTime() - 86_400_000)], log);
+              /* Refresh price forecasts, similar-listing embeddings and risk scores */
+              const forecastResult = await buildForecastJob(makeLog("forecast"), makeProgress(90, 94));
+              jobRunIds.push(forecastResult.jobRunId);
+              const embedResult = await embedListingsJob(makeLog("embed"), makeProgress(94, 97));
+              jobRunIds.push(embedResult.jobRunId);
+              const scoreResult = await scoreListingsJob({ maxImageHashes: 0 }, makeLog("score"), makeProgress(97, 100));
+              jobRunIds.push(scoreResult.jobRunId);
+              result = { cluster: clusterResult, today: todayResult, yesterday: yesterdayResult, market: marketResult, forecast: forecastResult, embed: embedResult, score: scoreResult };
               break;
             }
             case "run-all": {
@@ -189,10 +204,12 @@ export async function POST(req: NextRequest) {
               );
               jobRunIds.push(processResult.jobRunId);
 
-              // Phase 3: Build Index (85-100%)
+              // Phase 3: Cluster duplicates + Build Index (85-100%)
               const indexLog = makeLog("index");
-              const indexProgress = makeProgress(85, 100);
+              const indexProgress = makeProgress(90, 100);
               indexLog("info", "━━━ Phase 3/3: Build Index ━━━");
+              const clusterResult = await clusterDuplicatesJob({ maxImageHashes: 0 }, makeLog("cluster"), makeProgress(85, 90));
+              jobRunIds.push(clusterResult.jobRunId);
               const now = new Date();
               const todayUTC = new Date(
                 Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
@@ -203,11 +220,23 @@ export async function POST(req: NextRequest) {
               indexLog("info", "Building index for yesterday …");
               const yesterdayResult = await buildDailyIndexJob(undefined, indexLog, indexProgress);
               jobRunIds.push(yesterdayResult.jobRunId);
+              const marketResult = await refreshMarketPages([todayUTC, new Date(todayUTC.getTime() - 86_400_000)], indexLog);
+              const forecastResult = await buildForecastJob(makeLog("forecast"), makeProgress(95, 97));
+              jobRunIds.push(forecastResult.jobRunId);
+              const embedResult = await embedListingsJob(makeLog("embed"), makeProgress(97, 99));
+              jobRunIds.push(embedResult.jobRunId);
+              const scoreResult = await scoreListingsJob({ maxImageHashes: 0 }, makeLog("score"), makeProgress(99, 100));
+              jobRunIds.push(scoreResult.jobRunId);
 
               result = {
                 discover: discoverResult,
                 process: processResult,
+                cluster: clusterResult,
                 index: { today: todayResult, yesterday: yesterdayResult },
+                market: marketResult,
+                forecast: forecastResult,
+                embed: embedResult,
+                score: scoreResult,
               };
               break;
             }
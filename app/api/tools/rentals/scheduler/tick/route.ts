@@ -0,0 +1,39 @@
+/**
+ * GET|POST /api/tools/rentals/scheduler/tick — run one scheduler pass
+ *
+ * Reaps lost leases, enqueues due cron schedules and runs at most one due
+ * task. Sources that need Playwright are left for a local worker
+ * (`scripts/rentals_scheduler.ts`).
+ *
+ * Auth: `Authorization: Bearer $CRON_SECRET` (Vercel cron) or an admin session.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { schedulerTick } from "@/lib/rentals/jobs/schedulerTick";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+/** Allow a full process-queue batch on Vercel */
+export const maxDuration = 300;
+
+async function tick(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  const isCron = !!cronSecret && req.headers.get("authorization") === `Bearer ${cronSecret}`;
+  if (!isCron) {
+    const guard = await requireAdminApi();
+    if (guard instanceof NextResponse) return guard;
+  }
+
+  try {
+    const result = await schedulerTick({ maxTasks: 1, skipPlaywright: true });
+    return NextResponse.json(result);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export const GET = tick;
+export const POST = tick;
@@ -0,0 +1,84 @@
+/**
+ * PATCH  /api/tools/rentals/schedules/[id] — edit cron, enabled, chain, maxAttempts
+ * DELETE /api/tools/rentals/schedules/[id] — remove a schedule (its tasks are kept)
+ *
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+import { cronError, nextCronRun } from "@/lib/rentals/cron";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const updateSchema = z.object({
+  cron: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  chain: z.boolean().optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const parsed = updateSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { cron, enabled, chain, maxAttempts } = parsed.data;
+
+    const existing = await prisma.jobSchedule.findUnique({ where: { id } });
+    if (!existing) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+
+    if (cron !== undefined) {
+      const invalid = cronError(cron);
+      if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    // A new cron, or re-enabling, starts counting from now rather than firing a missed run
+    const reschedule = (cron !== undefined && cron !== existing.cron) || (enabled === true && !existing.enabled);
+    const schedule = await prisma.jobSchedule.update({
+      where: { id },
+      data: {
+        ...(cron !== undefined ? { cron } : {}),
+        ...(enabled !== undefined ? { enabled } : {}),
+        ...(chain !== undefined ? { chain } : {}),
+        ...(maxAttempts !== undefined ? { maxAttempts } : {}),
+        ...(reschedule ? { nextRunAt: nextCronRun(cron ?? existing.cron, new Date()) } : {}),
+      },
+    });
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const result = await prisma.jobSchedule.deleteMany({ where: { id } });
+    if (result.count === 0) return NextResponse.json({ error: "Schedule not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * GET  /api/tools/rentals/schedules — cron schedules + recent scheduler tasks
+ * POST /api/tools/rentals/schedules — create a schedule
+ *
+ * Body (POST): { kind, source?, cron, enabled?, chain?, maxAttempts? }
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { JobTaskKind, RentalSource } from "@prisma/client";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+import { cronError, nextCronRun } from "@/lib/rentals/cron";
+import { isPerSourceTask } from "@/lib/rentals/scheduler";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const createSchema = z.object({
+  kind: z.nativeEnum(JobTaskKind),
+  source: z.nativeEnum(RentalSource).nullish(),
+  cron: z.string().trim().min(1).max(100),
+  enabled: z.boolean().optional(),
+  chain: z.boolean().optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+});
+
+export async function GET() {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const [schedules, tasks] = await Promise.all([
+      prisma.jobSchedule.findMany({ orderBy: [{ kind: "asc" }, { source: "asc" }] }),
+      prisma.jobTask.findMany({
+        orderBy: { createdAt: "desc" },
+        take: 30,
+        select: {
+          id: true,
+          kind: true,
+          source: true,
+          status: true,
+          runAt: true,
+          attempts: true,
+          maxAttempts: true,
+          leaseOwner: true,
+          lastError: true,
+          scheduleId: true,
+          parentId: true,
+          startedAt: true,
+          finishedAt: true,
+          createdAt: true,
+        },
+      }),
+    ]);
+    return NextResponse.json({ schedules, tasks });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = createSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { kind, source, cron, enabled, chain, maxAttempts } = parsed.data;
+
+    const invalid = cronError(cron);
+    if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+    if (isPerSourceTask(kind) && !source) {
+      return NextResponse.json({ error: `${kind} schedules need a source` }, { status: 400 });
+    }
+
+    const schedule = await prisma.jobSchedule.create({
+      data: {
+        kind,
+        source: isPerSourceTask(kind) ? source : null,
+        cron,
+        enabled: enabled ?? true,
+        chain: chain ?? true,
+        maxAttempts: maxAttempts ?? 3,
+        nextRunAt: nextCronRun(cron, new Date()),
+      },
+    });
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * GET /api/tools/rentals/snapshots/[id]/page
+ *
+ * Serves the archived raw HTML a snapshot was parsed from, sandboxed so
+ * the page's scripts can't run on our origin; a <base> tag points its
+ * relative links and images back at the source site. `?format=source`
+ * returns the untouched HTML as plain text instead. Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { getSnapshotPage } from "@/lib/rentals/snapshotPage";
+import { readArchivedHtml } from "@/lib/rentals/pageArchive";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+function withBaseHref(html: string, url: string): string {
+  const tag = `<base href="${url.replace(/"/g, "&quot;")}">`;
+  return /<head[^>]*>/i.test(html) ? html.replace(/<head[^>]*>/i, (head) => head + tag) : tag + html;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const found = await getSnapshotPage(id);
+    if (!found) {
+      return NextResponse.json({ error: "Snapshot not found" }, { status: 404 });
+    }
+
+    const html = found.hash ? await readArchivedHtml(found.hash) : null;
+    if (html === null) {
+      return NextResponse.json({ error: "No archived page for this snapshot" }, { status: 404 });
+    }
+
+    const asSource = req.nextUrl.searchParams.get("format") === "source";
+    const url = found.page?.url ?? found.snapshot.listing.canonicalUrl;
+    return new NextResponse(asSource ? html : withBaseHref(html, url), {
+      headers: {
+        "Content-Type": asSource ? "text/plain; charset=utf-8" : "text/html; charset=utf-8",
+        "Content-Security-Policy": "sandbox",
+        "X-Robots-Tag": "noindex, nofollow",
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -2,14 +2,18 @@
  * GET /api/tools/rentals/summary
  *
  * Returns dashboard summary: total listings, today's count,
- * snapshots, last updated, source breakdown, recent job runs,
- * and market overview.
+ * snapshots, last updated, per-source breakdown (every registered
+ * adapter), per-host circuit-breaker state, recent job runs, open
+ * scraper alerts, per-source field completeness vs baseline, and market
+ * overview.
  * Admin-only.
  */
 
 import { NextResponse } from "next/server";
 import { requireAdminApi } from "@/lib/rentals/api-guard";
 import { prisma } from "@/lib/prisma";
+import { ALL_SOURCES, describeSources } from "@/lib/rentals/sources/registry";
+import { listOpenScraperAlerts, loadFieldHealth } from "@/lib/rentals/scraperHealthStore";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -28,10 +32,12 @@ export async function GET() {
       listingsToday,
       totalSnapshots,
       lastListing,
-      khmer24Count,
-      realestateCount,
+      countsBySource,
       recentJobs,
       marketOverview,
+      hostHealth,
+      scraperAlerts,
+      fieldHealth,
     ] = await Promise.all([
       prisma.rentalListing.count(),
       prisma.rentalListing.count({
@@ -42,8 +48,10 @@ export async function GET() {
         orderBy: { lastSeenAt: "desc" },
         select: { lastSeenAt: true },
       }),
-      prisma.rentalListing.count({ where: { source: "KHMER24" } }),
-      prisma.rentalListing.count({ where: { source: "REALESTATE_KH" } }),
+      prisma.rentalListing.groupBy({
+        by: ["source"],
+        _count: { _all: true },
+      }),
       prisma.jobRun.findMany({
         orderBy: { startedAt: "desc" },
         take: 10,
@@ -61,6 +69,7 @@ export async function GET() {
           updatedCount: true,
           snapshotCount: true,
           indexRowsCount: true,
+          policySkippedCount: true,
           errorMessage: true,
         },
       }),
@@ -69,6 +78,9 @@ export async function GET() {
         where: { city: "Phnom Penh" },
         orderBy: { date: "desc" },
       }),
+      prisma.scrapeHostHealth.findMany({ orderBy: { host: "asc" } }),
+      listOpenScraperAlerts(),
+      loadFieldHealth(ALL_SOURCES),
     ]);
 
     // Get total active listings in Phnom Penh for market overview
@@ -90,15 +102,24 @@ export async function GET() {
         ? latestIndex.reduce((sum, r) => sum + (r.medianPriceUsd ?? 0), 0) / latestIndex.length
         : null;
 
+    // Every registered source gets a count (0 if it has no listings yet)
+    const sourceCounts: Record<string, number> = Object.fromEntries(
+      ALL_SOURCES.map((s) => [s, 0])
+    );
+    for (const row of countsBySource) {
+      sourceCounts[row.source] = row._count._all;
+    }
+
     return NextResponse.json({
       totalListings,
       listingsToday,
       totalSnapshots,
       lastUpdated: lastListing?.lastSeenAt ?? null,
-      sourceCounts: {
-        KHMER24: khmer24Count,
-        REALESTATE_KH: realestateCount,
-      },
+      sourceCounts,
+      sources: describeSources(),
+      hostHealth,
+      scraperAlerts,
+      fieldHealth,
       recentJobs,
       marketOverview: {
         city: "Phnom Penh",
@@ -0,0 +1,37 @@
+/**
+ * DELETE /api/tools/rentals/tasks/[id] — cancel a task that hasn't started
+ *
+ * Running tasks can't be cancelled; they finish or their lease expires.
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { prisma } from "@/lib/prisma";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  const { id } = await params;
+
+  try {
+    const result = await prisma.jobTask.updateMany({
+      where: { id, status: "PENDING" },
+      data: { status: "CANCELLED", finishedAt: new Date() },
+    });
+    if (result.count === 0) {
+      return NextResponse.json({ error: "Task not found or already started" }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * POST /api/tools/rentals/tasks — queue a scheduler task to run now
+ *
+ * The next scheduler tick (CLI worker or cron endpoint) picks it up.
+ * If the same task is already waiting, that one is returned instead.
+ * Body: { kind, source?, chain? }
+ * Admin-only.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { JobTaskKind, RentalSource } from "@prisma/client";
+import { requireAdminApi } from "@/lib/rentals/api-guard";
+import { enqueueTask } from "@/lib/rentals/jobs/schedulerTick";
+import { isPerSourceTask } from "@/lib/rentals/scheduler";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+const enqueueSchema = z.object({
+  kind: z.nativeEnum(JobTaskKind),
+  source: z.nativeEnum(RentalSource).nullish(),
+  chain: z.boolean().optional(),
+});
+
+export async function POST(req: NextRequest) {
+  const guard = await requireAdminApi();
+  if (guard instanceof NextResponse) return guard;
+
+  try {
+    const parsed = enqueueSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.issues[0]?.message ?? "Invalid input" }, { status: 400 });
+    }
+    const { kind, source, chain } = parsed.data;
+    if (isPerSourceTask(kind) && !source) {
+      return NextResponse.json({ error: `${kind} needs a source` }, { status: 400 });
+    }
+
+    const task = await enqueueTask({ kind, source, chain: chain ?? false });
+    return NextResponse.json({ task }, { status: 201 });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return NextResponse.json({ error: msg }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * GET /api/v1/rentals/districts
+ *
+ * Every district with active listings: its listing count and the 25th /
+ * 50th / 75th percentile asking rent (USD per month), busiest first.
+ * Optional `city` filter. Not paginated — there are a few dozen rows.
+ *
+ * Public, with an API key (lib/rentals/publicApiGuard.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { summariseDistricts } from "@/lib/rentals/publicApi";
+import { apiJson, requireApiKey } from "@/lib/rentals/publicApiGuard";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const ctx = await requireApiKey(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  try {
+    const city = req.nextUrl.searchParams.get("city");
+    const listings = await prisma.rentalListing.findMany({
+      where: {
+        isActive: true,
+        isClusterPrimary: true,
+        district: { not: null },
+        ...(city ? { city } : {}),
+      },
+      select: { city: true, district: true, priceMonthlyUsd: true },
+    });
+    return apiJson(ctx, { data: summariseDistricts(listings) });
+  } catch (error) {
+    console.error("[Public API Districts] Error:", error);
+    return apiJson(ctx, { error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * GET /api/v1/rentals/index/daily
+ *
+ * The daily rent index (`RentalIndexDaily`): listing count and mean /
+ * median / quartile asking rent per city, district, bedrooms and
+ * property type, oldest day first. Filters: city, district, bedrooms,
+ * propertyType, from / to (YYYY-MM-DD, inclusive). Paginated with
+ * `limit` (1–200, default 50) and `cursor`.
+ *
+ * Public, with an API key (lib/rentals/publicApiGuard.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PropertyType, type Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { afterCursor, decodeCursor, pageOf, parseLimit } from "@/lib/rentals/publicApi";
+import { apiJson, requireApiKey } from "@/lib/rentals/publicApiGuard";
+
+export const dynamic = "force-dynamic";
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  const ctx = await requireApiKey(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  try {
+    const params = req.nextUrl.searchParams;
+    const from = params.get("from");
+    const to = params.get("to");
+    if ((from && !DAY_RE.test(from)) || (to && !DAY_RE.test(to))) {
+      return apiJson(ctx, { error: "from / to must be YYYY-MM-DD" }, { status: 400 });
+    }
+    const propertyType = params.get("propertyType");
+    if (propertyType && !(Object.values(PropertyType) as string[]).includes(propertyType)) {
+      return apiJson(ctx, { error: `Unknown propertyType "${propertyType}"` }, { status: 400 });
+    }
+    const bedrooms = params.get("bedrooms");
+    const rawCursor = params.get("cursor");
+    const cursor = decodeCursor(rawCursor, "date", "date");
+    if (rawCursor && !cursor) {
+      return apiJson(ctx, { error: "Invalid cursor" }, { status: 400 });
+    }
+    const limit = parseLimit(params.get("limit"));
+
+    const where: Prisma.RentalIndexDailyWhereInput = {
+      ...(params.get("city") ? { city: params.get("city")! } : {}),
+      ...(params.get("district") ? { district: params.get("district")! } : {}),
+      ...(bedrooms && !isNaN(parseInt(bedrooms, 10)) ? { bedrooms: parseInt(bedrooms, 10) } : {}),
+      ...(propertyType ? { propertyType: propertyType as PropertyType } : {}),
+      ...(from || to
+        ? {
+            date: {
+              ...(from ? { gte: new Date(`${from}T00:00:00Z`) } : {}),
+              ...(to ? { lte: new Date(`${to}T00:00:00Z`) } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const rows = await prisma.rentalIndexDaily.findMany({
+      where: cursor
+        ? { AND: [where, afterCursor<Prisma.RentalIndexDailyWhereInput>("date", "asc", cursor, new Date(cursor.v))] }
+        : where,
+      orderBy: [{ date: "asc" }, { id: "asc" }],
+      take: limit + 1,
+    });
+
+    const page = pageOf(rows, limit, "date", (r) => r.date.toISOString());
+    return apiJson(ctx, {
+      data: page.data.map((r) => ({
+        date: r.date.toISOString().slice(0, 10),
+        city: r.city,
+        district: r.district || null,
+        bedrooms: r.bedrooms,
+        propertyType: r.propertyType,
+        listingCount: r.listingCount,
+        medianPriceUsd: r.medianPriceUsd,
+        meanPriceUsd: r.meanPriceUsd,
+        p25PriceUsd: r.p25PriceUsd,
+        p75PriceUsd: r.p75PriceUsd,
+      })),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    console.error("[Public API Daily Index] Error:", error);
+    return apiJson(ctx, { error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * GET /api/v1/rentals/index/monthly
+ *
+ * The monthly rent index (`RentalIndexMonthly`): listing count and mean /
+ * median / quartile asking rent per city, district, bedrooms and
+ * property type, oldest month first. Filters: city, district, bedrooms,
+ * propertyType, from / to (YYYY-MM, inclusive). Paginated with `limit`
+ * (1–200, default 50) and `cursor`.
+ *
+ * Public, with an API key (lib/rentals/publicApiGuard.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PropertyType, type Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { afterCursor, decodeCursor, pageOf, parseLimit } from "@/lib/rentals/publicApi";
+import { apiJson, requireApiKey } from "@/lib/rentals/publicApiGuard";
+
+export const dynamic = "force-dynamic";
+
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  const ctx = await requireApiKey(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  try {
+    const params = req.nextUrl.searchParams;
+    const from = params.get("from");
+    const to = params.get("to");
+    if ((from && !MONTH_RE.test(from)) || (to && !MONTH_RE.test(to))) {
+      return apiJson(ctx, { error: "from / to must be YYYY-MM" }, { status: 400 });
+    }
+    const propertyType = params.get("propertyType");
+    if (propertyType && !(Object.values(PropertyType) as string[]).includes(propertyType)) {
+      return apiJson(ctx, { error: `Unknown propertyType "${propertyType}"` }, { status: 400 });
+    }
+    const bedrooms = params.get("bedrooms");
+    const rawCursor = params.get("cursor");
+    const cursor = decodeCursor(rawCursor, "month", "month");
+    if (rawCursor && !cursor) {
+      return apiJson(ctx, { error: "Invalid cursor" }, { status: 400 });
+    }
+    const limit = parseLimit(params.get("limit"));
+
+    const where: Prisma.RentalIndexMonthlyWhereInput = {
+      ...(params.get("city") ? { city: params.get("city")! } : {}),
+      ...(params.get("district") ? { district: params.get("district")! } : {}),
+      ...(bedrooms && !isNaN(parseInt(bedrooms, 10)) ? { bedrooms: parseInt(bedrooms, 10) } : {}),
+      ...(propertyType ? { propertyType: propertyType as PropertyType } : {}),
+      // "YYYY-MM" strings sort chronologically
+      ...(from || to ? { yearMonth: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+    };
+
+    const rows = await prisma.rentalIndexMonthly.findMany({
+      where: cursor
+        ? { AND: [where, afterCursor<Prisma.RentalIndexMonthlyWhereInput>("yearMonth", "asc", cursor, cursor.v)] }
+        : where,
+      orderBy: [{ yearMonth: "asc" }, { id: "asc" }],
+      take: limit + 1,
+    });
+
+    const page = pageOf(rows, limit, "month", (r) => r.yearMonth);
+    return apiJson(ctx, {
+      data: page.data.map((r) => ({
+        month: r.yearMonth,
+        city: r.city,
+        district: r.district || null,
+        bedrooms: r.bedrooms,
+        propertyType: r.propertyType,
+        listingCount: r.listingCount,
+        medianPriceUsd: r.medianRent,
+        meanPriceUsd: r.meanRent,
+        p25PriceUsd: r.p25Rent,
+        p75PriceUsd: r.p75Rent,
+      })),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    console.error("[Public API Monthly Index] Error:", error);
+    return apiJson(ctx, { error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * GET /api/v1/rentals/listings
+ *
+ * Active rental listings (duplicates across portals collapsed), with the
+ * same filters as /rentals — city, district, minPrice, maxPrice, bedsMin,
+ * propertyType, bathsMin/Max, sizeMin/Max, dateAdded, priceReduced,
+ * near + radiusKm, poly and f_* amenities — plus:
+ *   sort   — newest (default) | updated | price_asc | price_desc
+ *   limit  — page size, 1–200 (default 50)
+ *   cursor — `nextCursor` from the previous page
+ *
+ * Public, with an API key (lib/rentals/publicApiGuard.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { PropertyType, type Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { siteConfig } from "@/lib/site";
+import { buildRentalsWhere, type RentalSearchParams } from "@/lib/rentalsQuery";
+import { applyGeoFilter } from "@/lib/rentals/geoFilter";
+import {
+  API_LISTING_SORTS,
+  API_LISTING_SORT_FIELDS,
+  afterCursor,
+  decodeCursor,
+  pageOf,
+  parseLimit,
+  toApiListing,
+  type ApiListingSort,
+} from "@/lib/rentals/publicApi";
+import { apiJson, requireApiKey } from "@/lib/rentals/publicApiGuard";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const ctx = await requireApiKey(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  try {
+    const params = req.nextUrl.searchParams;
+    const sp: RentalSearchParams = Object.fromEntries(params);
+
+    const sort = (params.get("sort") ?? "newest") as ApiListingSort;
+    if (!API_LISTING_SORTS.includes(sort)) {
+      return apiJson(ctx, { error: `sort must be one of ${API_LISTING_SORTS.join(", ")}` }, { status: 400 });
+    }
+    if (sp.propertyType && !(Object.values(PropertyType) as string[]).includes(sp.propertyType)) {
+      return apiJson(ctx, { error: `Unknown propertyType "${sp.propertyType}"` }, { status: 400 });
+    }
+    const { field, dir } = API_LISTING_SORT_FIELDS[sort];
+    const rawCursor = params.get("cursor");
+    const cursor = decodeCursor(rawCursor, sort, field === "priceMonthlyUsd" ? "number" : "date");
+    if (rawCursor && !cursor) {
+      return apiJson(ctx, { error: "Invalid cursor" }, { status: 400 });
+    }
+    const limit = parseLimit(params.get("limit"));
+
+    const where = await applyGeoFilter(buildRentalsWhere(sp), sp);
+    const rows = await prisma.rentalListing.findMany({
+      where: {
+        AND: [
+          where,
+          // The keyset column can't be null
+          ...(field === "priceMonthlyUsd" ? [{ priceMonthlyUsd: { not: null } }] : []),
+          ...(cursor
+            ? [
+                afterCursor<Prisma.RentalListingWhereInput>(
+                  field,
+                  dir,
+                  cursor,
+                  field === "priceMonthlyUsd" ? cursor.v : new Date(cursor.v),
+                ),
+              ]
+            : []),
+        ],
+      },
+      orderBy: [{ [field]: dir }, { id: dir }],
+      take: limit + 1,
+      select: {
+        id: true,
+        title: true,
+        titleRewritten: true,
+        city: true,
+        district: true,
+        propertyType: true,
+        bedrooms: true,
+        bathrooms: true,
+        sizeSqm: true,
+        priceMonthlyUsd: true,
+        priceDropPct: true,
+        latitude: true,
+        longitude: true,
+        amenitiesJson: true,
+        imageUrlsJson: true,
+        hostedImagesJson: true,
+        firstSeenAt: true,
+        lastSeenAt: true,
+      },
+    });
+
+    const page = pageOf(rows, limit, sort, (r) =>
+      field === "priceMonthlyUsd" ? (r.priceMonthlyUsd ?? 0) : r[field].toISOString(),
+    );
+    return apiJson(ctx, {
+      data: page.data.map((r) => toApiListing(r, siteConfig.url)),
+      nextCursor: page.nextCursor,
+    });
+  } catch (error) {
+    console.error("[Public API Listings] Error:", error);
+    return apiJson(ctx, { error: "Internal error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * GET /api/v1/rentals/openapi.json
+ *
+ * OpenAPI 3.1 description of the public rental market API
+ * (lib/rentals/openapi.ts).
+ * Public — no API key needed.
+ */
+
+import { NextResponse } from "next/server";
+import { PropertyType } from "@prisma/client";
+import { siteConfig } from "@/lib/site";
+import { buildOpenApiSpec } from "@/lib/rentals/openapi";
+
+export async function GET() {
+  const spec = buildOpenApiSpec({ serverUrl: siteConfig.url, propertyTypes: Object.values(PropertyType) });
+  return NextResponse.json(spec, {
+    headers: { "Access-Control-Allow-Origin": "*", "Cache-Control": "public, max-age=3600" },
+  });
+}
@@ -49,6 +49,14 @@ export default async function DashboardPage() {
     },
   });
 
+  const savedSearchCount = await prisma.savedSearch.count({
+    where: { userId: session.user.id },
+  });
+
+  const savedRentalCount = await prisma.savedListing.count({
+    where: { userId: session.user.id },
+  });
+
   return (
     <div className="container" style={{ maxWidth: 700, paddingTop: 40 }}>
       <h1 style={{ fontSize: 28, marginBottom: 8 }}>
@@ -101,6 +109,31 @@ export default async function DashboardPage() {
           </div>
         </div>
 
+        {/* Saved Rentals Card */}
+        <div className="dashboard-card">
+          <h2>My Saved Rentals</h2>
+          {savedRentalCount > 0 ? (
+            <p><strong>{savedRentalCount}</strong> saved listing{savedRentalCount !== 1 ? "s" : ""}</p>
+          ) : (
+            <p className="text-muted">Heart a rental listing to keep it here on every device.</p>
+          )}
+          <Link href="/dashboard/saved-rentals" className="btn btn--outline btn--sm">View saved rentals</Link>
+        </div>
+
+        {/* Saved Searches Card */}
+        <div className="dashboard-card">
+          <h2>Saved Searches</h2>
+          {savedSearchCount > 0 ? (
+            <p><strong>{savedSearchCount}</strong> saved rental search{savedSearchCount !== 1 ? "es" : ""}</p>
+          ) : (
+            <p className="text-muted">Save a rentals search to get emailed about new matches.</p>
+          )}
+          <div className="dashboard-card__links">
+            <Link href="/dashboard/saved-searches" className="btn btn--outline btn--sm">Manage searches</Link>
+            <Link href="/rentals" className="btn btn--ghost btn--sm">Browse rentals</Link>
+          </div>
+        </div>
+
         {/* What's Next Card */}
         <div className="dashboard-card">
           <h2>What&apos;s Next</h2>
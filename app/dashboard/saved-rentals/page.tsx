@@ -0,0 +1,113 @@
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import Link from "next/link";
+import { savedListingStatus } from "@/lib/rentals/savedListings";
+import { SavedRentalActions } from "./saved-rental-actions";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "My Saved Rentals",
+};
+
+export default async function SavedRentalsPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect("/login?callbackUrl=/dashboard/saved-rentals");
+
+  const saved = await prisma.savedListing.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: "desc" },
+    include: {
+      listing: {
+        select: {
+          id: true,
+          title: true,
+          titleRewritten: true,
+          district: true,
+          city: true,
+          bedrooms: true,
+          priceMonthlyUsd: true,
+          isActive: true,
+          lastSeenAt: true,
+        },
+      },
+    },
+  });
+
+  const rows = saved.map((s) => ({ ...s, status: savedListingStatus(s.savedPriceUsd, s.listing) }));
+  const changedCount = rows.filter((r) => r.status.inactive || r.status.priceChange).length;
+
+  return (
+    <div className="requests-page">
+      <h1>My Saved Rentals</h1>
+      {changedCount > 0 && (
+        <p className="request-card__meta" style={{ marginTop: -12, marginBottom: 16 }}>
+          {changedCount} saved listing{changedCount !== 1 ? "s have" : " has"} changed since you saved{" "}
+          {changedCount !== 1 ? "them" : "it"}.
+        </p>
+      )}
+
+      <div className="requests-list">
+        {rows.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state__icon">♡</div>
+            <p className="empty-state__title">No saved rentals yet</p>
+            <p className="empty-state__text">
+              Tap the heart on any <Link href="/rentals">rental listing</Link> to keep it here,
+              on every device you sign in on.
+            </p>
+            <Link href="/rentals" className="btn btn--primary btn--sm" style={{ marginTop: 12 }}>
+              Browse rentals
+            </Link>
+          </div>
+        ) : (
+          rows.map(({ listing, status, note, createdAt }) => {
+            const facts = [
+              listing.priceMonthlyUsd ? `$${Math.round(listing.priceMonthlyUsd).toLocaleString("en-US")}/mo` : null,
+              listing.bedrooms !== null ? (listing.bedrooms === 0 ? "Studio" : `${listing.bedrooms} bed`) : null,
+              [listing.district, listing.city].filter(Boolean).join(", "),
+            ].filter(Boolean);
+
+            return (
+              <div key={listing.id} className="request-card">
+                <div className="request-card__info">
+                  <Link href={`/rentals/${listing.id}`} className="request-card__name">
+                    {listing.titleRewritten || listing.title}
+                  </Link>
+                  <span className="request-card__meta">{facts.join(" · ")}</span>
+                  <span className="request-card__date">
+                    Saved {createdAt.toLocaleDateString("en-GB")}
+                  </span>
+
+                  {(status.inactive || status.priceChange) && (
+                    <div className="saved-rental__flags">
+                      {status.inactive && (
+                        <span className="saved-rental__flag saved-rental__flag--inactive">
+                          No longer listed · last seen {listing.lastSeenAt.toLocaleDateString("en-GB")}
+                        </span>
+                      )}
+                      {status.priceChange && (
+                        <span
+                          className={`saved-rental__flag ${
+                            status.priceChange.changePct < 0 ? "saved-rental__flag--down" : "saved-rental__flag--up"
+                          }`}
+                        >
+                          {status.priceChange.changePct < 0 ? "↓" : "↑"} ${Math.round(status.priceChange.fromUsd)} → $
+                          {Math.round(status.priceChange.toUsd)} ({status.priceChange.changePct > 0 ? "+" : ""}
+                          {status.priceChange.changePct}%)
+                        </span>
+                      )}
+                    </div>
+                  )}
+
+                  <SavedRentalActions listingId={listing.id} note={note ?? ""} />
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useTransition, useState } from "react";
+import { useRouter } from "next/navigation";
+import { MAX_NOTE_LENGTH } from "@/lib/rentals/savedListings";
+
+export function SavedRentalActions({ listingId, note }: { listingId: string; note: string }) {
+  const [pending, startTransition] = useTransition();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(note);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  function saveNote() {
+    setError(null);
+    startTransition(async () => {
+      const res = await fetch(`/api/rentals/saved-listings/${listingId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ note: draft }),
+      });
+      if (res.ok) {
+        setEditing(false);
+        router.refresh();
+      } else {
+        const data = await res.json().catch(() => ({}));
+        setError(data.error ?? "Could not save note");
+      }
+    });
+  }
+
+  function handleRemove() {
+    startTransition(async () => {
+      const res = await fetch(`/api/rentals/saved-listings/${listingId}`, { method: "DELETE" });
+      if (res.ok) router.refresh();
+    });
+  }
+
+  if (editing) {
+    return (
+      <div className="saved-rental__note-editor">
+        <textarea
+          className="form__input form__input--sm saved-rental__note-input"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_NOTE_LENGTH}
+          rows={3}
+          placeholder="Viewing booked Tuesday, ask about parking…"
+          autoFocus
+        />
+        {error && <span className="request-card__confirm-text">{error}</span>}
+        <div className="request-card__actions">
+          <button onClick={saveNote} disabled={pending} className="btn btn--primary btn--sm">
+            {pending ? "Saving…" : "Save note"}
+          </button>
+          <button
+            onClick={() => {
+              setDraft(note);
+              setEditing(false);
+            }}
+            disabled={pending}
+            className="btn btn--outline btn--sm"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {note && <p className="request-card__message">{note}</p>}
+      <div className="request-card__actions" style={{ marginTop: 10 }}>
+        <button onClick={() => setEditing(true)} disabled={pending} className="btn btn--outline btn--sm">
+          {note ? "Edit note" : "Add note"}
+        </button>
+        <button onClick={handleRemove} disabled={pending} className="btn btn--ghost btn--sm">
+          {pending ? "Removing…" : "Remove"}
+        </button>
+      </div>
+    </>
+  );
+}
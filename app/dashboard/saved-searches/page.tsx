@@ -0,0 +1,69 @@
+import { redirect } from "next/navigation";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/auth";
+import Link from "next/link";
+import { describeSearch, parseSavedParams, savedSearchHref } from "@/lib/rentals/savedSearch";
+import { SavedSearchActions } from "./saved-search-actions";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Saved Searches",
+};
+
+export default async function SavedSearchesPage() {
+  const session = await auth();
+  if (!session?.user?.id) redirect("/login?callbackUrl=/dashboard/saved-searches");
+
+  const searches = await prisma.savedSearch.findMany({
+    where: { userId: session.user.id },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return (
+    <div className="requests-page">
+      <h1>Saved Searches</h1>
+
+      <div className="requests-list">
+        {searches.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state__icon">🔔</div>
+            <p className="empty-state__title">No saved searches yet</p>
+            <p className="empty-state__text">
+              Filter the <Link href="/rentals">rentals</Link> list and click &ldquo;Save search&rdquo;
+              to get an email when new listings or price cuts match.
+            </p>
+            <Link href="/rentals" className="btn btn--primary btn--sm" style={{ marginTop: 12 }}>
+              Browse rentals
+            </Link>
+          </div>
+        ) : (
+          searches.map((search) => {
+            const params = parseSavedParams(search.paramsJson);
+            const description = describeSearch(params);
+            return (
+              <div key={search.id} className="request-card">
+                <div className="request-card__info">
+                  <Link href={savedSearchHref(params)} className="request-card__name">
+                    {search.name}
+                  </Link>
+                  {description !== search.name && (
+                    <span className="request-card__meta">{description}</span>
+                  )}
+                  <span className="request-card__date">
+                    {search.emailAlerts
+                      ? search.lastDigestAt
+                        ? `Last checked ${search.lastDigestAt.toLocaleDateString("en-GB")} · ${search.lastMatchCount} new match${search.lastMatchCount !== 1 ? "es" : ""}`
+                        : "Email alerts on · first digest pending"
+                      : "Email alerts paused"}
+                  </span>
+                </div>
+                <SavedSearchActions searchId={search.id} emailAlerts={search.emailAlerts} />
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useTransition, useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function SavedSearchActions({
+  searchId,
+  emailAlerts,
+}: {
+  searchId: string;
+  emailAlerts: boolean;
+}) {
+  const [pending, startTransition] = useTransition();
+  const [confirming, setConfirming] = useState(false);
+  const router = useRouter();
+
+  function toggleAlerts() {
+    startTransition(async () => {
+      const res = await fetch(`/api/rentals/saved-searches/${searchId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ emailAlerts: !emailAlerts }),
+      });
+      if (res.ok) router.refresh();
+    });
+  }
+
+  function handleDelete() {
+    startTransition(async () => {
+      const res = await fetch(`/api/rentals/saved-searches/${searchId}`, { method: "DELETE" });
+      if (res.ok) {
+        setConfirming(false);
+        router.refresh();
+      }
+    });
+  }
+
+  if (confirming) {
+    return (
+      <div className="request-card__actions">
+        <span className="request-card__confirm-text">Delete this search?</span>
+        <button onClick={handleDelete} disabled={pending} className="btn btn--danger btn--sm">
+          {pending ? "Deleting…" : "Yes, delete"}
+        </button>
+        <button
+          onClick={() => setConfirming(false)}
+          disabled={pending}
+          className="btn btn--outline btn--sm"
+        >
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="request-card__actions">
+      <button onClick={toggleAlerts} disabled={pending} className="btn btn--outline btn--sm">
+        {emailAlerts ? "Pause alerts" : "Resume alerts"}
+      </button>
+      <button onClick={() => setConfirming(true)} disabled={pending} className="btn btn--ghost btn--sm">
+        Delete
+      </button>
+    </div>
+  );
+}
@@ -3,6 +3,11 @@ import Link from "next/link";
 import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { siteConfig } from "@/lib/site";
+import { computePriceEvents } from "@/lib/rentals/priceHistory";
+import { findSimilarListings } from "@/lib/rentals/findSimilar";
+import { hostedImageUrl, listingPhotos } from "@/lib/rentals/listingImages";
+import { FAIR_RENT_TYPES, amenitiesFromJson, fairRentFormPath } from "@/lib/rentals/fairRent";
+import { estimateFlatRent } from "@/lib/rentals/fairRentStore";
 import { ListingDetailClient } from "@/components/rentals/ListingDetailClient";
 import "../rentals.css";
 
@@ -59,13 +64,19 @@ export default async function ListingDetailPage({ params }: Props) {
       bathrooms: true,
       sizeSqm: true,
       priceMonthlyUsd: true,
+      priceAmount: true,
+      currency: true,
       imageUrlsJson: true,
+      hostedImagesJson: true,
       description: true,
       descriptionRewritten: true,
       amenitiesJson: true,
       postedAt: true,
       firstSeenAt: true,
       lastSeenAt: true,
+      isActive: true,
+      peakPriceUsd: true,
+      priceDropPct: true,
       latitude: true,
       longitude: true,
       canonicalUrl: true,
@@ -89,9 +100,12 @@ export default async function ListingDetailPage({ params }: Props) {
     listing.descriptionRewritten ||
     listing.description ||
     `${displayTitle} for rent in ${listing.district ?? listing.city}`;
-  const images: string[] = listing.imageUrlsJson
-    ? JSON.parse(listing.imageUrlsJson)
-    : [];
+  // Hosted copies outlive the source listing; local-store URLs are relative
+  const images = listingPhotos(listing.imageUrlsJson, listing.hostedImagesJson).map(({ src, hosted }) => {
+    if (!hosted) return src;
+    const url = hostedImageUrl(hosted, 1280, "jpg");
+    return url.startsWith("/") ? `${siteConfig.url}${url}` : url;
+  });
   const schemaType = SCHEMA_TYPE_MAP[listing.propertyType] ?? "Residence";
   const pageUrl = `${siteConfig.url}/rentals/${listing.id}`;
 
@@ -148,24 +162,43 @@ export default async function ListingDetailPage({ params }: Props) {
     }),
   };
 
-  // Build price history: only entries where price actually changed
-  const priceChanges: { date: string; price: number | null }[] = [];
-  let prevPrice: number | null | undefined = undefined;
-  for (const snap of listing.snapshots) {
-    if (snap.priceMonthlyUsd !== prevPrice) {
-      priceChanges.push({
-        date: snap.scrapedAt.toISOString(),
-        price: snap.priceMonthlyUsd,
-      });
-      prevPrice = snap.priceMonthlyUsd;
-    }
-  }
+  // Price history: change points plus the latest sighting, so the chart
+  // runs up to the last time we saw the listing
+  const priced = listing.snapshots.filter(
+    (s): s is { scrapedAt: Date; priceMonthlyUsd: number } => s.priceMonthlyUsd !== null,
+  );
+  const pricePoints = priced
+    .filter((s, i) => i === 0 || i === priced.length - 1 || s.priceMonthlyUsd !== priced[i - 1].priceMonthlyUsd)
+    .map((s) => ({ date: s.scrapedAt.toISOString(), price: s.priceMonthlyUsd }));
+  const priceEvents = computePriceEvents(listing.snapshots, listing).map((e) => ({
+    ...e,
+    date: e.date.toISOString(),
+  }));
+
+  // Fair rent, for the residential types the estimator covers
+  const flat = {
+    city: listing.city,
+    district: listing.district,
+    bedrooms: listing.bedrooms,
+    sizeSqm: listing.sizeSqm,
+    propertyType: listing.propertyType,
+    amenities: amenitiesFromJson(listing.amenitiesJson),
+  };
+  const [similar, fairRentEstimate] = await Promise.all([
+    findSimilarListings(listing.id),
+    (FAIR_RENT_TYPES as readonly string[]).includes(listing.propertyType) ? estimateFlatRent(flat) : null,
+  ]);
+  const fairRent = fairRentEstimate && {
+    estimate: fairRentEstimate,
+    formHref: fairRentFormPath(flat, listing.priceMonthlyUsd),
+  };
 
   // Serialize dates for client component (omit raw snapshots)
   const { snapshots: _snaps, ...listingRest } = listing;
   const serialized = {
     ...listingRest,
-    priceHistory: priceChanges,
+    priceHistory: pricePoints,
+    priceEvents,
     postedAt: listing.postedAt?.toISOString() ?? null,
     firstSeenAt: listing.firstSeenAt.toISOString(),
     lastSeenAt: listing.lastSeenAt.toISOString(),
@@ -184,7 +217,7 @@ export default async function ListingDetailPage({ params }: Props) {
         Back to search results
       </Link>
 
-      <ListingDetailClient listing={serialized} />
+      <ListingDetailClient listing={serialized} similar={similar} fairRent={fairRent} />
     </main>
   );
 }
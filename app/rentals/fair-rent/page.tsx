@@ -0,0 +1,156 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { FAIR_RENT_AMENITIES, FAIR_RENT_TYPES, MAX_BEDROOM_LEVEL, parseFairRentQuery } from "@/lib/rentals/fairRent";
+import { estimateFlatRent, loadFairRentDistricts } from "@/lib/rentals/fairRentStore";
+import { FairRentPanel } from "@/components/rentals/FairRentPanel";
+import "../rentals.css";
+
+export const metadata: Metadata = {
+  title: "Is This Rent Fair? | Fair-Rent Estimator",
+  description:
+    "Offered a flat in Cambodia? Enter its district, size and amenities to see the typical rent for homes like it and whether the asking price is above or below market.",
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  APARTMENT: "Apartment",
+  CONDO: "Condo",
+  SERVICED_APARTMENT: "Serviced Apartment",
+  PENTHOUSE: "Penthouse",
+  HOUSE: "House",
+  VILLA: "Villa",
+  TOWNHOUSE: "Townhouse",
+};
+
+interface Props {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export default async function FairRentPage({ searchParams }: Props) {
+  const sp = await searchParams;
+  const query = parseFairRentQuery(sp);
+  const districts = await loadFairRentDistricts();
+
+  // The form only offers districts the model knows, so the city follows from it
+  const city = query?.flat.district ? districts.find((d) => d.district === query.flat.district)?.city ?? null : null;
+  const estimate = query ? await estimateFlatRent({ ...query.flat, city, district: city ? query.flat.district : null }) : null;
+
+  const cities = [...new Set(districts.map((d) => d.city))];
+  const flat = query?.flat;
+
+  return (
+    <main className="market-report">
+      <Link href="/rentals" className="listing-detail__back">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+          <path d="m15 18-6-6 6-6" />
+        </svg>
+        Properties to rent
+      </Link>
+
+      <h1 className="market-report__title">Is this rent fair?</h1>
+      <p className="market-report__lead">
+        Offered a flat on another site or by an agent? Enter its details to see what homes like it rent for on
+        the market today, and how the asking rent compares.
+      </p>
+
+      <form className="fair-rent-form" method="get" action="/rentals/fair-rent">
+        <label className="fair-rent-form__field">
+          <span>District</span>
+          <select name="district" className="rentals-filters__select" defaultValue={flat?.district ?? ""}>
+            <option value="">Not sure</option>
+            {cities.map((c) => (
+              <optgroup key={c} label={c}>
+                {districts
+                  .filter((d) => d.city === c)
+                  .map((d) => (
+                    <option key={d.district} value={d.district}>
+                      {d.district}
+                    </option>
+                  ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+
+        <label className="fair-rent-form__field">
+          <span>Property type</span>
+          <select name="type" className="rentals-filters__select" defaultValue={flat?.propertyType ?? "APARTMENT"}>
+            {FAIR_RENT_TYPES.map((t) => (
+              <option key={t} value={t}>
+                {TYPE_LABELS[t]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="fair-rent-form__field">
+          <span>Bedrooms</span>
+          <select name="bedrooms" className="rentals-filters__select" defaultValue={flat?.bedrooms ?? ""}>
+            <option value="">Not sure</option>
+            {Array.from({ length: MAX_BEDROOM_LEVEL + 1 }, (_, b) => (
+              <option key={b} value={b}>
+                {b === 0 ? "Studio" : b === MAX_BEDROOM_LEVEL ? `${b}+` : b}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="fair-rent-form__field">
+          <span>Size (m²)</span>
+          <input
+            type="number"
+            name="size"
+            min={10}
+            max={2000}
+            className="rentals-filters__input"
+            defaultValue={flat?.sizeSqm ?? ""}
+          />
+        </label>
+
+        <label className="fair-rent-form__field">
+          <span>Asking rent (USD / month)</span>
+          <input
+            type="number"
+            name="price"
+            min={1}
+            className="rentals-filters__input"
+            defaultValue={query?.askingUsd ?? ""}
+          />
+        </label>
+
+        <fieldset className="fair-rent-form__amenities">
+          <legend>Facilities and amenities</legend>
+          <div className="rentals-filters__checkbox-grid">
+            {FAIR_RENT_AMENITIES.map((a) => (
+              <label key={a} className="rentals-filters__checkbox">
+                <input type="checkbox" name="amenity" value={a} defaultChecked={flat?.amenities.includes(a)} />
+                {a}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <button type="submit" className="rentals-filters__btn">
+          Check the rent
+        </button>
+      </form>
+
+      {query && (
+        <section className="listing-detail__section">
+          <h2 className="listing-detail__section-title">Market rent</h2>
+          {estimate ? (
+            <FairRentPanel estimate={estimate} askingUsd={query.askingUsd} />
+          ) : (
+            <p className="market-report__note">
+              We don&apos;t have enough listings on the market yet to estimate a rent for this flat.
+            </p>
+          )}
+        </section>
+      )}
+
+      <p className="market-report__note">
+        Estimates come from asking rents of listings on Cambodian property portals, each home counted once, and
+        our daily rent index. The details you enter are not stored.
+      </p>
+    </main>
+  );
+}
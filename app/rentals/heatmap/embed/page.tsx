@@ -19,7 +19,7 @@ async function getHeatmapData(): Promise<{
   totalListings: number;
 }> {
   const listings = await prisma.rentalListing.findMany({
-    where: { isActive: true },
+    where: { isActive: true, isClusterPrimary: true },
     select: {
       district: true,
       city: true,
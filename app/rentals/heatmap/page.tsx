@@ -36,7 +36,7 @@ async function getHeatmapData(): Promise<{
   totalListings: number;
 }> {
   const listings = await prisma.rentalListing.findMany({
-    where: { isActive: true },
+    where: { isActive: true, isClusterPrimary: true },
     select: {
       district: true,
       city: true,
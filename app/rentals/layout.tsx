@@ -0,0 +1,14 @@
+import { CurrencyProvider } from "@/components/rentals/CurrencyProvider";
+
+/**
+ * Shared layout for the public rentals pages — holds the visitor's
+ * display currency so a choice made on the results page carries over to
+ * listing pages.
+ */
+export default function RentalsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return <CurrencyProvider>{children}</CurrencyProvider>;
+}
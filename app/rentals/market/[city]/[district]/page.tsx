@@ -0,0 +1,203 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { siteConfig } from "@/lib/site";
+import { formatMonth, marketJsonLd, marketPath, marketSummary, type MarketReport } from "@/lib/rentals/marketReport";
+import { loadMarketDistricts, loadMarketPage } from "@/lib/rentals/marketReportStore";
+import { MarketTrendChart } from "@/components/rentals/MarketTrendChart";
+import { SimilarListingsRail } from "@/components/rentals/SimilarListingsRail";
+import "../../../rentals.css";
+
+/* Regenerated after each index build (lib/rentals/marketReportStore.ts); daily as a fallback */
+export const revalidate = 86400;
+export const dynamicParams = true;
+
+interface Props {
+  params: Promise<{ city: string; district: string }>;
+}
+
+export async function generateStaticParams() {
+  try {
+    const districts = await loadMarketDistricts();
+    return districts.map((d) => ({ city: d.citySlug, district: d.districtSlug }));
+  } catch (e) {
+    // No database at build time — pages render on first request instead
+    console.error("[Market pages] DB error listing districts:", e);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { city, district } = await params;
+  const data = await loadMarketPage(city, district);
+  if (!data) return { title: "Market Report Not Found" };
+
+  const { district: d, report } = data;
+  const title = `Rent in ${d.district}, ${d.city} — ${formatMonth(report.latestMonth)} Market Report`;
+  const description = marketSummary(d.city, d.district, report);
+  const url = `${siteConfig.url}${marketPath(d.city, d.district)}`;
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    openGraph: { title, description, url, siteName: siteConfig.name, type: "article" },
+  };
+}
+
+const usd = (v: number | null) => (v !== null ? `$${Math.round(v).toLocaleString("en-US")}` : "—");
+
+function Change({ value, suffix }: { value: number | null; suffix: string }) {
+  if (value === null) return <span className="market-report__stat-sub">No comparison yet</span>;
+  const cls = value > 0 ? "market-report__up" : value < 0 ? "market-report__down" : "";
+  return (
+    <span className={`market-report__stat-sub ${cls}`}>
+      {value > 0 ? "+" : ""}
+      {value.toFixed(1)}% {suffix}
+    </span>
+  );
+}
+
+function Stats({ report }: { report: MarketReport }) {
+  return (
+    <div className="market-report__stats">
+      <div className="market-report__stat">
+        <span className="market-report__stat-label">Median rent</span>
+        <span className="market-report__stat-value">{usd(report.medianRent)}</span>
+        <span className="market-report__stat-sub">per month</span>
+      </div>
+      <div className="market-report__stat">
+        <span className="market-report__stat-label">On last month</span>
+        <span className="market-report__stat-value">
+          {report.changeMonth !== null ? `${report.changeMonth > 0 ? "+" : ""}${report.changeMonth.toFixed(1)}%` : "—"}
+        </span>
+        <Change value={report.changeYear} suffix="on a year ago" />
+      </div>
+      <div className="market-report__stat">
+        <span className="market-report__stat-label">Listings</span>
+        <span className="market-report__stat-value">{report.listingCount.toLocaleString("en-US")}</span>
+        <Change value={report.supplyChange} suffix="on last month" />
+      </div>
+    </div>
+  );
+}
+
+export default async function MarketReportPage({ params }: Props) {
+  const { city, district } = await params;
+  const data = await loadMarketPage(city, district);
+  if (!data) notFound();
+
+  const { district: d, report, nearby, examples } = data;
+  const url = `${siteConfig.url}${marketPath(d.city, d.district)}`;
+  const jsonLd = marketJsonLd(d.city, d.district, report, {
+    url,
+    siteName: siteConfig.name,
+    siteUrl: siteConfig.url,
+  });
+  const searchHref = `/rentals?${new URLSearchParams({ city: d.city, district: d.district })}`;
+  const month = formatMonth(report.latestMonth);
+
+  return (
+    <main className="market-report">
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd) }}
+      />
+      <Link href="/rentals" className="listing-detail__back">
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+          <path d="m15 18-6-6 6-6" />
+        </svg>
+        Properties to rent
+      </Link>
+
+      <h1 className="market-report__title">
+        Rent prices in {d.district}, {d.city}
+      </h1>
+      <p className="market-report__lead">{marketSummary(d.city, d.district, report)}</p>
+
+      <Stats report={report} />
+
+      {report.byBedroom.length > 0 && (
+        <section className="listing-detail__section">
+          <h2 className="listing-detail__section-title">Median rent by bedrooms — {month}</h2>
+          <div className="market-report__table-wrap">
+            <table className="market-report__table">
+              <thead>
+                <tr>
+                  <th>Size</th>
+                  <th>Median rent</th>
+                  <th>Typical range</th>
+                  <th>Listings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.byBedroom.map((b) => (
+                  <tr key={b.bedrooms}>
+                    <td>{b.label}</td>
+                    <td>{usd(b.medianRent)}</td>
+                    <td>
+                      {b.p25Rent !== null && b.p75Rent !== null ? `${usd(b.p25Rent)} – ${usd(b.p75Rent)}` : "—"}
+                    </td>
+                    <td>{b.listingCount.toLocaleString("en-US")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {report.trend.length >= 2 && (
+        <section className="listing-detail__section">
+          <h2 className="listing-detail__section-title">Rent and supply trend</h2>
+          <MarketTrendChart points={report.trend} />
+          <p className="market-report__note">
+            Line: median monthly rent, shaded between the lower and upper quartile. Bars: listings on the market.
+            Figures for {month} are month to date.
+          </p>
+        </section>
+      )}
+
+      <section className="listing-detail__section">
+        <h2 className="listing-detail__section-title">Where rents fall</h2>
+        <ul className="market-report__dist">
+          {report.distribution.map((b) => (
+            <li key={b.label} className="market-report__dist-row">
+              <span className="market-report__dist-label">{b.label}</span>
+              <span className="market-report__dist-bar">
+                <span style={{ width: `${b.percentage}%` }} />
+              </span>
+              <span className="market-report__dist-pct">{b.percentage}%</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <SimilarListingsRail listings={examples} title={`Homes to rent in ${d.district}`} />
+      <p className="market-report__note">
+        <Link href={searchHref}>See all properties to rent in {d.district} →</Link>
+        <br />
+        <Link href={`/rentals/fair-rent?${new URLSearchParams({ district: d.district, type: "APARTMENT" })}`}>
+          Offered a flat in {d.district}? Check whether the rent is fair →
+        </Link>
+      </p>
+
+      {nearby.length > 0 && (
+        <section className="listing-detail__section">
+          <h2 className="listing-detail__section-title">Other districts in {d.city}</h2>
+          <ul className="market-report__links">
+            {nearby.map((n) => (
+              <li key={n.districtSlug}>
+                <Link href={marketPath(n.city, n.district)}>Rent in {n.district}</Link>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <p className="market-report__note">
+        Based on asking rents from listings on Cambodian property portals, with listings cross-posted on several
+        portals counted once. Updated after every index build.
+      </p>
+    </main>
+  );
+}
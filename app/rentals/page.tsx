@@ -1,17 +1,27 @@
 import type { Metadata } from "next";
 import { Suspense } from "react";
+import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 import { RentalResultsList } from "@/components/rentals/RentalResultsList";
 import { RentalFilters } from "@/components/rentals/RentalFilters";
+import { SaveSearchButton } from "@/components/rentals/SaveSearchButton";
+import { CurrencySelect } from "@/components/rentals/CurrencySelect";
 import { Pagination } from "@/components/rentals/Pagination";
 import { HeatmapPreviewCard } from "@/components/rentals/HeatmapPreviewCard";
+import { RentalsMapView } from "@/components/rentals/RentalsMapView";
 import {
   buildRentalsWhere,
   buildRentalsOrderBy,
   buildFilterSummary,
   buildPaginationHref,
+  buildViewHref,
   type RentalSearchParams,
 } from "@/lib/rentalsQuery";
+import { applyGeoFilter } from "@/lib/rentals/geoFilter";
+import { buildSnippet } from "@/lib/rentals/textSearch";
+import { TEXT_SEARCH_CANDIDATE_LIMIT } from "@/lib/rentals/config";
+import { rankTextSearch } from "@/lib/rentals/textSearchStore";
+import { applyCommuteFilter, loadCommutePlan, rankByCommute } from "@/lib/rentals/commuteStore";
 import "./rentals.css";
 
 export const metadata: Metadata = {
@@ -30,14 +40,21 @@ export default async function RentalsPage({ searchParams }: Props) {
   const sp = await searchParams;
   const page = Math.max(1, parseInt(sp.page ?? "1", 10) || 1);
 
-  const where = buildRentalsWhere(sp);
+  const where = await applyCommuteFilter(await applyGeoFilter(buildRentalsWhere(sp), sp), sp);
   const orderBy = buildRentalsOrderBy(sp.sort);
 
+  // Keyword search and the commute sort are ranked in memory, so page
+  // through the ranked ids instead of letting the database order and count
+  const textSearch = await rankTextSearch(where, sp);
+  const ranked: { id: string; terms?: string[] }[] | null = textSearch?.hits ?? (await rankByCommute(where, sp));
+  const pageHits = ranked?.slice((page - 1) * PER_PAGE, page * PER_PAGE) ?? null;
+  const commutePlan = await loadCommutePlan(sp);
+
   // Fetch listings, total count, distinct city / district values, and heatmap data in parallel.
   // Districts are scoped to the selected city when one is chosen.
-  const [listings, total, cities, districts, heatmapResult] = await Promise.all([
+  const [rows, total, cities, districts, heatmapResult] = await Promise.all([
     prisma.rentalListing.findMany({
-      where,
+      where: pageHits ? { id: { in: pageHits.map((h) => h.id) } } : where,
       select: {
         id: true,
         title: true,
@@ -50,17 +67,21 @@ export default async function RentalsPage({ searchParams }: Props) {
         sizeSqm: true,
         priceMonthlyUsd: true,
         imageUrlsJson: true,
+        hostedImagesJson: true,
         description: true,
         descriptionRewritten: true,
         postedAt: true,
         firstSeenAt: true,
         canonicalUrl: true,
+        qualityScore: true,
+        riskLevel: true,
+        qualityFlagsJson: true,
+        latitude: true,
+        longitude: true,
       },
-      orderBy,
-      skip: (page - 1) * PER_PAGE,
-      take: PER_PAGE,
+      ...(pageHits ? {} : { orderBy, skip: (page - 1) * PER_PAGE, take: PER_PAGE }),
     }),
-    prisma.rentalListing.count({ where }),
+    ranked ? ranked.length : prisma.rentalListing.count({ where }),
     // All distinct cities (active listings only)
     prisma.rentalListing
       .findMany({
@@ -85,10 +106,10 @@ export default async function RentalsPage({ searchParams }: Props) {
       .then((rows) =>
         rows.map((r) => r.district).filter((d): d is string => !!d),
       ),
-    // Lightweight heatmap aggregation for preview
+    // Lightweight heatmap aggregation for preview (one row per physical unit)
     prisma.rentalListing
       .findMany({
-        where: { isActive: true },
+        where: { isActive: true, isClusterPrimary: true },
         select: {
           district: true,
           city: true,
@@ -121,8 +142,26 @@ export default async function RentalsPage({ searchParams }: Props) {
       }),
   ]);
 
+  // Back in ranked order, with the matched words highlighted
+  const ordered = pageHits
+    ? pageHits.flatMap((hit) => {
+        const row = rows.find((r) => r.id === hit.id);
+        if (!row) return [];
+        const snippet = hit.terms ? buildSnippet(row.descriptionRewritten || row.description, hit.terms) : null;
+        return [{ ...row, snippet }];
+      })
+    : rows;
+  const listings = commutePlan
+    ? ordered.map((row) => ({ ...row, commute: commutePlan.times(row.latitude, row.longitude) }))
+    : ordered;
+
   const totalPages = Math.max(1, Math.ceil(total / PER_PAGE));
-  const filterSummary = buildFilterSummary(sp, total);
+  const filterSummary =
+    buildFilterSummary(sp, total) +
+    (textSearch?.truncated
+      ? ` among the newest ${TEXT_SEARCH_CANDIDATE_LIMIT.toLocaleString()} listings — add filters to search older ones`
+      : "");
+  const mapView = sp.view === "map";
 
   // Pagination href builder preserves all active query params
   function buildHref(p: number): string {
@@ -133,7 +172,29 @@ export default async function RentalsPage({ searchParams }: Props) {
     <main className="rentals-page">
       <header className="rentals-page__header">
         <h1 className="rentals-page__title">Properties to Rent</h1>
-        <p className="rentals-page__count">{filterSummary}</p>
+        <div className="rentals-page__count-row">
+          <p className="rentals-page__count">{filterSummary}</p>
+          <div className="rentals-page__count-actions">
+            <Suspense fallback={null}>
+              <SaveSearchButton />
+            </Suspense>
+            <CurrencySelect />
+            <nav className="rentals-view-toggle" aria-label="Results view">
+              <Link
+                href={buildViewHref(sp, "list")}
+                className={"rentals-view-toggle__btn" + (mapView ? "" : " rentals-view-toggle__btn--active")}
+              >
+                List
+              </Link>
+              <Link
+                href={buildViewHref(sp, "map")}
+                className={"rentals-view-toggle__btn" + (mapView ? " rentals-view-toggle__btn--active" : "")}
+              >
+                Map
+              </Link>
+            </nav>
+          </div>
+        </div>
       </header>
 
       <Suspense fallback={null}>
@@ -143,6 +204,12 @@ export default async function RentalsPage({ searchParams }: Props) {
       <div className="rentals-page__grid">
         {/* Left: results + pagination */}
         <div className="rentals-page__main">
+          {mapView && (
+            <Suspense fallback={null}>
+              <RentalsMapView />
+            </Suspense>
+          )}
+
           <RentalResultsList listings={listings} />
 
           <Pagination
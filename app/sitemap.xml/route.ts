@@ -1,6 +1,8 @@
 import { getPostsMeta } from "@/lib/content";
 import { getPublishedAiPosts } from "@/lib/published-posts";
 import { siteConfig } from "@/lib/site";
+import { marketPath } from "@/lib/rentals/marketReport";
+import { loadMarketDistricts } from "@/lib/rentals/marketReportStore";
 
 /** Last significant update to static pages (update when content changes). */
 const STATIC_LASTMOD = "2026-02-24";
@@ -46,9 +48,23 @@ export async function GET() {
         `  <url><loc>${base}/${p.slug}</loc><lastmod>${p.modifiedDate ?? p.date}</lastmod><changefreq>monthly</changefreq><priority>0.8</priority></url>`
     );
 
+  // District market reports — lastmod is the end of their latest index month
+  let marketDistricts: Awaited<ReturnType<typeof loadMarketDistricts>> = [];
+  try {
+    marketDistricts = await loadMarketDistricts();
+  } catch (e) {
+    console.error("[Sitemap] DB error fetching market districts:", e);
+  }
+  const today = new Date().toISOString().slice(0, 10);
+  const marketEntries = marketDistricts.map((d) => {
+    const [y, m] = d.latestMonth.split("-").map(Number);
+    const monthEnd = new Date(Date.UTC(y, m, 0)).toISOString().slice(0, 10);
+    return `  <url><loc>${base}${marketPath(d.city, d.district)}</loc><lastmod>${monthEnd < today ? monthEnd : today}</lastmod><changefreq>weekly</changefreq><priority>0.7</priority></url>`;
+  });
+
   const xml = `<?xml version="1.0" encoding="UTF-8"?>
 <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
-${[...staticEntries, ...postEntries, ...aiEntries].join("\n")}
+${[...staticEntries, ...postEntries, ...aiEntries, ...marketEntries].join("\n")}
 </urlset>`;
 
   return new Response(xml, { headers: { "content-type": "application/xml" } });
@@ -1,8 +1,8 @@
 /**
  * /tools/rentals/analytics — Rental Market Analytics Dashboard
  *
- * Server component that prefetches the default analytics payload
- * and renders the client-side interactive dashboard.
+ * Server component that prefetches the default analytics payload and the
+ * stored monthly reports, and renders the client-side interactive dashboard.
  * Admin-only.
  */
 
@@ -17,6 +17,9 @@ import {
   type IndexRow,
 } from "@/lib/analytics/calculateStats";
 import { volatilityScore } from "@/lib/analytics/volatility";
+import { computeLifecycle, computeDistrictLifecycle } from "@/lib/analytics/listingLifecycle";
+import { getSegmentForecast } from "@/lib/rentals/forecast";
+import { listMonthlyReports } from "@/lib/rentals/monthlyReportStore";
 import { AnalyticsDashboardClient } from "@/components/analytics/AnalyticsDashboardClient";
 
 export const revalidate = 0;
@@ -60,12 +63,33 @@ export default async function AnalyticsPage() {
     .map((r) => r.medianPriceUsd)
     .filter((v): v is number => v !== null);
 
+  const lifecycleListings = await prisma.rentalListing.findMany({
+    where: {
+      city: "Phnom Penh",
+      isClusterPrimary: true,
+      OR: [{ isActive: true }, { lastSeenAt: { gte: since } }],
+    },
+    select: { district: true, firstSeenAt: true, lastSeenAt: true, isActive: true, priceDropPct: true },
+  });
+
+  const forecast = await getSegmentForecast({
+    city: "Phnom Penh",
+    district: null,
+    bedrooms: null,
+    propertyType: null,
+  });
+
   const initialData = {
     summary: { ...summary, volatilityScore: volatilityScore(allMedians) },
     trend,
     distribution,
     movers,
     heatmapDistricts,
+    lifecycle: {
+      ...computeLifecycle(lifecycleListings),
+      districts: computeDistrictLifecycle(lifecycleListings),
+    },
+    forecast,
     filters: {
       city: "Phnom Penh",
       range: "90d",
@@ -90,5 +114,7 @@ export default async function AnalyticsPage() {
     .map((r) => r.district)
     .filter((d): d is string => d !== null);
 
-  return <AnalyticsDashboardClient initialData={initialData} districts={districts} />;
+  const reports = (await listMonthlyReports()).map((r) => ({ ...r, generatedAt: r.generatedAt.toISOString() }));
+
+  return <AnalyticsDashboardClient initialData={initialData} districts={districts} reports={reports} />;
 }
@@ -0,0 +1,61 @@
+import { requireAdmin } from "@/lib/auth";
+import Link from "next/link";
+import { describeSources } from "@/lib/rentals/sources/registry";
+import { QUEUE_MAX_ATTEMPTS } from "@/lib/rentals/config";
+import { QueueBrowser } from "@/components/tools/QueueBrowser";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Scrape queue browser — inspect what each source has waiting, retrying
+ * or dead, and requeue, reprioritise or purge items.
+ */
+export default async function QueuePage() {
+  await requireAdmin();
+  const sources = describeSources().map(({ source, label }) => ({ source, label }));
+
+  return (
+    <div style={pageStyles.page}>
+      <div style={pageStyles.container}>
+        <div style={pageStyles.header}>
+          <Link href="/tools/rentals" style={pageStyles.backLink}>
+            ← Back to Pipeline
+          </Link>
+          <h1 style={pageStyles.heading}>Scrape Queue</h1>
+          <p style={pageStyles.subtitle}>
+            Items go DEAD after {QUEUE_MAX_ATTEMPTS} failed attempts and stay out of
+            the queue until requeued here. Items a running job holds can&apos;t be changed.
+          </p>
+        </div>
+        <QueueBrowser sources={sources} />
+      </div>
+    </div>
+  );
+}
+
+const pageStyles: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "linear-gradient(180deg, #020617 0%, #0f172a 100%)",
+    padding: "32px 24px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  },
+  container: { maxWidth: "1400px", margin: "0 auto" },
+  header: { marginBottom: "24px" },
+  backLink: {
+    color: "#60a5fa",
+    textDecoration: "none",
+    fontSize: "14px",
+    fontWeight: 500,
+    display: "inline-block",
+    marginBottom: "12px",
+  },
+  heading: {
+    fontSize: "28px",
+    fontWeight: 700,
+    color: "#f8fafc",
+    margin: 0,
+  },
+  subtitle: { fontSize: "15px", color: "#94a3b8", marginTop: "6px" },
+};
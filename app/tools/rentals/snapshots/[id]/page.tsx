@@ -0,0 +1,195 @@
+import { requireAdmin } from "@/lib/auth";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { getSnapshotPage } from "@/lib/rentals/snapshotPage";
+
+export const dynamic = "force-dynamic";
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+function formatDateTime(d: Date | string): string {
+  return new Date(d).toLocaleString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatBytes(n: number): string {
+  return n >= 1024 * 1024 ? `${(n / 1024 / 1024).toFixed(1)} MB` : `${Math.round(n / 1024)} KB`;
+}
+
+/**
+ * Snapshot viewer — the raw page a `RentalSnapshot` was parsed from,
+ * rendered in a sandboxed frame, for debugging bad parses.
+ */
+export default async function SnapshotPageViewer({ params }: Props) {
+  await requireAdmin();
+  const { id } = await params;
+
+  const found = await getSnapshotPage(id);
+  if (!found) notFound();
+  const { snapshot, hash, page, history } = found;
+  const pageUrl = `/api/tools/rentals/snapshots/${snapshot.id}/page`;
+
+  return (
+    <div style={pageStyles.page}>
+      <div style={pageStyles.container}>
+        <div style={pageStyles.header}>
+          <Link href="/tools/rentals/listings" style={pageStyles.backLink}>
+            ← Back to Listings
+          </Link>
+          <h1 style={pageStyles.heading}>{snapshot.listing.title}</h1>
+          <p style={pageStyles.subtitle}>
+            {snapshot.listing.source} snapshot of {formatDateTime(snapshot.scrapedAt)}
+            {snapshot.priceMonthlyUsd != null && ` · $${snapshot.priceMonthlyUsd.toLocaleString()}/mo`}
+            {snapshot.priceOriginal && ` · parsed from "${snapshot.priceOriginal}"`}
+          </p>
+          <a href={snapshot.listing.canonicalUrl} target="_blank" rel="noopener noreferrer" style={pageStyles.sourceLink}>
+            {snapshot.listing.canonicalUrl}
+          </a>
+        </div>
+
+        {hash ? (
+          <>
+            <div style={pageStyles.toolbar}>
+              <span style={pageStyles.meta}>
+                {page
+                  ? `Fetched ${formatDateTime(page.fetchedAt)} via ${page.via} · ${formatBytes(page.bytes)}`
+                  : "Archived page"}
+                {" · "}
+                <code style={pageStyles.hash}>{hash.slice(0, 12)}</code>
+              </span>
+              <a href={pageUrl} target="_blank" rel="noopener noreferrer" style={pageStyles.action}>
+                Open in new tab
+              </a>
+              <a href={`${pageUrl}?format=source`} target="_blank" rel="noopener noreferrer" style={pageStyles.action}>
+                View source
+              </a>
+            </div>
+            {/* Empty sandbox: no scripts, forms or same-origin access */}
+            <iframe src={pageUrl} sandbox="" title="Archived page" style={pageStyles.frame} />
+          </>
+        ) : (
+          <div style={pageStyles.empty}>
+            No archived page for this snapshot. Pages are only archived while
+            scrapers run with <code>RENTALS_ARCHIVE_PAGES=true</code>.
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div style={pageStyles.history}>
+            <h2 style={pageStyles.historyHeading}>Archived fetches of this URL</h2>
+            {history
+              .slice()
+              .reverse()
+              .map((p) => (
+                <div key={`${p.fetchedAt}-${p.hash}`} style={pageStyles.historyRow}>
+                  <span>{formatDateTime(p.fetchedAt)}</span>
+                  <span>{p.via}</span>
+                  <span>{formatBytes(p.bytes)}</span>
+                  <code style={{ ...pageStyles.hash, ...(p.hash === hash ? pageStyles.hashCurrent : {}) }}>
+                    {p.hash.slice(0, 12)}
+                  </code>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const pageStyles: Record<string, React.CSSProperties> = {
+  page: {
+    minHeight: "100vh",
+    background: "linear-gradient(180deg, #020617 0%, #0f172a 100%)",
+    padding: "32px 24px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+  },
+  container: { maxWidth: "1400px", margin: "0 auto" },
+  header: { marginBottom: "24px" },
+  backLink: {
+    color: "#60a5fa",
+    textDecoration: "none",
+    fontSize: "14px",
+    fontWeight: 500,
+    display: "inline-block",
+    marginBottom: "12px",
+  },
+  heading: {
+    fontSize: "28px",
+    fontWeight: 700,
+    color: "#f8fafc",
+    margin: 0,
+  },
+  subtitle: { fontSize: "15px", color: "#94a3b8", marginTop: "6px", marginBottom: "4px" },
+  sourceLink: { fontSize: "13px", color: "#60a5fa", wordBreak: "break-all" },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    gap: "12px",
+    flexWrap: "wrap",
+    marginBottom: "12px",
+  },
+  meta: { fontSize: "13px", color: "#94a3b8", marginRight: "auto" },
+  hash: {
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+    fontSize: "12px",
+    color: "#64748b",
+  },
+  hashCurrent: { color: "#6ee7b7" },
+  action: {
+    padding: "6px 12px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#1e293b",
+    color: "#e2e8f0",
+    textDecoration: "none",
+  },
+  frame: {
+    width: "100%",
+    height: "75vh",
+    border: "1px solid #1e293b",
+    borderRadius: "12px",
+    background: "#fff",
+  },
+  empty: {
+    padding: "24px",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+    color: "#94a3b8",
+    fontSize: "14px",
+  },
+  history: {
+    marginTop: "24px",
+    padding: "16px",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  historyHeading: {
+    fontSize: "13px",
+    fontWeight: 600,
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    margin: "0 0 8px",
+  },
+  historyRow: {
+    display: "grid",
+    gridTemplateColumns: "200px 100px 80px 1fr",
+    gap: "12px",
+    padding: "6px 0",
+    fontSize: "13px",
+    color: "#cbd5e1",
+    borderTop: "1px solid #1e293b",
+  },
+};
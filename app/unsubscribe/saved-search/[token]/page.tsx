@@ -0,0 +1,61 @@
+import { prisma } from "@/lib/prisma";
+import { notFound } from "next/navigation";
+import Link from "next/link";
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata() {
+  return { title: "Unsubscribe" };
+}
+
+export default async function SavedSearchUnsubscribePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+
+  if (!token || token.length < 10) {
+    notFound();
+  }
+
+  const search = await prisma.savedSearch.findUnique({
+    where: { unsubscribeToken: token },
+    select: { id: true, name: true, emailAlerts: true },
+  });
+
+  if (!search) {
+    notFound();
+  }
+
+  // Only this search's alerts are turned off; other saved searches keep emailing
+  if (search.emailAlerts) {
+    await prisma.savedSearch.update({
+      where: { id: search.id },
+      data: { emailAlerts: false },
+    });
+  }
+
+  return (
+    <div className="unsubscribe-page">
+      <div className="unsubscribe-card">
+        <div className="unsubscribe-icon">
+          <svg width="48" height="48" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M22 17H2a3 3 0 0 0 3-3V9a7 7 0 0 1 14 0v5a3 3 0 0 0 3 3Z" />
+            <line x1="1" y1="1" x2="23" y2="23" />
+          </svg>
+        </div>
+        <h1 className="unsubscribe-title">Alerts turned off</h1>
+        <p className="unsubscribe-text">
+          You will no longer get emails for <strong>{search.name}</strong>.
+        </p>
+        <p className="unsubscribe-text unsubscribe-text--muted">
+          The search is still saved. You can turn alerts back on or delete it from your saved searches.
+        </p>
+        <Link href="/dashboard/saved-searches" className="btn btn--primary btn--sm" style={{ marginTop: "1.5rem" }}>
+          Manage saved searches
+        </Link>
+      </div>
+    </div>
+  );
+}
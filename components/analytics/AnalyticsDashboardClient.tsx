@@ -9,6 +9,9 @@ import React, { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import dynamic from "next/dynamic";
 import { KpiCards } from "@/components/analytics/KpiCards";
 import { TopMoversTable } from "@/components/analytics/TopMoversTable";
+import { ListingLifecyclePanel } from "@/components/analytics/ListingLifecyclePanel";
+import { MarketReportsPanel, type MarketReportRow } from "@/components/analytics/MarketReportsPanel";
+import type { ForecastBandPoint } from "@/components/analytics/MedianTrendChart";
 
 /* ── Dynamic imports (heavy chart components) ────────────── */
 
@@ -119,6 +122,30 @@ interface AnalyticsPayload {
     listingCount: number;
     medianPriceUsd: number | null;
   }[];
+  lifecycle?: {
+    medianDaysOnMarket: number | null;
+    medianDaysToDelist: number | null;
+    activeCount: number;
+    delistedCount: number;
+    reducedShare: number;
+    medianDiscountPct: number | null;
+    districts: {
+      district: string;
+      medianDaysOnMarket: number | null;
+      medianDaysToDelist: number | null;
+      activeCount: number;
+      delistedCount: number;
+      reducedShare: number;
+      medianDiscountPct: number | null;
+    }[];
+  };
+  forecast?: {
+    points: ForecastBandPoint[];
+    slopePerMonth: number;
+    seasonal: boolean;
+    trainingMonths: number;
+    generatedAt: string;
+  } | null;
   districts?: string[];
   filters: {
     city: string;
@@ -136,13 +163,14 @@ interface AnalyticsPayload {
 interface Props {
   initialData: AnalyticsPayload | null;
   districts: string[];
+  reports: MarketReportRow[];
 }
 
 type Range = "30d" | "90d" | "180d" | "365d";
 
 /* ── Component ───────────────────────────────────────────── */
 
-export function AnalyticsDashboardClient({ initialData, districts: initialDistricts }: Props) {
+export function AnalyticsDashboardClient({ initialData, districts: initialDistricts, reports }: Props) {
   const [data, setData] = useState<AnalyticsPayload | null>(initialData);
   const [loading, setLoading] = useState(false);
   const [availableDistricts, setAvailableDistricts] = useState<string[]>(initialDistricts);
@@ -394,8 +422,10 @@ export function AnalyticsDashboardClient({ initialData, districts: initialDistri
                   Monthly median rental price with a 90-day moving average (dashed line).
                   Switch between median, mean, P25, and P75 metrics using the buttons above the chart.
                   Bars are color-coded: green (&lt;$300), blue ($300–600), amber ($600–1 k), red (&gt;$1 k).
+                  Once a segment has six months of history, the median view extends with a forecast
+                  (dotted line) and its 80% / 95% ranges (shaded bands).
                 </p>
-                <MedianTrendChart data={data.trend} />
+                <MedianTrendChart data={data.trend} forecast={data.forecast?.points} />
               </div>
               <div style={panelStyle}>
                 <h2 style={sectionTitle}>Market Pressure</h2>
@@ -418,8 +448,35 @@ export function AnalyticsDashboardClient({ initialData, districts: initialDistri
               </p>
               <TopMoversTable data={data.movers} />
             </div>
+
+            {/* ── Days on Market & Discounts ──────────── */}
+            {data.lifecycle && (
+              <div style={panelStyle}>
+                <h2 style={sectionTitle}>Days on Market &amp; Discounts</h2>
+                <p style={explainerText}>
+                  How long listings stay up and how often landlords cut the asking price. <strong>Days on
+                  Market</strong> is the age of listings still live; <strong>Days to Delist</strong> is how long
+                  listings that disappeared in the selected range were up for. <strong>Reduced</strong> is the
+                  share of live listings priced below their peak, and <strong>Median Discount</strong> the typical
+                  cut among those. Districts with fewer than 5 live listings are omitted.
+                </p>
+                <ListingLifecyclePanel data={data.lifecycle} />
+              </div>
+            )}
           </>
         )}
+
+        {/* ── Monthly Reports ─────────────────────────── */}
+        <div style={panelStyle}>
+          <h2 style={{ ...sectionTitle, marginBottom: 4 }}>Monthly Reports</h2>
+          <p style={explainerText}>
+            A month&apos;s KPIs, median trend, district movers, volatility and time on market as a PDF or
+            printable HTML report, for the city selected above. Reports are stored per month and city —
+            generating one again refreshes it. The scheduled <strong>Market Report</strong> task builds last
+            month&apos;s automatically. Emailing creates a campaign to marketing subscribers, sent from Admin → Email.
+          </p>
+          <MarketReportsPanel initialReports={reports} city={city} />
+        </div>
       </div>
 
       {/* Spin animation for loading indicator */}
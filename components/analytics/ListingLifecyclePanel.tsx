@@ -0,0 +1,153 @@
+"use client";
+
+import React from "react";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+interface LifecycleStats {
+  medianDaysOnMarket: number | null;
+  medianDaysToDelist: number | null;
+  activeCount: number;
+  delistedCount: number;
+  reducedShare: number;
+  medianDiscountPct: number | null;
+}
+
+interface DistrictLifecycleRow extends LifecycleStats {
+  district: string;
+}
+
+interface Props {
+  data: LifecycleStats & { districts: DistrictLifecycleRow[] };
+}
+
+/* ── Styles ──────────────────────────────────────────────── */
+
+const gridStyle: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))",
+  gap: "12px",
+  marginBottom: "20px",
+};
+
+const statStyle: React.CSSProperties = {
+  borderRadius: "10px",
+  border: "1px solid #1e293b",
+  background: "rgba(15,23,42,0.6)",
+  padding: "14px 16px",
+};
+
+const labelStyle: React.CSSProperties = {
+  fontSize: "10px",
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: "0.08em",
+  color: "#64748b",
+  margin: 0,
+};
+
+const valueStyle: React.CSSProperties = {
+  fontSize: "20px",
+  fontWeight: 700,
+  color: "#e2e8f0",
+  margin: "6px 0 0 0",
+};
+
+const subStyle: React.CSSProperties = { fontSize: "11px", color: "#64748b", margin: "4px 0 0 0" };
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse", fontSize: 13 };
+const thStyle: React.CSSProperties = {
+  padding: "10px 16px",
+  textAlign: "left",
+  fontSize: 10,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: "0.08em",
+  color: "#64748b",
+  borderBottom: "1px solid #1e293b",
+  background: "rgba(15,23,42,0.8)",
+};
+const tdStyle: React.CSSProperties = {
+  padding: "10px 16px",
+  borderBottom: "1px solid rgba(30,41,59,0.5)",
+  color: "#cbd5e1",
+};
+
+/* ── Component ───────────────────────────────────────────── */
+
+export function ListingLifecyclePanel({ data }: Props) {
+  const stats = [
+    {
+      label: "Median Days on Market",
+      value: fmtDays(data.medianDaysOnMarket),
+      sub: `${data.activeCount.toLocaleString()} active listings`,
+    },
+    {
+      label: "Median Days to Delist",
+      value: fmtDays(data.medianDaysToDelist),
+      sub: `${data.delistedCount.toLocaleString()} taken down in range`,
+    },
+    {
+      label: "Price Reduced",
+      value: `${data.reducedShare}%`,
+      sub: "of active listings",
+    },
+    {
+      label: "Median Discount",
+      value: data.medianDiscountPct !== null ? `${data.medianDiscountPct}%` : "—",
+      sub: "below peak asking price",
+    },
+  ];
+
+  return (
+    <div>
+      <div style={gridStyle}>
+        {stats.map((s) => (
+          <div key={s.label} style={statStyle}>
+            <p style={labelStyle}>{s.label}</p>
+            <p style={valueStyle}>{s.value}</p>
+            <p style={subStyle}>{s.sub}</p>
+          </div>
+        ))}
+      </div>
+
+      {data.districts.length > 0 && (
+        <div style={{ overflowX: "auto", borderRadius: 12, border: "1px solid #1e293b" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>District</th>
+                <th style={thStyle}>Days on Market</th>
+                <th style={thStyle}>Days to Delist</th>
+                <th style={thStyle}>Reduced</th>
+                <th style={thStyle}>Median Discount</th>
+                <th style={thStyle}>Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.districts.map((d) => (
+                <tr key={d.district}>
+                  <td style={{ ...tdStyle, color: "#e2e8f0", fontWeight: 500 }}>{d.district}</td>
+                  <td style={tdStyle}>{fmtDays(d.medianDaysOnMarket)}</td>
+                  <td style={tdStyle}>{fmtDays(d.medianDaysToDelist)}</td>
+                  <td style={tdStyle}>{d.reducedShare}%</td>
+                  <td style={{ ...tdStyle, color: d.medianDiscountPct !== null ? "#34d399" : "#64748b" }}>
+                    {d.medianDiscountPct !== null ? `${d.medianDiscountPct}%` : "—"}
+                  </td>
+                  <td style={tdStyle}>{d.activeCount.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function fmtDays(v: number | null): string {
+  if (v === null) return "—";
+  return `${Math.round(v)}d`;
+}
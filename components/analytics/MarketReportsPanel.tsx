@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useState } from "react";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface MarketReportRow {
+  id: string;
+  yearMonth: string;
+  city: string;
+  /** ISO timestamp */
+  generatedAt: string;
+  campaignId: string | null;
+  /** The campaign has been scheduled or sent */
+  published: boolean;
+}
+
+interface Props {
+  initialReports: MarketReportRow[];
+  /** The dashboard's city filter, used for new reports */
+  city: string;
+}
+
+/* ── Styles ──────────────────────────────────────────────── */
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse", fontSize: 13 };
+const thStyle: React.CSSProperties = {
+  padding: "10px 16px",
+  textAlign: "left",
+  fontSize: 11,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: "0.05em",
+  color: "#64748b",
+  borderBottom: "1px solid #1e293b",
+};
+const tdStyle: React.CSSProperties = { padding: "10px 16px", color: "#cbd5e1", borderBottom: "1px solid rgba(30,41,59,0.5)" };
+const linkStyle: React.CSSProperties = { color: "#5eead4", textDecoration: "none", marginRight: 12 };
+const formStyle: React.CSSProperties = { display: "flex", flexWrap: "wrap", alignItems: "flex-end", gap: 12, marginBottom: 16 };
+const labelStyle: React.CSSProperties = {
+  display: "flex",
+  flexDirection: "column",
+  gap: 4,
+  fontSize: 10,
+  fontWeight: 600,
+  textTransform: "uppercase",
+  letterSpacing: "0.08em",
+  color: "#64748b",
+};
+const inputStyle: React.CSSProperties = {
+  borderRadius: 8,
+  border: "1px solid #334155",
+  background: "#0f172a",
+  padding: "6px 12px",
+  fontSize: 11,
+  color: "#e2e8f0",
+  outline: "none",
+};
+const btnStyle: React.CSSProperties = {
+  borderRadius: 8,
+  border: "1px solid #334155",
+  background: "#0f172a",
+  padding: "8px 16px",
+  fontSize: 11,
+  fontWeight: 500,
+  color: "#cbd5e1",
+  cursor: "pointer",
+};
+const messageStyle = (error: boolean): React.CSSProperties => ({
+  margin: "0 0 12px 0",
+  fontSize: 12,
+  color: error ? "#f87171" : "#5eead4",
+});
+
+/** The last full month, "2026-09" */
+function lastMonth(): string {
+  const d = new Date();
+  d.setUTCDate(1);
+  d.setUTCMonth(d.getUTCMonth() - 1);
+  return d.toISOString().slice(0, 7);
+}
+
+function formatMonth(yearMonth: string): string {
+  return new Date(`${yearMonth}-01T00:00:00Z`).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+/* ── Component ───────────────────────────────────────────── */
+
+/**
+ * Stored monthly market reports with PDF / HTML downloads, a form to
+ * generate one for any month, and a button to email a report to
+ * subscribers through the campaign system.
+ */
+export function MarketReportsPanel({ initialReports, city }: Props) {
+  const [reports, setReports] = useState<MarketReportRow[]>(initialReports);
+  const [month, setMonth] = useState(lastMonth);
+  const [email, setEmail] = useState<"" | "draft" | "schedule">("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  const upsertRow = (row: MarketReportRow) =>
+    setReports((prev) =>
+      [row, ...prev.filter((r) => r.id !== row.id)].sort(
+        (a, b) => b.yearMonth.localeCompare(a.yearMonth) || a.city.localeCompare(b.city),
+      ),
+    );
+
+  const generate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy("generate");
+    setMessage(null);
+    try {
+      const res = await fetch("/api/tools/rentals/reports", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ month, city, ...(email ? { email } : {}) }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      upsertRow(json.report);
+      setMessage({
+        text: `${city} report for ${formatMonth(month)} generated${
+          json.campaign ? (json.campaign.created ? ", campaign created" : " (already emailed)") : ""
+        }.`,
+        error: false,
+      });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const emailReport = async (report: MarketReportRow) => {
+    if (!confirm(`Create a draft campaign for the ${report.city} ${formatMonth(report.yearMonth)} report? Send it from the email dashboard.`)) return;
+    setBusy(report.id);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/tools/rentals/reports/${report.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      upsertRow({ ...report, campaignId: json.campaign.campaignId });
+      setMessage({ text: "Draft campaign created — review and send it from Admin → Email.", error: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <form onSubmit={generate} style={formStyle}>
+        <label style={labelStyle}>
+          Month
+          <input type="month" value={month} max={lastMonth()} onChange={(e) => setMonth(e.target.value)} required style={inputStyle} />
+        </label>
+        <label style={labelStyle}>
+          Email
+          <select value={email} onChange={(e) => setEmail(e.target.value as typeof email)} style={inputStyle}>
+            <option value="">Don&apos;t email</option>
+            <option value="draft">Draft campaign</option>
+            <option value="schedule">Send to subscribers now</option>
+          </select>
+        </label>
+        <button type="submit" disabled={busy !== null} style={{ ...btnStyle, opacity: busy ? 0.5 : 1 }}>
+          {busy === "generate" ? "Generating…" : `Generate ${city} report`}
+        </button>
+      </form>
+
+      {message && <p style={messageStyle(message.error)}>{message.text}</p>}
+
+      {reports.length === 0 ? (
+        <p style={{ fontSize: 12, color: "#64748b", margin: 0 }}>No reports yet.</p>
+      ) : (
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Month</th>
+                <th style={thStyle}>City</th>
+                <th style={thStyle}>Generated</th>
+                <th style={thStyle}>Download</th>
+                <th style={thStyle}>Email</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reports.map((r) => (
+                <tr key={r.id}>
+                  <td style={tdStyle}>{formatMonth(r.yearMonth)}</td>
+                  <td style={tdStyle}>{r.city}</td>
+                  <td style={tdStyle}>{new Date(r.generatedAt).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}</td>
+                  <td style={tdStyle}>
+                    <a href={`/api/tools/rentals/reports/${r.id}?format=pdf`} style={linkStyle}>PDF</a>
+                    <a href={`/api/tools/rentals/reports/${r.id}?format=html`} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                      HTML
+                    </a>
+                  </td>
+                  <td style={tdStyle}>
+                    {r.campaignId ? (
+                      <span style={{ color: "#64748b" }}>{r.published ? "Emailed" : "Draft campaign"}</span>
+                    ) : (
+                      <button onClick={() => emailReport(r)} disabled={busy !== null} style={{ ...btnStyle, opacity: busy ? 0.5 : 1 }}>
+                        {busy === r.id ? "Creating…" : "Email"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
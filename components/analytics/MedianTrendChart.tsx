@@ -14,17 +14,37 @@ interface TrendPoint {
   ma90: number | null;
 }
 
+export interface ForecastBandPoint {
+  month: string; // "YYYY-MM"
+  predicted: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
 interface Props {
   data: TrendPoint[];
+  /** Monthly median forecast; drawn after the last bar in the median view */
+  forecast?: ForecastBandPoint[];
+}
+
+interface MonthBucket {
+  label: string;
+  value: number | null;
+  ma90: number | null;
+  forecast: ForecastBandPoint | null;
 }
 
 type BarMetric = "median" | "p25" | "p75" | "mean";
 
 /* ── Component ───────────────────────────────────────────── */
 
-export function MedianTrendChart({ data }: Props) {
+export function MedianTrendChart({ data, forecast }: Props) {
   const [barMetric, setBarMetric] = useState<BarMetric>("median");
   const [showMa, setShowMa] = useState(true);
+  const [showForecast, setShowForecast] = useState(true);
+  const hasForecast = !!forecast && forecast.length > 0;
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
@@ -48,7 +68,7 @@ export function MedianTrendChart({ data }: Props) {
       if (v !== null) months.get(ym)!.values.push(v);
       if (p.ma90 !== null) months.get(ym)!.ma90s.push(p.ma90);
     }
-    return Array.from(months.values()).map((m) => ({
+    const buckets: MonthBucket[] = Array.from(months.values()).map((m) => ({
       label: m.label,
       value:
         m.values.length > 0
@@ -58,9 +78,19 @@ export function MedianTrendChart({ data }: Props) {
         m.ma90s.length > 0
           ? Math.round(m.ma90s.reduce((a, b) => a + b, 0) / m.ma90s.length)
           : null,
+      forecast: null,
     }));
+
+    // Forecasts are of the median, so only extend that view
+    if (showForecast && barMetric === "median" && forecast && buckets.length > 0) {
+      const lastLabel = buckets[buckets.length - 1].label;
+      for (const f of forecast) {
+        if (f.month > lastLabel) buckets.push({ label: f.month, value: null, ma90: null, forecast: f });
+      }
+    }
+    return buckets;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data, barMetric]);
+  }, [data, barMetric, forecast, showForecast]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -94,7 +124,8 @@ export function MedianTrendChart({ data }: Props) {
     // Data range
     const values = monthly.map((m) => m.value).filter((v): v is number => v !== null);
     const ma90Vals = monthly.map((m) => m.ma90).filter((v): v is number => v !== null);
-    const allVals = [...values, ...ma90Vals];
+    const bandVals = monthly.flatMap((m) => (m.forecast ? [m.forecast.lower95, m.forecast.upper95] : []));
+    const allVals = [...values, ...ma90Vals, ...bandVals];
     if (allVals.length === 0) return;
 
     const maxVal = Math.max(...allVals) * 1.1;
@@ -169,6 +200,58 @@ export function MedianTrendChart({ data }: Props) {
       }
     }
 
+    // Forecast: 95% and 80% bands, then the predicted line from the last bar
+    const firstForecast = monthly.findIndex((m) => m.forecast !== null);
+    if (firstForecast > 0) {
+      const centreX = (i: number) => PL + barGap + i * (barW + barGap) + barW / 2;
+      const anchor = monthly[firstForecast - 1];
+      const fc = monthly.slice(firstForecast);
+
+      const band = (lowerKey: "lower80" | "lower95", upperKey: "upper80" | "upper95", color: string) => {
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        if (anchor.value !== null) ctx.moveTo(centreX(firstForecast - 1), yScale(anchor.value));
+        fc.forEach((m, j) => {
+          const x = centreX(firstForecast + j);
+          if (j === 0 && anchor.value === null) ctx.moveTo(x, yScale(m.forecast![upperKey]));
+          else ctx.lineTo(x, yScale(m.forecast![upperKey]));
+        });
+        for (let j = fc.length - 1; j >= 0; j--) {
+          ctx.lineTo(centreX(firstForecast + j), yScale(fc[j].forecast![lowerKey]));
+        }
+        ctx.closePath();
+        ctx.fill();
+      };
+      band("lower95", "upper95", "rgba(56,189,248,0.12)");
+      band("lower80", "upper80", "rgba(56,189,248,0.22)");
+
+      ctx.strokeStyle = "#38bdf8";
+      ctx.lineWidth = 2;
+      ctx.setLineDash([2, 3]);
+      ctx.beginPath();
+      if (anchor.value !== null) ctx.moveTo(centreX(firstForecast - 1), yScale(anchor.value));
+      fc.forEach((m, j) => {
+        const x = centreX(firstForecast + j);
+        if (j === 0 && anchor.value === null) ctx.moveTo(x, yScale(m.forecast!.predicted));
+        else ctx.lineTo(x, yScale(m.forecast!.predicted));
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      fc.forEach((m, j) => {
+        if (barCount <= 12 || (firstForecast + j) % Math.ceil(barCount / 12) === 0) {
+          ctx.fillStyle = "#38bdf8";
+          ctx.font = "10px system-ui";
+          ctx.textAlign = "center";
+          ctx.save();
+          ctx.translate(centreX(firstForecast + j), H - PB + 12);
+          ctx.rotate(-0.5);
+          ctx.fillText(m.label, 0, 0);
+          ctx.restore();
+        }
+      });
+    }
+
     // MA90 line
     if (showMa) {
       ctx.strokeStyle = "#e2e8f0";
@@ -230,6 +313,13 @@ export function MedianTrendChart({ data }: Props) {
         tooltip.style.left = `${e.clientX - rect.left}px`;
         tooltip.style.top = `${e.clientY - rect.top - 40}px`;
         tooltip.innerHTML = `<strong>${m.label}</strong><br/>$${m.value!.toLocaleString()}/mo${m.ma90 !== null ? `<br/>MA90: $${m.ma90.toLocaleString()}` : ""}`;
+      } else if (idx >= 0 && idx < monthly.length && monthly[idx].forecast) {
+        const f = monthly[idx].forecast!;
+        const usd = (v: number) => `$${Math.round(v).toLocaleString()}`;
+        tooltip.style.display = "block";
+        tooltip.style.left = `${e.clientX - rect.left}px`;
+        tooltip.style.top = `${e.clientY - rect.top - 40}px`;
+        tooltip.innerHTML = `<strong>${f.month} (forecast)</strong><br/>${usd(f.predicted)}/mo<br/>80%: ${usd(f.lower80)}–${usd(f.upper80)}<br/>95%: ${usd(f.lower95)}–${usd(f.upper95)}`;
       } else {
         tooltip.style.display = "none";
       }
@@ -290,6 +380,17 @@ export function MedianTrendChart({ data }: Props) {
           />
           90-day MA
         </label>
+        {hasForecast && (
+          <label style={{ display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: barMetric === "median" ? "#94a3b8" : "#475569", cursor: "pointer" }}>
+            <input
+              type="checkbox"
+              checked={showForecast}
+              disabled={barMetric !== "median"}
+              onChange={(e) => setShowForecast(e.target.checked)}
+            />
+            Forecast
+          </label>
+        )}
       </div>
       <div ref={containerRef} style={{ position: "relative", width: "100%" }}>
         <canvas ref={canvasRef} style={{ width: "100%" }} />
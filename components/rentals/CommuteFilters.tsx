@@ -0,0 +1,103 @@
+"use client";
+
+import {
+  COMMUTE_MODES,
+  DEFAULT_COMMUTE_MODE,
+  MAX_COMMUTE_OPTIONS,
+  formatCommutePlaces,
+  parseCommutePlaces,
+  type CommuteMode,
+} from "@/lib/rentals/commute";
+
+/**
+ * Commute row of the /rentals filters: the places pinned on the map (each
+ * removable), how the visitor travels and the longest commute they'll
+ * accept. The selects are submitted with the rest of the filter form.
+ */
+export function CommuteFilters({
+  commute,
+  commuteMode,
+  maxCommute,
+  sort,
+  apply,
+}: {
+  commute: string;
+  commuteMode: string;
+  maxCommute: string;
+  sort: string;
+  apply: (overrides: Record<string, string>) => void;
+}) {
+  const places = parseCommutePlaces(commute);
+
+  if (places.length === 0) {
+    return (
+      <div className="rentals-commute">
+        <span>Commute times:</span>
+        <button
+          type="button"
+          className="rentals-filters__clear rentals-filters__clear--small"
+          onClick={() => apply({ view: "map" })}
+        >
+          Pin your school on the map
+        </button>
+      </div>
+    );
+  }
+
+  const remove = (index: number) => {
+    const rest = places.filter((_, i) => i !== index);
+    apply(
+      rest.length > 0
+        ? { commute: formatCommutePlaces(rest) }
+        : { commute: "", commuteMode: "", maxCommute: "", ...(sort === "commute" ? { sort: "" } : {}) },
+    );
+  };
+
+  return (
+    <div className="rentals-commute">
+      <span>Commute to</span>
+      {places.map((p, i) => (
+        <span key={`${p.label}-${i}`} className="rentals-commute__place">
+          {p.label}
+          <button
+            type="button"
+            className="rentals-commute__remove"
+            onClick={() => remove(i)}
+            aria-label={`Remove ${p.label}`}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+
+      {/* commuteMode -> speeds used for the estimate (lib/rentals/commute.ts) */}
+      <select
+        name="commuteMode"
+        className="rentals-filters__select"
+        defaultValue={commuteMode || DEFAULT_COMMUTE_MODE}
+        aria-label="Travel by"
+      >
+        {(Object.keys(COMMUTE_MODES) as CommuteMode[]).map((m) => (
+          <option key={m} value={m}>
+            {COMMUTE_MODES[m].travel.charAt(0).toUpperCase() + COMMUTE_MODES[m].travel.slice(1)}
+          </option>
+        ))}
+      </select>
+
+      {/* maxCommute -> longest trip to any pinned place, in minutes */}
+      <select
+        name="maxCommute"
+        className="rentals-filters__select"
+        defaultValue={maxCommute}
+        aria-label="Maximum commute"
+      >
+        <option value="">Any commute</option>
+        {MAX_COMMUTE_OPTIONS.map((m) => (
+          <option key={m} value={m}>
+            Up to {m} min
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { formatUsdAs, isCurrencyCode, type CurrencyCode } from "@/lib/rentals/currency";
+
+const STORAGE_KEY = "globescraper_currency";
+
+interface DisplayCurrency {
+  currency: CurrencyCode;
+  setCurrency: (code: CurrencyCode) => void;
+  /** A USD amount in the chosen currency, e.g. "៛4,920,000" */
+  formatUsd: (usd: number) => string;
+}
+
+const DisplayCurrencyContext = createContext<DisplayCurrency>({
+  currency: "USD",
+  setCurrency: () => {},
+  formatUsd: (usd) => formatUsdAs(usd, "USD", 1),
+});
+
+/**
+ * The visitor's display currency for the public rentals pages.
+ *
+ * Prices are stored and rendered server-side in USD; once the page has
+ * loaded, a non-USD choice (kept per-browser in localStorage) fetches the
+ * latest rates from /api/rentals/fx-rates and prices re-render converted.
+ */
+export function CurrencyProvider({ children }: { children: React.ReactNode }) {
+  const [currency, setCurrencyState] = useState<CurrencyCode>("USD");
+  const [rates, setRates] = useState<Partial<Record<CurrencyCode, number>> | null>(null);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (isCurrencyCode(stored)) setCurrencyState(stored);
+    } catch {
+      // Storage unavailable
+    }
+  }, []);
+
+  // Rates are only needed once something other than USD is picked
+  useEffect(() => {
+    if (currency === "USD" || rates) return;
+    let cancelled = false;
+    fetch("/api/rentals/fx-rates")
+      .then((res) => (res.ok ? res.json() : Promise.reject(res)))
+      .then((data: { rates: Partial<Record<CurrencyCode, number>> }) => {
+        if (!cancelled) setRates(data.rates);
+      })
+      .catch(() => {
+        // Keep showing USD
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currency, rates]);
+
+  const setCurrency = useCallback((code: CurrencyCode) => {
+    setCurrencyState(code);
+    try {
+      localStorage.setItem(STORAGE_KEY, code);
+    } catch {
+      // Storage unavailable
+    }
+  }, []);
+
+  const value = useMemo<DisplayCurrency>(
+    () => ({
+      currency,
+      setCurrency,
+      formatUsd: (usd) => formatUsdAs(usd, currency, rates?.[currency]),
+    }),
+    [currency, rates, setCurrency]
+  );
+
+  return <DisplayCurrencyContext.Provider value={value}>{children}</DisplayCurrencyContext.Provider>;
+}
+
+export function useDisplayCurrency(): DisplayCurrency {
+  return useContext(DisplayCurrencyContext);
+}
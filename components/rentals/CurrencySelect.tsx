@@ -0,0 +1,25 @@
+"use client";
+
+import { CURRENCIES, CURRENCY_CODES, type CurrencyCode } from "@/lib/rentals/currency";
+import { useDisplayCurrency } from "./CurrencyProvider";
+
+/** Picker for the currency prices are shown in (filters stay in USD). */
+export function CurrencySelect() {
+  const { currency, setCurrency } = useDisplayCurrency();
+
+  return (
+    <select
+      className="rentals-currency-select"
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+      aria-label="Show prices in"
+      title="Show prices in"
+    >
+      {CURRENCY_CODES.map((code) => (
+        <option key={code} value={code}>
+          {CURRENCIES[code].symbol} {code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,70 @@
+"use client";
+
+import Link from "next/link";
+import { useDisplayCurrency } from "./CurrencyProvider";
+import {
+  compareToMarket,
+  describeComparison,
+  type FairRentEstimate,
+} from "@/lib/rentals/fairRent";
+
+/**
+ * "Is this a fair price?" — the estimated typical rent range for a flat,
+ * and where its asking rent falls against it. Used on listing pages and
+ * the public fair-rent form.
+ */
+export function FairRentPanel({
+  estimate,
+  askingUsd,
+  formHref,
+}: {
+  estimate: FairRentEstimate;
+  askingUsd: number | null;
+  /** The public form prefilled with this flat; omitted on the form itself */
+  formHref?: string;
+}) {
+  const { formatUsd } = useDisplayCurrency();
+  const comparison = askingUsd !== null ? compareToMarket(askingUsd, estimate) : null;
+
+  // Scale the bar so the range and the asking rent both fit with some margin
+  const lo = Math.min(estimate.low, askingUsd ?? estimate.low) * 0.8;
+  const hi = Math.max(estimate.high, askingUsd ?? estimate.high) * 1.2;
+  const at = (v: number) => `${((v - lo) / (hi - lo)) * 100}%`;
+
+  return (
+    <div className="fair-rent">
+      {comparison && (
+        <p className={`fair-rent__verdict fair-rent__verdict--${comparison.position}`}>
+          {describeComparison(comparison)}
+        </p>
+      )}
+      <p className="fair-rent__range">
+        Similar homes typically rent for <strong>{formatUsd(estimate.low)}</strong> to{" "}
+        <strong>{formatUsd(estimate.high)}</strong> a month, around {formatUsd(estimate.mid)}.
+      </p>
+
+      <div className="fair-rent__bar" aria-hidden="true">
+        <span className="fair-rent__band" style={{ left: at(estimate.low), width: `calc(${at(estimate.high)} - ${at(estimate.low)})` }} />
+        <span className="fair-rent__mid" style={{ left: at(estimate.mid) }} />
+        {askingUsd !== null && (
+          <span className="fair-rent__asking" style={{ left: at(askingUsd) }}>
+            <span>{formatUsd(askingUsd)}</span>
+          </span>
+        )}
+      </div>
+
+      <p className="fair-rent__note">
+        Estimated from {estimate.sampleSize > 0 ? `${estimate.sampleSize.toLocaleString("en-US")} homes on the market` : "our daily rent index"}
+        {estimate.sampleSize > 0 && estimate.segmentListings > 0 &&
+          `, weighted towards the ${estimate.segmentListings.toLocaleString("en-US")} with the same district, bedrooms and type in our latest daily index`}
+        . Asking rents only — what tenants finally agree can be lower.
+        {formHref && (
+          <>
+            {" "}
+            <Link href={formHref}>Try the estimator with other details →</Link>
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
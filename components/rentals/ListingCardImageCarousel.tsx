@@ -1,10 +1,11 @@
 "use client";
 
-import Image from "next/image";
 import { useState, useRef, useCallback, useEffect } from "react";
+import type { ListingPhoto as Photo } from "@/lib/rentals/listingImages";
+import { ListingPhoto } from "./ListingPhoto";
 
 interface Props {
-  images: string[];
+  photos: Photo[];
   alt: string;
 }
 
@@ -15,9 +16,10 @@ interface Props {
  * - Touch-event based swipe preserves vertical scroll.
  * - Desktop: hover arrows for prev/next (triggered by .rental-card:hover).
  * - No global listeners; everything scoped to the viewport element.
+ * - Hosted photos load a card-sized WebP variant (see ListingPhoto).
  */
-export function ListingCardImageCarousel({ images, alt }: Props) {
-  const total = images.length;
+export function ListingCardImageCarousel({ photos, alt }: Props) {
+  const total = photos.length;
   const [index, setIndex] = useState(0);
 
   // ── Refs for drag tracking (avoids rerenders mid-gesture) ──
@@ -191,15 +193,12 @@ export function ListingCardImageCarousel({ images, alt }: Props) {
         className="card-carousel__track"
         style={{ transform: `translateX(${-index * 100}%)` }}
       >
-        {images.map((src, i) => (
-          <div key={`${src}-${i}`} className="card-carousel__slide">
-            <Image
-              src={src}
+        {photos.map((photo, i) => (
+          <div key={`${photo.src}-${i}`} className="card-carousel__slide">
+            <ListingPhoto
+              photo={photo}
               alt={`${alt} - photo ${i + 1}`}
-              fill
               sizes="(max-width: 640px) 100vw, 40vw"
-              quality={60}
-              unoptimized
               draggable={false}
             />
           </div>
@@ -5,6 +5,19 @@ import { ListingFactsCard } from "@/components/rentals/ListingFactsCard";
 import { AmenitiesList } from "@/components/rentals/AmenitiesList";
 import { ListingMap } from "@/components/rentals/ListingMap";
 import { useSavedListings } from "@/components/rentals/useSavedListings";
+import { useDisplayCurrency } from "@/components/rentals/CurrencyProvider";
+import { CurrencySelect } from "@/components/rentals/CurrencySelect";
+import { formatMoney, isCurrencyCode } from "@/lib/rentals/currency";
+import { listingPhotos } from "@/lib/rentals/listingImages";
+import { SimilarListingsRail, type SimilarListing } from "@/components/rentals/SimilarListingsRail";
+import { FairRentPanel } from "@/components/rentals/FairRentPanel";
+import { compareToMarket, describeComparison, type FairRentEstimate } from "@/lib/rentals/fairRent";
+import {
+  PriceHistoryChart,
+  EVENT_COLORS,
+  type PriceHistoryPoint,
+  type PriceHistoryEvent,
+} from "@/components/rentals/PriceHistoryChart";
 
 interface DetailListing {
   id: string;
@@ -17,7 +30,12 @@ interface DetailListing {
   bathrooms: number | null;
   sizeSqm: number | null;
   priceMonthlyUsd: number | null;
+  /** Price as the source quoted it, when not in USD */
+  priceAmount: number | null;
+  currency: string | null;
   imageUrlsJson: string | null;
+  /** Self-hosted copies of the photos, once the image job has run */
+  hostedImagesJson: string | null;
   description: string | null;
   descriptionRewritten: string | null;
   amenitiesJson: string | null;
@@ -28,36 +46,76 @@ interface DetailListing {
   longitude: number | null;
   canonicalUrl: string;
   source: string;
-  priceHistory: { date: string; price: number | null }[];
+  isActive: boolean;
+  peakPriceUsd: number | null;
+  priceDropPct: number | null;
+  priceHistory: PriceHistoryPoint[];
+  priceEvents: PriceHistoryEvent[];
 }
 
-export function ListingDetailClient({ listing }: { listing: DetailListing }) {
+const EVENT_LABELS: Record<PriceHistoryEvent["type"], string> = {
+  drop: "Price reduced",
+  rise: "Price increased",
+  relisted: "Back on the market",
+  delisted: "Taken off the market",
+};
+
+export function ListingDetailClient({
+  listing,
+  similar = [],
+  fairRent = null,
+}: {
+  listing: DetailListing;
+  similar?: SimilarListing[];
+  /** Estimated market rent, when the listing's type and data allow one */
+  fairRent?: { estimate: FairRentEstimate; formHref: string } | null;
+}) {
   const { isSaved, toggleSaved } = useSavedListings();
+  const { currency: displayCurrency, formatUsd } = useDisplayCurrency();
 
   const displayTitle = listing.titleRewritten || listing.title;
   const desc = listing.descriptionRewritten || listing.description || "";
-  const images = parseImages(listing.imageUrlsJson);
-  const monthly = listing.priceMonthlyUsd ? Math.round(listing.priceMonthlyUsd) : null;
-  const weekly = listing.priceMonthlyUsd ? Math.round((listing.priceMonthlyUsd * 12) / 52) : null;
+  const photos = listingPhotos(listing.imageUrlsJson, listing.hostedImagesJson);
+  const monthly = listing.priceMonthlyUsd || null;
+  // Shown when the source quoted another currency than the one on screen
+  const quoted =
+    listing.priceAmount != null && isCurrencyCode(listing.currency) && listing.currency !== displayCurrency
+      ? formatMoney(listing.priceAmount, listing.currency)
+      : null;
+  const market = fairRent && monthly != null ? compareToMarket(monthly, fairRent.estimate) : null;
 
   return (
     <>
       <div className="listing-detail__grid">
         {/* Left column */}
         <div>
-          <ListingGallery images={images} alt={displayTitle} />
+          <ListingGallery photos={photos} alt={displayTitle} />
 
           <div className="listing-detail__header">
             <h1 className="listing-detail__title">{displayTitle}</h1>
             <div className="listing-detail__price-row">
               {monthly != null ? (
                 <>
-                  <span className="listing-detail__price">${monthly.toLocaleString()} pcm</span>
-                  <span className="listing-detail__price-weekly">${weekly!.toLocaleString()} pw</span>
+                  <span className="listing-detail__price">{formatUsd(monthly)} pcm</span>
+                  <span className="listing-detail__price-weekly">{formatUsd((monthly * 12) / 52)} pw</span>
+                  {quoted && (
+                    <span className="listing-detail__price-quoted">Listed at {quoted} pcm</span>
+                  )}
                 </>
               ) : (
                 <span className="listing-detail__price">Price on request</span>
               )}
+              {listing.priceDropPct != null && listing.peakPriceUsd != null && (
+                <span className="listing-detail__price-drop">
+                  ↓ {listing.priceDropPct}% from {formatUsd(listing.peakPriceUsd)}
+                </span>
+              )}
+              {market && (
+                <a href="#fair-rent" className={`listing-detail__price-market fair-rent__verdict--${market.position}`}>
+                  {describeComparison(market)}
+                </a>
+              )}
+              <CurrencySelect />
             </div>
             <p className="listing-detail__date">
               {listing.postedAt ? `Added on ${fmtDate(listing.postedAt)}` : `First seen ${fmtDate(listing.firstSeenAt)}`}
@@ -95,33 +153,39 @@ export function ListingDetailClient({ listing }: { listing: DetailListing }) {
             </section>
           )}
 
+          {/* Fair rent */}
+          {fairRent && (
+            <section id="fair-rent" className="listing-detail__section">
+              <h2 className="listing-detail__section-title">Is this a fair price?</h2>
+              <FairRentPanel estimate={fairRent.estimate} askingUsd={monthly} formHref={fairRent.formHref} />
+            </section>
+          )}
+
           {/* Price History */}
           <section className="listing-detail__section">
             <h2 className="listing-detail__section-title">Price History</h2>
+            <PriceHistoryChart points={listing.priceHistory} events={listing.priceEvents} />
             <div className="listing-history">
-              {listing.priceHistory.length <= 1 ? (
+              {listing.priceEvents.length === 0 ? (
                 <span style={{ color: "var(--text-muted)", fontSize: "0.875rem" }}>
-                  No price changes
+                  No price changes since first seen on {fmtDate(listing.firstSeenAt)}
                 </span>
               ) : (
-                listing.priceHistory.map((entry, i) => (
+                [...listing.priceEvents].reverse().map((event, i) => (
                   <div key={i} className="listing-history__item">
-                    <span className="listing-history__dot" style={{
-                      background: i === 0 ? "#64748b" : entry.price != null && listing.priceHistory[i - 1].price != null
-                        ? entry.price < listing.priceHistory[i - 1].price! ? "#4ade80" : "#f87171"
-                        : "#818cf8"
-                    }} />
-                    <span className="listing-history__label">{fmtDate(entry.date)}</span>
+                    <span className="listing-history__dot" style={{ background: EVENT_COLORS[event.type] }} />
+                    <span className="listing-history__label">{fmtDate(event.date)}</span>
                     <span style={{ fontWeight: 500 }}>
-                      {entry.price != null ? `$${Math.round(entry.price)}/mo` : "Price removed"}
-                      {i > 0 && entry.price != null && listing.priceHistory[i - 1].price != null && (
+                      {EVENT_LABELS[event.type]}
+                      {event.priceUsd != null && ` · ${formatUsd(event.priceUsd)}/mo`}
+                      {event.changePct != null && event.changePct !== 0 && (
                         <span style={{
                           marginLeft: "6px",
                           fontSize: "0.8rem",
-                          color: entry.price < listing.priceHistory[i - 1].price! ? "#4ade80" : "#f87171",
+                          color: event.changePct < 0 ? EVENT_COLORS.drop : EVENT_COLORS.rise,
                         }}>
-                          {entry.price < listing.priceHistory[i - 1].price! ? "↓" : "↑"}
-                          ${Math.abs(Math.round(entry.price - listing.priceHistory[i - 1].price!))}
+                          {event.changePct < 0 ? "↓" : "↑"}
+                          {Math.abs(event.changePct)}%
                         </span>
                       )}
                     </span>
@@ -148,6 +212,7 @@ export function ListingDetailClient({ listing }: { listing: DetailListing }) {
         />
       </div>
 
+      <SimilarListingsRail listings={similar} />
     </>
   );
 }
@@ -164,16 +229,6 @@ function formatSourceName(source: string): string {
   return map[source] ?? source;
 }
 
-function parseImages(json: string | null): string[] {
-  if (!json) return [];
-  try {
-    const arr = JSON.parse(json);
-    return Array.isArray(arr) ? arr.filter((u: unknown) => typeof u === "string" && (u as string).startsWith("http")) : [];
-  } catch {
-    return [];
-  }
-}
-
 function fmtDate(d: string | Date): string {
   return new Date(d).toLocaleDateString("en-GB", {
     day: "2-digit",
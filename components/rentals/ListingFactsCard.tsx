@@ -1,3 +1,7 @@
+"use client";
+
+import { useDisplayCurrency } from "./CurrencyProvider";
+
 interface FactsCardProps {
   priceMonthlyUsd: number | null;
   propertyType: string;
@@ -25,8 +29,9 @@ export function ListingFactsCard({
   sourceUrl,
   sourceName,
 }: FactsCardProps) {
-  const monthly = priceMonthlyUsd ? `$${Math.round(priceMonthlyUsd).toLocaleString()}` : "Ask";
-  const weekly = priceMonthlyUsd ? `$${Math.round((priceMonthlyUsd * 12) / 52).toLocaleString()} pw` : null;
+  const { formatUsd } = useDisplayCurrency();
+  const monthly = priceMonthlyUsd ? formatUsd(priceMonthlyUsd) : "Ask";
+  const weekly = priceMonthlyUsd ? `${formatUsd((priceMonthlyUsd * 12) / 52)} pw` : null;
 
   return (
     <aside className="listing-facts">
@@ -1,18 +1,19 @@
 "use client";
 
-import Image from "next/image";
 import { useState } from "react";
+import type { ListingPhoto as Photo } from "@/lib/rentals/listingImages";
+import { ListingPhoto } from "./ListingPhoto";
 
 export function ListingGallery({
-  images,
+  photos,
   alt,
 }: {
-  images: string[];
+  photos: Photo[];
   alt: string;
 }) {
   const [activeIdx, setActiveIdx] = useState(0);
 
-  if (images.length === 0) {
+  if (photos.length === 0) {
     return (
       <div className="listing-gallery">
         <div className="listing-gallery__hero" style={{ display: "flex", alignItems: "center", justifyContent: "center", color: "var(--text-muted)" }}>
@@ -25,14 +26,11 @@ export function ListingGallery({
   return (
     <div className="listing-gallery">
       <div className="listing-gallery__hero">
-        <Image
-          src={images[activeIdx]}
+        <ListingPhoto
+          photo={photos[activeIdx]}
           alt={`${alt} - photo ${activeIdx + 1}`}
-          fill
           sizes="(max-width: 900px) 100vw, 60vw"
-          quality={75}
           priority={activeIdx === 0}
-          unoptimized
         />
         <span className="listing-gallery__count">
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
@@ -40,13 +38,13 @@ export function ListingGallery({
             <circle cx="8.5" cy="8.5" r="1.5" />
             <path d="m21 15-5-5L5 21" />
           </svg>
-          {activeIdx + 1}/{images.length}
+          {activeIdx + 1}/{photos.length}
         </span>
       </div>
 
-      {images.length > 1 && (
+      {photos.length > 1 && (
         <div className="listing-gallery__thumbs">
-          {images.map((src, i) => (
+          {photos.map((photo, i) => (
             <button
               key={i}
               type="button"
@@ -54,14 +52,7 @@ export function ListingGallery({
               onClick={() => setActiveIdx(i)}
               aria-label={`View photo ${i + 1}`}
             >
-              <Image
-                src={src}
-                alt={`${alt} - thumbnail ${i + 1}`}
-                fill
-                sizes="72px"
-                quality={40}
-                unoptimized
-              />
+              <ListingPhoto photo={photo} alt={`${alt} - thumbnail ${i + 1}`} sizes="72px" />
             </button>
           ))}
         </div>
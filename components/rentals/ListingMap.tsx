@@ -10,6 +10,37 @@ interface Props {
   title?: string;
 }
 
+/** A listing on the /rentals map view (GET /api/rentals/map-points) */
+export interface ListingMapPoint {
+  id: string;
+  lat: number;
+  lng: number;
+  title: string;
+  propertyType: string;
+  bedrooms: number | null;
+  priceMonthlyUsd: number | null;
+}
+
+/** Dark CARTO basemap shared by the listing and search maps */
+export function addListingTiles(map: L.Map): void {
+  L.tileLayer("https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png", {
+    attribution:
+      '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> &copy; <a href="https://carto.com/">CARTO</a>',
+    maxZoom: 19,
+  }).addTo(map);
+}
+
+/** Custom marker icon (avoids broken default Leaflet icon in Next.js) */
+export function listingMarkerIcon(): L.DivIcon {
+  return L.divIcon({
+    className: "listing-map-marker",
+    html: '<svg width="28" height="40" viewBox="0 0 28 40" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M14 0C6.268 0 0 6.268 0 14c0 10.5 14 26 14 26s14-15.5 14-26C28 6.268 21.732 0 14 0z" fill="#6366f1"/><circle cx="14" cy="14" r="6" fill="#fff"/></svg>',
+    iconSize: [28, 40],
+    iconAnchor: [14, 40],
+    popupAnchor: [0, -40],
+  });
+}
+
 export function ListingMap({ lat, lng, title }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<L.Map | null>(null);
@@ -24,22 +55,9 @@ export function ListingMap({ lat, lng, title }: Props) {
       attributionControl: true,
     });
 
-    L.tileLayer("https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png", {
-      attribution:
-        '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> &copy; <a href="https://carto.com/">CARTO</a>',
-      maxZoom: 19,
-    }).addTo(map);
-
-    /* Custom marker icon (avoids broken default Leaflet icon in Next.js) */
-    const icon = L.divIcon({
-      className: "listing-map-marker",
-      html: '<svg width="28" height="40" viewBox="0 0 28 40" fill="none" xmlns="http://www.w3.org/2000/svg"><path d="M14 0C6.268 0 0 6.268 0 14c0 10.5 14 26 14 26s14-15.5 14-26C28 6.268 21.732 0 14 0z" fill="#6366f1"/><circle cx="14" cy="14" r="6" fill="#fff"/></svg>',
-      iconSize: [28, 40],
-      iconAnchor: [14, 40],
-      popupAnchor: [0, -40],
-    });
+    addListingTiles(map);
 
-    const marker = L.marker([lat, lng], { icon }).addTo(map);
+    const marker = L.marker([lat, lng], { icon: listingMarkerIcon() }).addTo(map);
     if (title) marker.bindPopup(title);
 
     mapRef.current = map;
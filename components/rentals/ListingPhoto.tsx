@@ -0,0 +1,41 @@
+"use client";
+
+import Image from "next/image";
+import { hostedImageSrcSet, hostedImageUrl, type ListingPhoto as Photo } from "@/lib/rentals/listingImages";
+
+interface Props {
+  photo: Photo;
+  alt: string;
+  sizes: string;
+  priority?: boolean;
+  draggable?: boolean;
+}
+
+/**
+ * One listing photo filling its (positioned) parent. Hosted photos load
+ * the WebP variant closest to the rendered size, with JPEG as the
+ * fallback; photos not hosted yet load the source URL as-is.
+ */
+export function ListingPhoto({ photo, alt, sizes, priority, draggable }: Props) {
+  const hosted = photo.hosted;
+  if (!hosted) {
+    return (
+      <Image src={photo.src} alt={alt} fill sizes={sizes} priority={priority} unoptimized draggable={draggable} />
+    );
+  }
+
+  return (
+    <picture>
+      <source type="image/webp" srcSet={hostedImageSrcSet(hosted, "webp")} sizes={sizes} />
+      <Image
+        src={hostedImageUrl(hosted, Infinity, "jpg")}
+        loader={({ width }) => hostedImageUrl(hosted, width, "jpg")}
+        alt={alt}
+        fill
+        sizes={sizes}
+        priority={priority}
+        draggable={draggable}
+      />
+    </picture>
+  );
+}
@@ -0,0 +1,42 @@
+import { QUALITY_FLAG_LABELS, RISK_FLAG_CODES, parseQualityFlags } from "@/lib/rentals/qualityFlags";
+
+/** Quality score at or above which a low-risk listing gets the "complete" badge */
+const COMPLETE_MIN_QUALITY = 85;
+
+/**
+ * Warning (or "complete listing") badge from the nightly quality / risk
+ * score. Unscored listings and ordinary ones show nothing.
+ */
+export function ListingQualityBadge({
+  riskLevel,
+  qualityScore,
+  qualityFlagsJson,
+}: {
+  riskLevel: "LOW" | "MEDIUM" | "HIGH" | null;
+  qualityScore: number | null;
+  qualityFlagsJson: string | null;
+}) {
+  if (!riskLevel) return null;
+
+  if (riskLevel === "LOW") {
+    if ((qualityScore ?? 0) < COMPLETE_MIN_QUALITY) return null;
+    return (
+      <span className="rental-card__badge rental-card__badge--complete" title="Price, photos and details all look complete">
+        ✓ Complete listing
+      </span>
+    );
+  }
+
+  const reasons = parseQualityFlags(qualityFlagsJson)
+    .filter((f) => RISK_FLAG_CODES.has(f.code))
+    .map((f) => QUALITY_FLAG_LABELS[f.code]);
+
+  return (
+    <span
+      className={"rental-card__badge " + (riskLevel === "HIGH" ? "rental-card__badge--high" : "rental-card__badge--medium")}
+      title={[...reasons, "Never pay a deposit before viewing in person."].join("\n")}
+    >
+      ⚠ {riskLevel === "HIGH" ? "Check carefully" : "Some warning signs"}
+    </span>
+  );
+}
@@ -0,0 +1,96 @@
+/**
+ * Monthly median rent (line, with the p25–p75 band shaded) over listing
+ * counts (bars) for a market page. Plain SVG, rendered on the server.
+ */
+
+import { formatMonth, monthDate, type MarketTrendPoint } from "@/lib/rentals/marketReport";
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 16, right: 16, bottom: 28, left: 52 };
+
+export function MarketTrendChart({ points }: { points: MarketTrendPoint[] }) {
+  const priced = points.filter((p): p is MarketTrendPoint & { medianRent: number } => p.medianRent !== null);
+  if (priced.length < 2) return null;
+
+  const values = priced.flatMap((p) => [p.medianRent, p.p25Rent ?? p.medianRent, p.p75Rent ?? p.medianRent]);
+  const minP = Math.min(...values);
+  const maxP = Math.max(...values);
+  const span = Math.max(maxP - minP, maxP * 0.1, 1);
+  const lo = Math.max(0, minP - span * 0.2);
+  const hi = maxP + span * 0.2;
+  const maxCount = Math.max(...points.map((p) => p.listingCount), 1);
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const slot = innerW / points.length;
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (p: number) => PAD.top + (1 - (p - lo) / (hi - lo)) * innerH;
+
+  const index = new Map(points.map((p, i) => [p.month, i]));
+  const line = priced.map((p, i) => `${i === 0 ? "M" : "L"}${x(index.get(p.month)!).toFixed(1)},${y(p.medianRent).toFixed(1)}`).join(" ");
+  const banded = priced.filter((p) => p.p25Rent !== null && p.p75Rent !== null);
+  const band =
+    banded.length >= 2
+      ? banded.map((p, i) => `${i === 0 ? "M" : "L"}${x(index.get(p.month)!).toFixed(1)},${y(p.p75Rent!).toFixed(1)}`).join(" ") +
+        " " +
+        [...banded].reverse().map((p) => `L${x(index.get(p.month)!).toFixed(1)},${y(p.p25Rent!).toFixed(1)}`).join(" ") +
+        " Z"
+      : null;
+
+  const ticks = [lo + (hi - lo) * 0.2, (lo + hi) / 2, lo + (hi - lo) * 0.8];
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width="100%"
+      role="img"
+      aria-label="Median monthly rent and listings by month"
+      style={{ display: "block", maxWidth: "100%", height: "auto" }}
+    >
+      {points.map((p, i) => {
+        const h = (p.listingCount / maxCount) * innerH * 0.35;
+        return (
+          <rect
+            key={p.month}
+            x={x(i) - slot * 0.3}
+            y={PAD.top + innerH - h}
+            width={slot * 0.6}
+            height={h}
+            fill="var(--border)"
+          >
+            <title>{`${formatMonth(p.month)} · ${p.listingCount} listings`}</title>
+          </rect>
+        );
+      })}
+
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="var(--border)" strokeDasharray="3 4" />
+          <text x={PAD.left - 8} y={y(t) + 4} textAnchor="end" fontSize="11" fill="var(--text-muted)">
+            ${Math.round(t).toLocaleString()}
+          </text>
+        </g>
+      ))}
+
+      <text x={x(0)} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="var(--text-muted)">
+        {shortMonth(points[0].month)}
+      </text>
+      <text x={x(points.length - 1)} y={HEIGHT - 8} textAnchor="middle" fontSize="11" fill="var(--text-muted)">
+        {shortMonth(points[points.length - 1].month)}
+      </text>
+
+      {band && <path d={band} fill="var(--primary)" fillOpacity="0.12" stroke="none" />}
+      <path d={line} fill="none" stroke="var(--primary)" strokeWidth="2" strokeLinejoin="round" />
+      {priced.map((p) => (
+        <circle key={p.month} cx={x(index.get(p.month)!)} cy={y(p.medianRent)} r="3.5" fill="var(--primary)">
+          <title>{`${formatMonth(p.month)} · median $${Math.round(p.medianRent).toLocaleString()}/mo`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function shortMonth(yearMonth: string): string {
+  return monthDate(yearMonth).toLocaleDateString("en-GB", { month: "short", year: "2-digit", timeZone: "UTC" });
+}
@@ -1,9 +1,15 @@
-/** Format a monthly USD price as "$800 pcm" */
+"use client";
+
+import { useDisplayCurrency } from "./CurrencyProvider";
+
+/** Format a monthly USD price as "$800 pcm", in the visitor's display currency */
 export function PriceBlock({
   priceMonthlyUsd,
 }: {
   priceMonthlyUsd: number | null;
 }) {
+  const { formatUsd } = useDisplayCurrency();
+
   if (!priceMonthlyUsd) {
     return (
       <div className="rental-card__price-block">
@@ -12,13 +18,12 @@ export function PriceBlock({
     );
   }
 
-  const monthly = Math.round(priceMonthlyUsd);
-  const weekly = Math.round((priceMonthlyUsd * 12) / 52);
+  const weekly = (priceMonthlyUsd * 12) / 52;
 
   return (
     <div className="rental-card__price-block">
-      <span className="rental-card__price">${monthly.toLocaleString()} pcm</span>
-      <span className="rental-card__price-weekly">${weekly.toLocaleString()} pw</span>
+      <span className="rental-card__price">{formatUsd(priceMonthlyUsd)} pcm</span>
+      <span className="rental-card__price-weekly">{formatUsd(weekly)} pw</span>
     </div>
   );
 }
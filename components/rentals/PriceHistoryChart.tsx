@@ -0,0 +1,112 @@
+"use client";
+
+/**
+ * Step chart of a listing's asking price over time, with drop / rise /
+ * relist markers from lib/rentals/priceHistory. Plain SVG so it renders
+ * on the listing page without pulling in a chart library.
+ */
+
+export interface PriceHistoryPoint {
+  date: string;
+  price: number;
+}
+
+export interface PriceHistoryEvent {
+  type: "drop" | "rise" | "relisted" | "delisted";
+  date: string;
+  priceUsd: number | null;
+  previousPriceUsd: number | null;
+  changePct: number | null;
+}
+
+const WIDTH = 640;
+const HEIGHT = 180;
+const PAD = { top: 16, right: 16, bottom: 28, left: 52 };
+
+export const EVENT_COLORS: Record<PriceHistoryEvent["type"], string> = {
+  drop: "#4ade80",
+  rise: "#f87171",
+  relisted: "#818cf8",
+  delisted: "#64748b",
+};
+
+export function PriceHistoryChart({
+  points,
+  events,
+}: {
+  points: PriceHistoryPoint[];
+  events: PriceHistoryEvent[];
+}) {
+  if (points.length < 2) return null;
+
+  const times = points.map((p) => new Date(p.date).getTime());
+  const prices = points.map((p) => p.price);
+  const t0 = times[0];
+  const t1 = Math.max(times[times.length - 1], t0 + 1);
+  const minP = Math.min(...prices);
+  const maxP = Math.max(...prices);
+  // Pad the y-range so a flat line or a small change isn't drawn edge to edge
+  const span = Math.max(maxP - minP, maxP * 0.1, 1);
+  const lo = Math.max(0, minP - span * 0.25);
+  const hi = maxP + span * 0.25;
+
+  const innerW = WIDTH - PAD.left - PAD.right;
+  const innerH = HEIGHT - PAD.top - PAD.bottom;
+  const x = (t: number) => PAD.left + ((t - t0) / (t1 - t0)) * innerW;
+  const y = (p: number) => PAD.top + (1 - (p - lo) / (hi - lo)) * innerH;
+
+  // Step path: hold each price until the next observation
+  let path = `M${x(times[0]).toFixed(1)},${y(prices[0]).toFixed(1)}`;
+  for (let i = 1; i < points.length; i++) {
+    path += ` H${x(times[i]).toFixed(1)} V${y(prices[i]).toFixed(1)}`;
+  }
+
+  const ticks = [lo + (hi - lo) * 0.2, (lo + hi) / 2, lo + (hi - lo) * 0.8];
+  const markers = events.filter((e) => e.priceUsd !== null);
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width="100%"
+      role="img"
+      aria-label="Asking price over time"
+      style={{ display: "block", maxWidth: "100%", height: "auto" }}
+    >
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(t)} y2={y(t)} stroke="var(--border)" strokeDasharray="3 4" />
+          <text x={PAD.left - 8} y={y(t) + 4} textAnchor="end" fontSize="11" fill="var(--text-muted)">
+            ${Math.round(t).toLocaleString()}
+          </text>
+        </g>
+      ))}
+
+      <text x={PAD.left} y={HEIGHT - 8} fontSize="11" fill="var(--text-muted)">
+        {fmtShort(points[0].date)}
+      </text>
+      <text x={WIDTH - PAD.right} y={HEIGHT - 8} textAnchor="end" fontSize="11" fill="var(--text-muted)">
+        {fmtShort(points[points.length - 1].date)}
+      </text>
+
+      <path d={path} fill="none" stroke="var(--primary)" strokeWidth="2" strokeLinejoin="round" />
+
+      {markers.map((e, i) => (
+        <circle
+          key={i}
+          cx={x(Math.min(Math.max(new Date(e.date).getTime(), t0), t1))}
+          cy={y(e.priceUsd!)}
+          r="4.5"
+          fill={EVENT_COLORS[e.type]}
+          stroke="var(--bg-surface)"
+          strokeWidth="1.5"
+        >
+          <title>{`${e.type} · $${Math.round(e.priceUsd!)}/mo · ${fmtShort(e.date)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+function fmtShort(d: string): string {
+  return new Date(d).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "2-digit" });
+}
@@ -4,6 +4,9 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useCallback, useState, useRef, useEffect } from "react";
 import { ADVANCED_PARAM_KEYS, ALL_PARAM_KEYS, AMENITY_PARAM_KEYS } from "@/lib/rentalsQuery";
 import { FILTERABLE_FACILITIES, FILTERABLE_AMENITIES } from "@/lib/amenityClassification";
+import type { Suggestion } from "@/lib/rentals/textSearch";
+import { RentalSearchBox } from "./RentalSearchBox";
+import { CommuteFilters } from "./CommuteFilters";
 
 /* ================================================================
    Static option data
@@ -42,6 +45,14 @@ const SORT_OPTIONS = [
   { value: "price_asc", label: "Price Low to High" },
   { value: "price_desc", label: "Price High to Low" },
   { value: "size_desc", label: "Size Large to Small" },
+  { value: "price_drop", label: "Biggest Price Drop" },
+];
+
+// With a keyword (q) the default order is relevance (see lib/rentals/textSearch.ts)
+const KEYWORD_SORT_OPTIONS = [
+  { value: "", label: "Best Match" },
+  { value: "newest", label: "Newest Listed" },
+  ...SORT_OPTIONS.slice(1),
 ];
 
 // -- Advanced filter options --
@@ -118,8 +129,9 @@ export function RentalFilters({ cities, districts }: RentalFiltersProps) {
     const overrides: Record<string, string> = {};
     // Quick filters
     for (const key of [
-      "city", "district", "minPrice", "maxPrice",
+      "q", "city", "district", "minPrice", "maxPrice",
       "bedsMin", "propertyType", "sort",
+      "commuteMode", "maxCommute",
     ]) {
       overrides[key] = (fd.get(key) as string) || "";
     }
@@ -134,6 +146,18 @@ export function RentalFilters({ cities, districts }: RentalFiltersProps) {
     apply(overrides);
   };
 
+  // District suggestions set the district filter; buildings search by name
+  const pickSuggestion = (s: Suggestion) => {
+    if (s.kind === "district") apply({ district: s.value, q: "" });
+    else apply({ q: s.value });
+  };
+
+  // Best Match with a keyword; Shortest Commute once a place is pinned
+  const sortOptions = [
+    ...(sp.get("q") ? KEYWORD_SORT_OPTIONS : SORT_OPTIONS),
+    ...(sp.get("commute") ? [{ value: "commute", label: "Shortest Commute" }] : []),
+  ];
+
   /* ----- Clear handlers ----- */
 
   // Clear All: wipe every filter and reset page
@@ -160,6 +184,20 @@ export function RentalFilters({ cities, districts }: RentalFiltersProps) {
 
   return (
     <form className="rentals-filters" onSubmit={handleSubmit}>
+      {/* q -> keyword search, with autocomplete (see lib/rentals/textSearch.ts) */}
+      <div className="rentals-filters__bar">
+        <RentalSearchBox defaultValue={sp.get("q") ?? ""} onPick={pickSuggestion} />
+      </div>
+
+      {/* commute / commuteMode / maxCommute -> travel time to pinned places (see lib/rentals/commute.ts) */}
+      <CommuteFilters
+        commute={sp.get("commute") ?? ""}
+        commuteMode={sp.get("commuteMode") ?? ""}
+        maxCommute={sp.get("maxCommute") ?? ""}
+        sort={sp.get("sort") ?? ""}
+        apply={apply}
+      />
+
       {/* ============================================================
           ROW 1: City, District, Min Price, Max Price
           ============================================================ */}
@@ -251,7 +289,7 @@ export function RentalFilters({ cities, districts }: RentalFiltersProps) {
           defaultValue={sp.get("sort") ?? ""}
           aria-label="Sort results"
         >
-          {SORT_OPTIONS.map((s) => (
+          {sortOptions.map((s) => (
             <option key={s.value} value={s.value}>{s.label}</option>
           ))}
         </select>
@@ -342,6 +380,15 @@ export function RentalFilters({ cities, districts }: RentalFiltersProps) {
                   {DATE_ADDED_OPTIONS.map((d) => <option key={d.value} value={d.value}>{d.label}</option>)}
                 </select>
               </div>
+
+              {/* Price reduced: priceReduced -> priceDropPct not null */}
+              <div className="rentals-filters__section">
+                <h4 className="rentals-filters__section-title">Price</h4>
+                <label className="rentals-filters__checkbox">
+                  <input type="checkbox" name="priceReduced" value="1" defaultChecked={sp.get("priceReduced") === "1"} />
+                  Price reduced
+                </label>
+              </div>
             </div>
 
             {/* ---------- Right column ---------- */}
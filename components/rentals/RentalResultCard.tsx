@@ -1,7 +1,11 @@
 "use client";
 
 import Link from "next/link";
+import { listingPhotos } from "@/lib/rentals/listingImages";
+import type { SnippetPart } from "@/lib/rentals/textSearch";
+import { COMMUTE_MODES, type CommuteTime } from "@/lib/rentals/commute";
 import { ListingCardImageCarousel } from "./ListingCardImageCarousel";
+import { ListingQualityBadge } from "./ListingQualityBadge";
 import { PriceBlock } from "./PriceBlock";
 import { SpecIcons } from "./SpecIcons";
 
@@ -16,11 +20,19 @@ export interface RentalCardData {
   bathrooms: number | null;
   priceMonthlyUsd: number | null;
   imageUrlsJson: string | null;
+  hostedImagesJson: string | null;
   description: string | null;
   descriptionRewritten: string | null;
   postedAt: Date | null;
   firstSeenAt: Date;
   canonicalUrl: string;
+  qualityScore: number | null;
+  riskLevel: "LOW" | "MEDIUM" | "HIGH" | null;
+  qualityFlagsJson: string | null;
+  /** Description excerpt around the keyword-search matches */
+  snippet?: SnippetPart[] | null;
+  /** Estimated trips to the search's pinned places */
+  commute?: CommuteTime[] | null;
 }
 
 export function RentalResultCard({
@@ -32,14 +44,14 @@ export function RentalResultCard({
   saved: boolean;
   onToggleSave: () => void;
 }) {
-  const images = parseImages(listing.imageUrlsJson);
+  const photos = listingPhotos(listing.imageUrlsJson, listing.hostedImagesJson);
   const displayTitle = listing.titleRewritten || listing.title;
   const desc = listing.descriptionRewritten || listing.description || "";
   const dateStr = formatDate(listing.postedAt || listing.firstSeenAt);
 
   return (
     <article className="rental-card">
-      <ListingCardImageCarousel images={images} alt={displayTitle} />
+      <ListingCardImageCarousel photos={photos} alt={displayTitle} />
 
       <PriceBlock priceMonthlyUsd={listing.priceMonthlyUsd} />
 
@@ -56,10 +68,32 @@ export function RentalResultCard({
           bathrooms={listing.bathrooms}
         />
 
-        {desc && (
+        {listing.snippet ? (
+          <p className="rental-card__desc">
+            {listing.snippet.map((part, i) =>
+              part.hit ? <mark key={i} className="rental-card__hit">{part.text}</mark> : part.text,
+            )}
+          </p>
+        ) : desc && (
           <p className="rental-card__desc">{stripHtml(desc)}</p>
         )}
 
+        {listing.commute && listing.commute.length > 0 && (
+          <ul className="rental-card__commute" aria-label="Estimated commute">
+            {listing.commute.map((c) => (
+              <li key={c.label} title={`About ${c.km} km by road`}>
+                <strong>{c.minutes} min</strong> {COMMUTE_MODES[c.mode].travel} to {c.label}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <ListingQualityBadge
+          riskLevel={listing.riskLevel}
+          qualityScore={listing.qualityScore}
+          qualityFlagsJson={listing.qualityFlagsJson}
+        />
+
         <span className="rental-card__meta">Added on {dateStr}</span>
 
         <div className="rental-card__actions">
@@ -95,16 +129,6 @@ export function RentalResultCard({
   );
 }
 
-function parseImages(json: string | null): string[] {
-  if (!json) return [];
-  try {
-    const arr = JSON.parse(json);
-    return Array.isArray(arr) ? arr.filter((u: unknown) => typeof u === "string" && u.startsWith("http")) : [];
-  } catch {
-    return [];
-  }
-}
-
 function formatDate(d: Date | null): string {
   if (!d) return "Unknown";
   return new Date(d).toLocaleDateString("en-GB", {
@@ -0,0 +1,137 @@
+"use client";
+
+import { useEffect, useId, useRef, useState } from "react";
+import type { Suggestion } from "@/lib/rentals/textSearch";
+
+/** Wait this long (ms) after the last keystroke before asking for suggestions */
+const DEBOUNCE_MS = 200;
+
+/**
+ * Keyword box for /rentals (`q` param) with district and building
+ * suggestions from /api/rentals/autocomplete. Submitting the surrounding
+ * form searches the typed text; picking a suggestion calls `onPick`.
+ */
+export function RentalSearchBox({
+  defaultValue,
+  onPick,
+}: {
+  defaultValue: string;
+  onPick: (suggestion: Suggestion) => void;
+}) {
+  const [value, setValue] = useState(defaultValue);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+  const listId = useId();
+  const skipNext = useRef(false);
+
+  useEffect(() => setValue(defaultValue), [defaultValue]);
+
+  useEffect(() => {
+    if (skipNext.current) {
+      skipNext.current = false;
+      return;
+    }
+    const q = value.trim();
+    if (q.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/rentals/autocomplete?q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        .then((res) => (res.ok ? res.json() : { suggestions: [] }))
+        .then((data: { suggestions?: Suggestion[] }) => {
+          setSuggestions(data.suggestions ?? []);
+          setActive(-1);
+        })
+        .catch(() => {
+          /* aborted or offline — keep the last suggestions */
+        });
+    }, DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [value]);
+
+  const pick = (s: Suggestion) => {
+    skipNext.current = true;
+    setValue(s.kind === "building" ? s.value : "");
+    setOpen(false);
+    setSuggestions([]);
+    onPick(s);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open || suggestions.length === 0) return;
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActive((i) => (i + 1) % suggestions.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (i <= 0 ? suggestions.length - 1 : i - 1));
+    } else if (e.key === "Enter" && active >= 0) {
+      e.preventDefault();
+      pick(suggestions[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showList = open && suggestions.length > 0;
+
+  return (
+    <div className="rentals-search">
+      <svg className="rentals-search__icon" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+        <circle cx="11" cy="11" r="7" />
+        <path d="m20 20-3.5-3.5" />
+      </svg>
+      <input
+        name="q"
+        type="search"
+        className="rentals-search__input"
+        placeholder="Search by keyword, district or building"
+        autoComplete="off"
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-label="Search rentals"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={active >= 0 ? `${listId}-${active}` : undefined}
+        maxLength={100}
+      />
+      {showList && (
+        <ul id={listId} className="rentals-search__list" role="listbox">
+          {suggestions.map((s, i) => (
+            <li
+              key={`${s.kind}:${s.value}`}
+              id={`${listId}-${i}`}
+              role="option"
+              aria-selected={i === active}
+              className={"rentals-search__option" + (i === active ? " rentals-search__option--active" : "")}
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(s);
+              }}
+            >
+              <span className="rentals-search__option-value">{s.value}</span>
+              <span className="rentals-search__option-kind">
+                {s.kind === "district" ? "District" : "Building"} · {s.count}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+/* Leaflet touches `window`, so the map only renders on the client */
+const RentalsSearchMap = dynamic(
+  () => import("./RentalsSearchMap").then((m) => m.RentalsSearchMap),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="rentals-map rentals-map__canvas rentals-map__loading">
+        <p>Loading map…</p>
+      </div>
+    ),
+  },
+);
+
+export function RentalsMapView() {
+  return <RentalsSearchMap />;
+}
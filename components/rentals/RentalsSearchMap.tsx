@@ -0,0 +1,361 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { addListingTiles, listingMarkerIcon, type ListingMapPoint } from "./ListingMap";
+import { useDisplayCurrency } from "./CurrencyProvider";
+import {
+  DEFAULT_RADIUS_KM,
+  MAX_POLYGON_POINTS,
+  RADIUS_OPTIONS_KM,
+  formatLatLng,
+  formatPolygon,
+  parseGeoSearch,
+  type LatLng,
+} from "@/lib/rentals/geoSearch";
+import { MAX_COMMUTE_PLACES, formatCommutePlaces, parseCommutePlaces } from "@/lib/rentals/commute";
+
+/** Phnom Penh, used until there are points or a shape to fit */
+const DEFAULT_CENTER: L.LatLngTuple = [11.5564, 104.9282];
+
+type DrawMode = "idle" | "radius" | "polygon" | "place";
+
+interface PointsResponse {
+  points: ListingMapPoint[];
+  total: number;
+  truncated: boolean;
+}
+
+/**
+ * Map view of a /rentals search. Shows the matching listings and lets the
+ * visitor search "near a pin" (click to drop a pin, pick a radius) or
+ * "inside an area" (click out a polygon). The shape is written to the URL
+ * (near/radiusKm or poly), so the results list, pagination and saved
+ * searches follow it. "Pin a place" adds a commute destination (commute),
+ * shown as a labelled marker.
+ */
+export function RentalsSearchMap() {
+  const router = useRouter();
+  const sp = useSearchParams();
+  const { formatUsd } = useDisplayCurrency();
+  const query = sp.toString();
+  const near = sp.get("near") ?? undefined;
+  const radiusParam = sp.get("radiusKm") ?? undefined;
+  const poly = sp.get("poly") ?? undefined;
+  // Keyed on the geo params only, so other filter changes don't refit the map
+  const geo = useMemo(() => parseGeoSearch({ near, radiusKm: radiusParam, poly }), [near, radiusParam, poly]);
+  const commute = sp.get("commute") ?? "";
+  const places = useMemo(() => parseCommutePlaces(commute), [commute]);
+
+  const [mode, setMode] = useState<DrawMode>("idle");
+  const [draft, setDraft] = useState<LatLng[]>([]);
+  const [radiusKm, setRadiusKm] = useState(geo?.mode === "radius" ? geo.radiusKm : DEFAULT_RADIUS_KM);
+  const [placeLabel, setPlaceLabel] = useState("School");
+  const [data, setData] = useState<PointsResponse | null>(null);
+  const [error, setError] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const pointsLayerRef = useRef<L.LayerGroup | null>(null);
+  const shapeLayerRef = useRef<L.LayerGroup | null>(null);
+  const draftLayerRef = useRef<L.LayerGroup | null>(null);
+  const placesLayerRef = useRef<L.LayerGroup | null>(null);
+  const clickRef = useRef<(p: LatLng) => void>(() => {});
+  const fittedRef = useRef(false);
+
+  /* ----- URL updates (same as RentalFilters) ----- */
+
+  const apply = useCallback(
+    (overrides: Record<string, string>) => {
+      const params = new URLSearchParams(query);
+      for (const [k, v] of Object.entries(overrides)) {
+        if (v) params.set(k, v);
+        else params.delete(k);
+      }
+      params.set("page", "1");
+      router.push(`/rentals?${params.toString()}`, { scroll: false });
+    },
+    [router, query],
+  );
+
+  clickRef.current = (p: LatLng) => {
+    if (mode === "radius") {
+      apply({ near: formatLatLng(p), radiusKm: String(radiusKm), poly: "" });
+      setMode("idle");
+    } else if (mode === "polygon") {
+      setDraft((d) => (d.length < MAX_POLYGON_POINTS ? [...d, p] : d));
+    } else if (mode === "place") {
+      const label = placeLabel.trim() || `Place ${places.length + 1}`;
+      apply({ commute: formatCommutePlaces([...places, { ...p, label }]) });
+      setMode("idle");
+    }
+  };
+
+  /* ----- Map setup ----- */
+
+  useEffect(() => {
+    if (!containerRef.current || mapRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: DEFAULT_CENTER,
+      zoom: 12,
+      scrollWheelZoom: true,
+    });
+    addListingTiles(map);
+
+    pointsLayerRef.current = L.layerGroup().addTo(map);
+    shapeLayerRef.current = L.layerGroup().addTo(map);
+    draftLayerRef.current = L.layerGroup().addTo(map);
+    placesLayerRef.current = L.layerGroup().addTo(map);
+    map.on("click", (e: L.LeafletMouseEvent) => clickRef.current({ lat: e.latlng.lat, lng: e.latlng.lng }));
+
+    mapRef.current = map;
+    return () => {
+      map.remove();
+      mapRef.current = null;
+    };
+  }, []);
+
+  /* ----- Matching points ----- */
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/rentals/map-points?${query}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.json() as Promise<PointsResponse>;
+      })
+      .then((json) => {
+        if (cancelled) return;
+        setData(json);
+        setError(false);
+      })
+      .catch(() => {
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = pointsLayerRef.current;
+    if (!map || !layer || !data) return;
+
+    layer.clearLayers();
+    for (const p of data.points) {
+      L.circleMarker([p.lat, p.lng], {
+        radius: 6,
+        color: "#fff",
+        weight: 1,
+        fillColor: "#6366f1",
+        fillOpacity: 0.85,
+      })
+        .bindPopup(pointPopup(p, formatUsd))
+        .addTo(layer);
+    }
+
+    // First load without a shape: fit to the results
+    if (!fittedRef.current && !geo && data.points.length > 0) {
+      map.fitBounds(L.latLngBounds(data.points.map((p) => [p.lat, p.lng] as L.LatLngTuple)), { padding: [24, 24], maxZoom: 15 });
+      fittedRef.current = true;
+    }
+  }, [data, geo, formatUsd]);
+
+  /* ----- Active shape ----- */
+
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = shapeLayerRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    if (!geo) return;
+
+    const style = { color: "#6366f1", weight: 2, fillOpacity: 0.08 };
+    let shape: L.Circle | L.Polygon;
+    if (geo.mode === "radius") {
+      shape = L.circle([geo.center.lat, geo.center.lng], { ...style, radius: geo.radiusKm * 1000 }).addTo(layer);
+      L.marker([geo.center.lat, geo.center.lng], { icon: listingMarkerIcon(), interactive: false }).addTo(layer);
+    } else {
+      shape = L.polygon(geo.points.map((p) => [p.lat, p.lng] as L.LatLngTuple), style).addTo(layer);
+    }
+    map.fitBounds(shape.getBounds(), { padding: [24, 24] });
+    fittedRef.current = true;
+  }, [geo]);
+
+  /* ----- Commute places ----- */
+
+  useEffect(() => {
+    const layer = placesLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    for (const p of places) {
+      L.marker([p.lat, p.lng], { icon: listingMarkerIcon() })
+        .bindTooltip(p.label, { permanent: true, direction: "top", offset: [0, -36] })
+        .addTo(layer);
+    }
+  }, [places]);
+
+  /* ----- Polygon being drawn ----- */
+
+  useEffect(() => {
+    const layer = draftLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    if (draft.length === 0) return;
+    const latlngs = draft.map((p) => [p.lat, p.lng] as L.LatLngTuple);
+    L.polyline(latlngs, { color: "#f59e0b", weight: 2, dashArray: "4 4" }).addTo(layer);
+    for (const ll of latlngs) {
+      L.circleMarker(ll, { radius: 4, color: "#f59e0b", fillOpacity: 1 }).addTo(layer);
+    }
+  }, [draft]);
+
+  /* ----- Controls ----- */
+
+  const startRadius = () => {
+    setDraft([]);
+    setMode(mode === "radius" ? "idle" : "radius");
+  };
+
+  const startPolygon = () => {
+    setDraft([]);
+    setMode(mode === "polygon" ? "idle" : "polygon");
+  };
+
+  const startPlace = () => {
+    setDraft([]);
+    setMode(mode === "place" ? "idle" : "place");
+  };
+
+  const finishPolygon = () => {
+    if (draft.length < 3) return;
+    apply({ poly: formatPolygon(draft), near: "", radiusKm: "" });
+    setDraft([]);
+    setMode("idle");
+  };
+
+  const changeRadius = (value: number) => {
+    setRadiusKm(value);
+    if (geo?.mode === "radius") apply({ radiusKm: String(value) });
+  };
+
+  const clearArea = () => {
+    setDraft([]);
+    setMode("idle");
+    apply({ near: "", radiusKm: "", poly: "" });
+  };
+
+  const hint =
+    mode === "radius"
+      ? "Click the map to drop a pin."
+      : mode === "polygon"
+        ? `Click to add corners (${draft.length} so far), then Finish.`
+        : mode === "place"
+          ? "Click the map where you commute to."
+          : null;
+
+  return (
+    <section className="rentals-map" aria-label="Map search">
+      <div className="rentals-map__toolbar">
+        <button
+          type="button"
+          className={"rentals-filters__clear rentals-filters__clear--small" + (mode === "radius" ? " rentals-map__tool--active" : "")}
+          onClick={startRadius}
+        >
+          Near a pin
+        </button>
+        <select
+          className="rentals-map__radius"
+          value={radiusKm}
+          onChange={(e) => changeRadius(Number(e.target.value))}
+          aria-label="Radius"
+        >
+          {RADIUS_OPTIONS_KM.map((km) => (
+            <option key={km} value={km}>
+              {km} km
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className={"rentals-filters__clear rentals-filters__clear--small" + (mode === "polygon" ? " rentals-map__tool--active" : "")}
+          onClick={startPolygon}
+        >
+          Draw area
+        </button>
+        {mode === "polygon" && (
+          <button
+            type="button"
+            className="rentals-filters__btn rentals-map__finish"
+            onClick={finishPolygon}
+            disabled={draft.length < 3}
+          >
+            Finish
+          </button>
+        )}
+        <button
+          type="button"
+          className={"rentals-filters__clear rentals-filters__clear--small" + (mode === "place" ? " rentals-map__tool--active" : "")}
+          onClick={startPlace}
+          disabled={places.length >= MAX_COMMUTE_PLACES}
+          title={places.length >= MAX_COMMUTE_PLACES ? `Up to ${MAX_COMMUTE_PLACES} places` : undefined}
+        >
+          Pin a place
+        </button>
+        {mode === "place" && (
+          <input
+            type="text"
+            className="rentals-map__place-label"
+            value={placeLabel}
+            onChange={(e) => setPlaceLabel(e.target.value)}
+            maxLength={40}
+            aria-label="Place name"
+            placeholder="e.g. School"
+          />
+        )}
+        {geo && (
+          <button type="button" className="rentals-filters__clear rentals-filters__clear--small" onClick={clearArea}>
+            Clear area
+          </button>
+        )}
+        <span className="rentals-map__status">
+          {hint ??
+            (error
+              ? "Could not load the map points."
+              : data
+                ? `${data.total.toLocaleString()} on the map${data.truncated ? ` (showing ${data.points.length.toLocaleString()})` : ""}`
+                : "Loading…")}
+        </span>
+      </div>
+      {/* Leaflet owns the canvas element's classes, so drawing state goes on a wrapper */}
+      <div className={mode !== "idle" ? "rentals-map__frame--drawing" : undefined}>
+        <div ref={containerRef} className="rentals-map__canvas" />
+      </div>
+    </section>
+  );
+}
+
+/** Popup content, built with DOM nodes so listing titles are never parsed as HTML. */
+function pointPopup(p: ListingMapPoint, formatUsd: (usd: number) => string): HTMLElement {
+  const el = document.createElement("div");
+  const link = document.createElement("a");
+  link.href = `/rentals/${p.id}`;
+  link.textContent = p.title;
+  link.className = "rentals-map__popup-title";
+  el.appendChild(link);
+
+  const meta = document.createElement("div");
+  meta.className = "rentals-map__popup-meta";
+  const parts = [
+    p.priceMonthlyUsd ? `${formatUsd(p.priceMonthlyUsd)}/mo` : "Price on request",
+    p.bedrooms !== null ? (p.bedrooms === 0 ? "Studio" : `${p.bedrooms} bed`) : null,
+    p.propertyType.replace(/_/g, " ").toLowerCase(),
+  ];
+  meta.textContent = parts.filter(Boolean).join(" · ");
+  el.appendChild(meta);
+  return el;
+}
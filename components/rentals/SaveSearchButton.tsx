@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { useSession } from "next-auth/react";
+
+type SaveState = "idle" | "saving" | "saved" | "error";
+
+/**
+ * "Save this search" button for /rentals. Posts the current filters to
+ * /api/rentals/saved-searches; the server drops page/sort and names the
+ * search from the filters. Signed-out visitors get a login link instead.
+ */
+export function SaveSearchButton() {
+  const sp = useSearchParams();
+  const { status } = useSession();
+  const [state, setState] = useState<SaveState>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  if (status === "loading") return null;
+
+  if (status !== "authenticated") {
+    const callbackUrl = `/rentals${sp.toString() ? `?${sp.toString()}` : ""}`;
+    return (
+      <Link
+        href={`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`}
+        className="rentals-filters__clear rentals-save-search"
+      >
+        Log in to get alerts for this search
+      </Link>
+    );
+  }
+
+  const save = async () => {
+    setState("saving");
+    setError(null);
+    try {
+      const res = await fetch("/api/rentals/saved-searches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ params: Object.fromEntries(sp.entries()) }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error ?? `HTTP ${res.status}`);
+      setState("saved");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save search");
+      setState("error");
+    }
+  };
+
+  if (state === "saved") {
+    return (
+      <span className="rentals-save-search rentals-save-search--done">
+        Search saved — we&apos;ll email you new matches.{" "}
+        <Link href="/dashboard/saved-searches">Manage alerts</Link>
+      </span>
+    );
+  }
+
+  return (
+    <span className="rentals-save-search">
+      <button
+        type="button"
+        className="rentals-filters__clear"
+        onClick={save}
+        disabled={state === "saving"}
+      >
+        {state === "saving" ? "Saving…" : "Save this search"}
+      </button>
+      {error && <span className="rentals-save-search__error">{error}</span>}
+    </span>
+  );
+}
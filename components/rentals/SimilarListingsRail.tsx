@@ -0,0 +1,72 @@
+"use client";
+
+import Link from "next/link";
+import { listingPhotos } from "@/lib/rentals/listingImages";
+import { useDisplayCurrency } from "./CurrencyProvider";
+import { ListingPhoto } from "./ListingPhoto";
+
+export interface SimilarListing {
+  id: string;
+  title: string;
+  titleRewritten: string | null;
+  city: string;
+  district: string | null;
+  propertyType: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  priceMonthlyUsd: number | null;
+  imageUrlsJson: string | null;
+  hostedImagesJson: string | null;
+}
+
+/**
+ * Horizontal rail of compact cards for the listing detail page (and the
+ * example listings on market pages). Ranking happens server-side
+ * (lib/rentals/similar.ts).
+ */
+export function SimilarListingsRail({
+  listings,
+  title = "Similar listings nearby",
+}: {
+  listings: SimilarListing[];
+  title?: string;
+}) {
+  const { formatUsd } = useDisplayCurrency();
+  if (listings.length === 0) return null;
+
+  return (
+    <section className="similar-rail" aria-label={title}>
+      <h2 className="listing-detail__section-title">{title}</h2>
+      <div className="similar-rail__track">
+        {listings.map((l) => {
+          const title = l.titleRewritten || l.title;
+          const [photo] = listingPhotos(l.imageUrlsJson, l.hostedImagesJson);
+          const facts = [
+            l.bedrooms != null ? (l.bedrooms === 0 ? "Studio" : `${l.bedrooms} bed`) : null,
+            l.bathrooms != null ? `${l.bathrooms} bath` : null,
+            l.district ?? l.city,
+          ].filter(Boolean);
+
+          return (
+            <Link key={l.id} href={`/rentals/${l.id}`} className="similar-rail__card">
+              <div className="similar-rail__image">
+                {photo ? (
+                  <ListingPhoto photo={photo} alt={title} sizes="220px" />
+                ) : (
+                  <span className="similar-rail__no-image">No photo</span>
+                )}
+              </div>
+              <div className="similar-rail__body">
+                <span className="similar-rail__price">
+                  {l.priceMonthlyUsd ? `${formatUsd(l.priceMonthlyUsd)} pcm` : "Price on request"}
+                </span>
+                <span className="similar-rail__title">{title}</span>
+                <span className="similar-rail__facts">{facts.join(" · ")}</span>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
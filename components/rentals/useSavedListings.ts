@@ -1,30 +1,75 @@
 "use client";
 
 import { useState, useEffect, useCallback } from "react";
+import { useSession } from "next-auth/react";
+import { MAX_MERGE_IDS } from "@/lib/rentals/savedListings";
 
 const STORAGE_KEY = "globescraper_saved_listings";
 
+function readLocal(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const arr = JSON.parse(raw);
+      if (Array.isArray(arr)) return arr.filter((v): v is string => typeof v === "string");
+    }
+  } catch {
+    // Silently ignore corrupt data
+  }
+  return [];
+}
+
 /**
- * Hook to manage saved/favourited listings in localStorage.
- * Works without login — persisted per-browser.
+ * Hook to manage saved/favourited listings.
+ *
+ * Signed out: persisted per-browser in localStorage.
+ * Signed in: stored on the account via /api/rentals/saved-listings. On the
+ * first load after login, localStorage favourites are merged into the
+ * account and the local copy is cleared, so removals on another device
+ * aren't undone by a stale browser list.
  */
 export function useSavedListings() {
+  const { status } = useSession();
   const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const signedIn = status === "authenticated";
 
-  // Load from localStorage on mount
+  // Load from the account (merging local favourites) or from localStorage
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      if (raw) {
-        const arr = JSON.parse(raw);
-        if (Array.isArray(arr)) setSavedIds(new Set(arr));
-      }
-    } catch {
-      // Silently ignore corrupt data
+    if (status === "loading") return;
+
+    const local = readLocal();
+    if (status !== "authenticated") {
+      setSavedIds(new Set(local));
+      return;
     }
-  }, []);
 
-  // Persist to localStorage whenever savedIds changes
+    let cancelled = false;
+    fetch("/api/rentals/saved-listings/merge", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ listingIds: local.slice(0, MAX_MERGE_IDS) }),
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject(res)))
+      .then((data: { listingIds: string[] }) => {
+        if (cancelled) return;
+        setSavedIds(new Set(data.listingIds));
+        try {
+          localStorage.removeItem(STORAGE_KEY);
+        } catch {
+          // Storage unavailable
+        }
+      })
+      .catch(() => {
+        // Server unreachable — show the local list rather than nothing
+        if (!cancelled) setSavedIds(new Set(local));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [status]);
+
+  // Persist to localStorage whenever savedIds changes (signed out only)
   const persist = useCallback((ids: Set<string>) => {
     try {
       localStorage.setItem(STORAGE_KEY, JSON.stringify([...ids]));
@@ -35,18 +80,43 @@ export function useSavedListings() {
 
   const toggleSaved = useCallback(
     (id: string) => {
-      setSavedIds((prev) => {
-        const next = new Set(prev);
-        if (next.has(id)) {
-          next.delete(id);
-        } else {
-          next.add(id);
-        }
+      const adding = !savedIds.has(id);
+      const next = new Set(savedIds);
+      if (adding) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      setSavedIds(next);
+
+      if (!signedIn) {
         persist(next);
-        return next;
-      });
+        return;
+      }
+
+      const request = adding
+        ? fetch("/api/rentals/saved-listings", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ listingId: id }),
+          })
+        : fetch(`/api/rentals/saved-listings/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+      // Optimistic — roll back if the server refuses
+      request
+        .then((res) => {
+          if (!res.ok) throw new Error(String(res.status));
+        })
+        .catch(() => {
+          setSavedIds((cur) => {
+            const reverted = new Set(cur);
+            if (adding) reverted.delete(id);
+            else reverted.add(id);
+            return reverted;
+          });
+        });
     },
-    [persist],
+    [savedIds, persist, signedIn],
   );
 
   const isSaved = useCallback((id: string) => savedIds.has(id), [savedIds]);
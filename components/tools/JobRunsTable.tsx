@@ -24,6 +24,7 @@ interface JobRun {
   updatedCount: number;
   snapshotCount: number;
   indexRowsCount: number;
+  policySkippedCount: number;
   errorMessage: string | null;
 }
 
@@ -38,6 +39,13 @@ const JOB_TYPE_LABELS: Record<string, string> = {
   DISCOVER: "Discover Listings",
   PROCESS_QUEUE: "Process Queue",
   BUILD_INDEX: "Build Index",
+  CLUSTER_DUPLICATES: "Cluster Duplicates",
+  BUILD_FORECAST: "Build Forecast",
+  EMBED_LISTINGS: "Embed Listings",
+  SCORE_LISTINGS: "Score Listings",
+  HOST_IMAGES: "Host Images",
+  NOTIFY_SAVED_SEARCHES: "Saved Search Digests",
+  MARKET_REPORT: "Market Report",
 };
 
 function formatTimestamp(iso: string): string {
@@ -139,6 +147,11 @@ export function JobRunsTable({ jobs, formatDuration, sourceLabel, getListingsCou
                 </td>
                 <td style={{ ...styles.td, textAlign: "right", color: "#e2e8f0" }}>
                   {getListingsCount(job)}
+                  {job.policySkippedCount > 0 && (
+                    <span style={styles.policySkipped} title="URLs skipped because robots.txt disallows them">
+                      {job.policySkippedCount} blocked
+                    </span>
+                  )}
                 </td>
                 <td style={{ ...styles.td, textAlign: "right", color: "#94a3b8" }}>
                   {formatDuration(job.durationMs)}
@@ -243,6 +256,11 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: "13px",
     color: "#cbd5e1",
   },
+  policySkipped: {
+    marginLeft: "8px",
+    fontSize: "11px",
+    color: "#fbbf24",
+  },
   pill: {
     display: "inline-block",
     padding: "3px 10px",
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  LISTING_DIFF_LABELS,
+  describeDiff,
+  type ListingFieldDiff,
+} from "@/lib/rentals/listingDiff";
+
+interface ListingChange {
+  id: string;
+  changedAt: string;
+  pageHash: string | null;
+  diffs: ListingFieldDiff[];
+}
+
+/**
+ * Change log for one listing in the ListingsTable expanded row: what the
+ * landlord edited between scrapes, newest first. Fetched when the row
+ * is expanded.
+ */
+export function ListingChangeTimeline({ listingId }: { listingId: string }) {
+  const [changes, setChanges] = useState<ListingChange[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/tools/rentals/listings/${listingId}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+        return data as { changes: ListingChange[]; total: number };
+      })
+      .then((data) => {
+        if (cancelled) return;
+        setChanges(data.changes);
+        setTotal(data.total);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [listingId]);
+
+  if (error) {
+    return (
+      <div style={styles.row}>
+        <span style={styles.label}>Changes:</span>
+        <span style={{ ...styles.value, color: "#fda4af" }}>{error}</span>
+      </div>
+    );
+  }
+  if (!changes) {
+    return (
+      <div style={styles.row}>
+        <span style={styles.label}>Changes:</span>
+        <span style={{ ...styles.value, color: "#64748b" }}>Loading…</span>
+      </div>
+    );
+  }
+  if (changes.length === 0) {
+    return (
+      <div style={styles.row}>
+        <span style={styles.label}>Changes:</span>
+        <span style={{ ...styles.value, color: "#64748b" }}>No edits since first seen</span>
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <div style={styles.row}>
+        <span style={styles.label}>Changes:</span>
+        <span style={{ ...styles.value, color: "#64748b" }}>
+          {total} edit{total !== 1 ? "s" : ""} between scrapes
+        </span>
+      </div>
+      <div style={styles.timeline}>
+        {changes.map((change) => (
+          <div key={change.id} style={styles.entry}>
+            <span style={styles.date}>
+              {new Date(change.changedAt).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+            </span>
+            <span style={styles.diffs}>
+              {change.diffs.map((d, i) => (
+                <span key={i} style={styles.diff}>
+                  <span style={styles.pill}>{LISTING_DIFF_LABELS[d.field] ?? d.field}</span>
+                  <span style={styles.diffText} title={diffTitle(d)}>{describeDiff(d)}</span>
+                </span>
+              ))}
+            </span>
+          </div>
+        ))}
+        {total > changes.length && (
+          <div style={{ ...styles.entry, color: "#475569", fontStyle: "italic" }}>
+            +{total - changes.length} older changes
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Full detail on hover — photo and amenity lists get long */
+function diffTitle(d: ListingFieldDiff): string | undefined {
+  if (d.field === "images" || d.field === "amenities") {
+    const lines = [...d.added.map((v) => `+ ${v}`), ...d.removed.map((v) => `− ${v}`)];
+    return lines.length > 0 ? lines.join("\n") : undefined;
+  }
+  if (d.field === "coordinates" && d.to) {
+    return `${d.from ? d.from.join(", ") : "—"} → ${d.to.join(", ")}`;
+  }
+  return undefined;
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  row: {
+    display: "flex",
+    gap: "8px",
+    marginBottom: "4px",
+    fontSize: "12px",
+    lineHeight: 1.6,
+  },
+  label: {
+    color: "#64748b",
+    flexShrink: 0,
+    minWidth: "90px",
+  },
+  value: {
+    color: "#cbd5e1",
+  },
+  timeline: {
+    marginTop: "6px",
+    marginLeft: "98px",
+    padding: "8px 12px",
+    background: "rgba(15, 23, 42, 0.6)",
+    border: "1px solid #1e293b",
+    borderRadius: "8px",
+    maxHeight: "240px",
+    overflowY: "auto",
+  },
+  entry: {
+    display: "flex",
+    alignItems: "flex-start",
+    gap: "10px",
+    padding: "3px 0",
+    fontSize: "12px",
+    borderBottom: "1px solid rgba(30, 41, 59, 0.4)",
+  },
+  date: {
+    color: "#64748b",
+    minWidth: "100px",
+    flexShrink: 0,
+  },
+  diffs: {
+    display: "flex",
+    flexDirection: "column",
+    gap: "2px",
+    minWidth: 0,
+  },
+  diff: {
+    display: "flex",
+    alignItems: "baseline",
+    gap: "6px",
+  },
+  pill: {
+    display: "inline-block",
+    padding: "0 6px",
+    borderRadius: "4px",
+    background: "rgba(99, 102, 241, 0.15)",
+    color: "#a5b4fc",
+    fontSize: "11px",
+    flexShrink: 0,
+  },
+  diffText: {
+    color: "#cbd5e1",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap",
+    maxWidth: "560px",
+  },
+};
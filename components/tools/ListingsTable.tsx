@@ -1,6 +1,8 @@
 "use client";
 
 import { useEffect, useState, useCallback, useRef } from "react";
+import { QUALITY_FLAG_LABELS, parseQualityFlags } from "@/lib/rentals/qualityFlags";
+import { ListingChangeTimeline } from "./ListingChangeTimeline";
 
 /* ── Types ───────────────────────────────────────────────── */
 
@@ -26,6 +28,10 @@ interface Listing {
   descriptionRewritten: string | null;
   descriptionRewrittenAt: string | null;
   titleRewritten: string | null;
+  qualityScore: number | null;
+  riskScore: number | null;
+  riskLevel: "LOW" | "MEDIUM" | "HIGH" | null;
+  qualityFlagsJson: string | null;
   _count: { snapshots: number };
   snapshots: Snapshot[];
   priceChange: {
@@ -43,6 +49,8 @@ interface Snapshot {
   scrapedAt: string;
   priceMonthlyUsd: number | null;
   priceOriginal: string | null;
+  /** Set when the raw page was archived — opens in the snapshot viewer */
+  pageHash: string | null;
 }
 
 interface AiReview {
@@ -61,6 +69,8 @@ interface ListingsData {
   page: number;
   limit: number;
   totalPages: number;
+  /** Registered source adapters — drives the source filter + labels */
+  sources: { source: string; label: string }[];
 }
 
 /* ── Component ───────────────────────────────────────────── */
@@ -83,6 +93,7 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
   const [order, setOrder] = useState<"asc" | "desc">("desc");
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [aiStatus, setAiStatus] = useState("");
+  const [risk, setRisk] = useState("");
   const initialLoadDone = useRef(false);
 
   const fetchListings = useCallback(async () => {
@@ -99,6 +110,7 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
       if (district) params.set("district", district);
       if (search) params.set("search", search);
       if (aiStatus) params.set("aiStatus", aiStatus);
+      if (risk) params.set("risk", risk);
 
       const res = await fetch(`/api/tools/rentals/listings?${params}`);
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
@@ -110,7 +122,7 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
     } finally {
       setLoading(false);
     }
-  }, [page, source, propertyType, district, search, sort, order, aiStatus]);
+  }, [page, source, propertyType, district, search, sort, order, aiStatus, risk]);
 
   useEffect(() => {
     fetchListings();
@@ -137,18 +149,8 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
     setPage(1);
   };
 
-  const sourceLabel = (s: string) => {
-    const map: Record<string, string> = {
-      KHMER24: "Khmer24",
-      REALESTATE_KH: "Realestate.kh",
-      IPS_CAMBODIA: "IPS Cambodia",
-      CAMREALTY: "CamRealty",
-      LONGTERMLETTINGS: "LongTermLettings",
-      FAZWAZ: "FazWaz",
-      HOMETOGO: "HomeToGo",
-    };
-    return map[s] || s;
-  };
+  const sourceLabel = (s: string) =>
+    data?.sources?.find((src) => src.source === s)?.label ?? s;
 
   const typeLabel = (t: string) => {
     const map: Record<string, string> = {
@@ -182,6 +184,12 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
     return colors[src] || { bg: "rgba(148, 163, 184, 0.1)", fg: "#94a3b8" };
   };
 
+  const riskBadgeColor = (level: "LOW" | "MEDIUM" | "HIGH"): { bg: string; fg: string } => {
+    if (level === "HIGH") return { bg: "rgba(239, 68, 68, 0.15)", fg: "#f87171" };
+    if (level === "MEDIUM") return { bg: "rgba(251, 191, 36, 0.15)", fg: "#fbbf24" };
+    return { bg: "rgba(34, 197, 94, 0.1)", fg: "#4ade80" };
+  };
+
   const sortIcon = (field: string) => {
     if (sort !== field) return " ↕";
     return order === "desc" ? " ↓" : " ↑";
@@ -225,12 +233,9 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
           onChange={(e) => { setSource(e.target.value); setPage(1); }}
         >
           <option value="">All Sources</option>
-          <option value="REALESTATE_KH">Realestate.kh</option>
-          <option value="KHMER24">Khmer24</option>
-          <option value="IPS_CAMBODIA">IPS Cambodia</option>
-          <option value="CAMREALTY">CamRealty</option>
-          <option value="FAZWAZ">FazWaz</option>
-          <option value="LONGTERMLETTINGS">LongTermLettings</option>
+          {data?.sources?.map((src) => (
+            <option key={src.source} value={src.source}>{src.label}</option>
+          ))}
         </select>
         <select
           style={s.select}
@@ -257,6 +262,18 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
           <option value="rewritten">✍ Desc Rewritten</option>
           <option value="unrewritten">— Desc Not Rewritten</option>
         </select>
+        <select
+          style={s.select}
+          value={risk}
+          onChange={(e) => { setRisk(e.target.value); setPage(1); }}
+        >
+          <option value="">Risk: All</option>
+          <option value="flagged">⚠ Medium + High</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+          <option value="unscored">— Not Scored</option>
+        </select>
         {district && (
           <div style={{
             display: "flex",
@@ -363,6 +380,12 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
                   Last Seen{sortIcon("lastSeenAt")}
                 </th>
                 <th style={s.th}>AI</th>
+                <th
+                  style={{ ...s.th, cursor: "pointer" }}
+                  onClick={() => handleSort("riskScore")}
+                >
+                  Risk{sortIcon("riskScore")}
+                </th>
                 <th style={s.th}>Status</th>
                 <th style={s.th}></th>
               </tr>
@@ -533,6 +556,17 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
                                         {snap.priceOriginal && (
                                           <span style={s.snapOriginal}>({snap.priceOriginal})</span>
                                         )}
+                                        {snap.pageHash && (
+                                          <a
+                                            href={`/tools/rentals/snapshots/${snap.id}`}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            style={s.snapPageLink}
+                                            title="Open the archived page this snapshot was parsed from"
+                                          >
+                                            page
+                                          </a>
+                                        )}
                                       </div>
                                     );
                                   })}
@@ -544,6 +578,8 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
                                 </div>
                               </div>
                             )}
+                            {/* ── Change Log ── */}
+                            <ListingChangeTimeline listingId={l.id} />
                             {/* ── AI Review Details ── */}
                             {l.aiReview && (
                               <div style={s.expandRow}>
@@ -594,6 +630,23 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
                                 </span>
                               </div>
                             )}
+                            {/* ── Quality / Risk Flags ── */}
+                            {l.riskLevel && (
+                              <div style={s.expandRow}>
+                                <span style={s.expandLabel}>Quality:</span>
+                                <span style={s.expandValue}>
+                                  <span style={{ color: "#e2e8f0", fontWeight: 600 }}>{l.qualityScore}/100</span>
+                                  <span style={{ color: "#64748b", marginLeft: "8px" }}>risk {l.riskScore}/100</span>
+                                  {parseQualityFlags(l.qualityFlagsJson).map((f) => (
+                                    <div key={f.code} style={{ color: "#94a3b8", fontSize: "12px" }}>
+                                      {QUALITY_FLAG_LABELS[f.code]}
+                                      {f.detail && <span style={{ color: "#64748b" }}> — {f.detail}</span>}
+                                      <span style={{ color: "#475569", marginLeft: "6px" }}>({f.points})</span>
+                                    </div>
+                                  ))}
+                                </span>
+                              </div>
+                            )}
                             {/* ── AI Rewritten Description ── */}
                             {l.descriptionRewritten && (
                               <div style={{ marginTop: "8px" }}>
@@ -813,6 +866,24 @@ export function ListingsTable({ initialDistrict }: ListingsTableProps = {}) {
                         )}
                       </div>
                     </td>
+                    <td style={s.td}>
+                      {l.riskLevel ? (
+                        <span
+                          title={`Quality ${l.qualityScore}/100 · risk ${l.riskScore}/100`}
+                          style={{
+                            ...s.badge,
+                            background: riskBadgeColor(l.riskLevel).bg,
+                            color: riskBadgeColor(l.riskLevel).fg,
+                            fontSize: "11px",
+                            cursor: "help",
+                          }}
+                        >
+                          {l.riskLevel === "HIGH" ? "⚠ " : ""}{l.riskScore}
+                        </span>
+                      ) : (
+                        <span style={{ color: "#334155", fontSize: "12px" }}>—</span>
+                      )}
+                    </td>
                     <td style={s.td}>
                       <span style={{
                         ...s.statusPill,
@@ -1088,6 +1159,12 @@ const s: Record<string, React.CSSProperties> = {
     color: "#475569",
     fontSize: "11px",
   },
+  snapPageLink: {
+    marginLeft: "auto",
+    color: "#60a5fa",
+    fontSize: "11px",
+    textDecoration: "none",
+  },
   loadingMsg: {
     padding: "40px",
     textAlign: "center" as const,
@@ -0,0 +1,464 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+
+type QueueStatus = "PENDING" | "PROCESSING" | "DONE" | "RETRY" | "DEAD";
+
+const STATUSES: QueueStatus[] = ["PENDING", "RETRY", "PROCESSING", "DONE", "DEAD"];
+
+/** A `ScrapeQueue` row, as serialised by the queue endpoint. */
+interface QueueItem {
+  id: string;
+  source: string;
+  canonicalUrl: string;
+  sourceListingId: string | null;
+  status: QueueStatus;
+  priority: number;
+  attempts: number;
+  lastError: string | null;
+  leaseOwner: string | null;
+  leaseExpiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CountRow {
+  source: string;
+  status: QueueStatus;
+  count: number;
+}
+
+interface SourceRow {
+  source: string;
+  label: string;
+}
+
+interface Props {
+  sources: SourceRow[];
+}
+
+type Action = "requeue" | "prioritise" | "purge" | "reap";
+
+const PAGE_SIZE = 50;
+
+const STATUS_STYLES: Record<QueueStatus, React.CSSProperties> = {
+  PENDING: { background: "rgba(99, 102, 241, 0.15)", color: "#a5b4fc" },
+  PROCESSING: { background: "rgba(59, 130, 246, 0.15)", color: "#93c5fd" },
+  DONE: { background: "rgba(16, 185, 129, 0.15)", color: "#6ee7b7" },
+  RETRY: { background: "rgba(245, 158, 11, 0.15)", color: "#fbbf24" },
+  DEAD: { background: "rgba(244, 63, 94, 0.15)", color: "#fda4af" },
+};
+
+function formatTime(iso: string | null): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Queue browser — per-source ScrapeQueue counts plus a filterable item
+ * list. Dead items can be inspected and requeued, anything not held by a
+ * running process-queue job can be reprioritised or purged.
+ */
+export function QueueBrowser({ sources }: Props) {
+  const [source, setSource] = useState("");
+  const [status, setStatus] = useState<QueueStatus | "">("DEAD");
+  const [page, setPage] = useState(1);
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [counts, setCounts] = useState<CountRow[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [priority, setPriority] = useState("10");
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sourceLabel = (s: string) => sources.find((x) => x.source === s)?.label ?? s;
+  const countOf = (s: string, st: QueueStatus) =>
+    counts.find((c) => c.source === s && c.status === st)?.count ?? 0;
+
+  const load = useCallback(async () => {
+    try {
+      const qs = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (source) qs.set("source", source);
+      if (status) qs.set("status", status);
+      const res = await fetch(`/api/tools/rentals/queue?${qs}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setItems(data.items);
+      setTotal(data.total);
+      setCounts(data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, [source, status, page]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const filterBy = (s: string, st: QueueStatus | "") => {
+    setSource(s);
+    setStatus(st);
+    setPage(1);
+    setSelected(new Set());
+  };
+
+  /** Apply an action to the selected items, or to everything matching the filters */
+  const run = async (action: Action, scope: "selected" | "matching") => {
+    const target = scope === "selected"
+      ? { ids: [...selected] }
+      : { source: source || undefined, status: status || undefined };
+    if (action === "purge") {
+      const what = scope === "selected" ? `${selected.size} selected items` : `all ${total} matching items`;
+      if (!confirm(`Delete ${what} from the queue? Rediscovery will add live URLs back.`)) return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch("/api/tools/rentals/queue", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          ...target,
+          ...(action === "prioritise" ? { priority: parseInt(priority, 10) || 0 } : {}),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+      setNotice(action === "reap" ? `Reclaimed ${data.count} expired leases` : `${action}: ${data.count} items`);
+      setSelected(new Set());
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (id: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const allSelected = items.length > 0 && items.every((i) => selected.has(i.id));
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div>
+      {/* ── Counts per source ─────────────────────────────── */}
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Source</th>
+              {STATUSES.map((st) => (
+                <th key={st} style={{ ...styles.th, textAlign: "right" }}>{st}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sources.map((s) => (
+              <tr key={s.source} style={styles.tr}>
+                <td style={{ ...styles.td, color: "#e2e8f0", fontWeight: 500 }}>{s.label}</td>
+                {STATUSES.map((st) => {
+                  const n = countOf(s.source, st);
+                  const active = source === s.source && status === st;
+                  return (
+                    <td key={st} style={{ ...styles.td, textAlign: "right" }}>
+                      <button
+                        style={{ ...styles.countBtn, ...(active ? styles.countActive : {}), ...(n === 0 ? { color: "#475569" } : {}) }}
+                        onClick={() => filterBy(s.source, st)}
+                      >
+                        {n.toLocaleString()}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* ── Filters + actions ─────────────────────────────── */}
+      <div style={styles.toolbar}>
+        <select style={styles.select} value={source} onChange={(e) => filterBy(e.target.value, status)}>
+          <option value="">All sources</option>
+          {sources.map((s) => (
+            <option key={s.source} value={s.source}>{s.label}</option>
+          ))}
+        </select>
+        <select style={styles.select} value={status} onChange={(e) => filterBy(source, e.target.value as QueueStatus | "")}>
+          <option value="">All statuses</option>
+          {STATUSES.map((st) => (
+            <option key={st} value={st}>{st}</option>
+          ))}
+        </select>
+        <span style={styles.meta}>
+          {total.toLocaleString()} items{selected.size > 0 && ` · ${selected.size} selected`}
+        </span>
+
+        <input
+          style={styles.priorityInput}
+          type="number"
+          value={priority}
+          onChange={(e) => setPriority(e.target.value)}
+          title="Priority — higher is scraped first"
+        />
+        {selected.size > 0 ? (
+          <>
+            <button style={styles.btn} disabled={busy} onClick={() => run("prioritise", "selected")}>Set priority</button>
+            <button style={styles.btnPrimary} disabled={busy} onClick={() => run("requeue", "selected")}>Requeue</button>
+            <button style={styles.btnDanger} disabled={busy} onClick={() => run("purge", "selected")}>Purge</button>
+          </>
+        ) : (
+          <>
+            <button style={styles.btn} disabled={busy || !source || total === 0} onClick={() => run("prioritise", "matching")}>
+              Set priority on all
+            </button>
+            <button style={styles.btnPrimary} disabled={busy || !source || total === 0} onClick={() => run("requeue", "matching")}>
+              Requeue all
+            </button>
+            <button style={styles.btnDanger} disabled={busy || !source || total === 0} onClick={() => run("purge", "matching")}>
+              Purge all
+            </button>
+          </>
+        )}
+        <button style={styles.btn} disabled={busy} onClick={() => run("reap", "matching")} title="Return items from crashed runs to the queue">
+          Reap expired leases
+        </button>
+      </div>
+
+      {notice && <div style={styles.notice}>{notice}</div>}
+      {error && <div style={styles.error}>{error}</div>}
+
+      {/* ── Items ─────────────────────────────────────────── */}
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={{ ...styles.th, width: "32px" }}>
+                <input
+                  type="checkbox"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(items.map((i) => i.id)))}
+                />
+              </th>
+              <th style={styles.th}>URL</th>
+              <th style={styles.th}>Status</th>
+              <th style={{ ...styles.th, textAlign: "right" }}>Priority</th>
+              <th style={{ ...styles.th, textAlign: "right" }}>Attempts</th>
+              <th style={styles.th}>Last Error</th>
+              <th style={styles.th}>Updated</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.length === 0 && (
+              <tr>
+                <td colSpan={7} style={{ ...styles.td, textAlign: "center", color: "#64748b" }}>
+                  No queue items match these filters.
+                </td>
+              </tr>
+            )}
+            {items.map((item) => (
+              <tr key={item.id} style={styles.tr}>
+                <td style={styles.td}>
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggle(item.id)} />
+                </td>
+                <td style={{ ...styles.td, ...styles.urlCell }}>
+                  <a href={item.canonicalUrl} target="_blank" rel="noopener noreferrer" style={styles.link}>
+                    {item.canonicalUrl.replace(/^https?:\/\/[^/]+/, "")}
+                  </a>
+                  <div style={styles.sub}>{sourceLabel(item.source)}</div>
+                </td>
+                <td style={styles.td}>
+                  <span style={{ ...styles.pill, ...STATUS_STYLES[item.status] }}>{item.status}</span>
+                  {item.status === "PROCESSING" && (
+                    <div style={styles.sub} title={item.leaseOwner ?? undefined}>
+                      lease until {formatTime(item.leaseExpiresAt)}
+                    </div>
+                  )}
+                </td>
+                <td style={{ ...styles.td, textAlign: "right" }}>{item.priority}</td>
+                <td style={{ ...styles.td, textAlign: "right" }}>{item.attempts}</td>
+                <td style={{ ...styles.td, ...styles.errorCell }} title={item.lastError ?? undefined}>
+                  {item.lastError ?? "—"}
+                </td>
+                <td style={styles.td}>{formatTime(item.updatedAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pages > 1 && (
+        <div style={styles.pager}>
+          <button style={styles.btn} disabled={page <= 1} onClick={() => setPage(page - 1)}>← Prev</button>
+          <span style={styles.meta}>Page {page} of {pages}</span>
+          <button style={styles.btn} disabled={page >= pages} onClick={() => setPage(page + 1)}>Next →</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  tableWrap: {
+    overflowX: "auto",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: "14px",
+  },
+  th: {
+    padding: "12px 16px",
+    textAlign: "left",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    borderBottom: "1px solid #1e293b",
+  },
+  tr: {
+    borderBottom: "1px solid #1e293b",
+  },
+  td: {
+    padding: "10px 16px",
+    color: "#94a3b8",
+    whiteSpace: "nowrap",
+    verticalAlign: "top",
+  },
+  sub: {
+    fontSize: "11px",
+    color: "#64748b",
+    marginTop: "2px",
+    fontWeight: 400,
+  },
+  urlCell: {
+    maxWidth: "420px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  link: {
+    color: "#60a5fa",
+    textDecoration: "none",
+    fontSize: "13px",
+  },
+  errorCell: {
+    maxWidth: "320px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    fontSize: "12px",
+  },
+  pill: {
+    display: "inline-block",
+    padding: "3px 10px",
+    borderRadius: "6px",
+    fontSize: "12px",
+    fontWeight: 600,
+    letterSpacing: "0.02em",
+  },
+  countBtn: {
+    background: "none",
+    border: "1px solid transparent",
+    borderRadius: "6px",
+    padding: "2px 8px",
+    fontSize: "14px",
+    color: "#e2e8f0",
+    cursor: "pointer",
+  },
+  countActive: {
+    borderColor: "rgba(59, 130, 246, 0.5)",
+    background: "rgba(59, 130, 246, 0.2)",
+    color: "#93c5fd",
+  },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    flexWrap: "wrap",
+    margin: "20px 0 12px",
+  },
+  meta: {
+    fontSize: "13px",
+    color: "#94a3b8",
+    marginRight: "auto",
+    marginLeft: "4px",
+  },
+  select: {
+    padding: "5px 8px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#0f172a",
+    color: "#e2e8f0",
+  },
+  priorityInput: {
+    width: "70px",
+    padding: "5px 8px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#0f172a",
+    color: "#e2e8f0",
+  },
+  btn: {
+    padding: "5px 10px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#1e293b",
+    color: "#e2e8f0",
+    cursor: "pointer",
+  },
+  btnPrimary: {
+    padding: "5px 10px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid rgba(59, 130, 246, 0.5)",
+    background: "rgba(59, 130, 246, 0.2)",
+    color: "#93c5fd",
+    cursor: "pointer",
+  },
+  btnDanger: {
+    padding: "5px 10px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid rgba(244, 63, 94, 0.3)",
+    background: "rgba(244, 63, 94, 0.1)",
+    color: "#fda4af",
+    cursor: "pointer",
+  },
+  pager: {
+    display: "flex",
+    alignItems: "center",
+    gap: "12px",
+    marginTop: "12px",
+  },
+  notice: {
+    padding: "8px 0",
+    fontSize: "13px",
+    color: "#6ee7b7",
+  },
+  error: {
+    padding: "8px 0",
+    fontSize: "13px",
+    color: "#fda4af",
+  },
+};
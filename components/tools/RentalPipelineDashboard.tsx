@@ -2,6 +2,14 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import { JobRunsTable } from "./JobRunsTable";
+import { ScheduleEditor } from "./ScheduleEditor";
+import { SourceHealthTable, type HostHealthRow } from "./SourceHealthTable";
+import {
+  FieldCompletenessTable,
+  ScraperAlertsList,
+  type FieldHealthRow,
+  type ScraperAlertRow,
+} from "./ScraperHealthPanel";
 import { HeatmapPreviewCard } from "./HeatmapPreviewCard";
 import { ListingsTable } from "./ListingsTable";
 import { LiveLogViewer, type LogEntry } from "./LiveLogViewer";
@@ -22,15 +30,31 @@ interface JobRun {
   updatedCount: number;
   snapshotCount: number;
   indexRowsCount: number;
+  policySkippedCount: number;
   errorMessage: string | null;
 }
 
+/** Registered source adapter metadata (from the summary endpoint). */
+interface SourceInfo {
+  source: string;
+  label: string;
+  baseUrl: string;
+  enabled: boolean;
+  needsPlaywright: boolean;
+  currency: string;
+  pagination: string;
+}
+
 interface Summary {
   totalListings: number;
   listingsToday: number;
   totalSnapshots: number;
   lastUpdated: string | null;
-  sourceCounts: { KHMER24: number; REALESTATE_KH: number };
+  sourceCounts: Record<string, number>;
+  sources: SourceInfo[];
+  hostHealth: HostHealthRow[];
+  scraperAlerts: ScraperAlertRow[];
+  fieldHealth: FieldHealthRow[];
   recentJobs: JobRun[];
   marketOverview: {
     city: string;
@@ -84,6 +108,7 @@ export function RentalPipelineDashboard() {
   const [logConnected, setLogConnected] = useState(false);
   const [showLogs, setShowLogs] = useState(false);
   const [progress, setProgress] = useState<{ phase: string; percent: number; label: string } | null>(null);
+  const [selectedSource, setSelectedSource] = useState<string>("");
   const abortRef = useRef<AbortController | null>(null);
 
   /* AI Processing state */
@@ -110,6 +135,13 @@ export function RentalPipelineDashboard() {
     fetchSummary();
   }, [fetchSummary]);
 
+  // Default the source picker to the first enabled adapter
+  useEffect(() => {
+    if (selectedSource || !summary) return;
+    const first = summary.sources.find((src) => src.enabled);
+    if (first) setSelectedSource(first.source);
+  }, [summary, selectedSource]);
+
   // Always poll stats every 3s so cards update live during terminal scrapes
   useEffect(() => {
     const id = setInterval(fetchSummary, 3_000);
@@ -290,11 +322,13 @@ export function RentalPipelineDashboard() {
   if (!summary) return null;
 
   const sourceLabel = (s: string | null) => {
-    if (s === "KHMER24") return "Khmer24";
-    if (s === "REALESTATE_KH") return "Realestate.com.kh";
-    return "All Sources";
+    if (!s) return "All Sources";
+    return summary.sources.find((src) => src.source === s)?.label ?? s;
   };
 
+  const enabledSources = summary.sources.filter((src) => src.enabled);
+  const selectedLabel = sourceLabel(selectedSource || null);
+
   return (
     <div style={styles.page}>
       {/* Toast */}
@@ -326,10 +360,23 @@ export function RentalPipelineDashboard() {
         </div>
 
         <div style={{ display: "flex", gap: "12px", flexWrap: "wrap" as const, alignItems: "center" }}>
+          <select
+            style={styles.sourceSelect}
+            value={selectedSource}
+            disabled={!!runningJob}
+            onChange={(e) => setSelectedSource(e.target.value)}
+            aria-label="Source"
+          >
+            {enabledSources.map((src) => (
+              <option key={src.source} value={src.source}>
+                {src.label}{src.needsPlaywright ? " (Playwright)" : ""}
+              </option>
+            ))}
+          </select>
           <button
             style={{ ...styles.pipelineBtn, opacity: runningJob ? 0.6 : 1 }}
-            disabled={!!runningJob}
-            onClick={() => runJob("discover", "Discover New Listings")}
+            disabled={!!runningJob || !selectedSource}
+            onClick={() => runJob("discover", `Discover New Listings (${selectedLabel})`, `source=${selectedSource}`)}
           >
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <circle cx="11" cy="11" r="8" /><line x1="21" y1="21" x2="16.65" y2="16.65" />
@@ -377,8 +424,8 @@ export function RentalPipelineDashboard() {
           </button>
           <button
             style={{ ...styles.pipelineBtn, opacity: runningJob ? 0.6 : 1 }}
-            disabled={!!runningJob}
-            onClick={() => runJob("process-queue", "Process Queue Batch")}
+            disabled={!!runningJob || !selectedSource}
+            onClick={() => runJob("process-queue", `Process Queue Batch (${selectedLabel})`, `source=${selectedSource}`)}
           >
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
               <path d="M21 16V8a2 2 0 0 0-1-1.73l-7-4a2 2 0 0 0-2 0l-7 4A2 2 0 0 0 3 8v8a2 2 0 0 0 1 1.73l7 4a2 2 0 0 0 2 0l7-4A2 2 0 0 0 21 16z" />
@@ -430,6 +477,25 @@ export function RentalPipelineDashboard() {
             </svg>
             Analytics
           </a>
+          <a
+            href="/tools/rentals/queue"
+            style={{
+              ...styles.pipelineBtn,
+              borderColor: "#b45309",
+              color: "#f59e0b",
+              textDecoration: "none",
+            }}
+          >
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="8" y1="6" x2="21" y2="6" />
+              <line x1="8" y1="12" x2="21" y2="12" />
+              <line x1="8" y1="18" x2="21" y2="18" />
+              <line x1="3" y1="6" x2="3.01" y2="6" />
+              <line x1="3" y1="12" x2="3.01" y2="12" />
+              <line x1="3" y1="18" x2="3.01" y2="18" />
+            </svg>
+            Queue
+          </a>
         </div>
 
         {/* ═══ AI Processing Section ═══ */}
@@ -671,7 +737,10 @@ export function RentalPipelineDashboard() {
               {summary.totalListings.toLocaleString()}
             </div>
             <div style={styles.statMeta}>
-              Khmer24 | Realestate.com.kh
+              {summary.sources
+                .filter((src) => src.enabled || (summary.sourceCounts[src.source] ?? 0) > 0)
+                .map((src) => `${src.label} ${(summary.sourceCounts[src.source] ?? 0).toLocaleString()}`)
+                .join(" | ")}
             </div>
           </div>
           <div style={styles.statCard}>
@@ -695,6 +764,11 @@ export function RentalPipelineDashboard() {
         {/* Two-column: Job Runs + Heatmap */}
         <div style={styles.twoColumn}>
           <div style={styles.columnMain}>
+            <ScraperAlertsList
+              alerts={summary.scraperAlerts}
+              sourceLabel={sourceLabel}
+              onChange={fetchSummary}
+            />
             <h2 style={styles.sectionTitle}>Recent Job Runs</h2>
             <JobRunsTable
               jobs={summary.recentJobs}
@@ -702,6 +776,16 @@ export function RentalPipelineDashboard() {
               sourceLabel={sourceLabel}
               getListingsCount={getListingsCount}
             />
+            <h2 style={{ ...styles.sectionTitle, marginTop: "32px" }}>Source Health</h2>
+            <SourceHealthTable
+              sources={summary.sources}
+              hostHealth={summary.hostHealth}
+              onReset={fetchSummary}
+            />
+            <h2 style={{ ...styles.sectionTitle, marginTop: "32px" }}>Field Completeness</h2>
+            <FieldCompletenessTable rows={summary.fieldHealth} sourceLabel={sourceLabel} />
+            <h2 style={{ ...styles.sectionTitle, marginTop: "32px" }}>Schedules</h2>
+            <ScheduleEditor sources={summary.sources} />
           </div>
           <div style={styles.columnSide}>
             <HeatmapPreviewCard />
@@ -797,6 +881,15 @@ const styles: Record<string, React.CSSProperties> = {
     cursor: "pointer",
     transition: "background 0.15s, border-color 0.15s",
   },
+  sourceSelect: {
+    padding: "10px 14px",
+    background: "#0f172a",
+    border: "1px solid #334155",
+    borderRadius: "10px",
+    color: "#e2e8f0",
+    fontSize: "13px",
+    cursor: "pointer",
+  },
   aiCard: {
     background: "rgba(15, 23, 42, 0.6)",
     border: "1px solid #1e293b",
@@ -0,0 +1,469 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import { TASK_KINDS, TASK_KIND_LABELS, isPerSourceTask, type TaskKind } from "@/lib/rentals/scheduler";
+
+/** A `JobSchedule` row, as serialised by the schedules endpoint. */
+interface ScheduleRow {
+  id: string;
+  kind: TaskKind;
+  source: string | null;
+  cron: string;
+  enabled: boolean;
+  chain: boolean;
+  maxAttempts: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+}
+
+type TaskStatus = "PENDING" | "RUNNING" | "SUCCEEDED" | "FAILED" | "CANCELLED";
+
+interface TaskRow {
+  id: string;
+  kind: TaskKind;
+  source: string | null;
+  status: TaskStatus;
+  runAt: string;
+  attempts: number;
+  maxAttempts: number;
+  leaseOwner: string | null;
+  lastError: string | null;
+  parentId: string | null;
+  finishedAt: string | null;
+}
+
+interface SourceRow {
+  source: string;
+  label: string;
+  enabled: boolean;
+}
+
+interface Props {
+  sources: SourceRow[];
+}
+
+function formatTime(iso: string | null): string {
+  if (!iso) return "—";
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<void> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error ?? `HTTP ${res.status}`);
+  }
+}
+
+/**
+ * Schedules — cron schedules for the pipeline jobs plus the scheduler's
+ * recent task queue. Times are UTC; a worker (`scripts/rentals_scheduler.ts`
+ * or the cron tick endpoint) does the actual running.
+ */
+export function ScheduleEditor({ sources }: Props) {
+  const [schedules, setSchedules] = useState<ScheduleRow[]>([]);
+  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [newKind, setNewKind] = useState<TaskKind>("DISCOVER");
+  const [newSource, setNewSource] = useState(sources.find((s) => s.enabled)?.source ?? "");
+  const [newCron, setNewCron] = useState("0 */6 * * *");
+  const [newChain, setNewChain] = useState(true);
+
+  const sourceLabel = (s: string | null) => (s ? sources.find((x) => x.source === s)?.label ?? s : "All sources");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/tools/rentals/schedules");
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const data = await res.json();
+      setSchedules(data.schedules);
+      setTasks(data.tasks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const id = setInterval(load, 30_000);
+    return () => clearInterval(id);
+  }, [load]);
+
+  /** Run an action, surface its error, then reload */
+  const act = async (key: string, fn: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const saveCron = (s: ScheduleRow) =>
+    act(s.id, async () => {
+      await send(`/api/tools/rentals/schedules/${s.id}`, "PATCH", { cron: drafts[s.id] });
+      setDrafts((d) => {
+        const next = { ...d };
+        delete next[s.id];
+        return next;
+      });
+    });
+
+  const addSchedule = () =>
+    act("new", () =>
+      send("/api/tools/rentals/schedules", "POST", {
+        kind: newKind,
+        source: isPerSourceTask(newKind) ? newSource : null,
+        cron: newCron,
+        chain: newChain,
+      })
+    );
+
+  return (
+    <div>
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Job</th>
+              <th style={styles.th}>Cron (UTC)</th>
+              <th style={styles.th}>Next Run</th>
+              <th style={styles.th}>Last Run</th>
+              <th style={styles.th} title="Queue the next pipeline step when this one succeeds">Chain</th>
+              <th style={styles.th}>Enabled</th>
+              <th style={{ ...styles.th, width: "200px" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.length === 0 && (
+              <tr>
+                <td colSpan={7} style={{ ...styles.td, textAlign: "center", color: "#64748b" }}>
+                  No schedules yet — add one below.
+                </td>
+              </tr>
+            )}
+            {schedules.map((s) => {
+              const draft = drafts[s.id];
+              return (
+                <tr key={s.id} style={styles.tr}>
+                  <td style={{ ...styles.td, color: "#e2e8f0", fontWeight: 500 }}>
+                    {TASK_KIND_LABELS[s.kind]}
+                    <div style={styles.sub}>{sourceLabel(s.source)}</div>
+                  </td>
+                  <td style={styles.td}>
+                    <input
+                      style={styles.cronInput}
+                      value={draft ?? s.cron}
+                      onChange={(e) => setDrafts((d) => ({ ...d, [s.id]: e.target.value }))}
+                    />
+                  </td>
+                  <td style={styles.td}>{s.enabled ? formatTime(s.nextRunAt) : "—"}</td>
+                  <td style={styles.td}>{formatTime(s.lastRunAt)}</td>
+                  <td style={styles.td}>
+                    <input
+                      type="checkbox"
+                      checked={s.chain}
+                      disabled={busy === s.id}
+                      onChange={(e) => act(s.id, () => send(`/api/tools/rentals/schedules/${s.id}`, "PATCH", { chain: e.target.checked }))}
+                    />
+                  </td>
+                  <td style={styles.td}>
+                    <input
+                      type="checkbox"
+                      checked={s.enabled}
+                      disabled={busy === s.id}
+                      onChange={(e) => act(s.id, () => send(`/api/tools/rentals/schedules/${s.id}`, "PATCH", { enabled: e.target.checked }))}
+                    />
+                  </td>
+                  <td style={{ ...styles.td, textAlign: "right" }}>
+                    {draft !== undefined && draft !== s.cron && (
+                      <button style={styles.btnPrimary} disabled={busy === s.id} onClick={() => saveCron(s)}>
+                        Save
+                      </button>
+                    )}
+                    <button
+                      style={styles.btn}
+                      disabled={busy === s.id}
+                      title="Queue this job now"
+                      onClick={() =>
+                        act(s.id, () => send("/api/tools/rentals/tasks", "POST", { kind: s.kind, source: s.source, chain: s.chain }))
+                      }
+                    >
+                      Run now
+                    </button>
+                    <button
+                      style={styles.btnDanger}
+                      disabled={busy === s.id}
+                      onClick={() => {
+                        if (confirm(`Delete the ${TASK_KIND_LABELS[s.kind]} schedule?`)) {
+                          act(s.id, () => send(`/api/tools/rentals/schedules/${s.id}`, "DELETE"));
+                        }
+                      }}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+            <tr style={styles.tr}>
+              <td style={styles.td}>
+                <select style={styles.select} value={newKind} onChange={(e) => setNewKind(e.target.value as TaskKind)}>
+                  {TASK_KINDS.map((k) => (
+                    <option key={k} value={k}>
+                      {TASK_KIND_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+                {isPerSourceTask(newKind) && (
+                  <select style={{ ...styles.select, marginTop: "6px" }} value={newSource} onChange={(e) => setNewSource(e.target.value)}>
+                    {sources.map((s) => (
+                      <option key={s.source} value={s.source} disabled={!s.enabled}>
+                        {s.label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </td>
+              <td style={styles.td}>
+                <input style={styles.cronInput} value={newCron} onChange={(e) => setNewCron(e.target.value)} />
+              </td>
+              <td style={styles.td} colSpan={2}>
+                <span style={styles.sub}>e.g. 0 */6 * * * · 15 1 * * * · @daily</span>
+              </td>
+              <td style={styles.td}>
+                <input type="checkbox" checked={newChain} onChange={(e) => setNewChain(e.target.checked)} />
+              </td>
+              <td style={styles.td} />
+              <td style={{ ...styles.td, textAlign: "right" }}>
+                <button style={styles.btnPrimary} disabled={busy === "new"} onClick={addSchedule}>
+                  Add schedule
+                </button>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {error && <div style={styles.error}>{error}</div>}
+
+      <h3 style={styles.subTitle}>Task Queue</h3>
+      <div style={styles.tableWrap}>
+        <table style={styles.table}>
+          <thead>
+            <tr>
+              <th style={styles.th}>Job</th>
+              <th style={styles.th}>Status</th>
+              <th style={{ ...styles.th, textAlign: "right" }}>Attempts</th>
+              <th style={styles.th}>Run At</th>
+              <th style={styles.th}>Worker</th>
+              <th style={styles.th}>Last Error</th>
+              <th style={{ ...styles.th, width: "80px" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {tasks.length === 0 && (
+              <tr>
+                <td colSpan={7} style={{ ...styles.td, textAlign: "center", color: "#64748b" }}>
+                  No tasks yet.
+                </td>
+              </tr>
+            )}
+            {tasks.map((t) => (
+              <tr key={t.id} style={styles.tr}>
+                <td style={{ ...styles.td, color: "#e2e8f0", fontWeight: 500 }}>
+                  {TASK_KIND_LABELS[t.kind]}
+                  <div style={styles.sub}>
+                    {sourceLabel(t.source)}
+                    {t.parentId && " · chained"}
+                  </div>
+                </td>
+                <td style={styles.td}>
+                  <span style={{ ...styles.pill, ...STATUS_PILLS[t.status] }}>{t.status.toLowerCase()}</span>
+                </td>
+                <td style={{ ...styles.td, textAlign: "right" }}>
+                  {t.attempts}/{t.maxAttempts}
+                </td>
+                <td style={styles.td}>{formatTime(t.finishedAt ?? t.runAt)}</td>
+                <td style={{ ...styles.td, ...styles.sub }}>{t.leaseOwner ?? "—"}</td>
+                <td style={{ ...styles.td, ...styles.errorCell }} title={t.lastError ?? undefined}>
+                  {t.lastError ?? "—"}
+                </td>
+                <td style={{ ...styles.td, textAlign: "right" }}>
+                  {t.status === "PENDING" && (
+                    <button
+                      style={styles.btn}
+                      disabled={busy === t.id}
+                      onClick={() => act(t.id, () => send(`/api/tools/rentals/tasks/${t.id}`, "DELETE"))}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/* ── Styles ──────────────────────────────────────────────── */
+
+const STATUS_PILLS: Record<TaskStatus, React.CSSProperties> = {
+  PENDING: {
+    background: "rgba(99, 102, 241, 0.15)",
+    color: "#a5b4fc",
+    border: "1px solid rgba(99, 102, 241, 0.3)",
+  },
+  RUNNING: {
+    background: "rgba(245, 158, 11, 0.15)",
+    color: "#fbbf24",
+    border: "1px solid rgba(245, 158, 11, 0.3)",
+  },
+  SUCCEEDED: {
+    background: "rgba(16, 185, 129, 0.15)",
+    color: "#6ee7b7",
+    border: "1px solid rgba(16, 185, 129, 0.3)",
+  },
+  FAILED: {
+    background: "rgba(244, 63, 94, 0.15)",
+    color: "#fda4af",
+    border: "1px solid rgba(244, 63, 94, 0.3)",
+  },
+  CANCELLED: {
+    background: "rgba(100, 116, 139, 0.15)",
+    color: "#94a3b8",
+    border: "1px solid rgba(100, 116, 139, 0.3)",
+  },
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  tableWrap: {
+    overflowX: "auto",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: "14px",
+  },
+  th: {
+    padding: "12px 16px",
+    textAlign: "left",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    borderBottom: "1px solid #1e293b",
+  },
+  tr: {
+    borderBottom: "1px solid #1e293b",
+  },
+  td: {
+    padding: "12px 16px",
+    color: "#94a3b8",
+    whiteSpace: "nowrap",
+    verticalAlign: "top",
+  },
+  sub: {
+    fontSize: "11px",
+    color: "#64748b",
+    marginTop: "2px",
+    fontWeight: 400,
+  },
+  subTitle: {
+    fontSize: "14px",
+    fontWeight: 600,
+    color: "#cbd5e1",
+    margin: "20px 0 10px",
+  },
+  errorCell: {
+    maxWidth: "260px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    fontSize: "12px",
+  },
+  pill: {
+    display: "inline-block",
+    padding: "3px 10px",
+    borderRadius: "6px",
+    fontSize: "12px",
+    fontWeight: 600,
+    letterSpacing: "0.02em",
+  },
+  cronInput: {
+    width: "130px",
+    padding: "5px 8px",
+    fontSize: "13px",
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#0f172a",
+    color: "#e2e8f0",
+  },
+  select: {
+    display: "block",
+    padding: "5px 8px",
+    fontSize: "13px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#0f172a",
+    color: "#e2e8f0",
+  },
+  btn: {
+    padding: "4px 10px",
+    marginLeft: "6px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#1e293b",
+    color: "#e2e8f0",
+    cursor: "pointer",
+  },
+  btnPrimary: {
+    padding: "4px 10px",
+    marginLeft: "6px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid rgba(59, 130, 246, 0.5)",
+    background: "rgba(59, 130, 246, 0.2)",
+    color: "#93c5fd",
+    cursor: "pointer",
+  },
+  btnDanger: {
+    padding: "4px 10px",
+    marginLeft: "6px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid rgba(244, 63, 94, 0.3)",
+    background: "rgba(244, 63, 94, 0.1)",
+    color: "#fda4af",
+    cursor: "pointer",
+  },
+  error: {
+    padding: "10px 16px",
+    fontSize: "13px",
+    color: "#fda4af",
+  },
+};
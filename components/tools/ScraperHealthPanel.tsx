@@ -0,0 +1,281 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  HEALTH_FIELDS,
+  HEALTH_FIELD_LABELS,
+  parseFailureRate,
+  type FieldBaseline,
+  type FieldCompleteness,
+} from "@/lib/rentals/scraperHealth";
+
+/** A `ScraperAlert` row, as serialised by the summary endpoint. */
+export interface ScraperAlertRow {
+  id: string;
+  source: string;
+  kind: "FIELD_DROP" | "PARSE_FAILURE" | "ZERO_DISCOVER";
+  field: string | null;
+  message: string;
+  createdAt: string;
+  emailedAt: string | null;
+}
+
+/** Latest run's field completeness vs the source's baseline. */
+export interface FieldHealthRow {
+  source: string;
+  latest: (FieldCompleteness & { jobRunId: string; startedAt: string }) | null;
+  baseline: FieldBaseline | null;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+/**
+ * Open scraper alerts, shown above the job runs on the rental pipeline
+ * dashboard. Acknowledging one lets it be raised (and emailed) again.
+ */
+export function ScraperAlertsList({
+  alerts,
+  sourceLabel,
+  onChange,
+}: {
+  alerts: ScraperAlertRow[];
+  sourceLabel: (source: string) => string;
+  onChange: () => void | Promise<void>;
+}) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (alerts.length === 0) return null;
+
+  const acknowledge = async (body: { id: string } | { all: true }) => {
+    setBusy("id" in body ? body.id : "all");
+    setError(null);
+    try {
+      const res = await fetch("/api/tools/rentals/alerts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? `HTTP ${res.status}`);
+      }
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div style={styles.alerts}>
+      <div style={styles.alertsHeader}>
+        <span>⚠ {alerts.length} scraper alert{alerts.length !== 1 ? "s" : ""}</span>
+        {alerts.length > 1 && (
+          <button style={styles.btn} onClick={() => acknowledge({ all: true })} disabled={busy !== null}>
+            {busy === "all" ? "…" : "Acknowledge all"}
+          </button>
+        )}
+      </div>
+      {alerts.map((a) => (
+        <div key={a.id} style={styles.alert}>
+          <div style={{ minWidth: 0 }}>
+            <div style={styles.alertTitle}>
+              {sourceLabel(a.source)}
+              <span style={styles.pill}>
+                {a.kind === "ZERO_DISCOVER" ? "No URLs" : a.kind === "PARSE_FAILURE" ? "Parse failures" : `${a.field ?? "Field"} drop`}
+              </span>
+            </div>
+            <div style={styles.alertMessage}>{a.message}</div>
+            <div style={styles.muted}>
+              {formatTime(a.createdAt)}
+              {a.emailedAt ? " · emailed" : ""}
+            </div>
+          </div>
+          <button style={styles.btn} onClick={() => acknowledge({ id: a.id })} disabled={busy !== null}>
+            {busy === a.id ? "…" : "Acknowledge"}
+          </button>
+        </div>
+      ))}
+      {error && <div style={styles.error}>Acknowledge failed: {error}</div>}
+    </div>
+  );
+}
+
+/**
+ * Field Completeness — how many of each source's listings in its latest
+ * process-queue run had each field, against the source's baseline.
+ */
+export function FieldCompletenessTable({
+  rows,
+  sourceLabel,
+}: {
+  rows: FieldHealthRow[];
+  sourceLabel: (source: string) => string;
+}) {
+  if (rows.length === 0) {
+    return <div style={styles.empty}>No process-queue runs with completeness data yet.</div>;
+  }
+
+  return (
+    <div style={styles.tableWrap}>
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.th}>Source</th>
+            {HEALTH_FIELDS.map((f) => (
+              <th key={f} style={{ ...styles.th, textAlign: "right" }}>{HEALTH_FIELD_LABELS[f]}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.source} style={styles.tr}>
+              <td style={{ ...styles.td, color: "#e2e8f0", fontWeight: 500 }}>
+                {sourceLabel(r.source)}
+                {r.latest && (
+                  <div style={styles.muted}>
+                    {r.latest.sample} listings · {pct(parseFailureRate(r.latest))} unparsed · {formatTime(r.latest.startedAt)}
+                  </div>
+                )}
+              </td>
+              {HEALTH_FIELDS.map((f) => {
+                const value = r.latest?.shares[f];
+                const base = r.baseline?.shares[f];
+                const low = value !== undefined && base !== undefined && value < base - 0.1;
+                return (
+                  <td key={f} style={{ ...styles.td, textAlign: "right", ...(low ? { color: "#fda4af" } : {}) }}>
+                    {value !== undefined ? pct(value) : "—"}
+                    <div style={styles.muted}>{base !== undefined ? `usual ${pct(base)}` : "no baseline"}</div>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/* ── Styles ──────────────────────────────────────────────── */
+
+const styles: Record<string, React.CSSProperties> = {
+  alerts: {
+    marginBottom: "24px",
+    borderRadius: "12px",
+    border: "1px solid rgba(245, 158, 11, 0.3)",
+    background: "rgba(245, 158, 11, 0.06)",
+  },
+  alertsHeader: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: "12px 16px",
+    fontSize: "14px",
+    fontWeight: 600,
+    color: "#fbbf24",
+    borderBottom: "1px solid rgba(245, 158, 11, 0.2)",
+  },
+  alert: {
+    display: "flex",
+    justifyContent: "space-between",
+    alignItems: "flex-start",
+    gap: "16px",
+    padding: "12px 16px",
+    borderBottom: "1px solid #1e293b",
+  },
+  alertTitle: {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    fontSize: "14px",
+    fontWeight: 500,
+    color: "#e2e8f0",
+  },
+  alertMessage: {
+    marginTop: "4px",
+    fontSize: "13px",
+    color: "#cbd5e1",
+  },
+  pill: {
+    display: "inline-block",
+    padding: "2px 8px",
+    borderRadius: "6px",
+    fontSize: "11px",
+    fontWeight: 600,
+    textTransform: "capitalize",
+    background: "rgba(245, 158, 11, 0.15)",
+    color: "#fbbf24",
+    border: "1px solid rgba(245, 158, 11, 0.3)",
+  },
+  tableWrap: {
+    overflowX: "auto",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: "14px",
+  },
+  th: {
+    padding: "12px 16px",
+    textAlign: "left",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    borderBottom: "1px solid #1e293b",
+  },
+  tr: {
+    borderBottom: "1px solid #1e293b",
+  },
+  td: {
+    padding: "12px 16px",
+    color: "#cbd5e1",
+    whiteSpace: "nowrap",
+    verticalAlign: "top",
+  },
+  muted: {
+    fontSize: "11px",
+    color: "#64748b",
+    marginTop: "2px",
+    fontWeight: 400,
+  },
+  btn: {
+    padding: "4px 10px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#1e293b",
+    color: "#e2e8f0",
+    cursor: "pointer",
+    flexShrink: 0,
+  },
+  empty: {
+    padding: "16px",
+    fontSize: "13px",
+    color: "#64748b",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  error: {
+    padding: "10px 16px",
+    fontSize: "13px",
+    color: "#fda4af",
+  },
+};
@@ -0,0 +1,231 @@
+"use client";
+
+import React, { useState } from "react";
+
+/** A `ScrapeHostHealth` row, as serialised by the summary endpoint. */
+export interface HostHealthRow {
+  host: string;
+  circuitState: "CLOSED" | "OPEN" | "HALF_OPEN";
+  consecutiveFailures: number;
+  tripCount: number;
+  openedUntil: string | null;
+  intervalMs: number;
+  lastStatus: number | null;
+  lastError: string | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+}
+
+interface SourceRow {
+  source: string;
+  label: string;
+  baseUrl: string;
+  enabled: boolean;
+}
+
+interface Props {
+  sources: SourceRow[];
+  hostHealth: HostHealthRow[];
+  onReset: () => void | Promise<void>;
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Source Health — per-source circuit-breaker state and pacing, shown on
+ * the rental pipeline dashboard. Open circuits can be reset by hand.
+ */
+export function SourceHealthTable({ sources, hostHealth, onReset }: Props) {
+  const [resetting, setResetting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const byHost = new Map(hostHealth.map((h) => [h.host, h]));
+  const rows = sources.filter((s) => s.enabled || byHost.has(hostOf(s.baseUrl)));
+
+  const reset = async (host: string) => {
+    setResetting(host);
+    setError(null);
+    try {
+      const res = await fetch("/api/tools/rentals/host-health", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ host }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? `HTTP ${res.status}`);
+      }
+      await onReset();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setResetting(null);
+    }
+  };
+
+  return (
+    <div style={styles.tableWrap}>
+      <table style={styles.table}>
+        <thead>
+          <tr>
+            <th style={styles.th}>Source</th>
+            <th style={styles.th}>Circuit</th>
+            <th style={{ ...styles.th, textAlign: "right" }}>Failures</th>
+            <th style={{ ...styles.th, textAlign: "right" }}>Pace</th>
+            <th style={styles.th}>Last Error</th>
+            <th style={{ ...styles.th, width: "80px" }} />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((src) => {
+            const host = hostOf(src.baseUrl);
+            const h = byHost.get(host);
+            const state = h?.circuitState ?? "CLOSED";
+            return (
+              <tr key={src.source} style={styles.tr}>
+                <td style={{ ...styles.td, color: "#e2e8f0", fontWeight: 500 }}>
+                  {src.label}
+                  <div style={styles.host}>{host}</div>
+                </td>
+                <td style={styles.td}>
+                  <span
+                    style={{
+                      ...styles.pill,
+                      ...(state === "OPEN" ? styles.pillOpen : state === "HALF_OPEN" ? styles.pillHalfOpen : styles.pillClosed),
+                    }}
+                  >
+                    {state === "OPEN" ? "Open" : state === "HALF_OPEN" ? "Half-open" : "Closed"}
+                  </span>
+                  {state === "OPEN" && h?.openedUntil && (
+                    <div style={styles.host}>until {formatTime(h.openedUntil)}</div>
+                  )}
+                </td>
+                <td style={{ ...styles.td, textAlign: "right" }}>{h?.consecutiveFailures ?? 0}</td>
+                <td style={{ ...styles.td, textAlign: "right" }} title="Minimum spacing between requests">
+                  {h ? `${(h.intervalMs / 1000).toFixed(1)}s` : "—"}
+                </td>
+                <td style={{ ...styles.td, ...styles.errorCell }} title={h?.lastError ?? undefined}>
+                  {h?.lastError
+                    ? `${h.lastError}${h.lastFailureAt ? ` (${formatTime(h.lastFailureAt)})` : ""}`
+                    : "—"}
+                </td>
+                <td style={{ ...styles.td, textAlign: "right" }}>
+                  {h && (state !== "CLOSED" || h.consecutiveFailures > 0 || h.tripCount > 0) && (
+                    <button
+                      style={styles.resetBtn}
+                      onClick={() => reset(host)}
+                      disabled={resetting === host}
+                      title="Close the circuit and clear backoff"
+                    >
+                      {resetting === host ? "…" : "Reset"}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {error && <div style={styles.error}>Reset failed: {error}</div>}
+    </div>
+  );
+}
+
+/* ── Styles ──────────────────────────────────────────────── */
+
+const styles: Record<string, React.CSSProperties> = {
+  tableWrap: {
+    overflowX: "auto",
+    borderRadius: "12px",
+    border: "1px solid #1e293b",
+    background: "rgba(15, 23, 42, 0.6)",
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse",
+    fontSize: "14px",
+  },
+  th: {
+    padding: "12px 16px",
+    textAlign: "left",
+    fontSize: "12px",
+    fontWeight: 600,
+    color: "#94a3b8",
+    textTransform: "uppercase",
+    letterSpacing: "0.05em",
+    borderBottom: "1px solid #1e293b",
+  },
+  tr: {
+    borderBottom: "1px solid #1e293b",
+  },
+  td: {
+    padding: "12px 16px",
+    color: "#94a3b8",
+    whiteSpace: "nowrap",
+    verticalAlign: "top",
+  },
+  host: {
+    fontSize: "11px",
+    color: "#64748b",
+    marginTop: "2px",
+    fontWeight: 400,
+  },
+  errorCell: {
+    maxWidth: "280px",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    fontSize: "12px",
+  },
+  pill: {
+    display: "inline-block",
+    padding: "3px 10px",
+    borderRadius: "6px",
+    fontSize: "12px",
+    fontWeight: 600,
+    letterSpacing: "0.02em",
+  },
+  pillClosed: {
+    background: "rgba(16, 185, 129, 0.15)",
+    color: "#6ee7b7",
+    border: "1px solid rgba(16, 185, 129, 0.3)",
+  },
+  pillHalfOpen: {
+    background: "rgba(245, 158, 11, 0.15)",
+    color: "#fbbf24",
+    border: "1px solid rgba(245, 158, 11, 0.3)",
+  },
+  pillOpen: {
+    background: "rgba(244, 63, 94, 0.15)",
+    color: "#fda4af",
+    border: "1px solid rgba(244, 63, 94, 0.3)",
+  },
+  resetBtn: {
+    padding: "4px 10px",
+    fontSize: "12px",
+    borderRadius: "6px",
+    border: "1px solid #334155",
+    background: "#1e293b",
+    color: "#e2e8f0",
+    cursor: "pointer",
+  },
+  error: {
+    padding: "10px 16px",
+    fontSize: "13px",
+    color: "#fda4af",
+  },
+};
@@ -376,7 +376,7 @@ function weightedMean(rows: IndexRow[]): number | null {
   return Math.round((weightedSum / totalWeight) * 100) / 100;
 }
 
-function weightedPercentile(
+export function weightedPercentile(
   rows: IndexRow[],
   field: "p25PriceUsd" | "p75PriceUsd",
 ): number | null {
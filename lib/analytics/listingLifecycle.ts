@@ -0,0 +1,93 @@
+/**
+ * Listing lifecycle statistics: days on market and asking-price discounts.
+ *
+ * Unlike calculateStats.ts these work on RentalListing rows, because the
+ * daily index only keeps price aggregates. The price-drop fields are
+ * maintained by processQueue from each listing's snapshot history
+ * (see lib/rentals/priceHistory.ts).
+ */
+
+import { daysOnMarket } from "@/lib/rentals/priceHistory";
+
+export interface LifecycleListing {
+  district: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  isActive: boolean;
+  priceDropPct: number | null;
+}
+
+export interface LifecycleSummary {
+  /** Median age of listings still on the market */
+  medianDaysOnMarket: number | null;
+  /** Median time on market of listings that went off it in the window */
+  medianDaysToDelist: number | null;
+  activeCount: number;
+  delistedCount: number;
+  /** % of active listings currently below their peak asking price */
+  reducedShare: number;
+  /** Median cut among reduced listings, in % */
+  medianDiscountPct: number | null;
+}
+
+export interface DistrictLifecycle extends LifecycleSummary {
+  district: string;
+}
+
+/** Districts with fewer active listings than this are left out of the table */
+const MIN_DISTRICT_LISTINGS = 5;
+
+/* ── Summary ─────────────────────────────────────────────── */
+
+/**
+ * Summarise days on market and discounts over a set of listings.
+ * Inactive listings count towards `medianDaysToDelist` only.
+ */
+export function computeLifecycle(listings: LifecycleListing[], now: Date = new Date()): LifecycleSummary {
+  const active = listings.filter((l) => l.isActive);
+  const delisted = listings.filter((l) => !l.isActive);
+  const reduced = active.filter((l) => l.priceDropPct !== null);
+
+  return {
+    medianDaysOnMarket: median(active.map((l) => daysOnMarket(l.firstSeenAt, l, now))),
+    medianDaysToDelist: median(delisted.map((l) => daysOnMarket(l.firstSeenAt, l, now))),
+    activeCount: active.length,
+    delistedCount: delisted.length,
+    reducedShare: active.length > 0 ? Math.round((reduced.length / active.length) * 1000) / 10 : 0,
+    medianDiscountPct: median(reduced.map((l) => l.priceDropPct!)),
+  };
+}
+
+/**
+ * Per-district lifecycle stats, slowest-moving districts first.
+ */
+export function computeDistrictLifecycle(
+  listings: LifecycleListing[],
+  now: Date = new Date(),
+): DistrictLifecycle[] {
+  const groups = new Map<string, LifecycleListing[]>();
+  for (const l of listings) {
+    if (!l.district) continue;
+    if (!groups.has(l.district)) groups.set(l.district, []);
+    groups.get(l.district)!.push(l);
+  }
+
+  const result: DistrictLifecycle[] = [];
+  for (const [district, group] of groups) {
+    const stats = computeLifecycle(group, now);
+    if (stats.activeCount < MIN_DISTRICT_LISTINGS) continue;
+    result.push({ district, ...stats });
+  }
+
+  return result.sort((a, b) => (b.medianDaysOnMarket ?? 0) - (a.medianDaysOnMarket ?? 0));
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const m = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  return Math.round(m * 10) / 10;
+}
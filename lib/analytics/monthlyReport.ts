@@ -0,0 +1,501 @@
+/**
+ * Monthly market report — the analytics dashboard's KPI cards, trend,
+ * district movers, volatility and listing lifecycle for one city and
+ * month, frozen into a document the team can download or email out.
+ *
+ * lib/rentals/monthlyReportStore.ts loads the index rows and listings and
+ * stores what this renders. The HTML version is self-contained (inline
+ * CSS and SVG) so it opens straight from a download; the PDF layout is in
+ * ./monthlyReportPdf.ts and draws the same charts from `trendGeometry`.
+ */
+
+import type { Block } from "@/lib/email/blocks/index";
+import { renderEmail } from "@/lib/email/render/renderEmail";
+import { renderTextVersion } from "@/lib/email/render/renderTextVersion";
+import { formatMonth, monthDate, shiftMonth } from "@/lib/rentals/marketReport";
+import { REPORT_MOVERS, REPORT_TREND_DAYS, REPORT_VOLATILE_DISTRICTS } from "@/lib/rentals/config";
+import {
+  computeKpi,
+  computeMovers,
+  computeTrend,
+  type IndexRow,
+  type KpiSummary,
+  type MoverRow,
+  type TrendPoint,
+} from "./calculateStats";
+import { districtVolatilities, volatilityScore, type DistrictVolatility } from "./volatility";
+import { computeLifecycle, type LifecycleListing, type LifecycleSummary } from "./listingLifecycle";
+
+const DAY_MS = 86_400_000;
+
+export interface MonthlyReport {
+  city: string;
+  /** "2026-09" */
+  yearMonth: string;
+  /** Latest index date in the month, "2026-09-30" */
+  asOf: string;
+  summary: KpiSummary & { volatilityScore: number };
+  /** Daily trend over the REPORT_TREND_DAYS up to the end of the month */
+  trend: TrendPoint[];
+  rising: MoverRow[];
+  falling: MoverRow[];
+  /** Most volatile districts over the trend window */
+  volatility: DistrictVolatility[];
+  lifecycle: LifecycleSummary;
+}
+
+/* ── Building ────────────────────────────────────────────── */
+
+/** The index dates a report reads: the trend window ending with the month, [from, to) */
+export function reportWindow(yearMonth: string): { from: Date; monthStart: Date; to: Date } {
+  const to = monthDate(shiftMonth(yearMonth, 1));
+  return { from: new Date(to.getTime() - REPORT_TREND_DAYS * DAY_MS), monthStart: monthDate(yearMonth), to };
+}
+
+/** The last full month before `now`, "2026-09" */
+export function previousMonth(now: Date = new Date()): string {
+  return shiftMonth(now.toISOString().slice(0, 7), -1);
+}
+
+/**
+ * Listings as they stood at `end`: ones first seen later are dropped and
+ * ones seen since still count as on the market. Price cuts are as of now.
+ */
+export function lifecycleAsOf(listings: LifecycleListing[], end: Date): LifecycleListing[] {
+  return listings
+    .filter((l) => l.firstSeenAt < end)
+    .map((l) => ({ ...l, isActive: l.isActive || l.lastSeenAt >= end }));
+}
+
+/**
+ * Assemble the report for one city and month from its daily index rows
+ * and the listings on the market during the month. Null when the index
+ * has no rows for the month.
+ */
+export function buildMonthlyReport(
+  city: string,
+  yearMonth: string,
+  rows: IndexRow[],
+  listings: LifecycleListing[],
+): MonthlyReport | null {
+  const { from, monthStart, to } = reportWindow(yearMonth);
+  const window = rows
+    .filter((r) => r.city === city && r.date >= from && r.date < to)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (window.length === 0 || window[window.length - 1].date < monthStart) return null;
+
+  const medians = window.map((r) => r.medianPriceUsd).filter((v): v is number => v !== null);
+  const movers = computeMovers(window).filter((m) => m.change1m !== null);
+  const rank = (list: MoverRow[]) => list.slice(0, REPORT_MOVERS).map((m, i) => ({ ...m, rank: i + 1 }));
+
+  return {
+    city,
+    yearMonth,
+    asOf: window[window.length - 1].date.toISOString().slice(0, 10),
+    summary: { ...computeKpi(window), volatilityScore: volatilityScore(medians) },
+    trend: computeTrend(window),
+    rising: rank(movers.filter((m) => m.change1m! > 0).sort((a, b) => b.change1m! - a.change1m!)),
+    falling: rank(movers.filter((m) => m.change1m! < 0).sort((a, b) => a.change1m! - b.change1m!)),
+    volatility: districtVolatilities(window).slice(0, REPORT_VOLATILE_DISTRICTS),
+    lifecycle: computeLifecycle(lifecycleAsOf(listings, to), to),
+  };
+}
+
+/* ── Wording ─────────────────────────────────────────────── */
+
+export function reportTitle(report: Pick<MonthlyReport, "city" | "yearMonth">): string {
+  return `${report.city} Rental Market Report — ${formatMonth(report.yearMonth)}`;
+}
+
+/** One-sentence summary used as the report's lead and the email intro */
+export function reportSummary(report: MonthlyReport): string {
+  const { summary: s } = report;
+  const month = formatMonth(report.yearMonth);
+  if (s.currentMedian === null) {
+    return `${s.totalListings.toLocaleString("en-US")} listings were on the market in ${report.city} at the end of ${month}.`;
+  }
+  const change =
+    s.change1m === null
+      ? ""
+      : Math.abs(s.change1m) < 0.05
+        ? ", unchanged on the month"
+        : `, ${s.change1m > 0 ? "up" : "down"} ${Math.abs(s.change1m).toFixed(1)}% on the month`;
+  return (
+    `The median asking rent in ${report.city} was ${usd(s.currentMedian)} a month at the end of ${month}${change}, ` +
+    `across ${s.totalListings.toLocaleString("en-US")} listings.`
+  );
+}
+
+const SUPPLY_LABELS: Record<KpiSummary["supplySignal"], string> = {
+  oversupply: "Oversupply",
+  squeeze: "Squeeze",
+  neutral: "Balanced",
+};
+
+export interface KpiCard {
+  label: string;
+  value: string;
+  sub: string;
+}
+
+/** The eight headline figures, in the dashboard's order */
+export function kpiCards(report: MonthlyReport): KpiCard[] {
+  const { summary: s, lifecycle: l } = report;
+  return [
+    { label: "Median rent", value: usd(s.currentMedian), sub: "per month, all listings" },
+    { label: "1-bed median", value: usd(s.current1Bed), sub: "per month" },
+    { label: "2-bed median", value: usd(s.current2Bed), sub: "per month" },
+    { label: "Listings", value: s.totalListings.toLocaleString("en-US"), sub: `supply: ${SUPPLY_LABELS[s.supplySignal].toLowerCase()}` },
+    { label: "1-month change", value: pct(s.change1m), sub: "in the median" },
+    { label: "3-month change", value: pct(s.change3m), sub: "in the median" },
+    { label: "Volatility", value: `${s.volatilityScore}/100`, sub: `std. dev. ±${usd(s.volatility)}` },
+    {
+      label: "Days on market",
+      value: l.medianDaysOnMarket !== null ? String(l.medianDaysOnMarket) : "—",
+      sub: `median; ${l.reducedShare}% cut their price`,
+    },
+  ];
+}
+
+/* ── Chart geometry ──────────────────────────────────────── */
+
+export interface TrendGeometry {
+  /** p25–p75 band, upper edge left to right then lower edge back */
+  band: [number, number][];
+  /** Median line, split where days are missing */
+  median: [number, number][][];
+  ma90: [number, number][];
+  yTicks: { y: number; label: string }[];
+  /** First day of each month in range */
+  xTicks: { x: number; label: string }[];
+}
+
+/**
+ * Plot coordinates (top-left origin) for a trend chart of `width` × `height`.
+ * Shared by the SVG and PDF renderers so both show the same picture.
+ */
+export function trendGeometry(trend: TrendPoint[], width: number, height: number): TrendGeometry | null {
+  const values = trend.flatMap((p) => [p.median, p.p25, p.p75, p.ma90]).filter((v): v is number => v !== null);
+  if (trend.length < 2 || values.length === 0) return null;
+
+  const t0 = Date.parse(trend[0].date);
+  const t1 = Date.parse(trend[trend.length - 1].date);
+  const step = niceStep((Math.max(...values) - Math.min(...values)) / 4 || 50);
+  const lo = Math.floor(Math.min(...values) / step) * step;
+  const hi = Math.max(lo + step, Math.ceil(Math.max(...values) / step) * step);
+  const x = (date: string) => ((Date.parse(date) - t0) / (t1 - t0 || 1)) * width;
+  const y = (v: number) => height - ((v - lo) / (hi - lo)) * height;
+  const at = (p: TrendPoint, v: number): [number, number] => [round(x(p.date)), round(y(v))];
+
+  const quartiles = trend.filter((p) => p.p25 !== null && p.p75 !== null);
+  const band = [
+    ...quartiles.map((p) => at(p, p.p75!)),
+    ...[...quartiles].reverse().map((p) => at(p, p.p25!)),
+  ];
+
+  const median: [number, number][][] = [];
+  let run: [number, number][] = [];
+  trend.forEach((p, i) => {
+    const gap = i > 0 && Date.parse(p.date) - Date.parse(trend[i - 1].date) > DAY_MS * 1.5;
+    if (p.median === null || gap) {
+      if (run.length > 1) median.push(run);
+      run = [];
+    }
+    if (p.median !== null) run.push(at(p, p.median));
+  });
+  if (run.length > 1) median.push(run);
+
+  const yTicks: TrendGeometry["yTicks"] = [];
+  for (let v = lo; v <= hi + 1e-9; v += step) yTicks.push({ y: round(y(v)), label: usd(v) });
+
+  const xTicks: TrendGeometry["xTicks"] = [];
+  const first = new Date(t0);
+  for (let m = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 1)); m.getTime() <= t1; m.setUTCMonth(m.getUTCMonth() + 1)) {
+    xTicks.push({
+      x: round(x(m.toISOString())),
+      label: m.toLocaleString("en-US", { month: "short", timeZone: "UTC" }),
+    });
+  }
+
+  return {
+    band,
+    median,
+    ma90: trend.filter((p) => p.ma90 !== null).map((p) => at(p, p.ma90!)),
+    yTicks,
+    xTicks,
+  };
+}
+
+/* ── HTML ────────────────────────────────────────────────── */
+
+const CHART_W = 640;
+const CHART_H = 200;
+
+/** The report as a standalone HTML page, laid out to print on A4 */
+export function renderReportHtml(report: MonthlyReport, options: { siteName: string; pdfUrl?: string }): string {
+  const title = reportTitle(report);
+  const cards = kpiCards(report)
+    .map(
+      (c) =>
+        `<div class="card"><div class="label">${esc(c.label)}</div><div class="value">${esc(c.value)}</div><div class="sub">${esc(c.sub)}</div></div>`,
+    )
+    .join("");
+
+  const moversTable = (heading: string, rows: MoverRow[]) => `
+    <div>
+      <h3>${heading}</h3>
+      ${
+        rows.length === 0
+          ? `<p class="note">None this month.</p>`
+          : `<table>
+        <thead><tr><th>District</th><th class="num">Median</th><th class="num">1 month</th><th class="num">3 months</th></tr></thead>
+        <tbody>${rows
+          .map(
+            (m) =>
+              `<tr><td>${esc(m.district)}</td><td class="num">${usd(m.median)}</td><td class="num ${tone(m.change1m)}">${pct(m.change1m)}</td><td class="num ${tone(m.change3m)}">${pct(m.change3m)}</td></tr>`,
+          )
+          .join("")}</tbody>
+      </table>`
+      }
+    </div>`;
+
+  const maxVol = Math.max(1, ...report.volatility.map((v) => v.volatility));
+  const volatilityRows = report.volatility
+    .map(
+      (v) =>
+        `<tr><td>${esc(v.district)}</td><td class="bar"><span style="width:${((v.volatility / maxVol) * 100).toFixed(1)}%"></span></td><td class="num">±${usd(v.volatility)}</td><td class="num">${v.dataPoints}</td></tr>`,
+    )
+    .join("");
+
+  const l = report.lifecycle;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${esc(title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; margin: 0 auto; max-width: 760px; padding: 24px; font-size: 14px; line-height: 1.5; }
+  header { border-bottom: 3px solid #0f766e; padding-bottom: 12px; margin-bottom: 20px; }
+  header .brand { font-size: 12px; text-transform: uppercase; letter-spacing: 0.08em; color: #0f766e; font-weight: 700; }
+  h1 { font-size: 24px; margin: 4px 0 8px; }
+  h2 { font-size: 17px; margin: 28px 0 10px; }
+  h3 { font-size: 14px; margin: 0 0 8px; }
+  .lead { font-size: 15px; margin: 0; }
+  .cards { display: grid; grid-template-columns: repeat(4, 1fr); gap: 10px; }
+  .card { border: 1px solid #e5e7eb; border-radius: 6px; padding: 10px 12px; break-inside: avoid; }
+  .card .label { font-size: 11px; text-transform: uppercase; letter-spacing: 0.04em; color: #6b7280; }
+  .card .value { font-size: 20px; font-weight: 700; margin: 2px 0; }
+  .card .sub { font-size: 11px; color: #6b7280; }
+  .chart { width: 100%; height: auto; }
+  .movers { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; color: #6b7280; border-bottom: 1px solid #e5e7eb; padding: 4px 6px; }
+  td { border-bottom: 1px solid #f3f4f6; padding: 5px 6px; }
+  .num { text-align: right; white-space: nowrap; }
+  .up { color: #b91c1c; }
+  .down { color: #047857; }
+  td.bar { width: 40%; }
+  td.bar span { display: block; height: 8px; border-radius: 4px; background: #f59e0b; }
+  .note { font-size: 12px; color: #6b7280; }
+  footer { margin-top: 32px; border-top: 1px solid #e5e7eb; padding-top: 10px; font-size: 11px; color: #6b7280; }
+  @media print { body { padding: 0; } section { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<header>
+  <div class="brand">${esc(options.siteName)} · Rental market report</div>
+  <h1>${esc(title)}</h1>
+  <p class="lead">${esc(reportSummary(report))}</p>
+</header>
+
+<section>
+  <div class="cards">${cards}</div>
+</section>
+
+<section>
+  <h2>Median rent, last ${Math.round(REPORT_TREND_DAYS / 30)} months</h2>
+  ${trendSvg(report.trend)}
+  <p class="note">Line: daily median asking rent, shaded between the lower and upper quartile. Dashed: 90-day moving average.</p>
+</section>
+
+<section>
+  <h2>District movers</h2>
+  <div class="movers">
+    ${moversTable("Rising", report.rising)}
+    ${moversTable("Falling", report.falling)}
+  </div>
+  <p class="note">Change in each district's median asking rent over the month and the three months to ${esc(report.asOf)}.</p>
+</section>
+
+<section>
+  <h2>Most volatile districts</h2>
+  ${
+    report.volatility.length === 0
+      ? `<p class="note">Not enough history yet.</p>`
+      : `<table>
+    <thead><tr><th>District</th><th></th><th class="num">Std. dev.</th><th class="num">Data points</th></tr></thead>
+    <tbody>${volatilityRows}</tbody>
+  </table>
+  <p class="note">Spread of the district's daily median rents across bedroom counts and property types over the trend window.</p>`
+  }
+</section>
+
+<section>
+  <h2>Time on market</h2>
+  <table>
+    <tbody>
+      <tr><td>Median days on market (still listed)</td><td class="num">${l.medianDaysOnMarket ?? "—"}</td></tr>
+      <tr><td>Median days before delisting</td><td class="num">${l.medianDaysToDelist ?? "—"}</td></tr>
+      <tr><td>Listings still on the market</td><td class="num">${l.activeCount.toLocaleString("en-US")}</td></tr>
+      <tr><td>Listings taken down in the month</td><td class="num">${l.delistedCount.toLocaleString("en-US")}</td></tr>
+      <tr><td>Share with a price cut</td><td class="num">${l.reducedShare}%</td></tr>
+      <tr><td>Median price cut</td><td class="num">${l.medianDiscountPct !== null ? `${l.medianDiscountPct}%` : "—"}</td></tr>
+    </tbody>
+  </table>
+</section>
+
+<footer>
+  Asking rents from listings on Cambodian property portals, each home counted once, as of ${esc(report.asOf)}.
+  ${options.pdfUrl ? `<a href="${esc(options.pdfUrl)}">Download as PDF</a>.` : ""}
+</footer>
+</body>
+</html>
+`;
+}
+
+function trendSvg(trend: TrendPoint[]): string {
+  const pad = { left: 52, bottom: 20, top: 8, right: 8 };
+  const g = trendGeometry(trend, CHART_W - pad.left - pad.right, CHART_H - pad.top - pad.bottom);
+  if (!g) return `<p class="note">Not enough history to chart.</p>`;
+
+  const pts = (points: [number, number][]) => points.map(([x, y]) => `${x},${y}`).join(" ");
+  const grid = g.yTicks
+    .map(
+      (t) =>
+        `<line x1="0" x2="${CHART_W - pad.left - pad.right}" y1="${t.y}" y2="${t.y}" stroke="#e5e7eb"/>` +
+        `<text x="-6" y="${t.y + 4}" text-anchor="end" font-size="10" fill="#6b7280">${esc(t.label)}</text>`,
+    )
+    .join("");
+  const months = g.xTicks
+    .map((t) => `<text x="${t.x}" y="${CHART_H - pad.top - 4}" text-anchor="middle" font-size="10" fill="#6b7280">${t.label}</text>`)
+    .join("");
+
+  return `<svg class="chart" viewBox="0 0 ${CHART_W} ${CHART_H}" xmlns="http://www.w3.org/2000/svg" role="img" aria-label="Median rent trend">
+  <g transform="translate(${pad.left} ${pad.top})">
+    ${grid}
+    ${g.band.length > 2 ? `<polygon points="${pts(g.band)}" fill="#99f6e4" fill-opacity="0.5"/>` : ""}
+    ${g.ma90.length > 1 ? `<polyline points="${pts(g.ma90)}" fill="none" stroke="#6b7280" stroke-width="1.2" stroke-dasharray="4 3"/>` : ""}
+    ${g.median.map((run) => `<polyline points="${pts(run)}" fill="none" stroke="#0f766e" stroke-width="2"/>`).join("")}
+    ${months}
+  </g>
+</svg>`;
+}
+
+/* ── Email ───────────────────────────────────────────────── */
+
+export interface RenderedReportEmail {
+  subject: string;
+  previewText: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Campaign email announcing a report. The unsubscribe link is left as the
+ * `{{unsubscribe_link}}` placeholder the campaign sender fills per recipient.
+ */
+export function renderReportEmail(
+  report: MonthlyReport,
+  links: { pdfUrl: string; siteUrl: string; preferencesUrl: string },
+): RenderedReportEmail {
+  const month = formatMonth(report.yearMonth);
+  const subject = `${report.city} rents in ${month}: our monthly market report`;
+  const previewText = reportSummary(report);
+  const cards = kpiCards(report);
+  const movers = [...report.rising.slice(0, 3), ...report.falling.slice(0, 3)];
+
+  const intro: Block[] = [
+    { type: "hero", fields: { headline: `${report.city} rental market — ${month}`, intro: reportSummary(report) } },
+    {
+      type: "featureGrid3",
+      fields: {
+        items: [
+          { title: cards[0].value, body: "Median asking rent a month" },
+          { title: cards[4].value, body: "Change in the median over the month" },
+          { title: cards[3].value, body: "Listings on the market" },
+        ],
+      },
+    },
+  ];
+  const moverBlocks: Block[] =
+    movers.length > 0
+      ? [
+          { type: "sectionHeading", fields: { label: "Biggest movers" } },
+          {
+            type: "tipsBox",
+            fields: {
+              title: "Change in median rent over the month",
+              tips: movers.map((m) => `${m.district}: ${pct(m.change1m)} to ${usd(m.median)}`),
+            },
+          },
+        ]
+      : [];
+  const blocks: Block[] = [
+    ...intro,
+    ...moverBlocks,
+    {
+      type: "cta",
+      fields: {
+        ctaText: "Download the full report (PDF)",
+        ctaUrl: links.pdfUrl,
+        ctaSubtext: "Trend charts, every district mover, volatility and time on market.",
+      },
+    },
+  ];
+
+  const emailLinks = {
+    unsubscribeUrl: "{{unsubscribe_link}}",
+    preferencesUrl: links.preferencesUrl,
+    siteUrl: links.siteUrl,
+  };
+  const year = new Date().getFullYear();
+
+  return {
+    subject,
+    previewText,
+    html: renderEmail({ blocks, subject, previewText, links: emailLinks, year }),
+    text: renderTextVersion({ blocks, subject, previewText, links: emailLinks, year }),
+  };
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+export function usd(v: number | null): string {
+  return v !== null ? `$${Math.round(v).toLocaleString("en-US")}` : "—";
+}
+
+export function pct(v: number | null): string {
+  return v !== null ? `${v > 0 ? "+" : ""}${v.toFixed(1)}%` : "—";
+}
+
+/** Rising rents read as bad news for tenants, so up is red */
+function tone(v: number | null): string {
+  return v === null || v === 0 ? "" : v > 0 ? "up" : "down";
+}
+
+/** 1, 2 or 5 × a power of ten, at least `raw` */
+function niceStep(raw: number): number {
+  const pow = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 5, 10].map((m) => m * pow).find((s) => s >= raw)!;
+}
+
+function round(v: number): number {
+  return Math.round(v * 10) / 10;
+}
+
+function esc(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
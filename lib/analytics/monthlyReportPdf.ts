@@ -0,0 +1,221 @@
+/**
+ * PDF layout of the monthly market report — two A4 pages mirroring the
+ * HTML version: KPI cards, trend chart and district movers, then
+ * volatility and time on market. Drawn with ./pdf.ts.
+ */
+
+import { REPORT_TREND_DAYS } from "@/lib/rentals/config";
+import type { MoverRow } from "./calculateStats";
+import { createPdfDocument, fitText, wrapText, type PdfCanvas } from "./pdf";
+import {
+  kpiCards,
+  pct,
+  reportSummary,
+  reportTitle,
+  trendGeometry,
+  usd,
+  type MonthlyReport,
+} from "./monthlyReport";
+
+const MARGIN = 48;
+const GAP = 10;
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  border: "#e5e7eb",
+  accent: "#0f766e",
+  band: "#c2f5ea",
+  up: "#b91c1c",
+  down: "#047857",
+  bar: "#f59e0b",
+};
+
+export function renderReportPdf(report: MonthlyReport, options: { siteName: string }): Buffer {
+  const title = reportTitle(report);
+  const doc = createPdfDocument({ title });
+
+  const first = doc.addPage();
+  let y = header(first, report, options.siteName);
+  y = kpiGrid(first, report, y + 18);
+  y = trendChart(first, report, y + 28);
+  moversTables(first, report, y + 28);
+  footer(first, options.siteName, title, 1);
+
+  const second = doc.addPage();
+  y = volatilityTable(second, report, MARGIN + 12);
+  lifecycleTable(second, report, y + 28);
+  footer(second, options.siteName, title, 2);
+
+  return doc.toBuffer();
+}
+
+/* ── Sections ────────────────────────────────────────────── */
+
+function header(page: PdfCanvas, report: MonthlyReport, siteName: string): number {
+  const width = page.width - MARGIN * 2;
+  page.text(`${siteName.toUpperCase()} · RENTAL MARKET REPORT`, MARGIN, MARGIN + 8, { size: 8, bold: true, color: COLORS.accent });
+  page.text(fitText(reportTitle(report), width, 18, true), MARGIN, MARGIN + 32, { size: 18, bold: true, color: COLORS.text });
+
+  let y = MARGIN + 50;
+  for (const line of wrapText(reportSummary(report), width, 10.5)) {
+    page.text(line, MARGIN, y, { size: 10.5, color: COLORS.text });
+    y += 14;
+  }
+  page.rect(MARGIN, y, width, 2, { fill: COLORS.accent });
+  return y + 2;
+}
+
+function kpiGrid(page: PdfCanvas, report: MonthlyReport, top: number): number {
+  const cardW = (page.width - MARGIN * 2 - GAP * 3) / 4;
+  const cardH = 56;
+  kpiCards(report).forEach((card, i) => {
+    const x = MARGIN + (i % 4) * (cardW + GAP);
+    const y = top + Math.floor(i / 4) * (cardH + GAP);
+    page.rect(x, y, cardW, cardH, { stroke: COLORS.border, lineWidth: 0.8 });
+    page.text(card.label.toUpperCase(), x + 8, y + 14, { size: 7, color: COLORS.muted });
+    page.text(fitText(card.value, cardW - 16, 15, true), x + 8, y + 34, { size: 15, bold: true, color: COLORS.text });
+    page.text(fitText(card.sub, cardW - 16, 7), x + 8, y + 48, { size: 7, color: COLORS.muted });
+  });
+  return top + cardH * 2 + GAP;
+}
+
+function trendChart(page: PdfCanvas, report: MonthlyReport, top: number): number {
+  const y0 = sectionHeading(page, `Median rent, last ${Math.round(REPORT_TREND_DAYS / 30)} months`, top);
+  const left = MARGIN + 44;
+  const plotW = page.width - MARGIN - left;
+  const plotH = 170;
+  const g = trendGeometry(report.trend, plotW, plotH);
+  if (!g) {
+    page.text("Not enough history to chart.", MARGIN, y0 + 12, { size: 9, color: COLORS.muted });
+    return y0 + 12;
+  }
+
+  const at = ([x, y]: [number, number]): [number, number] => [left + x, y0 + y];
+  for (const t of g.yTicks) {
+    page.polyline([at([0, t.y]), at([plotW, t.y])], { stroke: COLORS.border, lineWidth: 0.5 });
+    page.text(t.label, left - 6, y0 + t.y + 3, { size: 7.5, color: COLORS.muted, align: "right" });
+  }
+  if (g.band.length > 2) page.polygon(g.band.map(at), { fill: COLORS.band });
+  if (g.ma90.length > 1) page.polyline(g.ma90.map(at), { stroke: COLORS.muted, lineWidth: 0.8 });
+  for (const run of g.median) page.polyline(run.map(at), { stroke: COLORS.accent, lineWidth: 1.6 });
+  for (const t of g.xTicks) {
+    page.text(t.label, left + t.x, y0 + plotH + 12, { size: 7.5, color: COLORS.muted, align: "center" });
+  }
+
+  const noteY = y0 + plotH + 28;
+  page.text(
+    "Dark line: daily median asking rent, shaded between the lower and upper quartile. Grey: 90-day moving average.",
+    MARGIN,
+    noteY,
+    { size: 7.5, color: COLORS.muted },
+  );
+  return noteY;
+}
+
+function moversTables(page: PdfCanvas, report: MonthlyReport, top: number): void {
+  const y0 = sectionHeading(page, "District movers", top);
+  const colW = (page.width - MARGIN * 2 - GAP * 2) / 2;
+  moverTable(page, "Rising", report.rising, MARGIN, y0, colW);
+  moverTable(page, "Falling", report.falling, MARGIN + colW + GAP * 2, y0, colW);
+}
+
+function moverTable(page: PdfCanvas, heading: string, rows: MoverRow[], x: number, top: number, width: number): void {
+  page.text(heading, x, top + 8, { size: 10, bold: true, color: COLORS.text });
+  if (rows.length === 0) {
+    page.text("None this month.", x, top + 24, { size: 8.5, color: COLORS.muted });
+    return;
+  }
+
+  // District, then three right-aligned numeric columns
+  const cols = [x + width - 116, x + width - 58, x + width];
+  let y = top + 24;
+  page.text("DISTRICT", x, y, { size: 6.5, color: COLORS.muted });
+  ["MEDIAN", "1 MONTH", "3 MONTHS"].forEach((h, i) => page.text(h, cols[i], y, { size: 6.5, color: COLORS.muted, align: "right" }));
+  y += 5;
+  page.rect(x, y, width, 0.6, { fill: COLORS.border });
+
+  for (const m of rows) {
+    y += 14;
+    page.text(fitText(m.district, cols[0] - x - 50, 8.5), x, y, { size: 8.5, color: COLORS.text });
+    page.text(usd(m.median), cols[0], y, { size: 8.5, color: COLORS.text, align: "right" });
+    page.text(pct(m.change1m), cols[1], y, { size: 8.5, color: tone(m.change1m), align: "right" });
+    page.text(pct(m.change3m), cols[2], y, { size: 8.5, color: tone(m.change3m), align: "right" });
+  }
+}
+
+function volatilityTable(page: PdfCanvas, report: MonthlyReport, top: number): number {
+  let y = sectionHeading(page, "Most volatile districts", top);
+  if (report.volatility.length === 0) {
+    page.text("Not enough history yet.", MARGIN, y + 12, { size: 9, color: COLORS.muted });
+    return y + 12;
+  }
+
+  const right = page.width - MARGIN;
+  const barX = MARGIN + 150;
+  const barW = right - 130 - barX;
+  const max = Math.max(1, ...report.volatility.map((v) => v.volatility));
+
+  page.text("DISTRICT", MARGIN, y + 8, { size: 6.5, color: COLORS.muted });
+  page.text("STD. DEV.", right - 60, y + 8, { size: 6.5, color: COLORS.muted, align: "right" });
+  page.text("DATA POINTS", right, y + 8, { size: 6.5, color: COLORS.muted, align: "right" });
+  y += 13;
+  page.rect(MARGIN, y, right - MARGIN, 0.6, { fill: COLORS.border });
+
+  for (const v of report.volatility) {
+    y += 16;
+    page.text(fitText(v.district, barX - MARGIN - 10, 9), MARGIN, y, { size: 9, color: COLORS.text });
+    page.rect(barX, y - 7, Math.max(1, (v.volatility / max) * barW), 7, { fill: COLORS.bar });
+    page.text(`±${usd(v.volatility)}`, right - 60, y, { size: 9, color: COLORS.text, align: "right" });
+    page.text(String(v.dataPoints), right, y, { size: 9, color: COLORS.text, align: "right" });
+  }
+
+  y += 18;
+  page.text(
+    "Spread of the district's daily median rents across bedroom counts and property types over the trend window.",
+    MARGIN,
+    y,
+    { size: 7.5, color: COLORS.muted },
+  );
+  return y;
+}
+
+function lifecycleTable(page: PdfCanvas, report: MonthlyReport, top: number): void {
+  const l = report.lifecycle;
+  const rows: [string, string][] = [
+    ["Median days on market (still listed)", l.medianDaysOnMarket !== null ? String(l.medianDaysOnMarket) : "—"],
+    ["Median days before delisting", l.medianDaysToDelist !== null ? String(l.medianDaysToDelist) : "—"],
+    ["Listings still on the market", l.activeCount.toLocaleString("en-US")],
+    ["Listings taken down in the month", l.delistedCount.toLocaleString("en-US")],
+    ["Share with a price cut", `${l.reducedShare}%`],
+    ["Median price cut", l.medianDiscountPct !== null ? `${l.medianDiscountPct}%` : "—"],
+  ];
+
+  let y = sectionHeading(page, "Time on market", top);
+  const right = page.width - MARGIN;
+  for (const [label, value] of rows) {
+    y += 16;
+    page.text(label, MARGIN, y, { size: 9, color: COLORS.text });
+    page.text(value, right, y, { size: 9, bold: true, color: COLORS.text, align: "right" });
+    page.rect(MARGIN, y + 5, right - MARGIN, 0.4, { fill: COLORS.border });
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+/** Draw a section heading; returns the y its content starts at */
+function sectionHeading(page: PdfCanvas, label: string, top: number): number {
+  page.text(label, MARGIN, top, { size: 13, bold: true, color: COLORS.text });
+  return top + 14;
+}
+
+function footer(page: PdfCanvas, siteName: string, title: string, n: number): void {
+  const y = page.height - MARGIN / 2;
+  page.rect(MARGIN, y - 12, page.width - MARGIN * 2, 0.6, { fill: COLORS.border });
+  page.text(fitText(`${siteName} · ${title}`, page.width - MARGIN * 2 - 60, 7.5), MARGIN, y, { size: 7.5, color: COLORS.muted });
+  page.text(`Page ${n} of 2`, page.width - MARGIN, y, { size: 7.5, color: COLORS.muted, align: "right" });
+}
+
+function tone(v: number | null): string {
+  return v === null || v === 0 ? COLORS.text : v > 0 ? COLORS.up : COLORS.down;
+}
@@ -0,0 +1,281 @@
+/**
+ * Minimal PDF writer — just enough to draw the monthly market report.
+ *
+ * Pure TypeScript (zlib aside), so reports render on the server without a
+ * headless browser or an external service. Pages are drawn with the two
+ * standard Helvetica faces every PDF viewer ships, in WinAnsi encoding;
+ * characters outside it print as "?". Coordinates are in points from the
+ * top-left corner of the page, like the SVG charts in the HTML version.
+ */
+
+import { deflateSync } from "zlib";
+
+/** A4 portrait, in points */
+export const A4 = { width: 595.28, height: 841.89 };
+
+export interface TextOptions {
+  size: number;
+  bold?: boolean;
+  /** "#rrggbb" */
+  color?: string;
+  /** Which end of the text `x` refers to */
+  align?: "left" | "center" | "right";
+}
+
+export interface ShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfCanvas {
+  readonly width: number;
+  readonly height: number;
+  /** Draw one line of text with its baseline at `y` */
+  text(s: string, x: number, y: number, options: TextOptions): void;
+  rect(x: number, y: number, w: number, h: number, options: ShapeOptions): void;
+  /** An open path through the points */
+  polyline(points: [number, number][], options: ShapeOptions): void;
+  /** A closed path through the points */
+  polygon(points: [number, number][], options: ShapeOptions): void;
+}
+
+export interface PdfDocument {
+  addPage(): PdfCanvas;
+  toBuffer(): Buffer;
+}
+
+/* ── Fonts ───────────────────────────────────────────────── */
+
+// Advance widths (1/1000 em) for WinAnsi 32–126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Non-ASCII characters the report uses: WinAnsi byte and [regular, bold] width */
+const WIN_ANSI_EXTRAS: Record<string, [number, number, number]> = {
+  "–": [0x96, 556, 556],
+  "—": [0x97, 1000, 1000],
+  "…": [0x85, 1000, 1000],
+  "•": [0x95, 350, 350],
+  "·": [0xb7, 278, 278],
+  "’": [0x92, 222, 278],
+  "²": [0xb2, 333, 333],
+  "×": [0xd7, 584, 584],
+  "±": [0xb1, 584, 584],
+};
+
+/** Characters with a close WinAnsi stand-in */
+const SUBSTITUTES: Record<string, string> = { "−": "-", "‘": "'", "“": '"', "”": '"', " ": " " };
+
+function encodeWinAnsi(s: string): number[] {
+  const bytes: number[] = [];
+  for (const raw of s) {
+    const ch = SUBSTITUTES[raw] ?? raw;
+    const code = ch.charCodeAt(0);
+    if (code >= 32 && code <= 126) bytes.push(code);
+    else bytes.push(WIN_ANSI_EXTRAS[ch]?.[0] ?? 0x3f);
+  }
+  return bytes;
+}
+
+/** Width of `s` in points when set in Helvetica at `size` */
+export function textWidth(s: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const raw of s) {
+    const ch = SUBSTITUTES[raw] ?? raw;
+    const code = ch.charCodeAt(0);
+    if (code >= 32 && code <= 126) units += widths[code - 32];
+    else units += WIN_ANSI_EXTRAS[ch]?.[bold ? 2 : 1] ?? widths["?".charCodeAt(0) - 32];
+  }
+  return (units * size) / 1000;
+}
+
+/** Shorten `s` with an ellipsis until it fits in `maxWidth` points */
+export function fitText(s: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(s, size, bold) <= maxWidth) return s;
+  let out = s;
+  while (out.length > 0 && textWidth(`${out}…`, size, bold) > maxWidth) out = out.slice(0, -1);
+  return `${out.trimEnd()}…`;
+}
+
+/** Break `s` into lines no wider than `maxWidth` points, at spaces */
+export function wrapText(s: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of s.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word;
+    if (line && textWidth(next, size, bold) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/* ── Document ────────────────────────────────────────────── */
+
+export function createPdfDocument(options: { title: string; width?: number; height?: number }): PdfDocument {
+  const width = options.width ?? A4.width;
+  const height = options.height ?? A4.height;
+  const pages: string[][] = [];
+
+  return {
+    addPage() {
+      const ops: string[] = [];
+      pages.push(ops);
+      return createCanvas(ops, width, height);
+    },
+    toBuffer() {
+      return serialize(options.title, width, height, pages);
+    },
+  };
+}
+
+function createCanvas(ops: string[], width: number, height: number): PdfCanvas {
+  // PDF's origin is bottom-left
+  const px = (v: number) => num(v);
+  const py = (v: number) => num(height - v);
+
+  const paint = (path: string, o: ShapeOptions, closed: boolean) => {
+    if (!o.fill && !o.stroke) return;
+    const state: string[] = [];
+    if (o.fill) state.push(`${rgb(o.fill)} rg`);
+    if (o.stroke) state.push(`${rgb(o.stroke)} RG ${num(o.lineWidth ?? 1)} w`);
+    const op = o.fill && o.stroke ? "B" : o.fill ? "f" : closed ? "s" : "S";
+    ops.push(`q ${state.join(" ")} ${path} ${op} Q`);
+  };
+
+  const path = (points: [number, number][]) =>
+    points.map(([x, y], i) => `${px(x)} ${py(y)} ${i === 0 ? "m" : "l"}`).join(" ");
+
+  return {
+    width,
+    height,
+    text(s, x, y, o) {
+      if (!s) return;
+      const w = textWidth(s, o.size, o.bold);
+      const left = o.align === "right" ? x - w : o.align === "center" ? x - w / 2 : x;
+      const font = o.bold ? "F2" : "F1";
+      ops.push(
+        `BT ${rgb(o.color ?? "#000000")} rg /${font} ${num(o.size)} Tf ${px(left)} ${py(y)} Td (${pdfString(encodeWinAnsi(s))}) Tj ET`,
+      );
+    },
+    rect(x, y, w, h, o) {
+      paint(`${px(x)} ${py(y + h)} ${num(w)} ${num(h)} re`, o, true);
+    },
+    polyline(points, o) {
+      if (points.length < 2) return;
+      paint(path(points), { ...o, fill: undefined }, false);
+    },
+    polygon(points, o) {
+      if (points.length < 3) return;
+      paint(`${path(points)} h`, o, true);
+    },
+  };
+}
+
+function serialize(title: string, width: number, height: number, pages: string[][]): Buffer {
+  // Objects 1–4 are fixed; each page then takes a page object and a content stream
+  const objects: Buffer[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+
+  objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>"));
+  objects.push(Buffer.from(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`));
+  objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"));
+  objects.push(Buffer.from("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"));
+
+  for (let i = 0; i < pages.length; i++) {
+    const contentId = pageIds[i] + 1;
+    objects.push(
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`,
+      ),
+    );
+    const stream = deflateSync(Buffer.from(pages[i].join("\n"), "latin1"));
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from("\nendstream"),
+      ]),
+    );
+  }
+
+  const infoId = objects.length + 1;
+  objects.push(Buffer.from(`<< /Title ${utf16String(title)} /Producer (GlobeScraper) >>`));
+
+  // Binary-comment line after the header marks the file as binary for transfer tools
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from("\nendobj\n")]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    "startxref",
+    String(offset),
+    "%%EOF",
+  ].join("\n");
+  chunks.push(Buffer.from(`${xref}\n`));
+
+  return Buffer.concat(chunks);
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function num(v: number): string {
+  return String(Math.round(v * 100) / 100);
+}
+
+function rgb(hex: string): string {
+  const n = parseInt(hex.replace("#", ""), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((c) => num(c / 255)).join(" ");
+}
+
+/** Literal string body: escape delimiters, write non-ASCII bytes as octal */
+function pdfString(bytes: number[]): string {
+  return bytes
+    .map((b) => {
+      if (b === 0x28 || b === 0x29 || b === 0x5c) return `\\${String.fromCharCode(b)}`;
+      if (b < 32 || b > 126) return `\\${b.toString(8).padStart(3, "0")}`;
+      return String.fromCharCode(b);
+    })
+    .join("");
+}
+
+/** Document-info strings may hold any text as UTF-16BE with a byte-order mark */
+function utf16String(s: string): string {
+  let hex = "FEFF";
+  for (let i = 0; i < s.length; i++) hex += s.charCodeAt(i).toString(16).padStart(4, "0").toUpperCase();
+  return `<${hex}>`;
+}
@@ -243,3 +243,31 @@ export function getReportRatelimit(): Ratelimit | null {
 
   return _reportInstance;
 }
+
+/**
+ * Public rentals API limiters — one per (limit, window), keyed by API key id.
+ * Each key has its own per-minute and per-day limits (RentalApiKey).
+ */
+
+const _rentalsApiInstances = new Map<string, Ratelimit>();
+
+export function getRentalsApiRatelimit(limit: number, window: "1 m" | "24 h"): Ratelimit | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) return null;
+
+  const cacheKey = `${limit}/${window}`;
+  let instance = _rentalsApiInstances.get(cacheKey);
+  if (!instance) {
+    instance = new Ratelimit({
+      redis: new Redis({ url, token }),
+      limiter: Ratelimit.slidingWindow(limit, window),
+      prefix: window === "1 m" ? "ratelimit:rentals-api:minute" : "ratelimit:rentals-api:day",
+      analytics: true,
+    });
+    _rentalsApiInstances.set(cacheKey, instance);
+  }
+
+  return instance;
+}
@@ -0,0 +1,369 @@
+/**
+ * Cross-source duplicate clustering for rental listings.
+ *
+ * The same unit is routinely posted on Khmer24, Realestate.com.kh, IPS and
+ * others with slightly different titles, prices and photo crops. The exact
+ * `contentFingerprint` can't see through that, so here we score listing
+ * pairs on several fuzzy signals and union matching pairs into clusters.
+ *
+ * The clusterDuplicates job loads candidates, fills in image hashes and
+ * persists the result.
+ */
+
+import type { PropertyType, RentalSource } from "@prisma/client";
+import { trigramSimilarity } from "./ml";
+import { IMAGE_MATCH_MAX_DISTANCE, IMAGE_NEAR_MAX_DISTANCE, closestImageDistance } from "./imageHash";
+import { haversineKm } from "./geoSearch";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface ClusterCandidate {
+  id: string;
+  source: RentalSource;
+  title: string;
+  city: string;
+  district: string | null;
+  propertyType: PropertyType;
+  bedrooms: number | null;
+  sizeSqm: number | null;
+  priceMonthlyUsd: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  imageHashes: string[];
+  imageCount: number;
+  hasDescription: boolean;
+  firstSeenAt: Date;
+}
+
+export interface DuplicateSignals {
+  title: number;
+  location: number;
+  specs: number;
+  price: number;
+  /** Closest image pair in dHash bits, null when either side has no hashes */
+  imageDistance: number | null;
+}
+
+export interface DuplicateMatch {
+  isDuplicate: boolean;
+  score: number;
+  signals: DuplicateSignals;
+  /** Why the pair was ruled out, if a hard constraint failed */
+  rejectedBy?: string;
+}
+
+export interface ClusterAssignment {
+  clusterId: string | null;
+  isClusterPrimary: boolean;
+}
+
+/* ── Thresholds ──────────────────────────────────────────── */
+
+/** Weighted score at or above which a pair is a duplicate */
+export const DUPLICATE_SCORE_THRESHOLD = 0.72;
+
+/** Listings further apart than this can't be the same unit */
+const MAX_DISTANCE_KM = 1.0;
+
+/** Same-unit asking prices rarely differ by more than this across agents */
+const MAX_PRICE_RATIO = 1.4;
+
+const WEIGHTS = {
+  title: 0.35,
+  location: 0.25,
+  specs: 0.2,
+  price: 0.1,
+  image: 0.1,
+};
+
+/* ── Pair scoring ────────────────────────────────────────── */
+
+/**
+ * Score whether two listings describe the same physical unit.
+ *
+ * Hard constraints (different bedrooms, far apart, very different size or
+ * price) rule a pair out. Otherwise signals are combined with WEIGHTS; a
+ * near-identical photo is strong enough on its own to pass.
+ */
+export function scoreDuplicatePair(a: ClusterCandidate, b: ClusterCandidate): DuplicateMatch {
+  const signals: DuplicateSignals = {
+    title: 0,
+    location: 0,
+    specs: 0,
+    price: 0,
+    imageDistance: closestImageDistance(a.imageHashes, b.imageHashes),
+  };
+  const reject = (rejectedBy: string): DuplicateMatch => ({
+    isDuplicate: false,
+    score: 0,
+    signals,
+    rejectedBy,
+  });
+
+  if (normalizeCity(a.city) !== normalizeCity(b.city)) return reject("city");
+
+  // ── Beds / size ──
+  if (a.bedrooms !== null && b.bedrooms !== null && a.bedrooms !== b.bedrooms) {
+    return reject("bedrooms");
+  }
+  const sizeRatio = ratio(a.sizeSqm, b.sizeSqm);
+  if (sizeRatio !== null && sizeRatio > 1.25) return reject("size");
+  signals.specs =
+    (a.bedrooms !== null && a.bedrooms === b.bedrooms ? 0.5 : 0.25) +
+    (sizeRatio === null ? 0.25 : sizeRatio <= 1.05 ? 0.5 : sizeRatio <= 1.15 ? 0.25 : 0);
+
+  // ── Location ──
+  if (a.latitude !== null && a.longitude !== null && b.latitude !== null && b.longitude !== null) {
+    const km = haversineKm(a.latitude, a.longitude, b.latitude, b.longitude);
+    if (km > MAX_DISTANCE_KM) return reject("distance");
+    signals.location = km <= 0.15 ? 1 : km <= 0.5 ? 0.6 : 0.3;
+  } else {
+    const da = normalizeDistrict(a.district);
+    const db = normalizeDistrict(b.district);
+    if (da && db && da !== db) return reject("district");
+    signals.location = da && db ? 0.6 : 0.2;
+  }
+
+  // ── Price ──
+  const priceRatio = ratio(a.priceMonthlyUsd, b.priceMonthlyUsd);
+  if (priceRatio !== null && priceRatio > MAX_PRICE_RATIO) return reject("price");
+  signals.price = priceRatio === null ? 0.5 : priceRatio <= 1.05 ? 1 : priceRatio <= 1.15 ? 0.6 : 0.2;
+
+  // ── Title ──
+  signals.title = trigramSimilarity(normalizeTitle(a.title), normalizeTitle(b.title));
+
+  // ── Images ──
+  const imageScore =
+    signals.imageDistance === null
+      ? 0
+      : signals.imageDistance <= IMAGE_MATCH_MAX_DISTANCE
+        ? 1
+        : signals.imageDistance <= IMAGE_NEAR_MAX_DISTANCE
+          ? 0.5
+          : 0;
+
+  const score =
+    WEIGHTS.title * signals.title +
+    WEIGHTS.location * signals.location +
+    WEIGHTS.specs * signals.specs +
+    WEIGHTS.price * signals.price +
+    WEIGHTS.image * imageScore;
+
+  // Agents share photos but rarely reuse another unit's exact shots
+  const strongImage = imageScore === 1 && signals.location >= 0.6;
+
+  return {
+    isDuplicate: strongImage || score >= DUPLICATE_SCORE_THRESHOLD,
+    score: Math.round(score * 1000) / 1000,
+    signals,
+  };
+}
+
+/**
+ * Whether a pair is close enough to be worth downloading images for:
+ * passes the hard constraints and would clear the threshold with a photo match.
+ */
+export function needsImageCheck(a: ClusterCandidate, b: ClusterCandidate): boolean {
+  const match = scoreDuplicatePair(
+    { ...a, imageHashes: [] },
+    { ...b, imageHashes: [] }
+  );
+  if (match.rejectedBy || match.isDuplicate) return false;
+  return match.score + WEIGHTS.image >= DUPLICATE_SCORE_THRESHOLD || match.signals.location >= 0.6;
+}
+
+/* ── Blocking ────────────────────────────────────────────── */
+
+/**
+ * Candidate pairs worth scoring. Listings with bedrooms and a price are
+ * blocked by city + bedrooms, sorted by price and only compared within
+ * MAX_PRICE_RATIO of each other, which keeps the job near-linear on large
+ * cities. The few without bedrooms or a price can't be blocked that way,
+ * so each is compared with every listing in its city that doesn't rule it
+ * out; those pairs are decided on title, location and photos. Same-source
+ * pairs are skipped — reposts on one portal are the fingerprint's job.
+ */
+export function candidatePairs(listings: ClusterCandidate[]): [ClusterCandidate, ClusterCandidate][] {
+  const cities = new Map<string, ClusterCandidate[]>();
+  for (const l of listings) {
+    const key = normalizeCity(l.city);
+    let city = cities.get(key);
+    if (!city) {
+      city = [];
+      cities.set(key, city);
+    }
+    city.push(l);
+  }
+
+  const pairs: [ClusterCandidate, ClusterCandidate][] = [];
+  for (const city of cities.values()) {
+    const blocks = new Map<number, ClusterCandidate[]>();
+    const loose: ClusterCandidate[] = [];
+    for (const l of city) {
+      if (l.bedrooms === null || l.priceMonthlyUsd === null) {
+        loose.push(l);
+        continue;
+      }
+      let block = blocks.get(l.bedrooms);
+      if (!block) {
+        block = [];
+        blocks.set(l.bedrooms, block);
+      }
+      block.push(l);
+    }
+
+    for (const block of blocks.values()) {
+      block.sort((x, y) => x.priceMonthlyUsd! - y.priceMonthlyUsd!);
+      for (let i = 0; i < block.length; i++) {
+        const a = block[i];
+        for (let j = i + 1; j < block.length; j++) {
+          const b = block[j];
+          if (b.priceMonthlyUsd! > a.priceMonthlyUsd! * MAX_PRICE_RATIO) break;
+          if (a.source !== b.source) pairs.push([a, b]);
+        }
+      }
+    }
+
+    // Each loose listing against the blocked ones, and each later loose one
+    const blocked = [...blocks.values()].flat();
+    for (let i = 0; i < loose.length; i++) {
+      const a = loose[i];
+      for (const b of [...blocked, ...loose.slice(i + 1)]) {
+        if (a.source === b.source) continue;
+        if (a.bedrooms !== null && b.bedrooms !== null && a.bedrooms !== b.bedrooms) continue;
+        const priceRatio = ratio(a.priceMonthlyUsd, b.priceMonthlyUsd);
+        if (priceRatio !== null && priceRatio > MAX_PRICE_RATIO) continue;
+        pairs.push([a, b]);
+      }
+    }
+  }
+  return pairs;
+}
+
+/* ── Clustering ──────────────────────────────────────────── */
+
+/**
+ * Union matching pairs into clusters and pick a primary per cluster.
+ *
+ * The cluster id is the id of its earliest-seen member, so it stays stable
+ * as later reposts join. The primary is the most complete listing (photos,
+ * coordinates, size, description), ties going to the earliest seen.
+ * Listings not in any cluster get `{ clusterId: null, isClusterPrimary: true }`.
+ */
+export function buildClusters(
+  listings: ClusterCandidate[],
+  duplicatePairs: [string, string][]
+): Map<string, ClusterAssignment> {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    let cur = id;
+    while (parent.get(cur) !== root) {
+      const next = parent.get(cur)!;
+      parent.set(cur, root);
+      cur = next;
+    }
+    return root;
+  };
+
+  for (const l of listings) parent.set(l.id, l.id);
+  for (const [a, b] of duplicatePairs) {
+    if (!parent.has(a) || !parent.has(b)) continue;
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(ra, rb);
+  }
+
+  const groups = new Map<string, ClusterCandidate[]>();
+  for (const l of listings) {
+    const root = find(l.id);
+    let members = groups.get(root);
+    if (!members) {
+      members = [];
+      groups.set(root, members);
+    }
+    members.push(l);
+  }
+
+  const result = new Map<string, ClusterAssignment>();
+  for (const members of groups.values()) {
+    if (members.length === 1) {
+      result.set(members[0].id, { clusterId: null, isClusterPrimary: true });
+      continue;
+    }
+
+    const clusterId = bySeen(members)[0].id;
+    const primary = pickClusterPrimary(members);
+
+    for (const l of members) {
+      result.set(l.id, { clusterId, isClusterPrimary: l.id === primary.id });
+    }
+  }
+  return result;
+}
+
+/** What picking a cluster's primary looks at */
+export type PrimaryCandidate = Pick<
+  ClusterCandidate,
+  "id" | "firstSeenAt" | "imageCount" | "latitude" | "sizeSqm" | "hasDescription" | "bedrooms"
+>;
+
+/**
+ * The most complete of a cluster's listings (photos, coordinates, size,
+ * description), ties going to the earliest seen. Also used to promote a
+ * new primary when the current one is deactivated (./clusterStore.ts).
+ */
+export function pickClusterPrimary<T extends PrimaryCandidate>(members: T[]): T {
+  return bySeen(members).reduce((best, l) => (completeness(l) > completeness(best) ? l : best));
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function bySeen<T extends PrimaryCandidate>(members: T[]): T[] {
+  return [...members].sort((x, y) => x.firstSeenAt.getTime() - y.firstSeenAt.getTime() || x.id.localeCompare(y.id));
+}
+
+/** Larger / smaller, or null if either value is missing or non-positive. */
+function ratio(a: number | null, b: number | null): number | null {
+  if (a === null || b === null || a <= 0 || b <= 0) return null;
+  return Math.max(a, b) / Math.min(a, b);
+}
+
+function normalizeCity(city: string): string {
+  return city.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function normalizeDistrict(district: string | null): string | null {
+  if (!district) return null;
+  const d = district.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return d || null;
+}
+
+/**
+ * Strip boilerplate that every portal adds ("for rent", prices, agency
+ * names after a dash) so trigram overlap reflects the unit itself.
+ */
+function normalizeTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/\$\s*[\d,.]+/g, " ")
+    .replace(/\b(for rent|for lease|to let|rent|rental|available|now|nice|new)\b/g, " ")
+    .replace(/\b(\d+)\s*(?:bedrooms?|beds?|br)\b/g, "$1bed")
+    .replace(/\b(\d+)\s*(?:bathrooms?|baths?|ba)\b/g, "$1bath")
+    .replace(/\bbkk\s*(\d)/g, "bkk$1")
+    .replace(/[^a-z0-9 ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function completeness(l: PrimaryCandidate): number {
+  return (
+    Math.min(l.imageCount, 10) +
+    (l.latitude !== null ? 3 : 0) +
+    (l.sizeSqm !== null ? 2 : 0) +
+    (l.hasDescription ? 2 : 0) +
+    (l.bedrooms !== null ? 1 : 0)
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Keeps duplicate clusters visible between clustering runs. Search, the
+ * index and the market pages show only `isClusterPrimary` listings, so
+ * when a cluster's primary is deactivated the most complete active member
+ * takes over (./cluster.ts `pickClusterPrimary`). The next clusterDuplicates
+ * run releases the inactive listing from the cluster.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { pickClusterPrimary } from "./cluster";
+import { parseSourceUrls } from "./listingImages";
+
+/**
+ * Promote a new primary in every cluster (of `clusterIds`, or all) that
+ * has active members but no active primary. Returns listings promoted.
+ */
+export async function promoteClusterPrimaries(clusterIds?: string[]): Promise<number> {
+  if (clusterIds?.length === 0) return 0;
+  const inClusters = clusterIds ? { in: clusterIds } : { not: null };
+
+  const hidden = await prisma.rentalListing.findMany({
+    where: { clusterId: inClusters, isActive: true, isClusterPrimary: false },
+    select: { clusterId: true },
+    distinct: ["clusterId"],
+  });
+  const candidates = hidden.flatMap((h) => (h.clusterId ? [h.clusterId] : []));
+  if (candidates.length === 0) return 0;
+
+  const led = await prisma.rentalListing.findMany({
+    where: { clusterId: { in: candidates }, isActive: true, isClusterPrimary: true },
+    select: { clusterId: true },
+    distinct: ["clusterId"],
+  });
+  const hasPrimary = new Set(led.map((l) => l.clusterId));
+  const orphaned = candidates.filter((id) => !hasPrimary.has(id));
+  if (orphaned.length === 0) return 0;
+
+  const members = await prisma.rentalListing.findMany({
+    where: { clusterId: { in: orphaned }, isActive: true },
+    select: {
+      id: true,
+      clusterId: true,
+      firstSeenAt: true,
+      imageUrlsJson: true,
+      latitude: true,
+      sizeSqm: true,
+      description: true,
+      bedrooms: true,
+    },
+  });
+  const byCluster = new Map<string, typeof members>();
+  for (const m of members) {
+    const list = byCluster.get(m.clusterId!) ?? [];
+    list.push(m);
+    byCluster.set(m.clusterId!, list);
+  }
+
+  let promoted = 0;
+  for (const list of byCluster.values()) {
+    const primary = pickClusterPrimary(
+      list.map((m) => ({ ...m, imageCount: parseSourceUrls(m.imageUrlsJson).length, hasDescription: !!m.description })),
+    );
+    await prisma.rentalListing.update({ where: { id: primary.id }, data: { isClusterPrimary: true } });
+    promoted++;
+  }
+  return promoted;
+}
@@ -0,0 +1,380 @@
+/**
+ * Commute-aware search for /rentals: pinned places (a school, a language
+ * centre), estimated travel times to them and a "max commute" filter, all
+ * serialised into URL params like the map search.
+ *
+ *   commute=ISPP@11.54390,104.92430;Language centre@11.57010,104.91020
+ *   commuteMode=tuktuk&maxCommute=20&sort=commute
+ *
+ * Travel times come from an offline road approximation — no routing
+ * service:
+ *
+ * - Road distance is the straight line times ROAD_CIRCUITY
+ * - A trip that crosses the Tonle Sap or the Bassac goes via the bridge
+ *   that adds the least distance
+ * - Each half kilometre is driven at the mode's speed, slowed in dense
+ *   districts — a district's density is read from its area in the
+ *   district GeoJSON (small inner-city sangkats are the busiest roads)
+ *
+ * `buildRentalsWhere` can only narrow a max commute to a bounding box;
+ * `applyCommuteFilter` in ./commuteStore.ts keeps the listings really
+ * within it.
+ */
+
+import { formatLatLng, haversineKm, parseLatLng, pointInPolygon, type GeoBoundingBox, type LatLng } from "./geoSearch";
+
+/* ── Modes & limits ──────────────────────────────────────── */
+
+export type CommuteMode = "tuktuk" | "moto" | "walk";
+
+interface ModeProfile {
+  /** "by tuk-tuk", "on foot" */
+  travel: string;
+  /** Average speed (km/h) on open roads */
+  kmh: number;
+  /** Fixed minutes per trip — hailing a tuk-tuk, parking a moto */
+  overheadMinutes: number;
+  /** Slowed by traffic in dense districts */
+  trafficBound: boolean;
+}
+
+export const COMMUTE_MODES: Record<CommuteMode, ModeProfile> = {
+  tuktuk: { travel: "by tuk-tuk", kmh: 24, overheadMinutes: 4, trafficBound: true },
+  moto: { travel: "by moto", kmh: 30, overheadMinutes: 2, trafficBound: true },
+  walk: { travel: "on foot", kmh: 4.8, overheadMinutes: 0, trafficBound: false },
+};
+
+export const DEFAULT_COMMUTE_MODE: CommuteMode = "tuktuk";
+
+/** Max commute choices (minutes) offered by the filters */
+export const MAX_COMMUTE_OPTIONS = [10, 15, 20, 30, 45, 60];
+
+export const MIN_MAX_COMMUTE = 5;
+export const MAX_MAX_COMMUTE = 120;
+
+export const MAX_COMMUTE_PLACES = 3;
+
+/** Longest place label kept */
+export const MAX_PLACE_LABEL_LENGTH = 40;
+
+/** Longest `commute` value accepted (3 × label + "@" + "-90.00000,-180.00000" + ";") */
+export const MAX_COMMUTE_PARAM_LENGTH = MAX_COMMUTE_PLACES * (MAX_PLACE_LABEL_LENGTH + 22);
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface CommutePlace extends LatLng {
+  label: string;
+}
+
+export interface CommuteSearch {
+  places: CommutePlace[];
+  mode: CommuteMode;
+  /** Every place must be reachable within this many minutes */
+  maxMinutes: number | null;
+}
+
+/** Estimated trip from a listing to one pinned place */
+export interface CommuteTime {
+  label: string;
+  mode: CommuteMode;
+  minutes: number;
+  km: number;
+}
+
+/* ── URL params ──────────────────────────────────────────── */
+
+/** Labels can't contain the "@" and ";" separators */
+function cleanLabel(label: string): string {
+  return label.replace(/[@;]/g, " ").replace(/\s+/g, " ").trim().slice(0, MAX_PLACE_LABEL_LENGTH);
+}
+
+/**
+ * "Label@lat,lng;…" → up to MAX_COMMUTE_PLACES places. Malformed entries
+ * are skipped; a missing label becomes "Place N".
+ */
+export function parseCommutePlaces(value: string): CommutePlace[] {
+  if (value.length > MAX_COMMUTE_PARAM_LENGTH) return [];
+  const places: CommutePlace[] = [];
+  for (const part of value.split(";")) {
+    const at = part.lastIndexOf("@");
+    const p = parseLatLng(at >= 0 ? part.slice(at + 1) : part);
+    if (!p) continue;
+    const label = cleanLabel(at >= 0 ? part.slice(0, at) : "") || `Place ${places.length + 1}`;
+    places.push({ ...p, label });
+    if (places.length === MAX_COMMUTE_PLACES) break;
+  }
+  return places;
+}
+
+export function formatCommutePlaces(places: CommutePlace[]): string {
+  return places
+    .slice(0, MAX_COMMUTE_PLACES)
+    .map((p) => `${cleanLabel(p.label)}@${formatLatLng(p)}`)
+    .join(";");
+}
+
+/** Read the commute part of the search params; null without a pinned place. */
+export function parseCommuteSearch(sp: {
+  commute?: string;
+  commuteMode?: string;
+  maxCommute?: string;
+}): CommuteSearch | null {
+  const places = sp.commute ? parseCommutePlaces(sp.commute) : [];
+  if (places.length === 0) return null;
+  const mode = sp.commuteMode && sp.commuteMode in COMMUTE_MODES ? (sp.commuteMode as CommuteMode) : DEFAULT_COMMUTE_MODE;
+  const max = parseInt(sp.maxCommute ?? "", 10);
+  const maxMinutes = isNaN(max) ? null : Math.min(MAX_MAX_COMMUTE, Math.max(MIN_MAX_COMMUTE, max));
+  return { places, mode, maxMinutes };
+}
+
+/** Short description for result summaries and saved-search names. */
+export function describeCommuteSearch(c: CommuteSearch): string {
+  const places = c.places.map((p) => p.label).join(" and ");
+  const travel = COMMUTE_MODES[c.mode].travel;
+  return c.maxMinutes !== null ? `within ${c.maxMinutes} min ${travel} of ${places}` : `commuting ${travel} to ${places}`;
+}
+
+/**
+ * Box around the places that any listing within the max commute must be
+ * in — the area reachable from every place at the mode's top speed in a
+ * straight line. Null without a max commute.
+ */
+export function commuteBoundingBox(c: CommuteSearch): GeoBoundingBox | null {
+  if (c.maxMinutes === null) return null;
+  const mode = COMMUTE_MODES[c.mode];
+  const km = Math.max(0, ((c.maxMinutes - mode.overheadMinutes) / 60) * mode.kmh) / ROAD_CIRCUITY;
+  const box = { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 };
+  for (const p of c.places) {
+    const dLat = km / 111.32;
+    const dLng = km / (111.32 * Math.max(Math.cos((p.lat * Math.PI) / 180), 0.01));
+    box.minLat = Math.max(box.minLat, p.lat - dLat);
+    box.maxLat = Math.min(box.maxLat, p.lat + dLat);
+    box.minLng = Math.max(box.minLng, p.lng - dLng);
+    box.maxLng = Math.min(box.maxLng, p.lng + dLng);
+  }
+  return box;
+}
+
+/* ── Districts ───────────────────────────────────────────── */
+
+export interface DistrictShape {
+  name: string;
+  areaKm2: number;
+  bbox: GeoBoundingBox;
+  /** Outer rings only — holes don't matter at this precision */
+  rings: LatLng[][];
+}
+
+/** Features of public/geo/cambodia-districts.geojson as shapes; anything unreadable is skipped. */
+export function parseDistrictShapes(geojson: unknown): DistrictShape[] {
+  const features = (geojson as { features?: unknown[] } | null)?.features;
+  if (!Array.isArray(features)) return [];
+
+  const shapes: DistrictShape[] = [];
+  for (const f of features as { properties?: { name?: unknown }; geometry?: { type?: string; coordinates?: unknown } }[]) {
+    const name = f.properties?.name;
+    const geometry = f.geometry;
+    if (typeof name !== "string" || !geometry) continue;
+    const polygons =
+      geometry.type === "Polygon"
+        ? [geometry.coordinates as number[][][]]
+        : geometry.type === "MultiPolygon"
+          ? (geometry.coordinates as number[][][][])
+          : [];
+    const rings = polygons
+      .map((poly) => (poly[0] ?? []).map(([lng, lat]) => ({ lat, lng })))
+      .filter((ring) => ring.length >= 3);
+    if (rings.length === 0) continue;
+
+    const all = rings.flat();
+    shapes.push({
+      name,
+      areaKm2: rings.reduce((sum, ring) => sum + ringAreaKm2(ring), 0),
+      bbox: {
+        minLat: Math.min(...all.map((p) => p.lat)),
+        maxLat: Math.max(...all.map((p) => p.lat)),
+        minLng: Math.min(...all.map((p) => p.lng)),
+        maxLng: Math.max(...all.map((p) => p.lng)),
+      },
+      rings,
+    });
+  }
+  return shapes;
+}
+
+/** Shoelace area on a local flat projection — fine at district scale. */
+function ringAreaKm2(ring: LatLng[]): number {
+  const kmPerLng = 111.32 * Math.cos((ring[0].lat * Math.PI) / 180);
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j].lng * kmPerLng * ring[i].lat * 110.57 - ring[i].lng * kmPerLng * ring[j].lat * 110.57;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Share of open-road speed in a district of this size. The GeoJSON splits
+ * Phnom Penh's centre into small sangkats, so area tracks density.
+ */
+export function densitySpeedFactor(areaKm2: number): number {
+  if (areaKm2 < 2) return 0.55;
+  if (areaKm2 < 10) return 0.75;
+  return 1;
+}
+
+/** Grid cell (degrees) that district lookups are cached per — about 500 m */
+const DENSITY_CELL_DEG = 0.005;
+
+/** Speed factor at a point, memoised per grid cell. Outside every district counts as open road. */
+export function createDensityLookup(shapes: DistrictShape[]): (p: LatLng) => number {
+  const cache = new Map<string, number>();
+  return (p) => {
+    const key = `${Math.round(p.lat / DENSITY_CELL_DEG)},${Math.round(p.lng / DENSITY_CELL_DEG)}`;
+    let factor = cache.get(key);
+    if (factor === undefined) {
+      const shape = shapes.find(
+        (s) =>
+          p.lat >= s.bbox.minLat &&
+          p.lat <= s.bbox.maxLat &&
+          p.lng >= s.bbox.minLng &&
+          p.lng <= s.bbox.maxLng &&
+          s.rings.some((ring) => pointInPolygon(p.lat, p.lng, ring)),
+      );
+      factor = shape ? densitySpeedFactor(shape.areaKm2) : 1;
+      cache.set(key, factor);
+    }
+    return factor;
+  };
+}
+
+/* ── Road model ──────────────────────────────────────────── */
+
+/** Road distance per straight-line km in Phnom Penh's grid */
+export const ROAD_CIRCUITY = 1.3;
+
+/** Trips are timed in steps of this length (km) */
+const STEP_KM = 0.5;
+
+interface River {
+  name: string;
+  /** Approximate course, upstream to downstream */
+  course: LatLng[];
+  bridges: LatLng[];
+}
+
+const ll = (lat: number, lng: number): LatLng => ({ lat, lng });
+
+/**
+ * Rivers a trip in Phnom Penh can only cross by bridge. The Mekong is left
+ * out — rentals across it are rare and it needs a ferry or the far bridges.
+ */
+const RIVERS: River[] = [
+  {
+    name: "Tonle Sap",
+    course: [ll(11.72, 104.858), ll(11.68, 104.868), ll(11.65, 104.885), ll(11.62, 104.905), ll(11.6, 104.92), ll(11.585, 104.927), ll(11.562, 104.938)],
+    // Prek Pnov bridge; Chroy Changvar bridges
+    bridges: [ll(11.672, 104.866), ll(11.5855, 104.9275)],
+  },
+  {
+    name: "Bassac",
+    course: [ll(11.562, 104.938), ll(11.55, 104.934), ll(11.54, 104.935), ll(11.52, 104.938), ll(11.5, 104.94), ll(11.47, 104.945), ll(11.44, 104.95)],
+    // Monivong bridge; Ta Khmau bridge
+    bridges: [ll(11.5445, 104.9347), ll(11.483, 104.9436)],
+  },
+];
+
+function cross(o: LatLng, a: LatLng, b: LatLng): number {
+  return (a.lng - o.lng) * (b.lat - o.lat) - (a.lat - o.lat) * (b.lng - o.lng);
+}
+
+/** Do segments ab and cd properly cross? */
+function segmentsCross(a: LatLng, b: LatLng, c: LatLng, d: LatLng): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function crossesRiver(a: LatLng, b: LatLng, river: River): boolean {
+  for (let i = 1; i < river.course.length; i++) {
+    if (segmentsCross(a, b, river.course[i - 1], river.course[i])) return true;
+  }
+  return false;
+}
+
+const km = (a: LatLng, b: LatLng) => haversineKm(a.lat, a.lng, b.lat, b.lng);
+
+/** Straight legs of a trip, bent through a bridge at each river crossed. */
+export function tripLegs(from: LatLng, to: LatLng): [LatLng, LatLng][] {
+  let legs: [LatLng, LatLng][] = [[from, to]];
+  for (const river of RIVERS) {
+    legs = legs.flatMap(([a, b]): [LatLng, LatLng][] => {
+      if (!crossesRiver(a, b, river)) return [[a, b]];
+      const bridge = river.bridges.reduce((best, br) => (km(a, br) + km(br, b) < km(a, best) + km(best, b) ? br : best));
+      return [
+        [a, bridge],
+        [bridge, b],
+      ];
+    });
+  }
+  return legs;
+}
+
+/** Estimated road distance (km) and travel time (minutes) from `from` to `to`. */
+export function estimateTrip(
+  from: LatLng,
+  to: LatLng,
+  mode: CommuteMode,
+  densityAt: (p: LatLng) => number = () => 1,
+): { km: number; minutes: number } {
+  const profile = COMMUTE_MODES[mode];
+  let roadKm = 0;
+  let hours = 0;
+  for (const [a, b] of tripLegs(from, to)) {
+    const legKm = km(a, b) * ROAD_CIRCUITY;
+    const steps = Math.max(1, Math.ceil(legKm / STEP_KM));
+    for (let i = 0; i < steps; i++) {
+      const t = (i + 0.5) / steps;
+      const mid = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+      const factor = profile.trafficBound ? densityAt(mid) : 1;
+      hours += legKm / steps / (profile.kmh * factor);
+    }
+    roadKm += legKm;
+  }
+  return {
+    km: Math.round(roadKm * 10) / 10,
+    minutes: Math.round(hours * 60 + profile.overheadMinutes),
+  };
+}
+
+/* ── Plans ───────────────────────────────────────────────── */
+
+export interface CommutePlan {
+  search: CommuteSearch;
+  /** Trip to each pinned place, or null for a listing without coordinates */
+  times(lat: number | null, lng: number | null): CommuteTime[] | null;
+  /** The longest of those trips — what the filter and sort use */
+  worstMinutes(lat: number | null, lng: number | null): number | null;
+}
+
+/** Estimator for one search, sharing a district lookup across listings. */
+export function createCommutePlan(search: CommuteSearch, shapes: DistrictShape[]): CommutePlan {
+  const densityAt = createDensityLookup(shapes);
+  const times = (lat: number | null, lng: number | null): CommuteTime[] | null => {
+    if (lat === null || lng === null) return null;
+    return search.places.map((place) => ({
+      label: place.label,
+      mode: search.mode,
+      ...estimateTrip({ lat, lng }, place, search.mode, densityAt),
+    }));
+  };
+  return {
+    search,
+    times,
+    worstMinutes: (lat, lng) => {
+      const t = times(lat, lng);
+      return t ? Math.max(...t.map((x) => x.minutes)) : null;
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Loading for commute-aware /rentals searches: the district shapes the
+ * road model reads, the max-commute filter and the commute sort. The
+ * estimates themselves live in ./commute.ts.
+ */
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { RentalSearchParams } from "@/lib/rentalsQuery";
+import { CAMBODIA_GEOJSON_PATH } from "./district-geo";
+import {
+  MAX_MAX_COMMUTE,
+  commuteBoundingBox,
+  createCommutePlan,
+  parseCommuteSearch,
+  parseDistrictShapes,
+  type CommutePlan,
+  type DistrictShape,
+} from "./commute";
+
+let shapesPromise: Promise<DistrictShape[]> | null = null;
+
+/** District shapes from the static GeoJSON, read once per process. */
+function loadDistrictShapes(): Promise<DistrictShape[]> {
+  if (!shapesPromise) {
+    const file = path.join(process.cwd(), "public", CAMBODIA_GEOJSON_PATH);
+    shapesPromise = readFile(file, "utf8")
+      .then((text) => parseDistrictShapes(JSON.parse(text)))
+      .catch((err) => {
+        // Without shapes every road counts as open road; retry on the next search
+        console.error("[Commute] Could not read district GeoJSON:", err);
+        shapesPromise = null;
+        return [];
+      });
+  }
+  return shapesPromise;
+}
+
+/** Estimator for the search's pinned places, or null without any. */
+export async function loadCommutePlan(sp: RentalSearchParams): Promise<CommutePlan | null> {
+  const search = parseCommuteSearch(sp);
+  if (!search) return null;
+  return createCommutePlan(search, await loadDistrictShapes());
+}
+
+/**
+ * `where` narrowed to listings with coordinates inside the box reachable
+ * within `maxMinutes` of every pinned place, so only those are loaded for
+ * the exact estimate.
+ */
+function withinReach(
+  where: Prisma.RentalListingWhereInput,
+  plan: CommutePlan,
+  maxMinutes: number,
+): Prisma.RentalListingWhereInput {
+  const box = commuteBoundingBox({ ...plan.search, maxMinutes })!;
+  return {
+    AND: [
+      where,
+      { latitude: { gte: box.minLat, lte: box.maxLat }, longitude: { gte: box.minLng, lte: box.maxLng } },
+    ],
+  };
+}
+
+/**
+ * Add an `id IN (…)` condition for the max commute to a where that
+ * includes `buildRentalsWhere(sp)`. Returns `where` unchanged without one.
+ */
+export async function applyCommuteFilter(
+  where: Prisma.RentalListingWhereInput,
+  sp: RentalSearchParams,
+): Promise<Prisma.RentalListingWhereInput> {
+  const plan = await loadCommutePlan(sp);
+  const max = plan?.search.maxMinutes ?? null;
+  if (!plan || max === null) return where;
+
+  const inBox = await prisma.rentalListing.findMany({
+    where: withinReach(where, plan, max),
+    select: { id: true, latitude: true, longitude: true },
+  });
+  const ids = inBox
+    .filter((l) => {
+      const minutes = plan.worstMinutes(l.latitude, l.longitude);
+      return minutes !== null && minutes <= max;
+    })
+    .map((l) => l.id);
+
+  return { AND: [where, { id: { in: ids } }] };
+}
+
+/**
+ * Listings matching `where`, shortest commute first (newest first within
+ * ties). Only listings within the max commute — or, without one, the
+ * longest the filter offers (MAX_MAX_COMMUTE) — are ranked; those without
+ * coordinates can't be. Null unless the search sorts by commute and has
+ * pinned places.
+ */
+export async function rankByCommute(
+  where: Prisma.RentalListingWhereInput,
+  sp: RentalSearchParams,
+): Promise<{ id: string; commuteMinutes: number | null }[] | null> {
+  if (sp.sort !== "commute") return null;
+  const plan = await loadCommutePlan(sp);
+  if (!plan) return null;
+
+  const max = plan.search.maxMinutes ?? MAX_MAX_COMMUTE;
+  const rows = await prisma.rentalListing.findMany({
+    where: withinReach(where, plan, max),
+    select: { id: true, latitude: true, longitude: true },
+    orderBy: { firstSeenAt: "desc" },
+  });
+  // Array.prototype.sort is stable, so ties keep newest-first
+  return rows
+    .map((r) => ({ id: r.id, commuteMinutes: plan.worstMinutes(r.latitude, r.longitude) }))
+    .filter((r): r is { id: string; commuteMinutes: number } => r.commuteMinutes !== null && r.commuteMinutes <= max)
+    .sort((a, b) => a.commuteMinutes - b.commuteMinutes);
+}
@@ -1,26 +1,13 @@
 /**
  * Rental Data Pipeline – Global Configuration
  *
- * Centralised caps, concurrency limits, and source enable/disable flags.
+ * Centralised caps and concurrency limits.
  */
 
-import { RentalSource } from "@prisma/client";
-
 /* ── Source toggles ──────────────────────────────────────── */
 
-export const enabledSources: Record<RentalSource, boolean> = {
-  KHMER24: true,
-  REALESTATE_KH: true,
-  IPS_CAMBODIA: true,
-  CAMREALTY: true,
-  LONGTERMLETTINGS: true,
-  FAZWAZ: true,
-  HOMETOGO: false, // Disabled: nightly GBP pricing, JS SPA, aggregator — poor fit for monthly USD heatmap
-};
-
-export function isSourceEnabled(source: RentalSource): boolean {
-  return enabledSources[source] ?? false;
-}
+// Each adapter declares its own `enabled` flag — see sources/registry.ts
+// (`enabledSources`, `isSourceEnabled`).
 
 /* ── Caps ────────────────────────────────────────────────── */
 
@@ -48,6 +35,75 @@ export const REQUEST_DELAY_JITTER_MS = 800;
 /** Max retries for transient network errors */
 export const MAX_RETRIES = 3;
 
+/** Max listings whose images are downloaded and hashed per clustering run */
+export const CLUSTER_MAX_IMAGE_HASHES = parseInt(process.env.RENTALS_CLUSTER_MAX_IMAGE_HASHES ?? "200", 10);
+
+/** Images hashed per listing for duplicate matching */
+export const CLUSTER_IMAGES_PER_LISTING = 3;
+
+/** Max listings without hashes whose images are hashed per scoring run, for the reused-photo check */
+export const SCORE_MAX_IMAGE_HASHES = parseInt(process.env.RENTALS_SCORE_MAX_IMAGE_HASHES ?? "200", 10);
+
+/* ── Saved search digests ────────────────────────────────── */
+
+/** Minimum hours between two digest emails for the same saved search */
+export const SAVED_SEARCH_DIGEST_HOURS = parseInt(process.env.RENTALS_DIGEST_HOURS ?? "24", 10);
+
+/** Listings shown in one digest email (the rest are behind "see all") */
+export const SAVED_SEARCH_DIGEST_MAX_LISTINGS = 10;
+
+/* ── Price forecasts ─────────────────────────────────────── */
+
+/** Months forecast ahead of the last indexed month */
+export const FORECAST_HORIZON_MONTHS = 6;
+
+/** Months of index history a segment needs before it gets a forecast */
+export const FORECAST_MIN_MONTHS = 6;
+
+/** Months of history needed before monthly seasonality is estimated (two full years) */
+export const FORECAST_SEASONAL_MIN_MONTHS = 24;
+
+/* ── Similar listings ────────────────────────────────────── */
+
+/** Cards in the "similar listings nearby" rail */
+export const SIMILAR_LISTINGS_LIMIT = 6;
+
+/** Candidates must be within ± this share of the listing's price */
+export const SIMILAR_PRICE_RANGE = 0.35;
+
+/** Candidates in another district must be within this distance (km) */
+export const SIMILAR_MAX_KM = 3;
+
+/* ── Map search ──────────────────────────────────────────── */
+
+/** Max listing points returned to the /rentals map view */
+export const MAP_POINTS_LIMIT = 1500;
+
+/* ── Text search ─────────────────────────────────────────── */
+
+/** Max listings scored for a /rentals keyword search, newest first */
+export const TEXT_SEARCH_CANDIDATE_LIMIT = 5000;
+
+/** With an explicit sort, results scoring at least this share of the best match are listed first */
+export const TEXT_SEARCH_RELEVANCE_TIER = 0.5;
+
+/** How long (ms) autocomplete keeps its district and building lists */
+export const AUTOCOMPLETE_CACHE_MS = 10 * 60 * 1000;
+
+/* ── Fair-rent estimator ─────────────────────────────────── */
+
+/** Fewest priced listings the fair-rent regression is trained on */
+export const FAIR_RENT_MIN_SAMPLES = 30;
+
+/** Ridge penalty on the regression's coefficients (roughly: listings of evidence a district needs to move far from the average) */
+export const FAIR_RENT_RIDGE = 2;
+
+/** An index segment with this many listings gets half the weight in the blended estimate */
+export const FAIR_RENT_INDEX_PRIOR = 10;
+
+/** How long (ms) the trained fair-rent model and index segments are reused */
+export const FAIR_RENT_CACHE_MS = 60 * 60 * 1000;
+
 /* ── Human-like pacing ───────────────────────────────────── */
 
 /** Every N listings, take a long "breather" pause */
@@ -78,6 +134,144 @@ export const NIGHT_IDLE_EXTRA_MAX_MS = 5_000;
 export const USER_AGENT =
   "GlobescraperRentalsBot/1.0 (+https://globescraper.com/tools/rentals; research-only)";
 
+/* ── Crawl policy (robots.txt) ───────────────────────────── */
+
+/** Honour robots.txt Allow/Disallow + Crawl-delay. Set RENTALS_RESPECT_ROBOTS=false only for local debugging */
+export const RESPECT_ROBOTS_TXT = process.env.RENTALS_RESPECT_ROBOTS !== "false";
+
+/** Longest Crawl-delay we wait between requests to one host (ms) — larger values are clamped */
+export const CRAWL_DELAY_MAX_MS = 30_000;
+
+/* ── Per-host rate limiting + circuit breaker ────────────── */
+
+/** Requests a host's token bucket can burst before pacing kicks in */
+export const HOST_BUCKET_BURST = 2;
+
+/** Slowest pacing a host can be backed off to after 429/503s (ms between requests) */
+export const HOST_INTERVAL_MAX_MS = 60_000;
+
+/** Retry-After values up to this are waited out inline; longer ones open the circuit (ms) */
+export const RETRY_AFTER_MAX_WAIT_MS = 120_000;
+
+/** Consecutive failures (network errors, 403, 429, 5xx) that open a host's circuit */
+export const BREAKER_FAILURE_THRESHOLD = 5;
+
+/** First cooldown after the circuit opens; doubles on each re-trip up to the max (ms) */
+export const BREAKER_COOLDOWN_BASE_MS = 15 * 60 * 1000;
+export const BREAKER_COOLDOWN_MAX_MS = 6 * 60 * 60 * 1000;
+
+/* ── Job scheduler ───────────────────────────────────────── */
+
+/** How long a worker's claim on a task lasts without a heartbeat (ms) */
+export const SCHEDULER_LEASE_MS = 10 * 60 * 1000;
+
+/** First retry delay after a failed task; doubles per attempt up to the max (ms) */
+export const SCHEDULER_RETRY_BASE_MS = 5 * 60 * 1000;
+export const SCHEDULER_RETRY_MAX_MS = 2 * 60 * 60 * 1000;
+
+/** How often the CLI worker looks for due work (ms) */
+export const SCHEDULER_POLL_MS = 60_000;
+
+/* ── Scrape queue leases ─────────────────────────────────── */
+
+/** How long a process-queue run holds claimed items without renewing (ms) */
+export const QUEUE_LEASE_MS = 15 * 60 * 1000;
+
+/** Failed fetches per queue item before it is parked as DEAD */
+export const QUEUE_MAX_ATTEMPTS = 3;
+
+/* ── Scraper health ──────────────────────────────────────── */
+
+/** Listings a process-queue run must parse before its field completeness counts */
+export const HEALTH_MIN_SAMPLE = 10;
+
+/** Recent runs per source the completeness baseline is the median of */
+export const HEALTH_BASELINE_RUNS = 10;
+
+/** Runs needed before a source has a baseline at all */
+export const HEALTH_MIN_BASELINE_RUNS = 3;
+
+/** Alert when a field's fill rate falls this far below its baseline (0.4 = 40% lower) */
+export const HEALTH_DROP_RATIO = parseFloat(process.env.RENTALS_HEALTH_DROP_RATIO ?? "0.4");
+
+/** Alert when at least this share of a run's listing pages don't parse */
+export const HEALTH_MAX_PARSE_FAILURE_RATE = parseFloat(process.env.RENTALS_HEALTH_MAX_PARSE_FAILURES ?? "0.5");
+
+/** Accounts that get scraper alert emails (comma-separated emails); defaults to every admin */
+export const HEALTH_ALERT_EMAILS = (process.env.RENTALS_ALERT_EMAILS ?? "")
+  .split(",")
+  .map((e) => e.trim())
+  .filter(Boolean);
+
+/* ── Public API ──────────────────────────────────────────── */
+
+/** Requests per minute a new API key may make (burst limit) */
+export const API_DEFAULT_PER_MINUTE = 60;
+
+/** Requests per day a new API key may make */
+export const API_DEFAULT_PER_DAY = 5_000;
+
+/** Items per page when `limit` isn't given, and the most a page may hold */
+export const API_PAGE_SIZE = 50;
+export const API_MAX_PAGE_SIZE = 200;
+
+/* ── Market report pages ─────────────────────────────────── */
+
+/** Listings a district needs in its latest month to get a public market page */
+export const MARKET_MIN_LISTINGS = 5;
+
+/** Months of RentalIndexMonthly history a market page charts */
+export const MARKET_TREND_MONTHS = 12;
+
+/** Example active listings shown on a market page */
+export const MARKET_EXAMPLE_LISTINGS = 8;
+
+/* ── Monthly analytics reports ───────────────────────────── */
+
+/** Cities the scheduled report job covers (comma-separated) */
+export const REPORT_CITIES = (process.env.RENTALS_REPORT_CITIES ?? "Phnom Penh")
+  .split(",")
+  .map((c) => c.trim())
+  .filter(Boolean);
+
+/** Days of daily index history a report's trend chart covers, ending with its month */
+export const REPORT_TREND_DAYS = 180;
+
+/** Rising and falling districts listed in a report */
+export const REPORT_MOVERS = 5;
+
+/** Most volatile districts listed in a report */
+export const REPORT_VOLATILE_DISTRICTS = 8;
+
+/** Scheduled runs also email each new report to marketing subscribers */
+export const REPORT_AUTO_EMAIL = process.env.RENTALS_REPORT_AUTO_EMAIL === "true";
+
+/* ── Raw page archive ────────────────────────────────────── */
+
+/** Keep a gzipped copy of every fetched page for debugging and replay. Set RENTALS_ARCHIVE_PAGES=true to enable */
+export const PAGE_ARCHIVE_ENABLED = process.env.RENTALS_ARCHIVE_PAGES === "true";
+
+/** Where archived pages live (relative paths resolve against the working directory) */
+export const PAGE_ARCHIVE_DIR = process.env.RENTALS_ARCHIVE_DIR || ".data/page-archive";
+
+/* ── Hosted listing images ───────────────────────────────── */
+
+/** Where hosted photos are stored: "blob" (Vercel Blob) or "local" (disk, for dev). Defaults to blob when a token is set */
+export const IMAGE_STORAGE: "blob" | "local" =
+  (process.env.RENTALS_IMAGE_STORAGE ?? (process.env.BLOB_READ_WRITE_TOKEN ? "blob" : "local")) === "blob" ? "blob" : "local";
+
+/** Local image store (relative paths resolve against the working directory) */
+export const IMAGE_LOCAL_DIR = process.env.RENTALS_IMAGE_DIR || ".data/rental-images";
+
+/** Max listings whose photos are hosted per run */
+export const IMAGE_HOST_MAX_LISTINGS = parseInt(process.env.RENTALS_MAX_IMAGE_LISTINGS ?? "50", 10);
+
+/** Photos hosted per listing (any after these stay hotlinked) */
+export const IMAGE_HOST_MAX_PER_LISTING = 12;
+
+/** Wait before retrying photos that failed to download */
+export const IMAGE_HOST_RETRY_MS = 24 * 60 * 60 * 1000;
+
 /* ── Feature flags (ML) ──────────────────────────────────── */
 
 export const ML_ENABLED = process.env.RENTALS_ML_ENABLED === "true";
@@ -0,0 +1,143 @@
+/**
+ * Minimal 5-field cron expressions for the job scheduler, evaluated in UTC.
+ *
+ *   ┌ minute (0-59)
+ *   │ ┌ hour (0-23)
+ *   │ │ ┌ day of month (1-31)
+ *   │ │ │ ┌ month (1-12)
+ *   │ │ │ │ ┌ day of week (0-6, Sunday = 0 or 7)
+ *   * * * * *
+ *
+ * Each field takes `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `8-18/2`). As in Vixie cron, when both day fields are
+ * restricted a day matching either one qualifies. `@hourly`, `@daily`,
+ * `@weekly` and `@monthly` are accepted as shorthands.
+ */
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field was `*` */
+  anyDayOfMonth: boolean;
+  /** Day-of-week field was `*` */
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+/* ── Parsing ─────────────────────────────────────────────── */
+
+function parseField(text: string, field: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const m = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!m) throw new Error(`Invalid ${field.name} "${part}"`);
+
+    const step = m[4] !== undefined ? parseInt(m[4], 10) : 1;
+    let lo: number = field.min;
+    let hi: number = field.max;
+    if (m[1] !== "*") {
+      lo = parseInt(m[2], 10);
+      // "5/15" means 5, 20, 35, 50 — a bare start with a step runs to the max
+      hi = m[3] !== undefined ? parseInt(m[3], 10) : m[4] !== undefined ? field.max : lo;
+    }
+    if (step < 1 || lo < field.min || hi > field.max || lo > hi) {
+      throw new Error(`Invalid ${field.name} "${part}" (allowed ${field.min}-${field.max})`);
+    }
+    for (let v = lo; v <= hi; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parse an expression; throws with a readable message if it's invalid. */
+export function parseCron(expr: string): CronSchedule {
+  const trimmed = expr.trim();
+  const parts = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (parts.length !== 5) throw new Error("Cron needs 5 fields: minute hour day-of-month month day-of-week");
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((p, i) => parseField(p, FIELDS[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+/** Null if the expression is valid, otherwise why not. */
+export function cronError(expr: string): string | null {
+  try {
+    parseCron(expr);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/* ── Evaluation ──────────────────────────────────────────── */
+
+function dayMatches(c: CronSchedule, d: Date): boolean {
+  const dom = c.daysOfMonth.has(d.getUTCDate());
+  const dow = c.daysOfWeek.has(d.getUTCDay());
+  if (c.anyDayOfMonth) return dow;
+  if (c.anyDayOfWeek) return dom;
+  return dom || dow;
+}
+
+/** Give up after this many days (e.g. "0 0 31 2 *" never fires) */
+const SEARCH_DAYS = 366 * 5;
+
+/**
+ * The first time strictly after `after` the expression fires, or null if
+ * it never does.
+ */
+export function nextCronRun(expr: string | CronSchedule, after: Date): Date | null {
+  const c = typeof expr === "string" ? parseCron(expr) : expr;
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_DAYS * 24 * 60 * 60 * 1000;
+  while (t.getTime() <= limit) {
+    if (!c.months.has(t.getUTCMonth() + 1) || !dayMatches(c, t)) {
+      // Skip to the start of the next day
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!c.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!c.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return t;
+  }
+  return null;
+}
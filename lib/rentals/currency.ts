@@ -0,0 +1,229 @@
+/**
+ * Currencies: detecting the currency of a scraped price, converting it to
+ * USD with a dated FX table, and formatting USD prices in the visitor's
+ * chosen currency.
+ *
+ * Rates are "units per 1 USD" (KHR ≈ 4,000). The table starts from the
+ * built-in `DEFAULT_FX_RATES` and is overlaid with the `FxRate` rows an
+ * admin has stored (`loadFxRates()` in ./fxStore.ts). A conversion uses
+ * the latest rate dated on or before the day in question.
+ */
+
+/* ── Currencies ──────────────────────────────────────────── */
+
+export const CURRENCY_CODES = ["USD", "KHR", "THB", "GBP", "EUR", "AUD", "SGD", "VND", "CNY"] as const;
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+export interface CurrencyInfo {
+  code: CurrencyCode;
+  label: string;
+  symbol: string;
+  /** Decimals shown when formatting a monthly rent */
+  decimals: number;
+  /** Regex source matching the currency's symbols / names in lower-cased text */
+  tokens: string;
+}
+
+/**
+ * When a price names several currencies ("$1,200 (4,920,000៛)") the first
+ * marker in the text wins, so "A$" reads as AUD while "US$" stays USD.
+ */
+export const CURRENCIES: Record<CurrencyCode, CurrencyInfo> = {
+  KHR: { code: "KHR", label: "Cambodian riel", symbol: "៛", decimals: 0, tokens: "៛|រៀល|riels?\\b|\\bkhr\\b" },
+  THB: { code: "THB", label: "Thai baht", symbol: "฿", decimals: 0, tokens: "฿|\\bbaht\\b|\\bthb\\b" },
+  GBP: { code: "GBP", label: "British pound", symbol: "£", decimals: 0, tokens: "£|\\bgbp\\b" },
+  EUR: { code: "EUR", label: "Euro", symbol: "€", decimals: 0, tokens: "€|\\beur(?:os?)?\\b" },
+  AUD: { code: "AUD", label: "Australian dollar", symbol: "A$", decimals: 0, tokens: "\\ba\\$|\\baud\\b" },
+  SGD: { code: "SGD", label: "Singapore dollar", symbol: "S$", decimals: 0, tokens: "\\bs\\$|\\bsgd\\b" },
+  VND: { code: "VND", label: "Vietnamese dong", symbol: "₫", decimals: 0, tokens: "₫|\\bvnd\\b|\\bdong\\b" },
+  CNY: { code: "CNY", label: "Chinese yuan", symbol: "¥", decimals: 0, tokens: "¥|\\bcny\\b|\\brmb\\b|\\byuan\\b" },
+  USD: { code: "USD", label: "US dollar", symbol: "$", decimals: 0, tokens: "\\$|\\busd\\b|\\bdollars?\\b" },
+};
+
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === "string" && (CURRENCY_CODES as readonly string[]).includes(value);
+}
+
+/** The currency a price string is quoted in, or null if it names none. */
+export function detectCurrency(text: string): CurrencyCode | null {
+  const t = text.toLowerCase();
+  let found: CurrencyCode | null = null;
+  let foundAt = Infinity;
+  for (const code of CURRENCY_CODES) {
+    const at = t.search(new RegExp(CURRENCIES[code].tokens));
+    if (at >= 0 && at < foundAt) {
+      found = code;
+      foundAt = at;
+    }
+  }
+  return found;
+}
+
+/* ── FX table ────────────────────────────────────────────── */
+
+export interface FxRateEntry {
+  currency: CurrencyCode;
+  /** Day the rate applies from (YYYY-MM-DD, UTC) */
+  date: string;
+  /** Units of `currency` per 1 USD */
+  perUsd: number;
+}
+
+/**
+ * Fallback rates, used until an admin stores newer ones and for dates
+ * before the first stored rate.
+ */
+export const DEFAULT_FX_RATES: FxRateEntry[] = [
+  { currency: "KHR", date: "2025-01-01", perUsd: 4020 },
+  { currency: "THB", date: "2025-01-01", perUsd: 34.1 },
+  { currency: "GBP", date: "2025-01-01", perUsd: 0.8 },
+  { currency: "EUR", date: "2025-01-01", perUsd: 0.96 },
+  { currency: "AUD", date: "2025-01-01", perUsd: 1.61 },
+  { currency: "SGD", date: "2025-01-01", perUsd: 1.36 },
+  { currency: "VND", date: "2025-01-01", perUsd: 25450 },
+  { currency: "CNY", date: "2025-01-01", perUsd: 7.3 },
+];
+
+let fxRates: FxRateEntry[] = sortRates(DEFAULT_FX_RATES);
+
+function sortRates(rates: FxRateEntry[]): FxRateEntry[] {
+  return [...rates].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/** Replace the stored rates (the defaults always stay underneath). */
+export function setFxRates(stored: FxRateEntry[]): void {
+  const byKey = new Map<string, FxRateEntry>();
+  for (const r of [...DEFAULT_FX_RATES, ...stored]) {
+    if (r.perUsd > 0) byKey.set(`${r.currency}|${r.date}`, r);
+  }
+  fxRates = sortRates([...byKey.values()]);
+}
+
+export function getFxRates(): FxRateEntry[] {
+  return fxRates;
+}
+
+/**
+ * Units of `currency` per USD on the given day: the latest rate dated on
+ * or before it, else the earliest known. Null for an unknown currency.
+ */
+export function fxRateOn(currency: CurrencyCode, at: Date = new Date(), rates: FxRateEntry[] = fxRates): number | null {
+  if (currency === "USD") return 1;
+  const day = at.toISOString().slice(0, 10);
+  let best: FxRateEntry | null = null;
+  for (const r of rates) {
+    if (r.currency !== currency) continue;
+    if (r.date <= day || best === null) best = r;
+    if (r.date > day) break;
+  }
+  return best?.perUsd ?? null;
+}
+
+/** Latest rate per currency — what the public site converts display prices with. */
+export function latestFxRates(rates: FxRateEntry[] = fxRates): Partial<Record<CurrencyCode, number>> {
+  const latest: Partial<Record<CurrencyCode, number>> = { USD: 1 };
+  for (const r of rates) latest[r.currency] = r.perUsd;
+  return latest;
+}
+
+export function toUsd(amount: number, currency: CurrencyCode, at: Date = new Date()): number | null {
+  const rate = fxRateOn(currency, at);
+  return rate ? amount / rate : null;
+}
+
+/* ── Price parsing ───────────────────────────────────────── */
+
+export interface ParsedPrice {
+  /** Monthly amount as quoted */
+  amount: number;
+  currency: CurrencyCode;
+  /** Monthly amount in USD (whole dollars when converted) */
+  usd: number;
+}
+
+/** Khmer digits ០–៩ → 0–9 */
+function normaliseDigits(text: string): string {
+  return text.replace(/[០-៩]/g, (d) => String(d.charCodeAt(0) - 0x17e0));
+}
+
+/** Plausible monthly rent in USD (highest realistic for commercial / luxury) */
+const MIN_MONTHLY_USD = 50;
+const MAX_MONTHLY_USD = 50_000;
+
+/**
+ * Parse a price string into its monthly amount, currency and USD value.
+ *
+ * Handles "$800/month", "USD 800 per month", "800$/mo", "៛3,200,000",
+ * "2,000,000 riel", "฿25,000", "£650 pcm" and the like; a bare number is
+ * accepted when "month" appears and is read in `defaultCurrency` (the
+ * currency the source quotes in).
+ *
+ * Rejects prices marked nightly or weekly, sale prices without rent
+ * context, and anything outside $50–$50,000 a month once converted.
+ */
+export function parsePrice(
+  raw: string | null | undefined,
+  defaultCurrency: CurrencyCode = "USD",
+  at: Date = new Date()
+): ParsedPrice | null {
+  if (!raw) return null;
+
+  const text = normaliseDigits(raw.toLowerCase().trim());
+
+  // Reject nightly / weekly
+  if (/\b(per\s*night|\/\s*night|nightly)\b/.test(text)) return null;
+  if (/\b(per\s*week|\/\s*week|weekly)\b/.test(text)) return null;
+
+  // Reject sale-context prices (unless also mentions rent)
+  if (/\b(for\s*sale|sale\s*price)\b/.test(text) && !/\b(for\s*rent|per\s*month|\/\s*month)\b/.test(text))
+    return null;
+
+  const cleaned = text.replace(/,/g, "");
+  const detected = detectCurrency(cleaned);
+
+  let amount: number | null = null;
+  if (detected) {
+    // A number right before or after the currency marker
+    const tokens = CURRENCIES[detected].tokens;
+    const match = cleaned.match(new RegExp(`(?:${tokens})\\s*(\\d+(?:\\.\\d+)?)|(\\d+(?:\\.\\d+)?)\\s*(?:${tokens})`));
+    if (match) amount = parseFloat(match[1] || match[2]);
+  }
+  if (amount === null && /\b(month|mo|\/mo)\b/.test(text)) {
+    // Bare number if "month" or "mo" appears
+    const bare = cleaned.match(/(\d+(?:\.\d+)?)/);
+    if (bare) amount = parseFloat(bare[1]);
+  }
+  if (amount === null || !Number.isFinite(amount)) return null;
+
+  const currency = detected ?? defaultCurrency;
+  const converted = toUsd(amount, currency, at);
+  if (converted === null) return null;
+  const usd = currency === "USD" ? converted : Math.round(converted);
+  if (usd < MIN_MONTHLY_USD || usd > MAX_MONTHLY_USD) return null;
+
+  return { amount, currency, usd };
+}
+
+/* ── Display ─────────────────────────────────────────────── */
+
+/** "$1,200", "៛4,920,000", "฿41,000" */
+export function formatMoney(amount: number, currency: CurrencyCode): string {
+  const info = CURRENCIES[currency];
+  const n = amount.toLocaleString("en-US", {
+    minimumFractionDigits: info.decimals,
+    maximumFractionDigits: info.decimals,
+  });
+  return currency === "KHR" ? `${n}${info.symbol}` : `${info.symbol}${n}`;
+}
+
+/**
+ * A USD amount shown in another currency, using units-per-USD `perUsd`.
+ * Falls back to USD when no rate is known.
+ */
+export function formatUsdAs(usd: number, currency: CurrencyCode, perUsd: number | undefined): string {
+  if (currency === "USD" || !perUsd) return formatMoney(Math.round(usd), "USD");
+  const converted = usd * perUsd;
+  // Round big-unit currencies to a readable step (៛4,920,000 rather than ៛4,918,400)
+  const step = converted >= 1_000_000 ? 1000 : converted >= 10_000 ? 100 : 1;
+  return formatMoney(Math.round(converted / step) * step, currency);
+}
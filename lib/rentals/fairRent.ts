@@ -0,0 +1,366 @@
+/**
+ * Fair-rent estimator: "is this a fair price?" for a listing or a flat a
+ * visitor was offered elsewhere.
+ *
+ * A hedonic regression over active listings prices each feature of a flat
+ * (district, property type, bedrooms, floor size, amenities) on the log
+ * scale. Its prediction is then pulled towards the flat's exact segment in
+ * the latest RentalIndexDaily, more strongly the more listings that
+ * segment holds. The range is the typical (interquartile) spread around it.
+ *
+ * Loading and caching live in ./fairRentStore.ts.
+ */
+
+import { FILTERABLE_AMENITIES, FILTERABLE_FACILITIES } from "@/lib/amenityClassification";
+import { FAIR_RENT_INDEX_PRIOR, FAIR_RENT_MIN_SAMPLES, FAIR_RENT_RIDGE } from "./config";
+
+/** Property types the estimator covers (the non-residential ones are no longer scraped) */
+export const FAIR_RENT_TYPES = [
+  "APARTMENT",
+  "CONDO",
+  "SERVICED_APARTMENT",
+  "PENTHOUSE",
+  "HOUSE",
+  "VILLA",
+  "TOWNHOUSE",
+] as const;
+
+export type FairRentType = (typeof FAIR_RENT_TYPES)[number];
+
+/** Amenities the model prices — the ones the /rentals filters offer */
+export const FAIR_RENT_AMENITIES: readonly string[] = [...FILTERABLE_FACILITIES, ...FILTERABLE_AMENITIES];
+
+/** Bedroom counts above this share one coefficient ("5+") */
+export const MAX_BEDROOM_LEVEL = 5;
+
+/** Floor sizes outside this range (m²) are treated as unknown */
+const MIN_SIZE_SQM = 10;
+const MAX_SIZE_SQM = 2000;
+
+/** Standard normal quantile of the 75th percentile: ±z·σ spans p25–p75 */
+const QUARTILE_Z = 0.6745;
+
+/** Residuals beyond this many standard deviations are dropped before the refit */
+const TRIM_SIGMAS = 3;
+
+export interface FlatDetails {
+  /** Null when the city is unknown (a pasted flat with no district) */
+  city: string | null;
+  district: string | null;
+  bedrooms: number | null;
+  sizeSqm: number | null;
+  propertyType: string;
+  /** Names from FAIR_RENT_AMENITIES */
+  amenities: string[];
+}
+
+export interface PricedFlat extends FlatDetails {
+  priceMonthlyUsd: number;
+}
+
+/** FAIR_RENT_AMENITIES a listing has, matched like the /rentals amenity filters. */
+export function amenitiesFromJson(json: string | null): string[] {
+  if (!json) return [];
+  return FAIR_RENT_AMENITIES.filter((name) => json.includes(name));
+}
+
+/* ── Features ────────────────────────────────────────────── */
+
+function validSize(sizeSqm: number | null): number | null {
+  return sizeSqm !== null && sizeSqm >= MIN_SIZE_SQM && sizeSqm <= MAX_SIZE_SQM ? sizeSqm : null;
+}
+
+/**
+ * Sparse feature vector for a flat. Every level of a category gets its
+ * own feature (no reference level): the ridge penalty keeps them
+ * identifiable and shrinks thin districts towards the average, which is
+ * also what an unknown district predicts.
+ */
+function flatFeatures(flat: FlatDetails, meanLogSize: number): Map<string, number> {
+  const features = new Map<string, number>();
+  if (flat.city) features.set(`city:${flat.city}`, 1);
+  if (flat.city && flat.district) features.set(`district:${flat.city}|${flat.district}`, 1);
+  features.set(`type:${flat.propertyType}`, 1);
+  if (flat.bedrooms !== null) features.set(`beds:${Math.min(Math.max(flat.bedrooms, 0), MAX_BEDROOM_LEVEL)}`, 1);
+  const size = validSize(flat.sizeSqm);
+  if (size !== null) features.set("logSize", Math.log(size) - meanLogSize);
+  else features.set("sizeUnknown", 1);
+  for (const name of flat.amenities) features.set(`amenity:${name}`, 1);
+  return features;
+}
+
+/* ── Regression ──────────────────────────────────────────── */
+
+export interface FairRentModel {
+  /** log USD */
+  intercept: number;
+  /** Feature → coefficient (log USD) */
+  coefficients: Record<string, number>;
+  /** Mean log floor size of the training listings that have one */
+  meanLogSize: number;
+  /** Residual standard deviation on the log scale */
+  residualStdDev: number;
+  /** Listings in the final fit */
+  sampleSize: number;
+  /** Training listings per district, busiest first */
+  districts: { city: string; district: string; count: number }[];
+}
+
+/**
+ * Solve `a · x = b` by Gaussian elimination with partial pivoting.
+ * `a` is modified in place.
+ */
+function solve(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      if (f === 0) continue;
+      for (let c = col; c < n; c++) a[r][c] -= f * a[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum -= a[r][c] * x[c];
+    x[r] = sum / a[r][r];
+  }
+  return x;
+}
+
+/** Ridge fit of log price; the intercept (column 0) is not penalised. */
+function ridgeFit(rows: Map<string, number>[], ys: number[], names: string[]): number[] {
+  const index = new Map(names.map((n, i) => [n, i + 1]));
+  const p = names.length + 1;
+  const xtx = Array.from({ length: p }, () => new Array<number>(p).fill(0));
+  const xty = new Array<number>(p).fill(0);
+
+  for (let i = 0; i < rows.length; i++) {
+    const cols: [number, number][] = [[0, 1]];
+    for (const [name, v] of rows[i]) {
+      const j = index.get(name);
+      if (j !== undefined) cols.push([j, v]);
+    }
+    for (const [j, vj] of cols) {
+      xty[j] += vj * ys[i];
+      for (const [k, vk] of cols) xtx[j][k] += vj * vk;
+    }
+  }
+  for (let j = 1; j < p; j++) xtx[j][j] += FAIR_RENT_RIDGE;
+  return solve(xtx, xty);
+}
+
+function predictLog(model: Pick<FairRentModel, "intercept" | "coefficients">, features: Map<string, number>): number {
+  let y = model.intercept;
+  for (const [name, v] of features) y += (model.coefficients[name] ?? 0) * v;
+  return y;
+}
+
+/**
+ * Fit the hedonic model. Fits once, drops listings more than TRIM_SIGMAS
+ * residual standard deviations off (typos, sale prices posted as rent)
+ * and refits. Null with fewer than FAIR_RENT_MIN_SAMPLES usable listings.
+ */
+export function trainFairRentModel(listings: PricedFlat[]): FairRentModel | null {
+  const data = listings.filter((l) => Number.isFinite(l.priceMonthlyUsd) && l.priceMonthlyUsd > 0);
+  if (data.length < FAIR_RENT_MIN_SAMPLES) return null;
+
+  const logSizes = data.map((l) => validSize(l.sizeSqm)).filter((s): s is number => s !== null).map(Math.log);
+  const meanLogSize = logSizes.length > 0 ? logSizes.reduce((a, b) => a + b, 0) / logSizes.length : 0;
+
+  const fit = (set: PricedFlat[]) => {
+    const rows = set.map((l) => flatFeatures(l, meanLogSize));
+    const ys = set.map((l) => Math.log(l.priceMonthlyUsd));
+    const names = [...new Set(rows.flatMap((r) => [...r.keys()]))].sort();
+    const beta = ridgeFit(rows, ys, names);
+    const model = {
+      intercept: beta[0],
+      coefficients: Object.fromEntries(names.map((n, i) => [n, beta[i + 1]])),
+    };
+    const residuals = rows.map((r, i) => ys[i] - predictLog(model, r));
+    const sigma = Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / Math.max(1, set.length - 1));
+    return { model, residuals, sigma };
+  };
+
+  const first = fit(data);
+  const kept = data.filter((_, i) => Math.abs(first.residuals[i]) <= TRIM_SIGMAS * first.sigma);
+  const trimmed = kept.length >= FAIR_RENT_MIN_SAMPLES && kept.length < data.length;
+  const final = trimmed ? fit(kept) : first;
+  const used = trimmed ? kept : data;
+
+  const districtCounts = new Map<string, { city: string; district: string; count: number }>();
+  for (const l of used) {
+    if (!l.city || !l.district) continue;
+    const key = `${l.city}|${l.district}`;
+    const entry = districtCounts.get(key) ?? { city: l.city, district: l.district, count: 0 };
+    entry.count++;
+    districtCounts.set(key, entry);
+  }
+
+  return {
+    ...final.model,
+    meanLogSize,
+    residualStdDev: final.sigma,
+    sampleSize: used.length,
+    districts: [...districtCounts.values()].sort((a, b) => b.count - a.count || a.district.localeCompare(b.district)),
+  };
+}
+
+/* ── Estimates ───────────────────────────────────────────── */
+
+/** A RentalIndexDaily row for the flat's exact segment */
+export interface IndexSegment {
+  listingCount: number;
+  medianPriceUsd: number | null;
+  p25PriceUsd: number | null;
+  p75PriceUsd: number | null;
+}
+
+/** Lookup key for a RentalIndexDaily segment (city × district × bedrooms × type). */
+export function indexSegmentKey(s: {
+  city: string | null;
+  district: string | null;
+  bedrooms: number | null;
+  propertyType: string;
+}): string {
+  return `${s.city ?? ""}|${s.district ?? ""}|${s.bedrooms ?? -1}|${s.propertyType}`;
+}
+
+export interface FairRentEstimate {
+  /** Typical range and midpoint, USD per month */
+  low: number;
+  mid: number;
+  high: number;
+  /** Listings the regression was trained on (0 when it had too few) */
+  sampleSize: number;
+  /** Listings in the flat's index segment (0 when it has none) */
+  segmentListings: number;
+}
+
+function roundUsd(v: number): number {
+  return Math.max(10, Math.round(v / 10) * 10);
+}
+
+/**
+ * Fair rent for a flat, or null when neither the model nor the index
+ * segment can price it.
+ */
+export function estimateFairRent(
+  model: FairRentModel | null,
+  flat: FlatDetails,
+  segment: IndexSegment | null,
+): FairRentEstimate | null {
+  const indexMedian = segment?.medianPriceUsd ?? null;
+  if (!model && indexMedian === null) return null;
+
+  let mid: number;
+  let spreadLow: number;
+  let spreadHigh: number;
+  if (model) {
+    mid = predictLog(model, flatFeatures(flat, model.meanLogSize));
+    spreadLow = spreadHigh = QUARTILE_Z * model.residualStdDev;
+  } else {
+    mid = Math.log(indexMedian!);
+    spreadLow = spreadHigh = 0;
+  }
+
+  if (segment && indexMedian !== null) {
+    // Blend in log space; the index quartiles stand in for the model's spread
+    const w = model ? segment.listingCount / (segment.listingCount + FAIR_RENT_INDEX_PRIOR) : 1;
+    const indexLow = segment.p25PriceUsd !== null ? Math.log(indexMedian) - Math.log(segment.p25PriceUsd) : spreadLow;
+    const indexHigh = segment.p75PriceUsd !== null ? Math.log(segment.p75PriceUsd) - Math.log(indexMedian) : spreadHigh;
+    mid = (1 - w) * mid + w * Math.log(indexMedian);
+    spreadLow = (1 - w) * spreadLow + w * indexLow;
+    spreadHigh = (1 - w) * spreadHigh + w * indexHigh;
+  }
+
+  return {
+    low: roundUsd(Math.exp(mid - spreadLow)),
+    mid: roundUsd(Math.exp(mid)),
+    high: roundUsd(Math.exp(mid + spreadHigh)),
+    sampleSize: model?.sampleSize ?? 0,
+    segmentListings: segment?.listingCount ?? 0,
+  };
+}
+
+export interface MarketComparison {
+  /** Asking rent against the estimate's midpoint, % (positive = above) */
+  pct: number;
+  /** Where the asking rent falls against the typical range */
+  position: "below" | "within" | "above";
+}
+
+export function compareToMarket(priceUsd: number, estimate: FairRentEstimate): MarketComparison {
+  return {
+    pct: Math.round((priceUsd / estimate.mid - 1) * 100),
+    position: priceUsd < estimate.low ? "below" : priceUsd > estimate.high ? "above" : "within",
+  };
+}
+
+/** "12% above market", "In line with market (3% below)". */
+export function describeComparison(c: MarketComparison): string {
+  const pct = `${Math.abs(c.pct)}% ${c.pct > 0 ? "above" : "below"}`;
+  if (c.position !== "within") return `${pct} market`;
+  return c.pct === 0 ? "In line with market" : `In line with market (${pct})`;
+}
+
+/* ── Public form ─────────────────────────────────────────── */
+
+export interface FairRentQuery {
+  /** City is resolved from the district by the caller */
+  flat: Omit<FlatDetails, "city">;
+  /** The rent the visitor was offered, USD per month */
+  askingUsd: number | null;
+}
+
+function positiveNumber(v: string | undefined): number | null {
+  const n = v ? parseFloat(v) : NaN;
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/**
+ * Read the public form's params (district, bedrooms, size, type, amenity
+ * — repeatable — and price). Null until the form has been submitted.
+ */
+export function parseFairRentQuery(sp: Record<string, string | string[] | undefined>): FairRentQuery | null {
+  const one = (k: string) => {
+    const v = sp[k];
+    return (Array.isArray(v) ? v[0] : v)?.trim() || undefined;
+  };
+  const type = one("type");
+  if (!type) return null;
+
+  const amenityParam = sp.amenity;
+  const amenities = (Array.isArray(amenityParam) ? amenityParam : amenityParam ? [amenityParam] : []).filter((a) =>
+    FAIR_RENT_AMENITIES.includes(a),
+  );
+  const beds = one("bedrooms");
+  const bedrooms = beds !== undefined && /^\d+$/.test(beds) ? Math.min(parseInt(beds, 10), MAX_BEDROOM_LEVEL) : null;
+
+  return {
+    flat: {
+      district: one("district")?.slice(0, 200) ?? null,
+      bedrooms,
+      sizeSqm: positiveNumber(one("size")),
+      propertyType: (FAIR_RENT_TYPES as readonly string[]).includes(type) ? type : "APARTMENT",
+      amenities: [...new Set(amenities)],
+    },
+    askingUsd: positiveNumber(one("price")),
+  };
+}
+
+/** The public form, prefilled with a flat (e.g. a listing's details). */
+export function fairRentFormPath(flat: Omit<FlatDetails, "city">, askingUsd: number | null): string {
+  const params = new URLSearchParams({ type: flat.propertyType });
+  if (flat.district) params.set("district", flat.district);
+  if (flat.bedrooms !== null) params.set("bedrooms", String(Math.min(flat.bedrooms, MAX_BEDROOM_LEVEL)));
+  if (flat.sizeSqm !== null) params.set("size", String(Math.round(flat.sizeSqm)));
+  for (const a of flat.amenities) params.append("amenity", a);
+  if (askingUsd !== null) params.set("price", String(Math.round(askingUsd)));
+  return `/rentals/fair-rent?${params}`;
+}
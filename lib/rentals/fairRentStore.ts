@@ -0,0 +1,107 @@
+/**
+ * Loading for the fair-rent estimator: trains the regression on active
+ * listings and reads the latest RentalIndexDaily segments, both cached for
+ * FAIR_RENT_CACHE_MS. The model itself lives in ./fairRent.ts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { FAIR_RENT_CACHE_MS } from "./config";
+import {
+  FAIR_RENT_TYPES,
+  amenitiesFromJson,
+  estimateFairRent,
+  indexSegmentKey,
+  trainFairRentModel,
+  type FairRentEstimate,
+  type FairRentModel,
+  type FlatDetails,
+  type IndexSegment,
+} from "./fairRent";
+
+interface FairRentData {
+  loadedAt: number;
+  model: FairRentModel | null;
+  segments: Map<string, IndexSegment>;
+}
+
+let cached: FairRentData | null = null;
+
+async function loadFairRentData(): Promise<FairRentData> {
+  if (cached && Date.now() - cached.loadedAt < FAIR_RENT_CACHE_MS) return cached;
+
+  const [listings, latest] = await Promise.all([
+    prisma.rentalListing.findMany({
+      where: {
+        isActive: true,
+        isClusterPrimary: true,
+        priceMonthlyUsd: { not: null },
+        propertyType: { in: [...FAIR_RENT_TYPES] },
+        // Listings flagged as likely scams would teach the model their bait prices
+        OR: [{ riskLevel: null }, { riskLevel: { not: "HIGH" } }],
+      },
+      select: {
+        city: true,
+        district: true,
+        bedrooms: true,
+        sizeSqm: true,
+        propertyType: true,
+        amenitiesJson: true,
+        priceMonthlyUsd: true,
+      },
+    }),
+    prisma.rentalIndexDaily.findFirst({ orderBy: { date: "desc" }, select: { date: true } }),
+  ]);
+
+  const segments = new Map<string, IndexSegment>();
+  if (latest) {
+    const rows = await prisma.rentalIndexDaily.findMany({
+      where: { date: latest.date, medianPriceUsd: { not: null } },
+      select: {
+        city: true,
+        district: true,
+        bedrooms: true,
+        propertyType: true,
+        listingCount: true,
+        medianPriceUsd: true,
+        p25PriceUsd: true,
+        p75PriceUsd: true,
+      },
+    });
+    for (const { city, district, bedrooms, propertyType, ...segment } of rows) {
+      // Older rows may carry the upsert lookup's "" / -1 placeholders
+      segments.set(
+        indexSegmentKey({ city, district: district || null, bedrooms: bedrooms === -1 ? null : bedrooms, propertyType }),
+        segment,
+      );
+    }
+  }
+
+  cached = {
+    loadedAt: Date.now(),
+    model: trainFairRentModel(
+      listings.map((l) => ({
+        city: l.city,
+        district: l.district,
+        bedrooms: l.bedrooms,
+        sizeSqm: l.sizeSqm,
+        propertyType: l.propertyType,
+        amenities: amenitiesFromJson(l.amenitiesJson),
+        priceMonthlyUsd: l.priceMonthlyUsd!,
+      })),
+    ),
+    segments,
+  };
+  return cached;
+}
+
+/** Fair rent for a listing or a pasted flat; null without enough data. */
+export async function estimateFlatRent(flat: FlatDetails): Promise<FairRentEstimate | null> {
+  const { model, segments } = await loadFairRentData();
+  return estimateFairRent(model, flat, segments.get(indexSegmentKey(flat)) ?? null);
+}
+
+/** Districts the model has seen, busiest first — the public form's options. */
+export async function loadFairRentDistricts(): Promise<FairRentModel["districts"]> {
+  const { model } = await loadFairRentData();
+  return model?.districts ?? [];
+}
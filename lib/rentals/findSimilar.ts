@@ -0,0 +1,110 @@
+/**
+ * Database lookup for the "similar listings nearby" rail: loads candidates
+ * and their cached vectors, then ranks them with `rankSimilarListings`.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { rankSimilarListings } from "./similar";
+import { SIMILAR_LISTINGS_LIMIT, SIMILAR_PRICE_RANGE } from "./config";
+
+const CARD_SELECT = {
+  id: true,
+  title: true,
+  titleRewritten: true,
+  city: true,
+  district: true,
+  propertyType: true,
+  bedrooms: true,
+  bathrooms: true,
+  priceMonthlyUsd: true,
+  imageUrlsJson: true,
+  hostedImagesJson: true,
+} satisfies Prisma.RentalListingSelect;
+
+export type SimilarListingCard = Prisma.RentalListingGetPayload<{ select: typeof CARD_SELECT }>;
+
+/** Max candidates scored per request */
+const MAX_CANDIDATES = 400;
+
+/**
+ * Similar listings for the detail page. Empty until the listing has been
+ * embedded (embedListingsJob runs after every index build).
+ */
+export async function findSimilarListings(
+  listingId: string,
+  limit = SIMILAR_LISTINGS_LIMIT,
+): Promise<SimilarListingCard[]> {
+  const target = await prisma.rentalListing.findUnique({
+    where: { id: listingId },
+    select: {
+      id: true,
+      city: true,
+      clusterId: true,
+      district: true,
+      latitude: true,
+      longitude: true,
+      priceMonthlyUsd: true,
+      bedrooms: true,
+      embeddingHash: true,
+    },
+  });
+  if (!target?.embeddingHash) return [];
+
+  const where: Prisma.RentalListingWhereInput = {
+    id: { not: target.id },
+    city: target.city,
+    isActive: true,
+    isClusterPrimary: true,
+    embeddingHash: { not: null },
+  };
+  if (target.priceMonthlyUsd) {
+    where.priceMonthlyUsd = {
+      gte: target.priceMonthlyUsd * (1 - SIMILAR_PRICE_RANGE),
+      lte: target.priceMonthlyUsd * (1 + SIMILAR_PRICE_RANGE),
+    };
+  }
+  if (target.bedrooms !== null) {
+    where.OR = [
+      { bedrooms: null },
+      { bedrooms: { gte: target.bedrooms - 1, lte: target.bedrooms + 1 } },
+    ];
+  }
+
+  const candidates = await prisma.rentalListing.findMany({
+    where,
+    select: {
+      ...CARD_SELECT,
+      clusterId: true,
+      latitude: true,
+      longitude: true,
+      embeddingHash: true,
+    },
+    orderBy: { lastSeenAt: "desc" },
+    take: MAX_CANDIDATES,
+  });
+
+  const hashes = [...new Set([target.embeddingHash, ...candidates.map((c) => c.embeddingHash!)])];
+  const embeddings = await prisma.rentalEmbedding.findMany({
+    where: { contentHash: { in: hashes } },
+    select: { contentHash: true, vectorJson: true },
+  });
+  const vectors = new Map(embeddings.map((e) => [e.contentHash, JSON.parse(e.vectorJson) as number[]]));
+
+  const targetVector = vectors.get(target.embeddingHash);
+  if (!targetVector) return [];
+
+  const ranked = rankSimilarListings(
+    { ...target, vector: targetVector },
+    candidates
+      .filter((c) => vectors.has(c.embeddingHash!))
+      .map((c) => ({ ...c, vector: vectors.get(c.embeddingHash!)! })),
+    limit,
+  );
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  return ranked.map((r) => {
+    const { clusterId: _c, latitude: _lat, longitude: _lng, embeddingHash: _h, ...card } = byId.get(r.id)!;
+    return card;
+  });
+}
@@ -0,0 +1,63 @@
+/**
+ * Stored price forecasts (RentalForecast), as written by buildForecastJob.
+ *
+ * Forecasts are keyed by segment: city × district × bedrooms × property
+ * type, where a null field means "all" — the same filters the analytics
+ * dashboard offers.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { PropertyType } from "@prisma/client";
+
+export interface ForecastSegment {
+  city: string;
+  district: string | null;
+  bedrooms: number | null;
+  propertyType: PropertyType | null;
+}
+
+export interface SegmentForecast {
+  points: {
+    month: string;
+    predicted: number;
+    lower80: number;
+    upper80: number;
+    lower95: number;
+    upper95: number;
+  }[];
+  slopePerMonth: number;
+  seasonal: boolean;
+  trainingMonths: number;
+  generatedAt: string;
+}
+
+/** Lookup key for a segment; null fields mean "all". */
+export function forecastSegmentKey(seg: ForecastSegment): string {
+  return [seg.city, seg.district ?? "*", seg.bedrooms ?? "*", seg.propertyType ?? "*"].join("|");
+}
+
+/**
+ * The stored forecast for one segment, or null if it had too little history.
+ */
+export async function getSegmentForecast(seg: ForecastSegment): Promise<SegmentForecast | null> {
+  const rows = await prisma.rentalForecast.findMany({
+    where: { segmentKey: forecastSegmentKey(seg) },
+    orderBy: { horizon: "asc" },
+  });
+  if (rows.length === 0) return null;
+
+  return {
+    points: rows.map((f) => ({
+      month: f.targetMonth,
+      predicted: f.predictedUsd,
+      lower80: f.lower80Usd,
+      upper80: f.upper80Usd,
+      lower95: f.lower95Usd,
+      upper95: f.upper95Usd,
+    })),
+    slopePerMonth: rows[0].slopePerMonth,
+    seasonal: rows[0].seasonal,
+    trainingMonths: rows[0].trainingMonths,
+    generatedAt: rows[0].generatedAt.toISOString(),
+  };
+}
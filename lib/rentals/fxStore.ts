@@ -0,0 +1,34 @@
+/**
+ * Persistence for the dated FX table (`FxRate`) behind ./currency.ts.
+ *
+ * Scrape jobs call `loadFxRates()` before parsing so non-USD prices are
+ * converted with the rates an admin has stored; without it the built-in
+ * defaults apply.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { isCurrencyCode, setFxRates, type CurrencyCode, type FxRateEntry } from "./currency";
+
+/** Pull every stored rate into the in-memory table. */
+export async function loadFxRates(): Promise<FxRateEntry[]> {
+  const rows = await prisma.fxRate.findMany({ orderBy: { date: "asc" } });
+  const entries: FxRateEntry[] = [];
+  for (const row of rows) {
+    if (!isCurrencyCode(row.currency)) continue;
+    entries.push({ currency: row.currency, date: row.date.toISOString().slice(0, 10), perUsd: row.perUsd });
+  }
+  setFxRates(entries);
+  return entries;
+}
+
+/** Store (or correct) the rate for a currency from `date` onwards. */
+export async function saveFxRate(currency: CurrencyCode, date: string, perUsd: number, source?: string | null) {
+  const day = new Date(`${date}T00:00:00Z`);
+  const row = await prisma.fxRate.upsert({
+    where: { currency_date: { currency, date: day } },
+    create: { currency, date: day, perUsd, source: source ?? null },
+    update: { perUsd, source: source ?? null },
+  });
+  await loadFxRates();
+  return row;
+}
@@ -0,0 +1,35 @@
+/**
+ * Exact geo filtering for /rentals queries.
+ *
+ * `buildRentalsWhere` narrows a radius or polygon search to its bounding
+ * box. Here we load the ids and coordinates inside that box and keep only
+ * the listings really inside the circle or polygon, so counts, pages and
+ * map points all agree.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { RentalSearchParams } from "@/lib/rentalsQuery";
+import { geoContains, parseGeoSearch } from "./geoSearch";
+
+/**
+ * Add an exact-shape `id IN (…)` condition to a where that includes
+ * `buildRentalsWhere(sp)`. Returns `where` unchanged without a geo search.
+ */
+export async function applyGeoFilter(
+  where: Prisma.RentalListingWhereInput,
+  sp: RentalSearchParams,
+): Promise<Prisma.RentalListingWhereInput> {
+  const geo = parseGeoSearch(sp);
+  if (!geo) return where;
+
+  const inBox = await prisma.rentalListing.findMany({
+    where,
+    select: { id: true, latitude: true, longitude: true },
+  });
+  const ids = inBox
+    .filter((l) => l.latitude !== null && l.longitude !== null && geoContains(geo, l.latitude, l.longitude))
+    .map((l) => l.id);
+
+  return { AND: [where, { id: { in: ids } }] };
+}
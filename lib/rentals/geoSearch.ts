@@ -0,0 +1,158 @@
+/**
+ * Geo search for /rentals: "within N km of a point" and "inside a drawn
+ * polygon", serialised into URL params so results, pagination and saved
+ * searches all carry the area.
+ *
+ *   near=11.55640,104.92820&radiusKm=3
+ *   poly=11.56,104.91;11.57,104.93;11.55,104.94
+ *
+ * `buildRentalsWhere` can only narrow to the shape's bounding box (Prisma
+ * has no spatial filters); `applyGeoFilter` in ./geoFilter.ts trims that to
+ * the exact circle or polygon.
+ */
+
+/* ── Limits ──────────────────────────────────────────────── */
+
+export const DEFAULT_RADIUS_KM = 2;
+export const MIN_RADIUS_KM = 0.2;
+export const MAX_RADIUS_KM = 25;
+
+/** Vertices beyond this are dropped — also bounds the `poly` param length */
+export const MAX_POLYGON_POINTS = 40;
+
+/** Longest `poly` value accepted (40 × "-90.00000,-180.00000;") */
+export const MAX_POLYGON_PARAM_LENGTH = MAX_POLYGON_POINTS * 21;
+
+/** Radius choices offered by the map control */
+export const RADIUS_OPTIONS_KM = [0.5, 1, 2, 3, 5, 10];
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export type GeoSearch =
+  | { mode: "radius"; center: LatLng; radiusKm: number }
+  | { mode: "polygon"; points: LatLng[] };
+
+export interface GeoBoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/* ── URL params ──────────────────────────────────────────── */
+
+/**
+ * Read the geo part of the search params. A polygon wins over a radius if
+ * both are present; invalid values are ignored rather than rejected.
+ */
+export function parseGeoSearch(sp: { near?: string; radiusKm?: string; poly?: string }): GeoSearch | null {
+  if (sp.poly) {
+    const points = parsePolygon(sp.poly);
+    if (points) return { mode: "polygon", points };
+  }
+  if (sp.near) {
+    const center = parseLatLng(sp.near);
+    if (center) {
+      const r = parseFloat(sp.radiusKm ?? "");
+      const radiusKm = isNaN(r) ? DEFAULT_RADIUS_KM : Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, r));
+      return { mode: "radius", center, radiusKm };
+    }
+  }
+  return null;
+}
+
+/** "lat,lng" → LatLng, or null when malformed / out of range. */
+export function parseLatLng(value: string): LatLng | null {
+  const [latStr, lngStr, ...rest] = value.split(",");
+  if (rest.length > 0 || !latStr || !lngStr) return null;
+  const lat = Number(latStr);
+  const lng = Number(lngStr);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+export function formatLatLng(p: LatLng): string {
+  return `${p.lat.toFixed(5)},${p.lng.toFixed(5)}`;
+}
+
+/** "lat,lng;lat,lng;…" → at least three vertices, or null. */
+export function parsePolygon(value: string): LatLng[] | null {
+  if (value.length > MAX_POLYGON_PARAM_LENGTH) return null;
+  const points: LatLng[] = [];
+  for (const part of value.split(";")) {
+    const p = parseLatLng(part);
+    if (!p) return null;
+    points.push(p);
+  }
+  return points.length >= 3 ? points.slice(0, MAX_POLYGON_POINTS) : null;
+}
+
+export function formatPolygon(points: LatLng[]): string {
+  return points.slice(0, MAX_POLYGON_POINTS).map(formatLatLng).join(";");
+}
+
+/** Short description for result summaries and saved-search names. */
+export function describeGeoSearch(geo: GeoSearch): string {
+  return geo.mode === "radius" ? `within ${geo.radiusKm} km of a pin` : "inside a drawn area";
+}
+
+/* ── Geometry ────────────────────────────────────────────── */
+
+/** Great-circle distance in km. */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/** Smallest lat/lng box containing the shape. */
+export function geoBoundingBox(geo: GeoSearch): GeoBoundingBox {
+  if (geo.mode === "radius") {
+    const { lat, lng } = geo.center;
+    const dLat = geo.radiusKm / 111.32;
+    const dLng = geo.radiusKm / (111.32 * Math.max(Math.cos((lat * Math.PI) / 180), 0.01));
+    return { minLat: lat - dLat, maxLat: lat + dLat, minLng: lng - dLng, maxLng: lng + dLng };
+  }
+  const lats = geo.points.map((p) => p.lat);
+  const lngs = geo.points.map((p) => p.lng);
+  return {
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+  };
+}
+
+/** Is the point inside the circle / polygon? */
+export function geoContains(geo: GeoSearch, lat: number, lng: number): boolean {
+  if (geo.mode === "radius") {
+    return haversineKm(geo.center.lat, geo.center.lng, lat, lng) <= geo.radiusKm;
+  }
+  return pointInPolygon(lat, lng, geo.points);
+}
+
+/**
+ * Even-odd ray casting. Treats lat/lng as planar, which is fine at city
+ * scale.
+ */
+export function pointInPolygon(lat: number, lng: number, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > lat !== b.lat > lat && lng < ((b.lng - a.lng) * (lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,271 @@
+/**
+ * Per-host pacing and circuit breaker for the rental scrapers.
+ *
+ * Every host gets a token bucket (burst HOST_BUCKET_BURST, one token per
+ * `intervalMs`). 429/503 responses double the interval and honour
+ * Retry-After; successes ease it back towards REQUEST_DELAY_BASE_MS.
+ *
+ * The circuit opens after BREAKER_FAILURE_THRESHOLD consecutive failures
+ * and stays open for a cooldown that doubles on every re-trip. After the
+ * cooldown one probe request is let through (HALF_OPEN): success closes
+ * the circuit, failure re-opens it.
+ *
+ * State lives in memory here (no I/O); `./hostHealthStore.ts` loads and
+ * saves it so a tripped host stays paused across runs.
+ */
+
+import {
+  REQUEST_DELAY_BASE_MS,
+  HOST_BUCKET_BURST,
+  HOST_INTERVAL_MAX_MS,
+  RETRY_AFTER_MAX_WAIT_MS,
+  BREAKER_FAILURE_THRESHOLD,
+  BREAKER_COOLDOWN_BASE_MS,
+  BREAKER_COOLDOWN_MAX_MS,
+} from "./config";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+/** Mirrors the `HostCircuitState` Prisma enum */
+export type CircuitState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+export interface HostHealth {
+  host: string;
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  /** Trips since the last success — drives the cooldown backoff */
+  tripCount: number;
+  /** OPEN: no requests before this (epoch ms) */
+  openedUntil: number | null;
+  /** Adaptive minimum spacing between requests (ms) */
+  intervalMs: number;
+  /** Short Retry-After pause (epoch ms) */
+  pausedUntil: number | null;
+  /** Last HTTP status, null for a network error */
+  lastStatus: number | null;
+  lastError: string | null;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  /** Last state change (epoch ms) — the newer of memory and DB wins on load */
+  changedAt: number;
+  /** Changed since the last save */
+  dirty: boolean;
+
+  // Token bucket + probe bookkeeping (memory only)
+  tokens: number;
+  refilledAt: number;
+  probeInFlight: boolean;
+}
+
+export type RequestOutcome =
+  | { kind: "success"; status: number }
+  | { kind: "throttled"; status: number; retryAfterMs: number | null }
+  | { kind: "failure"; status: number | null; error: string };
+
+/* ── Classification ──────────────────────────────────────── */
+
+/**
+ * 2xx and most 4xx mean the host is answering (404 = listing gone);
+ * 429/503 mean "slow down"; 403 (bot wall) and other 5xx are failures.
+ */
+export function classifyStatus(status: number): RequestOutcome["kind"] {
+  if (status === 429 || status === 503) return "throttled";
+  if (status === 403 || status >= 500) return "failure";
+  return "success";
+}
+
+/** Retry-After in ms, from delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null, now: number): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10) * 1000;
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/* ── Registry ────────────────────────────────────────────── */
+
+const HOSTS = new Map<string, HostHealth>();
+
+export function newHostHealth(host: string, now: number): HostHealth {
+  return {
+    host,
+    circuit: "CLOSED",
+    consecutiveFailures: 0,
+    tripCount: 0,
+    openedUntil: null,
+    intervalMs: REQUEST_DELAY_BASE_MS,
+    pausedUntil: null,
+    lastStatus: null,
+    lastError: null,
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    changedAt: now,
+    dirty: false,
+    tokens: HOST_BUCKET_BURST,
+    refilledAt: now,
+    probeInFlight: false,
+  };
+}
+
+export function getHostHealth(host: string, now = Date.now()): HostHealth {
+  let h = HOSTS.get(host);
+  if (!h) {
+    h = newHostHealth(host, now);
+    HOSTS.set(host, h);
+  }
+  return h;
+}
+
+/** "https://www.fazwaz-kh.com/x" → "www.fazwaz-kh.com" (null if malformed). */
+export function hostOf(url: string): string | null {
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+}
+
+/** Hosts changed since the last save. */
+export function dirtyHostHealth(): HostHealth[] {
+  return [...HOSTS.values()].filter((h) => h.dirty);
+}
+
+/**
+ * Adopt persisted state unless memory already holds something newer
+ * (e.g. another job in this process updated it since).
+ */
+export function restoreHostHealth(saved: Omit<HostHealth, "dirty" | "tokens" | "refilledAt" | "probeInFlight">): void {
+  const current = HOSTS.get(saved.host);
+  if (current && current.changedAt >= saved.changedAt) return;
+  HOSTS.set(saved.host, {
+    ...saved,
+    dirty: false,
+    tokens: HOST_BUCKET_BURST,
+    refilledAt: Date.now(),
+    probeInFlight: false,
+  });
+}
+
+/** Close the circuit and drop any backoff (admin reset). */
+export function resetHostHealth(host: string, now = Date.now()): HostHealth {
+  const h = { ...newHostHealth(host, now), dirty: true };
+  HOSTS.set(host, h);
+  return h;
+}
+
+/** Test helper: forget every host. */
+export function clearHostHealth(): void {
+  HOSTS.clear();
+}
+
+/* ── Circuit breaker ─────────────────────────────────────── */
+
+function cooldownMs(tripCount: number): number {
+  return Math.min(BREAKER_COOLDOWN_MAX_MS, BREAKER_COOLDOWN_BASE_MS * 2 ** Math.max(0, tripCount - 1));
+}
+
+function trip(h: HostHealth, now: number, minOpenMs = 0): void {
+  h.tripCount++;
+  h.circuit = "OPEN";
+  h.openedUntil = now + Math.max(cooldownMs(h.tripCount), minOpenMs);
+  h.probeInFlight = false;
+}
+
+/**
+ * Would a request be let through right now? Read-only — use it to skip
+ * work up front; `admitRequest` is what actually claims the probe slot.
+ */
+export function isHostAvailable(h: HostHealth, now: number): boolean {
+  if (h.circuit === "CLOSED") return true;
+  if (h.circuit === "OPEN") return h.openedUntil === null || now >= h.openedUntil;
+  return !h.probeInFlight;
+}
+
+/**
+ * When an OPEN circuit lets requests through again, or null if the host
+ * isn't paused (closed, or cooled down enough for a probe).
+ */
+export function hostPausedUntil(host: string, now = Date.now()): Date | null {
+  const h = getHostHealth(host, now);
+  if (h.circuit !== "OPEN" || h.openedUntil === null || h.openedUntil <= now) return null;
+  return new Date(h.openedUntil);
+}
+
+/**
+ * Claim permission for one request. An OPEN circuit whose cooldown has
+ * passed turns HALF_OPEN and admits exactly one probe.
+ */
+export function admitRequest(h: HostHealth, now: number): boolean {
+  if (h.circuit === "CLOSED") return true;
+  if (!isHostAvailable(h, now)) return false;
+  if (h.circuit === "OPEN") {
+    h.circuit = "HALF_OPEN";
+    h.changedAt = now;
+    h.dirty = true;
+  }
+  h.probeInFlight = true;
+  return true;
+}
+
+/** Record how a request went; adjusts pacing and the circuit. */
+export function recordOutcome(h: HostHealth, outcome: RequestOutcome, now: number): void {
+  h.changedAt = now;
+  h.dirty = true;
+  h.probeInFlight = false;
+  h.lastStatus = outcome.status;
+
+  if (outcome.kind === "success") {
+    h.consecutiveFailures = 0;
+    h.tripCount = 0;
+    h.circuit = "CLOSED";
+    h.openedUntil = null;
+    h.lastError = null;
+    h.lastSuccessAt = now;
+    h.intervalMs = Math.max(REQUEST_DELAY_BASE_MS, Math.round(h.intervalMs * 0.9));
+    return;
+  }
+
+  h.consecutiveFailures++;
+  h.lastFailureAt = now;
+  let minOpenMs = 0;
+
+  if (outcome.kind === "throttled") {
+    h.intervalMs = Math.min(HOST_INTERVAL_MAX_MS, h.intervalMs * 2);
+    h.lastError = `HTTP ${outcome.status}`;
+    if (outcome.retryAfterMs !== null) {
+      if (outcome.retryAfterMs > RETRY_AFTER_MAX_WAIT_MS) {
+        // Too long to wait inline: pause the host for as long as asked
+        minOpenMs = outcome.retryAfterMs;
+      } else {
+        h.pausedUntil = now + outcome.retryAfterMs;
+      }
+    }
+  } else {
+    h.lastError = outcome.error.slice(0, 500);
+  }
+
+  if (h.circuit === "HALF_OPEN" || minOpenMs > 0 || h.consecutiveFailures >= BREAKER_FAILURE_THRESHOLD) {
+    trip(h, now, minOpenMs);
+  }
+}
+
+/* ── Token bucket ────────────────────────────────────────── */
+
+/**
+ * Reserve the host's next request slot and return how long to wait for
+ * it (ms). Tokens may go negative, so concurrent callers queue up one
+ * interval apart. `floorMs` raises the interval (robots.txt Crawl-delay).
+ */
+export function reserveSlot(h: HostHealth, now: number, floorMs = 0): number {
+  const interval = Math.max(h.intervalMs, floorMs);
+  // A Crawl-delay means one request per delay — no bursts
+  const burst = floorMs > 0 ? 1 : HOST_BUCKET_BURST;
+  h.tokens = Math.min(burst, h.tokens + (now - h.refilledAt) / interval);
+  h.refilledAt = now;
+  h.tokens -= 1;
+
+  const bucketWait = h.tokens >= 0 ? 0 : -h.tokens * interval;
+  const pauseWait = h.pausedUntil !== null ? Math.max(0, h.pausedUntil - now) : 0;
+  return Math.ceil(Math.max(bucketWait, pauseWait));
+}
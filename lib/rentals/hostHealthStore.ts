@@ -0,0 +1,61 @@
+/**
+ * Persistence for per-host pacing / circuit-breaker state
+ * (`ScrapeHostHealth`), so a host tripped in one run stays paused in the
+ * next — even on a fresh serverless instance.
+ *
+ * Scrape jobs call `loadHostHealth()` before their first request and
+ * `saveHostHealth()` when they finish (success or failure).
+ */
+
+import { prisma } from "@/lib/prisma";
+import { dirtyHostHealth, resetHostHealth, restoreHostHealth } from "./hostHealth";
+
+/** Pull every persisted host into memory (newer in-memory state wins). */
+export async function loadHostHealth(): Promise<void> {
+  const rows = await prisma.scrapeHostHealth.findMany();
+  for (const row of rows) {
+    restoreHostHealth({
+      host: row.host,
+      circuit: row.circuitState,
+      consecutiveFailures: row.consecutiveFailures,
+      tripCount: row.tripCount,
+      openedUntil: row.openedUntil?.getTime() ?? null,
+      intervalMs: row.intervalMs,
+      pausedUntil: null,
+      lastStatus: row.lastStatus,
+      lastError: row.lastError,
+      lastSuccessAt: row.lastSuccessAt?.getTime() ?? null,
+      lastFailureAt: row.lastFailureAt?.getTime() ?? null,
+      changedAt: row.updatedAt.getTime(),
+    });
+  }
+}
+
+/** Write hosts whose state changed since the last save. */
+export async function saveHostHealth(): Promise<void> {
+  for (const h of dirtyHostHealth()) {
+    const data = {
+      circuitState: h.circuit,
+      consecutiveFailures: h.consecutiveFailures,
+      tripCount: h.tripCount,
+      openedUntil: h.openedUntil !== null ? new Date(h.openedUntil) : null,
+      intervalMs: h.intervalMs,
+      lastStatus: h.lastStatus,
+      lastError: h.lastError,
+      lastSuccessAt: h.lastSuccessAt !== null ? new Date(h.lastSuccessAt) : null,
+      lastFailureAt: h.lastFailureAt !== null ? new Date(h.lastFailureAt) : null,
+    };
+    await prisma.scrapeHostHealth.upsert({
+      where: { host: h.host },
+      create: { host: h.host, ...data },
+      update: data,
+    });
+    h.dirty = false;
+  }
+}
+
+/** Admin reset: close the host's circuit and drop its backoff. */
+export async function resetHostHealthRecord(host: string): Promise<void> {
+  resetHostHealth(host);
+  await saveHostHealth();
+}
@@ -2,9 +2,12 @@
  * HTTP throttle + retry utilities for the rental scraping pipeline.
  *
  * - Concurrency-limited fetcher
- * - Exponential backoff with jitter
+ * - Per-host token buckets + circuit breaker (./hostHealth.ts)
+ * - Exponential backoff with jitter, Retry-After on 429/503
  * - Polite delay between requests
  * - Optional proxy support via SCRAPE_PROXY env var
+ * - robots.txt Allow/Disallow + Crawl-delay via the shared crawl policy
+ * - Optional raw page archive (./pageArchive.ts)
  */
 
 import {
@@ -23,8 +26,22 @@ import {
   NIGHT_IDLE_END_HOUR_UTC,
   NIGHT_IDLE_EXTRA_MIN_MS,
   NIGHT_IDLE_EXTRA_MAX_MS,
+  RESPECT_ROBOTS_TXT,
+  CRAWL_DELAY_MAX_MS,
 } from "./config";
 import { ProxyAgent } from "undici";
+import { checkCrawlPolicy, type CrawlDecision } from "@/lib/robots/crawlPolicy";
+import {
+  admitRequest,
+  classifyStatus,
+  getHostHealth,
+  hostOf,
+  isHostAvailable,
+  parseRetryAfter,
+  recordOutcome,
+  reserveSlot,
+} from "./hostHealth";
+import { archiveFetchedPage } from "./pageArchive";
 
 /* ── Proxy support ───────────────────────────────────────── */
 
@@ -42,6 +59,96 @@ if (PROXY_URL) {
   console.log(`[http] 🌏 Proxy enabled: ${PROXY_URL.replace(/\/\/[^:]+:[^@]+@/, "//***:***@")}`);
 }
 
+/* ── Crawl policy (robots.txt) ───────────────────────────── */
+
+/** `lastError` for queue items skipped because robots.txt disallows them */
+export const ROBOTS_SKIP_REASON = "Skipped: disallowed by robots.txt";
+
+/** robots.txt is fetched through the same proxy as the pages it governs */
+const proxiedFetch: typeof fetch = (input, init) =>
+  // @ts-expect-error — undici dispatcher is valid at runtime but not in DOM fetch types
+  fetch(input, { ...init, dispatcher: proxyDispatcher });
+
+/**
+ * May the rentals bot fetch this URL? Also returns the site's Crawl-delay
+ * for us. Always allowed when RENTALS_RESPECT_ROBOTS=false.
+ */
+export async function checkRentalCrawlPolicy(url: string): Promise<CrawlDecision> {
+  if (!RESPECT_ROBOTS_TXT) return { allowed: true, crawlDelayMs: null };
+  return checkCrawlPolicy(url, { userAgent: USER_AGENT, fetchFn: proxiedFetch });
+}
+
+/**
+ * Split discovered items into those robots.txt allows and those it
+ * blocks — call before enqueueing into ScrapeQueue.
+ */
+export async function filterCrawlable<T extends { url: string }>(
+  items: T[]
+): Promise<{ allowed: T[]; blocked: T[] }> {
+  const allowed: T[] = [];
+  const blocked: T[] = [];
+  for (const item of items) {
+    const decision = await checkRentalCrawlPolicy(item.url);
+    (decision.allowed ? allowed : blocked).push(item);
+  }
+  return { allowed, blocked };
+}
+
+/* ── Per-host pacing ─────────────────────────────────────── */
+
+/**
+ * Wait for the host's next token-bucket slot. The robots.txt Crawl-delay
+ * (clamped to CRAWL_DELAY_MAX_MS) acts as a floor on the host's interval;
+ * 429/503 backoff and Retry-After can stretch it further.
+ */
+export async function waitForHostSlot(url: string, crawlDelayMs: number | null): Promise<void> {
+  const host = hostOf(url);
+  if (!host) return;
+  const floor = crawlDelayMs ? Math.min(crawlDelayMs, CRAWL_DELAY_MAX_MS) : 0;
+  const waitMs = reserveSlot(getHostHealth(host), Date.now(), floor);
+  if (waitMs > 0) await new Promise((resolve) => setTimeout(resolve, waitMs));
+}
+
+/** Claim a request against the host's circuit breaker (false = circuit open). */
+export function admitHost(url: string): boolean {
+  const host = hostOf(url);
+  return !host || admitRequest(getHostHealth(host), Date.now());
+}
+
+/** Feed an HTTP status (and Retry-After) into the host's pacing and breaker. */
+export function recordHostResponse(url: string, status: number, retryAfter: string | null): void {
+  const host = hostOf(url);
+  if (!host) return;
+  const now = Date.now();
+  const kind = classifyStatus(status);
+  recordOutcome(
+    getHostHealth(host),
+    kind === "throttled"
+      ? { kind, status, retryAfterMs: parseRetryAfter(retryAfter, now) }
+      : kind === "failure"
+        ? { kind, status, error: `HTTP ${status}` }
+        : { kind, status },
+    now
+  );
+}
+
+/** Record a network error / timeout against the host. */
+export function recordHostError(url: string, error: unknown): void {
+  const host = hostOf(url);
+  if (!host) return;
+  const msg = error instanceof Error ? error.message : String(error);
+  recordOutcome(getHostHealth(host), { kind: "failure", status: null, error: msg }, Date.now());
+}
+
+/**
+ * False while the host's circuit is open (or its half-open probe is in
+ * flight). Jobs use this to stop early instead of burning queue items.
+ */
+export function isHostUp(url: string): boolean {
+  const host = hostOf(url);
+  return !host || isHostAvailable(getHostHealth(host), Date.now());
+}
+
 /* ── Semaphore for concurrency ───────────────────────────── */
 
 let activeRequests = 0;
@@ -172,8 +279,10 @@ function isRetryableStatus(status: number): boolean {
 const FETCH_TIMEOUT_MS = 15_000;
 
 /**
- * Fetch a URL with concurrency limiting, polite delay, and retry with backoff.
- * Returns the Response or null on permanent failure.
+ * Fetch a URL with concurrency limiting, per-host pacing, polite delay,
+ * and retry with backoff. Returns the Response or null on permanent
+ * failure, when robots.txt disallows the URL, or while the host's circuit
+ * is open.
  */
 export async function throttledFetch(
   url: string,
@@ -181,7 +290,25 @@ export async function throttledFetch(
 ): Promise<Response | null> {
   const retries = options?.maxRetries ?? MAX_RETRIES;
 
+  const policy = await checkRentalCrawlPolicy(url);
+  if (!policy.allowed) {
+    console.warn(`[throttledFetch] ${url} → disallowed by robots.txt`);
+    return null;
+  }
+
+  let backoffMs = 0;
+
   for (let attempt = 0; attempt <= retries; attempt++) {
+    if (backoffMs > 0) {
+      await new Promise((r) => setTimeout(r, backoffMs));
+      backoffMs = 0;
+    }
+    if (!admitHost(url)) {
+      console.warn(`[throttledFetch] ${url} → circuit open for this host, skipping`);
+      return null;
+    }
+    // Outside the semaphore so one slow host doesn't hold up the others
+    await waitForHostSlot(url, policy.crawlDelayMs);
     await acquireSemaphore();
     try {
       // Polite delay before each request
@@ -206,16 +333,19 @@ export async function throttledFetch(
 
       clearTimeout(timeout);
 
+      recordHostResponse(url, response.status, response.headers.get("retry-after"));
+
       if (response.ok) {
         return response;
       }
 
-      if (isRetryableStatus(response.status) && attempt < retries) {
-        const backoff = Math.pow(2, attempt) * 1000 + Math.random() * 1000;
+      // Don't keep retrying once the host's circuit has opened
+      if (isRetryableStatus(response.status) && attempt < retries && isHostUp(url)) {
+        // 429/503 wait comes from the host bucket (backed-off interval / Retry-After)
+        backoffMs = classifyStatus(response.status) === "throttled" ? 0 : Math.pow(2, attempt) * 1000 + Math.random() * 1000;
         console.warn(
-          `[throttledFetch] ${url} → ${response.status}, retrying in ${Math.round(backoff)}ms (attempt ${attempt + 1}/${retries})`
+          `[throttledFetch] ${url} → ${response.status}, retrying ${backoffMs > 0 ? `in ${Math.round(backoffMs)}ms` : "after host backoff"} (attempt ${attempt + 1}/${retries})`
         );
-        await new Promise((r) => setTimeout(r, backoff));
         continue;
       }
 
@@ -223,12 +353,12 @@ export async function throttledFetch(
       console.warn(`[throttledFetch] ${url} → ${response.status} (permanent)`);
       return null;
     } catch (error) {
-      if (isRetryableError(error) && attempt < retries) {
-        const backoff = Math.pow(2, attempt) * 1000 + Math.random() * 1000;
+      recordHostError(url, error);
+      if (isRetryableError(error) && attempt < retries && isHostUp(url)) {
+        backoffMs = Math.pow(2, attempt) * 1000 + Math.random() * 1000;
         console.warn(
-          `[throttledFetch] ${url} → network error, retrying in ${Math.round(backoff)}ms (attempt ${attempt + 1}/${retries})`
+          `[throttledFetch] ${url} → network error, retrying in ${Math.round(backoffMs)}ms (attempt ${attempt + 1}/${retries})`
         );
-        await new Promise((r) => setTimeout(r, backoff));
         continue;
       }
       console.warn(`[throttledFetch] ${url} → failed permanently:`, error);
@@ -242,7 +372,8 @@ export async function throttledFetch(
 }
 
 /**
- * Convenience: fetch and return HTML text, or null.
+ * Convenience: fetch and return HTML text, or null. The page is archived
+ * when PAGE_ARCHIVE_ENABLED is set.
  */
 export async function fetchHtml(url: string): Promise<string | null> {
   const response = await throttledFetch(url);
@@ -253,5 +384,7 @@ export async function fetchHtml(url: string): Promise<string | null> {
     return null;
   }
 
-  return response.text();
+  const html = await response.text();
+  await archiveFetchedPage(url, html, "http");
+  return html;
 }
@@ -0,0 +1,98 @@
+/**
+ * Perceptual image hashing for rental listings.
+ *
+ * Uses a 64-bit difference hash (dHash): the image is shrunk to 9×8
+ * greyscale and each bit records whether a pixel is brighter than its
+ * right-hand neighbour. Re-encoded, resized or lightly watermarked copies
+ * of the same photo land within a few bits of each other, which is what
+ * lets us spot the same unit re-posted on another portal.
+ */
+
+import sharp from "sharp";
+import { throttledFetch } from "./http";
+
+/** Bits differing at or below this are treated as the same photo */
+export const IMAGE_MATCH_MAX_DISTANCE = 6;
+
+/** Bits differing at or below this are a weak (similar-shot) match */
+export const IMAGE_NEAR_MAX_DISTANCE = 12;
+
+/* ── Hashing ─────────────────────────────────────────────── */
+
+/**
+ * Compute the dHash of an image buffer as a 16-char hex string.
+ * Returns null if the buffer is not a decodable image.
+ */
+export async function dHashBuffer(buffer: Buffer): Promise<string | null> {
+  try {
+    const pixels = await sharp(buffer)
+      .greyscale()
+      .resize(9, 8, { fit: "fill" })
+      .raw()
+      .toBuffer();
+
+    let hash = 0n;
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const left = pixels[row * 9 + col];
+        const right = pixels[row * 9 + col + 1];
+        hash = (hash << 1n) | (left > right ? 1n : 0n);
+      }
+    }
+    return hash.toString(16).padStart(16, "0");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download an image through the scraper's throttled fetch.
+ * Returns null on network failure or non-image responses.
+ */
+export async function downloadImage(url: string): Promise<Buffer | null> {
+  const response = await throttledFetch(url, { maxRetries: 1 });
+  if (!response) return null;
+
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!contentType.startsWith("image/")) return null;
+
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Download an image and compute its dHash.
+ * Returns null on network failure or non-image responses.
+ */
+export async function computeImageHash(url: string): Promise<string | null> {
+  const buffer = await downloadImage(url);
+  return buffer ? dHashBuffer(buffer) : null;
+}
+
+/* ── Comparison ──────────────────────────────────────────── */
+
+/** Number of differing bits between two hex dHashes (0..64). */
+export function hammingDistance(a: string, b: string): number {
+  let x = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let bits = 0;
+  while (x > 0n) {
+    bits += Number(x & 1n);
+    x >>= 1n;
+  }
+  return bits;
+}
+
+/**
+ * Smallest Hamming distance between any image of A and any image of B,
+ * or null when either side has no hashes.
+ */
+export function closestImageDistance(a: string[], b: string[]): number | null {
+  if (a.length === 0 || b.length === 0) return null;
+  let best = 64;
+  for (const ha of a) {
+    for (const hb of b) {
+      best = Math.min(best, hammingDistance(ha, hb));
+      if (best === 0) return 0;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,115 @@
+/**
+ * Image ingestion for hosted listing photos: decode a downloaded photo,
+ * fingerprint it, and render the responsive variants described in
+ * ./listingImages.ts.
+ *
+ * Two fingerprints: `sha256` of the downloaded bytes catches the exact same
+ * file, which reuses an already stored image even from another listing.
+ * The dHash (./imageHash.ts) catches the same shot re-encoded or resized,
+ * but only within a listing — similar rooms in one building share dHashes.
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { IMAGE_MATCH_MAX_DISTANCE, dHashBuffer, hammingDistance } from "./imageHash";
+import { variantWidths, type ImageVariantFormat } from "./listingImages";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface ImageVariant {
+  width: number;
+  format: ImageVariantFormat;
+  contentType: string;
+  buffer: Buffer;
+}
+
+export interface ProcessedImage {
+  sha256: string;
+  phash: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+}
+
+/** Larger downloads are skipped rather than decoded */
+export const MAX_SOURCE_IMAGE_BYTES = 15 * 1024 * 1024;
+
+/** Anything smaller is an icon, logo or tracking pixel */
+export const MIN_SOURCE_IMAGE_WIDTH = 200;
+
+const WEBP_QUALITY = 75;
+const JPEG_QUALITY = 80;
+
+/* ── Processing ──────────────────────────────────────────── */
+
+export function sha256Hex(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/** Just the fingerprints — enough to look for an already stored copy. */
+export async function fingerprintImage(
+  buffer: Buffer,
+): Promise<{ sha256: string; phash: string; width: number; height: number } | null> {
+  if (buffer.length === 0 || buffer.length > MAX_SOURCE_IMAGE_BYTES) return null;
+  try {
+    const meta = await sharp(buffer).metadata();
+    // EXIF orientations 5–8 are stored rotated by 90°
+    const rotated = (meta.orientation ?? 1) >= 5;
+    const width = (rotated ? meta.height : meta.width) ?? 0;
+    const height = (rotated ? meta.width : meta.height) ?? 0;
+    if (width < MIN_SOURCE_IMAGE_WIDTH || height === 0) return null;
+    const phash = await dHashBuffer(buffer);
+    if (!phash) return null;
+    return { sha256: sha256Hex(buffer), phash, width, height };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fingerprint a photo and render every variant (EXIF-rotated, metadata
+ * stripped). Returns null if it isn't a usable image.
+ */
+export async function processImage(buffer: Buffer): Promise<ProcessedImage | null> {
+  const print = await fingerprintImage(buffer);
+  if (!print) return null;
+
+  const variants: ImageVariant[] = [];
+  for (const width of variantWidths(print.width)) {
+    const resized = sharp(buffer).rotate().resize({ width, withoutEnlargement: true });
+    variants.push({
+      width,
+      format: "webp",
+      contentType: "image/webp",
+      buffer: await resized.clone().webp({ quality: WEBP_QUALITY }).toBuffer(),
+    });
+    variants.push({
+      width,
+      format: "jpg",
+      contentType: "image/jpeg",
+      // Flatten transparent PNGs onto white rather than black
+      buffer: await resized.clone().flatten({ background: "#ffffff" }).jpeg({ quality: JPEG_QUALITY, mozjpeg: true }).toBuffer(),
+    });
+  }
+  return { ...print, variants };
+}
+
+/* ── Dedupe ──────────────────────────────────────────────── */
+
+/**
+ * Group near-identical photos within one listing (the same shot uploaded
+ * twice, or at two sizes) under the first of each, in order.
+ */
+export function groupNearDuplicates<T extends { phash: string }>(
+  images: T[],
+  maxDistance = IMAGE_MATCH_MAX_DISTANCE,
+): { image: T; duplicates: T[] }[] {
+  const groups: { image: T; duplicates: T[] }[] = [];
+  for (const img of images) {
+    const group = groups.find((g) => hammingDistance(g.image.phash, img.phash) <= maxDistance);
+    if (group) group.duplicates.push(img);
+    else groups.push({ image: img, duplicates: [] });
+  }
+  return groups;
+}
+
@@ -0,0 +1,104 @@
+/**
+ * Storage for hosted listing photos. Two adapters behind one interface:
+ *
+ *   blob  — Vercel Blob (production); public URLs on the Blob CDN
+ *   local — files under IMAGE_LOCAL_DIR (dev), served by
+ *           GET /api/rentals/images/[...key]
+ *
+ * Keys are content-addressed (`ab/<sha256>/<width>.<ext>`), so a write
+ * never changes what an existing URL returns and both adapters can cache
+ * forever.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { put } from "@vercel/blob";
+import { IMAGE_LOCAL_DIR, IMAGE_STORAGE } from "./config";
+import type { ImageVariantFormat } from "./listingImages";
+
+/* ── Keys ────────────────────────────────────────────────── */
+
+const SHA_RE = /^[a-f0-9]{64}$/;
+const FILE_RE = /^\d{2,5}\.(webp|jpg)$/;
+
+/** Folder holding one image's variants. */
+export function imageStorageKey(sha256: string): string {
+  return `${sha256.slice(0, 2)}/${sha256}`;
+}
+
+export function variantKey(imageKey: string, width: number, format: ImageVariantFormat): string {
+  return `${imageKey}/${width}.${format}`;
+}
+
+/**
+ * True for a well-formed variant key — guards the local route against
+ * path tricks.
+ */
+export function isVariantKey(parts: string[]): boolean {
+  return (
+    parts.length === 3 &&
+    SHA_RE.test(parts[1]) &&
+    parts[0] === parts[1].slice(0, 2) &&
+    FILE_RE.test(parts[2])
+  );
+}
+
+/* ── Adapters ────────────────────────────────────────────── */
+
+export interface ImageStorage {
+  name: "blob" | "local";
+  /** Store one variant; returns its public URL */
+  put(key: string, buffer: Buffer, contentType: string): Promise<string>;
+}
+
+/** Prefix the Blob path so hosted photos sit apart from blog and profile images */
+const BLOB_PREFIX = "rental-images";
+
+export function blobImageStorage(): ImageStorage {
+  return {
+    name: "blob",
+    async put(key, buffer, contentType) {
+      const blob = await put(`${BLOB_PREFIX}/${key}`, buffer, {
+        access: "public",
+        contentType,
+        addRandomSuffix: false,
+        // Content-addressed — re-uploading the same key writes the same bytes
+        allowOverwrite: true,
+        cacheControlMaxAge: 365 * 24 * 60 * 60,
+      });
+      return blob.url;
+    },
+  };
+}
+
+export const LOCAL_IMAGE_ROUTE = "/api/rentals/images";
+
+export function localImageStorage(dir = IMAGE_LOCAL_DIR): ImageStorage {
+  return {
+    name: "local",
+    async put(key, buffer) {
+      const file = path.resolve(dir, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write-then-rename so a crash never leaves a truncated file behind
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, buffer);
+      await fs.rename(tmp, file);
+      return `${LOCAL_IMAGE_ROUTE}/${key}`;
+    },
+  };
+}
+
+/** Read a locally stored variant, or null if it doesn't exist. */
+export async function readLocalImage(parts: string[], dir = IMAGE_LOCAL_DIR): Promise<Buffer | null> {
+  if (!isVariantKey(parts)) return null;
+  try {
+    return await fs.readFile(path.resolve(dir, ...parts));
+  } catch {
+    return null;
+  }
+}
+
+/** The adapter selected by RENTALS_IMAGE_STORAGE (see ./config.ts). */
+export function getImageStorage(): ImageStorage {
+  return IMAGE_STORAGE === "blob" ? blobImageStorage() : localImageStorage();
+}
@@ -0,0 +1,206 @@
+/**
+ * Build Forecast Job
+ *
+ * Forecasts monthly median rent for every segment of the index and replaces
+ * the RentalForecast table. Runs after each index build.
+ *
+ * A segment is city × district × bedrooms × property type, where each of the
+ * last three may also be "all" — the same combinations the analytics
+ * dashboard filters on. Each segment's monthly series is the mean of the
+ * daily medians from RentalIndexDaily (as computeTrend / MedianTrendChart
+ * show them), with RentalIndexMonthly filling months whose daily rows are
+ * gone. The model itself is `forecastTrend` in ../ml.ts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { PropertyType, Prisma } from "@prisma/client";
+import { computeTrend, type IndexRow } from "@/lib/analytics/calculateStats";
+import { forecastTrend } from "../ml";
+import { forecastSegmentKey, type ForecastSegment } from "../forecast";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+export interface BuildForecastResult {
+  jobRunId: string;
+  segments: number;
+  forecastRows: number;
+}
+
+/**
+ * Rebuild forecasts for all segments.
+ */
+export async function buildForecastJob(
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<BuildForecastResult> {
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "BUILD_FORECAST",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    progress({ phase: "forecast", percent: 5, label: "Loading index history…" });
+
+    const [dailyRows, monthlyRows] = await Promise.all([
+      prisma.rentalIndexDaily.findMany({ orderBy: { date: "asc" } }),
+      prisma.rentalIndexMonthly.findMany({
+        select: { yearMonth: true, city: true, district: true, bedrooms: true, propertyType: true, listingCount: true, medianRent: true },
+      }),
+    ]);
+    log("info", `Loaded ${dailyRows.length} daily and ${monthlyRows.length} monthly index rows`);
+
+    // Fan each row out to every segment it belongs to
+    const segments = new Map<string, ForecastSegment & { daily: IndexRow[]; monthly: typeof monthlyRows }>();
+    const segmentFor = (row: { city: string; district: string | null; bedrooms: number | null; propertyType: PropertyType }) => {
+      const out: (ForecastSegment & { daily: IndexRow[]; monthly: typeof monthlyRows })[] = [];
+      for (const district of row.district ? [row.district, null] : [null]) {
+        for (const bedrooms of row.bedrooms !== null ? [row.bedrooms, null] : [null]) {
+          for (const propertyType of [row.propertyType, null]) {
+            const seg = { city: row.city, district, bedrooms, propertyType };
+            const key = forecastSegmentKey(seg);
+            let entry = segments.get(key);
+            if (!entry) {
+              entry = { ...seg, daily: [], monthly: [] };
+              segments.set(key, entry);
+            }
+            out.push(entry);
+          }
+        }
+      }
+      return out;
+    };
+
+    for (const r of dailyRows) {
+      for (const seg of segmentFor(r)) seg.daily.push(r);
+    }
+    for (const r of monthlyRows) {
+      for (const seg of segmentFor(r)) seg.monthly.push(r);
+    }
+
+    log("info", `Forecasting ${segments.size} segments…`);
+    const data: Prisma.RentalForecastCreateManyInput[] = [];
+    const generatedAt = new Date();
+    let forecasted = 0;
+    let done = 0;
+
+    for (const [key, seg] of segments) {
+      const series = monthlySeries(seg.daily, seg.monthly);
+      const forecast = forecastTrend(series);
+      done++;
+
+      if (forecast) {
+        forecasted++;
+        for (const p of forecast.points) {
+          data.push({
+            segmentKey: key,
+            city: seg.city,
+            district: seg.district,
+            bedrooms: seg.bedrooms,
+            propertyType: seg.propertyType,
+            targetMonth: p.month,
+            horizon: p.horizon,
+            predictedUsd: p.predicted,
+            lower80Usd: p.lower80,
+            upper80Usd: p.upper80,
+            lower95Usd: p.lower95,
+            upper95Usd: p.upper95,
+            slopePerMonth: forecast.slope,
+            seasonal: forecast.seasonal,
+            trainingMonths: forecast.trainingMonths,
+            generatedAt,
+          });
+        }
+        if (seg.district === null && seg.bedrooms === null && seg.propertyType === null) {
+          const next = forecast.points[0];
+          log("info", `  ${seg.city}: ${forecast.slope >= 0 ? "+" : ""}$${forecast.slope}/mo trend, ${next.month} ≈ $${Math.round(next.predicted)} (80%: $${Math.round(next.lower80)}–$${Math.round(next.upper80)})`);
+        }
+      }
+
+      if (done % 25 === 0 || done === segments.size) {
+        progress({
+          phase: "forecast",
+          percent: 10 + Math.round((done / segments.size) * 80),
+          label: `Forecast ${done}/${segments.size} segments…`,
+        });
+      }
+    }
+
+    // Replace the whole table so segments that lost their history disappear
+    await prisma.$transaction([
+      prisma.rentalForecast.deleteMany({}),
+      prisma.rentalForecast.createMany({ data }),
+    ]);
+
+    const durationMs = Date.now() - startTime;
+    log("info", `✔ Forecast done in ${(durationMs / 1000).toFixed(1)}s — ${forecasted}/${segments.size} segments had enough history, ${data.length} rows`);
+    progress({ phase: "forecast", percent: 100, label: `Done — ${forecasted} segments forecast` });
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: segments.size,
+        indexRowsCount: data.length,
+      },
+    });
+
+    return { jobRunId: jobRun.id, segments: forecasted, forecastRows: data.length };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Build forecast job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, segments: 0, forecastRows: 0 };
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+/**
+ * One point per month: the mean daily median, or the listing-weighted
+ * monthly median where no daily rows remain.
+ */
+function monthlySeries(
+  daily: IndexRow[],
+  monthly: { yearMonth: string; listingCount: number; medianRent: number | null }[],
+): { date: Date; price: number }[] {
+  const byMonth = new Map<string, number[]>();
+  for (const p of computeTrend(daily)) {
+    if (p.median === null) continue;
+    const ym = p.date.slice(0, 7);
+    if (!byMonth.has(ym)) byMonth.set(ym, []);
+    byMonth.get(ym)!.push(p.median);
+  }
+
+  const series = [...byMonth.entries()].map(([ym, values]) => ({
+    date: new Date(`${ym}-01T00:00:00Z`),
+    price: values.reduce((a, b) => a + b, 0) / values.length,
+  }));
+
+  const fallback = new Map<string, { sum: number; weight: number }>();
+  for (const m of monthly) {
+    if (byMonth.has(m.yearMonth) || m.medianRent === null || m.listingCount <= 0) continue;
+    const f = fallback.get(m.yearMonth) ?? { sum: 0, weight: 0 };
+    f.sum += m.medianRent * m.listingCount;
+    f.weight += m.listingCount;
+    fallback.set(m.yearMonth, f);
+  }
+  for (const [ym, f] of fallback) {
+    series.push({ date: new Date(`${ym}-01T00:00:00Z`), price: f.sum / f.weight });
+  }
+
+  return series;
+}
@@ -5,6 +5,9 @@
  * Computes median, mean, p25, p75 price statistics grouped by
  * city + district + bedrooms + propertyType.
  *
+ * Each physical unit counts once: snapshots are collapsed to the latest
+ * one per duplicate cluster (or per listing when it isn't clustered).
+ *
  * Default date: yesterday UTC.
  */
 
@@ -53,21 +56,33 @@ export async function buildDailyIndexJob(
     progress({ phase: "index", percent: 10, label: `Querying snapshots for ${dateStart.toISOString().slice(0, 10)}…` });
 
     // Fetch all snapshots for the target date
-    const snapshots = await prisma.rentalSnapshot.findMany({
+    const allSnapshots = await prisma.rentalSnapshot.findMany({
       where: {
         scrapedAt: { gte: dateStart, lt: dateEnd },
         priceMonthlyUsd: { not: null },
       },
       select: {
+        listingId: true,
         city: true,
         district: true,
         bedrooms: true,
         propertyType: true,
         priceMonthlyUsd: true,
+        listing: { select: { clusterId: true } },
       },
+      orderBy: { scrapedAt: "desc" },
+    });
+
+    // Keep the latest snapshot per unit so cross-posted duplicates count once
+    const unitsSeen = new Set<string>();
+    const snapshots = allSnapshots.filter((snap) => {
+      const unitKey = snap.listing.clusterId ?? snap.listingId;
+      if (unitsSeen.has(unitKey)) return false;
+      unitsSeen.add(unitKey);
+      return true;
     });
 
-    log("info", `Found ${snapshots.length} snapshots with price data for ${dateStart.toISOString().slice(0, 10)}`);
+    log("info", `Found ${allSnapshots.length} snapshots with price data for ${dateStart.toISOString().slice(0, 10)} (${snapshots.length} unique units)`);
     if (snapshots.length === 0) {
       log("warn", `No snapshots found for this date range — nothing to index`);
       progress({ phase: "index", percent: 100, label: "No snapshots to index" });
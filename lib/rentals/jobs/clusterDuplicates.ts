@@ -0,0 +1,240 @@
+/**
+ * Cluster Duplicates Job
+ *
+ * Groups active RentalListings that describe the same physical unit across
+ * sources (see ../cluster.ts) and writes `clusterId` / `isClusterPrimary`
+ * back to each listing. Search and the daily index then count every
+ * cluster once.
+ *
+ * Image hashes are only downloaded for pairs the text/geo signals can't
+ * decide on, capped per run, and cached in `imageHashesJson`.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { CLUSTER_MAX_IMAGE_HASHES, CLUSTER_IMAGES_PER_LISTING } from "../config";
+import {
+  type ClusterCandidate,
+  buildClusters,
+  candidatePairs,
+  needsImageCheck,
+  scoreDuplicatePair,
+} from "../cluster";
+import { computeImageHash } from "../imageHash";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+export interface ClusterDuplicatesOptions {
+  /** Max listings to fetch image hashes for this run */
+  maxImageHashes?: number;
+}
+
+export interface ClusterDuplicatesResult {
+  jobRunId: string;
+  listings: number;
+  clusters: number;
+  duplicates: number;
+  updated: number;
+}
+
+/**
+ * Recompute duplicate clusters over all active listings.
+ */
+export async function clusterDuplicatesJob(
+  options?: ClusterDuplicatesOptions,
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<ClusterDuplicatesResult> {
+  const maxImageHashes = options?.maxImageHashes ?? CLUSTER_MAX_IMAGE_HASHES;
+
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "CLUSTER_DUPLICATES",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    progress({ phase: "cluster", percent: 5, label: "Loading active listings…" });
+
+    const rows = await prisma.rentalListing.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        source: true,
+        title: true,
+        description: true,
+        city: true,
+        district: true,
+        propertyType: true,
+        bedrooms: true,
+        sizeSqm: true,
+        priceMonthlyUsd: true,
+        latitude: true,
+        longitude: true,
+        imageUrlsJson: true,
+        imageHashesJson: true,
+        firstSeenAt: true,
+        clusterId: true,
+        isClusterPrimary: true,
+      },
+    });
+    log("info", `Loaded ${rows.length} active listings`);
+
+    const imageUrls = new Map<string, string[]>();
+    const hashAttempted = new Set(rows.filter((r) => r.imageHashesJson !== null).map((r) => r.id));
+    const candidates: ClusterCandidate[] = rows.map((r) => {
+      const urls = parseJsonArray(r.imageUrlsJson);
+      imageUrls.set(r.id, urls);
+      return {
+        id: r.id,
+        source: r.source,
+        title: r.title,
+        city: r.city,
+        district: r.district,
+        propertyType: r.propertyType,
+        bedrooms: r.bedrooms,
+        sizeSqm: r.sizeSqm,
+        priceMonthlyUsd: r.priceMonthlyUsd,
+        latitude: r.latitude,
+        longitude: r.longitude,
+        imageHashes: parseJsonArray(r.imageHashesJson),
+        imageCount: urls.length,
+        hasDescription: !!r.description,
+        firstSeenAt: r.firstSeenAt,
+      };
+    });
+
+    const pairs = candidatePairs(candidates);
+    log("info", `Scoring ${pairs.length} cross-source candidate pairs`);
+    progress({ phase: "cluster", percent: 20, label: `Scoring ${pairs.length} pairs…` });
+
+    // ── Fill in image hashes for undecided pairs ──
+    const toHash = new Set<ClusterCandidate>();
+    for (const [a, b] of pairs) {
+      if (toHash.size >= maxImageHashes) break;
+      if (a.imageHashes.length > 0 && b.imageHashes.length > 0) continue;
+      if (!needsImageCheck(a, b)) continue;
+      for (const l of [a, b]) {
+        if (!hashAttempted.has(l.id) && l.imageCount > 0) toHash.add(l);
+      }
+    }
+
+    if (toHash.size > 0) {
+      log("info", `Hashing images for ${toHash.size} listings`);
+      let done = 0;
+      for (const l of toHash) {
+        const hashes: string[] = [];
+        for (const url of (imageUrls.get(l.id) ?? []).slice(0, CLUSTER_IMAGES_PER_LISTING)) {
+          const hash = await computeImageHash(url);
+          if (hash) hashes.push(hash);
+        }
+        l.imageHashes = hashes;
+        await prisma.rentalListing.update({
+          where: { id: l.id },
+          data: { imageHashesJson: JSON.stringify(hashes) },
+        });
+        done++;
+        if (done % 10 === 0 || done === toHash.size) {
+          progress({
+            phase: "cluster",
+            percent: 20 + Math.round((done / toHash.size) * 50),
+            label: `Hashed images for ${done}/${toHash.size} listings…`,
+          });
+        }
+      }
+    }
+
+    // ── Score and cluster ──
+    const duplicatePairs: [string, string][] = [];
+    for (const [a, b] of pairs) {
+      const match = scoreDuplicatePair(a, b);
+      if (match.isDuplicate) {
+        duplicatePairs.push([a.id, b.id]);
+        log("debug", `Duplicate (${match.score}): ${a.source} "${a.title.slice(0, 50)}" ↔ ${b.source} "${b.title.slice(0, 50)}"`);
+      }
+    }
+
+    const assignments = buildClusters(candidates, duplicatePairs);
+    progress({ phase: "cluster", percent: 80, label: "Saving clusters…" });
+
+    // ── Persist changes only ──
+    let updated = 0;
+    const clusterIds = new Set<string>();
+    let duplicates = 0;
+    for (const row of rows) {
+      const next = assignments.get(row.id);
+      if (!next) continue;
+      if (next.clusterId) {
+        clusterIds.add(next.clusterId);
+        if (!next.isClusterPrimary) duplicates++;
+      }
+      if (row.clusterId === next.clusterId && row.isClusterPrimary === next.isClusterPrimary) continue;
+
+      await prisma.rentalListing.update({
+        where: { id: row.id },
+        data: { clusterId: next.clusterId, isClusterPrimary: next.isClusterPrimary },
+      });
+      updated++;
+    }
+
+    // Inactive listings must not hide anyone — release them from clusters
+    const released = await prisma.rentalListing.updateMany({
+      where: { isActive: false, OR: [{ clusterId: { not: null } }, { isClusterPrimary: false }] },
+      data: { clusterId: null, isClusterPrimary: true },
+    });
+    updated += released.count;
+
+    const durationMs = Date.now() - startTime;
+    log(
+      "info",
+      `✔ Clustering done in ${(durationMs / 1000).toFixed(1)}s — ${clusterIds.size} clusters, ${duplicates} duplicates hidden, ${updated} listings updated`
+    );
+    progress({ phase: "cluster", percent: 100, label: `Done — ${clusterIds.size} clusters` });
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: rows.length,
+        updatedCount: updated,
+      },
+    });
+
+    return {
+      jobRunId: jobRun.id,
+      listings: rows.length,
+      clusters: clusterIds.size,
+      duplicates,
+      updated,
+    };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Cluster duplicates job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, listings: 0, clusters: 0, duplicates: 0, updated: 0 };
+  }
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function parseJsonArray(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
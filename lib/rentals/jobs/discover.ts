@@ -2,20 +2,24 @@
  * Discover Listings Job
  *
  * Fetches category index pages from the given source adapter,
- * extracts listing URLs, and enqueues them in ScrapeQueue.
+ * extracts listing URLs, and enqueues them in ScrapeQueue. URLs that
+ * robots.txt disallows are dropped before enqueueing. Re-discovered URLs
+ * go back to PENDING, except DEAD items (an admin requeues those) and
+ * items a process-queue run currently holds. An adapter that finds no
+ * URLs at all (while its host is up) raises a scraper alert.
  * Logs a JobRun row with result counts.
  */
 
 import { prisma } from "@/lib/prisma";
 import { RentalSource, QueueStatus } from "@prisma/client";
-import { isSourceEnabled, DISCOVER_MAX_URLS } from "../config";
-import { discoverKhmer24 } from "../sources/khmer24";
-import { discoverRealestateKh } from "../sources/realestate-kh";
-import { discoverIpsCambodia } from "../sources/ips-cambodia";
-import { discoverCamRealty } from "../sources/camrealty";
-import { discoverLongTermLettings } from "../sources/longtermlettings";
-import { discoverFazWaz } from "../sources/fazwaz";
-import { discoverHomeToGo } from "../sources/hometogo";
+import { DISCOVER_MAX_URLS } from "../config";
+import { getSourceAdapter, isSourceEnabled } from "../sources/registry";
+import { filterCrawlable } from "../http";
+import { hostOf, hostPausedUntil } from "../hostHealth";
+import { loadHostHealth, saveHostHealth } from "../hostHealthStore";
+import { isLeaseExpired } from "../queueLease";
+import { zeroDiscoverAlert } from "../scraperHealth";
+import { raiseScraperAlerts } from "../scraperHealthStore";
 import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
 
 export interface DiscoverOptions {
@@ -27,6 +31,8 @@ export interface DiscoverResult {
   discovered: number;
   queued: number;
   skippedDuplicate: number;
+  /** Disallowed by robots.txt */
+  policySkipped: number;
 }
 
 /**
@@ -64,46 +70,47 @@ export async function discoverListingsJob(
           errorMessage: `Source ${source} is disabled`,
         },
       });
-      return { jobRunId: jobRun.id, discovered: 0, queued: 0, skippedDuplicate: 0 };
+      return { jobRunId: jobRun.id, discovered: 0, queued: 0, skippedDuplicate: 0, policySkipped: 0 };
     }
 
-    // Run the appropriate adapter
+    // A tripped circuit breaker pauses the source until its cooldown ends
+    await loadHostHealth();
+    const adapter = getSourceAdapter(source);
+    const host = hostOf(adapter.baseUrl);
+    const pausedUntil = host ? hostPausedUntil(host) : null;
+    if (pausedUntil) {
+      log("warn", `Source ${source} is paused — ${host} circuit open until ${pausedUntil.toISOString()}`);
+      await prisma.jobRun.update({
+        where: { id: jobRun.id },
+        data: {
+          status: "FAILED",
+          endedAt: new Date(),
+          durationMs: 0,
+          errorMessage: `Paused: ${host} circuit open until ${pausedUntil.toISOString()}`,
+        },
+      });
+      return { jobRunId: jobRun.id, discovered: 0, queued: 0, skippedDuplicate: 0, policySkipped: 0 };
+    }
+
+    // Run the registered adapter
     progress({ phase: "discover", percent: 5, label: `Connecting to ${source}…` });
     log("info", `Running ${source} adapter — crawling category pages for listing URLs…`);
     const startTime = Date.now();
-    let discovered;
-    switch (source) {
-      case "KHMER24":
-        discovered = await discoverKhmer24(log);
-        break;
-      case "REALESTATE_KH":
-        discovered = await discoverRealestateKh(log);
-        break;
-      case "IPS_CAMBODIA":
-        discovered = await discoverIpsCambodia(log);
-        break;
-      case "CAMREALTY":
-        discovered = await discoverCamRealty(log);
-        break;
-      case "LONGTERMLETTINGS":
-        discovered = await discoverLongTermLettings(log);
-        break;
-      case "FAZWAZ":
-        discovered = await discoverFazWaz(log);
-        break;
-      case "HOMETOGO":
-        discovered = await discoverHomeToGo(log);
-        break;
-      default:
-        throw new Error(`Unknown source: ${source}`);
-    }
+    const discovered = await adapter.discover(log);
     progress({ phase: "discover", percent: 50, label: `Found ${discovered.length} listing URLs` });
     log("info", `Adapter returned ${discovered.length} listing URLs from category pages`);
 
+    // Drop URLs robots.txt disallows before they reach the queue
+    const { allowed, blocked } = await filterCrawlable(discovered);
+    if (blocked.length > 0) {
+      log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+      for (const item of blocked.slice(0, 5)) log("debug", `⛔ Disallowed: ${item.url}`);
+    }
+
     // Cap results
-    const capped = discovered.slice(0, maxUrls);
-    if (capped.length < discovered.length) {
-      log("info", `Capped to ${maxUrls} URLs (${discovered.length} found)`);
+    const capped = allowed.slice(0, maxUrls);
+    if (capped.length < allowed.length) {
+      log("info", `Capped to ${maxUrls} URLs (${allowed.length} allowed)`);
     }
 
     // Enqueue URLs (upsert — re-discovered URLs are reset to PENDING for re-scraping)
@@ -111,6 +118,7 @@ export async function discoverListingsJob(
     let queued = 0;
     let requeuedExisting = 0;
     let skippedDuplicate = 0;
+    let skippedHeld = 0;
 
     for (let i = 0; i < capped.length; i++) {
       const item = capped[i];
@@ -119,9 +127,16 @@ export async function discoverListingsJob(
         // Check if already in queue so we can count re-queued vs new
         const existing = await prisma.scrapeQueue.findUnique({
           where: { source_canonicalUrl: { source, canonicalUrl: item.url } },
-          select: { status: true },
+          select: { status: true, leaseExpiresAt: true, updatedAt: true },
         });
 
+        // Dead items stay parked, and leased ones are mid-scrape — leave both alone
+        if (existing && (existing.status === "DEAD" || (existing.status === "PROCESSING" && !isLeaseExpired(existing)))) {
+          skippedHeld++;
+          log("debug", `↷ Left ${existing.status.toLowerCase()} item alone: ${item.url}`);
+          continue;
+        }
+
         await prisma.scrapeQueue.upsert({
           where: {
             source_canonicalUrl: {
@@ -162,6 +177,9 @@ export async function discoverListingsJob(
 
     progress({ phase: "discover", percent: 100, label: `Done — ${queued} queued (${requeuedExisting} re-queued), ${skippedDuplicate} duplicates` });
     log("info", `Enqueue complete: ${queued} URLs queued (${requeuedExisting} re-queued for snapshots), ${skippedDuplicate} duplicates skipped`);
+    if (skippedHeld > 0) {
+      log("info", `${skippedHeld} URLs left as they were — dead or currently being processed`);
+    }
     log("info", `✔ Discover finished in ${(durationMs / 1000).toFixed(1)}s — ${capped.length} found, ${queued} queued`);
 
     // Update JobRun
@@ -173,14 +191,24 @@ export async function discoverListingsJob(
         durationMs,
         discoveredCount: capped.length,
         processedCount: queued,
+        policySkippedCount: blocked.length,
       },
     });
 
+    // Nothing at all usually means the category pages changed; if the
+    // host's circuit opened mid-run, the breaker already explains it
+    if (discovered.length === 0 && !(host && hostPausedUntil(host))) {
+      await raiseScraperAlerts([zeroDiscoverAlert(source)], jobRun.id, log).catch((err) =>
+        log("warn", `Could not raise scraper alert: ${err instanceof Error ? err.message : err}`),
+      );
+    }
+
     return {
       jobRunId: jobRun.id,
       discovered: capped.length,
       queued,
       skippedDuplicate,
+      policySkipped: blocked.length,
     };
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
@@ -194,6 +222,9 @@ export async function discoverListingsJob(
         errorMessage: msg.slice(0, 2000),
       },
     });
-    return { jobRunId: jobRun.id, discovered: 0, queued: 0, skippedDuplicate: 0 };
+    return { jobRunId: jobRun.id, discovered: 0, queued: 0, skippedDuplicate: 0, policySkipped: 0 };
+  } finally {
+    // Persist pacing / circuit state so the next run starts where this one left off
+    await saveHostHealth().catch((err) => log("warn", `Could not save host health: ${err instanceof Error ? err.message : err}`));
   }
 }
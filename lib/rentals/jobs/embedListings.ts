@@ -0,0 +1,151 @@
+/**
+ * Embed Listings Job
+ *
+ * Keeps `RentalListing.embeddingHash` pointing at a RentalEmbedding for the
+ * listing's current text (see ../ml/embeddings.ts). Vectors are cached by
+ * content hash, so unchanged listings and cross-posted copies with the same
+ * text are never embedded twice. Runs after each index build.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { EMBEDDINGS_ENABLED } from "../config";
+import { computeEmbeddings } from "../ml";
+import { embeddingContentHash, getEmbeddingProvider, listingEmbeddingText } from "../ml/embeddings";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+export interface EmbedListingsResult {
+  jobRunId: string;
+  /** Listings whose embedding changed */
+  updated: number;
+  /** New vectors computed (the rest came from the cache) */
+  embedded: number;
+}
+
+/** DB round-trips are chunked to keep `IN (…)` lists and transactions small */
+const CHUNK = 200;
+
+/**
+ * Embed all active listings whose text changed since their last embedding.
+ */
+export async function embedListingsJob(
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<EmbedListingsResult> {
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "EMBED_LISTINGS",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    const provider = getEmbeddingProvider(EMBEDDINGS_ENABLED);
+    log("info", `Embedding provider: ${provider.id} (${provider.dims} dims)`);
+
+    const listings = await prisma.rentalListing.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        title: true,
+        titleRewritten: true,
+        description: true,
+        descriptionRewritten: true,
+        amenitiesJson: true,
+        propertyType: true,
+        embeddingHash: true,
+      },
+    });
+
+    const stale: { id: string; hash: string; text: string }[] = [];
+    for (const l of listings) {
+      const text = listingEmbeddingText(l);
+      const hash = embeddingContentHash(provider.id, text);
+      if (hash !== l.embeddingHash) stale.push({ id: l.id, hash, text });
+    }
+    log("info", `${listings.length} active listings, ${stale.length} need a new embedding`);
+    progress({ phase: "embed", percent: 10, label: `${stale.length} listings to embed…` });
+
+    // Which hashes are already cached?
+    const uniqueHashes = [...new Set(stale.map((s) => s.hash))];
+    const cached = new Set<string>();
+    for (let i = 0; i < uniqueHashes.length; i += CHUNK) {
+      const rows = await prisma.rentalEmbedding.findMany({
+        where: { contentHash: { in: uniqueHashes.slice(i, i + CHUNK) } },
+        select: { contentHash: true },
+      });
+      for (const r of rows) cached.add(r.contentHash);
+    }
+
+    const toEmbed = new Map<string, string>();
+    for (const s of stale) {
+      if (!cached.has(s.hash) && !toEmbed.has(s.hash)) toEmbed.set(s.hash, s.text);
+    }
+
+    const entries = [...toEmbed.entries()];
+    for (let i = 0; i < entries.length; i += CHUNK) {
+      const chunk = entries.slice(i, i + CHUNK);
+      const vectors = await computeEmbeddings(chunk.map(([, text]) => text), provider);
+      await prisma.rentalEmbedding.createMany({
+        data: chunk.map(([hash], j) => ({
+          contentHash: hash,
+          provider: provider.id,
+          dims: provider.dims,
+          vectorJson: JSON.stringify(vectors[j]),
+        })),
+        skipDuplicates: true,
+      });
+      progress({
+        phase: "embed",
+        percent: 10 + Math.round(((i + chunk.length) / entries.length) * 60),
+        label: `Embedded ${i + chunk.length}/${entries.length}…`,
+      });
+    }
+    log("info", `Computed ${entries.length} new vectors, ${cached.size} reused from cache`);
+
+    for (let i = 0; i < stale.length; i += CHUNK) {
+      await prisma.$transaction(
+        stale.slice(i, i + CHUNK).map((s) =>
+          prisma.rentalListing.update({ where: { id: s.id }, data: { embeddingHash: s.hash } }),
+        ),
+      );
+      progress({
+        phase: "embed",
+        percent: 70 + Math.round((Math.min(i + CHUNK, stale.length) / stale.length) * 30),
+        label: `Linked ${Math.min(i + CHUNK, stale.length)}/${stale.length} listings…`,
+      });
+    }
+
+    const durationMs = Date.now() - startTime;
+    log("info", `✔ Embeddings done in ${(durationMs / 1000).toFixed(1)}s — ${stale.length} listings updated`);
+    progress({ phase: "embed", percent: 100, label: `Done — ${stale.length} listings embedded` });
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: listings.length,
+        updatedCount: stale.length,
+      },
+    });
+
+    return { jobRunId: jobRun.id, updated: stale.length, embedded: entries.length };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Embed listings job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, updated: 0, embedded: 0 };
+  }
+}
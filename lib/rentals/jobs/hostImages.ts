@@ -0,0 +1,252 @@
+/**
+ * Host Listing Images Job
+ *
+ * Downloads the photos of listings that still hotlink them, and stores
+ * resized WebP / JPEG variants in our own image storage (../imageStorage.ts)
+ * so galleries keep working after the source takes a listing down.
+ *
+ * Photos are deduplicated twice: within a listing, near-identical shots
+ * are hosted once (../imagePipeline.ts); across listings, a photo whose
+ * bytes match an existing `RentalImage` reuses it instead of storing
+ * another copy. The dHashes also seed `imageHashesJson`, so duplicate
+ * clustering doesn't have to download them again.
+ *
+ * Listings are re-hosted when their photos change (processQueue clears
+ * `hostedImagesJson`). Photos that couldn't be fetched are recorded in
+ * `imagesFailedJson` and retried after IMAGE_HOST_RETRY_MS.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { RentalImage } from "@prisma/client";
+import {
+  CLUSTER_IMAGES_PER_LISTING,
+  IMAGE_HOST_MAX_LISTINGS,
+  IMAGE_HOST_MAX_PER_LISTING,
+  IMAGE_HOST_RETRY_MS,
+} from "../config";
+import { downloadImage } from "../imageHash";
+import { fingerprintImage, groupNearDuplicates, processImage } from "../imagePipeline";
+import { getImageStorage, imageStorageKey, variantKey, type ImageStorage } from "../imageStorage";
+import { parseHostedImages, parseSourceUrls, type HostedImageRef } from "../listingImages";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+export interface HostImagesOptions {
+  /** Max listings to process this run */
+  maxListings?: number;
+}
+
+export interface HostImagesResult {
+  jobRunId: string;
+  /** Listings processed */
+  listings: number;
+  /** Listings now served from hosted photos */
+  hosted: number;
+  /** New images stored */
+  stored: number;
+  /** Photos matched to an already stored image */
+  reused: number;
+  /** Photos that couldn't be downloaded or decoded */
+  failed: number;
+}
+
+interface DownloadedPhoto {
+  src: string;
+  buffer: Buffer;
+  sha256: string;
+  phash: string;
+}
+
+/**
+ * Find an already stored copy of a photo, or store this one. Only the exact
+ * same file is reused: a dHash match from another listing may just be a
+ * similar room.
+ */
+async function storeImage(storage: ImageStorage, photo: DownloadedPhoto): Promise<{ image: RentalImage; reused: boolean } | null> {
+  const existing = await prisma.rentalImage.findUnique({ where: { sha256: photo.sha256 } });
+  if (existing) return { image: existing, reused: true };
+
+  const processed = await processImage(photo.buffer);
+  if (!processed) return null;
+
+  const key = imageStorageKey(processed.sha256);
+  let baseUrl = "";
+  for (const v of processed.variants) {
+    const url = await storage.put(variantKey(key, v.width, v.format), v.buffer, v.contentType);
+    baseUrl = url.slice(0, url.lastIndexOf("/"));
+  }
+  const widths = [...new Set(processed.variants.map((v) => v.width))];
+
+  // Upsert — another run may have stored the same bytes in the meantime
+  const image = await prisma.rentalImage.upsert({
+    where: { sha256: processed.sha256 },
+    update: {},
+    create: {
+      sha256: processed.sha256,
+      phash: processed.phash,
+      width: processed.width,
+      height: processed.height,
+      baseUrl,
+      widthsJson: JSON.stringify(widths),
+      bytes: processed.variants.reduce((sum, v) => sum + v.buffer.length, 0),
+      sourceUrl: photo.src.slice(0, 2000),
+    },
+  });
+  return { image, reused: false };
+}
+
+/**
+ * Host the photos of listings that don't have hosted photos yet.
+ */
+export async function hostListingImagesJob(
+  options?: HostImagesOptions,
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<HostImagesResult> {
+  const maxListings = options?.maxListings ?? IMAGE_HOST_MAX_LISTINGS;
+  const result = { listings: 0, hosted: 0, stored: 0, reused: 0, failed: 0 };
+
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "HOST_IMAGES",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    const storage = getImageStorage();
+    progress({ phase: "images", percent: 5, label: "Finding listings with hotlinked photos…" });
+
+    const listings = await prisma.rentalListing.findMany({
+      where: {
+        isActive: true,
+        imageUrlsJson: { not: null },
+        // Not hosted yet, or some photos failed last time
+        OR: [{ hostedImagesJson: null }, { imagesFailedJson: { not: null } }],
+        AND: { OR: [{ imagesHostedAt: null }, { imagesHostedAt: { lt: new Date(Date.now() - IMAGE_HOST_RETRY_MS) } }] },
+      },
+      orderBy: { firstSeenAt: "desc" },
+      take: maxListings,
+      select: { id: true, imageUrlsJson: true, imageHashesJson: true, hostedImagesJson: true },
+    });
+    log("info", `Hosting photos for ${listings.length} listings (${storage.name} storage)`);
+
+    for (const [i, listing] of listings.entries()) {
+      const allSources = parseSourceUrls(listing.imageUrlsJson);
+      const refs = parseHostedImages(listing.hostedImagesJson);
+      const done = new Set(refs.flatMap((r) => [r.src, ...(r.duplicates ?? [])]));
+      const sources = allSources.slice(0, IMAGE_HOST_MAX_PER_LISTING).filter((src) => !done.has(src));
+
+      const failed: string[] = [];
+      const downloaded: DownloadedPhoto[] = [];
+      for (const src of sources) {
+        const buffer = await downloadImage(src);
+        const print = buffer ? await fingerprintImage(buffer) : null;
+        if (!buffer || !print) {
+          failed.push(src);
+          result.failed++;
+          continue;
+        }
+        downloaded.push({ src, buffer, ...print });
+      }
+
+      // Photos hosted by an earlier run come first, so a new near-duplicate joins them
+      const hostedPrints =
+        refs.length > 0
+          ? await prisma.rentalImage.findMany({ where: { id: { in: refs.map((r) => r.id) } }, select: { id: true, phash: true } })
+          : [];
+      const phashes = new Map(hostedPrints.map((p) => [p.id, p.phash]));
+      const candidates: { phash: string; ref?: HostedImageRef; photo?: DownloadedPhoto }[] = [
+        ...refs.flatMap((ref) => (phashes.has(ref.id) ? [{ phash: phashes.get(ref.id)!, ref }] : [])),
+        ...downloaded.map((photo) => ({ phash: photo.phash, photo })),
+      ];
+
+      for (const { image, duplicates } of groupNearDuplicates(candidates)) {
+        const duplicateSrcs = duplicates.flatMap((d) => (d.photo ? [d.photo.src] : []));
+        let ref = image.ref;
+        if (!ref) {
+          const photo = image.photo!;
+          const stored = await storeImage(storage, photo);
+          if (!stored) {
+            failed.push(photo.src, ...duplicateSrcs);
+            result.failed++;
+            continue;
+          }
+          if (stored.reused) result.reused++;
+          else result.stored++;
+          ref = {
+            src: photo.src,
+            id: stored.image.id,
+            base: stored.image.baseUrl,
+            widths: JSON.parse(stored.image.widthsJson) as number[],
+          };
+          refs.push(ref);
+        }
+        if (duplicateSrcs.length > 0) ref.duplicates = [...(ref.duplicates ?? []), ...duplicateSrcs];
+      }
+
+      const order = new Map(allSources.map((src, n) => [src, n]));
+      refs.sort((a, b) => (order.get(a.src) ?? Infinity) - (order.get(b.src) ?? Infinity));
+
+      await prisma.rentalListing.update({
+        where: { id: listing.id },
+        data: {
+          hostedImagesJson: refs.length > 0 ? JSON.stringify(refs) : null,
+          // Retried after IMAGE_HOST_RETRY_MS; until then they stay hotlinked
+          imagesFailedJson: failed.length > 0 ? JSON.stringify(failed) : null,
+          imagesHostedAt: new Date(),
+          ...(listing.imageHashesJson === null && downloaded.length > 0
+            ? { imageHashesJson: JSON.stringify(downloaded.slice(0, CLUSTER_IMAGES_PER_LISTING).map((d) => d.phash)) }
+            : {}),
+        },
+      });
+      result.listings++;
+      if (refs.length > 0) result.hosted++;
+      if (failed.length > 0) {
+        log("warn", `${failed.length}/${sources.length} photos of listing ${listing.id} couldn't be hosted, retrying later`);
+      }
+
+      progress({
+        phase: "images",
+        percent: 5 + Math.round(((i + 1) / listings.length) * 95),
+        label: `Hosted photos for ${i + 1}/${listings.length} listings…`,
+      });
+    }
+
+    const durationMs = Date.now() - startTime;
+    log(
+      "info",
+      `✔ Image hosting done in ${(durationMs / 1000).toFixed(1)}s — ${result.hosted} listings, ${result.stored} new images, ${result.reused} reused, ${result.failed} failed`,
+    );
+    progress({ phase: "images", percent: 100, label: `Done — ${result.stored} new images` });
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: result.listings,
+        insertedCount: result.stored,
+        updatedCount: result.hosted,
+      },
+    });
+
+    return { jobRunId: jobRun.id, ...result };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Host images job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, ...result };
+  }
+}
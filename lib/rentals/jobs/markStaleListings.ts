@@ -10,10 +10,12 @@
  *
  * Historical data (RentalSnapshot rows) is preserved — only the
  * isActive flag flips. Inactive listings still contribute to the
- * analytics dashboard's historical trend data.
+ * analytics dashboard's historical trend data. Clusters that lose their
+ * primary get a new one, so their still-active duplicates stay listed.
  */
 
 import { prisma } from "@/lib/prisma";
+import { promoteClusterPrimaries } from "../clusterStore";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /** Default: listings not seen in 7 days are considered stale. */
@@ -58,6 +60,8 @@ export async function markStaleListingsJob(
 
   if (result.count > 0) {
     log("info", `⊘ Deactivated ${result.count} stale listings (not seen since ${cutoff.toISOString().slice(0, 10)})`);
+    const promoted = await promoteClusterPrimaries();
+    if (promoted > 0) log("info", `  Promoted ${promoted} duplicates to cluster primary`);
   } else {
     log("info", `✓ No stale listings found — all active listings seen within ${staleDays} days`);
   }
@@ -0,0 +1,94 @@
+/**
+ * Market Report Job
+ *
+ * Generates last month's market report for each city in REPORT_CITIES
+ * (lib/analytics/monthlyReport.ts) and stores it for download from the
+ * analytics dashboard. With REPORT_AUTO_EMAIL on, each new report is also
+ * queued as an email campaign to marketing subscribers. Meant for a
+ * monthly schedule early in the month; re-running regenerates the same
+ * month without emailing it twice, and leaves reports already emailed as
+ * they were sent.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { previousMonth } from "@/lib/analytics/monthlyReport";
+import { REPORT_AUTO_EMAIL, REPORT_CITIES } from "../config";
+import { emailMonthlyReport, generateMonthlyReport } from "../monthlyReportStore";
+import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
+
+export interface MarketReportJobResult {
+  jobRunId: string;
+  yearMonth: string;
+  reports: number;
+  emailed: number;
+}
+
+export async function marketReportJob(
+  yearMonth: string = previousMonth(),
+  log: PipelineLogFn = noopLogger
+): Promise<MarketReportJobResult> {
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "MARKET_REPORT",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    let reports = 0;
+    let emailed = 0;
+
+    for (const city of REPORT_CITIES) {
+      const report = await generateMonthlyReport(city, yearMonth);
+      if (!report) {
+        log("warn", `${city}: no index data for ${yearMonth}, skipped`);
+        continue;
+      }
+      if (report.published) {
+        log("info", `${city}: ${yearMonth} report already emailed, kept as sent`);
+        continue;
+      }
+      reports++;
+      log("info", `${city}: ${yearMonth} report generated`);
+
+      if (REPORT_AUTO_EMAIL) {
+        const email = await emailMonthlyReport(report.id, { schedule: true });
+        if (email?.created) {
+          emailed++;
+          log("info", `${city}: queued campaign ${email.campaignId}`);
+        }
+      }
+    }
+
+    const durationMs = Date.now() - startTime;
+    log("info", `✔ Market reports done in ${(durationMs / 1000).toFixed(1)}s — ${reports}/${REPORT_CITIES.length} cities, ${emailed} emailed`);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: reports,
+      },
+    });
+
+    return { jobRunId: jobRun.id, yearMonth, reports, emailed };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Market report job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, yearMonth, reports: 0, emailed: 0 };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Notify Saved Searches Job
+ *
+ * Runs after each processQueueJob. For every saved search with email alerts
+ * on whose last digest is at least SAVED_SEARCH_DIGEST_HOURS old, finds
+ * listings that are new or had a price cut since then (see ../savedSearch.ts)
+ * and emails the owner one digest per search via Resend.
+ *
+ * Searches that aren't due yet are skipped without touching `lastDigestAt`,
+ * so matches keep accumulating until the next digest.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { getResendClient } from "@/lib/email/resendClient";
+import { siteConfig } from "@/lib/site";
+import { SAVED_SEARCH_DIGEST_HOURS, SAVED_SEARCH_DIGEST_MAX_LISTINGS } from "../config";
+import { newMatchesWhere, parseSavedParams, savedSearchHref } from "../savedSearch";
+import { applyGeoFilter } from "../geoFilter";
+import { applyTextFilter } from "../textSearchStore";
+import { applyCommuteFilter } from "../commuteStore";
+import { renderSavedSearchDigest } from "../savedSearchDigest";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+const FROM_ADDRESS = "Globescraper <noreply@globescraper.com>";
+
+export interface NotifySavedSearchesOptions {
+  /** Override the digest interval (hours) — 0 sends to every search with matches */
+  minHours?: number;
+}
+
+export interface NotifySavedSearchesResult {
+  jobRunId: string;
+  checked: number;
+  emailed: number;
+  failed: number;
+}
+
+/**
+ * Send new-match digests for all due saved searches.
+ */
+export async function notifySavedSearchesJob(
+  options?: NotifySavedSearchesOptions,
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<NotifySavedSearchesResult> {
+  const minHours = options?.minHours ?? SAVED_SEARCH_DIGEST_HOURS;
+
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "NOTIFY_SAVED_SEARCHES",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    const now = new Date();
+    const dueBefore = new Date(now.getTime() - minHours * 3600_000);
+
+    const searches = await prisma.savedSearch.findMany({
+      where: {
+        emailAlerts: true,
+        OR: [
+          { lastDigestAt: { lte: dueBefore } },
+          { lastDigestAt: null, createdAt: { lte: dueBefore } },
+        ],
+        user: { status: "ACTIVE", disabled: false, deletedAt: null, emailVerified: { not: null } },
+      },
+      include: { user: { select: { id: true, email: true } } },
+    });
+    log("info", `${searches.length} saved searches due for a digest`);
+
+    let emailed = 0;
+    let failed = 0;
+    let done = 0;
+    const resend = searches.length > 0 ? getResendClient() : null;
+
+    for (const search of searches) {
+      const since = search.lastDigestAt ?? search.createdAt;
+      const params = parseSavedParams(search.paramsJson);
+      let where = await applyGeoFilter(newMatchesWhere(params, since), params);
+      where = await applyCommuteFilter(where, params);
+      where = await applyTextFilter(where, params);
+
+      const [total, listings] = await Promise.all([
+        prisma.rentalListing.count({ where }),
+        prisma.rentalListing.findMany({
+          where,
+          select: {
+            id: true,
+            title: true,
+            titleRewritten: true,
+            district: true,
+            city: true,
+            bedrooms: true,
+            priceMonthlyUsd: true,
+            priceDropPct: true,
+            firstSeenAt: true,
+          },
+          orderBy: { firstSeenAt: "desc" },
+          take: SAVED_SEARCH_DIGEST_MAX_LISTINGS,
+        }),
+      ]);
+
+      if (total > 0) {
+        const digest = renderSavedSearchDigest({
+          searchName: search.name,
+          listings,
+          total,
+          since,
+          searchUrl: `${siteConfig.url}${savedSearchHref(params, { sort: "newest" })}`,
+          unsubscribeUrl: `${siteConfig.url}/unsubscribe/saved-search/${search.unsubscribeToken}`,
+          manageUrl: `${siteConfig.url}/dashboard/saved-searches`,
+        });
+
+        const emailLog = await prisma.emailLog.create({
+          data: {
+            userId: search.user.id,
+            type: "TRANSACTIONAL",
+            subject: digest.subject.slice(0, 500),
+            status: "PENDING",
+          },
+        });
+
+        try {
+          const result = await resend!.emails.send({
+            from: FROM_ADDRESS,
+            to: [search.user.email],
+            subject: digest.subject,
+            html: digest.html,
+            text: digest.text,
+            headers: {
+              "List-Unsubscribe": `<${siteConfig.url}/unsubscribe/saved-search/${search.unsubscribeToken}>`,
+            },
+          });
+          await prisma.emailLog.update({
+            where: { id: emailLog.id },
+            data: { status: "SENT", providerMessageId: result.data?.id || null },
+          });
+          emailed++;
+          log("info", `✉ Digest sent for "${search.name}" — ${total} matches`);
+        } catch (err) {
+          const errMsg = err instanceof Error ? err.message : "Send failed";
+          await prisma.emailLog.update({
+            where: { id: emailLog.id },
+            data: { status: "FAILED", error: errMsg },
+          });
+          failed++;
+          log("warn", `✗ Digest for "${search.name}" failed: ${errMsg}`);
+          // Leave lastDigestAt alone so the matches go out next run
+          continue;
+        }
+      }
+
+      await prisma.savedSearch.update({
+        where: { id: search.id },
+        data: { lastDigestAt: now, lastMatchCount: total },
+      });
+
+      done++;
+      progress({
+        phase: "notify",
+        percent: Math.round((done / searches.length) * 100),
+        label: `Checked ${done}/${searches.length} saved searches…`,
+      });
+    }
+
+    const durationMs = Date.now() - startTime;
+    log("info", `✔ Saved-search digests done — ${searches.length} checked, ${emailed} emailed, ${failed} failed`);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: failed > 0 && emailed === 0 ? "FAILED" : "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: searches.length,
+        updatedCount: emailed,
+        errorMessage: failed > 0 ? `${failed} digest emails failed` : null,
+      },
+    });
+
+    return { jobRunId: jobRun.id, checked: searches.length, emailed, failed };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Saved-search digest job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, checked: 0, emailed: 0, failed: 0 };
+  }
+}
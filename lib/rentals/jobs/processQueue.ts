@@ -2,27 +2,64 @@
  * Process Queue Job
  *
  * Takes PENDING items from ScrapeQueue, fetches and parses each listing,
- * upserts into RentalListing, and creates a RentalSnapshot.
- * Respects PROCESS_QUEUE_MAX cap per run.
+ * upserts into RentalListing, and creates a RentalSnapshot. Edits to an
+ * existing listing's text, photos, amenities, location or size are
+ * recorded as a RentalListingChange (../listingDiff.ts).
+ * Respects PROCESS_QUEUE_MAX cap per run. Items robots.txt now disallows
+ * are closed without fetching; if the source's circuit breaker opens, the
+ * rest of the claimed items go back to the queue. When anything was
+ * inserted or updated, finishes by sending due saved-search digests.
+ *
+ * Claimed items are leased to this run (../queueLease.ts). Leases left
+ * behind by a run that died are reaped before claiming; items that keep
+ * failing end up DEAD instead of cycling through RETRY forever.
+ *
+ * Replay mode (`replay: true`) re-parses each URL's latest archived page
+ * (./pageArchive.ts) instead of fetching it, cycling through already
+ * processed queue items — used to backfill parser fixes. A page older
+ * than the listing's last live scrape only corrects its own snapshot.
+ *
+ * Each live run records how many parsed listings had a price, bedrooms,
+ * district, coordinates and images (`fieldCompletenessJson`); a sharp
+ * drop against the source's baseline raises a scraper alert
+ * (../scraperHealth.ts).
  */
 
 import { prisma } from "@/lib/prisma";
 import { RentalSource, QueueStatus } from "@prisma/client";
-import { isSourceEnabled, PROCESS_QUEUE_MAX, PROCESS_QUEUE_CONCURRENCY } from "../config";
-import { scrapeListingKhmer24 } from "../sources/khmer24";
-import { scrapeListingRealestateKh } from "../sources/realestate-kh";
-import { scrapeListingIpsCambodia } from "../sources/ips-cambodia";
-import { scrapeListingCamRealty } from "../sources/camrealty";
-import { scrapeListingLongTermLettings } from "../sources/longtermlettings";
-import { scrapeListingFazWaz } from "../sources/fazwaz";
-import { scrapeListingHomeToGo } from "../sources/hometogo";
+import { PROCESS_QUEUE_MAX, PROCESS_QUEUE_CONCURRENCY } from "../config";
+import { getSourceAdapter, isSourceEnabled } from "../sources/registry";
+import type { ScrapedListing } from "../sources/types";
 import { computeFingerprint } from "../fingerprint";
+import { summarizePriceHistory } from "../priceHistory";
+import { notifySavedSearchesJob } from "./notifySavedSearches";
 import { generateTitleForListing } from "../title-geocode";
-import { politeDelay, scrollDelay, nightIdleDelay, maybeBreather, shouldSkipListing } from "../http";
+import {
+  politeDelay,
+  scrollDelay,
+  nightIdleDelay,
+  maybeBreather,
+  shouldSkipListing,
+  checkRentalCrawlPolicy,
+  isHostUp,
+  ROBOTS_SKIP_REASON,
+} from "../http";
+import { hostOf, hostPausedUntil } from "../hostHealth";
+import { loadHostHealth, saveHostHealth } from "../hostHealthStore";
+import { latestArchivedPage, readArchivedHtml, takeArchivedPage, type ArchivedPage } from "../pageArchive";
+import { RELEASED_LEASE, failureStatus, leaseUntil, newLeaseOwner } from "../queueLease";
+import { reapExpiredQueueLeases, renewQueueLeases } from "../queueLeaseStore";
+import { loadFxRates } from "../fxStore";
+import { promoteClusterPrimaries } from "../clusterStore";
+import { diffListing, describeDiff, LISTING_DIFF_LABELS } from "../listingDiff";
+import { completeness, newCompletenessTally, tallyListing, tallyParseFailure } from "../scraperHealth";
+import { checkFieldCompleteness } from "../scraperHealthStore";
 import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
 
 export interface ProcessQueueOptions {
   maxItems?: number;
+  /** Re-parse archived pages of DONE items instead of fetching PENDING ones */
+  replay?: boolean;
 }
 
 export interface ProcessQueueResult {
@@ -33,6 +70,8 @@ export interface ProcessQueueResult {
   deactivated: number;
   snapshots: number;
   failed: number;
+  /** Disallowed by robots.txt — closed without fetching */
+  policySkipped: number;
 }
 
 /**
@@ -45,7 +84,8 @@ export async function processQueueJob(
   progress: PipelineProgressFn = noopProgress
 ): Promise<ProcessQueueResult> {
   const maxItems = options?.maxItems ?? PROCESS_QUEUE_MAX;
-  log("info", `Starting process queue for ${source} (max ${maxItems} items)`);
+  const replay = options?.replay ?? false;
+  log("info", `Starting ${replay ? "replay of archived pages" : "process queue"} for ${source} (max ${maxItems} items)`);
 
   // Create JobRun
   const jobRun = await prisma.jobRun.create({
@@ -63,6 +103,8 @@ export async function processQueueJob(
   let deactivated = 0;
   let snapshots = 0;
   let failed = 0;
+  let policySkipped = 0;
+  const tally = newCompletenessTally();
 
   try {
     if (!isSourceEnabled(source)) {
@@ -76,29 +118,82 @@ export async function processQueueJob(
           errorMessage: `Source ${source} is disabled`,
         },
       });
-      return { jobRunId: jobRun.id, processed: 0, inserted: 0, updated: 0, deactivated: 0, snapshots: 0, failed: 0 };
+      return { jobRunId: jobRun.id, processed: 0, inserted: 0, updated: 0, deactivated: 0, snapshots: 0, failed: 0, policySkipped: 0 };
     }
 
-    // Atomically claim PENDING/RETRY items so parallel workers don't overlap.
-    // Uses raw SQL UPDATE … LIMIT + SELECT to avoid race conditions.
-    const claimTag = `w${Date.now().toString(36)}`;
-    await prisma.$executeRawUnsafe(
-      `UPDATE ScrapeQueue
-       SET status = 'PROCESSING', lastError = ?
-       WHERE source = ? AND status IN ('PENDING','RETRY')
-       ORDER BY priority DESC, createdAt ASC
-       LIMIT ?`,
-      claimTag,
-      source,
-      maxItems,
-    );
+    const adapter = getSourceAdapter(source);
+
+    // A tripped circuit breaker pauses the source until its cooldown ends
+    // (replay never touches the network, so it isn't paused)
+    await loadHostHealth();
+    // Non-USD prices convert with the stored FX table
+    await loadFxRates();
+    const host = hostOf(adapter.baseUrl);
+    const pausedUntil = host && !replay ? hostPausedUntil(host) : null;
+    if (pausedUntil) {
+      log("warn", `Source ${source} is paused — ${host} circuit open until ${pausedUntil.toISOString()}`);
+      await prisma.jobRun.update({
+        where: { id: jobRun.id },
+        data: {
+          status: "FAILED",
+          endedAt: new Date(),
+          durationMs: 0,
+          errorMessage: `Paused: ${host} circuit open until ${pausedUntil.toISOString()}`,
+        },
+      });
+      return { jobRunId: jobRun.id, processed: 0, inserted: 0, updated: 0, deactivated: 0, snapshots: 0, failed: 0, policySkipped: 0 };
+    }
 
-    const items = await prisma.scrapeQueue.findMany({
-      where: { source, status: "PROCESSING" as QueueStatus, lastError: claimTag },
-      orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
-    });
+    // Items a crashed run left in PROCESSING go back to the queue first
+    const reaped = await reapExpiredQueueLeases(source);
+    if (reaped.requeued + reaped.dead > 0) {
+      log("warn", `Reclaimed ${reaped.requeued + reaped.dead} items from expired leases (${reaped.dead} now dead)`);
+    }
+
+    const leaseOwner = newLeaseOwner();
+    let items;
+    if (replay) {
+      // Least recently processed first — each replayed item is touched
+      // again, so successive runs work through the whole source. Claimed
+      // in one UPDATE, like the live path, so parallel runs don't overlap.
+      await prisma.$executeRawUnsafe(
+        `UPDATE ScrapeQueue
+         SET status = 'PROCESSING', leaseOwner = ?, leaseExpiresAt = ?
+         WHERE source = ? AND status = 'DONE'
+         ORDER BY updatedAt ASC
+         LIMIT ?`,
+        leaseOwner,
+        leaseUntil(),
+        source,
+        maxItems,
+      );
+
+      items = await prisma.scrapeQueue.findMany({
+        where: { source, status: QueueStatus.PROCESSING, leaseOwner },
+        orderBy: { updatedAt: "asc" },
+      });
+    } else {
+      // Atomically claim PENDING/RETRY items so parallel workers don't overlap.
+      // Uses raw SQL UPDATE … LIMIT + SELECT to avoid race conditions.
+      await prisma.$executeRawUnsafe(
+        `UPDATE ScrapeQueue
+         SET status = 'PROCESSING', leaseOwner = ?, leaseExpiresAt = ?
+         WHERE source = ? AND status IN ('PENDING','RETRY')
+         ORDER BY priority DESC, createdAt ASC
+         LIMIT ?`,
+        leaseOwner,
+        leaseUntil(),
+        source,
+        maxItems,
+      );
+
+      items = await prisma.scrapeQueue.findMany({
+        where: { source, status: QueueStatus.PROCESSING, leaseOwner },
+        orderBy: [{ priority: "desc" }, { createdAt: "asc" }],
+      });
+    }
 
-    log("info", `Found ${items.length} pending items in queue`);
+    log("info", `Found ${items.length} ${replay ? "processed items to replay" : "pending items in queue"}`);
     if (items.length === 0) {
       progress({ phase: "process", percent: 100, label: "Queue empty — nothing to process" });
       log("info", "Queue is empty — nothing to scrape. Run Discover first.");
@@ -114,6 +209,21 @@ export async function processQueueJob(
       const batch = items.slice(batchStart, batchStart + BATCH_SIZE);
       const batchNum = Math.floor(batchStart / BATCH_SIZE) + 1;
       const totalBatches = Math.ceil(items.length / BATCH_SIZE);
+
+      // Pacing delays can be long — keep the rest of the claim alive
+      if (batchStart > 0) await renewQueueLeases(leaseOwner);
+
+      // Circuit opened mid-run: hand the rest back to the queue untouched
+      if (!replay && !isHostUp(batch[0].canonicalUrl)) {
+        const rest = items.slice(batchStart);
+        await prisma.scrapeQueue.updateMany({
+          where: { id: { in: rest.map((i) => i.id) } },
+          data: { status: QueueStatus.PENDING, lastError: null, ...RELEASED_LEASE },
+        });
+        log("warn", `⏸ Circuit open for ${source} — returned ${rest.length} items to the queue`);
+        break;
+      }
+
       log("info", `── Batch ${batchNum}/${totalBatches}: scraping ${batch.length} listings concurrently…`);
 
       const results = await Promise.allSettled(
@@ -122,48 +232,117 @@ export async function processQueueJob(
           const shortUrl = item.canonicalUrl.replace(/^https?:\/\/[^/]+/, "");
 
           // ── Random skip (simulate inconsistent navigation depth) ──
-          if (shouldSkipListing()) {
+          if (!replay && shouldSkipListing()) {
             log("debug", `[${idx}/${items.length}] ↷ Randomly skipped: ${shortUrl}`);
-            // Don't mark as DONE — leave it PENDING for a future batch
+            // Don't mark as DONE — hand it back as PENDING for a future run
+            await prisma.scrapeQueue.update({
+              where: { id: item.id },
+              data: { status: QueueStatus.PENDING, ...RELEASED_LEASE },
+            });
             return { type: "skipped" as const };
           }
 
-          log("info", `[${idx}/${items.length}] Fetching: ${shortUrl}`);
-
           try {
-            const scraped = await scrapeForSource(source, item.canonicalUrl, log);
-
-            if (!scraped) {
-              // Listing returned null — could be 404, removed, or filtered out.
-              // If this listing already exists in our DB, mark it inactive (gone from site).
-              const goneListing = await prisma.rentalListing.findUnique({
-                where: { canonicalUrl: item.canonicalUrl },
-                select: { id: true, isActive: true },
-              });
-              if (goneListing && goneListing.isActive) {
-                await prisma.rentalListing.update({
-                  where: { id: goneListing.id },
-                  data: { isActive: false },
+            let scraped: ScrapedListing | null;
+            let page: ArchivedPage | null;
+
+            if (replay) {
+              // ── Replay: parse the latest archived copy, no network ──
+              page = await latestArchivedPage(item.canonicalUrl);
+              const html = page ? await readArchivedHtml(page.hash) : null;
+              if (!page || !html) {
+                log("debug", `[${idx}/${items.length}] ↷ No archived page: ${shortUrl}`);
+                await prisma.scrapeQueue.update({
+                  where: { id: item.id },
+                  data: { status: QueueStatus.DONE, ...RELEASED_LEASE },
                 });
-                log("info", `[${idx}/${items.length}] ⊘ Marked listing INACTIVE (no longer available on site)`);
-              } else {
-                log("warn", `[${idx}/${items.length}] ✗ Filtered out (could not parse listing)`);
+                return { type: "skipped" as const };
               }
 
-              await prisma.scrapeQueue.update({
-                where: { id: item.id },
-                data: {
-                  status: QueueStatus.DONE,
-                  attempts: item.attempts + 1,
-                  lastError: goneListing
-                    ? "Listing no longer available — marked inactive"
-                    : "Failed to scrape or filtered out",
-                },
-              });
-              return { type: goneListing ? "deactivated" as const : "failed" as const };
+              log("info", `[${idx}/${items.length}] Replaying: ${shortUrl} (fetched ${page.fetchedAt})`);
+              scraped = adapter.parseListing(html, item.canonicalUrl, log);
+
+              if (!scraped) {
+                // An archived page can't prove the listing is gone — leave it be
+                log("warn", `[${idx}/${items.length}] ✗ Archived page did not parse`);
+                await prisma.scrapeQueue.update({
+                  where: { id: item.id },
+                  data: { status: QueueStatus.DONE, lastError: "Replay: archived page did not parse", ...RELEASED_LEASE },
+                });
+                return { type: "failed" as const };
+              }
+            } else {
+              // ── robots.txt may have changed since the URL was queued ──
+              // Checked here rather than left to fetchHtml, whose null would
+              // read as "listing removed" and deactivate it.
+              const policy = await checkRentalCrawlPolicy(item.canonicalUrl);
+              if (!policy.allowed) {
+                log("warn", `[${idx}/${items.length}] ⛔ Disallowed by robots.txt: ${shortUrl}`);
+                await prisma.scrapeQueue.update({
+                  where: { id: item.id },
+                  data: { status: QueueStatus.DONE, attempts: item.attempts + 1, lastError: ROBOTS_SKIP_REASON, ...RELEASED_LEASE },
+                });
+                return { type: "policySkipped" as const };
+              }
+
+              log("info", `[${idx}/${items.length}] Fetching: ${shortUrl}`);
+
+              scraped = await adapter.scrapeListing(item.canonicalUrl, log);
+              page = takeArchivedPage(item.canonicalUrl);
+
+              if (!scraped && !isHostUp(item.canonicalUrl)) {
+                // The host's circuit opened (or was already open) — not a removed listing
+                log("warn", `[${idx}/${items.length}] ⏸ Host paused, returned to queue: ${shortUrl}`);
+                await prisma.scrapeQueue.update({
+                  where: { id: item.id },
+                  data: { status: QueueStatus.PENDING, lastError: null, ...RELEASED_LEASE },
+                });
+                return { type: "skipped" as const };
+              }
+
+              if (!scraped) {
+                // Listing returned null — could be 404, removed, or filtered out.
+                // If this listing already exists in our DB, mark it inactive (gone from site).
+                // A broken parser looks the same, so it counts against scraper health.
+                tallyParseFailure(tally);
+                const goneListing = await prisma.rentalListing.findUnique({
+                  where: { canonicalUrl: item.canonicalUrl },
+                  select: { id: true, isActive: true, clusterId: true, isClusterPrimary: true },
+                });
+                if (goneListing && goneListing.isActive) {
+                  await prisma.rentalListing.update({
+                    where: { id: goneListing.id },
+                    data: { isActive: false },
+                  });
+                  log("info", `[${idx}/${items.length}] ⊘ Marked listing INACTIVE (no longer available on site)`);
+                  // Its duplicates on other portals would otherwise vanish until the next clustering run
+                  if (goneListing.clusterId && goneListing.isClusterPrimary) {
+                    await promoteClusterPrimaries([goneListing.clusterId]);
+                  }
+                } else {
+                  log("warn", `[${idx}/${items.length}] ✗ Filtered out (could not parse listing)`);
+                }
+
+                await prisma.scrapeQueue.update({
+                  where: { id: item.id },
+                  data: {
+                    status: QueueStatus.DONE,
+                    attempts: item.attempts + 1,
+                    lastError: goneListing
+                      ? "Listing no longer available — marked inactive"
+                      : "Failed to scrape or filtered out",
+                    ...RELEASED_LEASE,
+                  },
+                });
+                return { type: goneListing ? "deactivated" as const : "failed" as const };
+              }
             }
 
-            const now = new Date();
+            // Replays re-parse old pages, so they'd skew the source's baseline
+            if (!replay) tallyListing(tally, scraped);
+
+            // A replayed page describes the listing as of its fetch time
+            const now = replay && page ? new Date(page.fetchedAt) : new Date();
             const priceStr = scraped.priceMonthlyUsd ? `$${scraped.priceMonthlyUsd}/mo` : "no price";
 
             // Skip listings with no price (POA, missing, etc.)
@@ -171,7 +350,7 @@ export async function processQueueJob(
               log("debug", `[${idx}/${items.length}] Skipped (no price): ${scraped.title?.slice(0, 60) || "(no title)"}`);
               await prisma.scrapeQueue.update({
                 where: { id: item.id },
-                data: { status: QueueStatus.DONE, attempts: item.attempts + 1, lastError: "Skipped: no price" },
+                data: { status: QueueStatus.DONE, attempts: item.attempts + 1, lastError: "Skipped: no price", ...RELEASED_LEASE },
               });
               return { type: "failed" as const };
             }
@@ -232,11 +411,19 @@ export async function processQueueJob(
 
             let listingId: string;
             let wasInserted = false;
+            // An archived page older than the last live scrape would revert
+            // newer data — replaying it only corrects its own snapshot
+            const stale = replay && existing !== null && now < existing.lastSeenAt;
 
-            if (existing) {
+            if (existing && stale) {
+              listingId = existing.id;
+              log("info", `[${idx}/${items.length}] ✓ Corrected snapshot only — listing seen since ${page?.fetchedAt}`);
+            } else if (existing) {
               // Respect manual overrides — don't re-activate or change type
               // for listings that a human has manually reviewed and deactivated.
               const isManuallyOverridden = existing.manualOverride;
+              const latitude = scraped.latitude ?? existing.latitude;
+              const longitude = scraped.longitude ?? existing.longitude;
 
               await prisma.rentalListing.update({
                 where: { id: existing.id },
@@ -245,27 +432,54 @@ export async function processQueueJob(
                   description: scraped.description,
                   city: scraped.city ?? "Phnom Penh",
                   district: scraped.district,
-                  latitude: scraped.latitude ?? existing.latitude,
-                  longitude: scraped.longitude ?? existing.longitude,
+                  latitude,
+                  longitude,
                   // Keep the human-assigned type if overridden
                   propertyType: isManuallyOverridden ? existing.propertyType : scraped.propertyType,
                   bedrooms: scraped.bedrooms,
                   bathrooms: scraped.bathrooms,
                   sizeSqm: scraped.sizeSqm,
                   priceOriginal: scraped.priceOriginal,
+                  priceAmount: scraped.priceAmount,
                   priceMonthlyUsd: scraped.priceMonthlyUsd,
                   currency: scraped.currency,
                   imageUrlsJson,
+                  // Photos changed — drop cached perceptual hashes so clustering re-hashes,
+                  // and the hosted copies so the image job re-hosts them
+                  ...(imageUrlsJson === existing.imageUrlsJson
+                    ? {}
+                    : { imageHashesJson: null, hostedImagesJson: null, imagesFailedJson: null, imagesHostedAt: null }),
                   amenitiesJson,
                   postedAt: scraped.postedAt,
-                  lastSeenAt: now,
-                  // Don't reactivate manually deactivated listings
-                  isActive: isManuallyOverridden ? existing.isActive : true,
+                  lastSeenAt: existing.lastSeenAt > now ? existing.lastSeenAt : now,
+                  // Don't reactivate manually deactivated listings (or
+                  // ones that went away after the replayed page was fetched)
+                  isActive: isManuallyOverridden || replay ? existing.isActive : true,
                   contentFingerprint: fingerprint ?? existing.contentFingerprint,
                 },
               });
               listingId = existing.id;
               log("info", `[${idx}/${items.length}] ✓ Updated existing listing (${priceStr}, ${scraped.district || "no district"})`);
+
+              // Change log: what the landlord edited since the last scrape
+              // (not for replays — a re-parse shows parser fixes, not edits)
+              if (!replay) {
+                const changes = diffListing(existing, {
+                  title: scraped.title,
+                  description: scraped.description,
+                  imageUrlsJson,
+                  amenitiesJson,
+                  latitude,
+                  longitude,
+                  sizeSqm: scraped.sizeSqm,
+                });
+                if (changes.length > 0) {
+                  await prisma.rentalListingChange.create({
+                    data: { listingId, changedAt: now, changesJson: JSON.stringify(changes), pageHash: page?.hash ?? null },
+                  });
+                  log("info", `[${idx}/${items.length}] ✎ Changed: ${changes.map((c) => `${LISTING_DIFF_LABELS[c.field]} ${describeDiff(c)}`).join("; ").slice(0, 200)}`);
+                }
+              }
             } else {
               const newListing = await prisma.rentalListing.create({
                 data: {
@@ -283,6 +497,7 @@ export async function processQueueJob(
                   bathrooms: scraped.bathrooms,
                   sizeSqm: scraped.sizeSqm,
                   priceOriginal: scraped.priceOriginal,
+                  priceAmount: scraped.priceAmount,
                   priceMonthlyUsd: scraped.priceMonthlyUsd,
                   currency: scraped.currency,
                   imageUrlsJson,
@@ -292,6 +507,7 @@ export async function processQueueJob(
                   lastSeenAt: now,
                   isActive: true,
                   contentFingerprint: fingerprint,
+                  peakPriceUsd: scraped.priceMonthlyUsd,
                 },
               });
               listingId = newListing.id;
@@ -299,21 +515,54 @@ export async function processQueueJob(
               log("info", `[${idx}/${items.length}] ✓ Inserted NEW listing (${priceStr}, ${scraped.district || "no district"})`);
             }
 
-            await prisma.rentalSnapshot.create({
-              data: {
-                listingId,
-                city: scraped.city ?? "Phnom Penh",
-                district: scraped.district,
-                bedrooms: scraped.bedrooms,
-                propertyType: scraped.propertyType,
-                priceOriginal: scraped.priceOriginal,
-                priceMonthlyUsd: scraped.priceMonthlyUsd,
-                postedAt: scraped.postedAt,
-              },
-            });
+            const snapshotData = {
+              city: scraped.city ?? "Phnom Penh",
+              district: scraped.district,
+              bedrooms: scraped.bedrooms,
+              propertyType: scraped.propertyType,
+              priceOriginal: scraped.priceOriginal,
+              priceAmount: scraped.priceAmount,
+              currency: scraped.currency,
+              priceMonthlyUsd: scraped.priceMonthlyUsd,
+              postedAt: scraped.postedAt,
+            };
+            // Replay corrects the snapshot taken from this page rather than adding one
+            const replayed = replay && page
+              ? await prisma.rentalSnapshot.findFirst({
+                  where: { listingId, pageHash: page.hash },
+                  select: { id: true },
+                })
+              : null;
+            if (replayed) {
+              await prisma.rentalSnapshot.update({ where: { id: replayed.id }, data: snapshotData });
+            } else {
+              await prisma.rentalSnapshot.create({
+                data: { listingId, scrapedAt: now, pageHash: page?.hash ?? null, ...snapshotData },
+              });
+            }
+
+            // Re-derive the price-drop fields from the full snapshot history
+            if (!wasInserted) {
+              const history = await prisma.rentalSnapshot.findMany({
+                where: { listingId },
+                select: { scrapedAt: true, priceMonthlyUsd: true },
+              });
+              const summary = summarizePriceHistory(history);
+              await prisma.rentalListing.update({
+                where: { id: listingId },
+                data: {
+                  peakPriceUsd: summary.peakPriceUsd,
+                  priceDropPct: summary.priceDropPct,
+                  lastPriceDropAt: summary.lastPriceDropAt,
+                },
+              });
+              if (summary.priceDropPct !== null && summary.lastPriceDropAt?.getTime() === now.getTime()) {
+                log("info", `[${idx}/${items.length}] ↓ Price reduced ${summary.priceDropPct}% from $${summary.peakPriceUsd}`);
+              }
+            }
 
             // Generate geocoded title for new listings (or those without one)
-            if (wasInserted || !existing?.titleRewritten) {
+            if (wasInserted || (!stale && !existing?.titleRewritten)) {
               try {
                 const geoTitle = await generateTitleForListing({
                   latitude: scraped.latitude ?? existing?.latitude ?? null,
@@ -339,19 +588,23 @@ export async function processQueueJob(
                 status: QueueStatus.DONE,
                 attempts: item.attempts + 1,
                 lastError: null,
+                ...RELEASED_LEASE,
               },
             });
 
             return { type: wasInserted ? "inserted" as const : "updated" as const };
           } catch (err) {
             const errMsg = err instanceof Error ? err.message : String(err);
-            log("error", `[${idx}/${items.length}] ✗ Failed: ${errMsg}`);
+            // Replayed items were already processed — they stay DONE
+            const status = replay ? QueueStatus.DONE : failureStatus(item.attempts + 1);
+            log("error", `[${idx}/${items.length}] ✗ Failed${status === QueueStatus.DEAD ? " (giving up — now dead)" : ""}: ${errMsg}`);
             await prisma.scrapeQueue.update({
               where: { id: item.id },
               data: {
-                status: item.attempts + 1 >= 3 ? QueueStatus.DONE : QueueStatus.RETRY,
+                status,
                 attempts: item.attempts + 1,
                 lastError: errMsg.slice(0, 2000),
+                ...RELEASED_LEASE,
               },
             });
             return { type: "failed" as const };
@@ -362,6 +615,7 @@ export async function processQueueJob(
       /* Tally batch results */
       for (const r of results) {
         if (r.status === "fulfilled" && r.value.type === "skipped") continue;
+        if (r.status === "fulfilled" && r.value.type === "policySkipped") { policySkipped++; continue; }
         processed++;
         if (r.status === "fulfilled") {
           if (r.value.type === "inserted") { inserted++; snapshots++; }
@@ -374,12 +628,12 @@ export async function processQueueJob(
       }
 
       /* Report progress */
-      const pct = Math.round((processed / items.length) * 100);
+      const pct = Math.round(((processed + policySkipped) / items.length) * 100);
       progress({ phase: "process", percent: pct, label: `Scraped ${processed}/${items.length} listings (${inserted} new, ${updated} updated, ${deactivated} inactive, ${failed} failed)` });
       log("info", `Batch ${batchNum} done — running totals: ${processed}/${items.length} processed, ${inserted} new, ${updated} updated, ${deactivated} deactivated, ${failed} failed`);
 
       /* Brief pause between batches — variable pacing + night idle */
-      if (batchStart + BATCH_SIZE < items.length) {
+      if (!replay && batchStart + BATCH_SIZE < items.length) {
         await politeDelay();
         await scrollDelay();
         await nightIdleDelay();
@@ -391,22 +645,42 @@ export async function processQueueJob(
     const durationMs = endTime - startTime;
 
     log("info", `✔ Process queue finished in ${(durationMs / 1000).toFixed(1)}s — ${processed} scraped, ${inserted} new, ${updated} updated, ${deactivated} deactivated, ${snapshots} snapshots, ${failed} failed`);
+    if (policySkipped > 0) {
+      log("warn", `⛔ ${policySkipped} queued URLs skipped — disallowed by robots.txt`);
+    }
     progress({ phase: "process", percent: 100, label: `Done — ${processed} scraped, ${inserted} new, ${updated} updated, ${deactivated} inactive` });
 
+    const fields = tally.sample > 0 ? completeness(tally) : null;
+    const status = failed === processed && processed > 0 ? "FAILED" : "SUCCESS";
     await prisma.jobRun.update({
       where: { id: jobRun.id },
       data: {
-        status: failed === processed && processed > 0 ? "FAILED" : "SUCCESS",
+        status,
         endedAt: new Date(),
         durationMs,
         processedCount: processed,
         insertedCount: inserted,
         updatedCount: updated,
         snapshotCount: snapshots,
+        policySkippedCount: policySkipped,
+        fieldCompletenessJson: fields ? JSON.stringify(fields) : null,
       },
     });
 
-    return { jobRunId: jobRun.id, processed, inserted, updated, deactivated, snapshots, failed };
+    // Checked even for FAILED runs — a parser that breaks outright fails every item
+    if (fields) {
+      await checkFieldCompleteness(source, jobRun.id, fields, log).catch((err) =>
+        log("warn", `Could not check field completeness: ${err instanceof Error ? err.message : err}`),
+      );
+    }
+
+    // Fresh listings and price cuts may match users' saved searches
+    // (not for replays — re-parsed old pages aren't news)
+    if (!replay && (inserted > 0 || updated > 0)) {
+      await notifySavedSearchesJob(undefined, log);
+    }
+
+    return { jobRunId: jobRun.id, processed, inserted, updated, deactivated, snapshots, failed, policySkipped };
   } catch (error) {
     const msg = error instanceof Error ? error.message : String(error);
     log("error", `Process queue job failed: ${msg}`);
@@ -419,30 +693,9 @@ export async function processQueueJob(
         errorMessage: msg.slice(0, 2000),
       },
     });
-    return { jobRunId: jobRun.id, processed, inserted, updated, deactivated, snapshots, failed };
-  }
-}
-
-/* ── Helper: dispatch to correct adapter ─────────────────── */
-import type { PipelineLogFn as _LogFn } from "../pipelineLogger";
-
-async function scrapeForSource(source: RentalSource, url: string, log?: _LogFn) {
-  switch (source) {
-    case "KHMER24":
-      return scrapeListingKhmer24(url, log);
-    case "REALESTATE_KH":
-      return scrapeListingRealestateKh(url, log);
-    case "IPS_CAMBODIA":
-      return scrapeListingIpsCambodia(url, log);
-    case "CAMREALTY":
-      return scrapeListingCamRealty(url, log);
-    case "LONGTERMLETTINGS":
-      return scrapeListingLongTermLettings(url, log);
-    case "FAZWAZ":
-      return scrapeListingFazWaz(url, log);
-    case "HOMETOGO":
-      return scrapeListingHomeToGo(url, log);
-    default:
-      return null;
+    return { jobRunId: jobRun.id, processed, inserted, updated, deactivated, snapshots, failed, policySkipped };
+  } finally {
+    // Persist pacing / circuit state so the next run starts where this one left off
+    await saveHostHealth().catch((err) => log("warn", `Could not save host health: ${err instanceof Error ? err.message : err}`));
   }
 }
@@ -0,0 +1,394 @@
+/**
+ * Scheduler Tick
+ *
+ * One pass of the DB-backed job scheduler:
+ *   1. Reap tasks whose worker lost its lease (crashed, timed out)
+ *   2. Enqueue a task for every enabled `JobSchedule` whose cron is due
+ *   3. Claim due tasks under a lease and run them one after another
+ *
+ * A task is claimed with a conditional UPDATE, so two workers never run
+ * the same task; the lease is renewed by a heartbeat while it runs.
+ * Failures retry with exponential backoff up to `maxAttempts`; a chained
+ * task that succeeds enqueues the next pipeline step (see ../scheduler.ts).
+ *
+ * Called by the CLI worker (`scripts/rentals_scheduler.ts`) and the
+ * cron-triggered tick endpoint.
+ */
+
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { Prisma, type JobTask, type JobTaskKind, type RentalSource } from "@prisma/client";
+import { SCHEDULER_LEASE_MS } from "../config";
+import { nextCronRun } from "../cron";
+import { isPerSourceTask, nextInChain, retryDelayMs, shouldRetry, upstreamKinds } from "../scheduler";
+import { getSourceAdapter, isSourceEnabled } from "../sources/registry";
+import { discoverListingsJob } from "./discover";
+import { processQueueJob } from "./processQueue";
+import { buildDailyIndexJob } from "./buildIndex";
+import { clusterDuplicatesJob } from "./clusterDuplicates";
+import { buildForecastJob } from "./buildForecast";
+import { embedListingsJob } from "./embedListings";
+import { scoreListingsJob } from "./scoreListings";
+import { hostListingImagesJob } from "./hostImages";
+import { markStaleListingsJob } from "./markStaleListings";
+import { marketReportJob } from "./marketReport";
+import { refreshMarketPages } from "../marketReportStore";
+import { reapExpiredQueueLeases } from "../queueLeaseStore";
+import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
+
+export interface SchedulerTickOptions {
+  /** Identifies this worker in `JobTask.leaseOwner` */
+  workerId?: string;
+  /** Stop after running this many tasks (default: until nothing is due) */
+  maxTasks?: number;
+  /** Leave tasks for sources that need Playwright to a local worker */
+  skipPlaywright?: boolean;
+}
+
+export interface SchedulerTickResult {
+  reaped: number;
+  /** ScrapeQueue items reclaimed from crashed process-queue runs */
+  queueReaped: number;
+  enqueued: number;
+  succeeded: number;
+  failed: number;
+  retrying: number;
+}
+
+/** Thrown by a runner when retrying can't help (e.g. source disabled) */
+class PermanentTaskError extends Error {}
+
+/* ── Enqueue ─────────────────────────────────────────────── */
+
+const UNFINISHED = ["PENDING", "RUNNING"] as const;
+
+/**
+ * Enqueue a task unless an identical one is already waiting — keeps
+ * chains from several sources, or a slow worker, from piling up.
+ * Returns the waiting or new task.
+ */
+export async function enqueueTask(data: {
+  kind: JobTaskKind;
+  source?: RentalSource | null;
+  chain?: boolean;
+  maxAttempts?: number;
+  scheduleId?: string | null;
+  parentId?: string | null;
+  runAt?: Date;
+}): Promise<JobTask> {
+  const source = isPerSourceTask(data.kind) ? data.source ?? null : null;
+  const waiting = await prisma.jobTask.findFirst({
+    where: { kind: data.kind, source, status: "PENDING" },
+  });
+  if (waiting) return waiting;
+
+  return prisma.jobTask.create({
+    data: {
+      kind: data.kind,
+      source,
+      chain: data.chain ?? true,
+      maxAttempts: data.maxAttempts ?? 3,
+      scheduleId: data.scheduleId ?? null,
+      parentId: data.parentId ?? null,
+      runAt: data.runAt ?? new Date(),
+    },
+  });
+}
+
+/** Turn due cron schedules into tasks. Missed runs are not caught up. */
+async function enqueueDueSchedules(now: Date, log: PipelineLogFn): Promise<number> {
+  const schedules = await prisma.jobSchedule.findMany({ where: { enabled: true } });
+  let enqueued = 0;
+
+  for (const s of schedules) {
+    const next = nextCronRun(s.cron, now);
+    if (!s.nextRunAt) {
+      await prisma.jobSchedule.update({ where: { id: s.id }, data: { nextRunAt: next } });
+      continue;
+    }
+    if (s.nextRunAt > now) continue;
+
+    // Claim this firing — another worker ticking at the same moment loses
+    const claimed = await prisma.jobSchedule.updateMany({
+      where: { id: s.id, nextRunAt: s.nextRunAt },
+      data: { nextRunAt: next, lastRunAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const busy = await prisma.jobTask.count({
+      where: { scheduleId: s.id, status: { in: [...UNFINISHED] } },
+    });
+    if (busy > 0) {
+      log("warn", `Schedule ${s.kind} ${s.source ?? ""} is still running from its last firing — skipped`);
+      continue;
+    }
+
+    await enqueueTask({
+      kind: s.kind,
+      source: s.source,
+      chain: s.chain,
+      maxAttempts: s.maxAttempts,
+      scheduleId: s.id,
+    });
+    enqueued++;
+  }
+  return enqueued;
+}
+
+/* ── Leases ──────────────────────────────────────────────── */
+
+/** Expired leases go back to PENDING (with backoff) or FAILED if out of attempts. */
+async function reapExpiredLeases(now: Date, log: PipelineLogFn): Promise<number> {
+  const expired = await prisma.jobTask.findMany({
+    where: { status: "RUNNING", leaseExpiresAt: { lt: now } },
+  });
+
+  let reaped = 0;
+  for (const t of expired) {
+    const retry = shouldRetry(t.attempts, t.maxAttempts);
+    const res = await prisma.jobTask.updateMany({
+      where: { id: t.id, status: "RUNNING", leaseExpiresAt: t.leaseExpiresAt },
+      data: {
+        status: retry ? "PENDING" : "FAILED",
+        runAt: retry ? new Date(now.getTime() + retryDelayMs(t.attempts)) : t.runAt,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        lastError: `Lease expired — worker ${t.leaseOwner ?? "?"} stopped responding`,
+        finishedAt: retry ? null : now,
+      },
+    });
+    if (res.count > 0) {
+      reaped++;
+      log("warn", `Reaped ${t.kind} ${t.source ?? ""} from ${t.leaseOwner} (${retry ? "will retry" : "out of attempts"})`);
+    }
+  }
+  return reaped;
+}
+
+/**
+ * Claim the next runnable task: due, not blocked by upstream work, and no
+ * other task of the same kind + source running.
+ */
+async function claimNextTask(workerId: string, options: SchedulerTickOptions): Promise<JobTask | null> {
+  const now = new Date();
+  const [candidates, active] = await Promise.all([
+    prisma.jobTask.findMany({
+      where: { status: "PENDING", runAt: { lte: now } },
+      orderBy: { runAt: "asc" },
+      take: 20,
+    }),
+    prisma.jobTask.findMany({
+      where: {
+        OR: [
+          { status: "RUNNING" },
+          { status: "PENDING", runAt: { lte: now } },
+        ],
+      },
+      select: { id: true, kind: true, source: true, status: true },
+    }),
+  ]);
+
+  for (const task of candidates) {
+    if (options.skipPlaywright && task.source && getSourceAdapter(task.source).capabilities.needsPlaywright) continue;
+
+    const upstream = upstreamKinds(task.kind);
+    const blocked = active.some(
+      (a) =>
+        a.id !== task.id &&
+        ((a.status === "RUNNING" && a.kind === task.kind && a.source === task.source) || upstream.includes(a.kind))
+    );
+    if (blocked) continue;
+
+    const claimed = await prisma.jobTask.updateMany({
+      where: { id: task.id, status: "PENDING" },
+      data: {
+        status: "RUNNING",
+        leaseOwner: workerId,
+        leaseExpiresAt: new Date(Date.now() + SCHEDULER_LEASE_MS),
+        attempts: { increment: 1 },
+        startedAt: new Date(),
+      },
+    });
+    if (claimed.count === 1) {
+      return prisma.jobTask.findUnique({ where: { id: task.id } });
+    }
+  }
+  return null;
+}
+
+/** Keep the lease alive while the task runs. Returns the stop function. */
+function startHeartbeat(taskId: string, workerId: string, log: PipelineLogFn): () => void {
+  const timer = setInterval(() => {
+    prisma.jobTask
+      .updateMany({
+        where: { id: taskId, leaseOwner: workerId, status: "RUNNING" },
+        data: { leaseExpiresAt: new Date(Date.now() + SCHEDULER_LEASE_MS) },
+      })
+      .then((res) => {
+        if (res.count === 0) log("warn", `Lost the lease on task ${taskId} — another worker may retry it`);
+      })
+      .catch((err) => log("warn", `Heartbeat failed: ${err instanceof Error ? err.message : err}`));
+  }, SCHEDULER_LEASE_MS / 3);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+/* ── Runners ─────────────────────────────────────────────── */
+
+/** Throw if any of the job runs failed, so the task retries. */
+async function assertJobRunsSucceeded(jobRunIds: string[]): Promise<void> {
+  const failed = await prisma.jobRun.findFirst({
+    where: { id: { in: jobRunIds }, status: "FAILED" },
+    select: { errorMessage: true },
+  });
+  if (failed) throw new Error(failed.errorMessage ?? "Job run failed");
+}
+
+function requireSource(task: JobTask): RentalSource {
+  if (!task.source) throw new PermanentTaskError(`${task.kind} needs a source`);
+  if (!isSourceEnabled(task.source)) throw new PermanentTaskError(`Source ${task.source} is disabled`);
+  return task.source;
+}
+
+/** Run one task's pipeline step; the return value is stored on the task. */
+async function runTask(task: JobTask, log: PipelineLogFn): Promise<Record<string, unknown>> {
+  switch (task.kind) {
+    case "DISCOVER": {
+      const r = await discoverListingsJob(requireSource(task), undefined, log);
+      await assertJobRunsSucceeded([r.jobRunId]);
+      return { ...r };
+    }
+    case "PROCESS_QUEUE": {
+      const r = await processQueueJob(requireSource(task), undefined, log);
+      await assertJobRunsSucceeded([r.jobRunId]);
+      return { ...r };
+    }
+    case "BUILD_INDEX": {
+      // Host new photos first — it seeds the image hashes clustering compares
+      const images = await hostListingImagesJob(undefined, log);
+      // Then the same sequence as the dashboard's Build Index action
+      const cluster = await clusterDuplicatesJob(undefined, log);
+      const today = new Date();
+      today.setUTCHours(0, 0, 0, 0);
+      const todayResult = await buildDailyIndexJob({ date: today }, log);
+      const yesterdayResult = await buildDailyIndexJob(undefined, log);
+      await assertJobRunsSucceeded([todayResult.jobRunId, yesterdayResult.jobRunId]);
+      const market = await refreshMarketPages([today, new Date(today.getTime() - 86_400_000)], log);
+      // Derived data — a failure here is logged on its JobRun, not retried
+      const forecast = await buildForecastJob(log);
+      const embed = await embedListingsJob(log);
+      const score = await scoreListingsJob(undefined, log);
+      return {
+        imagesJobRunId: images.jobRunId,
+        clusterJobRunId: cluster.jobRunId,
+        indexRows: todayResult.indexRows + yesterdayResult.indexRows,
+        monthlyRows: market.monthlyRows,
+        forecastJobRunId: forecast.jobRunId,
+        embedJobRunId: embed.jobRunId,
+        scoreJobRunId: score.jobRunId,
+      };
+    }
+    case "MARK_STALE": {
+      const r = await markStaleListingsJob(undefined, log);
+      return { deactivated: r.deactivated, cutoffDate: r.cutoffDate.toISOString() };
+    }
+    case "MARKET_REPORT": {
+      const r = await marketReportJob(undefined, log);
+      await assertJobRunsSucceeded([r.jobRunId]);
+      return { ...r };
+    }
+  }
+}
+
+/* ── Tick ────────────────────────────────────────────────── */
+
+export function defaultWorkerId(): string {
+  return `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+}
+
+/**
+ * Reap, enqueue due schedules, then run due tasks until none are left
+ * (or `maxTasks` have run).
+ */
+export async function schedulerTick(
+  options: SchedulerTickOptions = {},
+  log: PipelineLogFn = noopLogger
+): Promise<SchedulerTickResult> {
+  const workerId = options.workerId ?? defaultWorkerId();
+  const maxTasks = options.maxTasks ?? Infinity;
+  const result: SchedulerTickResult = { reaped: 0, queueReaped: 0, enqueued: 0, succeeded: 0, failed: 0, retrying: 0 };
+
+  const now = new Date();
+  result.reaped = await reapExpiredLeases(now, log);
+  const queue = await reapExpiredQueueLeases(undefined, now);
+  result.queueReaped = queue.requeued + queue.dead;
+  if (result.queueReaped > 0) {
+    log("warn", `Reclaimed ${result.queueReaped} scrape queue items from expired leases (${queue.dead} now dead)`);
+  }
+  result.enqueued = await enqueueDueSchedules(now, log);
+
+  for (let ran = 0; ran < maxTasks; ran++) {
+    const task = await claimNextTask(workerId, options);
+    if (!task) break;
+
+    const label = `${task.kind}${task.source ? ` ${task.source}` : ""}`;
+    log("info", `▶ ${label} (attempt ${task.attempts}/${task.maxAttempts})`);
+    const stopHeartbeat = startHeartbeat(task.id, workerId, log);
+
+    try {
+      const output = await runTask(task, log);
+      await prisma.jobTask.updateMany({
+        where: { id: task.id, leaseOwner: workerId },
+        data: {
+          status: "SUCCEEDED",
+          finishedAt: new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          lastError: null,
+          result: output as Prisma.InputJsonValue,
+        },
+      });
+      result.succeeded++;
+      log("info", `✔ ${label} succeeded`);
+
+      const next = task.chain ? nextInChain(task.kind) : null;
+      if (next) {
+        await enqueueTask({
+          kind: next,
+          source: task.source,
+          chain: true,
+          maxAttempts: task.maxAttempts,
+          parentId: task.id,
+        });
+        log("info", `  ↳ queued ${next}`);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const retry = !(err instanceof PermanentTaskError) && shouldRetry(task.attempts, task.maxAttempts);
+      const retryAt = new Date(Date.now() + retryDelayMs(task.attempts));
+      await prisma.jobTask.updateMany({
+        where: { id: task.id, leaseOwner: workerId },
+        data: {
+          status: retry ? "PENDING" : "FAILED",
+          runAt: retry ? retryAt : task.runAt,
+          finishedAt: retry ? null : new Date(),
+          leaseOwner: null,
+          leaseExpiresAt: null,
+          lastError: msg.slice(0, 2000),
+        },
+      });
+      if (retry) {
+        result.retrying++;
+        log("warn", `✗ ${label} failed, retrying at ${retryAt.toISOString()}: ${msg}`);
+      } else {
+        result.failed++;
+        log("error", `✗ ${label} failed permanently: ${msg}`);
+      }
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  return result;
+}
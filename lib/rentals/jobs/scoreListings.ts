@@ -0,0 +1,225 @@
+/**
+ * Score Listings Job
+ *
+ * Recomputes the quality and scam-risk scores (see ../quality.ts) for every
+ * active listing: prices are compared with the listing's segment in the
+ * latest RentalIndexDaily and with the other active listings in that
+ * segment, photos with every other active unit. Only listings whose result
+ * changed are written. Runs after each index build.
+ *
+ * Photo reuse compares `imageHashesJson`. Clustering and image hosting only
+ * hash some listings, so listings still without hashes are hashed here,
+ * newest first and capped per run, until every active listing has them.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { ListingRiskLevel } from "@prisma/client";
+import { CLUSTER_IMAGES_PER_LISTING, SCORE_MAX_IMAGE_HASHES } from "../config";
+import { computeImageHash } from "../imageHash";
+import { parseSourceUrls } from "../listingImages";
+import { countReusedImageUnits, scoreListingQuality } from "../quality";
+import { type PipelineLogFn, type PipelineProgressFn, noopLogger, noopProgress } from "../pipelineLogger";
+
+export interface ScoreListingsOptions {
+  /** Max listings to fetch image hashes for this run */
+  maxImageHashes?: number;
+}
+
+export interface ScoreListingsResult {
+  jobRunId: string;
+  /** Listings whose scores or flags changed */
+  updated: number;
+  /** Active listings now at HIGH risk */
+  highRisk: number;
+}
+
+const CHUNK = 200;
+
+/** Same grouping as RentalIndexDaily */
+function segmentKey(l: { city: string; district: string | null; bedrooms: number | null; propertyType: string }): string {
+  return `${l.city}|${l.district ?? ""}|${l.bedrooms ?? -1}|${l.propertyType}`;
+}
+
+function parseHashes(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr) ? arr.filter((h): h is string => typeof h === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Score all active listings and persist the changes.
+ */
+export async function scoreListingsJob(
+  options?: ScoreListingsOptions,
+  log: PipelineLogFn = noopLogger,
+  progress: PipelineProgressFn = noopProgress
+): Promise<ScoreListingsResult> {
+  const maxImageHashes = options?.maxImageHashes ?? SCORE_MAX_IMAGE_HASHES;
+
+  const jobRun = await prisma.jobRun.create({
+    data: {
+      jobType: "SCORE_LISTINGS",
+      source: null,
+      status: "SUCCESS",
+      startedAt: new Date(),
+    },
+  });
+
+  try {
+    const startTime = Date.now();
+    progress({ phase: "score", percent: 5, label: "Loading listings…" });
+
+    const listings = await prisma.rentalListing.findMany({
+      where: { isActive: true },
+      orderBy: { firstSeenAt: "desc" },
+      select: {
+        id: true,
+        city: true,
+        district: true,
+        bedrooms: true,
+        propertyType: true,
+        priceMonthlyUsd: true,
+        sizeSqm: true,
+        imageUrlsJson: true,
+        imageHashesJson: true,
+        description: true,
+        clusterId: true,
+        isClusterPrimary: true,
+        qualityScore: true,
+        riskScore: true,
+        qualityFlagsJson: true,
+        aiReviews: {
+          orderBy: { reviewedAt: "desc" },
+          take: 1,
+          select: { flagged: true, isResidential: true, confidence: true },
+        },
+      },
+    });
+    log("info", `Scoring ${listings.length} active listings`);
+
+    // Segment prices — one per unit, like the index
+    const segmentPrices = new Map<string, number[]>();
+    for (const l of listings) {
+      if (!l.isClusterPrimary || l.priceMonthlyUsd === null) continue;
+      const key = segmentKey(l);
+      const prices = segmentPrices.get(key) ?? [];
+      prices.push(l.priceMonthlyUsd);
+      segmentPrices.set(key, prices);
+    }
+
+    // Latest index medians
+    const latest = await prisma.rentalIndexDaily.findFirst({ orderBy: { date: "desc" }, select: { date: true } });
+    const indexMedians = new Map<string, number>();
+    if (latest) {
+      const rows = await prisma.rentalIndexDaily.findMany({
+        where: { date: latest.date, medianPriceUsd: { not: null } },
+        select: { city: true, district: true, bedrooms: true, propertyType: true, medianPriceUsd: true },
+      });
+      for (const r of rows) {
+        // Older rows may carry the upsert lookup's "" / -1 placeholders
+        const district = r.district || null;
+        const bedrooms = r.bedrooms === -1 ? null : r.bedrooms;
+        indexMedians.set(segmentKey({ ...r, district, bedrooms }), r.medianPriceUsd!);
+      }
+      log("info", `Using ${rows.length} index segments from ${latest.date.toISOString().slice(0, 10)}`);
+    } else {
+      log("warn", "No RentalIndexDaily rows yet — price checks use listing prices only");
+    }
+
+    // ── Hash photos the reuse check hasn't seen yet ──
+    const toHash = listings
+      .filter((l) => l.imageHashesJson === null && parseSourceUrls(l.imageUrlsJson).length > 0)
+      .slice(0, maxImageHashes);
+    if (toHash.length > 0) {
+      log("info", `Hashing images for ${toHash.length} listings`);
+      progress({ phase: "score", percent: 10, label: `Hashing images for ${toHash.length} listings…` });
+      for (const l of toHash) {
+        const hashes: string[] = [];
+        for (const url of parseSourceUrls(l.imageUrlsJson).slice(0, CLUSTER_IMAGES_PER_LISTING)) {
+          const hash = await computeImageHash(url);
+          if (hash) hashes.push(hash);
+        }
+        l.imageHashesJson = JSON.stringify(hashes);
+        await prisma.rentalListing.update({ where: { id: l.id }, data: { imageHashesJson: l.imageHashesJson } });
+      }
+    }
+
+    const reused = countReusedImageUnits(
+      listings.map((l) => ({ id: l.id, clusterId: l.clusterId, imageHashes: parseHashes(l.imageHashesJson) })),
+    );
+    progress({ phase: "score", percent: 30, label: "Scoring…" });
+
+    const changed: { id: string; qualityScore: number; riskScore: number; riskLevel: ListingRiskLevel; qualityFlagsJson: string }[] = [];
+    let highRisk = 0;
+    for (const l of listings) {
+      const key = segmentKey(l);
+      const result = scoreListingQuality(l, {
+        segmentPrices: segmentPrices.get(key) ?? [],
+        indexMedianUsd: indexMedians.get(key) ?? null,
+        reusedImageUnits: reused.get(l.id) ?? 0,
+        aiReview: l.aiReviews[0] ?? null,
+      });
+      if (result.riskLevel === "HIGH") highRisk++;
+
+      const flagsJson = JSON.stringify(result.flags);
+      if (l.qualityScore !== result.qualityScore || l.riskScore !== result.riskScore || l.qualityFlagsJson !== flagsJson) {
+        changed.push({
+          id: l.id,
+          qualityScore: result.qualityScore,
+          riskScore: result.riskScore,
+          riskLevel: result.riskLevel,
+          qualityFlagsJson: flagsJson,
+        });
+      }
+    }
+    log("info", `${changed.length} listings changed, ${highRisk} at high risk`);
+
+    const now = new Date();
+    for (let i = 0; i < changed.length; i += CHUNK) {
+      await prisma.$transaction(
+        changed.slice(i, i + CHUNK).map(({ id, ...data }) =>
+          prisma.rentalListing.update({ where: { id }, data: { ...data, qualityScoredAt: now } }),
+        ),
+      );
+      progress({
+        phase: "score",
+        percent: 30 + Math.round((Math.min(i + CHUNK, changed.length) / changed.length) * 70),
+        label: `Saved ${Math.min(i + CHUNK, changed.length)}/${changed.length} scores…`,
+      });
+    }
+
+    const durationMs = Date.now() - startTime;
+    log("info", `✔ Scoring done in ${(durationMs / 1000).toFixed(1)}s — ${changed.length} listings updated`);
+    progress({ phase: "score", percent: 100, label: `Done — ${highRisk} high-risk listings` });
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCESS",
+        endedAt: new Date(),
+        durationMs,
+        processedCount: listings.length,
+        updatedCount: changed.length,
+      },
+    });
+
+    return { jobRunId: jobRun.id, updated: changed.length, highRisk };
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    log("error", `Score listings job failed: ${msg}`);
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        endedAt: new Date(),
+        durationMs: Date.now() - jobRun.startedAt.getTime(),
+        errorMessage: msg.slice(0, 2000),
+      },
+    });
+    return { jobRunId: jobRun.id, updated: 0, highRisk: 0 };
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Field-level diffs between what we have stored for a listing and what a
+ * new scrape says, for the per-listing change log (`RentalListingChange`).
+ *
+ * Snapshots already track price, district, bedrooms and type; this covers
+ * what they don't — title, description, photos, amenities, coordinates
+ * and size. Diffs are compact: long text keeps only the changed window,
+ * lists keep only what was added or removed.
+ */
+
+import { haversineKm } from "./geoSearch";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+/** The tracked fields, as stored on `RentalListing` */
+export interface ListingDiffState {
+  title: string;
+  description: string | null;
+  imageUrlsJson: string | null;
+  amenitiesJson: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  sizeSqm: number | null;
+}
+
+/** Text edit: `removed` at offset `at` was replaced by `added` */
+export interface TextDiff {
+  field: "title" | "description";
+  at: number;
+  removed: string;
+  added: string;
+  /** Set when the old or new text was empty */
+  from?: null;
+  to?: null;
+}
+
+export interface ListDiff {
+  field: "images" | "amenities";
+  added: string[];
+  removed: string[];
+  /** Same items, different order (e.g. a new cover photo) */
+  reordered?: true;
+}
+
+export interface CoordinatesDiff {
+  field: "coordinates";
+  from: [number, number] | null;
+  to: [number, number] | null;
+  /** Distance moved, when both ends are known */
+  movedM?: number;
+}
+
+export interface NumberDiff {
+  field: "sizeSqm";
+  from: number | null;
+  to: number | null;
+}
+
+export type ListingFieldDiff = TextDiff | ListDiff | CoordinatesDiff | NumberDiff;
+
+export type ListingDiffField = ListingFieldDiff["field"];
+
+export const LISTING_DIFF_LABELS: Record<ListingDiffField, string> = {
+  title: "Title",
+  description: "Description",
+  images: "Photos",
+  amenities: "Amenities",
+  coordinates: "Location",
+  sizeSqm: "Size",
+};
+
+/** Longest stretch of changed text kept on each side of a text diff */
+export const TEXT_DIFF_MAX_CHARS = 500;
+
+/** Coordinate changes smaller than this are geocoding noise (m) */
+export const COORDINATE_TOLERANCE_M = 25;
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function parseList(json: string | null): string[] {
+  if (!json) return [];
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr) ? arr.filter((v): v is string => typeof v === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function clip(text: string): string {
+  return text.length > TEXT_DIFF_MAX_CHARS ? text.slice(0, TEXT_DIFF_MAX_CHARS) + "…" : text;
+}
+
+/** Collapse whitespace so re-flowed HTML doesn't count as an edit */
+function normaliseText(text: string | null): string {
+  return (text ?? "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * The smallest window that differs between two strings (common prefix and
+ * suffix trimmed), or null if they're equal.
+ */
+export function textDiff(field: TextDiff["field"], before: string | null, after: string | null): TextDiff | null {
+  const a = normaliseText(before);
+  const b = normaliseText(after);
+  if (a === b) return null;
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return {
+    field,
+    at: start,
+    removed: clip(a.slice(start, endA)),
+    added: clip(b.slice(start, endB)),
+    ...(a === "" ? { from: null } : {}),
+    ...(b === "" ? { to: null } : {}),
+  };
+}
+
+function listDiff(field: ListDiff["field"], before: string[], after: string[]): ListDiff | null {
+  const was = new Set(before);
+  const now = new Set(after);
+  const added = after.filter((v) => !was.has(v));
+  const removed = before.filter((v) => !now.has(v));
+  if (added.length > 0 || removed.length > 0) return { field, added, removed };
+  if (before.join("\n") !== after.join("\n")) return { field, added: [], removed: [], reordered: true };
+  return null;
+}
+
+function point(lat: number | null, lng: number | null): [number, number] | null {
+  return lat !== null && lng !== null ? [lat, lng] : null;
+}
+
+/* ── Diff ────────────────────────────────────────────────── */
+
+/** Every tracked field that differs between the stored listing and the update. */
+export function diffListing(before: ListingDiffState, after: ListingDiffState): ListingFieldDiff[] {
+  const diffs: ListingFieldDiff[] = [];
+
+  const title = textDiff("title", before.title, after.title);
+  if (title) diffs.push(title);
+  const description = textDiff("description", before.description, after.description);
+  if (description) diffs.push(description);
+
+  const images = listDiff("images", parseList(before.imageUrlsJson), parseList(after.imageUrlsJson));
+  if (images) diffs.push(images);
+  // Amenity order carries no meaning
+  const amenities = listDiff("amenities", parseList(before.amenitiesJson).sort(), parseList(after.amenitiesJson).sort());
+  if (amenities) diffs.push(amenities);
+
+  const from = point(before.latitude, before.longitude);
+  const to = point(after.latitude, after.longitude);
+  if (from && to) {
+    const movedM = Math.round(haversineKm(from[0], from[1], to[0], to[1]) * 1000);
+    if (movedM >= COORDINATE_TOLERANCE_M) diffs.push({ field: "coordinates", from, to, movedM });
+  } else if (from || to) {
+    diffs.push({ field: "coordinates", from, to });
+  }
+
+  if ((before.sizeSqm ?? null) !== (after.sizeSqm ?? null)) {
+    diffs.push({ field: "sizeSqm", from: before.sizeSqm, to: after.sizeSqm });
+  }
+
+  return diffs;
+}
+
+/** One-line summary of a diff, for timelines and logs. */
+export function describeDiff(d: ListingFieldDiff): string {
+  switch (d.field) {
+    case "title":
+    case "description":
+      if (d.from === null) return "added";
+      if (d.to === null) return "removed";
+      if (!d.removed) return `inserted "${d.added}"`;
+      if (!d.added) return `deleted "${d.removed}"`;
+      return `"${d.removed}" → "${d.added}"`;
+    case "images":
+    case "amenities": {
+      if (d.reordered) return "reordered";
+      const parts: string[] = [];
+      if (d.added.length > 0) parts.push(`+${d.added.length}`);
+      if (d.removed.length > 0) parts.push(`−${d.removed.length}`);
+      return parts.join(" ");
+    }
+    case "coordinates":
+      if (!d.from) return "pinned";
+      if (!d.to) return "pin removed";
+      return `moved ${d.movedM !== undefined && d.movedM >= 1000 ? `${(d.movedM / 1000).toFixed(1)} km` : `${d.movedM} m`}`;
+    case "sizeSqm":
+      return `${d.from ?? "?"} → ${d.to ?? "?"} sqm`;
+  }
+}
+
+/** `RentalListingChange.changesJson` → diffs (empty on bad JSON). */
+export function parseListingChanges(json: string | null): ListingFieldDiff[] {
+  if (!json) return [];
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr) ? (arr as ListingFieldDiff[]) : [];
+  } catch {
+    return [];
+  }
+}
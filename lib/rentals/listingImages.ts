@@ -0,0 +1,108 @@
+/**
+ * Hosted listing photos: the refs `hostListingImagesJob` stores on a
+ * listing (`hostedImagesJson`) and the URLs galleries load them from.
+ *
+ * Every hosted photo is stored at a few widths, each as WebP and JPEG:
+ *
+ *   <base>/320.webp  <base>/320.jpg
+ *   <base>/640.webp  <base>/640.jpg  …
+ *
+ * `base` is the storage URL prefix (Vercel Blob, or /api/rentals/images/…
+ * for the local store). Galleries show every `imageUrlsJson` photo, from
+ * its hosted copy where there is one and hotlinked otherwise.
+ */
+
+/* ── Variants ────────────────────────────────────────────── */
+
+/** Widths generated for each photo (never wider than the original) */
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1280];
+
+export type ImageVariantFormat = "webp" | "jpg";
+
+/** Widths to generate for an original `width` px wide. */
+export function variantWidths(width: number): number[] {
+  const widths = IMAGE_VARIANT_WIDTHS.filter((w) => w < width);
+  // Top variant is the original size when it falls between steps
+  const top = Math.min(width, IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1]);
+  if (!widths.includes(top)) widths.push(top);
+  return widths;
+}
+
+/* ── Refs ────────────────────────────────────────────────── */
+
+/** One hosted photo, as stored in `RentalListing.hostedImagesJson` */
+export interface HostedImageRef {
+  /** The source URL it was downloaded from (an `imageUrlsJson` entry) */
+  src: string;
+  /** `RentalImage.id` — shared by every listing using the same photo */
+  id: string;
+  /** Storage URL prefix the variants live under */
+  base: string;
+  /** Variant widths available, ascending */
+  widths: number[];
+  /** Near-identical source photos this one stands in for (left out of galleries) */
+  duplicates?: string[];
+}
+
+export function parseHostedImages(json: string | null): HostedImageRef[] {
+  if (!json) return [];
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr)
+      ? arr.filter(
+          (r): r is HostedImageRef =>
+            r && typeof r.base === "string" && Array.isArray(r.widths) && r.widths.length > 0,
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** URL of the narrowest variant at least `width` px wide (else the widest). */
+export function hostedImageUrl(ref: HostedImageRef, width: number, format: ImageVariantFormat): string {
+  const w = ref.widths.find((v) => v >= width) ?? ref.widths[ref.widths.length - 1];
+  return `${ref.base}/${w}.${format}`;
+}
+
+/** `srcset` listing every variant of one format. */
+export function hostedImageSrcSet(ref: HostedImageRef, format: ImageVariantFormat): string {
+  return ref.widths.map((w) => `${ref.base}/${w}.${format} ${w}w`).join(", ");
+}
+
+/* ── Gallery photos ──────────────────────────────────────── */
+
+export interface ListingPhoto {
+  /** Source URL — shown directly when `hosted` is null */
+  src: string;
+  hosted: HostedImageRef | null;
+}
+
+/**
+ * The photos to show for a listing: every source photo in order, from its
+ * hosted copy where there is one. Sources hosted as a near-duplicate of
+ * another photo are left out; ones not hosted (yet) are hotlinked.
+ */
+export function listingPhotos(imageUrlsJson: string | null, hostedImagesJson: string | null): ListingPhoto[] {
+  const hosted = new Map<string, HostedImageRef>();
+  const duplicates = new Set<string>();
+  for (const ref of parseHostedImages(hostedImagesJson)) {
+    hosted.set(ref.src, ref);
+    for (const src of ref.duplicates ?? []) duplicates.add(src);
+  }
+
+  return parseSourceUrls(imageUrlsJson)
+    .filter((src) => !duplicates.has(src))
+    .map((src) => ({ src, hosted: hosted.get(src) ?? null }));
+}
+
+/** The absolute photo URLs in `imageUrlsJson`, in order. */
+export function parseSourceUrls(imageUrlsJson: string | null): string[] {
+  if (!imageUrlsJson) return [];
+  try {
+    const arr = JSON.parse(imageUrlsJson);
+    return Array.isArray(arr) ? arr.filter((u: unknown): u is string => typeof u === "string" && u.startsWith("http")) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Public district market reports (`/rentals/market/[city]/[district]`):
+ * median rent by bedroom count, the monthly trend and supply, built from
+ * RentalIndexMonthly with the same weighting as the analytics dashboard
+ * (lib/analytics/calculateStats.ts).
+ *
+ * Loading and regeneration live in ./marketReportStore.ts.
+ */
+
+import {
+  computeDistribution,
+  computeTrend,
+  weightedMedian,
+  weightedPercentile,
+  type DistributionBucket,
+  type IndexRow,
+} from "@/lib/analytics/calculateStats";
+import { MARKET_MIN_LISTINGS, MARKET_TREND_MONTHS } from "./config";
+
+/** A RentalIndexMonthly row, as selected by the store */
+export interface MonthlyIndexRow {
+  yearMonth: string;
+  city: string;
+  district: string | null;
+  bedrooms: number | null;
+  propertyType: string;
+  listingCount: number;
+  medianRent: number | null;
+  meanRent: number | null;
+  p25Rent: number | null;
+  p75Rent: number | null;
+}
+
+/* ── Slugs ───────────────────────────────────────────────── */
+
+/** "Toul Tompong 1" → "toul-tompong-1" */
+export function marketSlug(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function marketPath(city: string, district: string): string {
+  return `/rentals/market/${marketSlug(city)}/${marketSlug(district)}`;
+}
+
+/* ── Districts ───────────────────────────────────────────── */
+
+export interface MarketDistrict {
+  city: string;
+  district: string;
+  citySlug: string;
+  districtSlug: string;
+  /** Latest month with index rows, "YYYY-MM" */
+  latestMonth: string;
+  /** Listings in the latest month */
+  listingCount: number;
+}
+
+/**
+ * Districts with enough listings in their latest month for a page,
+ * busiest first. When two names share a slug the busier one wins.
+ */
+export function listMarketDistricts(
+  rows: Pick<MonthlyIndexRow, "yearMonth" | "city" | "district" | "listingCount">[],
+  minListings: number = MARKET_MIN_LISTINGS,
+): MarketDistrict[] {
+  const latest = new Map<string, MarketDistrict>();
+  for (const r of rows) {
+    if (!r.district) continue;
+    const key = `${r.city}|${r.district}`;
+    const d = latest.get(key);
+    if (!d || r.yearMonth > d.latestMonth) {
+      latest.set(key, {
+        city: r.city,
+        district: r.district,
+        citySlug: marketSlug(r.city),
+        districtSlug: marketSlug(r.district),
+        latestMonth: r.yearMonth,
+        listingCount: r.listingCount,
+      });
+    } else if (r.yearMonth === d.latestMonth) {
+      d.listingCount += r.listingCount;
+    }
+  }
+
+  const bySlug = new Map<string, MarketDistrict>();
+  const sorted = [...latest.values()]
+    .filter((d) => d.listingCount >= minListings && d.citySlug && d.districtSlug)
+    .sort((a, b) => b.listingCount - a.listingCount || a.district.localeCompare(b.district));
+  for (const d of sorted) {
+    const key = `${d.citySlug}/${d.districtSlug}`;
+    if (!bySlug.has(key)) bySlug.set(key, d);
+  }
+  return [...bySlug.values()];
+}
+
+/* ── Report ──────────────────────────────────────────────── */
+
+export interface BedroomRent {
+  /** 0 = studio; 4 covers four bedrooms or more */
+  bedrooms: number;
+  label: string;
+  medianRent: number | null;
+  p25Rent: number | null;
+  p75Rent: number | null;
+  listingCount: number;
+}
+
+export interface MarketTrendPoint {
+  month: string;
+  medianRent: number | null;
+  p25Rent: number | null;
+  p75Rent: number | null;
+  listingCount: number;
+}
+
+export interface MarketReport {
+  latestMonth: string;
+  firstMonth: string;
+  medianRent: number | null;
+  listingCount: number;
+  /** % change in median rent on the previous month / the same month last year */
+  changeMonth: number | null;
+  changeYear: number | null;
+  /** % change in listings on the previous month */
+  supplyChange: number | null;
+  byBedroom: BedroomRent[];
+  trend: MarketTrendPoint[];
+  distribution: DistributionBucket[];
+}
+
+/** "2026-10" → 1 Oct 2026 UTC, the date the index functions key rows on */
+export function monthDate(yearMonth: string): Date {
+  const [y, m] = yearMonth.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, 1));
+}
+
+/** "2026-10" shifted by `delta` months */
+export function shiftMonth(yearMonth: string, delta: number): string {
+  const d = monthDate(yearMonth);
+  d.setUTCMonth(d.getUTCMonth() + delta);
+  return d.toISOString().slice(0, 7);
+}
+
+/** "2026-10" → "October 2026" */
+export function formatMonth(yearMonth: string): string {
+  return monthDate(yearMonth).toLocaleString("en-US", { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+export function monthlyToIndexRows(rows: MonthlyIndexRow[]): IndexRow[] {
+  return rows
+    .map((r) => ({
+      date: monthDate(r.yearMonth),
+      city: r.city,
+      district: r.district,
+      bedrooms: r.bedrooms,
+      propertyType: r.propertyType,
+      listingCount: r.listingCount,
+      medianPriceUsd: r.medianRent,
+      meanPriceUsd: r.meanRent,
+      p25PriceUsd: r.p25Rent,
+      p75PriceUsd: r.p75Rent,
+    }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+const BEDROOM_BANDS: { bedrooms: number; label: string; match: (b: number) => boolean }[] = [
+  { bedrooms: 0, label: "Studio", match: (b) => b === 0 },
+  { bedrooms: 1, label: "1 bedroom", match: (b) => b === 1 },
+  { bedrooms: 2, label: "2 bedrooms", match: (b) => b === 2 },
+  { bedrooms: 3, label: "3 bedrooms", match: (b) => b === 3 },
+  { bedrooms: 4, label: "4+ bedrooms", match: (b) => b >= 4 },
+];
+
+function pctChange(now: number | null, then: number | null): number | null {
+  if (now === null || then === null || then === 0) return null;
+  return Math.round(((now - then) / then) * 1000) / 10;
+}
+
+/**
+ * Report for one district from its monthly index rows (every bedroom
+ * count and property type). Null when there are no rows.
+ */
+export function buildMarketReport(rows: MonthlyIndexRow[], months: number = MARKET_TREND_MONTHS): MarketReport | null {
+  if (rows.length === 0) return null;
+
+  const byMonth = new Map<string, IndexRow[]>();
+  for (const r of monthlyToIndexRows(rows)) {
+    const ym = r.date.toISOString().slice(0, 7);
+    if (!byMonth.has(ym)) byMonth.set(ym, []);
+    byMonth.get(ym)!.push(r);
+  }
+  const allMonths = [...byMonth.keys()].sort();
+  const latestMonth = allMonths[allMonths.length - 1];
+  const latest = byMonth.get(latestMonth)!;
+  const count = (ym: string) => byMonth.get(ym)?.reduce((s, r) => s + r.listingCount, 0) ?? null;
+  const median = (ym: string) => {
+    const monthRows = byMonth.get(ym);
+    return monthRows ? weightedMedian(monthRows) : null;
+  };
+
+  const byBedroom: BedroomRent[] = [];
+  for (const band of BEDROOM_BANDS) {
+    const bandRows = latest.filter((r) => r.bedrooms !== null && band.match(r.bedrooms));
+    if (bandRows.length === 0) continue;
+    byBedroom.push({
+      bedrooms: band.bedrooms,
+      label: band.label,
+      medianRent: weightedMedian(bandRows),
+      p25Rent: weightedPercentile(bandRows, "p25PriceUsd"),
+      p75Rent: weightedPercentile(bandRows, "p75PriceUsd"),
+      listingCount: bandRows.reduce((s, r) => s + r.listingCount, 0),
+    });
+  }
+
+  const firstMonth = allMonths.find((ym) => ym > shiftMonth(latestMonth, -months)) ?? latestMonth;
+  const windowRows = allMonths.filter((ym) => ym >= firstMonth).flatMap((ym) => byMonth.get(ym)!);
+  const trend = computeTrend(windowRows).map((p) => ({
+    month: p.date.slice(0, 7),
+    medianRent: p.median,
+    p25Rent: p.p25,
+    p75Rent: p.p75,
+    listingCount: p.listingCount,
+  }));
+
+  const medianRent = median(latestMonth);
+  const listingCount = count(latestMonth) ?? 0;
+  const prevCount = count(shiftMonth(latestMonth, -1));
+
+  return {
+    latestMonth,
+    firstMonth,
+    medianRent,
+    listingCount,
+    changeMonth: pctChange(medianRent, median(shiftMonth(latestMonth, -1))),
+    changeYear: pctChange(medianRent, median(shiftMonth(latestMonth, -12))),
+    supplyChange: pctChange(listingCount, prevCount),
+    byBedroom,
+    trend,
+    distribution: computeDistribution(latest),
+  };
+}
+
+/* ── Copy & structured data ──────────────────────────────── */
+
+const usd = (v: number) => `$${Math.round(v).toLocaleString("en-US")}`;
+
+function changePhrase(change: number, against: string): string {
+  if (Math.abs(change) < 0.5) return `flat on ${against}`;
+  return `${change > 0 ? "up" : "down"} ${Math.abs(change).toFixed(1)}% on ${against}`;
+}
+
+/** Opening paragraph of a market page — also its meta description. */
+export function marketSummary(city: string, district: string, report: MarketReport): string {
+  const place = `${district}, ${city}`;
+  const month = formatMonth(report.latestMonth);
+  const parts: string[] = [];
+
+  if (report.medianRent !== null) {
+    parts.push(
+      `The median asking rent in ${place} was ${usd(report.medianRent)} a month in ${month}, ` +
+        `across ${report.listingCount.toLocaleString("en-US")} listings.`,
+    );
+  } else {
+    parts.push(`${report.listingCount.toLocaleString("en-US")} rental listings in ${place} in ${month}.`);
+  }
+
+  const one = report.byBedroom.find((b) => b.bedrooms === 1)?.medianRent;
+  const two = report.byBedroom.find((b) => b.bedrooms === 2)?.medianRent;
+  if (one != null && two != null) {
+    parts.push(`One-bedroom homes had a median of ${usd(one)} and two-bedroom homes ${usd(two)}.`);
+  } else if (one != null || two != null) {
+    parts.push(`${one != null ? "One" : "Two"}-bedroom homes had a median of ${usd((one ?? two)!)}.`);
+  }
+
+  const changes = [
+    report.changeMonth !== null ? changePhrase(report.changeMonth, "the month before") : null,
+    report.changeYear !== null ? changePhrase(report.changeYear, "a year earlier") : null,
+  ].filter(Boolean);
+  if (changes.length > 0) parts.push(`Rents are ${changes.join(" and ")}.`);
+
+  return parts.join(" ");
+}
+
+/** schema.org Dataset describing the page's figures */
+export function marketJsonLd(
+  city: string,
+  district: string,
+  report: MarketReport,
+  opts: { url: string; siteName: string; siteUrl: string },
+): Record<string, unknown> {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Dataset",
+    name: `Rent prices in ${district}, ${city}`,
+    description: marketSummary(city, district, report),
+    url: opts.url,
+    temporalCoverage: `${report.firstMonth}/${report.latestMonth}`,
+    dateModified: report.latestMonth,
+    isAccessibleForFree: true,
+    creator: { "@type": "Organization", name: opts.siteName, url: opts.siteUrl },
+    spatialCoverage: {
+      "@type": "Place",
+      name: `${district}, ${city}`,
+      address: {
+        "@type": "PostalAddress",
+        addressLocality: district,
+        addressRegion: city,
+        addressCountry: "KH",
+      },
+    },
+    variableMeasured: [
+      ...(report.medianRent !== null
+        ? [{ "@type": "PropertyValue", name: "Median monthly rent", value: Math.round(report.medianRent), unitText: "USD" }]
+        : []),
+      ...report.byBedroom
+        .filter((b) => b.medianRent !== null)
+        .map((b) => ({
+          "@type": "PropertyValue",
+          name: `Median monthly rent, ${b.label.toLowerCase()}`,
+          value: Math.round(b.medianRent!),
+          unitText: "USD",
+        })),
+      { "@type": "PropertyValue", name: "Listings", value: report.listingCount },
+    ],
+  };
+}
@@ -0,0 +1,148 @@
+/**
+ * Loading for the public district market pages, and their regeneration
+ * after each index build. The report itself is built in ./marketReport.ts.
+ */
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { MARKET_EXAMPLE_LISTINGS, MARKET_TREND_MONTHS } from "./config";
+import {
+  buildMarketReport,
+  listMarketDistricts,
+  shiftMonth,
+  type MarketDistrict,
+  type MarketReport,
+} from "./marketReport";
+import { buildMonthlyIndexJob } from "./jobs/buildMonthlyIndex";
+import { type PipelineLogFn, noopLogger } from "./pipelineLogger";
+
+/** Only months inside the trend window (plus the year-ago month) are read */
+function lookbackStart(): string {
+  return shiftMonth(new Date().toISOString().slice(0, 7), -MARKET_TREND_MONTHS);
+}
+
+/** Districts that get a page, busiest first. */
+export async function loadMarketDistricts(): Promise<MarketDistrict[]> {
+  const rows = await prisma.rentalIndexMonthly.findMany({
+    where: { district: { not: null }, yearMonth: { gte: lookbackStart() } },
+    select: { yearMonth: true, city: true, district: true, listingCount: true },
+  });
+  return listMarketDistricts(rows);
+}
+
+export interface MarketPageData {
+  district: MarketDistrict;
+  report: MarketReport;
+  /** Other districts in the same city, for internal links */
+  nearby: MarketDistrict[];
+  examples: {
+    id: string;
+    title: string;
+    titleRewritten: string | null;
+    city: string;
+    district: string | null;
+    propertyType: string;
+    bedrooms: number | null;
+    bathrooms: number | null;
+    priceMonthlyUsd: number | null;
+    imageUrlsJson: string | null;
+    hostedImagesJson: string | null;
+  }[];
+}
+
+/** Everything a market page renders, or null for an unknown / thin district. */
+export async function loadMarketPage(citySlug: string, districtSlug: string): Promise<MarketPageData | null> {
+  const districts = await loadMarketDistricts();
+  const district = districts.find((d) => d.citySlug === citySlug && d.districtSlug === districtSlug);
+  if (!district) return null;
+
+  const [rows, examples] = await Promise.all([
+    prisma.rentalIndexMonthly.findMany({
+      where: { city: district.city, district: district.district, yearMonth: { gte: lookbackStart() } },
+      select: {
+        yearMonth: true,
+        city: true,
+        district: true,
+        bedrooms: true,
+        propertyType: true,
+        listingCount: true,
+        medianRent: true,
+        meanRent: true,
+        p25Rent: true,
+        p75Rent: true,
+      },
+    }),
+    prisma.rentalListing.findMany({
+      where: {
+        isActive: true,
+        isClusterPrimary: true,
+        city: district.city,
+        district: district.district,
+        priceMonthlyUsd: { not: null },
+      },
+      select: {
+        id: true,
+        title: true,
+        titleRewritten: true,
+        city: true,
+        district: true,
+        propertyType: true,
+        bedrooms: true,
+        bathrooms: true,
+        priceMonthlyUsd: true,
+        imageUrlsJson: true,
+        hostedImagesJson: true,
+      },
+      orderBy: [{ qualityScore: "desc" }, { lastSeenAt: "desc" }],
+      take: MARKET_EXAMPLE_LISTINGS,
+    }),
+  ]);
+
+  const report = buildMarketReport(rows);
+  if (!report) return null;
+
+  return {
+    district,
+    report,
+    nearby: districts.filter((d) => d.citySlug === citySlug && d.districtSlug !== districtSlug),
+    examples,
+  };
+}
+
+/* ── Regeneration ────────────────────────────────────────── */
+
+export interface RefreshMarketPagesResult {
+  monthlyRows: number;
+  /** False outside a Next.js request (CLI scripts) — pages then regenerate on their timer */
+  revalidated: boolean;
+}
+
+/**
+ * Roll the daily index up into the month(s) just indexed, then ask Next
+ * to regenerate the market pages and the sitemap. Called after each index
+ * build; `dates` are the days it built.
+ */
+export async function refreshMarketPages(
+  dates: Date[],
+  log: PipelineLogFn = noopLogger,
+): Promise<RefreshMarketPagesResult> {
+  let monthlyRows = 0;
+  const months = [...new Set(dates.map((d) => d.toISOString().slice(0, 7)))];
+  for (const yearMonth of months) {
+    const r = await buildMonthlyIndexJob({ yearMonth }, log);
+    monthlyRows += r.rowsUpserted;
+  }
+
+  let revalidated = false;
+  try {
+    revalidatePath("/rentals/market/[city]/[district]", "page");
+    revalidatePath("/sitemap.xml");
+    revalidated = true;
+    log("info", `Market pages queued for regeneration (${months.join(", ")})`);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    log("debug", `Market pages not revalidated outside Next.js: ${msg}`);
+  }
+
+  return { monthlyRows, revalidated };
+}
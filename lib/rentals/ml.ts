@@ -1,13 +1,22 @@
 /**
- * ML Feature Stubs for Rental Pipeline
+ * ML Features for Rental Pipeline
  *
- * All ML features are behind environment flags and disabled by default.
- * - RENTALS_ML_ENABLED=false   → rule-based district normalization, dedup
- * - RENTALS_EMBEDDINGS_ENABLED=false → external embedding API calls
+ * Most ML features are behind environment flags and disabled by default
+ * (trigram similarity, the ungated outlier tests, local embeddings and
+ * trend forecasting always run; see their docs).
+ * - RENTALS_ML_ENABLED=false   → rule-based district normalization, outliers
+ * - RENTALS_EMBEDDINGS_ENABLED=false → external embedding provider
  */
 
-import { ML_ENABLED, EMBEDDINGS_ENABLED } from "./config";
+import {
+  ML_ENABLED,
+  EMBEDDINGS_ENABLED,
+  FORECAST_HORIZON_MONTHS,
+  FORECAST_MIN_MONTHS,
+  FORECAST_SEASONAL_MIN_MONTHS,
+} from "./config";
 import { DISTRICT_ALIASES } from "./ml/districtAliases";
+import { type EmbeddingProvider, getEmbeddingProvider } from "./ml/embeddings";
 
 /* ── ML Goal 1: District Normalization ───────────────────── */
 
@@ -30,10 +39,10 @@ export function normalizeDistrict(raw: string | null): string | null {
 
 /**
  * Compute trigram similarity between two strings (0..1).
- * Used for near-duplicate detection.
+ * Used for cross-source duplicate clustering (see cluster.ts), which runs
+ * on every index build, so it is not gated behind RENTALS_ML_ENABLED.
  */
 export function trigramSimilarity(a: string, b: string): number {
-  if (!ML_ENABLED) return 0;
   if (!a || !b) return 0;
 
   const trigramsA = getTrigrams(a.toLowerCase());
@@ -71,6 +80,18 @@ export function isPriceOutlier(
   multiplier = 1.5
 ): boolean {
   if (!ML_ENABLED) return false;
+  return iqrOutlier(price, prices, multiplier);
+}
+
+/**
+ * The IQR test behind isPriceOutlier. Listing risk scoring (see quality.ts)
+ * runs on every index build, so it uses this ungated version.
+ */
+export function iqrOutlier(
+  price: number,
+  prices: number[],
+  multiplier = 1.5
+): boolean {
   if (prices.length < 5) return false;
 
   const sorted = [...prices].sort((a, b) => a - b);
@@ -89,6 +110,15 @@ export function zScoreOutlier(
   threshold = 2.5
 ): boolean {
   if (!ML_ENABLED) return false;
+  return zScoreExceeds(price, prices, threshold);
+}
+
+/** The z-score test behind zScoreOutlier, ungated like iqrOutlier. */
+export function zScoreExceeds(
+  price: number,
+  prices: number[],
+  threshold = 2.5
+): boolean {
   if (prices.length < 5) return false;
 
   const mean = prices.reduce((a, b) => a + b, 0) / prices.length;
@@ -100,38 +130,165 @@ export function zScoreOutlier(
   return Math.abs((price - mean) / stdDev) > threshold;
 }
 
-/* ── ML Phase 2: Embeddings (stub) ───────────────────────── */
+/* ── ML Phase 2: Embeddings ──────────────────────────────── */
 
 /**
- * Batch compute embeddings for listing texts.
- * STUB: Returns empty array unless RENTALS_EMBEDDINGS_ENABLED is true.
- *
- * TODO Phase ML-2: Implement using Gemini embeddings API.
- * - Micro-batch up to 50 texts per call
- * - Cache by input hash
- * - Store vectors in DB for clustering
+ * Batch compute embeddings for listing texts with the active provider:
+ * the local hashing vectorizer, or a registered external provider when
+ * RENTALS_EMBEDDINGS_ENABLED is true (see ./ml/embeddings.ts).
+ * Texts are sent in chunks of the provider's batch size.
  */
 export async function computeEmbeddings(
-  _texts: string[]
+  texts: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider(EMBEDDINGS_ENABLED)
 ): Promise<number[][]> {
-  if (!EMBEDDINGS_ENABLED) return [];
-  // TODO: Implement external embedding API call
-  return [];
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += provider.batchSize) {
+    vectors.push(...(await provider.embed(texts.slice(i, i + provider.batchSize))));
+  }
+  return vectors;
 }
 
-/* ── ML Goal 3: Trend Forecasting (stub) ─────────────────── */
+/* ── ML Goal 3: Trend Forecasting ────────────────────────── */
+
+export interface ForecastPoint {
+  /** "YYYY-MM" */
+  month: string;
+  /** Months after the last observed month (1 = next month) */
+  horizon: number;
+  predicted: number;
+  lower80: number;
+  upper80: number;
+  lower95: number;
+  upper95: number;
+}
+
+export interface TrendForecast {
+  /** Deseasonalised trend, USD per month */
+  slope: number;
+  /** Fitted trend value at the first observed month */
+  intercept: number;
+  /** Whether monthly seasonal indices were applied */
+  seasonal: boolean;
+  trainingMonths: number;
+  residualStdDev: number;
+  points: ForecastPoint[];
+}
 
 /**
- * Simple linear regression for price trend forecasting.
- * STUB: Not required for MVP.
+ * Forecast a monthly price series.
  *
- * TODO: Implement linear regression on medianPriceUsd by date per district.
- * Store forecast results separately.
+ * Points are averaged into calendar months, then fitted with ordinary least
+ * squares on the month index. With at least FORECAST_SEASONAL_MIN_MONTHS of
+ * history, additive month-of-year indices are estimated from the detrended
+ * residuals and the trend is refitted on the deseasonalised series.
+ * Intervals are regression prediction intervals (t-distribution), so they
+ * widen with distance from the training window.
+ *
+ * Not gated behind RENTALS_ML_ENABLED: buildForecastJob runs on every index
+ * build. Returns null when there are fewer than FORECAST_MIN_MONTHS months.
  */
 export function forecastTrend(
-  _dataPoints: { date: Date; price: number }[]
-): { slope: number; intercept: number } | null {
-  if (!ML_ENABLED) return null;
-  // TODO: Implement simple linear regression
-  return null;
+  dataPoints: { date: Date; price: number }[],
+  horizonMonths = FORECAST_HORIZON_MONTHS
+): TrendForecast | null {
+  // Bucket into calendar months (absolute month number → mean price)
+  const buckets = new Map<number, { sum: number; n: number }>();
+  for (const p of dataPoints) {
+    if (!Number.isFinite(p.price) || p.price <= 0) continue;
+    const m = p.date.getUTCFullYear() * 12 + p.date.getUTCMonth();
+    const b = buckets.get(m) ?? { sum: 0, n: 0 };
+    b.sum += p.price;
+    b.n++;
+    buckets.set(m, b);
+  }
+
+  const months = [...buckets.keys()].sort((a, b) => a - b);
+  if (months.length < FORECAST_MIN_MONTHS) return null;
+
+  const first = months[0];
+  const xs = months.map((m) => m - first);
+  const ys = months.map((m) => buckets.get(m)!.sum / buckets.get(m)!.n);
+  const n = xs.length;
+
+  // Seasonal indices from the residuals of a plain linear fit
+  const seasonalIdx = new Array<number>(12).fill(0);
+  const seasonal = n >= FORECAST_SEASONAL_MIN_MONTHS;
+  if (seasonal) {
+    const raw = linearFit(xs, ys);
+    const sums = new Array<number>(12).fill(0);
+    const counts = new Array<number>(12).fill(0);
+    for (let i = 0; i < n; i++) {
+      const cal = months[i] % 12;
+      sums[cal] += ys[i] - (raw.intercept + raw.slope * xs[i]);
+      counts[cal]++;
+    }
+    const present = counts.filter((c) => c > 0).length;
+    for (let c = 0; c < 12; c++) seasonalIdx[c] = counts[c] > 0 ? sums[c] / counts[c] : 0;
+    // Centre so the indices don't shift the level
+    const centre = seasonalIdx.reduce((a, b) => a + b, 0) / present;
+    for (let c = 0; c < 12; c++) if (counts[c] > 0) seasonalIdx[c] -= centre;
+  }
+
+  const deseasonalised = ys.map((y, i) => y - seasonalIdx[months[i] % 12]);
+  const { slope, intercept, meanX, sxx } = linearFit(xs, deseasonalised);
+
+  const sse = deseasonalised.reduce((sum, y, i) => sum + (y - (intercept + slope * xs[i])) ** 2, 0);
+  const df = Math.max(1, n - 2 - (seasonal ? 11 : 0));
+  const sigma = Math.sqrt(sse / df);
+  const t80 = tQuantile(1.2816, df);
+  const t95 = tQuantile(1.96, df);
+
+  const points: ForecastPoint[] = [];
+  const lastX = xs[n - 1];
+  for (let h = 1; h <= horizonMonths; h++) {
+    const x0 = lastX + h;
+    const abs = first + x0;
+    const predicted = intercept + slope * x0 + seasonalIdx[abs % 12];
+    const se = sigma * Math.sqrt(1 + 1 / n + (sxx > 0 ? (x0 - meanX) ** 2 / sxx : 0));
+    points.push({
+      month: `${Math.floor(abs / 12)}-${String((abs % 12) + 1).padStart(2, "0")}`,
+      horizon: h,
+      predicted: round2(Math.max(0, predicted)),
+      lower80: round2(Math.max(0, predicted - t80 * se)),
+      upper80: round2(Math.max(0, predicted + t80 * se)),
+      lower95: round2(Math.max(0, predicted - t95 * se)),
+      upper95: round2(Math.max(0, predicted + t95 * se)),
+    });
+  }
+
+  return {
+    slope: round2(slope),
+    intercept: round2(intercept),
+    seasonal,
+    trainingMonths: n,
+    residualStdDev: round2(sigma),
+    points,
+  };
+}
+
+function linearFit(xs: number[], ys: number[]) {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { slope, intercept: meanY - slope * meanX, meanX, sxx };
+}
+
+/**
+ * Student-t quantile from the matching normal quantile `z`
+ * (Cornish–Fisher expansion; within ~1% for df ≥ 3).
+ */
+function tQuantile(z: number, df: number): number {
+  return z + (z ** 3 + z) / (4 * df) + (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * df ** 2);
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
 }
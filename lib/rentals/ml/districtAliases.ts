@@ -1,8 +1,9 @@
 /**
  * District alias mapping for ML Phase 1 (rule-based normalization).
  *
- * Maps common misspellings, abbreviations, and alternate names
- * to canonical district names for Phnom Penh.
+ * Maps common misspellings, abbreviations, alternate names and the Khmer
+ * script names to canonical district names for Phnom Penh. Also used to
+ * expand district names in /rentals text search (../textSearch.ts).
  */
 
 export const DISTRICT_ALIASES: Record<string, string> = {
@@ -14,6 +15,8 @@ export const DISTRICT_ALIASES: Record<string, string> = {
   "boeung keng kang i": "BKK1",
   "boeng keng kang 1": "BKK1",
   "boeng keng kang i": "BKK1",
+  "បឹងកេងកង ១": "BKK1",
+  "បឹងកេងកង១": "BKK1",
 
   // BKK2
   "bkk2": "BKK2",
@@ -21,6 +24,8 @@ export const DISTRICT_ALIASES: Record<string, string> = {
   "bkk-2": "BKK2",
   "boeung keng kang 2": "BKK2",
   "boeung keng kang ii": "BKK2",
+  "បឹងកេងកង ២": "BKK2",
+  "បឹងកេងកង២": "BKK2",
 
   // BKK3
   "bkk3": "BKK3",
@@ -28,23 +33,28 @@ export const DISTRICT_ALIASES: Record<string, string> = {
   "bkk-3": "BKK3",
   "boeung keng kang 3": "BKK3",
   "boeung keng kang iii": "BKK3",
+  "បឹងកេងកង ៣": "BKK3",
+  "បឹងកេងកង៣": "BKK3",
 
   // Tonle Bassac
   "tonle bassac": "Tonle Bassac",
   "tonle basac": "Tonle Bassac",
   "tonle basak": "Tonle Bassac",
   "bassac": "Tonle Bassac",
+  "ទន្លេបាសាក់": "Tonle Bassac",
 
   // Chamkarmon
   "chamkarmon": "Chamkarmon",
   "chamkar mon": "Chamkarmon",
   "chamkarmorn": "Chamkarmon",
+  "ចំការមន": "Chamkarmon",
 
   // Toul Kork
   "toul kork": "Toul Kork",
   "tuol kork": "Toul Kork",
   "toul kok": "Toul Kork",
   "tk": "Toul Kork",
+  "ទួលគោក": "Toul Kork",
 
   // Toul Tom Poung (Russian Market)
   "toul tom poung": "Toul Tom Poung",
@@ -53,65 +63,81 @@ export const DISTRICT_ALIASES: Record<string, string> = {
   "tuol tompong": "Toul Tom Poung",
   "toul tompong": "Toul Tom Poung",
   "ttp": "Toul Tom Poung",
+  "ទួលទំពូង": "Toul Tom Poung",
 
   // Daun Penh
   "daun penh": "Daun Penh",
   "doun penh": "Daun Penh",
   "don penh": "Daun Penh",
+  "ដូនពេញ": "Daun Penh",
 
   // 7 Makara
   "7 makara": "7 Makara",
   "prampi makara": "7 Makara",
   "prampir makara": "7 Makara",
+  "៧មករា": "7 Makara",
+  "ប្រាំពីរមករា": "7 Makara",
 
   // Sen Sok
   "sen sok": "Sen Sok",
   "sensok": "Sen Sok",
+  "សែនសុខ": "Sen Sok",
 
   // Chroy Changvar
   "chroy changvar": "Chroy Changvar",
   "chrouy changvar": "Chroy Changvar",
   "chroy changva": "Chroy Changvar",
+  "ជ្រោយចង្វារ": "Chroy Changvar",
 
   // Meanchey
   "meanchey": "Meanchey",
   "mean chey": "Meanchey",
+  "មានជ័យ": "Meanchey",
 
   // Chbar Ampov
   "chbar ampov": "Chbar Ampov",
   "chbar ampeou": "Chbar Ampov",
+  "ច្បារអំពៅ": "Chbar Ampov",
 
   // Por Sen Chey
   "por sen chey": "Por Sen Chey",
   "posenchey": "Por Sen Chey",
+  "ពោធិ៍សែនជ័យ": "Por Sen Chey",
 
   // Russey Keo
   "russey keo": "Russey Keo",
   "rusey keo": "Russey Keo",
   "russei keo": "Russey Keo",
+  "ឫស្សីកែវ": "Russey Keo",
 
   // Stung Meanchey
   "stung meanchey": "Stung Meanchey",
   "steung meanchey": "Stung Meanchey",
+  "ស្ទឹងមានជ័យ": "Stung Meanchey",
 
   // Koh Pich / Diamond Island
   "koh pich": "Koh Pich",
   "diamond island": "Koh Pich",
+  "កោះពេជ្រ": "Koh Pich",
 
   // Phsar Derm Thkov
   "phsar derm thkov": "Phsar Derm Thkov",
   "phsar deumthkov": "Phsar Derm Thkov",
   "derm thkov": "Phsar Derm Thkov",
+  "ផ្សារដើមថ្កូវ": "Phsar Derm Thkov",
 
   // Boeung Trabek
   "boeung trabek": "Boeung Trabek",
   "boeng trabek": "Boeung Trabek",
+  "បឹងត្របែក": "Boeung Trabek",
 
   // Olympic
   "olympic": "Olympic",
   "olympia": "Olympic",
+  "អូឡាំពិក": "Olympic",
 
   // Tuol Svay Prey
   "tuol svay prey": "Tuol Svay Prey",
   "toul svay prey": "Tuol Svay Prey",
+  "ទួលស្វាយព្រៃ": "Tuol Svay Prey",
 };
@@ -0,0 +1,147 @@
+/**
+ * Listing embeddings for ML Phase 2 (similar-listing recommendations).
+ *
+ * The default provider is a local hashing vectorizer: no network, no model
+ * files, deterministic across runs. Unigrams and adjacent-word bigrams are
+ * hashed (FNV-1a) into a fixed number of signed buckets with sublinear term
+ * frequency, then L2-normalised, so cosine similarity is a dot product.
+ *
+ * An external provider (e.g. an embeddings API) can be plugged in with
+ * `registerEmbeddingProvider`; it is only used when
+ * RENTALS_EMBEDDINGS_ENABLED=true. Vectors are cached by content hash
+ * (provider id + text), so switching provider re-embeds everything once.
+ */
+
+import { createHash } from "crypto";
+
+export interface EmbeddingProvider {
+  /** Stable id, part of the cache key — bump it when the output changes */
+  id: string;
+  dims: number;
+  /** Max texts per `embed` call */
+  batchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/* ── Local hashing vectorizer ────────────────────────────── */
+
+const HASH_DIMS = 512;
+
+/** Words that carry no signal in rental ads */
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "have",
+  "in", "is", "it", "its", "of", "on", "or", "our", "the", "this", "to", "with",
+  "you", "your", "we", "will", "can", "all", "very", "also", "there", "rent",
+  "rental", "available", "contact", "please", "call", "now", "per",
+  "month", "usd",
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, " ")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+/** FNV-1a, 32-bit */
+function fnv1a(s: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function hashingVector(text: string, dims = HASH_DIMS): number[] {
+  const tokens = tokenize(text);
+  const counts = new Map<string, number>();
+  for (let i = 0; i < tokens.length; i++) {
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+    if (i > 0) {
+      const bigram = `${tokens[i - 1]} ${tokens[i]}`;
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+  }
+
+  const vec = new Array<number>(dims).fill(0);
+  for (const [term, tf] of counts) {
+    const h = fnv1a(term);
+    // Low bits pick the bucket, the top bit the sign (limits collision bias)
+    const sign = h & 0x80000000 ? -1 : 1;
+    vec[h % dims] += sign * (1 + Math.log(tf));
+  }
+
+  const norm = Math.sqrt(vec.reduce((s, v) => s + v * v, 0));
+  return norm > 0 ? vec.map((v) => Math.round((v / norm) * 1e4) / 1e4) : vec;
+}
+
+export const hashingProvider: EmbeddingProvider = {
+  id: `hash-${HASH_DIMS}-v1`,
+  dims: HASH_DIMS,
+  batchSize: 500,
+  embed: async (texts) => texts.map((t) => hashingVector(t)),
+};
+
+/* ── Provider registry ───────────────────────────────────── */
+
+let externalProvider: EmbeddingProvider | null = null;
+
+/** Plug in an external provider, used when RENTALS_EMBEDDINGS_ENABLED=true. */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  externalProvider = provider;
+}
+
+export function getEmbeddingProvider(externalEnabled: boolean): EmbeddingProvider {
+  return externalEnabled && externalProvider ? externalProvider : hashingProvider;
+}
+
+/* ── Listing text, cache key, similarity ─────────────────── */
+
+export interface EmbeddableListing {
+  title: string;
+  titleRewritten: string | null;
+  description: string | null;
+  descriptionRewritten: string | null;
+  amenitiesJson: string | null;
+  propertyType: string;
+}
+
+/**
+ * The text a listing is embedded from: title, (rewritten) description and
+ * amenities. Location and price are left out — the similarity rail applies
+ * those as explicit constraints.
+ */
+export function listingEmbeddingText(l: EmbeddableListing): string {
+  const parts = [l.titleRewritten || l.title, l.propertyType.replace(/_/g, " ")];
+  const desc = l.descriptionRewritten || l.description;
+  if (desc) parts.push(desc.slice(0, 4000));
+  if (l.amenitiesJson) {
+    try {
+      const amenities = JSON.parse(l.amenitiesJson);
+      if (Array.isArray(amenities)) parts.push(amenities.filter((a) => typeof a === "string").join(", "));
+    } catch {
+      // Ignore malformed amenities
+    }
+  }
+  return parts.join("\n");
+}
+
+export function embeddingContentHash(providerId: string, text: string): string {
+  return createHash("sha256").update(`${providerId}\n${text}`).digest("hex");
+}
+
+/** Cosine similarity; vectors need not be normalised. */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na > 0 && nb > 0 ? dot / Math.sqrt(na * nb) : 0;
+}
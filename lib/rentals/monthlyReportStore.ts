@@ -0,0 +1,226 @@
+/**
+ * Generation, storage and emailing of the monthly market reports. The
+ * report and its HTML/PDF renderings are built in
+ * lib/analytics/monthlyReport.ts; this file loads their inputs and keeps
+ * one RentalMarketReport per city and month.
+ *
+ * A report is published once its campaign is scheduled or sent: its PDF
+ * is then public, and it is never regenerated, so the file behind the
+ * link subscribers received doesn't change.
+ */
+
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/prisma";
+import type { CampaignStatus, Prisma } from "@prisma/client";
+import { siteConfig } from "@/lib/site";
+import {
+  buildMonthlyReport,
+  renderReportEmail,
+  renderReportHtml,
+  reportWindow,
+  type MonthlyReport,
+} from "@/lib/analytics/monthlyReport";
+import { renderReportPdf } from "@/lib/analytics/monthlyReportPdf";
+
+export interface MonthlyReportSummary {
+  id: string;
+  yearMonth: string;
+  city: string;
+  generatedAt: Date;
+  /** EmailCampaign created for the report, draft or not */
+  campaignId: string | null;
+  /** Its campaign has been scheduled or sent */
+  published: boolean;
+}
+
+const SUMMARY_SELECT = { id: true, yearMonth: true, city: true, generatedAt: true, campaignId: true } as const;
+
+/** Campaigns past review — from here on subscribers may have the PDF link */
+const PUBLISHED_STATUSES: CampaignStatus[] = ["SCHEDULED", "SENDING", "SENT"];
+
+/** Public link to a report's PDF — only served once the report is published */
+export function reportPdfUrl(id: string): string {
+  return `${siteConfig.url}/api/rentals/reports/${id}`;
+}
+
+async function withPublished(
+  reports: Omit<MonthlyReportSummary, "published">[],
+): Promise<MonthlyReportSummary[]> {
+  const campaignIds = reports.flatMap((r) => (r.campaignId ? [r.campaignId] : []));
+  const published = campaignIds.length
+    ? await prisma.emailCampaign.findMany({
+        where: { id: { in: campaignIds }, status: { in: PUBLISHED_STATUSES } },
+        select: { id: true },
+      })
+    : [];
+  const ids = new Set(published.map((c) => c.id));
+  return reports.map((r) => ({ ...r, published: r.campaignId !== null && ids.has(r.campaignId) }));
+}
+
+function renderCampaignContent(id: string, report: MonthlyReport) {
+  const email = renderReportEmail(report, {
+    pdfUrl: reportPdfUrl(id),
+    siteUrl: siteConfig.url,
+    preferencesUrl: `${siteConfig.url}/dashboard`,
+  });
+  return {
+    subject: email.subject,
+    previewText: email.previewText.slice(0, 500),
+    htmlContent: email.html,
+    textContent: email.text,
+  };
+}
+
+/**
+ * Build (or rebuild) the report for one city and month and store it.
+ * Null when the index has no data for that month. A published report is
+ * returned as stored, without rebuilding; a draft campaign is re-rendered
+ * with the new figures.
+ */
+export async function generateMonthlyReport(city: string, yearMonth: string): Promise<MonthlyReportSummary | null> {
+  const existing = await prisma.rentalMarketReport.findUnique({
+    where: { yearMonth_city: { yearMonth, city } },
+    select: SUMMARY_SELECT,
+  });
+  if (existing) {
+    const [summary] = await withPublished([existing]);
+    if (summary.published) return summary;
+  }
+
+  const { from, monthStart, to } = reportWindow(yearMonth);
+  const [rows, listings] = await Promise.all([
+    prisma.rentalIndexDaily.findMany({
+      where: { city, date: { gte: from, lt: to } },
+      orderBy: { date: "asc" },
+    }),
+    // On the market at some point in the month (one per duplicate cluster)
+    prisma.rentalListing.findMany({
+      where: {
+        city,
+        isClusterPrimary: true,
+        firstSeenAt: { lt: to },
+        OR: [{ isActive: true }, { lastSeenAt: { gte: monthStart } }],
+      },
+      select: { district: true, firstSeenAt: true, lastSeenAt: true, isActive: true, priceDropPct: true },
+    }),
+  ]);
+
+  const report = buildMonthlyReport(city, yearMonth, rows, listings);
+  if (!report) return null;
+
+  // Emailed reports link to their public PDF from the HTML version too
+  const html = renderReportHtml(report, {
+    siteName: siteConfig.name,
+    pdfUrl: existing?.campaignId ? reportPdfUrl(existing.id) : undefined,
+  });
+  const data = {
+    html,
+    pdf: renderReportPdf(report, { siteName: siteConfig.name }),
+    dataJson: report as unknown as Prisma.InputJsonValue,
+    generatedAt: new Date(),
+  };
+
+  const saved = await prisma.rentalMarketReport.upsert({
+    where: { yearMonth_city: { yearMonth, city } },
+    create: { yearMonth, city, ...data },
+    update: data,
+    select: SUMMARY_SELECT,
+  });
+  if (saved.campaignId) {
+    await prisma.emailCampaign.updateMany({
+      where: { id: saved.campaignId, status: "DRAFT" },
+      data: renderCampaignContent(saved.id, report),
+    });
+  }
+  return { ...saved, published: false };
+}
+
+/** Stored reports, newest month first. */
+export async function listMonthlyReports(limit = 36): Promise<MonthlyReportSummary[]> {
+  const reports = await prisma.rentalMarketReport.findMany({
+    orderBy: [{ yearMonth: "desc" }, { city: "asc" }],
+    take: limit,
+    select: SUMMARY_SELECT,
+  });
+  return withPublished(reports);
+}
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+  published: boolean;
+}
+
+/** A stored report as a downloadable file, or null if there is none. */
+export async function loadReportFile(id: string, format: "pdf" | "html"): Promise<ReportFile | null> {
+  const report = await prisma.rentalMarketReport.findUnique({
+    where: { id },
+    select: { yearMonth: true, city: true, campaignId: true, pdf: format === "pdf", html: format === "html" },
+  });
+  if (!report) return null;
+
+  const slug = report.city.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  const filename = `rental-market-report-${slug}-${report.yearMonth}.${format}`;
+  const published = report.campaignId
+    ? (await prisma.emailCampaign.count({ where: { id: report.campaignId, status: { in: PUBLISHED_STATUSES } } })) > 0
+    : false;
+  return format === "pdf"
+    ? { filename, contentType: "application/pdf", body: Buffer.from(report.pdf), published }
+    : { filename, contentType: "text/html; charset=utf-8", body: report.html, published };
+}
+
+export interface EmailReportResult {
+  campaignId: string;
+  /** False when the report already had a campaign, which is returned instead */
+  created: boolean;
+}
+
+/**
+ * Create an email campaign announcing a stored report, for every
+ * marketing subscriber. Drafts wait for review in the email dashboard;
+ * `schedule` queues it for the campaign cron to send right away.
+ * Null if the report doesn't exist.
+ */
+export async function emailMonthlyReport(id: string, options: { schedule: boolean }): Promise<EmailReportResult | null> {
+  const stored = await prisma.rentalMarketReport.findUnique({
+    where: { id },
+    select: { id: true, dataJson: true, campaignId: true },
+  });
+  if (!stored) return null;
+  if (stored.campaignId) return { campaignId: stored.campaignId, created: false };
+
+  // Claim the report for a new campaign id first, so a double click or the
+  // job racing an admin can't create (and send) two campaigns
+  const campaignId = randomUUID();
+  const claim = await prisma.rentalMarketReport.updateMany({
+    where: { id, campaignId: null },
+    data: { campaignId },
+  });
+  if (claim.count === 0) {
+    const winner = await prisma.rentalMarketReport.findUnique({ where: { id }, select: { campaignId: true } });
+    return winner?.campaignId ? { campaignId: winner.campaignId, created: false } : null;
+  }
+
+  const report = stored.dataJson as unknown as MonthlyReport;
+  try {
+    await prisma.emailCampaign.create({
+      data: {
+        id: campaignId,
+        ...renderCampaignContent(id, report),
+        status: options.schedule ? "SCHEDULED" : "DRAFT",
+        scheduledAt: options.schedule ? new Date() : null,
+      },
+    });
+  } catch (err) {
+    await prisma.rentalMarketReport.updateMany({ where: { id, campaignId }, data: { campaignId: null } });
+    throw err;
+  }
+
+  // The stored HTML gains the public PDF link, served once the campaign goes out
+  await prisma.rentalMarketReport.update({
+    where: { id },
+    data: { html: renderReportHtml(report, { siteName: siteConfig.name, pdfUrl: reportPdfUrl(id) }) },
+  });
+  return { campaignId, created: true };
+}
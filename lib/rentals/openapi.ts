@@ -0,0 +1,192 @@
+/**
+ * OpenAPI 3.1 description of the public rental market API, generated from
+ * the same constants the routes use (sorts, page sizes, property types),
+ * and served at /api/v1/rentals/openapi.json.
+ *
+ * The caller passes the `PropertyType` values.
+ */
+
+import { API_MAX_PAGE_SIZE, API_PAGE_SIZE } from "./config";
+import { API_LISTING_SORTS } from "./publicApi";
+
+type Schema = Record<string, unknown>;
+
+const str = (description?: string, extra: Schema = {}): Schema => ({ type: "string", ...(description ? { description } : {}), ...extra });
+const num = (description?: string): Schema => ({ type: ["number", "null"], ...(description ? { description } : {}) });
+const int = (description?: string): Schema => ({ type: "integer", ...(description ? { description } : {}) });
+const nullable = (s: Schema): Schema => ({ ...s, type: [s.type as string, "null"] });
+
+function query(name: string, schema: Schema, description: string): Schema {
+  return { name, in: "query", required: false, schema, description };
+}
+
+const pageParams = [
+  query("limit", { type: "integer", minimum: 1, maximum: API_MAX_PAGE_SIZE, default: API_PAGE_SIZE }, "Items per page"),
+  query("cursor", { type: "string" }, "`nextCursor` from the previous page"),
+];
+
+function page(itemRef: string): Schema {
+  return {
+    type: "object",
+    required: ["data", "nextCursor"],
+    properties: {
+      data: { type: "array", items: { $ref: itemRef } },
+      nextCursor: { type: ["string", "null"], description: "Pass as `cursor` for the next page; null on the last page" },
+    },
+  };
+}
+
+function ok(schema: Schema, description: string): Schema {
+  return {
+    200: { description, content: { "application/json": { schema } } },
+    400: { $ref: "#/components/responses/BadRequest" },
+    401: { $ref: "#/components/responses/Unauthorized" },
+    429: { $ref: "#/components/responses/TooManyRequests" },
+  };
+}
+
+export function buildOpenApiSpec(opts: { serverUrl: string; propertyTypes: string[] }): Schema {
+  const propertyType = { type: "string", enum: opts.propertyTypes };
+  const indexFilters = (dateFormat: string) => [
+    query("city", str(), "City, e.g. Phnom Penh"),
+    query("district", str(), "District name"),
+    query("bedrooms", { type: "integer", minimum: 0 }, "Exact bedrooms (0 = studio)"),
+    query("propertyType", propertyType, "Property type"),
+    query("from", str(undefined, { pattern: dateFormat === "date" ? "^\\d{4}-\\d{2}-\\d{2}$" : "^\\d{4}-\\d{2}$" }), "First period, inclusive"),
+    query("to", str(undefined, { pattern: dateFormat === "date" ? "^\\d{4}-\\d{2}-\\d{2}$" : "^\\d{4}-\\d{2}$" }), "Last period, inclusive"),
+    ...pageParams,
+  ];
+  const indexRow = (periodKey: string, periodSchema: Schema): Schema => ({
+    type: "object",
+    properties: {
+      [periodKey]: periodSchema,
+      city: str(),
+      district: nullable(str()),
+      bedrooms: nullable(int()),
+      propertyType,
+      listingCount: int("Listings the statistics are over"),
+      medianPriceUsd: num("Median asking rent, USD per month"),
+      meanPriceUsd: num(),
+      p25PriceUsd: num(),
+      p75PriceUsd: num(),
+    },
+  });
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "GlobeScraper Rental Market API",
+      version: "1.0.0",
+      description:
+        "Asking rents and listings scraped from Cambodian rental portals, deduplicated across portals. " +
+        "Authenticate with `Authorization: Bearer <key>`. Each key has a per-minute and a daily limit; " +
+        "the daily quota is reported in the `X-RateLimit-*` headers.",
+    },
+    servers: [{ url: `${opts.serverUrl}/api/v1/rentals` }],
+    security: [{ apiKey: [] }],
+    paths: {
+      "/listings": {
+        get: {
+          summary: "Search active listings",
+          parameters: [
+            query("city", str(), "City"),
+            query("district", str(), "District"),
+            query("minPrice", { type: "number" }, "Minimum rent, USD per month"),
+            query("maxPrice", { type: "number" }, "Maximum rent, USD per month"),
+            query("bedsMin", { type: "integer" }, "At least this many bedrooms"),
+            query("propertyType", propertyType, "Property type"),
+            query("bathsMin", { type: "integer" }, "At least this many bathrooms"),
+            query("bathsMax", { type: "integer" }, "At most this many bathrooms"),
+            query("sizeMin", { type: "number" }, "Minimum size, m²"),
+            query("sizeMax", { type: "number" }, "Maximum size, m²"),
+            query("dateAdded", { type: "string", enum: ["24h", "3d", "7d", "14d", "1m"] }, "First seen within"),
+            query("priceReduced", { type: "string", enum: ["1"] }, "Only listings whose price was cut"),
+            query("near", str(undefined, { pattern: "^-?\\d+(\\.\\d+)?,-?\\d+(\\.\\d+)?$" }), "lat,lng — with radiusKm"),
+            query("radiusKm", { type: "number" }, "Radius around `near`, km"),
+            query("poly", str(), "Polygon: lat,lng pairs separated by `;`"),
+            query("sort", { type: "string", enum: [...API_LISTING_SORTS], default: "newest" }, "Sort order"),
+            ...pageParams,
+          ],
+          responses: ok(page("#/components/schemas/Listing"), "A page of listings"),
+        },
+      },
+      "/districts": {
+        get: {
+          summary: "Districts with active listings and their rent quartiles",
+          parameters: [query("city", str(), "City")],
+          responses: ok(
+            { type: "object", properties: { data: { type: "array", items: { $ref: "#/components/schemas/District" } } } },
+            "Districts, busiest first",
+          ),
+        },
+      },
+      "/index/daily": {
+        get: {
+          summary: "Daily rent index",
+          parameters: indexFilters("date"),
+          responses: ok(page("#/components/schemas/DailyIndexRow"), "A page of index rows, oldest first"),
+        },
+      },
+      "/index/monthly": {
+        get: {
+          summary: "Monthly rent index",
+          parameters: indexFilters("month"),
+          responses: ok(page("#/components/schemas/MonthlyIndexRow"), "A page of index rows, oldest first"),
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: "http", scheme: "bearer", description: "API key issued by GlobeScraper (`gsr_…`)" },
+      },
+      responses: {
+        BadRequest: { description: "Invalid parameter", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+        Unauthorized: { description: "Missing, invalid or revoked API key", content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } } },
+        TooManyRequests: {
+          description: "Per-minute limit or daily quota exceeded — see `Retry-After`",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+      },
+      schemas: {
+        Error: { type: "object", required: ["error"], properties: { error: str() } },
+        Listing: {
+          type: "object",
+          properties: {
+            id: str(),
+            title: str(),
+            url: str("Listing page on globescraper.com", { format: "uri" }),
+            city: str(),
+            district: nullable(str()),
+            propertyType,
+            bedrooms: nullable(int("0 = studio")),
+            bathrooms: nullable(int()),
+            sizeSqm: num(),
+            priceMonthlyUsd: num("Asking rent, USD per month"),
+            priceDropPct: num("Current price cut from the listing's peak, %"),
+            location: {
+              type: ["object", "null"],
+              properties: { lat: { type: "number" }, lng: { type: "number" } },
+            },
+            amenities: { type: "array", items: str() },
+            photos: { type: "array", items: str(undefined, { format: "uri" }) },
+            firstSeenAt: str(undefined, { format: "date-time" }),
+            lastSeenAt: str(undefined, { format: "date-time" }),
+          },
+        },
+        District: {
+          type: "object",
+          properties: {
+            city: str(),
+            district: str(),
+            activeListings: int(),
+            medianPriceUsd: num(),
+            p25PriceUsd: num(),
+            p75PriceUsd: num(),
+          },
+        },
+        DailyIndexRow: indexRow("date", str(undefined, { format: "date" })),
+        MonthlyIndexRow: indexRow("month", str("YYYY-MM")),
+      },
+    },
+  };
+}
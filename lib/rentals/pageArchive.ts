@@ -0,0 +1,191 @@
+/**
+ * Raw page archive for the rental scrapers.
+ *
+ * When PAGE_ARCHIVE_ENABLED is set, `fetchHtml` / `fetchHtmlPlaywright`
+ * store every page they return here, so a badly parsed listing can be
+ * inspected exactly as the scraper saw it, and parser fixes can be
+ * replayed over old pages without re-crawling (`processQueueJob` with
+ * `replay: true`).
+ *
+ * Layout (under PAGE_ARCHIVE_DIR):
+ *   blobs/ab/<sha256>.html.gz  — gzipped page body, content-addressed
+ *   urls/cd/<sha256(url)>.jsonl — one line per fetch of that URL
+ *
+ * Identical bodies are stored once; the per-URL log keeps every fetch
+ * time. Filesystem only (no Prisma) — `RentalSnapshot.pageHash` links a
+ * snapshot to its blob.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+import { PAGE_ARCHIVE_ENABLED, PAGE_ARCHIVE_DIR } from "./config";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export type ArchiveFetcher = "http" | "playwright";
+
+export interface ArchivedPage {
+  url: string;
+  /** ISO timestamp of the fetch */
+  fetchedAt: string;
+  /** sha256 of the page body — the blob key */
+  hash: string;
+  /** Uncompressed body size */
+  bytes: number;
+  via: ArchiveFetcher;
+}
+
+/* ── Paths ───────────────────────────────────────────────── */
+
+const HASH_RE = /^[a-f0-9]{64}$/;
+
+function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/** True for a well-formed blob key (guards the admin route against path tricks). */
+export function isPageHash(value: string): boolean {
+  return HASH_RE.test(value);
+}
+
+function blobPath(dir: string, hash: string): string {
+  return path.resolve(dir, "blobs", hash.slice(0, 2), `${hash}.html.gz`);
+}
+
+function urlLogPath(dir: string, url: string): string {
+  const key = sha256(url);
+  return path.resolve(dir, "urls", key.slice(0, 2), `${key}.jsonl`);
+}
+
+/* ── Write ───────────────────────────────────────────────── */
+
+/** Last page archived per URL in this process — read back by processQueue */
+const RECENT = new Map<string, ArchivedPage>();
+
+/**
+ * Store a fetched page. The blob is only written if this body hasn't
+ * been seen before; the fetch is always appended to the URL's log.
+ */
+export async function archivePage(
+  url: string,
+  html: string,
+  via: ArchiveFetcher,
+  dir = PAGE_ARCHIVE_DIR,
+  now = new Date()
+): Promise<ArchivedPage> {
+  const hash = sha256(html);
+  const entry: ArchivedPage = {
+    url,
+    fetchedAt: now.toISOString(),
+    hash,
+    bytes: Buffer.byteLength(html),
+    via,
+  };
+
+  const blob = blobPath(dir, hash);
+  const exists = await fs.stat(blob).then(() => true, () => false);
+  if (!exists) {
+    await fs.mkdir(path.dirname(blob), { recursive: true });
+    // Write-then-rename so a crash never leaves a truncated blob behind
+    const tmp = `${blob}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, await gzipAsync(html));
+    await fs.rename(tmp, blob);
+  }
+
+  const log = urlLogPath(dir, url);
+  await fs.mkdir(path.dirname(log), { recursive: true });
+  await fs.appendFile(log, JSON.stringify(entry) + "\n");
+
+  RECENT.set(url, entry);
+  return entry;
+}
+
+/**
+ * Fetcher hook: archive the page if the archive is enabled. Never throws —
+ * a full disk must not fail the scrape.
+ */
+export async function archiveFetchedPage(url: string, html: string, via: ArchiveFetcher): Promise<void> {
+  if (!PAGE_ARCHIVE_ENABLED) return;
+  try {
+    await archivePage(url, html, via);
+  } catch (err) {
+    console.warn(`[archive] Could not archive ${url}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * The page most recently archived for this URL by this process, removed
+ * on read. Lets a job link what an adapter just fetched to its snapshot.
+ */
+export function takeArchivedPage(url: string): ArchivedPage | null {
+  const entry = RECENT.get(url) ?? null;
+  RECENT.delete(url);
+  return entry;
+}
+
+/* ── Read ────────────────────────────────────────────────── */
+
+/** Decompressed page body, or null if the blob isn't in the archive. */
+export async function readArchivedHtml(hash: string, dir = PAGE_ARCHIVE_DIR): Promise<string | null> {
+  if (!isPageHash(hash)) return null;
+  try {
+    const buf = await fs.readFile(blobPath(dir, hash));
+    return (await gunzipAsync(buf)).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+/** Every archived fetch of a URL, oldest first. */
+export async function listArchivedPages(url: string, dir = PAGE_ARCHIVE_DIR): Promise<ArchivedPage[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(urlLogPath(dir, url), "utf8");
+  } catch {
+    return [];
+  }
+  const pages: ArchivedPage[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      pages.push(JSON.parse(line) as ArchivedPage);
+    } catch {
+      // Torn line from an interrupted append — skip it
+    }
+  }
+  return pages.sort((a, b) => a.fetchedAt.localeCompare(b.fetchedAt));
+}
+
+/** The newest archived fetch of a URL, or null. */
+export async function latestArchivedPage(url: string, dir = PAGE_ARCHIVE_DIR): Promise<ArchivedPage | null> {
+  const pages = await listArchivedPages(url, dir);
+  return pages.length > 0 ? pages[pages.length - 1] : null;
+}
+
+/**
+ * The archived fetch of a URL closest to `at`, within `toleranceMs`.
+ * Used for snapshots recorded without a `pageHash`.
+ */
+export async function findArchivedPageNear(
+  url: string,
+  at: Date,
+  toleranceMs: number,
+  dir = PAGE_ARCHIVE_DIR
+): Promise<ArchivedPage | null> {
+  let best: ArchivedPage | null = null;
+  let bestDiff = Infinity;
+  for (const page of await listArchivedPages(url, dir)) {
+    const diff = Math.abs(Date.parse(page.fetchedAt) - at.getTime());
+    if (diff <= toleranceMs && diff < bestDiff) {
+      best = page;
+      bestDiff = diff;
+    }
+  }
+  return best;
+}
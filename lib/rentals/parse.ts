@@ -5,6 +5,8 @@
  * plus safe number coercion utilities.
  */
 
+import { parsePrice, type ParsedPrice } from "./currency";
+
 /* ── Safe coercion ───────────────────────────────────────── */
 
 export function safeNumber(value: unknown): number | null {
@@ -21,59 +23,15 @@ export function safeInt(value: unknown): number | null {
 
 /* ── Price parsing ───────────────────────────────────────── */
 
+export { parsePrice, type ParsedPrice };
+
 /**
- * Attempt to parse a price string into a monthly USD amount.
- *
- * Handles:
- *  - "$800", "$800/month", "USD 800 per month"
- *  - "800$/month"
- *  - Comma-separated thousands
- *
- * Rejects:
- *  - prices explicitly marked as nightly or weekly
- *  - prices with "sale" context but no "rent" context (likely sale prices)
- *  - prices below $50 or above $50,000 (likely errors or sale prices)
+ * Parse a price string into a monthly USD amount — the USD value of
+ * `parsePrice` (./currency.ts), which also reports the quoted currency and
+ * amount. Prices in riel, baht, pounds etc. are converted with the FX table.
  */
 export function parsePriceMonthlyUsd(raw: string | null | undefined): number | null {
-  if (!raw) return null;
-
-  const text = raw.toLowerCase().trim();
-
-  // Reject nightly / weekly
-  if (/\b(per\s*night|\/\s*night|nightly)\b/.test(text)) return null;
-  if (/\b(per\s*week|\/\s*week|weekly)\b/.test(text)) return null;
-
-  // Reject sale-context prices (unless also mentions rent)
-  if (/\b(for\s*sale|sale\s*price)\b/.test(text) && !/\b(for\s*rent|per\s*month|\/\s*month)\b/.test(text))
-    return null;
-
-  // Try to find a numeric value
-  const cleaned = text.replace(/,/g, "");
-
-  // Match patterns like "$1,200", "1200 USD", "USD 1200", "1200$/mo"
-  const match = cleaned.match(
-    /(?:\$|usd)\s*(\d+(?:\.\d+)?)|(\d+(?:\.\d+)?)\s*(?:\$|usd)/
-  );
-
-  if (!match) {
-    // Try bare number if "month" or "mo" appears
-    if (/\b(month|mo|\/mo)\b/.test(text)) {
-      const bare = cleaned.match(/(\d+(?:\.\d+)?)/);
-      if (bare) {
-        const n = parseFloat(bare[1]);
-        if (n >= 50 && n <= 50_000) return n;
-      }
-    }
-    return null;
-  }
-
-  const amount = parseFloat(match[1] || match[2]);
-  if (!Number.isFinite(amount)) return null;
-
-  // Sanity bounds (max $50k/mo — highest realistic monthly rent for commercial/luxury)
-  if (amount < 50 || amount > 50_000) return null;
-
-  return amount;
+  return parsePrice(raw)?.usd ?? null;
 }
 
 /* ── Beds / Baths / Size ─────────────────────────────────── */
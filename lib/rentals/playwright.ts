@@ -14,6 +14,8 @@
  */
 
 import { chromium, type Browser, type BrowserContext } from "playwright";
+import { checkRentalCrawlPolicy, waitForHostSlot, admitHost, recordHostResponse, recordHostError } from "./http";
+import { archiveFetchedPage } from "./pageArchive";
 
 /* ── Configuration ───────────────────────────────────────── */
 
@@ -113,14 +115,36 @@ export async function closeBrowser(): Promise<void> {
 
 /* ── Public API ──────────────────────────────────────────── */
 
+/**
+ * robots.txt applies to us whatever UA the browser presents: refuse
+ * disallowed URLs, respect the host's circuit breaker, and wait for its
+ * pacing slot (Crawl-delay, 429 backoff).
+ */
+async function mayNavigate(url: string): Promise<boolean> {
+  const policy = await checkRentalCrawlPolicy(url);
+  if (!policy.allowed) {
+    console.warn(`[PW] ${url} → disallowed by robots.txt`);
+    return false;
+  }
+  if (!admitHost(url)) {
+    console.warn(`[PW] ${url} → circuit open for this host, skipping`);
+    return false;
+  }
+  await waitForHostSlot(url, policy.crawlDelayMs);
+  return true;
+}
+
 /**
  * Fetch a page's fully-rendered HTML using headless Chromium.
- * Returns null if the page fails to load.
+ * Returns null if the page fails to load, robots.txt disallows it, or
+ * the host's circuit is open. The rendered HTML is archived when
+ * PAGE_ARCHIVE_ENABLED is set.
  */
 export async function fetchHtmlPlaywright(
   url: string,
   options?: { waitMs?: number; scrollToBottom?: boolean }
 ): Promise<string | null> {
+  if (!(await mayNavigate(url))) return null;
   const ctx = await getBrowserContext();
   const page = await ctx.newPage();
 
@@ -132,8 +156,10 @@ export async function fetchHtmlPlaywright(
 
     if (!response) {
       console.error(`[PW] No response for ${url}`);
+      recordHostError(url, "No response");
       return null;
     }
+    recordHostResponse(url, response.status(), response.headers()["retry-after"] ?? null);
     if (response.status() >= 400) {
       console.error(`[PW] HTTP ${response.status()} for ${url}`);
       return null;
@@ -151,6 +177,7 @@ export async function fetchHtmlPlaywright(
       const retryTitle = await page.title();
       if (retryTitle.includes("Just a moment") || retryTitle.includes("Attention Required")) {
         console.error(`[PW] CF challenge not resolved after 8s wait for ${url}`);
+        recordHostError(url, "Cloudflare challenge not resolved");
         return null;
       }
     }
@@ -161,10 +188,13 @@ export async function fetchHtmlPlaywright(
       await page.waitForTimeout(1_500);
     }
 
-    return await page.content();
+    const html = await page.content();
+    await archiveFetchedPage(url, html, "playwright");
+    return html;
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     console.error(`[PW] Error fetching ${url}: ${msg}`);
+    recordHostError(url, err);
     return null;
   } finally {
     await page.close();
@@ -179,6 +209,7 @@ export async function fetchCategoryPagePlaywright(
   url: string,
   scrollCount: number = 0
 ): Promise<string | null> {
+  if (!(await mayNavigate(url))) return null;
   const ctx = await getBrowserContext();
   const page = await ctx.newPage();
 
@@ -188,7 +219,12 @@ export async function fetchCategoryPagePlaywright(
       timeout: PAGE_TIMEOUT_MS,
     });
 
-    if (!response || response.status() >= 400) {
+    if (!response) {
+      recordHostError(url, "No response");
+      return null;
+    }
+    recordHostResponse(url, response.status(), response.headers()["retry-after"] ?? null);
+    if (response.status() >= 400) {
       return null;
     }
 
@@ -201,7 +237,8 @@ export async function fetchCategoryPagePlaywright(
     }
 
     return await page.content();
-  } catch {
+  } catch (err) {
+    recordHostError(url, err);
     return null;
   } finally {
     await page.close();
@@ -0,0 +1,213 @@
+/**
+ * Price-change engine for rental listings.
+ *
+ * Every scrape writes a RentalSnapshot with the asking price at that
+ * moment. Here we walk a listing's snapshots in time order and derive
+ * events — price drops and rises, the listing disappearing (delisted) and
+ * coming back after a gap (relisted) — plus the summary fields that are
+ * denormalised onto RentalListing for the "price reduced" filter and sort.
+ *
+ * processQueue calls it after each new snapshot.
+ */
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface PriceSnapshot {
+  scrapedAt: Date;
+  priceMonthlyUsd: number | null;
+}
+
+export interface ListingLifecycle {
+  isActive: boolean;
+  lastSeenAt: Date;
+}
+
+export type PriceEventType = "drop" | "rise" | "relisted" | "delisted";
+
+export interface PriceEvent {
+  type: PriceEventType;
+  date: Date;
+  /** Asking price after the event (last known price for "delisted") */
+  priceUsd: number | null;
+  /** Asking price before the event, null when there was none */
+  previousPriceUsd: number | null;
+  /** Signed % change for drops/rises, null otherwise */
+  changePct: number | null;
+}
+
+export interface PriceSummary {
+  /** First recorded asking price */
+  initialPriceUsd: number | null;
+  /** Highest asking price since the listing was last (re)listed */
+  peakPriceUsd: number | null;
+  /** Latest asking price */
+  currentPriceUsd: number | null;
+  /** % below peak, only set while the latest change was a reduction */
+  priceDropPct: number | null;
+  /** When the price was last reduced, only set alongside priceDropPct */
+  lastPriceDropAt: Date | null;
+}
+
+/* ── Thresholds ──────────────────────────────────────────── */
+
+/** Changes smaller than this are FX / rounding noise, not a repricing */
+export const MIN_PRICE_CHANGE_PCT = 1;
+
+/**
+ * A gap between snapshots longer than this means the listing was off the
+ * market in between. Kept above the 7-day stale window so a listing the
+ * stale job deactivated and the next crawl picked up again reads as relisted.
+ */
+export const RELIST_GAP_DAYS = 14;
+
+const DAY_MS = 86_400_000;
+
+/* ── Events ──────────────────────────────────────────────── */
+
+/**
+ * Derive price events from a listing's snapshots (any order).
+ * Snapshots without a price are ignored for drop/rise detection but still
+ * count as sightings for relist gaps.
+ */
+export function computePriceEvents(
+  snapshots: PriceSnapshot[],
+  listing?: ListingLifecycle,
+): PriceEvent[] {
+  const sorted = sortSnapshots(snapshots);
+  const events: PriceEvent[] = [];
+
+  let lastPrice: number | null = null;
+  let lastSeen: Date | null = null;
+
+  for (const snap of sorted) {
+    const price = snap.priceMonthlyUsd;
+
+    if (lastSeen && snap.scrapedAt.getTime() - lastSeen.getTime() > RELIST_GAP_DAYS * DAY_MS) {
+      events.push({ type: "delisted", date: lastSeen, priceUsd: lastPrice, previousPriceUsd: null, changePct: null });
+      events.push({
+        type: "relisted",
+        date: snap.scrapedAt,
+        priceUsd: price ?? lastPrice,
+        previousPriceUsd: lastPrice,
+        changePct: price !== null && lastPrice !== null ? pctChange(lastPrice, price) : null,
+      });
+      if (price !== null) lastPrice = price;
+      lastSeen = snap.scrapedAt;
+      continue;
+    }
+
+    if (price !== null && lastPrice !== null) {
+      const change = pctChange(lastPrice, price);
+      if (Math.abs(change) >= MIN_PRICE_CHANGE_PCT) {
+        events.push({
+          type: change < 0 ? "drop" : "rise",
+          date: snap.scrapedAt,
+          priceUsd: price,
+          previousPriceUsd: lastPrice,
+          changePct: change,
+        });
+      }
+    }
+
+    if (price !== null) lastPrice = price;
+    lastSeen = snap.scrapedAt;
+  }
+
+  if (listing && !listing.isActive && lastSeen) {
+    events.push({
+      type: "delisted",
+      date: listing.lastSeenAt > lastSeen ? listing.lastSeenAt : lastSeen,
+      priceUsd: lastPrice,
+      previousPriceUsd: null,
+      changePct: null,
+    });
+  }
+
+  return events;
+}
+
+/* ── Summary ─────────────────────────────────────────────── */
+
+/**
+ * Summarise a listing's price history into the fields stored on
+ * RentalListing. The peak resets on relist, so a unit that comes back
+ * cheaper months later isn't advertised as "reduced".
+ */
+export function summarizePriceHistory(snapshots: PriceSnapshot[]): PriceSummary {
+  const sorted = sortSnapshots(snapshots);
+  const priced = sorted.filter((s) => s.priceMonthlyUsd !== null);
+  if (priced.length === 0) {
+    return { initialPriceUsd: null, peakPriceUsd: null, currentPriceUsd: null, priceDropPct: null, lastPriceDropAt: null };
+  }
+
+  let peak: number | null = null;
+  let lastPrice: number | null = null;
+  let lastSeen: Date | null = null;
+  let lastDropAt: Date | null = null;
+  let lastChange: "drop" | "rise" | null = null;
+
+  for (const snap of sorted) {
+    const relisted =
+      lastSeen !== null && snap.scrapedAt.getTime() - lastSeen.getTime() > RELIST_GAP_DAYS * DAY_MS;
+    lastSeen = snap.scrapedAt;
+
+    const price = snap.priceMonthlyUsd;
+    if (price === null) continue;
+
+    if (relisted || peak === null) {
+      peak = price;
+      lastDropAt = null;
+      lastChange = null;
+    } else if (lastPrice !== null) {
+      const change = pctChange(lastPrice, price);
+      if (change <= -MIN_PRICE_CHANGE_PCT) {
+        lastChange = "drop";
+        lastDropAt = snap.scrapedAt;
+      } else if (change >= MIN_PRICE_CHANGE_PCT) {
+        lastChange = "rise";
+      }
+      peak = Math.max(peak, price);
+    }
+    lastPrice = price;
+  }
+
+  const current = lastPrice!;
+  const discount = peak! > 0 ? ((peak! - current) / peak!) * 100 : 0;
+  const reduced = lastChange === "drop" && discount >= MIN_PRICE_CHANGE_PCT;
+
+  return {
+    initialPriceUsd: priced[0].priceMonthlyUsd,
+    peakPriceUsd: peak,
+    currentPriceUsd: current,
+    priceDropPct: reduced ? round1(discount) : null,
+    lastPriceDropAt: reduced ? lastDropAt : null,
+  };
+}
+
+/**
+ * Days between first and last sighting — or until `now` for a listing
+ * that is still on the market.
+ */
+export function daysOnMarket(
+  firstSeenAt: Date,
+  listing: ListingLifecycle,
+  now: Date = new Date(),
+): number {
+  const end = listing.isActive ? now : listing.lastSeenAt;
+  return Math.max(0, Math.floor((end.getTime() - firstSeenAt.getTime()) / DAY_MS));
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function sortSnapshots(snapshots: PriceSnapshot[]): PriceSnapshot[] {
+  return [...snapshots].sort((a, b) => a.scrapedAt.getTime() - b.scrapedAt.getTime());
+}
+
+function pctChange(from: number, to: number): number {
+  if (from === 0) return 0;
+  return round1(((to - from) / from) * 100);
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
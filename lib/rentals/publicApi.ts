@@ -0,0 +1,278 @@
+/**
+ * Public rental market API (`/api/v1/rentals/*`): API keys, cursor
+ * pagination and the shapes returned to partners.
+ *
+ * Keys look like `gsr_<32 random chars>`. Only their sha256 is stored
+ * (`RentalApiKey.keyHash`), plus a short prefix so admins can tell keys
+ * apart; the full key is shown once, when it is created.
+ *
+ * Pages are keyset-paginated: `nextCursor` encodes the sort, and the sort
+ * value and id of the last item, so pages stay stable while listings are
+ * added and a cursor can't be replayed against another sort.
+ *
+ * Auth and quotas live in ./publicApiGuard.ts.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { API_MAX_PAGE_SIZE, API_PAGE_SIZE } from "./config";
+import { listingPhotos, hostedImageUrl } from "./listingImages";
+
+/* ── API keys ────────────────────────────────────────────── */
+
+export const API_KEY_PREFIX = "gsr_";
+
+/** Characters of the key kept in `keyPrefix` for display */
+const DISPLAY_PREFIX_LENGTH = 12;
+
+export interface NewApiKey {
+  /** The full key — returned to the admin once, never stored */
+  key: string;
+  keyPrefix: string;
+  keyHash: string;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function generateApiKey(): NewApiKey {
+  const key = API_KEY_PREFIX + randomBytes(24).toString("base64url");
+  return { key, keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+/** The key from `Authorization: Bearer <key>` or `X-Api-Key: <key>`. */
+export function readApiKey(headers: Headers): string | null {
+  const auth = headers.get("authorization");
+  const bearer = auth?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = (bearer ?? headers.get("x-api-key") ?? "").trim();
+  return key.startsWith(API_KEY_PREFIX) ? key : null;
+}
+
+/* ── Pagination ──────────────────────────────────────────── */
+
+/** Position after the last item of a page: the sort it belongs to, its sort value and id */
+export interface PageCursor {
+  s: string;
+  v: string | number;
+  id: string;
+}
+
+/** How a sort's cursor value is typed */
+export type CursorKind = "number" | "date" | "month";
+
+const ISO_TIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+const MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+function isCursorValue(v: unknown, kind: CursorKind): boolean {
+  switch (kind) {
+    case "number":
+      return typeof v === "number" && Number.isFinite(v);
+    case "date":
+      return typeof v === "string" && ISO_TIME_RE.test(v) && !isNaN(Date.parse(v));
+    case "month":
+      return typeof v === "string" && MONTH_RE.test(v);
+  }
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decode a `cursor` param for `sort`; null for a missing or tampered one,
+ * one issued for another sort, or one whose value isn't a `kind`.
+ */
+export function decodeCursor(value: string | null, sort: string, kind: CursorKind): PageCursor | null {
+  if (!value) return null;
+  try {
+    const c = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (c && c.s === sort && typeof c.id === "string" && isCursorValue(c.v, kind)) {
+      return { s: c.s, v: c.v, id: c.id };
+    }
+  } catch {
+    // fall through
+  }
+  return null;
+}
+
+/** `limit` param clamped to 1…API_MAX_PAGE_SIZE. */
+export function parseLimit(value: string | null): number {
+  const n = value ? parseInt(value, 10) : NaN;
+  if (isNaN(n)) return API_PAGE_SIZE;
+  return Math.min(Math.max(n, 1), API_MAX_PAGE_SIZE);
+}
+
+/**
+ * Keyset condition (a Prisma `where` for model `W`) for rows after
+ * `cursor` when ordered by (`field` `dir`, id `dir`).
+ */
+export function afterCursor<W>(field: string, dir: "asc" | "desc", cursor: PageCursor, value: unknown = cursor.v): W {
+  const op = dir === "asc" ? "gt" : "lt";
+  return {
+    OR: [
+      { [field]: { [op]: value } },
+      { [field]: value, id: { [op]: cursor.id } },
+    ],
+  } as W;
+}
+
+/**
+ * Trim the extra row fetched to detect a next page, and build its
+ * cursor from the last row kept.
+ */
+export function pageOf<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+  sort: string,
+  sortValue: (row: T) => string | number,
+): { data: T[]; nextCursor: string | null } {
+  const data = rows.slice(0, limit);
+  const last = data[data.length - 1];
+  return {
+    data,
+    nextCursor: rows.length > limit && last ? encodeCursor({ s: sort, v: sortValue(last), id: last.id }) : null,
+  };
+}
+
+/* ── Listings ────────────────────────────────────────────── */
+
+/** Sorts `/listings` supports — each one a stable keyset */
+export const API_LISTING_SORTS = ["newest", "updated", "price_asc", "price_desc"] as const;
+export type ApiListingSort = (typeof API_LISTING_SORTS)[number];
+
+export const API_LISTING_SORT_FIELDS: Record<ApiListingSort, { field: "firstSeenAt" | "lastSeenAt" | "priceMonthlyUsd"; dir: "asc" | "desc" }> = {
+  newest: { field: "firstSeenAt", dir: "desc" },
+  updated: { field: "lastSeenAt", dir: "desc" },
+  price_asc: { field: "priceMonthlyUsd", dir: "asc" },
+  price_desc: { field: "priceMonthlyUsd", dir: "desc" },
+};
+
+export interface ApiListingRow {
+  id: string;
+  title: string;
+  titleRewritten: string | null;
+  city: string;
+  district: string | null;
+  propertyType: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  sizeSqm: number | null;
+  priceMonthlyUsd: number | null;
+  priceDropPct: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  amenitiesJson: string | null;
+  imageUrlsJson: string | null;
+  hostedImagesJson: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+}
+
+export interface ApiListing {
+  id: string;
+  title: string;
+  url: string;
+  city: string;
+  district: string | null;
+  propertyType: string;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  sizeSqm: number | null;
+  priceMonthlyUsd: number | null;
+  priceDropPct: number | null;
+  location: { lat: number; lng: number } | null;
+  amenities: string[];
+  photos: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+/** Photos returned per listing */
+const API_PHOTOS_PER_LISTING = 6;
+
+export function toApiListing(row: ApiListingRow, siteUrl: string): ApiListing {
+  let amenities: string[] = [];
+  try {
+    const parsed = row.amenitiesJson ? JSON.parse(row.amenitiesJson) : [];
+    if (Array.isArray(parsed)) amenities = parsed.filter((a): a is string => typeof a === "string");
+  } catch {
+    // leave empty
+  }
+
+  const photos = listingPhotos(row.imageUrlsJson, row.hostedImagesJson)
+    .slice(0, API_PHOTOS_PER_LISTING)
+    .map((p) => {
+      const src = p.hosted ? hostedImageUrl(p.hosted, 1280, "jpg") : p.src;
+      return src.startsWith("/") ? `${siteUrl}${src}` : src;
+    });
+
+  return {
+    id: row.id,
+    title: row.titleRewritten || row.title,
+    url: `${siteUrl}/rentals/${row.id}`,
+    city: row.city,
+    district: row.district,
+    propertyType: row.propertyType,
+    bedrooms: row.bedrooms,
+    bathrooms: row.bathrooms,
+    sizeSqm: row.sizeSqm,
+    priceMonthlyUsd: row.priceMonthlyUsd,
+    priceDropPct: row.priceDropPct,
+    location: row.latitude !== null && row.longitude !== null ? { lat: row.latitude, lng: row.longitude } : null,
+    amenities,
+    photos,
+    firstSeenAt: row.firstSeenAt.toISOString(),
+    lastSeenAt: row.lastSeenAt.toISOString(),
+  };
+}
+
+/* ── Districts ───────────────────────────────────────────── */
+
+export interface ApiDistrict {
+  city: string;
+  district: string;
+  activeListings: number;
+  medianPriceUsd: number | null;
+  p25PriceUsd: number | null;
+  p75PriceUsd: number | null;
+}
+
+function percentile(sorted: number[], p: number): number {
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
+
+/** Per-district counts and price quartiles from active listings, largest districts first. */
+export function summariseDistricts(
+  listings: { city: string; district: string | null; priceMonthlyUsd: number | null }[],
+): ApiDistrict[] {
+  const groups = new Map<string, { city: string; district: string; count: number; prices: number[] }>();
+  for (const l of listings) {
+    if (!l.district) continue;
+    const key = `${l.city}|${l.district}`;
+    let g = groups.get(key);
+    if (!g) {
+      g = { city: l.city, district: l.district, count: 0, prices: [] };
+      groups.set(key, g);
+    }
+    g.count++;
+    if (l.priceMonthlyUsd !== null) g.prices.push(l.priceMonthlyUsd);
+  }
+
+  return [...groups.values()]
+    .map((g) => {
+      const sorted = g.prices.sort((a, b) => a - b);
+      const q = (p: number) => (sorted.length > 0 ? Math.round(percentile(sorted, p)) : null);
+      return {
+        city: g.city,
+        district: g.district,
+        activeListings: g.count,
+        medianPriceUsd: q(0.5),
+        p25PriceUsd: q(0.25),
+        p75PriceUsd: q(0.75),
+      };
+    })
+    .sort((a, b) => b.activeListings - a.activeListings || a.district.localeCompare(b.district));
+}
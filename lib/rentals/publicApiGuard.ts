@@ -0,0 +1,68 @@
+/**
+ * API-key guard for the public rental market API (`/api/v1/rentals/*`).
+ * Checks the key, then its per-minute and per-day limits through the
+ * shared Upstash rate-limit layer (@/lib/rate-limit). Without Upstash
+ * configured, limits aren't enforced — same as the other limiters.
+ */
+
+import { NextResponse } from "next/server";
+import type { RentalApiKey } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getRentalsApiRatelimit } from "@/lib/rate-limit";
+import { hashApiKey, readApiKey } from "./publicApi";
+
+export interface ApiKeyContext {
+  key: RentalApiKey;
+  /** Quota headers to send with the response */
+  headers: Record<string, string>;
+}
+
+/**
+ * Returns the caller's key and quota headers, or a 401 / 429 response.
+ * Usage: const ctx = await requireApiKey(req); if (ctx instanceof NextResponse) return ctx;
+ */
+export async function requireApiKey(req: Request): Promise<ApiKeyContext | NextResponse> {
+  const raw = readApiKey(req.headers);
+  if (!raw) {
+    return NextResponse.json(
+      { error: "Missing API key — send it as `Authorization: Bearer <key>`" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } },
+    );
+  }
+
+  const key = await prisma.rentalApiKey.findUnique({ where: { keyHash: hashApiKey(raw) } });
+  if (!key || key.revokedAt) {
+    return NextResponse.json({ error: "Invalid or revoked API key" }, { status: 401 });
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [limit, window] of [[key.perMinute, "1 m"], [key.perDay, "24 h"]] as const) {
+    const limiter = getRentalsApiRatelimit(limit, window);
+    if (!limiter) continue;
+    const { success, remaining, reset } = await limiter.limit(key.id);
+    if (window === "24 h") {
+      headers["X-RateLimit-Limit"] = String(limit);
+      headers["X-RateLimit-Remaining"] = String(Math.max(remaining, 0));
+      headers["X-RateLimit-Reset"] = String(Math.ceil(reset / 1000));
+    }
+    if (!success) {
+      const retryAfter = Math.max(Math.ceil((reset - Date.now()) / 1000), 1);
+      return NextResponse.json(
+        { error: window === "1 m" ? "Too many requests — slow down" : "Daily quota exceeded" },
+        { status: 429, headers: { ...headers, "Retry-After": String(retryAfter) } },
+      );
+    }
+  }
+
+  await prisma.rentalApiKey.update({
+    where: { id: key.id },
+    data: { requestCount: { increment: 1 }, lastUsedAt: new Date() },
+  });
+
+  return { key, headers };
+}
+
+/** JSON response carrying the caller's quota headers. */
+export function apiJson(ctx: ApiKeyContext, body: unknown, init?: { status?: number }): NextResponse {
+  return NextResponse.json(body, { status: init?.status ?? 200, headers: ctx.headers });
+}
@@ -0,0 +1,235 @@
+/**
+ * Listing quality and scam-risk scoring.
+ *
+ * Bait listings in Phnom Penh tend to look alike: a price far under the
+ * district going rate, stock or stolen photos that also appear on
+ * unrelated listings, a thin ad, and wording that pushes for a deposit
+ * before a viewing. Each signal adds risk points; missing fields take
+ * points off a separate completeness ("quality") score.
+ *
+ * - riskScore 0–100 → riskLevel LOW / MEDIUM / HIGH
+ * - qualityScore 0–100, how complete and useful the ad is
+ *
+ * The scoreListings job gathers the district prices, index medians, shared
+ * image hashes and latest AI review for each listing.
+ */
+
+import type { ListingRiskLevel } from "@prisma/client";
+import { iqrOutlier, zScoreExceeds } from "./ml";
+import type { QualityFlag, QualityFlagCode } from "./qualityFlags";
+
+export type { QualityFlag, QualityFlagCode };
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface QualityListing {
+  priceMonthlyUsd: number | null;
+  district: string | null;
+  bedrooms: number | null;
+  sizeSqm: number | null;
+  imageUrlsJson: string | null;
+  description: string | null;
+}
+
+export interface QualityContext {
+  /** Asking prices of active listings in the same city/district/beds/type segment */
+  segmentPrices: number[];
+  /** Latest RentalIndexDaily median for the segment */
+  indexMedianUsd: number | null;
+  /** Other units (not duplicates of this one) sharing at least one photo */
+  reusedImageUnits: number;
+  /** Latest RentalAiReview, if any */
+  aiReview: { flagged: boolean; isResidential: boolean; confidence: number } | null;
+}
+
+export interface QualityResult {
+  qualityScore: number;
+  riskScore: number;
+  riskLevel: ListingRiskLevel;
+  flags: QualityFlag[];
+}
+
+/* ── Tuning ──────────────────────────────────────────────── */
+
+/** Prices under this share of the segment median are "too good to be true" */
+const FAR_BELOW_INDEX_RATIO = 0.5;
+
+export const RISK_MEDIUM_MIN = 25;
+export const RISK_HIGH_MIN = 50;
+
+const RISK_POINTS: Partial<Record<QualityFlagCode, number>> = {
+  PRICE_FAR_BELOW_INDEX: 35,
+  PRICE_OUTLIER_LOW: 20,
+  REUSED_IMAGES: 30,
+  RED_FLAG_TEXT: 20, // per phrase, up to two
+  AI_FLAGGED: 10,
+  AI_NOT_RESIDENTIAL: 15,
+};
+
+const QUALITY_PENALTIES: Partial<Record<QualityFlagCode, number>> = {
+  MISSING_PRICE: 25,
+  MISSING_DISTRICT: 15,
+  MISSING_BEDROOMS: 10,
+  MISSING_SIZE: 10,
+  NO_IMAGES: 25,
+  FEW_IMAGES: 10,
+  SHORT_DESCRIPTION: 15,
+};
+
+/** Ads with fewer photos than this lose FEW_IMAGES points */
+const MIN_IMAGES = 3;
+
+/** Descriptions shorter than this (after stripping HTML) are SHORT_DESCRIPTION */
+const MIN_DESCRIPTION_CHARS = 80;
+
+/**
+ * Wording typical of advance-fee rental scams. Each entry is a label shown
+ * to admins and the pattern that finds it.
+ */
+const RED_FLAG_PATTERNS: [string, RegExp][] = [
+  ["deposit before viewing", /\b(deposit|payment|pay)\b[^.]{0,40}\bbefore\b[^.]{0,20}\b(view|viewing|visit|see|seeing|inspection)\b/i],
+  ["money transfer service", /\b(western\s*union|moneygram|wise\s+transfer|wire\s+transfer)\b/i],
+  ["gift cards or crypto", /\b(gift\s*cards?|bitcoin|btc|usdt|crypto)\b/i],
+  ["owner abroad", /\b(i\s*am|i'm|we\s*are|owner\s+is|landlord\s+is)\s+(currently\s+)?(abroad|overseas|out\s+of\s+(the\s+)?country)\b/i],
+  ["keys sent by post", /\bkeys?\b[^.]{0,30}\b(sent|mailed|posted|couriered|delivered)\b/i],
+  ["no viewings", /\bno\s+(viewings?|visits?|inspections?)\b/i],
+  ["deposit to reserve", /\b(send|transfer|pay)\b[^.]{0,20}\bdeposit\b[^.]{0,30}\b(reserve|hold|secure|book)\b/i],
+];
+
+/* ── Scoring ─────────────────────────────────────────────── */
+
+/**
+ * Score a listing. Price outliers only count on the low side — an
+ * over-priced ad is a bad deal, not a scam.
+ */
+export function scoreListingQuality(l: QualityListing, ctx: QualityContext): QualityResult {
+  const flags: QualityFlag[] = [];
+  const risk = (code: QualityFlagCode, detail?: string, times = 1) =>
+    flags.push({ code, points: (RISK_POINTS[code] ?? 0) * times, ...(detail ? { detail } : {}) });
+  const penalty = (code: QualityFlagCode) => flags.push({ code, points: QUALITY_PENALTIES[code] ?? 0 });
+
+  // Price against the district index
+  const price = l.priceMonthlyUsd;
+  if (price !== null && price > 0) {
+    if (ctx.indexMedianUsd && price < ctx.indexMedianUsd * FAR_BELOW_INDEX_RATIO) {
+      risk("PRICE_FAR_BELOW_INDEX", `$${Math.round(price)} vs median $${Math.round(ctx.indexMedianUsd)}`);
+    }
+    const median = ctx.indexMedianUsd ?? medianOf(ctx.segmentPrices);
+    const low = median !== null && price < median;
+    if (low && (iqrOutlier(price, ctx.segmentPrices) || zScoreExceeds(price, ctx.segmentPrices))) {
+      risk("PRICE_OUTLIER_LOW");
+    }
+  } else {
+    penalty("MISSING_PRICE");
+  }
+
+  // Photos shared with unrelated listings
+  if (ctx.reusedImageUnits > 0) {
+    risk("REUSED_IMAGES", `${ctx.reusedImageUnits} other listing${ctx.reusedImageUnits === 1 ? "" : "s"}`);
+  }
+
+  // Description red flags
+  const text = stripHtml(l.description ?? "");
+  const phrases = redFlagPhrases(text);
+  if (phrases.length > 0) {
+    risk("RED_FLAG_TEXT", phrases.join(", "), Math.min(phrases.length, 2));
+  }
+
+  // AI review verdict (an admin manual pass is a 100% confidence review)
+  if (ctx.aiReview && ctx.aiReview.confidence < 1) {
+    if (ctx.aiReview.flagged) risk("AI_FLAGGED");
+    if (!ctx.aiReview.isResidential) risk("AI_NOT_RESIDENTIAL");
+  }
+
+  // Completeness
+  if (!l.district) penalty("MISSING_DISTRICT");
+  if (l.bedrooms === null) penalty("MISSING_BEDROOMS");
+  if (!l.sizeSqm) penalty("MISSING_SIZE");
+  const imageCount = countImages(l.imageUrlsJson);
+  if (imageCount === 0) penalty("NO_IMAGES");
+  else if (imageCount < MIN_IMAGES) penalty("FEW_IMAGES");
+  if (text.length < MIN_DESCRIPTION_CHARS) penalty("SHORT_DESCRIPTION");
+
+  const sum = (codes: Partial<Record<QualityFlagCode, number>>) =>
+    flags.filter((f) => f.code in codes).reduce((s, f) => s + f.points, 0);
+  const riskScore = Math.min(100, sum(RISK_POINTS));
+  const qualityScore = Math.max(0, 100 - sum(QUALITY_PENALTIES));
+
+  return { qualityScore, riskScore, riskLevel: riskLevelFor(riskScore), flags };
+}
+
+export function riskLevelFor(riskScore: number): ListingRiskLevel {
+  if (riskScore >= RISK_HIGH_MIN) return "HIGH";
+  if (riskScore >= RISK_MEDIUM_MIN) return "MEDIUM";
+  return "LOW";
+}
+
+/** Labels of the red-flag patterns found in a description. */
+export function redFlagPhrases(text: string): string[] {
+  return RED_FLAG_PATTERNS.filter(([, re]) => re.test(text)).map(([label]) => label);
+}
+
+/* ── Reused images ───────────────────────────────────────── */
+
+/** dHashes of flat or blank images, which every portal's placeholders share */
+const TRIVIAL_HASHES = new Set(["0000000000000000", "ffffffffffffffff"]);
+
+export interface ImageReuseCandidate {
+  id: string;
+  /** Duplicate cluster — members legitimately share photos */
+  clusterId: string | null;
+  imageHashes: string[];
+}
+
+/**
+ * For each listing, the number of other units (clusters, or single
+ * listings) that use an identical photo. Exact dHash matches only: stock
+ * and stolen photos are usually byte-for-byte re-uploads, and near matches
+ * are already folded into duplicate clusters.
+ */
+export function countReusedImageUnits(listings: ImageReuseCandidate[]): Map<string, number> {
+  const unitsByHash = new Map<string, Set<string>>();
+  for (const l of listings) {
+    const unit = l.clusterId ?? l.id;
+    for (const h of l.imageHashes) {
+      if (TRIVIAL_HASHES.has(h)) continue;
+      let units = unitsByHash.get(h);
+      if (!units) unitsByHash.set(h, (units = new Set()));
+      units.add(unit);
+    }
+  }
+
+  const result = new Map<string, number>();
+  for (const l of listings) {
+    const unit = l.clusterId ?? l.id;
+    const others = new Set<string>();
+    for (const h of l.imageHashes) {
+      for (const u of unitsByHash.get(h) ?? []) if (u !== unit) others.add(u);
+    }
+    result.set(l.id, others.size);
+  }
+  return result;
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function countImages(json: string | null): number {
+  if (!json) return 0;
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr) ? arr.filter((u) => typeof u === "string").length : 0;
+  } catch {
+    return 0;
+  }
+}
+
+function medianOf(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function stripHtml(str: string): string {
+  return str.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,72 @@
+/**
+ * Quality / risk flag codes and their display labels.
+ *
+ * Kept free of imports so client components (the result card badge, the
+ * admin listings table) can use it without pulling in the scorer.
+ */
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export type QualityFlagCode =
+  | "PRICE_FAR_BELOW_INDEX"
+  | "PRICE_OUTLIER_LOW"
+  | "REUSED_IMAGES"
+  | "RED_FLAG_TEXT"
+  | "AI_FLAGGED"
+  | "AI_NOT_RESIDENTIAL"
+  | "MISSING_PRICE"
+  | "MISSING_DISTRICT"
+  | "MISSING_BEDROOMS"
+  | "MISSING_SIZE"
+  | "NO_IMAGES"
+  | "FEW_IMAGES"
+  | "SHORT_DESCRIPTION";
+
+export interface QualityFlag {
+  code: QualityFlagCode;
+  /** Risk points added, or quality points removed */
+  points: number;
+  /** e.g. the matched red-flag phrases */
+  detail?: string;
+}
+
+/** Codes that add risk points; the rest are completeness penalties */
+export const RISK_FLAG_CODES: ReadonlySet<QualityFlagCode> = new Set<QualityFlagCode>([
+  "PRICE_FAR_BELOW_INDEX",
+  "PRICE_OUTLIER_LOW",
+  "REUSED_IMAGES",
+  "RED_FLAG_TEXT",
+  "AI_FLAGGED",
+  "AI_NOT_RESIDENTIAL",
+]);
+
+/* ── Display ─────────────────────────────────────────────── */
+
+export const QUALITY_FLAG_LABELS: Record<QualityFlagCode, string> = {
+  PRICE_FAR_BELOW_INDEX: "Price far below the district median",
+  PRICE_OUTLIER_LOW: "Unusually low price for the area",
+  REUSED_IMAGES: "Photos also used on other listings",
+  RED_FLAG_TEXT: "Description mentions scam-like payment terms",
+  AI_FLAGGED: "Flagged by AI review",
+  AI_NOT_RESIDENTIAL: "AI review: may not be residential",
+  MISSING_PRICE: "No price",
+  MISSING_DISTRICT: "No district",
+  MISSING_BEDROOMS: "No bedroom count",
+  MISSING_SIZE: "No floor size",
+  NO_IMAGES: "No photos",
+  FEW_IMAGES: "Few photos",
+  SHORT_DESCRIPTION: "Very short description",
+};
+
+/** Parse `qualityFlagsJson`, dropping anything malformed. */
+export function parseQualityFlags(json: string | null): QualityFlag[] {
+  if (!json) return [];
+  try {
+    const arr = JSON.parse(json);
+    return Array.isArray(arr)
+      ? arr.filter((f): f is QualityFlag => !!f && typeof f.code === "string" && f.code in QUALITY_FLAG_LABELS)
+      : [];
+  } catch {
+    return [];
+  }
+}
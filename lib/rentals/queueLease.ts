@@ -0,0 +1,56 @@
+/**
+ * Lease + dead-letter policy for ScrapeQueue items.
+ *
+ * A process-queue run claims items by moving them to PROCESSING with a
+ * `leaseOwner` and a `leaseExpiresAt`, renewing the lease between batches.
+ * If the run dies mid-way its leases lapse and the reaper
+ * (./queueLeaseStore.ts) hands the items back as RETRY. Every failed fetch
+ * or lapsed lease counts as an attempt; after QUEUE_MAX_ATTEMPTS the item
+ * is parked as DEAD with the last failure in `lastError`, until an admin
+ * requeues it from the queue browser.
+ */
+
+import { QUEUE_LEASE_MS, QUEUE_MAX_ATTEMPTS } from "./config";
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export type QueueItemStatus = "PENDING" | "PROCESSING" | "DONE" | "RETRY" | "DEAD";
+
+export interface QueueLeaseRow {
+  status: QueueItemStatus;
+  leaseExpiresAt: Date | null;
+  updatedAt: Date;
+}
+
+/** Recorded on items whose worker stopped before finishing them */
+export const LEASE_EXPIRED_REASON = "Lease expired — worker stopped before finishing";
+
+/** Spread into any update that takes an item out of PROCESSING */
+export const RELEASED_LEASE = { leaseOwner: null, leaseExpiresAt: null };
+
+/* ── Policy ──────────────────────────────────────────────── */
+
+/** Unique per run, so concurrent runs only ever see their own claims. */
+export function newLeaseOwner(): string {
+  return `pq-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function leaseUntil(now: Date = new Date()): Date {
+  return new Date(now.getTime() + QUEUE_LEASE_MS);
+}
+
+/**
+ * Whether a PROCESSING item has been abandoned. Rows claimed before leases
+ * existed have no expiry, so they count as abandoned once they've sat
+ * untouched for a full lease.
+ */
+export function isLeaseExpired(row: QueueLeaseRow, now: Date = new Date()): boolean {
+  if (row.status !== "PROCESSING") return false;
+  if (row.leaseExpiresAt) return row.leaseExpiresAt.getTime() <= now.getTime();
+  return row.updatedAt.getTime() + QUEUE_LEASE_MS <= now.getTime();
+}
+
+/** Where a failed item goes, given its attempt count including this failure. */
+export function failureStatus(attempts: number, max: number = QUEUE_MAX_ATTEMPTS): "RETRY" | "DEAD" {
+  return attempts >= max ? "DEAD" : "RETRY";
+}
@@ -0,0 +1,79 @@
+/**
+ * Prisma side of ScrapeQueue leases (policy in ./queueLease.ts): renewing a
+ * run's leases and reaping the ones whose worker went away.
+ *
+ * process-queue reaps its own source before claiming; the scheduler tick
+ * reaps every source, so a crashed run's items come back even when
+ * nothing else processes that source.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { Prisma, QueueStatus, RentalSource } from "@prisma/client";
+import { QUEUE_LEASE_MS, QUEUE_MAX_ATTEMPTS } from "./config";
+import { LEASE_EXPIRED_REASON, RELEASED_LEASE, leaseUntil } from "./queueLease";
+
+export interface ReapResult {
+  requeued: number;
+  dead: number;
+}
+
+/** PROCESSING rows whose lease has lapsed (see isLeaseExpired). */
+export function expiredLeaseWhere(now: Date = new Date(), source?: RentalSource): Prisma.ScrapeQueueWhereInput {
+  return {
+    status: QueueStatus.PROCESSING,
+    ...(source ? { source } : {}),
+    OR: [
+      { leaseExpiresAt: { lte: now } },
+      { leaseExpiresAt: null, updatedAt: { lte: new Date(now.getTime() - QUEUE_LEASE_MS) } },
+    ],
+  };
+}
+
+/** PROCESSING rows a live run still holds — not to be touched by admins or discovery. */
+export function liveLeaseWhere(now: Date = new Date()): Prisma.ScrapeQueueWhereInput {
+  return {
+    status: QueueStatus.PROCESSING,
+    OR: [
+      { leaseExpiresAt: { gt: now } },
+      { leaseExpiresAt: null, updatedAt: { gt: new Date(now.getTime() - QUEUE_LEASE_MS) } },
+    ],
+  };
+}
+
+/**
+ * Return abandoned items to the queue. The lapsed lease counts as an
+ * attempt, so an item that keeps killing its worker ends up DEAD.
+ */
+export async function reapExpiredQueueLeases(source?: RentalSource, now: Date = new Date()): Promise<ReapResult> {
+  const where = expiredLeaseWhere(now, source);
+
+  const dead = await prisma.scrapeQueue.updateMany({
+    where: { ...where, attempts: { gte: QUEUE_MAX_ATTEMPTS - 1 } },
+    data: {
+      status: QueueStatus.DEAD,
+      attempts: { increment: 1 },
+      lastError: `${LEASE_EXPIRED_REASON} (gave up after ${QUEUE_MAX_ATTEMPTS} attempts)`,
+      ...RELEASED_LEASE,
+    },
+  });
+  const requeued = await prisma.scrapeQueue.updateMany({
+    where,
+    data: {
+      status: QueueStatus.RETRY,
+      attempts: { increment: 1 },
+      lastError: LEASE_EXPIRED_REASON,
+      ...RELEASED_LEASE,
+    },
+  });
+
+  return { requeued: requeued.count, dead: dead.count };
+}
+
+/** Push back the expiry on everything `owner` still holds. */
+export async function renewQueueLeases(owner: string, now: Date = new Date()): Promise<number> {
+  const r = await prisma.scrapeQueue.updateMany({
+    where: { leaseOwner: owner, status: QueueStatus.PROCESSING },
+    data: { leaseExpiresAt: leaseUntil(now) },
+  });
+  return r.count;
+}
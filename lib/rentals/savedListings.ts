@@ -0,0 +1,53 @@
+/**
+ * Saved rental listings.
+ *
+ * Signed-in users' favourites live in SavedListing; signed-out visitors keep
+ * them in localStorage (components/rentals/useSavedListings.ts) until they
+ * log in, when the hook uploads them through the merge endpoint.
+ */
+
+/** Max saved listings per user */
+export const MAX_SAVED_LISTINGS = 500;
+
+/** Max listing ids accepted by one merge request */
+export const MAX_MERGE_IDS = 200;
+
+/** Max characters in a saved-listing note */
+export const MAX_NOTE_LENGTH = 2000;
+
+/** Price moves smaller than this (%) aren't flagged */
+const MIN_PRICE_CHANGE_PCT = 1;
+
+export interface SavedListingPriceChange {
+  fromUsd: number;
+  toUsd: number;
+  /** Signed % change since saving, 1 decimal */
+  changePct: number;
+}
+
+export interface SavedListingStatus {
+  inactive: boolean;
+  priceChange: SavedListingPriceChange | null;
+}
+
+/**
+ * Compare a saved listing with its current state: has it been taken down,
+ * and has the asking price moved since it was saved?
+ */
+export function savedListingStatus(
+  savedPriceUsd: number | null,
+  listing: { isActive: boolean; priceMonthlyUsd: number | null },
+): SavedListingStatus {
+  let priceChange: SavedListingPriceChange | null = null;
+  if (savedPriceUsd && listing.priceMonthlyUsd) {
+    const changePct = ((listing.priceMonthlyUsd - savedPriceUsd) / savedPriceUsd) * 100;
+    if (Math.abs(changePct) >= MIN_PRICE_CHANGE_PCT) {
+      priceChange = {
+        fromUsd: savedPriceUsd,
+        toUsd: listing.priceMonthlyUsd,
+        changePct: Math.round(changePct * 10) / 10,
+      };
+    }
+  }
+  return { inactive: !listing.isActive, priceChange };
+}
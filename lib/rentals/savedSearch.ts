@@ -0,0 +1,113 @@
+/**
+ * Saved rental searches.
+ *
+ * A saved search is the filter part of a /rentals URL, stored as JSON on
+ * SavedSearch.paramsJson. Matching reuses `buildRentalsWhere`, so a saved
+ * search always returns exactly what the user saw on the results page.
+ */
+
+import type { Prisma } from "@prisma/client";
+import {
+  ALL_PARAM_KEYS,
+  buildRentalsWhere,
+  type RentalSearchParams,
+} from "@/lib/rentalsQuery";
+import { MAX_POLYGON_PARAM_LENGTH, describeGeoSearch, parseGeoSearch } from "./geoSearch";
+import { MAX_COMMUTE_PARAM_LENGTH, describeCommuteSearch, parseCommuteSearch } from "./commute";
+
+/** Max saved searches per user */
+export const MAX_SAVED_SEARCHES = 20;
+
+/** Params that describe what to show, not which listings match */
+const NON_FILTER_KEYS = new Set(["page", "sort", "view"]);
+
+/** Params allowed past the usual 100 characters */
+const LONG_PARAM_LENGTHS: Record<string, number> = {
+  poly: MAX_POLYGON_PARAM_LENGTH,
+  commute: MAX_COMMUTE_PARAM_LENGTH,
+};
+
+/* ── Params ──────────────────────────────────────────────── */
+
+/**
+ * Keep only known filter keys with non-empty string values.
+ * Anything else in the input (page, sort, junk) is dropped.
+ */
+export function normalizeSearchParams(input: Record<string, unknown>): RentalSearchParams {
+  const params: RentalSearchParams = {};
+  for (const key of ALL_PARAM_KEYS) {
+    if (NON_FILTER_KEYS.has(key)) continue;
+    const value = input[key];
+    const maxLength = LONG_PARAM_LENGTHS[key] ?? 100;
+    if (typeof value === "string" && value.trim()) params[key] = value.trim().slice(0, maxLength);
+  }
+  return params;
+}
+
+export function parseSavedParams(json: string): RentalSearchParams {
+  try {
+    const value = JSON.parse(json);
+    return value && typeof value === "object" ? normalizeSearchParams(value) : {};
+  } catch {
+    return {};
+  }
+}
+
+/** `/rentals?…` link for a saved search. */
+export function savedSearchHref(params: RentalSearchParams, extra?: Record<string, string>): string {
+  const qs = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value) qs.set(key, value);
+  }
+  for (const [key, value] of Object.entries(extra ?? {})) qs.set(key, value);
+  const query = qs.toString();
+  return query ? `/rentals?${query}` : "/rentals";
+}
+
+/**
+ * Human-readable default name, e.g. "2+ bed condo in BKK1, Phnom Penh under $800".
+ */
+export function describeSearch(params: RentalSearchParams): string {
+  const parts: string[] = [];
+  const beds = params.bedsMin === "0" ? "Studio" : params.bedsMin ? `${params.bedsMin}+ bed` : "";
+  const type = params.propertyType ? params.propertyType.replace(/_/g, " ").toLowerCase() : "rental";
+  parts.push([beds, type].filter(Boolean).join(" "));
+
+  if (params.q) parts.push(`matching “${params.q}”`);
+
+  const place = [params.district, params.city].filter(Boolean).join(", ");
+  if (place) parts.push(`in ${place}`);
+
+  if (params.minPrice && params.maxPrice) parts.push(`$${params.minPrice}–$${params.maxPrice}`);
+  else if (params.maxPrice) parts.push(`under $${params.maxPrice}`);
+  else if (params.minPrice) parts.push(`from $${params.minPrice}`);
+
+  const geo = parseGeoSearch(params);
+  if (geo) parts.push(describeGeoSearch(geo));
+
+  const commute = parseCommuteSearch(params);
+  if (commute && commute.maxMinutes !== null) parts.push(describeCommuteSearch(commute));
+
+  if (params.priceReduced === "1") parts.push("(price reduced)");
+
+  const name = parts.join(" ");
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/* ── Matching ────────────────────────────────────────────── */
+
+/**
+ * Listings matching the saved filters that are new, or had their price cut,
+ * since `since`.
+ */
+export function newMatchesWhere(
+  params: RentalSearchParams,
+  since: Date,
+): Prisma.RentalListingWhereInput {
+  return {
+    AND: [
+      buildRentalsWhere(params),
+      { OR: [{ firstSeenAt: { gt: since } }, { lastPriceDropAt: { gt: since } }] },
+    ],
+  };
+}
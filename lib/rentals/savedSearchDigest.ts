@@ -0,0 +1,114 @@
+/**
+ * Saved-search digest email.
+ *
+ * Built from the shared email blocks (lib/email/blocks) and wrapped in the
+ * base layout, so digests look like every other GlobeScraper email. The
+ * layout's unsubscribe link turns off alerts for this one saved search.
+ */
+
+import type { Block } from "@/lib/email/blocks/index";
+import { renderEmail } from "@/lib/email/render/renderEmail";
+import { renderTextVersion } from "@/lib/email/render/renderTextVersion";
+import { siteConfig } from "@/lib/site";
+
+export interface DigestListing {
+  id: string;
+  title: string;
+  titleRewritten: string | null;
+  district: string | null;
+  city: string;
+  bedrooms: number | null;
+  priceMonthlyUsd: number | null;
+  priceDropPct: number | null;
+  firstSeenAt: Date;
+}
+
+export interface DigestInput {
+  searchName: string;
+  listings: DigestListing[];
+  /** Total new matches; may exceed listings.length */
+  total: number;
+  since: Date;
+  searchUrl: string;
+  unsubscribeUrl: string;
+  manageUrl: string;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export function renderSavedSearchDigest(input: DigestInput): RenderedDigest {
+  const { searchName, listings, total, since } = input;
+  const newCount = listings.filter((l) => l.firstSeenAt > since).length;
+  const reducedCount = listings.length - newCount;
+
+  const subject = `${total} new match${total !== 1 ? "es" : ""} for "${truncate(searchName, 60)}"`;
+  const previewText =
+    reducedCount > 0
+      ? `${newCount} new listing${newCount !== 1 ? "s" : ""} and ${reducedCount} price cut${reducedCount !== 1 ? "s" : ""}`
+      : `${newCount} new listing${newCount !== 1 ? "s" : ""} matching your saved search`;
+
+  const blocks: Block[] = [
+    {
+      type: "hero",
+      fields: {
+        headline: `${total} new match${total !== 1 ? "es" : ""} for your search`,
+        intro: `Listings added or reduced in price since ${fmtDate(since)} that match "${searchName}".`,
+      },
+    },
+    { type: "sectionHeading", fields: { label: "Latest matches" } },
+    {
+      type: "postList",
+      fields: {
+        posts: listings.map((l) => ({
+          title: l.titleRewritten || l.title,
+          url: `${siteConfig.url}/rentals/${l.id}`,
+          desc: describeListing(l, since),
+        })),
+      },
+    },
+    {
+      type: "cta",
+      fields: {
+        ctaText: total > listings.length ? `See all ${total} matches` : "Open search",
+        ctaUrl: input.searchUrl,
+        ctaSubtext: "You can pause or delete this alert from your saved searches.",
+      },
+    },
+  ];
+
+  const links = {
+    unsubscribeUrl: input.unsubscribeUrl,
+    preferencesUrl: input.manageUrl,
+    siteUrl: siteConfig.url,
+  };
+  const year = new Date().getFullYear();
+
+  return {
+    subject,
+    html: renderEmail({ blocks, subject, previewText, links, year }),
+    text: renderTextVersion({ blocks, subject, previewText, links, year }),
+  };
+}
+
+/* ── Helpers ─────────────────────────────────────────────── */
+
+function describeListing(l: DigestListing, since: Date): string {
+  const parts: string[] = [];
+  if (l.priceMonthlyUsd) parts.push(`$${Math.round(l.priceMonthlyUsd).toLocaleString("en-US")}/mo`);
+  if (l.bedrooms !== null) parts.push(l.bedrooms === 0 ? "Studio" : `${l.bedrooms} bed`);
+  parts.push(l.district ?? l.city);
+  if (l.firstSeenAt <= since && l.priceDropPct !== null) parts.push(`price cut ${l.priceDropPct}%`);
+  return parts.join(" · ");
+}
+
+function fmtDate(d: Date): string {
+  return d.toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function truncate(s: string, max: number): string {
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
@@ -0,0 +1,79 @@
+/**
+ * Job scheduler policy — which pipeline steps exist, how they chain, what
+ * they wait for, and how failed tasks back off.
+ *
+ * The DB side — schedules, task leases, the worker loop — lives in
+ * `./jobs/schedulerTick.ts`.
+ */
+
+import { SCHEDULER_RETRY_BASE_MS, SCHEDULER_RETRY_MAX_MS } from "./config";
+
+/* ── Task kinds ──────────────────────────────────────────── */
+
+/** Mirrors the `JobTaskKind` Prisma enum */
+export type TaskKind = "DISCOVER" | "PROCESS_QUEUE" | "BUILD_INDEX" | "MARK_STALE" | "MARKET_REPORT";
+
+export const TASK_KINDS: TaskKind[] = ["DISCOVER", "PROCESS_QUEUE", "BUILD_INDEX", "MARK_STALE", "MARKET_REPORT"];
+
+export const TASK_KIND_LABELS: Record<TaskKind, string> = {
+  DISCOVER: "Discover",
+  PROCESS_QUEUE: "Process Queue",
+  BUILD_INDEX: "Build Index",
+  MARK_STALE: "Mark Stale",
+  MARKET_REPORT: "Market Report",
+};
+
+/** Discover and process-queue run per source; the rest cover every source. */
+export function isPerSourceTask(kind: TaskKind): boolean {
+  return kind === "DISCOVER" || kind === "PROCESS_QUEUE";
+}
+
+/* ── Chaining ────────────────────────────────────────────── */
+
+/**
+ * The step enqueued when a chained task succeeds:
+ * discover → process-queue → build-index → mark-stale. The monthly market
+ * report runs on its own schedule.
+ */
+export function nextInChain(kind: TaskKind): TaskKind | null {
+  switch (kind) {
+    case "DISCOVER":
+      return "PROCESS_QUEUE";
+    case "PROCESS_QUEUE":
+      return "BUILD_INDEX";
+    case "BUILD_INDEX":
+      return "MARK_STALE";
+    case "MARK_STALE":
+    case "MARKET_REPORT":
+      return null;
+  }
+}
+
+/**
+ * Kinds that must be idle (nothing due or running) before this one may
+ * start — the index shouldn't be built while a source is still scraping,
+ * so several sources' chains collapse into one index build.
+ */
+export function upstreamKinds(kind: TaskKind): TaskKind[] {
+  switch (kind) {
+    case "BUILD_INDEX":
+      return ["DISCOVER", "PROCESS_QUEUE"];
+    case "MARK_STALE":
+    case "MARKET_REPORT":
+      return ["DISCOVER", "PROCESS_QUEUE", "BUILD_INDEX"];
+    default:
+      return [];
+  }
+}
+
+/* ── Retries ─────────────────────────────────────────────── */
+
+/** Wait before retrying after the `attempt`-th failure (1-based). */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(SCHEDULER_RETRY_MAX_MS, SCHEDULER_RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1));
+}
+
+/** Should a task that just failed its `attempts`-th try be retried? */
+export function shouldRetry(attempts: number, maxAttempts: number): boolean {
+  return attempts < maxAttempts;
+}
@@ -0,0 +1,72 @@
+/**
+ * Scraper alert email, sent to admins when a source's scrape looks broken.
+ *
+ * Built from the shared email blocks like the saved-search digest. There
+ * is nothing to unsubscribe from — the footer links go to the dashboard,
+ * where the alerts are acknowledged.
+ */
+
+import type { Block } from "@/lib/email/blocks/index";
+import { renderEmail } from "@/lib/email/render/renderEmail";
+import { renderTextVersion } from "@/lib/email/render/renderTextVersion";
+import { siteConfig } from "@/lib/site";
+import { HEALTH_FIELD_LABELS, type ScraperAlertDraft, type ScraperAlertKind } from "./scraperHealth";
+
+export interface RenderedScraperAlert {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const ALERT_TITLES: Partial<Record<ScraperAlertKind, string>> = {
+  PARSE_FAILURE: "Listing pages not parsing",
+  ZERO_DISCOVER: "No listing URLs discovered",
+};
+
+export function renderScraperAlertEmail(sourceLabel: string, alerts: ScraperAlertDraft[]): RenderedScraperAlert {
+  const dashboardUrl = `${siteConfig.url}/tools/rentals`;
+  const subject = `[Rentals] ${sourceLabel}: ${alerts.length} scraper alert${alerts.length !== 1 ? "s" : ""}`;
+  const previewText = alerts[0]?.message ?? "";
+
+  const blocks: Block[] = [
+    {
+      type: "alertBanner",
+      fields: {
+        title: `${sourceLabel} scrape looks unhealthy`,
+        body: "The latest run found far less than usual. Check the source's pages and parser before the next scheduled run.",
+        severity: "warning",
+      },
+    },
+    {
+      type: "postList",
+      fields: {
+        posts: alerts.map((a) => ({
+          title: ALERT_TITLES[a.kind] ?? `${a.field ? HEALTH_FIELD_LABELS[a.field] : "Field"} completeness dropped`,
+          url: dashboardUrl,
+          desc: a.message,
+        })),
+      },
+    },
+    {
+      type: "cta",
+      fields: {
+        ctaText: "Open pipeline dashboard",
+        ctaUrl: dashboardUrl,
+        ctaSubtext: "Acknowledge the alerts there once fixed — the same alert isn't sent again while one is open.",
+      },
+    },
+  ];
+
+  const links = {
+    unsubscribeUrl: dashboardUrl,
+    preferencesUrl: dashboardUrl,
+    siteUrl: siteConfig.url,
+  };
+  const year = new Date().getFullYear();
+
+  return {
+    subject,
+    html: renderEmail({ blocks, subject, previewText, links, year }),
+    text: renderTextVersion({ blocks, subject, previewText, links, year }),
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * Scraper health: how complete the listings a run parsed are, what is
+ * normal for each source, and when a drop means a parser has drifted.
+ *
+ * Each process-queue run tallies the share of fetched listings with a
+ * price, bedrooms, district, coordinates and images; pages that don't
+ * parse at all count with every field missing. A source's baseline is the
+ * per-field median of its last HEALTH_BASELINE_RUNS runs, so one bad run
+ * doesn't move it. A field that falls HEALTH_DROP_RATIO below its
+ * baseline, a run where most pages don't parse, or a discover run whose
+ * adapter finds no URLs at all raises a `ScraperAlert`
+ * (./scraperHealthStore.ts).
+ */
+
+import type { ScrapedListing } from "./sources/types";
+import {
+  HEALTH_DROP_RATIO,
+  HEALTH_MAX_PARSE_FAILURE_RATE,
+  HEALTH_MIN_BASELINE_RUNS,
+  HEALTH_MIN_SAMPLE,
+} from "./config";
+
+/* ── Fields ──────────────────────────────────────────────── */
+
+export const HEALTH_FIELDS = ["price", "bedrooms", "district", "coordinates", "images"] as const;
+export type HealthField = (typeof HEALTH_FIELDS)[number];
+
+export const HEALTH_FIELD_LABELS: Record<HealthField, string> = {
+  price: "Price",
+  bedrooms: "Bedrooms",
+  district: "District",
+  coordinates: "Coordinates",
+  images: "Images",
+};
+
+/** Share (0–1) of a run's listings with each field, stored on the JobRun */
+export interface FieldCompleteness {
+  /** Listing pages fetched, parsed or not */
+  sample: number;
+  /** Of those, pages the parser returned nothing for (absent on older runs) */
+  parseFailures?: number;
+  shares: Record<HealthField, number>;
+}
+
+/** A source's normal fill rates */
+export interface FieldBaseline {
+  /** Runs the medians were taken over */
+  runs: number;
+  shares: Record<HealthField, number>;
+}
+
+/* ── Tally ───────────────────────────────────────────────── */
+
+export interface CompletenessTally {
+  sample: number;
+  parseFailures: number;
+  counts: Record<HealthField, number>;
+}
+
+type TalliedListing = Pick<
+  ScrapedListing,
+  "priceMonthlyUsd" | "bedrooms" | "district" | "latitude" | "longitude" | "imageUrls"
+>;
+
+export function newCompletenessTally(): CompletenessTally {
+  return { sample: 0, parseFailures: 0, counts: { price: 0, bedrooms: 0, district: 0, coordinates: 0, images: 0 } };
+}
+
+/** Count one parsed listing. */
+export function tallyListing(tally: CompletenessTally, l: TalliedListing): void {
+  tally.sample++;
+  if (l.priceMonthlyUsd !== null) tally.counts.price++;
+  if (l.bedrooms !== null) tally.counts.bedrooms++;
+  if (l.district) tally.counts.district++;
+  if (l.latitude !== null && l.longitude !== null) tally.counts.coordinates++;
+  if (l.imageUrls.length > 0) tally.counts.images++;
+}
+
+/**
+ * Count a fetched page the parser returned nothing for — a removed listing,
+ * or a broken parser. It has none of the fields.
+ */
+export function tallyParseFailure(tally: CompletenessTally): void {
+  tally.sample++;
+  tally.parseFailures++;
+}
+
+export function completeness(tally: CompletenessTally): FieldCompleteness {
+  const shares = {} as Record<HealthField, number>;
+  for (const f of HEALTH_FIELDS) {
+    shares[f] = tally.sample > 0 ? Math.round((tally.counts[f] / tally.sample) * 1000) / 1000 : 0;
+  }
+  return { sample: tally.sample, parseFailures: tally.parseFailures, shares };
+}
+
+/** Share (0–1) of a run's fetched pages that didn't parse */
+export function parseFailureRate(c: FieldCompleteness): number {
+  return c.sample > 0 ? Math.round(((c.parseFailures ?? 0) / c.sample) * 1000) / 1000 : 0;
+}
+
+export function parseCompleteness(json: string | null): FieldCompleteness | null {
+  if (!json) return null;
+  try {
+    const v = JSON.parse(json);
+    return v && typeof v.sample === "number" && v.shares && typeof v.shares === "object" ? (v as FieldCompleteness) : null;
+  } catch {
+    return null;
+  }
+}
+
+/* ── Baseline ────────────────────────────────────────────── */
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Per-field median over a source's recent runs (too-small runs ignored),
+ * or null until there are HEALTH_MIN_BASELINE_RUNS of them.
+ */
+export function fieldBaseline(history: FieldCompleteness[]): FieldBaseline | null {
+  const runs = history.filter((h) => h.sample >= HEALTH_MIN_SAMPLE);
+  if (runs.length < HEALTH_MIN_BASELINE_RUNS) return null;
+  const shares = {} as Record<HealthField, number>;
+  for (const f of HEALTH_FIELDS) shares[f] = median(runs.map((r) => r.shares[f] ?? 0));
+  return { runs: runs.length, shares };
+}
+
+/* ── Drift ───────────────────────────────────────────────── */
+
+export interface FieldDrop {
+  field: HealthField;
+  value: number;
+  baseline: number;
+}
+
+/** Fields normally filled this rarely are too noisy to alert on */
+const MIN_BASELINE_SHARE = 0.2;
+
+/** Fields whose fill rate this run fell sharply below the baseline. */
+export function detectFieldDrops(
+  current: FieldCompleteness,
+  baseline: FieldBaseline | null,
+  dropRatio = HEALTH_DROP_RATIO,
+): FieldDrop[] {
+  if (!baseline || current.sample < HEALTH_MIN_SAMPLE) return [];
+  const drops: FieldDrop[] = [];
+  for (const field of HEALTH_FIELDS) {
+    const base = baseline.shares[field];
+    const value = current.shares[field];
+    if (base >= MIN_BASELINE_SHARE && value <= base * (1 - dropRatio)) drops.push({ field, value, baseline: base });
+  }
+  return drops;
+}
+
+/* ── Alerts ──────────────────────────────────────────────── */
+
+/** Mirrors the `ScraperAlertKind` Prisma enum */
+export type ScraperAlertKind = "FIELD_DROP" | "PARSE_FAILURE" | "ZERO_DISCOVER";
+
+export interface ScraperAlertDraft {
+  source: string;
+  kind: ScraperAlertKind;
+  field: HealthField | null;
+  value: number | null;
+  baseline: number | null;
+  message: string;
+}
+
+const pct = (share: number) => `${Math.round(share * 100)}%`;
+
+export function fieldDropAlerts(source: string, drops: FieldDrop[], sample: number): ScraperAlertDraft[] {
+  return drops.map((d) => ({
+    source,
+    kind: "FIELD_DROP",
+    field: d.field,
+    value: d.value,
+    baseline: d.baseline,
+    message: `${HEALTH_FIELD_LABELS[d.field]} found on ${pct(d.value)} of ${sample} listings (normally ${pct(d.baseline)}) — the listing parser may have drifted`,
+  }));
+}
+
+/**
+ * Alert when most of a run's pages didn't parse. Removed listings parse to
+ * nothing too, so only a majority counts — and no baseline is needed, so a
+ * parser that breaks completely is caught even on a new source.
+ */
+export function parseFailureAlerts(
+  source: string,
+  current: FieldCompleteness,
+  maxRate = HEALTH_MAX_PARSE_FAILURE_RATE,
+): ScraperAlertDraft[] {
+  const rate = parseFailureRate(current);
+  if (current.sample < HEALTH_MIN_SAMPLE || rate < maxRate) return [];
+  return [
+    {
+      source,
+      kind: "PARSE_FAILURE",
+      field: null,
+      value: rate,
+      baseline: null,
+      message: `${pct(rate)} of ${current.sample} listing pages didn't parse — the listing parser may be broken`,
+    },
+  ];
+}
+
+export function zeroDiscoverAlert(source: string): ScraperAlertDraft {
+  return {
+    source,
+    kind: "ZERO_DISCOVER",
+    field: null,
+    value: 0,
+    baseline: null,
+    message: "Discover found no listing URLs — the category pages or their selectors may have changed",
+  };
+}
+
+/**
+ * Alerts with the same key are one problem: a new one isn't raised while
+ * an earlier one is still unacknowledged.
+ */
+export function alertKey(a: { source: string; kind: string; field: string | null }): string {
+  return `${a.source}|${a.kind}|${a.field ?? ""}`;
+}
@@ -0,0 +1,208 @@
+/**
+ * Persistence for scraper health (./scraperHealth.ts): completeness
+ * history from `JobRun.fieldCompletenessJson`, and `ScraperAlert` rows.
+ *
+ * `processQueueJob` calls `checkFieldCompleteness()` after saving a run's
+ * completeness; `discoverJob` calls `raiseScraperAlerts()` when the adapter
+ * finds nothing. New alerts are emailed to admins — a failed send is
+ * logged, never thrown, so alerting can't fail a scrape.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { RentalSource } from "@prisma/client";
+import { getResendClient } from "@/lib/email/resendClient";
+import { HEALTH_ALERT_EMAILS, HEALTH_BASELINE_RUNS } from "./config";
+import { type PipelineLogFn, noopLogger } from "./pipelineLogger";
+import { renderScraperAlertEmail } from "./scraperAlertEmail";
+import {
+  alertKey,
+  detectFieldDrops,
+  fieldBaseline,
+  fieldDropAlerts,
+  parseCompleteness,
+  parseFailureAlerts,
+  type FieldBaseline,
+  type FieldCompleteness,
+  type ScraperAlertDraft,
+} from "./scraperHealth";
+import { getSourceAdapter } from "./sources/registry";
+
+const FROM_ADDRESS = "Globescraper <noreply@globescraper.com>";
+
+/* ── Baselines ───────────────────────────────────────────── */
+
+/** Completeness of a source's recent successful process-queue runs, newest first. */
+async function completenessHistory(
+  source: RentalSource,
+  excludeJobRunId?: string,
+): Promise<{ jobRunId: string; startedAt: Date; completeness: FieldCompleteness }[]> {
+  const runs = await prisma.jobRun.findMany({
+    where: {
+      jobType: "PROCESS_QUEUE",
+      source,
+      status: "SUCCESS",
+      fieldCompletenessJson: { not: null },
+      ...(excludeJobRunId ? { id: { not: excludeJobRunId } } : {}),
+    },
+    orderBy: { startedAt: "desc" },
+    take: HEALTH_BASELINE_RUNS,
+    select: { id: true, startedAt: true, fieldCompletenessJson: true },
+  });
+  return runs.flatMap((r) => {
+    const completeness = parseCompleteness(r.fieldCompletenessJson);
+    return completeness ? [{ jobRunId: r.id, startedAt: r.startedAt, completeness }] : [];
+  });
+}
+
+/**
+ * Compare a finished run's completeness with the source's baseline (taken
+ * over the runs before it) and raise alerts for sharp drops, or for most
+ * pages not parsing at all.
+ */
+export async function checkFieldCompleteness(
+  source: RentalSource,
+  jobRunId: string,
+  current: FieldCompleteness,
+  log: PipelineLogFn = noopLogger,
+): Promise<number> {
+  const history = await completenessHistory(source, jobRunId);
+  const baseline = fieldBaseline(history.map((h) => h.completeness));
+  const drafts = [
+    ...parseFailureAlerts(source, current),
+    ...fieldDropAlerts(source, detectFieldDrops(current, baseline), current.sample),
+  ];
+  return raiseScraperAlerts(drafts, jobRunId, log);
+}
+
+export interface SourceFieldHealth {
+  source: RentalSource;
+  latest: (FieldCompleteness & { jobRunId: string; startedAt: string }) | null;
+  baseline: FieldBaseline | null;
+}
+
+/** Latest completeness vs baseline for each source, for the dashboard. */
+export async function loadFieldHealth(sources: RentalSource[]): Promise<SourceFieldHealth[]> {
+  const out: SourceFieldHealth[] = [];
+  for (const source of sources) {
+    const history = await completenessHistory(source);
+    const [latest, ...previous] = history;
+    out.push({
+      source,
+      latest: latest ? { ...latest.completeness, jobRunId: latest.jobRunId, startedAt: latest.startedAt.toISOString() } : null,
+      baseline: fieldBaseline(previous.map((h) => h.completeness)),
+    });
+  }
+  return out.filter((h) => h.latest !== null);
+}
+
+/* ── Alerts ──────────────────────────────────────────────── */
+
+/**
+ * Store new alerts — skipping any already open (unacknowledged) for the
+ * same source, kind and field — and email them. Returns alerts created.
+ */
+export async function raiseScraperAlerts(
+  drafts: ScraperAlertDraft[],
+  jobRunId: string | null,
+  log: PipelineLogFn = noopLogger,
+): Promise<number> {
+  if (drafts.length === 0) return 0;
+  const sources = [...new Set(drafts.map((d) => d.source as RentalSource))];
+  const open = await prisma.scraperAlert.findMany({
+    where: { source: { in: sources }, acknowledgedAt: null },
+    select: { source: true, kind: true, field: true },
+  });
+  const openKeys = new Set(open.map(alertKey));
+  const fresh = drafts.filter((d) => !openKeys.has(alertKey(d)));
+  if (fresh.length === 0) return 0;
+
+  const created = [];
+  for (const d of fresh) {
+    log("warn", `⚠ Scraper alert (${d.source}): ${d.message}`);
+    created.push(
+      await prisma.scraperAlert.create({
+        data: {
+          source: d.source as RentalSource,
+          kind: d.kind,
+          field: d.field,
+          value: d.value,
+          baseline: d.baseline,
+          message: d.message.slice(0, 500),
+          jobRunId,
+        },
+      }),
+    );
+  }
+
+  for (const source of sources) {
+    const alerts = fresh.filter((d) => d.source === source);
+    if (alerts.length === 0) continue;
+    const sent = await emailScraperAlerts(source, alerts, log);
+    if (sent) {
+      await prisma.scraperAlert.updateMany({
+        where: { id: { in: created.filter((a) => a.source === source).map((a) => a.id) } },
+        data: { emailedAt: new Date() },
+      });
+    }
+  }
+  return created.length;
+}
+
+/** Email admins about a source's new alerts. Returns whether any email went out. */
+async function emailScraperAlerts(
+  source: RentalSource,
+  alerts: ScraperAlertDraft[],
+  log: PipelineLogFn,
+): Promise<boolean> {
+  try {
+    const recipients = await prisma.user.findMany({
+      where: HEALTH_ALERT_EMAILS.length > 0 ? { email: { in: HEALTH_ALERT_EMAILS } } : { role: "ADMIN" },
+      select: { id: true, email: true },
+    });
+    if (recipients.length === 0) {
+      log("warn", "No admin accounts to email the scraper alert to");
+      return false;
+    }
+
+    const resend = getResendClient();
+    const email = renderScraperAlertEmail(getSourceAdapter(source).label, alerts);
+    let sent = 0;
+    for (const user of recipients) {
+      const emailLog = await prisma.emailLog.create({
+        data: { userId: user.id, type: "TRANSACTIONAL", subject: email.subject.slice(0, 500), status: "PENDING" },
+      });
+      try {
+        const result = await resend.emails.send({
+          from: FROM_ADDRESS,
+          to: [user.email],
+          subject: email.subject,
+          html: email.html,
+          text: email.text,
+        });
+        await prisma.emailLog.update({
+          where: { id: emailLog.id },
+          data: { status: "SENT", providerMessageId: result.data?.id || null },
+        });
+        sent++;
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : "Send failed";
+        await prisma.emailLog.update({ where: { id: emailLog.id }, data: { status: "FAILED", error: errMsg } });
+        log("warn", `✗ Scraper alert email to ${user.email} failed: ${errMsg}`);
+      }
+    }
+    if (sent > 0) log("info", `✉ Scraper alert emailed to ${sent} admin${sent !== 1 ? "s" : ""}`);
+    return sent > 0;
+  } catch (err) {
+    log("warn", `✗ Scraper alert email not sent: ${err instanceof Error ? err.message : String(err)}`);
+    return false;
+  }
+}
+
+/** Open alerts (newest first), for the dashboard. */
+export function listOpenScraperAlerts(limit = 50) {
+  return prisma.scraperAlert.findMany({
+    where: { acknowledgedAt: null },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
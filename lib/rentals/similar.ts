@@ -0,0 +1,89 @@
+/**
+ * "Similar listings nearby" for the listing detail page.
+ *
+ * Candidates are active, primary (one per duplicate cluster) listings in the
+ * same city, within SIMILAR_PRICE_RANGE of the price and one bedroom of the
+ * listing, and either in the same district or within SIMILAR_MAX_KM. They
+ * are ranked mostly by embedding similarity (see ./ml/embeddings.ts), with
+ * a little weight on closeness in location and price.
+ *
+ * Ranking lives here; the database lookup is in ./findSimilar.ts.
+ */
+
+import { haversineKm } from "./geoSearch";
+import { cosineSimilarity } from "./ml/embeddings";
+import { SIMILAR_LISTINGS_LIMIT, SIMILAR_MAX_KM, SIMILAR_PRICE_RANGE } from "./config";
+
+/** Below this text similarity a candidate isn't shown, however close */
+const MIN_TEXT_SIMILARITY = 0.15;
+
+const WEIGHT_TEXT = 0.7;
+const WEIGHT_PLACE = 0.2;
+const WEIGHT_PRICE = 0.1;
+
+export interface SimilarityCandidate {
+  id: string;
+  clusterId: string | null;
+  district: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  priceMonthlyUsd: number | null;
+  bedrooms: number | null;
+  vector: number[];
+}
+
+export interface RankedSimilar {
+  id: string;
+  score: number;
+}
+
+/**
+ * Apply the price / bedroom / location constraints and rank by score.
+ */
+export function rankSimilarListings(
+  target: SimilarityCandidate,
+  candidates: SimilarityCandidate[],
+  limit = SIMILAR_LISTINGS_LIMIT,
+): RankedSimilar[] {
+  const ranked: RankedSimilar[] = [];
+
+  for (const c of candidates) {
+    if (c.id === target.id) continue;
+    if (target.clusterId && c.clusterId === target.clusterId) continue;
+
+    if (target.bedrooms !== null && c.bedrooms !== null && Math.abs(target.bedrooms - c.bedrooms) > 1) continue;
+
+    let priceScore = 0.5;
+    if (target.priceMonthlyUsd && c.priceMonthlyUsd) {
+      const diff = Math.abs(c.priceMonthlyUsd - target.priceMonthlyUsd) / target.priceMonthlyUsd;
+      if (diff > SIMILAR_PRICE_RANGE) continue;
+      priceScore = 1 - diff / SIMILAR_PRICE_RANGE;
+    }
+
+    let placeScore: number;
+    const sameDistrict = !!target.district && target.district === c.district;
+    const bothGeo =
+      target.latitude !== null && target.longitude !== null && c.latitude !== null && c.longitude !== null;
+    if (bothGeo) {
+      const km = haversineKm(target.latitude!, target.longitude!, c.latitude!, c.longitude!);
+      if (km > SIMILAR_MAX_KM && !sameDistrict) continue;
+      placeScore = Math.max(0, 1 - km / SIMILAR_MAX_KM);
+    } else if (sameDistrict) {
+      placeScore = 1;
+    } else if (!target.district && (target.latitude === null || target.longitude === null)) {
+      placeScore = 0; // target has no location at all — city-wide
+    } else {
+      continue;
+    }
+
+    const text = cosineSimilarity(target.vector, c.vector);
+    if (text < MIN_TEXT_SIMILARITY) continue;
+
+    ranked.push({
+      id: c.id,
+      score: Math.round((WEIGHT_TEXT * text + WEIGHT_PLACE * placeScore + WEIGHT_PRICE * priceScore) * 1000) / 1000,
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score).slice(0, limit);
+}
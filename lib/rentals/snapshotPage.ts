@@ -0,0 +1,51 @@
+/**
+ * Find the archived raw page behind a `RentalSnapshot`, for the admin
+ * snapshot viewer and its page endpoint.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { findArchivedPageNear, listArchivedPages, type ArchivedPage } from "./pageArchive";
+
+/** Snapshots recorded before `pageHash` existed match a fetch this close to `scrapedAt` */
+const NEAREST_FETCH_TOLERANCE_MS = 30 * 60 * 1000;
+
+export interface SnapshotPage {
+  snapshot: {
+    id: string;
+    scrapedAt: Date;
+    priceOriginal: string | null;
+    priceMonthlyUsd: number | null;
+    pageHash: string | null;
+    listing: { id: string; title: string; canonicalUrl: string; source: string };
+  };
+  /** Blob key of the page this snapshot was parsed from */
+  hash: string | null;
+  /** That fetch's entry in the URL's archive log (missing if the URL changed since) */
+  page: ArchivedPage | null;
+  /** Every archived fetch of the listing URL, oldest first */
+  history: ArchivedPage[];
+}
+
+/** Null when the snapshot doesn't exist. */
+export async function getSnapshotPage(snapshotId: string): Promise<SnapshotPage | null> {
+  const snapshot = await prisma.rentalSnapshot.findUnique({
+    where: { id: snapshotId },
+    select: {
+      id: true,
+      scrapedAt: true,
+      priceOriginal: true,
+      priceMonthlyUsd: true,
+      pageHash: true,
+      listing: { select: { id: true, title: true, canonicalUrl: true, source: true } },
+    },
+  });
+  if (!snapshot) return null;
+
+  const url = snapshot.listing.canonicalUrl;
+  const history = await listArchivedPages(url);
+  const page = snapshot.pageHash
+    ? history.find((p) => p.hash === snapshot.pageHash) ?? null
+    : await findArchivedPageNear(url, snapshot.scrapedAt, NEAREST_FETCH_TOLERANCE_MS);
+
+  return { snapshot, hash: snapshot.pageHash ?? page?.hash ?? null, page, history };
+}
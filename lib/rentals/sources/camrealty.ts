@@ -18,14 +18,14 @@ import { fetchHtml, politeDelay } from "../http";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType, shouldIngest } from "../classify";
 import {
-  parsePriceMonthlyUsd,
+  parsePrice,
   parseBedsBathsSize,
   parseDistrict,
   parseCity,
   parseAmenities,
 } from "../parse";
 import { DISCOVER_MAX_PAGES, DISCOVER_MAX_URLS } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /* ── Category URLs ───────────────────────────────────────── */
@@ -35,33 +35,6 @@ const CATEGORY_URLS = [
   "https://camrealtyservice.com/property-type/serviced-apartment/",
 ];
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── Discover ────────────────────────────────────────────── */
 
 export async function discoverCamRealty(
@@ -92,31 +65,14 @@ export async function discoverCamRealty(
         break;
       }
 
-      const $ = cheerio.load(html);
       const beforeCount = urls.length;
 
-      // CamRealty cards link to /property/{slug}/
-      $('a[href*="/property/"]').each((_i, el) => {
-        if (urls.length >= DISCOVER_MAX_URLS) return false;
-
-        const href = $(el).attr("href");
-        if (!href) return;
-
-        const full = href.startsWith("http")
-          ? href
-          : `https://camrealtyservice.com${href}`;
-
-        if (!isListingUrl(full)) return;
-
-        const canonical = canonicalizeUrl(full);
-        if (seen.has(canonical)) return;
-        seen.add(canonical);
-
-        urls.push({
-          url: canonical,
-          sourceListingId: extractListingId(full),
-        });
-      });
+      for (const item of extractListingUrlsCamRealty(html)) {
+        if (urls.length >= DISCOVER_MAX_URLS) break;
+        if (seen.has(item.url)) continue;
+        seen.add(item.url);
+        urls.push(item);
+      }
 
       const newFound = urls.length - beforeCount;
       log(
@@ -141,6 +97,38 @@ export async function discoverCamRealty(
   return urls;
 }
 
+/**
+ * Extract listing URLs from one category page (deduplicated, page order).
+ */
+export function extractListingUrlsCamRealty(html: string): DiscoveredUrl[] {
+  const $ = cheerio.load(html);
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+
+  // CamRealty cards link to /property/{slug}/
+  $('a[href*="/property/"]').each((_i, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+
+    const full = href.startsWith("http")
+      ? href
+      : `https://camrealtyservice.com${href}`;
+
+    if (!isListingUrl(full)) return;
+
+    const canonical = canonicalizeUrl(full);
+    if (seen.has(canonical)) return;
+    seen.add(canonical);
+
+    urls.push({
+      url: canonical,
+      sourceListingId: extractListingId(full),
+    });
+  });
+
+  return urls;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 export async function scrapeListingCamRealty(
@@ -154,6 +142,15 @@ export async function scrapeListingCamRealty(
     return null;
   }
 
+  return parseListingCamRealty(html, url, log);
+}
+
+/** Parse a CamRealty property page. */
+export function parseListingCamRealty(
+  html: string,
+  url: string,
+  log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
   const $ = cheerio.load(html);
 
   // Title — WordPress single property title
@@ -198,7 +195,8 @@ export async function scrapeListingCamRealty(
     if (m) priceText = "$" + m[1];
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   log(
     "debug",
     `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`
@@ -263,8 +261,9 @@ export async function scrapeListingCamRealty(
     bathrooms,
     sizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
-    currency: "USD",
+    currency: price?.currency ?? "USD",
     imageUrls: [...imageSet],
     amenities: parseAmenities(`${title} ${description ?? ""}`),
     postedAt: null,
@@ -297,3 +296,21 @@ function extractListingId(url: string): string | null {
   const idMatch = slug.match(/n(\d{5,})/);
   return idMatch ? idMatch[1] : slug;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const camRealtyAdapter: RentalSourceAdapter = {
+  source: "CAMREALTY",
+  label: "CamRealty",
+  baseUrl: "https://camrealtyservice.com",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: false,
+    currency: "USD",
+    pagination: "path-segment",
+  },
+  discover: discoverCamRealty,
+  scrapeListing: scrapeListingCamRealty,
+  parseListing: parseListingCamRealty,
+  parseCategoryPage: extractListingUrlsCamRealty,
+};
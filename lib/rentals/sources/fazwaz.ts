@@ -21,14 +21,14 @@ import { fetchHtml, politeDelay } from "../http";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType, shouldIngest } from "../classify";
 import {
-  parsePriceMonthlyUsd,
+  parsePrice,
   parseBedsBathsSize,
   parseDistrict,
   parseCity,
   parseAmenities,
 } from "../parse";
 import { DISCOVER_MAX_PAGES, DISCOVER_MAX_URLS } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /* ── Category URLs ───────────────────────────────────────── */
@@ -37,33 +37,6 @@ const CATEGORY_BASE =
   "https://www.fazwaz-kh.com/property-for-rent/cambodia";
 const CATEGORY_PARAMS = "type=apartment,condo&order_by=rank|asc";
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── Discover ────────────────────────────────────────────── */
 
 export async function discoverFazWaz(
@@ -93,31 +66,14 @@ export async function discoverFazWaz(
       break;
     }
 
-    const $ = cheerio.load(html);
     const beforeCount = urls.length;
 
-    // FazWaz listing links: /property-rent/{slug}-u{unit_id}
-    $('a[href*="/property-rent/"]').each((_i, el) => {
-      if (urls.length >= DISCOVER_MAX_URLS) return false;
-
-      const href = $(el).attr("href");
-      if (!href) return;
-
-      const full = href.startsWith("http")
-        ? href
-        : `https://www.fazwaz-kh.com${href}`;
-
-      if (!isListingUrl(full)) return;
-
-      const canonical = canonicalizeUrl(full);
-      if (seen.has(canonical)) return;
-      seen.add(canonical);
-
-      urls.push({
-        url: canonical,
-        sourceListingId: extractListingId(full),
-      });
-    });
+    for (const item of extractListingUrlsFazWaz(html)) {
+      if (urls.length >= DISCOVER_MAX_URLS) break;
+      if (seen.has(item.url)) continue;
+      seen.add(item.url);
+      urls.push(item);
+    }
 
     const newFound = urls.length - beforeCount;
     log(
@@ -141,6 +97,38 @@ export async function discoverFazWaz(
   return urls;
 }
 
+/**
+ * Extract listing URLs from one search results page (deduplicated, page order).
+ */
+export function extractListingUrlsFazWaz(html: string): DiscoveredUrl[] {
+  const $ = cheerio.load(html);
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+
+  // FazWaz listing links: /property-rent/{slug}-u{unit_id}
+  $('a[href*="/property-rent/"]').each((_i, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+
+    const full = href.startsWith("http")
+      ? href
+      : `https://www.fazwaz-kh.com${href}`;
+
+    if (!isListingUrl(full)) return;
+
+    const canonical = canonicalizeUrl(full);
+    if (seen.has(canonical)) return;
+    seen.add(canonical);
+
+    urls.push({
+      url: canonical,
+      sourceListingId: extractListingId(full),
+    });
+  });
+
+  return urls;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 export async function scrapeListingFazWaz(
@@ -154,6 +142,15 @@ export async function scrapeListingFazWaz(
     return null;
   }
 
+  return parseListingFazWaz(html, url, log);
+}
+
+/** Parse a FazWaz listing page. */
+export function parseListingFazWaz(
+  html: string,
+  url: string,
+  log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
   const $ = cheerio.load(html);
 
   // Title
@@ -203,7 +200,8 @@ export async function scrapeListingFazWaz(
     if (m) priceText = "$" + m[1];
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   log(
     "debug",
     `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`
@@ -302,8 +300,9 @@ export async function scrapeListingFazWaz(
     bathrooms,
     sizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
-    currency: "USD",
+    currency: price?.currency ?? "USD",
     imageUrls: [...imageSet],
     amenities: parseAmenities(
       `${title} ${description ?? ""} ${detailText}`
@@ -334,3 +333,21 @@ function extractListingId(url: string): string | null {
   const m = url.match(/-u(\d+)(?:\?|$|\/)/);
   return m ? m[1] : null;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const fazWazAdapter: RentalSourceAdapter = {
+  source: "FAZWAZ",
+  label: "FazWaz",
+  baseUrl: "https://www.fazwaz-kh.com",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: false,
+    currency: "USD",
+    pagination: "path-segment",
+  },
+  discover: discoverFazWaz,
+  scrapeListing: scrapeListingFazWaz,
+  parseListing: parseListingFazWaz,
+  parseCategoryPage: extractListingUrlsFazWaz,
+};
@@ -7,7 +7,8 @@
  * detail pages with monthly pricing.
  *
  * This adapter is disabled by default in config.ts because:
- *  - Nightly pricing doesn't map cleanly to monthly USD for the heatmap
+ *  - Nightly pricing doesn't map cleanly to monthly rents for the heatmap
+ *    (GBP itself is no longer a blocker — ../currency.ts converts it)
  *  - JS-heavy SPA requires Playwright overhead
  *  - Aggregator (duplication risk with source sites)
  *
@@ -15,34 +16,7 @@
  */
 
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
-import type { PropertyType } from "@prisma/client";
-
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 
 /* ── Discover (stub) ─────────────────────────────────────── */
 
@@ -66,3 +40,34 @@ export async function scrapeListingHomeToGo(
   log("warn", `HomeToGo scraping disabled — skipping ${url}`);
   return null;
 }
+
+export function parseListingHomeToGo(
+  _html: string,
+  _url: string,
+  _log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
+  return null;
+}
+
+export function extractListingUrlsHomeToGo(_body: string): DiscoveredUrl[] {
+  return [];
+}
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const homeToGoAdapter: RentalSourceAdapter = {
+  source: "HOMETOGO",
+  label: "HomeToGo",
+  baseUrl: "https://www.hometogo.com",
+  // Disabled: nightly GBP pricing, JS SPA, aggregator — poor fit for monthly USD heatmap
+  enabled: false,
+  capabilities: {
+    needsPlaywright: true,
+    currency: "GBP",
+    pagination: "none",
+  },
+  discover: discoverHomeToGo,
+  scrapeListing: scrapeListingHomeToGo,
+  parseListing: parseListingHomeToGo,
+  parseCategoryPage: extractListingUrlsHomeToGo,
+};
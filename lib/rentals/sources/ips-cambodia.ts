@@ -14,47 +14,20 @@ import { fetchHtml, politeDelay } from "../http";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType, shouldIngest } from "../classify";
 import {
-  parsePriceMonthlyUsd,
+  parsePrice,
   parseBedsBathsSize,
   parseDistrict,
   parseCity,
   parseAmenities,
 } from "../parse";
 import { DISCOVER_MAX_PAGES, DISCOVER_MAX_URLS } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /* ── Category URLs ───────────────────────────────────────── */
 
 const CATEGORY_URLS = ["https://ips-cambodia.com/rent/"];
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── Discover ────────────────────────────────────────────── */
 
 export async function discoverIpsCambodia(
@@ -85,31 +58,14 @@ export async function discoverIpsCambodia(
         break;
       }
 
-      const $ = cheerio.load(html);
       const beforeCount = urls.length;
 
-      // IPS listing links follow /listing-details/(rental|commercial)/{id}-{slug}/
-      $("a[href]").each((_i, el) => {
-        if (urls.length >= DISCOVER_MAX_URLS) return false;
-
-        const href = $(el).attr("href");
-        if (!href) return;
-
-        const full = href.startsWith("http")
-          ? href
-          : `https://ips-cambodia.com${href}`;
-
-        if (!isListingUrl(full)) return;
-
-        const canonical = canonicalizeUrl(full);
-        if (seen.has(canonical)) return;
-        seen.add(canonical);
-
-        urls.push({
-          url: canonical,
-          sourceListingId: extractListingId(full),
-        });
-      });
+      for (const item of extractListingUrlsIpsCambodia(html)) {
+        if (urls.length >= DISCOVER_MAX_URLS) break;
+        if (seen.has(item.url)) continue;
+        seen.add(item.url);
+        urls.push(item);
+      }
 
       const newFound = urls.length - beforeCount;
       log(
@@ -134,6 +90,38 @@ export async function discoverIpsCambodia(
   return urls;
 }
 
+/**
+ * Extract listing URLs from one category index page (deduplicated, page order).
+ */
+export function extractListingUrlsIpsCambodia(html: string): DiscoveredUrl[] {
+  const $ = cheerio.load(html);
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+
+  // IPS listing links follow /listing-details/(rental|commercial)/{id}-{slug}/
+  $("a[href]").each((_i, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+
+    const full = href.startsWith("http")
+      ? href
+      : `https://ips-cambodia.com${href}`;
+
+    if (!isListingUrl(full)) return;
+
+    const canonical = canonicalizeUrl(full);
+    if (seen.has(canonical)) return;
+    seen.add(canonical);
+
+    urls.push({
+      url: canonical,
+      sourceListingId: extractListingId(full),
+    });
+  });
+
+  return urls;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 export async function scrapeListingIpsCambodia(
@@ -147,6 +135,15 @@ export async function scrapeListingIpsCambodia(
     return null;
   }
 
+  return parseListingIpsCambodia(html, url, log);
+}
+
+/** Parse an IPS Cambodia listing page. */
+export function parseListingIpsCambodia(
+  html: string,
+  url: string,
+  log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
   const $ = cheerio.load(html);
 
   // Title
@@ -192,7 +189,8 @@ export async function scrapeListingIpsCambodia(
     if (m) priceText = "$" + m[1];
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   log("debug", `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`);
 
   // Location from title pattern: "X Bedroom Y For Rent - District, City"
@@ -277,8 +275,9 @@ export async function scrapeListingIpsCambodia(
     bathrooms,
     sizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
-    currency: "USD",
+    currency: price?.currency ?? "USD",
     imageUrls,
     amenities: parseAmenities(`${title} ${description ?? ""}`),
     postedAt,
@@ -304,3 +303,21 @@ function extractListingId(url: string): string | null {
   const match = url.match(/listing-details\/(?:rental|commercial)\/(\d+)-/);
   return match ? match[1] : null;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const ipsCambodiaAdapter: RentalSourceAdapter = {
+  source: "IPS_CAMBODIA",
+  label: "IPS Cambodia",
+  baseUrl: "https://ips-cambodia.com",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: false,
+    currency: "USD",
+    pagination: "query-param",
+  },
+  discover: discoverIpsCambodia,
+  scrapeListing: scrapeListingIpsCambodia,
+  parseListing: parseListingIpsCambodia,
+  parseCategoryPage: extractListingUrlsIpsCambodia,
+};
@@ -18,9 +18,9 @@ import * as cheerio from "cheerio";
 import { fetchHtmlPlaywright, fetchCategoryPagePlaywright } from "../playwright";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType, shouldIngest } from "../classify";
-import { parsePriceMonthlyUsd, parseBedsBathsSize, parseDistrict, parseCity, parseAmenities } from "../parse";
+import { parsePrice, parseBedsBathsSize, parseDistrict, parseCity, parseAmenities } from "../parse";
 import { DISCOVER_MAX_PAGES, DISCOVER_MAX_URLS } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 
 import type { PipelineLogFn } from "../pipelineLogger";
 import { politeDelay } from "../http";
@@ -36,33 +36,6 @@ const CATEGORY_URLS = [
   "https://www.khmer24.com/en/c-condo-for-rent",
 ];
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── Discover ────────────────────────────────────────────── */
 
 /**
@@ -94,32 +67,15 @@ export async function discoverKhmer24(log?: PipelineLogFn): Promise<DiscoveredUr
         break;
       }
 
-      const $ = cheerio.load(html);
       let newOnThisPage = 0;
 
-      // Khmer24 listing links follow /en/<slug>-adid-<digits>
-      $("a[href]").each((_i, el) => {
-        if (urls.length >= DISCOVER_MAX_URLS) return false;
-
-        const href = $(el).attr("href");
-        if (!href) return;
-
-        const full = href.startsWith("http")
-          ? href
-          : `https://www.khmer24.com${href}`;
-
-        if (!isListingUrl(full)) return;
-
-        const canonical = canonicalizeUrl(full);
-        if (seen.has(canonical)) return;
-        seen.add(canonical);
-
-        urls.push({
-          url: canonical,
-          sourceListingId: extractListingId(full),
-        });
+      for (const item of extractListingUrlsKhmer24(html)) {
+        if (urls.length >= DISCOVER_MAX_URLS) break;
+        if (seen.has(item.url)) continue;
+        seen.add(item.url);
+        urls.push(item);
         newOnThisPage++;
-      });
+      }
 
       _log("debug", `  Found ${newOnThisPage} new listing URLs (total: ${urls.length})`);
 
@@ -138,6 +94,38 @@ export async function discoverKhmer24(log?: PipelineLogFn): Promise<DiscoveredUr
   return urls;
 }
 
+/**
+ * Extract listing URLs from one category page (deduplicated, page order).
+ */
+export function extractListingUrlsKhmer24(html: string): DiscoveredUrl[] {
+  const $ = cheerio.load(html);
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+
+  // Khmer24 listing links follow /en/<slug>-adid-<digits>
+  $("a[href]").each((_i, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+
+    const full = href.startsWith("http")
+      ? href
+      : `https://www.khmer24.com${href}`;
+
+    if (!isListingUrl(full)) return;
+
+    const canonical = canonicalizeUrl(full);
+    if (seen.has(canonical)) return;
+    seen.add(canonical);
+
+    urls.push({
+      url: canonical,
+      sourceListingId: extractListingId(full),
+    });
+  });
+
+  return urls;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 /**
@@ -168,6 +156,18 @@ export async function scrapeListingKhmer24(
     return null;
   }
 
+  return parseListingKhmer24(html, url, _log);
+}
+
+/** Parse a Khmer24 listing page; relative "posted" dates resolve against now. */
+export function parseListingKhmer24(
+  html: string,
+  url: string,
+  log?: PipelineLogFn
+): ScrapedListing | null {
+  const noopLog: PipelineLogFn = () => {};
+  const _log = log ?? noopLog;
+
   const $ = cheerio.load(html);
 
   // ── Title ──
@@ -214,7 +214,8 @@ export async function scrapeListingKhmer24(
     if (m) priceText = "$" + m[1];
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   _log("debug", `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`);
 
   // ── Structured specs (dt/dd grid) ──
@@ -381,8 +382,9 @@ export async function scrapeListingKhmer24(
     bathrooms,
     sizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
-    currency: "USD",
+    currency: price?.currency ?? "USD",
     imageUrls,
     amenities: parseAmenities(`${title} ${description ?? ""}`),
     postedAt,
@@ -489,3 +491,21 @@ function parsePostedDate(dateLocationText: string): Date | null {
 
   return null;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const khmer24Adapter: RentalSourceAdapter = {
+  source: "KHMER24",
+  label: "Khmer24",
+  baseUrl: "https://www.khmer24.com",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: true,
+    currency: "USD",
+    pagination: "query-param",
+  },
+  discover: discoverKhmer24,
+  scrapeListing: scrapeListingKhmer24,
+  parseListing: parseListingKhmer24,
+  parseCategoryPage: extractListingUrlsKhmer24,
+};
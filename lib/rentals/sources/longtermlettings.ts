@@ -18,14 +18,14 @@ import { fetchHtml, politeDelay } from "../http";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType, shouldIngest } from "../classify";
 import {
-  parsePriceMonthlyUsd,
+  parsePrice,
   parseBedsBathsSize,
   parseDistrict,
   parseCity,
   parseAmenities,
 } from "../parse";
 import { DISCOVER_MAX_URLS } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /* ── Category URLs ───────────────────────────────────────── */
@@ -34,33 +34,6 @@ const CATEGORY_URLS = [
   "https://www.longtermlettings.com/rent/monthly/cambodia/",
 ];
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── Discover ────────────────────────────────────────────── */
 
 export async function discoverLongTermLettings(
@@ -69,6 +42,15 @@ export async function discoverLongTermLettings(
   const urls: DiscoveredUrl[] = [];
   const seen = new Set<string>();
 
+  const addAll = (html: string) => {
+    for (const item of extractListingUrlsLongTermLettings(html)) {
+      if (urls.length >= DISCOVER_MAX_URLS) break;
+      if (seen.has(item.url)) continue;
+      seen.add(item.url);
+      urls.push(item);
+    }
+  };
+
   for (const categoryUrl of CATEGORY_URLS) {
     log("info", `Scanning category: ${categoryUrl}`);
 
@@ -78,40 +60,13 @@ export async function discoverLongTermLettings(
       continue;
     }
 
-    const $ = cheerio.load(html);
-
-    // LongTermLettings listing links: /r/rent/hms_{id}/
-    $('a[href*="/r/rent/hms_"]').each((_i, el) => {
-      if (urls.length >= DISCOVER_MAX_URLS) return false;
-
-      const href = $(el).attr("href");
-      if (!href) return;
-
-      const full = href.startsWith("http")
-        ? href
-        : `https://www.longtermlettings.com${href}`;
-
-      if (!isListingUrl(full)) return;
-
-      const canonical = canonicalizeUrl(full);
-      if (seen.has(canonical)) return;
-      seen.add(canonical);
-
-      urls.push({
-        url: canonical,
-        sourceListingId: extractListingId(full),
-      });
-    });
-
+    addAll(html);
     log("info", `Found ${urls.length} listings on ${categoryUrl}`);
 
     // Check if there are additional pages
-    const nextLink = $('a[href*="cambodia/"][rel="next"], a.next, a:contains("Next")').attr("href");
-    if (nextLink) {
-      log("info", `Found pagination link: ${nextLink} — fetching additional pages`);
-      let pageUrl = nextLink.startsWith("http")
-        ? nextLink
-        : `https://www.longtermlettings.com${nextLink}`;
+    let pageUrl = extractNextPageUrl(html);
+    if (pageUrl) {
+      log("info", `Found pagination link: ${pageUrl} — fetching additional pages`);
       let pageCount = 1;
 
       while (pageUrl && pageCount < 10 && urls.length < DISCOVER_MAX_URLS) {
@@ -120,28 +75,8 @@ export async function discoverLongTermLettings(
         const pageHtml = await fetchHtml(pageUrl);
         if (!pageHtml) break;
 
-        const $p = cheerio.load(pageHtml);
-
-        $p('a[href*="/r/rent/hms_"]').each((_i, el) => {
-          if (urls.length >= DISCOVER_MAX_URLS) return false;
-          const h = $p(el).attr("href");
-          if (!h) return;
-          const f = h.startsWith("http")
-            ? h
-            : `https://www.longtermlettings.com${h}`;
-          if (!isListingUrl(f)) return;
-          const c = canonicalizeUrl(f);
-          if (seen.has(c)) return;
-          seen.add(c);
-          urls.push({ url: c, sourceListingId: extractListingId(f) });
-        });
-
-        const next = $p('a[href*="cambodia/"][rel="next"], a.next, a:contains("Next")').attr("href");
-        pageUrl = next
-          ? next.startsWith("http")
-            ? next
-            : `https://www.longtermlettings.com${next}`
-          : "";
+        addAll(pageHtml);
+        pageUrl = extractNextPageUrl(pageHtml);
       }
     }
   }
@@ -150,6 +85,46 @@ export async function discoverLongTermLettings(
   return urls;
 }
 
+/**
+ * Extract listing URLs from one category page (deduplicated, page order).
+ */
+export function extractListingUrlsLongTermLettings(html: string): DiscoveredUrl[] {
+  const $ = cheerio.load(html);
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+
+  // LongTermLettings listing links: /r/rent/hms_{id}/
+  $('a[href*="/r/rent/hms_"]').each((_i, el) => {
+    const href = $(el).attr("href");
+    if (!href) return;
+
+    const full = href.startsWith("http")
+      ? href
+      : `https://www.longtermlettings.com${href}`;
+
+    if (!isListingUrl(full)) return;
+
+    const canonical = canonicalizeUrl(full);
+    if (seen.has(canonical)) return;
+    seen.add(canonical);
+
+    urls.push({
+      url: canonical,
+      sourceListingId: extractListingId(full),
+    });
+  });
+
+  return urls;
+}
+
+/** Absolute URL of the "next page" link on a category page, or "". */
+function extractNextPageUrl(html: string): string {
+  const $ = cheerio.load(html);
+  const next = $('a[href*="cambodia/"][rel="next"], a.next, a:contains("Next")').attr("href");
+  if (!next) return "";
+  return next.startsWith("http") ? next : `https://www.longtermlettings.com${next}`;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 export async function scrapeListingLongTermLettings(
@@ -163,6 +138,15 @@ export async function scrapeListingLongTermLettings(
     return null;
   }
 
+  return parseListingLongTermLettings(html, url, log);
+}
+
+/** Parse a LongTermLettings listing page. */
+export function parseListingLongTermLettings(
+  html: string,
+  url: string,
+  log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
   const $ = cheerio.load(html);
 
   // Title
@@ -209,7 +193,8 @@ export async function scrapeListingLongTermLettings(
     if (m) priceText = "$" + m[1];
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   log(
     "debug",
     `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`
@@ -270,8 +255,9 @@ export async function scrapeListingLongTermLettings(
     bathrooms,
     sizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
-    currency: "USD",
+    currency: price?.currency ?? "USD",
     imageUrls: [...imageSet],
     amenities: parseAmenities(
       `${title} ${description ?? ""} ${detailText}`
@@ -298,3 +284,21 @@ function extractListingId(url: string): string | null {
   const m = url.match(/hms_(\d+)/);
   return m ? m[1] : null;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const longTermLettingsAdapter: RentalSourceAdapter = {
+  source: "LONGTERMLETTINGS",
+  label: "LongTermLettings",
+  baseUrl: "https://www.longtermlettings.com",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: false,
+    currency: "USD",
+    pagination: "single-page",
+  },
+  discover: discoverLongTermLettings,
+  scrapeListing: scrapeListingLongTermLettings,
+  parseListing: parseListingLongTermLettings,
+  parseCategoryPage: extractListingUrlsLongTermLettings,
+};
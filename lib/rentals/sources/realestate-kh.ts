@@ -14,9 +14,9 @@ import { fetchHtml, politeDelay } from "../http";
 import { canonicalizeUrl } from "../url";
 import { classifyPropertyType } from "../classify";
 import { isDescriptionHeadlineNonResidential, getDescriptionHeadlineType } from "../classify";
-import { parsePriceMonthlyUsd, parseBedsBathsSize, parseDistrict, parseCity, parseAmenities } from "../parse";
+import { parsePrice, parseBedsBathsSize, parseDistrict, parseCity, parseAmenities } from "../parse";
 import { USER_AGENT } from "../config";
-import type { PropertyType } from "@prisma/client";
+import type { DiscoveredUrl, ScrapedListing, RentalSourceAdapter } from "./types";
 import { type PipelineLogFn, noopLogger } from "../pipelineLogger";
 
 /* ── API constants ───────────────────────────────────────── */
@@ -39,33 +39,6 @@ const CATEGORY_PATHNAMES = [
   { pathname: "/rent/villa/", label: "villa" },
 ];
 
-/* ── Types ───────────────────────────────────────────────── */
-
-export interface DiscoveredUrl {
-  url: string;
-  sourceListingId: string | null;
-}
-
-export interface ScrapedListing {
-  sourceListingId: string | null;
-  title: string;
-  description: string | null;
-  city: string;
-  district: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  propertyType: PropertyType;
-  bedrooms: number | null;
-  bathrooms: number | null;
-  sizeSqm: number | null;
-  priceOriginal: string | null;
-  priceMonthlyUsd: number | null;
-  currency: string | null;
-  imageUrls: string[];
-  amenities: string[];
-  postedAt: Date | null;
-}
-
 /* ── API types ───────────────────────────────────────────── */
 
 interface ApiListingResult {
@@ -207,6 +180,26 @@ function addResult(result: ApiListingResult, seen: Set<string>, out: DiscoveredU
   }
 }
 
+/**
+ * Extract listing URLs from one already-fetched API page (raw JSON body).
+ * Malformed bodies yield an empty list.
+ */
+export function extractListingUrlsRealestateKh(body: string): DiscoveredUrl[] {
+  let page: ApiPageResponse;
+  try {
+    page = JSON.parse(body) as ApiPageResponse;
+  } catch {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const urls: DiscoveredUrl[] = [];
+  for (const result of page.results ?? []) {
+    addResult(result, seen, urls);
+  }
+  return urls;
+}
+
 /* ── Scrape individual listing ───────────────────────────── */
 
 /**
@@ -227,6 +220,15 @@ export async function scrapeListingRealestateKh(
     return null;
   }
 
+  return parseListingRealestateKh(html, url, log);
+}
+
+/** Parse a realestate.com.kh listing page; relative "listed" dates resolve against now. */
+export function parseListingRealestateKh(
+  html: string,
+  url: string,
+  log: PipelineLogFn = noopLogger
+): ScrapedListing | null {
   const $ = cheerio.load(html);
 
   // Title
@@ -311,7 +313,8 @@ export async function scrapeListingRealestateKh(
       $('[class*="price"], .listing-price').first().text().trim() || null;
   }
 
-  const priceMonthlyUsd = parsePriceMonthlyUsd(priceText);
+  const price = parsePrice(priceText);
+  const priceMonthlyUsd = price?.usd ?? null;
   log(
     "debug",
     `Price: ${priceText ?? "not found"} → $${priceMonthlyUsd ?? "N/A"}/mo`
@@ -462,7 +465,7 @@ export async function scrapeListingRealestateKh(
   }
 
   const sourceListingId = extractListingId(url);
-  const currency = priceText?.toLowerCase().includes("usd") ? "USD" : priceText ? "USD" : null;
+  const currency = price?.currency ?? (priceText ? "USD" : null);
 
   return {
     sourceListingId,
@@ -477,6 +480,7 @@ export async function scrapeListingRealestateKh(
     bathrooms,
     sizeSqm: finalSizeSqm,
     priceOriginal: priceText,
+    priceAmount: price?.amount ?? null,
     priceMonthlyUsd,
     currency,
     imageUrls,
@@ -569,3 +573,21 @@ function parseRelativeDate(text: string): Date | null {
 
   return now;
 }
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export const realestateKhAdapter: RentalSourceAdapter = {
+  source: "REALESTATE_KH",
+  label: "Realestate.com.kh",
+  baseUrl: "https://www.realestate.com.kh",
+  enabled: true,
+  capabilities: {
+    needsPlaywright: false,
+    currency: "USD",
+    pagination: "json-api",
+  },
+  discover: discoverRealestateKh,
+  scrapeListing: scrapeListingRealestateKh,
+  parseListing: parseListingRealestateKh,
+  parseCategoryPage: extractListingUrlsRealestateKh,
+};
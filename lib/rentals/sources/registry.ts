@@ -0,0 +1,87 @@
+/**
+ * Rental Source Adapter Registry
+ *
+ * Single lookup table from RentalSource → adapter. Jobs, API routes,
+ * config and the pipeline dashboard resolve sources through here, so
+ * adding a portal means writing one module in this directory and adding
+ * one entry below (the Record type makes a missing entry a compile error).
+ */
+
+import type { RentalSource } from "@prisma/client";
+import type { RentalSourceAdapter } from "./types";
+import { khmer24Adapter } from "./khmer24";
+import { realestateKhAdapter } from "./realestate-kh";
+import { ipsCambodiaAdapter } from "./ips-cambodia";
+import { camRealtyAdapter } from "./camrealty";
+import { longTermLettingsAdapter } from "./longtermlettings";
+import { fazWazAdapter } from "./fazwaz";
+import { homeToGoAdapter } from "./hometogo";
+
+export const SOURCE_ADAPTERS: Record<RentalSource, RentalSourceAdapter> = {
+  KHMER24: khmer24Adapter,
+  REALESTATE_KH: realestateKhAdapter,
+  IPS_CAMBODIA: ipsCambodiaAdapter,
+  CAMREALTY: camRealtyAdapter,
+  LONGTERMLETTINGS: longTermLettingsAdapter,
+  FAZWAZ: fazWazAdapter,
+  HOMETOGO: homeToGoAdapter,
+};
+
+/** Every registered source, in registry order. */
+export const ALL_SOURCES = Object.keys(SOURCE_ADAPTERS) as RentalSource[];
+
+/** Source toggles, derived from each adapter's `enabled` flag. */
+export const enabledSources: Record<RentalSource, boolean> = Object.fromEntries(
+  ALL_SOURCES.map((s) => [s, SOURCE_ADAPTERS[s].enabled])
+) as Record<RentalSource, boolean>;
+
+/** Type guard for untrusted input (query params, CLI args). */
+export function isRentalSource(value: string | null | undefined): value is RentalSource {
+  return !!value && Object.prototype.hasOwnProperty.call(SOURCE_ADAPTERS, value);
+}
+
+export function getSourceAdapter(source: RentalSource): RentalSourceAdapter {
+  const adapter = SOURCE_ADAPTERS[source];
+  if (!adapter) throw new Error(`Unknown source: ${source}`);
+  return adapter;
+}
+
+export function isSourceEnabled(source: RentalSource): boolean {
+  return enabledSources[source] ?? false;
+}
+
+/** Adapters that jobs are allowed to run. */
+export function listEnabledSources(): RentalSource[] {
+  return ALL_SOURCES.filter(isSourceEnabled);
+}
+
+/** Client-safe metadata for dashboards (no functions). */
+export interface SourceInfo {
+  source: RentalSource;
+  label: string;
+  baseUrl: string;
+  enabled: boolean;
+  needsPlaywright: boolean;
+  currency: string;
+  pagination: string;
+}
+
+export function describeSources(): SourceInfo[] {
+  return ALL_SOURCES.map((s) => {
+    const a = SOURCE_ADAPTERS[s];
+    return {
+      source: a.source,
+      label: a.label,
+      baseUrl: a.baseUrl,
+      enabled: a.enabled,
+      needsPlaywright: a.capabilities.needsPlaywright,
+      currency: a.capabilities.currency,
+      pagination: a.capabilities.pagination,
+    };
+  });
+}
+
+/** `KHMER24|REALESTATE_KH|…` — for API error messages. */
+export function sourceUsageHint(): string {
+  return ALL_SOURCES.join("|");
+}
@@ -0,0 +1,85 @@
+/**
+ * Shared types for rental source adapters.
+ *
+ * Every portal module in this directory exports a `RentalSourceAdapter`
+ * which is registered in `./registry.ts`. Jobs, config and the pipeline
+ * dashboard only ever talk to adapters through this interface.
+ */
+
+import type { PropertyType, RentalSource } from "@prisma/client";
+import type { PipelineLogFn } from "../pipelineLogger";
+
+/* ── Adapter output ──────────────────────────────────────── */
+
+export interface DiscoveredUrl {
+  url: string;
+  sourceListingId: string | null;
+}
+
+export interface ScrapedListing {
+  sourceListingId: string | null;
+  title: string;
+  description: string | null;
+  city: string;
+  district: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  propertyType: PropertyType;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  sizeSqm: number | null;
+  priceOriginal: string | null;
+  /** Monthly price in `currency`, as quoted */
+  priceAmount: number | null;
+  priceMonthlyUsd: number | null;
+  currency: string | null;
+  imageUrls: string[];
+  amenities: string[];
+  postedAt: Date | null;
+}
+
+/* ── Capabilities ────────────────────────────────────────── */
+
+/**
+ * How an adapter walks category/index pages during discover.
+ *   query-param  — ?page=N / ?paging=N
+ *   path-segment — /page/N/
+ *   json-api     — paginated internal JSON endpoint
+ *   single-page  — everything on one index page
+ *   none         — adapter does not discover (stub)
+ */
+export type PaginationStyle =
+  | "query-param"
+  | "path-segment"
+  | "json-api"
+  | "single-page"
+  | "none";
+
+export interface SourceCapabilities {
+  /** Requires headless Chromium (Cloudflare / SPA) — local CLI only */
+  needsPlaywright: boolean;
+  /** Currency prices are quoted in on the source site */
+  currency: string;
+  pagination: PaginationStyle;
+}
+
+/* ── Adapter ─────────────────────────────────────────────── */
+
+export interface RentalSourceAdapter {
+  source: RentalSource;
+  /** Human-readable name shown in the dashboard */
+  label: string;
+  /** Source homepage, used for attribution */
+  baseUrl: string;
+  /** Whether jobs may run this adapter */
+  enabled: boolean;
+  capabilities: SourceCapabilities;
+  /** Crawl category pages and return listing URLs */
+  discover(log?: PipelineLogFn): Promise<DiscoveredUrl[]>;
+  /** Fetch and parse one listing page; null if gone or filtered out */
+  scrapeListing(url: string, log?: PipelineLogFn): Promise<ScrapedListing | null>;
+  /** Parse an already-fetched listing page (no network) */
+  parseListing(html: string, url: string, log?: PipelineLogFn): ScrapedListing | null;
+  /** Extract listing URLs from one already-fetched category/index page */
+  parseCategoryPage(body: string): DiscoveredUrl[];
+}
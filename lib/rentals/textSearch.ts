@@ -0,0 +1,532 @@
+/**
+ * Keyword search for /rentals (`q`): matching, ranking, snippets and
+ * autocomplete over title, titleRewritten, descriptionRewritten, district
+ * and amenities.
+ *
+ * - Words are lower-cased, accent-folded and lightly stemmed, so "pools"
+ *   finds "pool" and "furnished" finds "furnishing"
+ * - Each query word may be a prefix of a listing word, or within one or
+ *   two edits of it (longer words allow more), so typos still match
+ * - District names — romanised spellings and Khmer script — are expanded
+ *   through `DISTRICT_ALIASES`, so "russian market" or "ទួលទំពូង" finds
+ *   listings in Toul Tom Poung
+ * - Every query word (or district) has to match somewhere; the score
+ *   weights district and title matches over amenities and description
+ *
+ * Loading lives in ./textSearchStore.ts.
+ */
+
+import { TEXT_SEARCH_RELEVANCE_TIER } from "./config";
+import { DISTRICT_ALIASES } from "./ml/districtAliases";
+
+/* ── Normalisation ───────────────────────────────────────── */
+
+const KHMER_DIGIT_ZERO = 0x17e0;
+
+/** Lower-case, fold accents and Khmer digits, and reduce punctuation to single spaces. */
+export function normalizeText(s: string): string {
+  return s
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\u17e0-\u17e9]/g, (d) => String(d.charCodeAt(0) - KHMER_DIGIT_ZERO))
+    .toLowerCase()
+    .replace(/[^a-z0-9\u1780-\u17ff]+/g, " ")
+    .trim();
+}
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "in", "at", "for", "to", "of", "and", "or", "with", "near", "on", "by", "is",
+  "rent", "rental", "rentals", "lease",
+]);
+
+const isKhmer = (s: string) => /[\u1780-\u17ff]/.test(s);
+
+/**
+ * Light English stemmer — plurals, -ing, -ed, -ly, -ation and a trailing
+ * e — enough for listing copy ("balconies" → "balcony", "renovated" and
+ * "renovation" → "renovat"). Numbers, short words and Khmer pass through.
+ */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3 || /\d/.test(w) || isKhmer(w)) return w;
+
+  if (w.endsWith("ies") && w.length > 4) w = w.slice(0, -3) + "y";
+  else if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (/(ch|sh|x|z)es$/.test(w)) w = w.slice(0, -2);
+  else if (w.endsWith("s") && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  if (w.endsWith("ation") && w.length > 7) w = w.slice(0, -3);
+  else if (w.endsWith("ing") && w.length > 5) w = undouble(w.slice(0, -3));
+  else if (w.endsWith("ed") && w.length > 4) w = undouble(w.slice(0, -2));
+  else if (w.endsWith("ly") && w.length > 4) w = w.slice(0, -2);
+
+  if (w.endsWith("e") && w.length > 4) w = w.slice(0, -1);
+  return w;
+}
+
+/** "swimm" → "swim"; l, s and z doubles are kept ("install", "glass") */
+function undouble(w: string): string {
+  return /([^aeiouylsz])\1$/.test(w) ? w.slice(0, -1) : w;
+}
+
+/** Edits allowed for a query word of this length */
+export function typoBudget(length: number): number {
+  if (length <= 3) return 0;
+  return length <= 7 ? 1 : 2;
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent swaps),
+ * giving up once it exceeds `max`.
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prev2[j - 2] + 1);
+      cur.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return max + 1;
+    prev2 = prev;
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/* ── District aliases ────────────────────────────────────── */
+
+/** Normalised alias → canonical district, including each canonical name itself */
+const ALIAS_TO_DISTRICT = new Map<string, string>();
+/** Canonical district → every normalised way of writing it */
+const DISTRICT_VARIANTS = new Map<string, string[]>();
+
+for (const [alias, canonical] of [
+  ...Object.entries(DISTRICT_ALIASES),
+  ...Object.values(DISTRICT_ALIASES).map((c) => [c, c] as const),
+]) {
+  const key = normalizeText(alias);
+  if (!key) continue;
+  ALIAS_TO_DISTRICT.set(key, canonical);
+  const variants = DISTRICT_VARIANTS.get(canonical) ?? [];
+  if (!variants.includes(key)) variants.push(key);
+  DISTRICT_VARIANTS.set(canonical, variants);
+}
+
+/** Longest alias (in words) tried when reading districts out of a query */
+const MAX_ALIAS_WORDS = 4;
+
+/** Every spelling of the district `name` is written as, or null if it isn't a known district. */
+export function districtVariants(name: string): string[] | null {
+  const canonical = ALIAS_TO_DISTRICT.get(normalizeText(name));
+  return canonical ? DISTRICT_VARIANTS.get(canonical) ?? null : null;
+}
+
+/** `phrase` appears in `text` as whole words (Khmer, having no spaces, as a substring). */
+function containsPhrase(text: string, phrase: string): boolean {
+  if (isKhmer(phrase)) return text.includes(phrase);
+  return ` ${text} `.includes(` ${phrase} `);
+}
+
+/* ── Query ───────────────────────────────────────────────── */
+
+export interface QueryWord {
+  text: string;
+  stem: string;
+}
+
+export interface QueryDistrict {
+  canonical: string;
+  variants: string[];
+}
+
+export interface ParsedQuery {
+  /** Normalised query, for the whole-phrase bonus */
+  text: string;
+  words: QueryWord[];
+  districts: QueryDistrict[];
+}
+
+/** Split a `q` param into words and known districts; null when nothing is left to search for. */
+export function parseQuery(q: string | undefined): ParsedQuery | null {
+  if (!q) return null;
+  let text = normalizeText(q);
+  if (!text) return null;
+  const districts: QueryDistrict[] = [];
+  const addDistrict = (canonical: string) => {
+    if (!districts.some((d) => d.canonical === canonical)) {
+      districts.push({ canonical, variants: DISTRICT_VARIANTS.get(canonical) ?? [] });
+    }
+  };
+
+  // Khmer names are matched anywhere, since Khmer isn't space-separated
+  let rest = text;
+  for (const [alias, canonical] of ALIAS_TO_DISTRICT) {
+    if (isKhmer(alias) && rest.includes(alias)) {
+      addDistrict(canonical);
+      rest = rest.replace(alias, " ");
+    }
+  }
+
+  // Longest run of words that is a known alias wins
+  const tokens = rest.split(" ").filter(Boolean);
+  const words: QueryWord[] = [];
+  for (let i = 0; i < tokens.length; ) {
+    let matched = 0;
+    for (let n = Math.min(MAX_ALIAS_WORDS, tokens.length - i); n >= 1 && !matched; n--) {
+      const canonical = ALIAS_TO_DISTRICT.get(tokens.slice(i, i + n).join(" "));
+      if (canonical) {
+        addDistrict(canonical);
+        matched = n;
+      }
+    }
+    if (matched) {
+      i += matched;
+      continue;
+    }
+    const token = tokens[i++];
+    if (!STOPWORDS.has(token) && !words.some((w) => w.text === token)) words.push({ text: token, stem: stem(token) });
+  }
+
+  if (words.length === 0 && districts.length === 0) return null;
+  text = tokens.filter((t) => !STOPWORDS.has(t)).join(" ");
+  return { text, words, districts };
+}
+
+/* ── Documents ───────────────────────────────────────────── */
+
+export interface SearchDoc {
+  id: string;
+  title: string;
+  titleRewritten: string | null;
+  descriptionRewritten: string | null;
+  district: string | null;
+  amenitiesJson: string | null;
+}
+
+interface DocField {
+  weight: number;
+  text: string;
+  tokens: string[];
+}
+
+const FIELD_WEIGHTS = { district: 4, title: 3, amenities: 2, description: 1 } as const;
+
+/** How well a listing word matches a query word, 0–1 */
+const MATCH_EXACT = 1;
+const MATCH_PREFIX = 0.7;
+const MATCH_FUZZY = 0.5;
+
+function amenityText(json: string | null): string {
+  if (!json) return "";
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((a) => typeof a === "string").join(" ") : "";
+  } catch {
+    return "";
+  }
+}
+
+function field(weight: number, raw: string): DocField {
+  const text = normalizeText(raw);
+  return { weight, text, tokens: [...new Set(text.split(" ").filter(Boolean))] };
+}
+
+function docFields(doc: SearchDoc): DocField[] {
+  return [
+    field(FIELD_WEIGHTS.district, doc.district ?? ""),
+    field(FIELD_WEIGHTS.title, `${doc.title} ${doc.titleRewritten ?? ""}`),
+    field(FIELD_WEIGHTS.amenities, amenityText(doc.amenitiesJson)),
+    field(FIELD_WEIGHTS.description, stripHtml(doc.descriptionRewritten ?? "")),
+  ];
+}
+
+/**
+ * Matcher for one query word, memoised per listing word — the vocabulary
+ * is far smaller than the words across all listings.
+ */
+function wordMatcher(word: QueryWord): (token: string) => number {
+  const memo = new Map<string, number>();
+  const budget = typoBudget(word.stem.length);
+  return (token) => {
+    let q = memo.get(token);
+    if (q === undefined) {
+      const s = stem(token);
+      if (s === word.stem || token === word.text) q = MATCH_EXACT;
+      else if (word.text.length >= 3 && token.startsWith(word.text)) q = MATCH_PREFIX;
+      else if (budget > 0 && !/^\d+$/.test(word.text) && editDistance(s, word.stem, budget) <= budget) q = MATCH_FUZZY;
+      else q = 0;
+      memo.set(token, q);
+    }
+    return q;
+  };
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  /** Normalised listing words that matched, for highlighting */
+  terms: string[];
+}
+
+/** Matching listings, best first. */
+export function searchDocs(query: ParsedQuery, docs: SearchDoc[]): SearchHit[] {
+  const matchers = query.words.map(wordMatcher);
+  const hits: SearchHit[] = [];
+
+  for (const doc of docs) {
+    const fields = docFields(doc);
+    const terms = new Set<string>();
+    let score = 0;
+    let matchedAll = true;
+
+    for (const district of query.districts) {
+      let best = 0;
+      for (const f of fields) {
+        const variant = district.variants.find((v) => containsPhrase(f.text, v));
+        if (!variant) continue;
+        // A district named only in the text counts for less than the listing's own district
+        const w = f.weight === FIELD_WEIGHTS.district ? f.weight : f.weight * 0.8;
+        if (w > best) best = w;
+        for (const t of variant.split(" ")) terms.add(t);
+      }
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+    }
+    if (!matchedAll) continue;
+
+    for (const match of matchers) {
+      let best = 0;
+      for (const f of fields) {
+        for (const token of f.tokens) {
+          const q = match(token);
+          if (q === 0) continue;
+          terms.add(token);
+          if (q * f.weight > best) best = q * f.weight;
+        }
+      }
+      if (best === 0) {
+        matchedAll = false;
+        break;
+      }
+      score += best;
+    }
+    if (!matchedAll) continue;
+
+    // Whole query as written in the title
+    if (query.words.length > 1 && containsPhrase(fields[1].text, query.text)) score += FIELD_WEIGHTS.title;
+
+    hits.push({ id: doc.id, score: Math.round(score * 100) / 100, terms: [...terms] });
+  }
+
+  return hits.sort((a, b) => b.score - a.score);
+}
+
+/* ── Ordering ────────────────────────────────────────────── */
+
+export interface SortFields {
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  priceMonthlyUsd: number | null;
+  sizeSqm: number | null;
+  priceDropPct: number | null;
+  lastPriceDropAt: Date | null;
+  /** Longest trip to the pinned places (./commute.ts), when sorting by commute */
+  commuteMinutes?: number | null;
+}
+
+type Comparator = (a: SortFields, b: SortFields) => number;
+
+/** null sorts last either way */
+function by(get: (r: SortFields) => number | Date | null, dir: "asc" | "desc"): Comparator {
+  return (a, b) => {
+    const x = get(a);
+    const y = get(b);
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    const d = +x - +y;
+    return dir === "asc" ? d : -d;
+  };
+}
+
+/** The `sort` options of buildRentalsOrderBy, for results ordered in memory */
+const SORT_COMPARATORS: Record<string, Comparator[]> = {
+  newest: [by((r) => r.firstSeenAt, "desc")],
+  updated: [by((r) => r.lastSeenAt, "desc")],
+  price_asc: [by((r) => r.priceMonthlyUsd, "asc")],
+  price_desc: [by((r) => r.priceMonthlyUsd, "desc")],
+  size_desc: [by((r) => r.sizeSqm, "desc")],
+  price_drop: [by((r) => r.priceDropPct, "desc"), by((r) => r.lastPriceDropAt, "desc")],
+  commute: [by((r) => r.commuteMinutes ?? null, "asc")],
+};
+
+/**
+ * Order search results. With no sort (or "relevance") the best matches
+ * come first. With one of the usual sorts, results are split into strong
+ * matches (within TEXT_SEARCH_RELEVANCE_TIER of the best score) and the
+ * rest, and each group is ordered by that sort — so "price low to high"
+ * doesn't bury the listings that are actually about what was searched.
+ */
+export function orderSearchHits<T extends SearchHit & SortFields>(hits: T[], sort?: string): T[] {
+  const newest = SORT_COMPARATORS.newest[0];
+  const comparators = sort ? SORT_COMPARATORS[sort] : undefined;
+  if (!comparators) {
+    return [...hits].sort((a, b) => b.score - a.score || newest(a, b));
+  }
+
+  const top = hits.reduce((m, h) => Math.max(m, h.score), 0);
+  const tier = (h: T) => (h.score >= top * TEXT_SEARCH_RELEVANCE_TIER ? 0 : 1);
+  return [...hits].sort((a, b) => {
+    const t = tier(a) - tier(b);
+    if (t !== 0) return t;
+    for (const c of comparators) {
+      const d = c(a, b);
+      if (d !== 0) return d;
+    }
+    return b.score - a.score;
+  });
+}
+
+/* ── Snippets ────────────────────────────────────────────── */
+
+export interface SnippetPart {
+  text: string;
+  hit: boolean;
+}
+
+export function stripHtml(str: string): string {
+  return str.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * A window of `text` around its first matched word, split into plain and
+ * highlighted parts. Null when no matched word is in the text.
+ */
+export function buildSnippet(text: string | null, terms: string[], maxLength = 180): SnippetPart[] | null {
+  if (!text || terms.length === 0) return null;
+  const clean = stripHtml(text);
+  const wanted = new Set(terms);
+
+  const ranges: [number, number][] = [];
+  for (const m of clean.matchAll(/[\p{L}\p{N}]+/gu)) {
+    if (wanted.has(normalizeText(m[0]))) ranges.push([m.index!, m.index! + m[0].length]);
+  }
+  if (ranges.length === 0) return null;
+
+  // Start a little before the first hit, on a word boundary
+  let start = Math.max(0, ranges[0][0] - 40);
+  if (start > 0) {
+    const space = clean.indexOf(" ", start);
+    start = space >= 0 && space < ranges[0][0] ? space + 1 : start;
+  }
+  let end = Math.min(clean.length, start + maxLength);
+  if (end < clean.length) {
+    const space = clean.lastIndexOf(" ", end);
+    if (space > ranges[0][1]) end = space;
+  }
+
+  const parts: SnippetPart[] = [];
+  let pos = start;
+  for (const [s, e] of ranges) {
+    if (s < start || e > end) continue;
+    if (s > pos) parts.push({ text: clean.slice(pos, s), hit: false });
+    parts.push({ text: clean.slice(s, e), hit: true });
+    pos = e;
+  }
+  if (pos < end) parts.push({ text: clean.slice(pos, end), hit: false });
+  if (start > 0) parts.unshift({ text: "…", hit: false });
+  if (end < clean.length) parts.push({ text: "…", hit: false });
+  return parts;
+}
+
+/* ── Autocomplete ────────────────────────────────────────── */
+
+const BUILDING_SUFFIXES =
+  "Tower|Towers|Residence|Residences|Residency|Condo|Condominium|Plaza|Building|Heights|Suites|Court|Park|Garden|Gardens|Mansion|Place|Square|Centre|Center|Villa|Villas|Apartments|Serviced Apartment|Hotel|Bay|View";
+
+const BUILDING_RE = new RegExp(`((?:[A-Z0-9][\\w'&.-]*\\s+){1,4}(?:${BUILDING_SUFFIXES}))\\b`, "g");
+
+/** Words that describe a unit rather than name a building */
+const GENERIC_WORDS = new Set(
+  [
+    "bedroom", "bedrooms", "bed", "beds", "br", "studio", "room", "rooms", "apartment", "apartments", "condo",
+    "luxury", "modern", "new", "brand", "nice", "beautiful", "spacious", "cheap", "big", "large", "small", "cozy",
+    "furnished", "fully", "unfurnished", "for", "rent", "rental", "the", "a", "an", "in", "at", "with", "and",
+    "serviced", "service", "penthouse", "duplex", "house", "villa", "shophouse", "flat", "unit", "floor", "high",
+    "low", "sale", "available", "now", "pool", "gym", "view", "city", "river", "phnom", "penh", "one", "two", "three",
+  ],
+);
+
+/**
+ * Building names in a listing title — runs of capitalised words ending
+ * in a word like Tower or Residence, e.g. "The Peak Residence".
+ */
+export function extractBuildingNames(title: string): string[] {
+  const names: string[] = [];
+  for (const m of title.matchAll(BUILDING_RE)) {
+    const words = m[1].trim().split(/\s+/);
+    // Drop leading descriptive words ("Luxury 2 Bedroom …"), keeping a leading "The"
+    const isLeadingNoise = (w: string) => w.toLowerCase() !== "the" && (GENERIC_WORDS.has(w.toLowerCase()) || /^\d/.test(w));
+    while (words.length > 1 && isLeadingNoise(words[0])) words.shift();
+    const distinctive = words.slice(0, -1).filter((w) => !GENERIC_WORDS.has(w.toLowerCase()) && !/^\d+$/.test(w));
+    if (distinctive.length === 0) continue;
+    const name = words.join(" ");
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+export interface Suggestion {
+  kind: "district" | "building";
+  /** District as stored (the district filter value), or the building name (a `q`) */
+  value: string;
+  count: number;
+}
+
+/** How well `q` prefixes `candidate`: 3 at the start, 2 at a later word, 1 within the typo budget, else 0 */
+function prefixQuality(q: string, candidate: string): number {
+  if (candidate.startsWith(q)) return 3;
+  if (candidate.includes(` ${q}`)) return 2;
+  const budget = typoBudget(q.length);
+  if (budget > 0 && editDistance(q, candidate.slice(0, q.length), budget) <= budget) return 1;
+  return 0;
+}
+
+/**
+ * Districts (matched through their aliases too) and buildings starting
+ * with `q`, best and busiest first.
+ */
+export function suggest(
+  q: string,
+  districts: { name: string; count: number }[],
+  buildings: { name: string; count: number }[],
+  limit = 8,
+): Suggestion[] {
+  const nq = normalizeText(q);
+  if (!nq) return [];
+
+  const scored: (Suggestion & { quality: number })[] = [];
+  for (const d of districts) {
+    const keys = [normalizeText(d.name), ...(districtVariants(d.name) ?? [])];
+    const quality = Math.max(...keys.map((k) => prefixQuality(nq, k)));
+    // A district wins over a building that matches as well
+    if (quality > 0) scored.push({ kind: "district", value: d.name, count: d.count, quality: quality + 0.5 });
+  }
+  for (const b of buildings) {
+    const quality = prefixQuality(nq, normalizeText(b.name));
+    if (quality > 0) scored.push({ kind: "building", value: b.name, count: b.count, quality });
+  }
+
+  return scored
+    .sort((a, b) => b.quality - a.quality || b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, limit)
+    .map(({ kind, value, count }) => ({ kind, value, count }));
+}
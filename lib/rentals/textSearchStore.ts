@@ -0,0 +1,150 @@
+/**
+ * Loading for /rentals keyword search and autocomplete. Matching and
+ * ranking live in ./textSearch.ts.
+ */
+
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import type { RentalSearchParams } from "@/lib/rentalsQuery";
+import { AUTOCOMPLETE_CACHE_MS, TEXT_SEARCH_CANDIDATE_LIMIT } from "./config";
+import { loadCommutePlan } from "./commuteStore";
+import {
+  extractBuildingNames,
+  normalizeText,
+  orderSearchHits,
+  parseQuery,
+  searchDocs,
+  suggest,
+  type SearchHit,
+  type SortFields,
+  type Suggestion,
+} from "./textSearch";
+
+export type RankedListing = SearchHit & SortFields;
+
+export interface TextSearchResult {
+  hits: RankedListing[];
+  /**
+   * More listings matched `where` than TEXT_SEARCH_CANDIDATE_LIMIT, so only
+   * the newest were searched. Typo-tolerant matching can't be narrowed in
+   * SQL without losing matches, so callers say so instead.
+   */
+  truncated: boolean;
+}
+
+/**
+ * Listings matching `where` and the `q` param, in display order (relevance,
+ * or `sp.sort` with strong matches first). Null without a usable `q`.
+ */
+export async function rankTextSearch(
+  where: Prisma.RentalListingWhereInput,
+  sp: RentalSearchParams,
+): Promise<TextSearchResult | null> {
+  const query = parseQuery(sp.q);
+  if (!query) return null;
+
+  const rows = await prisma.rentalListing.findMany({
+    where,
+    select: {
+      id: true,
+      title: true,
+      titleRewritten: true,
+      descriptionRewritten: true,
+      district: true,
+      amenitiesJson: true,
+      firstSeenAt: true,
+      lastSeenAt: true,
+      priceMonthlyUsd: true,
+      sizeSqm: true,
+      priceDropPct: true,
+      lastPriceDropAt: true,
+      latitude: true,
+      longitude: true,
+    },
+    orderBy: { firstSeenAt: "desc" },
+    take: TEXT_SEARCH_CANDIDATE_LIMIT + 1,
+  });
+  const truncated = rows.length > TEXT_SEARCH_CANDIDATE_LIMIT;
+  if (truncated) rows.pop();
+
+  const plan = sp.sort === "commute" ? await loadCommutePlan(sp) : null;
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  const hits = searchDocs(query, rows).map((h) => {
+    const row = byId.get(h.id)!;
+    return { ...h, ...row, commuteMinutes: plan?.worstMinutes(row.latitude, row.longitude) ?? null };
+  });
+  return { hits: orderSearchHits(hits, sp.sort), truncated };
+}
+
+/**
+ * Add an `id IN (…)` condition for the `q` param to a where that includes
+ * `buildRentalsWhere(sp)`. Returns `where` unchanged without a keyword search.
+ */
+export async function applyTextFilter(
+  where: Prisma.RentalListingWhereInput,
+  sp: RentalSearchParams,
+): Promise<Prisma.RentalListingWhereInput> {
+  const ranked = await rankTextSearch(where, sp);
+  if (!ranked) return where;
+  return { AND: [where, { id: { in: ranked.hits.map((r) => r.id) } }] };
+}
+
+/* ── Autocomplete ────────────────────────────────────────── */
+
+interface AutocompleteIndex {
+  loadedAt: number;
+  districts: { name: string; count: number }[];
+  buildings: { name: string; count: number }[];
+}
+
+let cachedIndex: AutocompleteIndex | null = null;
+
+async function loadAutocompleteIndex(): Promise<AutocompleteIndex> {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < AUTOCOMPLETE_CACHE_MS) return cachedIndex;
+
+  const active = { isActive: true, isClusterPrimary: true };
+  const [districtRows, titles] = await Promise.all([
+    prisma.rentalListing.groupBy({
+      by: ["district"],
+      where: { ...active, district: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.rentalListing.findMany({
+      where: active,
+      select: { title: true, titleRewritten: true },
+    }),
+  ]);
+
+  // Spellings of one building collapse to the most common one
+  const buildings = new Map<string, { names: Map<string, number>; count: number }>();
+  for (const t of titles) {
+    const names = new Set([...extractBuildingNames(t.title), ...extractBuildingNames(t.titleRewritten ?? "")]);
+    const keys = new Set<string>();
+    for (const name of names) {
+      const key = normalizeText(name);
+      const entry = buildings.get(key) ?? { names: new Map(), count: 0 };
+      entry.names.set(name, (entry.names.get(name) ?? 0) + 1);
+      if (!keys.has(key)) entry.count++;
+      keys.add(key);
+      buildings.set(key, entry);
+    }
+  }
+
+  cachedIndex = {
+    loadedAt: Date.now(),
+    districts: districtRows
+      .filter((r): r is typeof r & { district: string } => !!r.district)
+      .map((r) => ({ name: r.district, count: r._count._all })),
+    buildings: [...buildings.values()].map((b) => ({
+      name: [...b.names.entries()].sort((x, y) => y[1] - x[1])[0][0],
+      count: b.count,
+    })),
+  };
+  return cachedIndex;
+}
+
+/** District and building suggestions for the /rentals search box. */
+export async function loadAutocompleteSuggestions(q: string, limit?: number): Promise<Suggestion[]> {
+  const index = await loadAutocompleteIndex();
+  return suggest(q, index.districts, index.buildings, limit);
+}
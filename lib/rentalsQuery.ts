@@ -4,7 +4,13 @@
  * Shared helpers that convert URL search params into Prisma
  * `where` and `orderBy` clauses for the public /rentals page.
  *
+ * Only active cluster primaries are returned, so a unit posted on several
+ * portals shows (and counts) once.
+ *
  * Query param mapping:
+ *   q            -> keyword search over title, description, district and
+ *                   amenities (matched and ranked by applyTextFilter /
+ *                   rankTextSearch in lib/rentals/textSearchStore.ts)
  *   city         -> RentalListing.city (exact match)
  *   district     -> RentalListing.district (exact match)
  *   minPrice     -> RentalListing.priceMonthlyUsd >= N
@@ -17,7 +23,18 @@
  *   sizeMin      -> RentalListing.sizeSqm >= N    (advanced)
  *   sizeMax      -> RentalListing.sizeSqm <= N    (advanced)
  *   dateAdded    -> RentalListing.firstSeenAt >= cutoff (advanced)
+ *   priceReduced -> RentalListing.priceDropPct not null (advanced, "1")
  *   f_*          -> amenitiesJson contains (advanced, must-haves)
+ *   near/radiusKm, poly -> latitude/longitude bounding box of the circle or
+ *                   polygon (see lib/rentals/geoSearch.ts; trimmed to the
+ *                   exact shape by applyGeoFilter)
+ *   commute      -> pinned places ("Label@lat,lng;…"); with maxCommute,
+ *                   latitude/longitude bounding box reachable from every
+ *                   place (see lib/rentals/commute.ts; trimmed to the
+ *                   estimated travel time by applyCommuteFilter)
+ *   commuteMode  -> tuktuk | moto | walk, for the travel-time estimate
+ *   maxCommute   -> minutes to the furthest pinned place
+ *   view         -> "map" shows the map search panel (no effect on matching)
  */
 
 import type { Prisma } from "@prisma/client";
@@ -25,6 +42,16 @@ import {
   FILTERABLE_FACILITIES,
   FILTERABLE_AMENITIES,
 } from "@/lib/amenityClassification";
+import {
+  describeGeoSearch,
+  geoBoundingBox,
+  parseGeoSearch,
+} from "@/lib/rentals/geoSearch";
+import {
+  commuteBoundingBox,
+  describeCommuteSearch,
+  parseCommuteSearch,
+} from "@/lib/rentals/commute";
 
 /**
  * Convert a human amenity name like "Swimming Pool" to a URL-safe
@@ -55,6 +82,7 @@ export const AMENITY_PARAM_KEYS = Object.keys(AMENITY_PARAM_MAP);
 
 export interface RentalSearchParams {
   page?: string;
+  q?: string;
   city?: string;
   district?: string;
   minPrice?: string;
@@ -68,6 +96,16 @@ export interface RentalSearchParams {
   sizeMin?: string;
   sizeMax?: string;
   dateAdded?: string;
+  priceReduced?: string;
+  // Geo (map search)
+  near?: string;
+  radiusKm?: string;
+  poly?: string;
+  // Commute (pinned places)
+  commute?: string;
+  commuteMode?: string;
+  maxCommute?: string;
+  view?: string;
   // Amenity / facility must-haves (dynamic f_* keys)
   [key: string]: string | undefined;
 }
@@ -83,11 +121,19 @@ export const ADVANCED_PARAM_KEYS = [
   "sizeMin",
   "sizeMax",
   "dateAdded",
+  "priceReduced",
   ...AMENITY_PARAM_KEYS,
 ] as const;
 
+/** URL param keys written by the map search control. */
+export const GEO_PARAM_KEYS = ["near", "radiusKm", "poly"] as const;
+
+/** URL param keys for commute search (pinned places). */
+export const COMMUTE_PARAM_KEYS = ["commute", "commuteMode", "maxCommute"] as const;
+
 /** Every param key the filter system writes to the URL. */
 export const ALL_PARAM_KEYS = [
+  "q",
   "city",
   "district",
   "minPrice",
@@ -96,6 +142,9 @@ export const ALL_PARAM_KEYS = [
   "propertyType",
   "sort",
   ...ADVANCED_PARAM_KEYS,
+  ...GEO_PARAM_KEYS,
+  ...COMMUTE_PARAM_KEYS,
+  "view",
   "page",
 ] as const;
 
@@ -106,7 +155,11 @@ export const ALL_PARAM_KEYS = [
 export function buildRentalsWhere(
   sp: RentalSearchParams,
 ): Prisma.RentalListingWhereInput {
-  const where: Prisma.RentalListingWhereInput = { isActive: true };
+  // Cross-source duplicates are collapsed to their cluster primary
+  const where: Prisma.RentalListingWhereInput = {
+    isActive: true,
+    isClusterPrimary: true,
+  };
 
   // -- Quick filters ---------------------------------------------------
 
@@ -160,19 +213,50 @@ export function buildRentalsWhere(
     where.firstSeenAt = { gte: cutoff };
   }
 
+  // priceReduced: asking price is currently below its peak
+  // (see lib/rentals/priceHistory.ts)
+  if (sp.priceReduced === "1") {
+    where.priceDropPct = { not: null };
+  }
+
   // Amenity / facility must-haves: each active f_* param requires
   // the amenitiesJson text column to contain the amenity name.
-  const amenityConditions: Prisma.RentalListingWhereInput[] = [];
+  const andConditions: Prisma.RentalListingWhereInput[] = [];
   for (const key of AMENITY_PARAM_KEYS) {
     if (sp[key] === "1") {
       const name = AMENITY_PARAM_MAP[key];
       if (name) {
-        amenityConditions.push({ amenitiesJson: { contains: name } });
+        andConditions.push({ amenitiesJson: { contains: name } });
       }
     }
   }
-  if (amenityConditions.length > 0) {
-    where.AND = amenityConditions;
+
+  // -- Geo (map search) ------------------------------------------------
+
+  // Bounding box only; applyGeoFilter narrows to the exact shape
+  const geo = parseGeoSearch(sp);
+  if (geo) {
+    const box = geoBoundingBox(geo);
+    where.latitude = { gte: box.minLat, lte: box.maxLat };
+    where.longitude = { gte: box.minLng, lte: box.maxLng };
+  }
+
+  // -- Commute ---------------------------------------------------------
+
+  // Box reachable within maxCommute; applyCommuteFilter keeps the listings
+  // whose estimated trip really is that short. ANDed, as a geo search may
+  // already constrain latitude/longitude.
+  const commute = parseCommuteSearch(sp);
+  const reach = commute ? commuteBoundingBox(commute) : null;
+  if (reach) {
+    andConditions.push({
+      latitude: { gte: reach.minLat, lte: reach.maxLat },
+      longitude: { gte: reach.minLng, lte: reach.maxLng },
+    });
+  }
+
+  if (andConditions.length > 0) {
+    where.AND = andConditions;
   }
 
   return where;
@@ -196,6 +280,16 @@ export function buildRentalsOrderBy(
       return [{ priceMonthlyUsd: "desc" }];
     case "size_desc":
       return [{ sizeSqm: "desc" }];
+    case "price_drop":
+      // Biggest cuts first, then most recently reduced
+      return [
+        { priceDropPct: { sort: "desc", nulls: "last" } },
+        { lastPriceDropAt: { sort: "desc", nulls: "last" } },
+      ];
+    case "commute":
+      // Ordered by travel time in memory (rankByCommute in
+      // lib/rentals/commuteStore.ts); newest first without pinned places
+      return [{ firstSeenAt: "desc" }];
     default:
       // Default: newest listed
       return [{ firstSeenAt: "desc" }];
@@ -216,7 +310,12 @@ export function buildFilterSummary(
   if (sp.propertyType)
     parts.push(sp.propertyType.replace(/_/g, " ").toLowerCase());
   const suffix = parts.length > 0 ? ` in ${parts.join(", ")}` : "";
-  return `${total.toLocaleString()} result${total !== 1 ? "s" : ""}${suffix}`;
+  const geo = parseGeoSearch(sp);
+  const geoSuffix = geo ? ` ${describeGeoSearch(geo)}` : "";
+  const query = sp.q?.trim() ? ` for “${sp.q.trim()}”` : "";
+  const commute = parseCommuteSearch(sp);
+  const commuteSuffix = commute && commute.maxMinutes !== null ? ` ${describeCommuteSearch(commute)}` : "";
+  return `${total.toLocaleString()} result${total !== 1 ? "s" : ""}${query}${suffix}${geoSuffix}${commuteSuffix}`;
 }
 
 /* ------------------------------------------------------------------ */
@@ -238,6 +337,24 @@ export function buildPaginationHref(
   return `/rentals?${params.toString()}`;
 }
 
+/**
+ * Link to the list or map view of the same search (page reset to 1).
+ */
+export function buildViewHref(
+  sp: RentalSearchParams,
+  view: "list" | "map",
+): string {
+  const params = new URLSearchParams();
+  for (const key of ALL_PARAM_KEYS) {
+    if (key === "page" || key === "view") continue;
+    const val = sp[key as keyof RentalSearchParams];
+    if (val) params.set(key, val);
+  }
+  if (view === "map") params.set("view", "map");
+  const qs = params.toString();
+  return qs ? `/rentals?${qs}` : "/rentals";
+}
+
 /* ------------------------------------------------------------------ */
 /*  Internal helpers                                                   */
 /* ------------------------------------------------------------------ */
@@ -0,0 +1,140 @@
+/**
+ * Shared crawl policy: fetches robots.txt once per origin, caches it, and
+ * answers whether a URL may be crawled by a given bot and how long to
+ * wait between requests (Crawl-delay).
+ *
+ * Used by the rentals scrapers (via `lib/rentals/http.ts`) and the news
+ * pipeline (`./robotsCheck.ts`). Parsing lives in `./robotsTxt.ts`.
+ */
+
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  isPathAllowed,
+  parseRobotsTxt,
+  policyForAgent,
+  type RobotsTxt,
+} from "./robotsTxt";
+
+const ROBOTS_CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+/** Server errors / timeouts are retried sooner than a good file */
+const ROBOTS_ERROR_TTL_MS = 10 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 5_000;
+/** RFC 9309: crawlers may ignore anything past the first 500 KiB */
+const MAX_ROBOTS_BYTES = 500 * 1024;
+
+export interface CrawlPolicyOptions {
+  /** Full User-Agent header; the product token selects the robots.txt group */
+  userAgent: string;
+  /**
+   * What to do when robots.txt cannot be fetched at all (network error or
+   * timeout). RFC 9309 says treat it as fully disallowed; the news
+   * pipeline historically assumed allowed. Default: false (disallow).
+   */
+  allowOnNetworkError?: boolean;
+  /** Custom fetch, e.g. one that routes through the scraper proxy */
+  fetchFn?: typeof fetch;
+}
+
+export interface CrawlDecision {
+  allowed: boolean;
+  /** Crawl-delay for this bot in ms, or null when the site sets none */
+  crawlDelayMs: number | null;
+}
+
+/* ── Cache ───────────────────────────────────────────────── */
+
+interface CacheEntry {
+  robots: Promise<RobotsTxt>;
+  expiresAt: number;
+}
+
+/**
+ * Keyed by origin plus the network-error mode, so callers with different
+ * fallbacks never see each other's guesses. The promise is cached, so
+ * concurrent checks against one host share a single fetch.
+ */
+const ROBOTS_CACHE = new Map<string, CacheEntry>();
+
+async function loadRobotsTxt(origin: string, options: CrawlPolicyOptions): Promise<{ robots: RobotsTxt; ttlMs: number }> {
+  const doFetch = options.fetchFn ?? fetch;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+
+  try {
+    const response = await doFetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": options.userAgent },
+      signal: controller.signal,
+      redirect: "follow",
+    });
+
+    if (response.ok) {
+      const text = (await response.text()).slice(0, MAX_ROBOTS_BYTES);
+      return { robots: parseRobotsTxt(text), ttlMs: ROBOTS_CACHE_TTL_MS };
+    }
+    // 4xx (incl. 404): no usable robots.txt, everything is allowed
+    if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+      return { robots: ALLOW_ALL, ttlMs: ROBOTS_CACHE_TTL_MS };
+    }
+    // 429 / 5xx: the site is struggling, stay away for a while
+    return { robots: DISALLOW_ALL, ttlMs: ROBOTS_ERROR_TTL_MS };
+  } catch {
+    return {
+      robots: options.allowOnNetworkError ? ALLOW_ALL : DISALLOW_ALL,
+      ttlMs: ROBOTS_ERROR_TTL_MS,
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/** Fetch (or reuse) the parsed robots.txt for an origin. */
+export function getRobotsTxt(origin: string, options: CrawlPolicyOptions): Promise<RobotsTxt> {
+  const key = `${origin}|${options.allowOnNetworkError ? "allow" : "disallow"}`;
+  const cached = ROBOTS_CACHE.get(key);
+  if (cached && Date.now() < cached.expiresAt) return cached.robots;
+
+  const entry: CacheEntry = { robots: Promise.resolve(ALLOW_ALL), expiresAt: Infinity };
+  entry.robots = loadRobotsTxt(origin, options).then(({ robots, ttlMs }) => {
+    entry.expiresAt = Date.now() + ttlMs;
+    return robots;
+  });
+  ROBOTS_CACHE.set(key, entry);
+  return entry.robots;
+}
+
+/** Drop cached robots.txt files (all, or one origin). */
+export function clearCrawlPolicyCache(origin?: string): void {
+  if (!origin) {
+    ROBOTS_CACHE.clear();
+    return;
+  }
+  for (const key of ROBOTS_CACHE.keys()) {
+    if (key.startsWith(`${origin}|`)) ROBOTS_CACHE.delete(key);
+  }
+}
+
+/* ── Public API ──────────────────────────────────────────── */
+
+/**
+ * Decide whether `url` may be crawled by `options.userAgent`.
+ * Non-http(s) or malformed URLs are refused.
+ */
+export async function checkCrawlPolicy(url: string, options: CrawlPolicyOptions): Promise<CrawlDecision> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { allowed: false, crawlDelayMs: null };
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return { allowed: false, crawlDelayMs: null };
+  }
+
+  const robots = await getRobotsTxt(parsed.origin, options);
+  const policy = policyForAgent(robots, options.userAgent);
+  return {
+    allowed: isPathAllowed(policy, parsed.pathname + parsed.search),
+    crawlDelayMs: policy.crawlDelaySec !== null ? Math.round(policy.crawlDelaySec * 1000) : null,
+  };
+}
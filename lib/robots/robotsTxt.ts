@@ -0,0 +1,153 @@
+/**
+ * robots.txt parsing and matching (RFC 9309).
+ *
+ * `./crawlPolicy.ts` fetches and caches the files; this module turns the
+ * text into groups and answers "may this agent fetch this path?".
+ *
+ *   - Groups are selected by product token ("GlobescraperRentalsBot"),
+ *     falling back to `*`; several groups for the same agent are merged
+ *   - `*` in a rule matches any run of characters, a trailing `$` anchors
+ *     the end of the path
+ *   - The longest matching rule wins; Allow wins a tie
+ *   - Crawl-delay (non-standard, but widely used) is kept per group
+ */
+
+/* ── Types ───────────────────────────────────────────────── */
+
+export interface RobotsRule {
+  allow: boolean;
+  /** Path pattern as written, e.g. "/search/*?sort=$" */
+  pattern: string;
+}
+
+export interface RobotsGroup {
+  /** Lower-cased user-agent values, e.g. ["globescraperrentalsbot", "*"] */
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelaySec: number | null;
+}
+
+export interface RobotsTxt {
+  groups: RobotsGroup[];
+}
+
+/** The rules that apply to one crawler. */
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelaySec: number | null;
+}
+
+/** Used when robots.txt is missing (4xx). */
+export const ALLOW_ALL: RobotsTxt = { groups: [] };
+
+/** Used when robots.txt is unreachable (5xx). */
+export const DISALLOW_ALL: RobotsTxt = {
+  groups: [{ agents: ["*"], rules: [{ allow: false, pattern: "/" }], crawlDelaySec: null }],
+};
+
+/* ── Parsing ─────────────────────────────────────────────── */
+
+/**
+ * Parse a robots.txt body. Unknown lines and rules outside a group are
+ * ignored, as is an empty `Disallow:` (which allows everything).
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  // A user-agent line after a rule starts a new group
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const colon = line.indexOf(":");
+    if (colon === -1) continue;
+
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (key === "user-agent") {
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [], crawlDelaySec: null };
+        groups.push(current);
+      }
+      if (value) current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+
+    if (!current) continue;
+    inAgentLines = false;
+
+    if (key === "allow" || key === "disallow") {
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelaySec = delay;
+    }
+  }
+
+  return { groups };
+}
+
+/**
+ * Product token of a User-Agent header, lower-cased:
+ * "GlobescraperRentalsBot/1.0 (+https://…)" → "globescraperrentalsbot".
+ */
+export function productToken(userAgent: string): string {
+  return userAgent.trim().split(/[\s/]/)[0].toLowerCase();
+}
+
+/**
+ * Merge the groups that name our product token, or the `*` groups when
+ * none do. No matching group means no rules (everything allowed).
+ */
+export function policyForAgent(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+  const token = productToken(userAgent);
+  const named = robots.groups.filter((g) => g.agents.some((a) => productToken(a) === token));
+  const groups = named.length > 0 ? named : robots.groups.filter((g) => g.agents.includes("*"));
+
+  const delays = groups.map((g) => g.crawlDelaySec).filter((d): d is number => d !== null);
+  return {
+    rules: groups.flatMap((g) => g.rules),
+    crawlDelaySec: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+/* ── Matching ────────────────────────────────────────────── */
+
+const patternCache = new Map<string, RegExp>();
+
+function patternRegExp(pattern: string): RegExp {
+  let re = patternCache.get(pattern);
+  if (!re) {
+    const anchored = pattern.endsWith("$");
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    re = new RegExp(`^${body}${anchored ? "$" : ""}`);
+    patternCache.set(pattern, re);
+  }
+  return re;
+}
+
+/**
+ * May the crawler fetch `path` (pathname plus query string)?
+ * /robots.txt itself is always allowed.
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (path === "/robots.txt") return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternRegExp(rule.pattern).test(path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best ? best.allow : true;
+}
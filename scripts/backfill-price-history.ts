@@ -0,0 +1,46 @@
+/**
+ * Backfill price-drop fields (peakPriceUsd, priceDropPct, lastPriceDropAt)
+ * on existing RentalListing rows from their RentalSnapshot history.
+ *
+ * processQueue keeps these up to date on every scrape; this is only needed
+ * once for listings scraped before the fields existed.
+ *
+ * Usage:  npx tsx scripts/backfill-price-history.ts
+ */
+
+import { prisma } from "../lib/prisma";
+import { summarizePriceHistory } from "../lib/rentals/priceHistory";
+
+async function main() {
+  const listings = await prisma.rentalListing.findMany({
+    select: {
+      id: true,
+      snapshots: { select: { scrapedAt: true, priceMonthlyUsd: true } },
+    },
+  });
+
+  console.log(`Found ${listings.length} listings — recomputing price history…`);
+
+  let reduced = 0;
+
+  for (const l of listings) {
+    const summary = summarizePriceHistory(l.snapshots);
+    await prisma.rentalListing.update({
+      where: { id: l.id },
+      data: {
+        peakPriceUsd: summary.peakPriceUsd,
+        priceDropPct: summary.priceDropPct,
+        lastPriceDropAt: summary.lastPriceDropAt,
+      },
+    });
+    if (summary.priceDropPct !== null) reduced++;
+  }
+
+  console.log(`✔ Updated ${listings.length} listings — ${reduced} currently price-reduced`);
+  await prisma.$disconnect();
+}
+
+main().catch((err) => {
+  console.error("Error:", err);
+  process.exit(1);
+});
@@ -94,6 +94,7 @@ if (PROXY_URL) {
 import { prisma } from "../lib/prisma";
 import { QueueStatus, RentalSource } from "@prisma/client";
 import { canonicalizeUrl } from "../lib/rentals/url";
+import { filterCrawlable } from "../lib/rentals/http";
 import { processQueueJob } from "../lib/rentals/jobs/processQueue";
 import { buildDailyIndexJob } from "../lib/rentals/jobs/buildIndex";
 import { markStaleListingsJob } from "../lib/rentals/jobs/markStaleListings";
@@ -164,6 +165,11 @@ async function discover(): Promise<number> {
   }
   log("info", `Discovered ${discovered.length} listing URLs`);
 
+  // robots.txt-disallowed URLs never reach the queue
+  const { allowed, blocked } = await filterCrawlable(discovered);
+  if (blocked.length > 0) log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+  discovered = allowed;
+
   if (discovered.length === 0) return 0;
 
   // Check which are new vs already in DB
@@ -32,6 +32,7 @@ const STOP_AFTER_KNOWN = getArg("--stop-after-known", 50);
 import { prisma } from "../lib/prisma";
 import { QueueStatus, RentalSource } from "@prisma/client";
 import { canonicalizeUrl } from "../lib/rentals/url";
+import { filterCrawlable } from "../lib/rentals/http";
 import { processQueueJob } from "../lib/rentals/jobs/processQueue";
 import { buildDailyIndexJob } from "../lib/rentals/jobs/buildIndex";
 import type { PipelineLogFn, PipelineProgressFn } from "../lib/rentals/pipelineLogger";
@@ -226,7 +227,11 @@ async function discoverNewListings(): Promise<DiscoveredUrl[]> {
 
 /* ── Phase 2: Enqueue ────────────────────────────────────── */
 
-async function enqueueUrls(discovered: DiscoveredUrl[]): Promise<number> {
+async function enqueueUrls(found: DiscoveredUrl[]): Promise<number> {
+  // robots.txt-disallowed URLs never reach the queue
+  const { allowed: discovered, blocked } = await filterCrawlable(found);
+  if (blocked.length > 0) log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+
   if (discovered.length === 0) return 0;
 
   log("info", `Enqueuing ${discovered.length} new URLs…`);
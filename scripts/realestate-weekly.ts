@@ -59,7 +59,7 @@ import { buildDailyIndexJob } from "../lib/rentals/jobs/buildIndex";
 import { markStaleListingsJob } from "../lib/rentals/jobs/markStaleListings";
 import type { PipelineLogFn, PipelineProgressFn } from "../lib/rentals/pipelineLogger";
 import { USER_AGENT } from "../lib/rentals/config";
-import { nightIdleDelay, maybeBreather } from "../lib/rentals/http";
+import { nightIdleDelay, maybeBreather, filterCrawlable } from "../lib/rentals/http";
 import { ProxyAgent } from "undici";
 import { execFile } from "child_process";
 import path from "path";
@@ -366,11 +366,15 @@ async function discoverAll(): Promise<DiscoveredUrl[]> {
 
 /* ── Phase 2: Enqueue (new + stale) ──────────────────────── */
 
-async function enqueueNewUrls(discovered: DiscoveredUrl[]): Promise<{ newCount: number; rescrapeCount: number }> {
+async function enqueueNewUrls(found: DiscoveredUrl[]): Promise<{ newCount: number; rescrapeCount: number }> {
   console.log("\n╔══════════════════════════════════════════════╗");
   console.log("║  Phase 2 — Enqueue new + stale listings       ║");
   console.log("╚══════════════════════════════════════════════╝\n");
 
+  // robots.txt-disallowed URLs never reach the queue
+  const { allowed: discovered, blocked } = await filterCrawlable(found);
+  if (blocked.length > 0) log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+
   const existingRows = await prisma.rentalListing.findMany({
     where: { source: SOURCE },
     select: { canonicalUrl: true, lastSeenAt: true },
@@ -2,13 +2,29 @@
  * Script: Build daily rental price index.
  *
  * Usage: npx tsx scripts/rentals_build_index.ts
- * Computes aggregate stats for yesterday UTC by default.
+ * Re-clusters cross-source duplicates, then computes aggregate stats for
+ * yesterday UTC by default, rolls it into the monthly index and refreshes
+ * the price forecasts, listing embeddings and quality / risk scores.
  */
 
 import { prisma } from "../lib/prisma";
 import { buildDailyIndexJob } from "../lib/rentals/jobs/buildIndex";
+import { clusterDuplicatesJob } from "../lib/rentals/jobs/clusterDuplicates";
+import { buildForecastJob } from "../lib/rentals/jobs/buildForecast";
+import { embedListingsJob } from "../lib/rentals/jobs/embedListings";
+import { scoreListingsJob } from "../lib/rentals/jobs/scoreListings";
+import { refreshMarketPages } from "../lib/rentals/marketReportStore";
 
 async function main() {
+  console.log("[rentals_build_index] Clustering duplicate listings...");
+  const clusters = await clusterDuplicatesJob();
+  console.log("[rentals_build_index] Clustering complete:", {
+    clusters: clusters.clusters,
+    duplicates: clusters.duplicates,
+    updated: clusters.updated,
+    jobRunId: clusters.jobRunId,
+  });
+
   console.log("[rentals_build_index] Starting build-index job...");
 
   const result = await buildDailyIndexJob();
@@ -17,6 +33,36 @@ async function main() {
     jobRunId: result.jobRunId,
   });
 
+  // Market pages regenerate on their own timer — revalidation needs Next.js
+  const yesterday = new Date();
+  yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+  const market = await refreshMarketPages([yesterday]);
+  console.log("[rentals_build_index] Monthly index rolled up:", { monthlyRows: market.monthlyRows });
+
+  console.log("[rentals_build_index] Refreshing price forecasts...");
+  const forecast = await buildForecastJob();
+  console.log("[rentals_build_index] Forecast complete:", {
+    segments: forecast.segments,
+    forecastRows: forecast.forecastRows,
+    jobRunId: forecast.jobRunId,
+  });
+
+  console.log("[rentals_build_index] Embedding listings...");
+  const embed = await embedListingsJob();
+  console.log("[rentals_build_index] Embeddings complete:", {
+    updated: embed.updated,
+    embedded: embed.embedded,
+    jobRunId: embed.jobRunId,
+  });
+
+  console.log("[rentals_build_index] Scoring listing quality and risk...");
+  const score = await scoreListingsJob();
+  console.log("[rentals_build_index] Scoring complete:", {
+    updated: score.updated,
+    highRisk: score.highRisk,
+    jobRunId: score.jobRunId,
+  });
+
   console.log("[rentals_build_index] Done.");
 }
 
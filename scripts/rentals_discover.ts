@@ -8,13 +8,13 @@
 import { RentalSource } from "@prisma/client";
 import { prisma } from "../lib/prisma";
 import { discoverListingsJob } from "../lib/rentals/jobs/discover";
-import { isSourceEnabled } from "../lib/rentals/config";
+import { isSourceEnabled, listEnabledSources } from "../lib/rentals/sources/registry";
 
 async function main() {
   const arg = process.argv[2]?.toUpperCase();
   const sources: RentalSource[] = arg
     ? [arg as RentalSource]
-    : (["KHMER24", "REALESTATE_KH", "IPS_CAMBODIA", "CAMREALTY", "LONGTERMLETTINGS", "FAZWAZ"] as RentalSource[]);
+    : listEnabledSources();
 
   console.log("[rentals_discover] Starting discover job...");
 
@@ -30,6 +30,7 @@ async function main() {
       discovered: result.discovered,
       queued: result.queued,
       skippedDuplicate: result.skippedDuplicate,
+      policySkipped: result.policySkipped,
       jobRunId: result.jobRunId,
     });
   }
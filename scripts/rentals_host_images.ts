@@ -0,0 +1,35 @@
+/**
+ * Script: Host listing photos in our own image storage.
+ *
+ * Usage: npx tsx scripts/rentals_host_images.ts [MAX_LISTINGS]
+ * Downloads, dedupes and resizes the photos of listings that still hotlink
+ * them (RENTALS_MAX_IMAGE_LISTINGS per run by default). Storage is Vercel
+ * Blob when BLOB_READ_WRITE_TOKEN is set, else .data/rental-images — see
+ * RENTALS_IMAGE_STORAGE. Run repeatedly to backfill older listings.
+ */
+
+import { prisma } from "../lib/prisma";
+import { hostListingImagesJob } from "../lib/rentals/jobs/hostImages";
+
+async function main() {
+  const arg = process.argv[2];
+  const maxListings = arg ? parseInt(arg, 10) : undefined;
+
+  console.log("[rentals_host_images] Starting host-images job...");
+  const result = await hostListingImagesJob({ maxListings });
+  console.log("[rentals_host_images] Complete:", {
+    listings: result.listings,
+    hosted: result.hosted,
+    stored: result.stored,
+    reused: result.reused,
+    failed: result.failed,
+    jobRunId: result.jobRunId,
+  });
+}
+
+main()
+  .catch((err) => {
+    console.error("[rentals_host_images] Fatal error:", err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,30 @@
+/**
+ * Script: Generate the monthly market reports.
+ *
+ * Usage: npx tsx scripts/rentals_market_report.ts [YYYY-MM]
+ * Builds and stores the HTML/PDF report for each city in
+ * RENTALS_REPORT_CITIES, for the given month or the last full one.
+ * With RENTALS_REPORT_AUTO_EMAIL=true each new report is also queued as
+ * an email campaign to marketing subscribers.
+ */
+
+import { prisma } from "../lib/prisma";
+import { marketReportJob } from "../lib/rentals/jobs/marketReport";
+
+async function main() {
+  const month = process.argv[2];
+  if (month && !/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+    throw new Error(`Month must be YYYY-MM, got "${month}"`);
+  }
+
+  console.log("[rentals_market_report] Starting market report job...");
+  const result = await marketReportJob(month, (level, msg) => console.log(`[${level}] ${msg}`));
+  console.log("[rentals_market_report] Complete:", result);
+}
+
+main()
+  .catch((err) => {
+    console.error("[rentals_market_report] Fatal error:", err);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,20 +1,24 @@
 /**
  * Script: Process queued rental listings from all enabled sources.
  *
- * Usage: npx tsx scripts/rentals_process_queue.ts [SOURCE_NAME]
+ * Usage: npx tsx scripts/rentals_process_queue.ts [SOURCE_NAME] [--replay]
  * If no source specified, runs all enabled sources.
+ * --replay re-parses archived pages of already-processed listings instead
+ * of fetching (backfills parser fixes; needs RENTALS_ARCHIVE_PAGES runs).
  */
 
 import { RentalSource } from "@prisma/client";
 import { prisma } from "../lib/prisma";
 import { processQueueJob } from "../lib/rentals/jobs/processQueue";
-import { isSourceEnabled } from "../lib/rentals/config";
+import { isSourceEnabled, listEnabledSources } from "../lib/rentals/sources/registry";
 
 async function main() {
-  const arg = process.argv[2]?.toUpperCase();
+  const args = process.argv.slice(2);
+  const replay = args.includes("--replay");
+  const arg = args.find((a) => !a.startsWith("--"))?.toUpperCase();
   const sources: RentalSource[] = arg
     ? [arg as RentalSource]
-    : (["KHMER24", "REALESTATE_KH", "IPS_CAMBODIA", "CAMREALTY", "LONGTERMLETTINGS", "FAZWAZ"] as RentalSource[]);
+    : listEnabledSources();
 
   console.log("[rentals_process_queue] Starting process-queue job...");
 
@@ -24,8 +28,8 @@ async function main() {
       continue;
     }
 
-    console.log(`[rentals_process_queue] Processing queue for ${source}...`);
-    const result = await processQueueJob(source);
+    console.log(`[rentals_process_queue] ${replay ? "Replaying archived pages" : "Processing queue"} for ${source}...`);
+    const result = await processQueueJob(source, { replay });
     console.log(`[rentals_process_queue] ${source} complete:`, {
       processed: result.processed,
       inserted: result.inserted,
@@ -0,0 +1,127 @@
+/**
+ * Script: Re-record offline parser fixtures for a rental source.
+ *
+ * Usage:
+ *   npx tsx scripts/rentals_record_fixtures.ts SOURCE_NAME [--category URL] [--add URL]... [--count N]
+ *
+ * With an existing tests/fixtures/rentals/<source>/manifest.json, re-fetches
+ * every page listed in it. `--category` replaces the category page URL and
+ * `--add` appends extra listing pages. For a source with no manifest yet,
+ * `--category` is required and the first N (default 2) listing URLs found on
+ * it are recorded.
+ *
+ * Pages are fetched the same way the adapter fetches them (Playwright for
+ * sources that need it). Goldens are NOT touched — review the HTML diff,
+ * then refresh them with:
+ *   npx vitest run tests/rentalSourceParsers.test.ts -u
+ */
+
+import fs from "fs";
+import path from "path";
+import { fetchHtml, throttledFetch } from "../lib/rentals/http";
+import { fetchHtmlPlaywright, closeBrowser } from "../lib/rentals/playwright";
+import { getSourceAdapter, isRentalSource, sourceUsageHint } from "../lib/rentals/sources/registry";
+import type { RentalSourceAdapter } from "../lib/rentals/sources/types";
+import {
+  type FixtureManifest,
+  type FixturePage,
+  fixtureDir,
+  readManifest,
+  writeManifest,
+} from "../tests/fixtures/rentals/manifest";
+
+const TAG = "[rentals_record_fixtures]";
+
+function parseArgs(argv: string[]) {
+  const source = argv[0]?.toUpperCase();
+  let category: string | null = null;
+  const add: string[] = [];
+  let count = 2;
+
+  for (let i = 1; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--category") category = argv[++i] ?? null;
+    else if (arg === "--add") add.push(argv[++i]);
+    else if (arg === "--count") count = parseInt(argv[++i], 10) || count;
+  }
+
+  return { source, category, add: add.filter(Boolean), count };
+}
+
+/** Fetch a page body the way the adapter would; JSON API pages are fetched raw. */
+async function fetchPage(adapter: RentalSourceAdapter, page: FixturePage): Promise<string | null> {
+  if (page.file.endsWith(".json")) {
+    const response = await throttledFetch(page.url);
+    return response ? response.text() : null;
+  }
+  return adapter.capabilities.needsPlaywright
+    ? fetchHtmlPlaywright(page.url)
+    : fetchHtml(page.url);
+}
+
+async function main() {
+  const { source, category, add, count } = parseArgs(process.argv.slice(2));
+  if (!isRentalSource(source)) {
+    console.error(`${TAG} Usage: npx tsx scripts/rentals_record_fixtures.ts ${sourceUsageHint()} [--category URL] [--add URL]`);
+    process.exit(1);
+  }
+
+  const adapter = getSourceAdapter(source);
+  const existing = readManifest(source);
+
+  if (!existing && !category) {
+    console.error(`${TAG} No manifest for ${source} yet — pass --category URL`);
+    process.exit(1);
+  }
+
+  const manifest: FixtureManifest = {
+    source,
+    recordedAt: new Date().toISOString(),
+    category: {
+      url: category ?? existing!.category.url,
+      file: existing?.category.file ?? (adapter.capabilities.pagination === "json-api" ? "category.json" : "category.html"),
+    },
+    listings: existing ? [...existing.listings] : [],
+  };
+
+  const dir = fixtureDir(source);
+  fs.mkdirSync(dir, { recursive: true });
+
+  // Category page first — a fresh manifest takes its listings from it
+  console.log(`${TAG} Fetching category: ${manifest.category.url}`);
+  const categoryBody = await fetchPage(adapter, manifest.category);
+  if (!categoryBody) {
+    console.error(`${TAG} Category page returned nothing — aborting`);
+    process.exit(1);
+  }
+  fs.writeFileSync(path.join(dir, manifest.category.file), categoryBody);
+
+  if (manifest.listings.length === 0) {
+    const found = adapter.parseCategoryPage(categoryBody).slice(0, count);
+    found.forEach((item, i) => manifest.listings.push({ url: item.url, file: `listing-${i + 1}.html` }));
+  }
+  for (const url of add) {
+    manifest.listings.push({ url, file: `listing-${manifest.listings.length + 1}.html` });
+  }
+
+  for (const page of manifest.listings) {
+    console.log(`${TAG} Fetching listing: ${page.url}`);
+    const html = await fetchPage(adapter, page);
+    if (!html) {
+      console.warn(`${TAG} No HTML for ${page.url} — keeping previous recording`);
+      continue;
+    }
+    fs.writeFileSync(path.join(dir, page.file), html);
+  }
+
+  writeManifest(manifest);
+  console.log(`${TAG} Recorded ${manifest.listings.length + 1} pages into ${dir}`);
+  console.log(`${TAG} Review the diff, then run: npx vitest run tests/rentalSourceParsers.test.ts -u`);
+}
+
+main()
+  .catch((err) => {
+    console.error(`${TAG} Fatal error:`, err);
+    process.exit(1);
+  })
+  .finally(() => closeBrowser());
@@ -0,0 +1,61 @@
+/**
+ * Script: Rental pipeline scheduler worker
+ *
+ * Runs the DB-backed job scheduler: enqueues tasks from the cron
+ * schedules edited in the dashboard, then claims and runs due tasks
+ * (discover → process queue → build index → mark stale) under a lease.
+ * Any number of workers can run side by side; leases keep them from
+ * running the same task twice.
+ *
+ * Runs on a real machine (Khmer24 needs Playwright). Replaces the
+ * Task Scheduler → run-daily-scrape.ps1 setup once schedules exist.
+ *
+ * Usage:
+ *   npx tsx scripts/rentals_scheduler.ts          # poll forever
+ *   npx tsx scripts/rentals_scheduler.ts --once   # one pass, then exit
+ */
+
+import type { PipelineLogFn } from "../lib/rentals/pipelineLogger";
+
+const once = process.argv.includes("--once");
+
+const log: PipelineLogFn = (level, message) => {
+  const ts = new Date().toISOString().slice(0, 19).replace("T", " ");
+  const tag = level.toUpperCase().padEnd(5);
+  console.log(`[${ts}] ${tag} ${message}`);
+};
+
+async function main() {
+  const { prisma } = await import("../lib/prisma");
+  const { schedulerTick, defaultWorkerId } = await import("../lib/rentals/jobs/schedulerTick");
+  const { closeBrowser } = await import("../lib/rentals/playwright");
+  const { SCHEDULER_POLL_MS } = await import("../lib/rentals/config");
+
+  const workerId = defaultWorkerId();
+  let stopping = false;
+  process.on("SIGINT", () => {
+    log("info", "Stopping after the current task…");
+    stopping = true;
+  });
+
+  log("info", `Scheduler worker ${workerId} started${once ? " (single pass)" : ""}`);
+
+  try {
+    do {
+      const r = await schedulerTick({ workerId }, log);
+      if (r.reaped + r.queueReaped + r.enqueued + r.succeeded + r.failed + r.retrying > 0) {
+        log("info", `Tick: ${r.enqueued} enqueued, ${r.succeeded} succeeded, ${r.retrying} retrying, ${r.failed} failed, ${r.reaped} reaped`);
+      }
+      if (once || stopping) break;
+      await new Promise((resolve) => setTimeout(resolve, SCHEDULER_POLL_MS));
+    } while (!stopping);
+  } finally {
+    await closeBrowser();
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((err) => {
+  console.error("\n❌ Fatal error:", err);
+  process.exit(1);
+});
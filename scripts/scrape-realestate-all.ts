@@ -43,7 +43,7 @@ process.env.RENTALS_MAX_PROCESS = String(BATCH_SIZE);
 import * as cheerio from "cheerio";
 import { prisma } from "../lib/prisma";
 import { QueueStatus, RentalSource } from "@prisma/client";
-import { fetchHtml, politeDelay } from "../lib/rentals/http";
+import { fetchHtml, politeDelay, filterCrawlable } from "../lib/rentals/http";
 import { canonicalizeUrl } from "../lib/rentals/url";
 import { processQueueJob } from "../lib/rentals/jobs/processQueue";
 import type { PipelineLogFn, PipelineProgressFn } from "../lib/rentals/pipelineLogger";
@@ -195,11 +195,15 @@ async function discoverAll(): Promise<DiscoveredUrl[]> {
 
 /* ── Phase 2: Enqueue (skip already-scraped) ─────────────── */
 
-async function enqueueNewUrls(discovered: DiscoveredUrl[]): Promise<number> {
+async function enqueueNewUrls(found: DiscoveredUrl[]): Promise<number> {
   console.log("\n╔══════════════════════════════════════════════╗");
   console.log("║  Phase 2 — Enqueue new listings              ║");
   console.log("╚══════════════════════════════════════════════╝\n");
 
+  // robots.txt-disallowed URLs never reach the queue
+  const { allowed: discovered, blocked } = await filterCrawlable(found);
+  if (blocked.length > 0) log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+
   // Get all existing canonical URLs for this source
   const existingRows = await prisma.rentalListing.findMany({
     where: { source: SOURCE },
@@ -55,6 +55,7 @@ process.env.RENTALS_MAX_PROCESS = String(BATCH_SIZE);
 import { prisma } from "../lib/prisma";
 import { QueueStatus, RentalSource } from "@prisma/client";
 import { canonicalizeUrl } from "../lib/rentals/url";
+import { filterCrawlable } from "../lib/rentals/http";
 import { processQueueJob } from "../lib/rentals/jobs/processQueue";
 import type { PipelineLogFn, PipelineProgressFn } from "../lib/rentals/pipelineLogger";
 import { USER_AGENT } from "../lib/rentals/config";
@@ -372,11 +373,15 @@ async function discoverAll(): Promise<DiscoveredUrl[]> {
 
 /* ── Phase 2: Enqueue (skip already-scraped) ─────────────── */
 
-async function enqueueNewUrls(discovered: DiscoveredUrl[]): Promise<{ newCount: number; rescrapeCount: number }> {
+async function enqueueNewUrls(found: DiscoveredUrl[]): Promise<{ newCount: number; rescrapeCount: number }> {
   console.log("\n╔══════════════════════════════════════════════╗");
   console.log("║  Phase 2 — Enqueue new + stale listings       ║");
   console.log("╚══════════════════════════════════════════════╝\n");
 
+  // robots.txt-disallowed URLs never reach the queue
+  const { allowed: discovered, blocked } = await filterCrawlable(found);
+  if (blocked.length > 0) log("warn", `⛔ ${blocked.length} URLs disallowed by robots.txt — not enqueued`);
+
   // Get all existing listings with their lastSeenAt for staleness check
   const existingRows = await prisma.rentalListing.findMany({
     where: { source: SOURCE },
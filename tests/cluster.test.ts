@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  buildClusters,
+  candidatePairs,
+  pickClusterPrimary,
+  scoreDuplicatePair,
+  type ClusterCandidate,
+} from "../lib/rentals/cluster";
+
+/** A 2-bed BKK1 condo on Realestate.com.kh; override per test */
+function listing(id: string, over: Partial<ClusterCandidate> = {}): ClusterCandidate {
+  return {
+    id,
+    source: "REALESTATE_KH",
+    title: "2 Bedroom Condo for Rent in BKK1",
+    city: "Phnom Penh",
+    district: "BKK1",
+    propertyType: "CONDO",
+    bedrooms: 2,
+    sizeSqm: 80,
+    priceMonthlyUsd: 800,
+    latitude: 11.55,
+    longitude: 104.92,
+    imageHashes: [],
+    imageCount: 5,
+    hasDescription: true,
+    firstSeenAt: new Date("2026-01-01T00:00:00Z"),
+    ...over,
+  };
+}
+
+const ids = (pairs: [ClusterCandidate, ClusterCandidate][]) => pairs.map(([a, b]) => `${a.id}-${b.id}`).sort();
+
+/* ------------------------------------------------------------------ */
+/*  scoreDuplicatePair                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("scoreDuplicatePair", () => {
+  const a = listing("a");
+
+  it("matches the same unit reposted with a different title and price", () => {
+    const match = scoreDuplicatePair(a, listing("b", { source: "FAZWAZ", title: "Modern 2 Bedroom Condo BKK1", priceMonthlyUsd: 820 }));
+    expect(match.rejectedBy).toBeUndefined();
+    expect(match.isDuplicate).toBe(true);
+    expect(match.score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it("rules pairs out on hard constraints", () => {
+    const cases: [Partial<ClusterCandidate>, string][] = [
+      [{ city: "Siem Reap" }, "city"],
+      [{ bedrooms: 3 }, "bedrooms"],
+      [{ sizeSqm: 110 }, "size"],
+      [{ latitude: 11.57 }, "distance"],
+      [{ latitude: null, longitude: null, district: "Toul Kork" }, "district"],
+      [{ priceMonthlyUsd: 1200 }, "price"],
+    ];
+    for (const [over, reason] of cases) {
+      const match = scoreDuplicatePair(a, listing("b", { source: "FAZWAZ", ...over }));
+      expect(match).toMatchObject({ isDuplicate: false, score: 0, rejectedBy: reason });
+    }
+  });
+
+  it("needs the weighted score to reach the threshold unless a photo matches", () => {
+    const other = listing("b", { source: "FAZWAZ", title: "Spacious apartment near Independence Monument" });
+    const match = scoreDuplicatePair(a, other);
+    expect(match.score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+    expect(match.isDuplicate).toBe(false);
+
+    const photo = "f0f0f0f0f0f0f0f0";
+    const withPhoto = scoreDuplicatePair({ ...a, imageHashes: [photo] }, { ...other, imageHashes: [photo] });
+    expect(withPhoto.signals.imageDistance).toBe(0);
+    expect(withPhoto.score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+    expect(withPhoto.isDuplicate).toBe(true);
+  });
+
+  it("still scores listings without bedrooms or a price", () => {
+    const match = scoreDuplicatePair(a, listing("b", { source: "FAZWAZ", bedrooms: null, priceMonthlyUsd: null }));
+    expect(match.rejectedBy).toBeUndefined();
+    expect(match.signals.price).toBe(0.5);
+    expect(match.isDuplicate).toBe(true);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  candidatePairs                                                      */
+/* ------------------------------------------------------------------ */
+
+describe("candidatePairs", () => {
+  it("pairs listings from different sources in the same city, bedrooms and price range", () => {
+    const pairs = candidatePairs([
+      listing("a"),
+      listing("b", { source: "FAZWAZ", priceMonthlyUsd: 900 }),
+      listing("c", { source: "FAZWAZ", priceMonthlyUsd: 1500 }),
+      listing("d", { source: "KHMER24", bedrooms: 3 }),
+      listing("e", { source: "KHMER24", city: "Siem Reap" }),
+    ]);
+    expect(ids(pairs)).toEqual(["a-b"]);
+  });
+
+  it("skips pairs from the same source", () => {
+    expect(candidatePairs([listing("a"), listing("b"), listing("c", { bedrooms: null })])).toEqual([]);
+  });
+
+  it("compares listings without bedrooms or a price across the whole city", () => {
+    const pairs = candidatePairs([
+      listing("a"),
+      listing("b", { bedrooms: 1, priceMonthlyUsd: 700 }),
+      listing("nobeds", { source: "FAZWAZ", bedrooms: null }),
+      listing("noprice", { source: "KHMER24", priceMonthlyUsd: null }),
+      listing("far", { source: "IPS_CAMBODIA", bedrooms: null, priceMonthlyUsd: 2000 }),
+    ]);
+    // Unknown bedrooms meet both blocks; no price meets its own bedrooms only
+    expect(ids(pairs)).toEqual(["nobeds-a", "nobeds-b", "nobeds-noprice", "noprice-a", "noprice-far"]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  buildClusters                                                       */
+/* ------------------------------------------------------------------ */
+
+describe("buildClusters", () => {
+  const listings = [
+    listing("late", { firstSeenAt: new Date("2026-03-01T00:00:00Z"), imageCount: 10 }),
+    listing("early", { firstSeenAt: new Date("2026-01-01T00:00:00Z"), imageCount: 2 }),
+    listing("mid", { firstSeenAt: new Date("2026-02-01T00:00:00Z"), imageCount: 4 }),
+    listing("alone"),
+  ];
+
+  it("joins pairs transitively under the earliest-seen id with the most complete primary", () => {
+    const clusters = buildClusters(listings, [["late", "mid"], ["mid", "early"], ["alone", "gone"]]);
+    for (const id of ["late", "early", "mid"]) expect(clusters.get(id)?.clusterId).toBe("early");
+    expect(clusters.get("late")?.isClusterPrimary).toBe(true);
+    expect(clusters.get("early")?.isClusterPrimary).toBe(false);
+    expect(clusters.get("mid")?.isClusterPrimary).toBe(false);
+    // Pairs naming listings outside the run are ignored
+    expect(clusters.get("alone")).toEqual({ clusterId: null, isClusterPrimary: true });
+  });
+
+  it("breaks completeness ties in favour of the earliest seen", () => {
+    const clusters = buildClusters(listings.slice(1, 3).map((l) => ({ ...l, imageCount: 3 })), [["mid", "early"]]);
+    expect(clusters.get("early")).toEqual({ clusterId: "early", isClusterPrimary: true });
+    expect(clusters.get("mid")).toEqual({ clusterId: "early", isClusterPrimary: false });
+  });
+
+  it("picks the next primary from the members still active", () => {
+    // "late" (the most complete) was deactivated
+    expect(pickClusterPrimary(listings.slice(1, 3)).id).toBe("mid");
+    expect(pickClusterPrimary([{ ...listings[1], latitude: null }, { ...listings[2], latitude: null, imageCount: 0 }]).id).toBe("early");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  commuteBoundingBox,
+  createCommutePlan,
+  createDensityLookup,
+  describeCommuteSearch,
+  estimateTrip,
+  formatCommutePlaces,
+  parseCommutePlaces,
+  parseCommuteSearch,
+  parseDistrictShapes,
+  tripLegs,
+} from "../lib/rentals/commute";
+import { buildRentalsOrderBy, buildRentalsWhere } from "../lib/rentalsQuery";
+import { describeSearch, normalizeSearchParams } from "../lib/rentals/savedSearch";
+
+const BKK1 = { lat: 11.551, lng: 104.925 };
+const TOUL_KORK = { lat: 11.58, lng: 104.895 };
+/** Chroy Changvar, across the Tonle Sap from the city centre */
+const CHROY_CHANGVAR = { lat: 11.6, lng: 104.94 };
+
+/** A square GeoJSON feature centred on `p`, `sideKm` across */
+function square(name: string, p: { lat: number; lng: number }, sideKm: number) {
+  const d = sideKm / 2 / 111;
+  return {
+    type: "Feature",
+    properties: { name },
+    geometry: {
+      type: "Polygon",
+      coordinates: [[[p.lng - d, p.lat - d], [p.lng + d, p.lat - d], [p.lng + d, p.lat + d], [p.lng - d, p.lat + d], [p.lng - d, p.lat - d]]],
+    },
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  URL params                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("commute params", () => {
+  it("round-trips labelled places and drops bad entries", () => {
+    const places = parseCommutePlaces("ISPP@11.54390,104.92430;junk;11.57,104.91;Bad@91,0");
+    expect(places).toEqual([
+      { lat: 11.5439, lng: 104.9243, label: "ISPP" },
+      { lat: 11.57, lng: 104.91, label: "Place 2" },
+    ]);
+    expect(formatCommutePlaces([{ ...BKK1, label: "My; school@" }])).toBe("My school@11.55100,104.92500");
+  });
+
+  it("reads mode and max commute with defaults and clamping", () => {
+    expect(parseCommuteSearch({ maxCommute: "20" })).toBeNull();
+    const c = parseCommuteSearch({ commute: "ISPP@11.5439,104.9243", commuteMode: "bus", maxCommute: "500" })!;
+    expect(c.mode).toBe("tuktuk");
+    expect(c.maxMinutes).toBe(120);
+    expect(describeCommuteSearch({ ...c, maxMinutes: 20 })).toBe("within 20 min by tuk-tuk of ISPP");
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Road model                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("estimateTrip", () => {
+  it("scales a straight line by road circuity and the mode's speed", () => {
+    const moto = estimateTrip(BKK1, TOUL_KORK, "moto");
+    const walk = estimateTrip(BKK1, TOUL_KORK, "walk");
+    expect(moto.km).toBeCloseTo(walk.km);
+    expect(moto.km).toBeGreaterThan(5);
+    expect(moto.km).toBeLessThan(6.5);
+    expect(walk.minutes).toBeGreaterThan(moto.minutes * 5);
+  });
+
+  it("routes across the Tonle Sap via a bridge", () => {
+    expect(tripLegs(BKK1, TOUL_KORK)).toHaveLength(1);
+    const legs = tripLegs(TOUL_KORK, CHROY_CHANGVAR);
+    expect(legs).toHaveLength(2);
+    expect(legs[0][1]).toEqual({ lat: 11.5855, lng: 104.9275 });
+  });
+
+  it("is slower through small, dense districts", () => {
+    const shapes = parseDistrictShapes({
+      type: "FeatureCollection",
+      features: [square("Centre", { lat: 11.565, lng: 104.91 }, 1.2), square("Outskirts", { lat: 11.7, lng: 104.7 }, 10)],
+    });
+    expect(shapes.map((s) => s.name)).toEqual(["Centre", "Outskirts"]);
+    expect(shapes[0].areaKm2).toBeCloseTo(1.44, 1);
+
+    const densityAt = createDensityLookup(shapes);
+    expect(densityAt({ lat: 11.565, lng: 104.91 })).toBe(0.55);
+    expect(densityAt({ lat: 11.7, lng: 104.7 })).toBe(1);
+    expect(densityAt({ lat: 11.3, lng: 104.5 })).toBe(1);
+
+    const open = estimateTrip({ lat: 11.565, lng: 104.905 }, { lat: 11.565, lng: 104.915 }, "tuktuk");
+    const dense = estimateTrip({ lat: 11.565, lng: 104.905 }, { lat: 11.565, lng: 104.915 }, "tuktuk", densityAt);
+    expect(dense.km).toBe(open.km);
+    expect(dense.minutes).toBeGreaterThan(open.minutes);
+  });
+});
+
+describe("district GeoJSON", () => {
+  it("treats central sangkats as dense and outer khans as open road", () => {
+    const file = path.join(__dirname, "../public/geo/cambodia-districts.geojson");
+    const densityAt = createDensityLookup(parseDistrictShapes(JSON.parse(readFileSync(file, "utf8"))));
+    expect(densityAt(BKK1)).toBe(0.55);
+    expect(densityAt({ lat: 11.45, lng: 104.84 })).toBeGreaterThan(0.55);
+  });
+});
+
+describe("createCommutePlan", () => {
+  it("times each place and reports the longest trip", () => {
+    const plan = createCommutePlan(parseCommuteSearch({ commute: "Near@11.552,104.925;Far@11.58,104.895" })!, []);
+    const times = plan.times(BKK1.lat, BKK1.lng)!;
+    expect(times.map((t) => t.label)).toEqual(["Near", "Far"]);
+    expect(times[0].minutes).toBeLessThan(times[1].minutes);
+    expect(plan.worstMinutes(BKK1.lat, BKK1.lng)).toBe(times[1].minutes);
+    expect(plan.times(null, 104.9)).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Query integration                                                   */
+/* ------------------------------------------------------------------ */
+
+describe("commute in /rentals queries", () => {
+  const sp = { commute: "ISPP@11.5439,104.9243", commuteMode: "walk", maxCommute: "30" };
+
+  it("narrows to the reachable box and keeps the default order", () => {
+    const box = commuteBoundingBox(parseCommuteSearch(sp)!)!;
+    // 30 min at 4.8 km/h over 1.3 road km per km ≈ 1.85 km
+    expect((box.maxLat - box.minLat) * 111.32).toBeCloseTo(3.69, 1);
+    expect(buildRentalsWhere(sp).AND).toEqual([
+      { latitude: { gte: box.minLat, lte: box.maxLat }, longitude: { gte: box.minLng, lte: box.maxLng } },
+    ]);
+    expect(buildRentalsWhere({ commute: sp.commute }).AND).toBeUndefined();
+    expect(buildRentalsOrderBy("commute")).toEqual([{ firstSeenAt: "desc" }]);
+  });
+
+  it("is kept by saved searches and named", () => {
+    const params = normalizeSearchParams({ ...sp, sort: "commute" });
+    expect(params).toEqual(sp);
+    expect(describeSearch(params)).toBe("Rental within 30 min on foot of ISPP");
+  });
+});
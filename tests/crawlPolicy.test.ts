@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { parseRobotsTxt, policyForAgent, isPathAllowed, productToken } from "../lib/robots/robotsTxt";
+import { checkCrawlPolicy, clearCrawlPolicyCache } from "../lib/robots/crawlPolicy";
+
+const RENTALS_UA = "GlobescraperRentalsBot/1.0 (+https://globescraper.com/tools/rentals; research-only)";
+
+const ROBOTS = `
+# Portal robots.txt
+User-agent: *
+Disallow: /search
+Disallow: /*?sort=
+Allow: /search/rent$
+Crawl-delay: 2
+
+User-agent: BadBot
+User-agent: GlobescraperRentalsBot
+Disallow: /account/
+Disallow: /*.pdf$
+Allow: /account/public
+Crawl-delay: 5
+`;
+
+/* ------------------------------------------------------------------ */
+/*  Parsing + group selection                                           */
+/* ------------------------------------------------------------------ */
+
+describe("parseRobotsTxt", () => {
+  it("groups consecutive user-agent lines and ignores comments", () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    expect(robots.groups.map((g) => g.agents)).toEqual([["*"], ["badbot", "globescraperrentalsbot"]]);
+    expect(robots.groups[1].crawlDelaySec).toBe(5);
+  });
+
+  it("picks our named group over *, and * for other bots", () => {
+    const robots = parseRobotsTxt(ROBOTS);
+    expect(productToken(RENTALS_UA)).toBe("globescraperrentalsbot");
+    expect(policyForAgent(robots, RENTALS_UA).crawlDelaySec).toBe(5);
+    expect(policyForAgent(robots, "GlobescraperBot/1.0").crawlDelaySec).toBe(2);
+    expect(policyForAgent(parseRobotsTxt("Disallow: /orphan"), RENTALS_UA).rules).toEqual([]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Matching                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("isPathAllowed", () => {
+  const generic = policyForAgent(parseRobotsTxt(ROBOTS), "OtherBot");
+  const ours = policyForAgent(parseRobotsTxt(ROBOTS), RENTALS_UA);
+
+  it("applies prefix and wildcard rules", () => {
+    expect(isPathAllowed(generic, "/search/condo")).toBe(false);
+    expect(isPathAllowed(generic, "/rent/bkk1?sort=price")).toBe(false);
+    expect(isPathAllowed(generic, "/rent/bkk1?page=2")).toBe(true);
+  });
+
+  it("lets the longest rule win and honours the $ anchor", () => {
+    expect(isPathAllowed(generic, "/search/rent")).toBe(true);
+    expect(isPathAllowed(generic, "/search/rent/2")).toBe(false);
+    expect(isPathAllowed(ours, "/account/public/1")).toBe(true);
+    expect(isPathAllowed(ours, "/account/settings")).toBe(false);
+    expect(isPathAllowed(ours, "/brochure.pdf")).toBe(false);
+    expect(isPathAllowed(ours, "/brochure.pdf?x=1")).toBe(true);
+  });
+
+  it("prefers Allow on a tie and always allows /robots.txt", () => {
+    const policy = policyForAgent(parseRobotsTxt("User-agent: *\nDisallow: /a\nAllow: /a\nDisallow: /"), "x");
+    expect(isPathAllowed(policy, "/a/b")).toBe(true);
+    expect(isPathAllowed(policy, "/robots.txt")).toBe(true);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Fetching + cache                                                    */
+/* ------------------------------------------------------------------ */
+
+describe("checkCrawlPolicy", () => {
+  beforeEach(() => clearCrawlPolicyCache());
+
+  it("fetches robots.txt once per origin and returns the crawl delay", async () => {
+    const fetchFn = vi.fn(async () => new Response(ROBOTS, { status: 200 }));
+    const opts = { userAgent: RENTALS_UA, fetchFn: fetchFn as unknown as typeof fetch };
+
+    const [a, b] = await Promise.all([
+      checkCrawlPolicy("https://portal.example/rent/1", opts),
+      checkCrawlPolicy("https://portal.example/account/me", opts),
+    ]);
+    expect(a).toEqual({ allowed: true, crawlDelayMs: 5000 });
+    expect(b.allowed).toBe(false);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+    expect(fetchFn).toHaveBeenCalledWith("https://portal.example/robots.txt", expect.anything());
+  });
+
+  it("allows everything on 404 and nothing on 5xx or network errors", async () => {
+    const status = (code: number) => (async () => new Response("", { status: code })) as unknown as typeof fetch;
+    const failing = (async () => {
+      throw new Error("fetch failed");
+    }) as unknown as typeof fetch;
+
+    expect((await checkCrawlPolicy("https://a.example/x", { userAgent: RENTALS_UA, fetchFn: status(404) })).allowed).toBe(true);
+    expect((await checkCrawlPolicy("https://b.example/x", { userAgent: RENTALS_UA, fetchFn: status(503) })).allowed).toBe(false);
+    expect((await checkCrawlPolicy("https://c.example/x", { userAgent: RENTALS_UA, fetchFn: failing })).allowed).toBe(false);
+    expect(
+      (await checkCrawlPolicy("https://d.example/x", { userAgent: RENTALS_UA, fetchFn: failing, allowOnNetworkError: true })).allowed,
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  detectCurrency,
+  formatMoney,
+  formatUsdAs,
+  fxRateOn,
+  parsePrice,
+  setFxRates,
+} from "../lib/rentals/currency";
+import { parsePriceMonthlyUsd } from "../lib/rentals/parse";
+
+const at = (iso: string) => new Date(iso);
+
+afterEach(() => setFxRates([]));
+
+/* ------------------------------------------------------------------ */
+/*  Detection                                                           */
+/* ------------------------------------------------------------------ */
+
+describe("detectCurrency", () => {
+  it("recognises symbols, codes and names", () => {
+    expect(detectCurrency("៛3,200,000")).toBe("KHR");
+    expect(detectCurrency("2,000,000 Riels / month")).toBe("KHR");
+    expect(detectCurrency("฿25,000")).toBe("THB");
+    expect(detectCurrency("£650 pcm")).toBe("GBP");
+    expect(detectCurrency("EUR 900")).toBe("EUR");
+    expect(detectCurrency("USD 800")).toBe("USD");
+    expect(detectCurrency("800 per month")).toBeNull();
+  });
+
+  it("tells dollar prefixes apart", () => {
+    expect(detectCurrency("US$800")).toBe("USD");
+    expect(detectCurrency("A$1,400")).toBe("AUD");
+    expect(detectCurrency("S$2,000")).toBe("SGD");
+  });
+
+  it("goes by the first currency named", () => {
+    expect(detectCurrency("$1,200 (4,920,000៛)")).toBe("USD");
+    expect(detectCurrency("4,920,000៛ ($1,200)")).toBe("KHR");
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Parsing + conversion                                                */
+/* ------------------------------------------------------------------ */
+
+describe("parsePrice", () => {
+  const jan = at("2025-06-01T00:00:00Z");
+
+  it("keeps USD prices as they are", () => {
+    expect(parsePrice("$1,200/month", "USD", jan)).toEqual({ amount: 1200, currency: "USD", usd: 1200 });
+    expect(parsePriceMonthlyUsd("800$/mo")).toBe(800);
+  });
+
+  it("converts riel and baht to whole dollars", () => {
+    setFxRates([{ currency: "KHR", date: "2025-01-01", perUsd: 4000 }]);
+    expect(parsePrice("៛3,200,000", "USD", jan)).toEqual({ amount: 3_200_000, currency: "KHR", usd: 800 });
+    expect(parsePrice("៣,២០០,០០០ រៀល ៛", "USD", jan)?.usd).toBe(800);
+    expect(parsePrice("฿34,100 per month", "USD", jan)?.usd).toBe(1000);
+  });
+
+  it("reads a bare monthly number in the source's currency", () => {
+    expect(parsePrice("650 per month", "GBP", jan)).toEqual({ amount: 650, currency: "GBP", usd: 813 });
+  });
+
+  it("still rejects nightly, sale and implausible prices", () => {
+    expect(parsePrice("£90 per night")).toBeNull();
+    expect(parsePrice("For sale $120,000")).toBeNull();
+    expect(parsePrice("៛100,000")).toBeNull(); // ~$25
+  });
+});
+
+describe("fxRateOn", () => {
+  it("uses the latest rate dated on or before the day", () => {
+    setFxRates([
+      { currency: "THB", date: "2026-01-01", perUsd: 32 },
+      { currency: "THB", date: "2026-03-01", perUsd: 33 },
+    ]);
+    expect(fxRateOn("THB", at("2026-02-15T12:00:00Z"))).toBe(32);
+    expect(fxRateOn("THB", at("2026-03-01T00:00:00Z"))).toBe(33);
+    // Before any stored rate → the built-in default
+    expect(fxRateOn("THB", at("2025-06-01T00:00:00Z"))).toBe(34.1);
+    expect(fxRateOn("USD")).toBe(1);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Display                                                             */
+/* ------------------------------------------------------------------ */
+
+describe("formatting", () => {
+  it("formats amounts with the currency's symbol", () => {
+    expect(formatMoney(1200, "USD")).toBe("$1,200");
+    expect(formatMoney(4_920_000, "KHR")).toBe("4,920,000៛");
+    expect(formatMoney(650, "GBP")).toBe("£650");
+  });
+
+  it("shows USD amounts converted, rounded to a readable step", () => {
+    expect(formatUsdAs(1200, "KHR", 4103)).toBe("4,924,000៛");
+    expect(formatUsdAs(1200, "THB", 34.1)).toBe("฿40,900");
+    // No rate yet → stay in USD
+    expect(formatUsdAs(1200.4, "THB", undefined)).toBe("$1,200");
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import {
+  amenitiesFromJson,
+  compareToMarket,
+  describeComparison,
+  estimateFairRent,
+  fairRentFormPath,
+  indexSegmentKey,
+  parseFairRentQuery,
+  trainFairRentModel,
+  type FlatDetails,
+  type PricedFlat,
+} from "../lib/rentals/fairRent";
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function rng(seed: number) {
+  return () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return seed / 2 ** 31;
+  };
+}
+
+/**
+ * A synthetic market: BKK1 costs 1.5× Toul Kork, each bedroom adds 20%,
+ * rent scales with size^0.5 and a pool adds 10%, with ±10% noise.
+ */
+function market(n: number): PricedFlat[] {
+  const rand = rng(42);
+  const flats: PricedFlat[] = [];
+  for (let i = 0; i < n; i++) {
+    const district = rand() < 0.5 ? "BKK1" : "Toul Kork";
+    const bedrooms = 1 + Math.floor(rand() * 3);
+    const sizeSqm = 40 + bedrooms * 30 + Math.round(rand() * 20);
+    const pool = rand() < 0.4;
+    const price =
+      400 *
+      (district === "BKK1" ? 1.5 : 1) *
+      1.2 ** (bedrooms - 1) *
+      Math.sqrt(sizeSqm / 70) *
+      (pool ? 1.1 : 1) *
+      (0.9 + rand() * 0.2);
+    flats.push({
+      city: "Phnom Penh",
+      district,
+      bedrooms,
+      sizeSqm,
+      propertyType: "CONDO",
+      amenities: pool ? ["Swimming Pool"] : [],
+      priceMonthlyUsd: Math.round(price),
+    });
+  }
+  return flats;
+}
+
+const FLAT: FlatDetails = {
+  city: "Phnom Penh",
+  district: "BKK1",
+  bedrooms: 2,
+  sizeSqm: 100,
+  propertyType: "CONDO",
+  amenities: [],
+};
+
+/* ------------------------------------------------------------------ */
+/*  Regression                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("trainFairRentModel", () => {
+  const model = trainFairRentModel(market(400))!;
+
+  it("recovers district, bedroom and amenity effects", () => {
+    // 400 × 1.5 × 1.2 × √(100/70) ≈ 860
+    const bkk = estimateFairRent(model, FLAT, null)!;
+    expect(bkk.mid).toBeGreaterThan(800);
+    expect(bkk.mid).toBeLessThan(920);
+    expect(bkk.low).toBeLessThan(bkk.mid);
+    expect(bkk.high).toBeGreaterThan(bkk.mid);
+
+    const tk = estimateFairRent(model, { ...FLAT, district: "Toul Kork" }, null)!;
+    expect(bkk.mid / tk.mid).toBeCloseTo(1.5, 1);
+    const pool = estimateFairRent(model, { ...FLAT, amenities: ["Swimming Pool"] }, null)!;
+    expect(pool.mid / bkk.mid).toBeGreaterThan(1.04);
+    expect(pool.mid / bkk.mid).toBeLessThan(1.16);
+  });
+
+  it("drops wild prices and lists districts busiest first", () => {
+    const data = market(200);
+    data.push({ ...data[0], priceMonthlyUsd: 250_000 });
+    const trimmed = trainFairRentModel(data)!;
+    expect(trimmed.sampleSize).toBe(200);
+    expect(trimmed.districts.map((d) => d.district).sort()).toEqual(["BKK1", "Toul Kork"]);
+    expect(trimmed.districts[0].count).toBeGreaterThanOrEqual(trimmed.districts[1].count);
+  });
+
+  it("needs enough listings and still prices unknown districts", () => {
+    expect(trainFairRentModel(market(10))).toBeNull();
+    const unknown = estimateFairRent(model, { ...FLAT, city: null, district: null }, null)!;
+    const tk = estimateFairRent(model, { ...FLAT, district: "Toul Kork" }, null)!;
+    const bkk = estimateFairRent(model, FLAT, null)!;
+    expect(unknown.mid).toBeGreaterThan(tk.mid);
+    expect(unknown.mid).toBeLessThan(bkk.mid);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Index blend & comparison                                            */
+/* ------------------------------------------------------------------ */
+
+describe("estimateFairRent", () => {
+  const model = trainFairRentModel(market(400))!;
+  const segment = { listingCount: 90, medianPriceUsd: 1200, p25PriceUsd: 1000, p75PriceUsd: 1400 };
+
+  it("pulls towards a busy index segment", () => {
+    const blended = estimateFairRent(model, FLAT, segment)!;
+    expect(blended.mid).toBeGreaterThan(1100);
+    expect(blended.mid).toBeLessThan(1200);
+    expect(blended.segmentListings).toBe(90);
+
+    const thin = estimateFairRent(model, FLAT, { ...segment, listingCount: 2 })!;
+    expect(thin.mid).toBeLessThan(blended.mid);
+  });
+
+  it("falls back to the index alone, or gives up", () => {
+    expect(estimateFairRent(null, FLAT, segment)).toEqual({
+      low: 1000,
+      mid: 1200,
+      high: 1400,
+      sampleSize: 0,
+      segmentListings: 90,
+    });
+    expect(estimateFairRent(null, FLAT, null)).toBeNull();
+  });
+
+  it("keys segments like the daily index", () => {
+    expect(indexSegmentKey(FLAT)).toBe("Phnom Penh|BKK1|2|CONDO");
+    expect(indexSegmentKey({ ...FLAT, district: null, bedrooms: null })).toBe("Phnom Penh||-1|CONDO");
+  });
+});
+
+describe("compareToMarket", () => {
+  const estimate = { low: 900, mid: 1000, high: 1100, sampleSize: 100, segmentListings: 0 };
+
+  it("describes where the asking rent falls", () => {
+    expect(describeComparison(compareToMarket(1250, estimate))).toBe("25% above market");
+    expect(describeComparison(compareToMarket(700, estimate))).toBe("30% below market");
+    expect(describeComparison(compareToMarket(1050, estimate))).toBe("In line with market (5% above)");
+    expect(describeComparison(compareToMarket(1000, estimate))).toBe("In line with market");
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Public form                                                         */
+/* ------------------------------------------------------------------ */
+
+describe("fair-rent form", () => {
+  it("reads the submitted details and ignores junk", () => {
+    expect(parseFairRentQuery({})).toBeNull();
+    expect(
+      parseFairRentQuery({
+        type: "SHOPHOUSE",
+        district: "BKK1",
+        bedrooms: "7",
+        size: "-3",
+        amenity: ["Gym", "Hot Tub", "Gym"],
+        price: "950",
+      }),
+    ).toEqual({
+      flat: { district: "BKK1", bedrooms: 5, sizeSqm: null, propertyType: "APARTMENT", amenities: ["Gym"] },
+      askingUsd: 950,
+    });
+  });
+
+  it("round-trips a listing's details through the form link", () => {
+    const amenities = amenitiesFromJson('["Swimming Pool","Gym","Sea View"]');
+    expect(amenities).toEqual(["Swimming Pool", "Gym"]);
+
+    const href = fairRentFormPath({ ...FLAT, amenities }, 1234.4);
+    const params = new URLSearchParams(href.split("?")[1]);
+    const sp: Record<string, string | string[]> = {};
+    for (const key of new Set(params.keys())) {
+      const all = params.getAll(key);
+      sp[key] = all.length > 1 ? all : all[0];
+    }
+    expect(parseFairRentQuery(sp)).toEqual({
+      flat: { district: "BKK1", bedrooms: 2, sizeSqm: 100, propertyType: "CONDO", amenities },
+      askingUsd: 1234,
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Rental source fixture manifests.
+ *
+ * Each directory under tests/fixtures/rentals/ holds recorded pages for one
+ * source plus a manifest.json describing them. Parser output is compared
+ * against `<name>.expected.json` goldens sitting next to each page.
+ *
+ * Shared by tests/rentalSourceParsers.test.ts and
+ * scripts/rentals_record_fixtures.ts.
+ */
+
+import fs from "fs";
+import path from "path";
+import type { RentalSource } from "@prisma/client";
+
+export const FIXTURES_ROOT = path.resolve(__dirname);
+
+export interface FixturePage {
+  /** URL the page was recorded from (passed to the parser) */
+  url: string;
+  /** File name relative to the source directory */
+  file: string;
+}
+
+export interface FixtureManifest {
+  source: RentalSource;
+  /** ISO timestamp of the recording; relative dates resolve against it */
+  recordedAt: string;
+  category: FixturePage;
+  listings: FixturePage[];
+}
+
+/** Directory name for a source, e.g. REALESTATE_KH → realestate-kh. */
+export function fixtureDirName(source: RentalSource): string {
+  return source.toLowerCase().replace(/_/g, "-");
+}
+
+export function fixtureDir(source: RentalSource): string {
+  return path.join(FIXTURES_ROOT, fixtureDirName(source));
+}
+
+export function readManifest(source: RentalSource): FixtureManifest | null {
+  const file = path.join(fixtureDir(source), "manifest.json");
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as FixtureManifest;
+}
+
+export function writeManifest(manifest: FixtureManifest): void {
+  const dir = fixtureDir(manifest.source);
+  fs.mkdirSync(dir, { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "manifest.json"),
+    JSON.stringify(manifest, null, 2) + "\n"
+  );
+}
+
+/** Golden path for a fixture page: listing-condo.html → listing-condo.expected.json */
+export function goldenPath(source: RentalSource, page: FixturePage): string {
+  const base = page.file.replace(/\.[^.]+$/, "");
+  return path.join(fixtureDir(source), `${base}.expected.json`);
+}
+
+export function readFixture(source: RentalSource, page: FixturePage): string {
+  return fs.readFileSync(path.join(fixtureDir(source), page.file), "utf8");
+}
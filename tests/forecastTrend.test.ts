@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { forecastTrend } from "../lib/rentals/ml";
+
+/** One point per month starting Jan 2024, price from `f(monthIndex)`. */
+function series(months: number, f: (i: number) => number) {
+  return Array.from({ length: months }, (_, i) => ({
+    date: new Date(Date.UTC(2024, i, 15)),
+    price: f(i),
+  }));
+}
+
+/* ------------------------------------------------------------------ */
+/*  forecastTrend                                                       */
+/* ------------------------------------------------------------------ */
+
+describe("forecastTrend", () => {
+  it("needs six months of history", () => {
+    expect(forecastTrend(series(5, () => 500))).toBeNull();
+  });
+
+  it("extends a clean linear trend", () => {
+    const result = forecastTrend(series(12, (i) => 500 + 10 * i), 3)!;
+    expect(result.slope).toBe(10);
+    expect(result.seasonal).toBe(false);
+    expect(result.points.map((p) => [p.month, p.predicted])).toEqual([
+      ["2025-01", 620],
+      ["2025-02", 630],
+      ["2025-03", 640],
+    ]);
+  });
+
+  it("averages several points in the same month", () => {
+    const points = [
+      ...series(8, () => 600),
+      { date: new Date(Date.UTC(2024, 7, 2)), price: 700 },
+    ];
+    const result = forecastTrend(points)!;
+    expect(result.trainingMonths).toBe(8);
+  });
+
+  it("widens intervals with the horizon and keeps 95% outside 80%", () => {
+    const noisy = series(10, (i) => 500 + 5 * i + (i % 2 === 0 ? 15 : -15));
+    const { points } = forecastTrend(noisy, 6)!;
+    const width = (p: (typeof points)[number]) => p.upper80 - p.lower80;
+    expect(width(points[5])).toBeGreaterThan(width(points[0]));
+    for (const p of points) {
+      expect(p.lower95).toBeLessThanOrEqual(p.lower80);
+      expect(p.upper95).toBeGreaterThanOrEqual(p.upper80);
+      expect(p.lower80).toBeLessThanOrEqual(p.predicted);
+    }
+  });
+
+  it("applies month-of-year seasonality with two years of history", () => {
+    // Flat level with a +100 bump every June
+    const result = forecastTrend(series(24, (i) => (i % 12 === 5 ? 700 : 600)), 6)!;
+    expect(result.seasonal).toBe(true);
+    const june = result.points.find((p) => p.month === "2026-06")!;
+    const may = result.points.find((p) => p.month === "2026-05")!;
+    expect(june.predicted - may.predicted).toBeCloseTo(100, 0);
+  });
+});
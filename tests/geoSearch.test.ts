@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseGeoSearch,
+  parsePolygon,
+  formatPolygon,
+  geoBoundingBox,
+  geoContains,
+  haversineKm,
+  MAX_RADIUS_KM,
+} from "../lib/rentals/geoSearch";
+import { buildRentalsWhere, buildFilterSummary, buildViewHref } from "../lib/rentalsQuery";
+import { describeSearch, normalizeSearchParams } from "../lib/rentals/savedSearch";
+
+// Independence Monument, Phnom Penh
+const CENTER = "11.55640,104.92820";
+
+const SQUARE = "11.55,104.91;11.55,104.93;11.57,104.93;11.57,104.91";
+
+/* ------------------------------------------------------------------ */
+/*  URL params                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("parseGeoSearch", () => {
+  it("reads a radius search and clamps the radius", () => {
+    expect(parseGeoSearch({ near: CENTER, radiusKm: "3" })).toEqual({
+      mode: "radius",
+      center: { lat: 11.5564, lng: 104.9282 },
+      radiusKm: 3,
+    });
+    const far = parseGeoSearch({ near: CENTER, radiusKm: "500" });
+    expect(far?.mode === "radius" && far.radiusKm).toBe(MAX_RADIUS_KM);
+  });
+
+  it("prefers a polygon and ignores malformed input", () => {
+    expect(parseGeoSearch({ near: CENTER, poly: SQUARE })?.mode).toBe("polygon");
+    expect(parseGeoSearch({ near: "91,200" })).toBeNull();
+    expect(parseGeoSearch({ poly: "11.5,104.9;11.6,104.9" })).toBeNull();
+    expect(parsePolygon("11.5,104.9;oops;11.6,105")).toBeNull();
+  });
+
+  it("round-trips a polygon", () => {
+    const points = parsePolygon(SQUARE)!;
+    expect(parsePolygon(formatPolygon(points))).toEqual(points);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Geometry                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("geoContains", () => {
+  it("tests distance for a radius search", () => {
+    const geo = parseGeoSearch({ near: CENTER, radiusKm: "1" })!;
+    expect(geoContains(geo, 11.56, 104.93)).toBe(true);
+    expect(geoContains(geo, 11.58, 104.93)).toBe(false);
+  });
+
+  it("tests the polygon, not just its box", () => {
+    // Right triangle: the box corner opposite the hypotenuse is outside
+    const geo = parseGeoSearch({ poly: "11.55,104.91;11.55,104.93;11.57,104.91" })!;
+    expect(geoContains(geo, 11.555, 104.915)).toBe(true);
+    expect(geoContains(geo, 11.568, 104.928)).toBe(false);
+  });
+
+  it("bounds the circle with a box that contains it", () => {
+    const geo = parseGeoSearch({ near: CENTER, radiusKm: "2" })!;
+    const box = geoBoundingBox(geo);
+    expect(haversineKm(11.5564, 104.9282, box.maxLat, 104.9282)).toBeCloseTo(2, 1);
+    expect(haversineKm(11.5564, 104.9282, 11.5564, box.maxLng)).toBeCloseTo(2, 1);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Query integration                                                   */
+/* ------------------------------------------------------------------ */
+
+describe("geo params in /rentals queries", () => {
+  it("narrows buildRentalsWhere to the bounding box", () => {
+    const where = buildRentalsWhere({ poly: SQUARE, city: "Phnom Penh" });
+    expect(where.latitude).toEqual({ gte: 11.55, lte: 11.57 });
+    expect(where.longitude).toEqual({ gte: 104.91, lte: 104.93 });
+    expect(where.city).toBe("Phnom Penh");
+  });
+
+  it("describes the area in summaries and saved-search names", () => {
+    const sp = { near: CENTER, radiusKm: "2", bedsMin: "2" };
+    expect(buildFilterSummary(sp, 12)).toBe("12 results within 2 km of a pin");
+    expect(describeSearch(normalizeSearchParams(sp))).toBe("2+ bed rental within 2 km of a pin");
+  });
+
+  it("keeps long polygons when saving but drops the view", () => {
+    const poly = Array.from({ length: 30 }, (_, i) => `11.${50000 + i},104.${90000 + i}`).join(";");
+    expect(normalizeSearchParams({ poly, view: "map" })).toEqual({ poly });
+  });
+
+  it("switches between list and map views without the page", () => {
+    expect(buildViewHref({ near: CENTER, page: "3" }, "map")).toBe(`/rentals?near=${encodeURIComponent(CENTER)}&view=map`);
+    expect(buildViewHref({ view: "map" }, "list")).toBe("/rentals");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  admitRequest,
+  classifyStatus,
+  clearHostHealth,
+  getHostHealth,
+  hostPausedUntil,
+  isHostAvailable,
+  parseRetryAfter,
+  recordOutcome,
+  reserveSlot,
+  restoreHostHealth,
+  type HostHealth,
+} from "../lib/rentals/hostHealth";
+import {
+  REQUEST_DELAY_BASE_MS,
+  HOST_BUCKET_BURST,
+  BREAKER_FAILURE_THRESHOLD,
+  BREAKER_COOLDOWN_BASE_MS,
+} from "../lib/rentals/config";
+
+const HOST = "www.portal.example";
+const T0 = Date.UTC(2026, 0, 1);
+
+function failTimes(h: HostHealth, n: number, now = T0): void {
+  for (let i = 0; i < n; i++) recordOutcome(h, { kind: "failure", status: 502, error: "HTTP 502" }, now);
+}
+
+beforeEach(() => clearHostHealth());
+
+/* ------------------------------------------------------------------ */
+/*  Classification                                                      */
+/* ------------------------------------------------------------------ */
+
+describe("classifyStatus / parseRetryAfter", () => {
+  it("treats 404 as a healthy answer and 403/5xx as failures", () => {
+    expect([200, 404, 429, 503, 403, 500].map(classifyStatus)).toEqual([
+      "success",
+      "success",
+      "throttled",
+      "throttled",
+      "failure",
+      "failure",
+    ]);
+  });
+
+  it("reads delta-seconds and HTTP dates", () => {
+    expect(parseRetryAfter("30", T0)).toBe(30_000);
+    expect(parseRetryAfter(new Date(T0 + 90_000).toUTCString(), T0)).toBe(90_000);
+    expect(parseRetryAfter("soon", T0)).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Token bucket                                                        */
+/* ------------------------------------------------------------------ */
+
+describe("reserveSlot", () => {
+  it("allows a burst, then spaces requests one interval apart", () => {
+    const h = getHostHealth(HOST, T0);
+    const waits = Array.from({ length: HOST_BUCKET_BURST + 2 }, () => reserveSlot(h, T0));
+    expect(waits).toEqual([
+      ...Array(HOST_BUCKET_BURST).fill(0),
+      REQUEST_DELAY_BASE_MS,
+      REQUEST_DELAY_BASE_MS * 2,
+    ]);
+  });
+
+  it("uses a Crawl-delay floor without bursting", () => {
+    const h = getHostHealth(HOST, T0);
+    expect(reserveSlot(h, T0, 10_000)).toBe(0);
+    expect(reserveSlot(h, T0, 10_000)).toBe(10_000);
+  });
+
+  it("backs off on 429 and honours a short Retry-After", () => {
+    const h = getHostHealth(HOST, T0);
+    recordOutcome(h, { kind: "throttled", status: 429, retryAfterMs: 20_000 }, T0);
+    expect(h.intervalMs).toBe(REQUEST_DELAY_BASE_MS * 2);
+    expect(h.circuit).toBe("CLOSED");
+    expect(reserveSlot(h, T0 + 5_000)).toBe(15_000);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Circuit breaker                                                     */
+/* ------------------------------------------------------------------ */
+
+describe("circuit breaker", () => {
+  it("opens after consecutive failures and pauses the host", () => {
+    const h = getHostHealth(HOST, T0);
+    failTimes(h, BREAKER_FAILURE_THRESHOLD - 1);
+    expect(h.circuit).toBe("CLOSED");
+    failTimes(h, 1);
+    expect(h.circuit).toBe("OPEN");
+    expect(admitRequest(h, T0 + 1000)).toBe(false);
+    expect(hostPausedUntil(HOST, T0)?.getTime()).toBe(T0 + BREAKER_COOLDOWN_BASE_MS);
+  });
+
+  it("lets one probe through after the cooldown and re-opens for longer on failure", () => {
+    const h = getHostHealth(HOST, T0);
+    failTimes(h, BREAKER_FAILURE_THRESHOLD);
+    const later = T0 + BREAKER_COOLDOWN_BASE_MS;
+
+    expect(admitRequest(h, later)).toBe(true);
+    expect(h.circuit).toBe("HALF_OPEN");
+    expect(admitRequest(h, later)).toBe(false);
+
+    failTimes(h, 1, later);
+    expect(h.circuit).toBe("OPEN");
+    expect(h.openedUntil).toBe(later + BREAKER_COOLDOWN_BASE_MS * 2);
+  });
+
+  it("closes on a successful probe", () => {
+    const h = getHostHealth(HOST, T0);
+    failTimes(h, BREAKER_FAILURE_THRESHOLD);
+    const later = T0 + BREAKER_COOLDOWN_BASE_MS;
+    admitRequest(h, later);
+    recordOutcome(h, { kind: "success", status: 200 }, later);
+    expect(h).toMatchObject({ circuit: "CLOSED", consecutiveFailures: 0, tripCount: 0 });
+    expect(isHostAvailable(h, later)).toBe(true);
+  });
+
+  it("opens straight away for a long Retry-After", () => {
+    const h = getHostHealth(HOST, T0);
+    recordOutcome(h, { kind: "throttled", status: 503, retryAfterMs: 3 * 60 * 60 * 1000 }, T0);
+    expect(h.circuit).toBe("OPEN");
+    expect(h.openedUntil).toBe(T0 + 3 * 60 * 60 * 1000);
+  });
+
+  it("keeps newer in-memory state over an older persisted row", () => {
+    const h = getHostHealth(HOST, T0);
+    failTimes(h, BREAKER_FAILURE_THRESHOLD, T0 + 10);
+    restoreHostHealth({ ...h, circuit: "CLOSED", changedAt: T0 });
+    expect(getHostHealth(HOST).circuit).toBe("OPEN");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  describeDiff,
+  diffListing,
+  parseListingChanges,
+  textDiff,
+  type ListingDiffState,
+} from "../lib/rentals/listingDiff";
+
+const base: ListingDiffState = {
+  title: "2BR Apartment in BKK1",
+  description: "Bright two bedroom apartment with balcony. Close to the market.",
+  imageUrlsJson: JSON.stringify(["https://img/a.jpg", "https://img/b.jpg"]),
+  amenitiesJson: JSON.stringify(["Pool", "Gym"]),
+  latitude: 11.5564,
+  longitude: 104.9282,
+  sizeSqm: 85,
+};
+
+/* ------------------------------------------------------------------ */
+/*  Text                                                                */
+/* ------------------------------------------------------------------ */
+
+describe("textDiff", () => {
+  it("keeps only the changed window", () => {
+    expect(textDiff("title", "2BR Apartment in BKK1", "2BR Apartment in Tonle Bassac")).toEqual({
+      field: "title",
+      at: 17,
+      removed: "BKK1",
+      added: "Tonle Bassac",
+    });
+  });
+
+  it("ignores whitespace-only reflows", () => {
+    expect(textDiff("description", "Bright  two\nbedroom ", "Bright two bedroom")).toBeNull();
+  });
+
+  it("marks text that appeared or went away", () => {
+    expect(textDiff("description", null, "New text")).toMatchObject({ from: null, added: "New text" });
+    expect(textDiff("description", "Old text", "")).toMatchObject({ to: null, removed: "Old text" });
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Listing                                                             */
+/* ------------------------------------------------------------------ */
+
+describe("diffListing", () => {
+  it("finds nothing when the scrape matches", () => {
+    expect(diffListing(base, { ...base })).toEqual([]);
+  });
+
+  it("lists photos and amenities added and removed", () => {
+    const diffs = diffListing(base, {
+      ...base,
+      imageUrlsJson: JSON.stringify(["https://img/b.jpg", "https://img/c.jpg"]),
+      amenitiesJson: JSON.stringify(["Gym", "Pool", "Parking"]),
+    });
+    expect(diffs).toEqual([
+      { field: "images", added: ["https://img/c.jpg"], removed: ["https://img/a.jpg"] },
+      { field: "amenities", added: ["Parking"], removed: [] },
+    ]);
+  });
+
+  it("flags a new cover photo, but not reordered amenities", () => {
+    const diffs = diffListing(base, {
+      ...base,
+      imageUrlsJson: JSON.stringify(["https://img/b.jpg", "https://img/a.jpg"]),
+      amenitiesJson: JSON.stringify(["Gym", "Pool"]),
+    });
+    expect(diffs).toEqual([{ field: "images", added: [], removed: [], reordered: true }]);
+  });
+
+  it("ignores geocoding jitter but records a real move", () => {
+    expect(diffListing(base, { ...base, latitude: 11.55641 })).toEqual([]);
+    const [moved] = diffListing(base, { ...base, latitude: 11.5664 });
+    expect(moved).toMatchObject({ field: "coordinates", to: [11.5664, 104.9282] });
+    expect(moved.field === "coordinates" && moved.movedM).toBeGreaterThan(1000);
+    expect(describeDiff(moved)).toBe("moved 1.1 km");
+  });
+
+  it("records size and a newly pinned location", () => {
+    const diffs = diffListing({ ...base, latitude: null, longitude: null }, { ...base, sizeSqm: 90 });
+    expect(diffs.map((d) => d.field)).toEqual(["coordinates", "sizeSqm"]);
+    expect(diffs.map(describeDiff)).toEqual(["pinned", "85 → 90 sqm"]);
+  });
+});
+
+describe("parseListingChanges", () => {
+  it("round-trips stored diffs and tolerates bad JSON", () => {
+    const diffs = diffListing(base, { ...base, title: "2BR Apartment in BKK2" });
+    expect(parseListingChanges(JSON.stringify(diffs))).toEqual(diffs);
+    expect(parseListingChanges("{oops")).toEqual([]);
+    expect(parseListingChanges(null)).toEqual([]);
+  });
+});
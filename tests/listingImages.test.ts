@@ -0,0 +1,148 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import sharp from "sharp";
+import {
+  hostedImageSrcSet,
+  hostedImageUrl,
+  listingPhotos,
+  variantWidths,
+  type HostedImageRef,
+} from "../lib/rentals/listingImages";
+import { fingerprintImage, groupNearDuplicates, processImage } from "../lib/rentals/imagePipeline";
+import {
+  imageStorageKey,
+  isVariantKey,
+  localImageStorage,
+  readLocalImage,
+  variantKey,
+} from "../lib/rentals/imageStorage";
+
+const SHA = "ab" + "0".repeat(62);
+
+const ref: HostedImageRef = {
+  src: "https://img.portal.example/1.jpg",
+  id: "img1",
+  base: "https://blob.example/rental-images/ab/" + SHA,
+  widths: [320, 640, 900],
+};
+
+/** A left-to-right gradient — enough structure for a stable dHash */
+function gradient(width: number, height: number, flip = false): Promise<Buffer> {
+  const pixels = Buffer.alloc(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = Math.round((x / width) * 255);
+      pixels.fill(flip ? 255 - v : v, (y * width + x) * 3, (y * width + x) * 3 + 3);
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 3 } }).jpeg().toBuffer();
+}
+
+/* ------------------------------------------------------------------ */
+/*  Variants + URLs                                                     */
+/* ------------------------------------------------------------------ */
+
+describe("variantWidths", () => {
+  it("never upscales and keeps the original size as the top variant", () => {
+    expect(variantWidths(2400)).toEqual([320, 640, 1280]);
+    expect(variantWidths(900)).toEqual([320, 640, 900]);
+    expect(variantWidths(250)).toEqual([250]);
+  });
+});
+
+describe("hostedImageUrl", () => {
+  it("picks the narrowest variant wide enough", () => {
+    expect(hostedImageUrl(ref, 300, "webp")).toBe(`${ref.base}/320.webp`);
+    expect(hostedImageUrl(ref, 641, "jpg")).toBe(`${ref.base}/900.jpg`);
+    expect(hostedImageUrl(ref, 3840, "jpg")).toBe(`${ref.base}/900.jpg`);
+    expect(hostedImageSrcSet(ref, "webp")).toBe(
+      `${ref.base}/320.webp 320w, ${ref.base}/640.webp 640w, ${ref.base}/900.webp 900w`,
+    );
+  });
+});
+
+describe("listingPhotos", () => {
+  const sources = JSON.stringify([ref.src, "https://img.portal.example/2.jpg", "/relative.jpg"]);
+
+  it("hotlinks source photos until they are hosted", () => {
+    expect(listingPhotos(sources, null)).toEqual([
+      { src: ref.src, hosted: null },
+      { src: "https://img.portal.example/2.jpg", hosted: null },
+    ]);
+  });
+
+  it("serves hosted copies and hotlinks the photos that aren't hosted", () => {
+    expect(listingPhotos(sources, JSON.stringify([ref]))).toEqual([
+      { src: ref.src, hosted: ref },
+      { src: "https://img.portal.example/2.jpg", hosted: null },
+    ]);
+    expect(listingPhotos(null, "not json")).toEqual([]);
+  });
+
+  it("leaves out sources hosted as a near-duplicate of another photo", () => {
+    const withDuplicate = { ...ref, duplicates: ["https://img.portal.example/2.jpg"] };
+    expect(listingPhotos(sources, JSON.stringify([withDuplicate]))).toEqual([{ src: ref.src, hosted: withDuplicate }]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Processing                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("processImage", () => {
+  it("renders WebP and JPEG variants at each width", async () => {
+    const processed = await processImage(await gradient(900, 600));
+    expect(processed).not.toBeNull();
+    expect(processed!.width).toBe(900);
+    expect(processed!.variants.map((v) => `${v.width}.${v.format}`)).toEqual([
+      "320.webp", "320.jpg", "640.webp", "640.jpg", "900.webp", "900.jpg",
+    ]);
+    const small = await sharp(processed!.variants[0].buffer).metadata();
+    expect(small).toMatchObject({ format: "webp", width: 320, height: 213 });
+  });
+
+  it("rejects icons and non-images", async () => {
+    expect(await fingerprintImage(await gradient(64, 64))).toBeNull();
+    expect(await fingerprintImage(Buffer.from("<html>not found</html>"))).toBeNull();
+  });
+
+  it("groups a resized copy of the same photo under the first within a listing", async () => {
+    const buffers = await Promise.all([gradient(900, 600), gradient(450, 300), gradient(900, 600, true)]);
+    const prints = await Promise.all(buffers.map(fingerprintImage));
+    const [big, resized, different] = prints.map((p) => p!);
+    expect(big.sha256).not.toBe(resized.sha256);
+    expect(groupNearDuplicates([big, resized, different])).toEqual([
+      { image: big, duplicates: [resized] },
+      { image: different, duplicates: [] },
+    ]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Local storage                                                       */
+/* ------------------------------------------------------------------ */
+
+describe("local image storage", () => {
+  let dir: string | null = null;
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it("stores variants under content-addressed keys served by the image route", async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "rental-images-"));
+    const key = variantKey(imageStorageKey(SHA), 640, "webp");
+    const url = await localImageStorage(dir).put(key, Buffer.from("webp bytes"), "image/webp");
+    expect(url).toBe(`/api/rentals/images/ab/${SHA}/640.webp`);
+    expect((await readLocalImage(key.split("/"), dir))?.toString()).toBe("webp bytes");
+  });
+
+  it("refuses keys that could escape the store", () => {
+    expect(isVariantKey(["ab", SHA, "640.webp"])).toBe(true);
+    expect(isVariantKey(["..", SHA, "640.webp"])).toBe(false);
+    expect(isVariantKey(["ab", SHA, "../../etc/passwd"])).toBe(false);
+    expect(isVariantKey(["cd", SHA, "640.webp"])).toBe(false);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  scoreListingQuality,
+  countReusedImageUnits,
+  redFlagPhrases,
+  type QualityContext,
+  type QualityListing,
+} from "../lib/rentals/quality";
+
+const DESCRIPTION =
+  "Bright two bedroom apartment on the 8th floor with a balcony, fully furnished, " +
+  "shared pool and gym, 24h security and parking. Viewing any day.";
+
+function listing(over: Partial<QualityListing> = {}): QualityListing {
+  return {
+    priceMonthlyUsd: 700,
+    district: "BKK1",
+    bedrooms: 2,
+    sizeSqm: 80,
+    imageUrlsJson: JSON.stringify(["https://a/1.jpg", "https://a/2.jpg", "https://a/3.jpg"]),
+    description: DESCRIPTION,
+    ...over,
+  };
+}
+
+function ctx(over: Partial<QualityContext> = {}): QualityContext {
+  return {
+    segmentPrices: [650, 680, 700, 720, 750, 780, 800],
+    indexMedianUsd: 720,
+    reusedImageUnits: 0,
+    aiReview: null,
+    ...over,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  scoreListingQuality                                                 */
+/* ------------------------------------------------------------------ */
+
+describe("scoreListingQuality", () => {
+  it("scores a complete, typically priced listing as low risk", () => {
+    const r = scoreListingQuality(listing(), ctx());
+    expect(r).toEqual({ qualityScore: 100, riskScore: 0, riskLevel: "LOW", flags: [] });
+  });
+
+  it("flags bait prices far below the district median", () => {
+    const r = scoreListingQuality(listing({ priceMonthlyUsd: 250 }), ctx());
+    expect(r.flags.map((f) => f.code)).toEqual(["PRICE_FAR_BELOW_INDEX", "PRICE_OUTLIER_LOW"]);
+    expect(r.riskLevel).toBe("HIGH");
+  });
+
+  it("ignores high outliers", () => {
+    const r = scoreListingQuality(listing({ priceMonthlyUsd: 3000 }), ctx());
+    expect(r.riskScore).toBe(0);
+  });
+
+  it("combines reused photos, red-flag wording and AI verdicts", () => {
+    const r = scoreListingQuality(
+      listing({ description: DESCRIPTION + " I am currently abroad, keys will be sent by courier." }),
+      ctx({ reusedImageUnits: 3, aiReview: { flagged: true, isResidential: true, confidence: 0.8 } }),
+    );
+    expect(r.flags.map((f) => f.code)).toEqual(["REUSED_IMAGES", "RED_FLAG_TEXT", "AI_FLAGGED"]);
+    expect(r.riskScore).toBe(30 + 40 + 10);
+  });
+
+  it("ignores AI flags after an admin manual pass", () => {
+    const r = scoreListingQuality(listing(), ctx({ aiReview: { flagged: false, isResidential: false, confidence: 1 } }));
+    expect(r.riskScore).toBe(0);
+  });
+
+  it("takes completeness points off the quality score", () => {
+    const r = scoreListingQuality(
+      listing({ priceMonthlyUsd: null, sizeSqm: null, imageUrlsJson: '["https://a/1.jpg"]', description: "Nice room" }),
+      ctx(),
+    );
+    expect(r.qualityScore).toBe(100 - 25 - 10 - 10 - 15);
+    expect(r.riskLevel).toBe("LOW");
+  });
+});
+
+describe("redFlagPhrases", () => {
+  it("finds advance-fee wording", () => {
+    expect(redFlagPhrases("Please send the deposit via Western Union to reserve the room")).toEqual([
+      "money transfer service",
+      "deposit to reserve",
+    ]);
+    expect(redFlagPhrases("Deposit of one month, payable on signing after viewing")).toEqual([]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  countReusedImageUnits                                               */
+/* ------------------------------------------------------------------ */
+
+describe("countReusedImageUnits", () => {
+  it("counts other units sharing a photo, not cluster duplicates", () => {
+    const reused = countReusedImageUnits([
+      { id: "a", clusterId: "c1", imageHashes: ["aaaa000011112222"] },
+      { id: "b", clusterId: "c1", imageHashes: ["aaaa000011112222"] },
+      { id: "c", clusterId: null, imageHashes: ["aaaa000011112222", "0000000000000000"] },
+      { id: "d", clusterId: null, imageHashes: ["0000000000000000"] },
+    ]);
+    expect(Object.fromEntries(reused)).toEqual({ a: 1, b: 1, c: 1, d: 0 });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildMarketReport,
+  listMarketDistricts,
+  marketJsonLd,
+  marketPath,
+  marketSlug,
+  marketSummary,
+  shiftMonth,
+  type MonthlyIndexRow,
+} from "../lib/rentals/marketReport";
+
+function row(yearMonth: string, bedrooms: number | null, median: number, listingCount: number, extra: Partial<MonthlyIndexRow> = {}): MonthlyIndexRow {
+  return {
+    yearMonth,
+    city: "Phnom Penh",
+    district: "BKK1",
+    bedrooms,
+    propertyType: "APARTMENT",
+    listingCount,
+    medianRent: median,
+    meanRent: median,
+    p25Rent: median * 0.8,
+    p75Rent: median * 1.2,
+    ...extra,
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Slugs & districts                                                   */
+/* ------------------------------------------------------------------ */
+
+describe("market slugs", () => {
+  it("builds lowercase, hyphenated, accent-free slugs", () => {
+    expect(marketSlug("Toul Tompong 1")).toBe("toul-tompong-1");
+    expect(marketSlug("  Chbar Ampov ")).toBe("chbar-ampov");
+    expect(marketSlug("Siem Réap")).toBe("siem-reap");
+    expect(marketPath("Phnom Penh", "BKK1")).toBe("/rentals/market/phnom-penh/bkk1");
+  });
+
+  it("shifts months across year boundaries", () => {
+    expect(shiftMonth("2026-01", -1)).toBe("2025-12");
+    expect(shiftMonth("2026-10", -12)).toBe("2025-10");
+  });
+});
+
+describe("listMarketDistricts", () => {
+  it("counts each district's latest month and drops thin ones", () => {
+    const districts = listMarketDistricts(
+      [
+        row("2026-09", 1, 600, 40),
+        row("2026-10", 1, 600, 3),
+        row("2026-10", 2, 900, 4),
+        row("2026-10", 1, 400, 2, { district: "Sen Sok" }),
+        row("2026-10", 1, 400, 9, { district: null }),
+      ],
+      5,
+    );
+    expect(districts).toHaveLength(1);
+    expect(districts[0]).toMatchObject({ district: "BKK1", latestMonth: "2026-10", listingCount: 7, districtSlug: "bkk1" });
+  });
+
+  it("keeps the busier district when two names share a slug", () => {
+    const districts = listMarketDistricts(
+      [row("2026-10", 1, 600, 10), row("2026-10", 1, 600, 30, { district: "bkk 1" })],
+      5,
+    );
+    expect(districts.map((d) => d.district)).toEqual(["bkk 1", "BKK1"]);
+
+    const same = listMarketDistricts(
+      [row("2026-10", 1, 600, 10), row("2026-10", 1, 600, 30, { district: "Bkk1" })],
+      5,
+    );
+    expect(same.map((d) => d.district)).toEqual(["Bkk1"]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Report                                                              */
+/* ------------------------------------------------------------------ */
+
+describe("buildMarketReport", () => {
+  const rows = [
+    row("2025-10", 1, 500, 12),
+    row("2025-10", 2, 800, 8),
+    row("2026-09", 1, 550, 12),
+    row("2026-09", 2, 850, 8),
+    row("2026-10", 0, 350, 2),
+    row("2026-10", 1, 600, 12),
+    row("2026-10", 2, 900, 8),
+    row("2026-10", 5, 2000, 1),
+    row("2026-10", 4, 1500, 1, { propertyType: "CONDO" }),
+  ];
+
+  it("returns null without rows", () => {
+    expect(buildMarketReport([])).toBeNull();
+  });
+
+  it("breaks the latest month down by bedroom band", () => {
+    const report = buildMarketReport(rows)!;
+    expect(report.latestMonth).toBe("2026-10");
+    expect(report.listingCount).toBe(24);
+    expect(report.byBedroom.map((b) => [b.label, b.medianRent, b.listingCount])).toEqual([
+      ["Studio", 350, 2],
+      ["1 bedroom", 600, 12],
+      ["2 bedrooms", 900, 8],
+      ["4+ bedrooms", 2000, 2],
+    ]);
+  });
+
+  it("compares with the previous month and a year earlier", () => {
+    const report = buildMarketReport(rows)!;
+    // 24 listings now vs 20 in September; medians weighted by listing count
+    expect(report.supplyChange).toBe(20);
+    expect(report.medianRent).toBe(600);
+    expect(report.changeMonth).toBe(pct(600, 550));
+    expect(report.changeYear).toBe(pct(600, 500));
+  });
+
+  it("charts only the trend window", () => {
+    const report = buildMarketReport(rows, 12)!;
+    expect(report.firstMonth).toBe("2026-09");
+    expect(report.trend.map((p) => p.month)).toEqual(["2026-09", "2026-10"]);
+    expect(report.trend[1].listingCount).toBe(24);
+  });
+
+  it("writes a summary and a Dataset JSON-LD", () => {
+    const report = buildMarketReport(rows)!;
+    const summary = marketSummary("Phnom Penh", "BKK1", report);
+    expect(summary).toContain("The median asking rent in BKK1, Phnom Penh was $600 a month in October 2026, across 24 listings.");
+    expect(summary).toContain("One-bedroom homes had a median of $600 and two-bedroom homes $900.");
+    expect(summary).toContain("up 9.1% on the month before and up 20.0% on a year earlier");
+
+    const ld = marketJsonLd("Phnom Penh", "BKK1", report, {
+      url: "https://example.com/rentals/market/phnom-penh/bkk1",
+      siteName: "Example",
+      siteUrl: "https://example.com",
+    });
+    expect(ld["@type"]).toBe("Dataset");
+    expect(ld.temporalCoverage).toBe("2026-09/2026-10");
+    expect(ld.variableMeasured).toContainEqual({
+      "@type": "PropertyValue",
+      name: "Median monthly rent, 1 bedroom",
+      value: 600,
+      unitText: "USD",
+    });
+  });
+});
+
+function pct(now: number, then: number): number {
+  return Math.round(((now - then) / then) * 1000) / 10;
+}
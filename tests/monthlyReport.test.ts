@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { inflateSync } from "zlib";
+import { createPdfDocument, fitText, textWidth, wrapText } from "../lib/analytics/pdf";
+import {
+  buildMonthlyReport,
+  lifecycleAsOf,
+  previousMonth,
+  renderReportEmail,
+  renderReportHtml,
+  reportSummary,
+  reportWindow,
+  trendGeometry,
+} from "../lib/analytics/monthlyReport";
+import { renderReportPdf } from "../lib/analytics/monthlyReportPdf";
+import type { IndexRow } from "../lib/analytics/calculateStats";
+import type { LifecycleListing } from "../lib/analytics/listingLifecycle";
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Daily rows from April to mid-October 2026: BKK1 rises $2 a day from
+ * $1000, Toul Kork falls $1 a day from $600.
+ */
+function indexRows(): IndexRow[] {
+  const rows: IndexRow[] = [];
+  const start = Date.UTC(2026, 3, 1);
+  for (let day = 0; day < 200; day++) {
+    const date = new Date(start + day * DAY_MS);
+    for (const [district, price] of [
+      ["BKK1", 1000 + day * 2],
+      ["Toul Kork", 600 - day],
+    ] as const) {
+      rows.push({
+        date,
+        city: "Phnom Penh",
+        district,
+        bedrooms: 1,
+        propertyType: "CONDO",
+        listingCount: 20,
+        medianPriceUsd: price,
+        meanPriceUsd: price,
+        p25PriceUsd: price - 100,
+        p75PriceUsd: price + 100,
+      });
+    }
+  }
+  return rows;
+}
+
+const listing = (firstSeen: string, lastSeen: string, isActive: boolean, priceDropPct: number | null = null): LifecycleListing => ({
+  district: "BKK1",
+  firstSeenAt: new Date(firstSeen),
+  lastSeenAt: new Date(lastSeen),
+  isActive,
+  priceDropPct,
+});
+
+/** Split a PDF into its objects and decompressed content streams */
+function parsePdf(buf: Buffer) {
+  const text = buf.toString("latin1");
+  const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+  const offsets = [...text.slice(startxref).matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+  const streams: string[] = [];
+  let at = 0;
+  for (;;) {
+    const start = text.indexOf("stream\n", at);
+    if (start < 0) break;
+    const end = text.indexOf("\nendstream", start);
+    streams.push(inflateSync(buf.subarray(start + 7, end)).toString("latin1"));
+    at = end + 10;
+  }
+  return { text, startxref, offsets, streams };
+}
+
+/* ------------------------------------------------------------------ */
+/*  PDF writer                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("pdf writer", () => {
+  it("writes a valid cross-reference table", () => {
+    const doc = createPdfDocument({ title: "Rents – September" });
+    doc.addPage().text("Hello", 50, 50, { size: 12 });
+    doc.addPage().rect(10, 10, 100, 20, { fill: "#0f766e" });
+    const { text, startxref, offsets, streams } = parsePdf(doc.toBuffer());
+
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+    expect(text.slice(startxref, startxref + 4)).toBe("xref");
+    offsets.forEach((offset, i) => expect(text.startsWith(`${i + 1} 0 obj\n`, offset)).toBe(true));
+    expect(offsets).toHaveLength(9);
+    expect(text).toContain("/Count 2");
+    expect(streams).toHaveLength(2);
+    expect(streams[1]).toContain("re f");
+  });
+
+  it("flips coordinates and encodes text in WinAnsi", () => {
+    const doc = createPdfDocument({ title: "t", width: 200, height: 100 });
+    doc.addPage().text("BKK1 (±) – 5m² \\ 文", 10, 30, { size: 10, bold: true });
+    const [stream] = parsePdf(doc.toBuffer()).streams;
+    expect(stream).toContain("/F2 10 Tf 10 70 Td");
+    // Parens and backslash escaped, en dash and superscript two as WinAnsi bytes, CJK unsupported
+    expect(stream).toContain("(BKK1 \\(\\261\\) \\226 5m\\262 \\\\ ?) Tj");
+  });
+
+  it("measures, shortens and wraps text with the font metrics", () => {
+    expect(textWidth("Hello", 10)).toBeCloseTo(22.78, 2);
+    expect(textWidth("Hello", 10, true)).toBeGreaterThan(textWidth("Hello", 10));
+    const fitted = fitText("Chamkarmon and Boeung Keng Kang", 60, 10);
+    expect(fitted.endsWith("…")).toBe(true);
+    expect(textWidth(fitted, 10)).toBeLessThanOrEqual(60);
+    expect(wrapText("one two three four", textWidth("three four", 10), 10)).toEqual(["one two", "three four"]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Building                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("buildMonthlyReport", () => {
+  const report = buildMonthlyReport("Phnom Penh", "2026-09", indexRows(), [
+    listing("2026-08-01", "2026-10-10", true, 10),
+    listing("2026-09-01", "2026-09-20", false),
+    listing("2026-10-05", "2026-10-10", true),
+  ])!;
+
+  it("covers the trend window up to the end of the month", () => {
+    const { from, to } = reportWindow("2026-09");
+    expect(to.toISOString()).toBe("2026-10-01T00:00:00.000Z");
+    expect(report.asOf).toBe("2026-09-30");
+    expect(report.trend[0].date >= from.toISOString().slice(0, 10)).toBe(true);
+    expect(report.trend[report.trend.length - 1].date).toBe("2026-09-30");
+    expect(report.summary.totalListings).toBe(40);
+  });
+
+  it("splits movers into rising and falling and ranks volatility", () => {
+    expect(report.rising.map((m) => m.district)).toEqual(["BKK1"]);
+    expect(report.falling.map((m) => m.district)).toEqual(["Toul Kork"]);
+    expect(report.rising[0].change1m).toBeGreaterThan(0);
+    expect(report.volatility[0].district).toBe("BKK1");
+  });
+
+  it("judges listings as they stood at the end of the month", () => {
+    // The October listing wasn't up yet; the one seen in October was still live
+    expect(report.lifecycle.activeCount).toBe(1);
+    expect(report.lifecycle.delistedCount).toBe(1);
+    expect(report.lifecycle.medianDaysOnMarket).toBe(61);
+    expect(lifecycleAsOf([listing("2026-09-01", "2026-09-20", false)], new Date("2026-09-10"))[0].isActive).toBe(true);
+  });
+
+  it("is null for months without index data", () => {
+    expect(buildMonthlyReport("Phnom Penh", "2027-01", indexRows(), [])).toBeNull();
+    expect(buildMonthlyReport("Kampot", "2026-09", indexRows(), [])).toBeNull();
+    expect(previousMonth(new Date("2026-01-15T00:00:00Z"))).toBe("2025-12");
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Rendering                                                           */
+/* ------------------------------------------------------------------ */
+
+describe("report rendering", () => {
+  const report = buildMonthlyReport("Phnom Penh", "2026-09", indexRows(), [])!;
+
+  it("lays the trend out inside the chart with a tick per month", () => {
+    const g = trendGeometry(report.trend, 400, 200)!;
+    const points = [...g.band, ...g.median.flat(), ...g.ma90];
+    expect(points.every(([x, y]) => x >= 0 && x <= 400 && y >= 0 && y <= 200)).toBe(true);
+    expect(g.median).toHaveLength(1);
+    expect(g.xTicks.map((t) => t.label)).toEqual(["May", "Jun", "Jul", "Aug", "Sep"]);
+    expect(trendGeometry(report.trend.slice(0, 1), 400, 200)).toBeNull();
+  });
+
+  it("renders a standalone HTML page and a two-page PDF", () => {
+    const html = renderReportHtml(report, { siteName: "GlobeScraper", pdfUrl: "https://example.com/r.pdf" });
+    expect(html).toContain("<title>Phnom Penh Rental Market Report — September 2026</title>");
+    for (const section of ["District movers", "Most volatile districts", "Time on market", "<svg"]) {
+      expect(html).toContain(section);
+    }
+    expect(html).toContain(reportSummary(report));
+    expect(html).not.toMatch(/<(link|script)\b/);
+
+    const { text, streams } = parsePdf(renderReportPdf(report, { siteName: "GlobeScraper" }));
+    expect(text).toContain("/Count 2");
+    expect(streams[0]).toContain("(District movers) Tj");
+    expect(streams[1]).toContain("(Most volatile districts) Tj");
+  });
+
+  it("announces the report in a campaign email with the unsubscribe placeholder", () => {
+    const email = renderReportEmail(report, {
+      pdfUrl: "https://example.com/r.pdf",
+      siteUrl: "https://example.com",
+      preferencesUrl: "https://example.com/dashboard",
+    });
+    expect(email.subject).toBe("Phnom Penh rents in September 2026: our monthly market report");
+    expect(email.html).toContain("https://example.com/r.pdf");
+    expect(email.html).toContain("{{unsubscribe_link}}");
+    expect(email.text).toContain("Toul Kork");
+  });
+});
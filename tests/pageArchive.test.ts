@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  archivePage,
+  findArchivedPageNear,
+  isPageHash,
+  latestArchivedPage,
+  listArchivedPages,
+  readArchivedHtml,
+  takeArchivedPage,
+} from "../lib/rentals/pageArchive";
+
+const URL_A = "https://www.portal.example/listing/123";
+const T0 = new Date(Date.UTC(2026, 0, 1, 12));
+const minutes = (n: number) => new Date(T0.getTime() + n * 60_000);
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "page-archive-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Storage                                                             */
+/* ------------------------------------------------------------------ */
+
+describe("archivePage / readArchivedHtml", () => {
+  it("round-trips a page through the gzipped blob store", async () => {
+    const html = "<html><body>$650 / month · ស្វាគមន៍</body></html>";
+    const entry = await archivePage(URL_A, html, "http", dir, T0);
+
+    expect(isPageHash(entry.hash)).toBe(true);
+    expect(entry).toMatchObject({ url: URL_A, fetchedAt: T0.toISOString(), via: "http", bytes: Buffer.byteLength(html) });
+    expect(await readArchivedHtml(entry.hash, dir)).toBe(html);
+  });
+
+  it("stores identical bodies once but logs every fetch", async () => {
+    await archivePage(URL_A, "<p>same</p>", "http", dir, T0);
+    await archivePage(URL_A, "<p>same</p>", "playwright", dir, minutes(60));
+
+    const shard = readdirSync(path.join(dir, "blobs"));
+    expect(shard).toHaveLength(1);
+    expect(readdirSync(path.join(dir, "blobs", shard[0]))).toHaveLength(1);
+    expect((await listArchivedPages(URL_A, dir)).map((p) => p.via)).toEqual(["http", "playwright"]);
+  });
+
+  it("returns null for unknown or malformed hashes", async () => {
+    expect(await readArchivedHtml("0".repeat(64), dir)).toBeNull();
+    expect(await readArchivedHtml("../../etc/passwd", dir)).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Lookup                                                              */
+/* ------------------------------------------------------------------ */
+
+describe("latestArchivedPage / findArchivedPageNear", () => {
+  it("finds the newest fetch and the one nearest a snapshot time", async () => {
+    const first = await archivePage(URL_A, "<p>v1</p>", "http", dir, T0);
+    const second = await archivePage(URL_A, "<p>v2</p>", "http", dir, minutes(120));
+
+    expect((await latestArchivedPage(URL_A, dir))?.hash).toBe(second.hash);
+    expect((await findArchivedPageNear(URL_A, minutes(5), 30 * 60_000, dir))?.hash).toBe(first.hash);
+    expect(await findArchivedPageNear(URL_A, minutes(60), 30 * 60_000, dir)).toBeNull();
+    expect(await latestArchivedPage("https://www.portal.example/other", dir)).toBeNull();
+  });
+
+  it("hands the last archived page for a URL to the job once", async () => {
+    const entry = await archivePage(URL_A, "<p>x</p>", "http", dir, T0);
+    expect(takeArchivedPage(URL_A)).toEqual(entry);
+    expect(takeArchivedPage(URL_A)).toBeNull();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  computePriceEvents,
+  summarizePriceHistory,
+  daysOnMarket,
+  type PriceSnapshot,
+} from "../lib/rentals/priceHistory";
+
+function snaps(...entries: [string, number | null][]): PriceSnapshot[] {
+  return entries.map(([date, price]) => ({
+    scrapedAt: new Date(`${date}T00:00:00Z`),
+    priceMonthlyUsd: price,
+  }));
+}
+
+/* ------------------------------------------------------------------ */
+/*  computePriceEvents                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("computePriceEvents", () => {
+  it("emits drops and rises with signed % change", () => {
+    const events = computePriceEvents(
+      snaps(["2026-01-01", 800], ["2026-01-05", 800], ["2026-01-08", 700], ["2026-01-12", 750]),
+    );
+    expect(events.map((e) => [e.type, e.priceUsd, e.changePct])).toEqual([
+      ["drop", 700, -12.5],
+      ["rise", 750, 7.1],
+    ]);
+  });
+
+  it("ignores sub-1% noise and missing prices", () => {
+    const events = computePriceEvents(
+      snaps(["2026-01-01", 500], ["2026-01-03", null], ["2026-01-05", 502]),
+    );
+    expect(events).toEqual([]);
+  });
+
+  it("treats a long gap as delisted then relisted", () => {
+    const events = computePriceEvents(snaps(["2026-01-01", 600], ["2026-02-15", 550]));
+    expect(events.map((e) => e.type)).toEqual(["delisted", "relisted"]);
+    expect(events[1].changePct).toBe(-8.3);
+  });
+
+  it("adds a trailing delisted event for inactive listings", () => {
+    const events = computePriceEvents(snaps(["2026-01-01", 600], ["2026-01-04", 600]), {
+      isActive: false,
+      lastSeenAt: new Date("2026-01-04T00:00:00Z"),
+    });
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: "delisted", priceUsd: 600 });
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  summarizePriceHistory                                               */
+/* ------------------------------------------------------------------ */
+
+describe("summarizePriceHistory", () => {
+  it("reports the discount from peak after a cut", () => {
+    const summary = summarizePriceHistory(
+      snaps(["2026-01-01", 900], ["2026-01-05", 1000], ["2026-01-09", 850]),
+    );
+    expect(summary).toMatchObject({
+      initialPriceUsd: 900,
+      peakPriceUsd: 1000,
+      currentPriceUsd: 850,
+      priceDropPct: 15,
+    });
+    expect(summary.lastPriceDropAt?.toISOString()).toBe("2026-01-09T00:00:00.000Z");
+  });
+
+  it("clears the reduction once the price goes back up", () => {
+    const summary = summarizePriceHistory(
+      snaps(["2026-01-01", 1000], ["2026-01-05", 800], ["2026-01-09", 900]),
+    );
+    expect(summary.priceDropPct).toBeNull();
+    expect(summary.lastPriceDropAt).toBeNull();
+  });
+
+  it("resets the peak on relist", () => {
+    const summary = summarizePriceHistory(snaps(["2026-01-01", 1000], ["2026-03-01", 800]));
+    expect(summary.peakPriceUsd).toBe(800);
+    expect(summary.priceDropPct).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  daysOnMarket                                                        */
+/* ------------------------------------------------------------------ */
+
+describe("daysOnMarket", () => {
+  const firstSeen = new Date("2026-01-01T00:00:00Z");
+
+  it("counts to now for active listings", () => {
+    expect(
+      daysOnMarket(firstSeen, { isActive: true, lastSeenAt: firstSeen }, new Date("2026-01-11T12:00:00Z")),
+    ).toBe(10);
+  });
+
+  it("stops at lastSeenAt for inactive listings", () => {
+    expect(
+      daysOnMarket(firstSeen, { isActive: false, lastSeenAt: new Date("2026-01-04T00:00:00Z") }, new Date("2026-02-01")),
+    ).toBe(3);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import {
+  afterCursor,
+  decodeCursor,
+  encodeCursor,
+  generateApiKey,
+  hashApiKey,
+  pageOf,
+  parseLimit,
+  readApiKey,
+  summariseDistricts,
+  toApiListing,
+} from "../lib/rentals/publicApi";
+import { buildOpenApiSpec } from "../lib/rentals/openapi";
+
+/* ------------------------------------------------------------------ */
+/*  API keys                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("API keys", () => {
+  it("stores only a hash and a display prefix", () => {
+    const { key, keyPrefix, keyHash } = generateApiKey();
+    expect(key).toMatch(/^gsr_[A-Za-z0-9_-]{32}$/);
+    expect(key.startsWith(keyPrefix)).toBe(true);
+    expect(keyHash).toBe(hashApiKey(key));
+    expect(keyHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(generateApiKey().key).not.toBe(key);
+  });
+
+  it("reads the key from a bearer token or X-Api-Key", () => {
+    expect(readApiKey(new Headers({ authorization: "Bearer gsr_abc" }))).toBe("gsr_abc");
+    expect(readApiKey(new Headers({ "x-api-key": "gsr_def" }))).toBe("gsr_def");
+    expect(readApiKey(new Headers({ authorization: "Basic dXNlcjpwYXNz" }))).toBeNull();
+    expect(readApiKey(new Headers())).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Pagination                                                          */
+/* ------------------------------------------------------------------ */
+
+describe("cursor pagination", () => {
+  it("round-trips cursors and rejects tampered ones", () => {
+    const c = { s: "newest", v: "2026-03-01T00:00:00.000Z", id: "abc" };
+    expect(decodeCursor(encodeCursor(c), "newest", "date")).toEqual(c);
+    expect(decodeCursor("not-a-cursor", "newest", "date")).toBeNull();
+    expect(decodeCursor(Buffer.from('{"id":1}').toString("base64url"), "newest", "date")).toBeNull();
+    expect(decodeCursor(null, "newest", "date")).toBeNull();
+  });
+
+  it("rejects a cursor from another sort or with a value of the wrong type", () => {
+    expect(decodeCursor(encodeCursor({ s: "newest", v: "2026-03-01T00:00:00.000Z", id: "a" }), "price_asc", "number")).toBeNull();
+    expect(decodeCursor(encodeCursor({ s: "newest", v: "x", id: "a" }), "newest", "date")).toBeNull();
+    expect(decodeCursor(encodeCursor({ s: "newest", v: 500, id: "a" }), "newest", "date")).toBeNull();
+    expect(decodeCursor(encodeCursor({ s: "price_asc", v: "500", id: "a" }), "price_asc", "number")).toBeNull();
+    expect(decodeCursor(encodeCursor({ s: "month", v: "2026-13", id: "a" }), "month", "month")).toBeNull();
+    expect(decodeCursor(encodeCursor({ s: "month", v: "2026-09", id: "a" }), "month", "month")?.v).toBe("2026-09");
+  });
+
+  it("clamps the page size", () => {
+    expect(parseLimit(null)).toBe(50);
+    expect(parseLimit("0")).toBe(1);
+    expect(parseLimit("1000")).toBe(200);
+    expect(parseLimit("abc")).toBe(50);
+  });
+
+  it("builds a keyset condition that breaks ties by id", () => {
+    expect(afterCursor("priceMonthlyUsd", "asc", { s: "price_asc", v: 500, id: "x" })).toEqual({
+      OR: [{ priceMonthlyUsd: { gt: 500 } }, { priceMonthlyUsd: 500, id: { gt: "x" } }],
+    });
+  });
+
+  it("returns a next cursor only when there is another page", () => {
+    const rows = [{ id: "a", n: 1 }, { id: "b", n: 2 }, { id: "c", n: 3 }];
+    const first = pageOf(rows, 2, "price_asc", (r) => r.n);
+    expect(first.data.map((r) => r.id)).toEqual(["a", "b"]);
+    expect(decodeCursor(first.nextCursor, "price_asc", "number")).toEqual({ s: "price_asc", v: 2, id: "b" });
+    expect(pageOf(rows, 3, "price_asc", (r) => r.n).nextCursor).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Response shapes                                                     */
+/* ------------------------------------------------------------------ */
+
+describe("toApiListing", () => {
+  it("exposes public fields with absolute photo URLs", () => {
+    const listing = toApiListing(
+      {
+        id: "l1",
+        title: "2BR condo",
+        titleRewritten: "Bright 2-Bed Condo in BKK1",
+        city: "Phnom Penh",
+        district: "BKK1",
+        propertyType: "CONDO",
+        bedrooms: 2,
+        bathrooms: 2,
+        sizeSqm: 80,
+        priceMonthlyUsd: 850,
+        priceDropPct: null,
+        latitude: 11.55,
+        longitude: null,
+        amenitiesJson: '["Gym","Pool"]',
+        imageUrlsJson: '["https://x/1.jpg"]',
+        hostedImagesJson: JSON.stringify([{ src: "https://x/1.jpg", id: "i1", base: "/api/rentals/images/ab/1", widths: [320, 640] }]),
+        firstSeenAt: new Date("2026-03-01T00:00:00Z"),
+        lastSeenAt: new Date("2026-03-02T00:00:00Z"),
+      },
+      "https://globescraper.com",
+    );
+    expect(listing).toMatchObject({
+      title: "Bright 2-Bed Condo in BKK1",
+      url: "https://globescraper.com/rentals/l1",
+      location: null,
+      amenities: ["Gym", "Pool"],
+      photos: ["https://globescraper.com/api/rentals/images/ab/1/640.jpg"],
+    });
+  });
+});
+
+describe("summariseDistricts", () => {
+  it("counts listings and takes rent quartiles per district", () => {
+    const rows = [400, 500, 600, 700, 800].map((p) => ({ city: "Phnom Penh", district: "BKK1", priceMonthlyUsd: p }));
+    rows.push({ city: "Phnom Penh", district: "Daun Penh", priceMonthlyUsd: 300 });
+    rows.push({ city: "Phnom Penh", district: null as unknown as string, priceMonthlyUsd: 999 });
+    expect(summariseDistricts(rows)).toEqual([
+      { city: "Phnom Penh", district: "BKK1", activeListings: 5, medianPriceUsd: 600, p25PriceUsd: 500, p75PriceUsd: 700 },
+      { city: "Phnom Penh", district: "Daun Penh", activeListings: 1, medianPriceUsd: 300, p25PriceUsd: 300, p75PriceUsd: 300 },
+    ]);
+  });
+});
+
+describe("buildOpenApiSpec", () => {
+  it("describes every endpoint with its components resolvable", () => {
+    const spec = buildOpenApiSpec({ serverUrl: "https://globescraper.com", propertyTypes: ["CONDO", "HOUSE"] });
+    const paths = spec.paths as Record<string, unknown>;
+    expect(Object.keys(paths)).toEqual(["/listings", "/districts", "/index/daily", "/index/monthly"]);
+
+    const json = JSON.stringify(spec);
+    const components = spec.components as Record<string, Record<string, unknown>>;
+    for (const [, kind, name] of json.matchAll(/"#\/components\/(\w+)\/(\w+)"/g)) {
+      expect(components[kind]?.[name], `${kind}/${name}`).toBeDefined();
+    }
+  });
+});
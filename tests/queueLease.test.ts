@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { failureStatus, isLeaseExpired, leaseUntil, newLeaseOwner } from "../lib/rentals/queueLease";
+import { QUEUE_LEASE_MS, QUEUE_MAX_ATTEMPTS } from "../lib/rentals/config";
+
+const NOW = new Date("2026-05-01T12:00:00Z");
+const ago = (ms: number) => new Date(NOW.getTime() - ms);
+
+/* ------------------------------------------------------------------ */
+/*  Lease expiry                                                        */
+/* ------------------------------------------------------------------ */
+
+describe("isLeaseExpired", () => {
+  it("only applies to PROCESSING items", () => {
+    expect(isLeaseExpired({ status: "RETRY", leaseExpiresAt: ago(1000), updatedAt: ago(QUEUE_LEASE_MS * 2) }, NOW)).toBe(false);
+  });
+
+  it("compares the lease expiry with now", () => {
+    expect(isLeaseExpired({ status: "PROCESSING", leaseExpiresAt: ago(1), updatedAt: ago(1) }, NOW)).toBe(true);
+    expect(isLeaseExpired({ status: "PROCESSING", leaseExpiresAt: leaseUntil(NOW), updatedAt: NOW }, NOW)).toBe(false);
+  });
+
+  it("expires rows claimed before leases existed once they've sat for a lease", () => {
+    expect(isLeaseExpired({ status: "PROCESSING", leaseExpiresAt: null, updatedAt: ago(QUEUE_LEASE_MS + 1) }, NOW)).toBe(true);
+    expect(isLeaseExpired({ status: "PROCESSING", leaseExpiresAt: null, updatedAt: ago(60_000) }, NOW)).toBe(false);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Dead-lettering                                                      */
+/* ------------------------------------------------------------------ */
+
+describe("failureStatus", () => {
+  it("retries until the attempt budget is spent, then parks the item", () => {
+    expect(failureStatus(1)).toBe("RETRY");
+    expect(failureStatus(QUEUE_MAX_ATTEMPTS - 1)).toBe("RETRY");
+    expect(failureStatus(QUEUE_MAX_ATTEMPTS)).toBe("DEAD");
+    expect(failureStatus(5, 10)).toBe("RETRY");
+  });
+
+  it("gives each run its own lease owner", () => {
+    expect(newLeaseOwner()).not.toBe(newLeaseOwner());
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  ALL_SOURCES,
+  getSourceAdapter,
+  isSourceEnabled,
+} from "../lib/rentals/sources/registry";
+import {
+  goldenPath,
+  readFixture,
+  readManifest,
+} from "./fixtures/rentals/manifest";
+
+/**
+ * Offline parser regression suite.
+ *
+ * Every enabled source has recorded pages under tests/fixtures/rentals/<source>/.
+ * Parser output is compared against the `.expected.json` goldens, so a selector
+ * change shows up as a reviewable diff instead of a silent data regression.
+ *
+ * After re-recording (scripts/rentals_record_fixtures.ts) or an intentional
+ * parser change, refresh the goldens with:
+ *   npx vitest run tests/rentalSourceParsers.test.ts -u
+ */
+
+function toGolden(value: unknown): string {
+  return JSON.stringify(value, null, 2) + "\n";
+}
+
+/* ------------------------------------------------------------------ */
+/*  Coverage                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("rental source fixtures", () => {
+  it.each(ALL_SOURCES.filter(isSourceEnabled))(
+    "%s has recorded fixtures",
+    (source) => {
+      const manifest = readManifest(source);
+      expect(manifest).not.toBeNull();
+      expect(manifest!.source).toBe(source);
+      expect(manifest!.listings.length).toBeGreaterThan(0);
+    }
+  );
+});
+
+/* ------------------------------------------------------------------ */
+/*  Per-source parsers                                                  */
+/* ------------------------------------------------------------------ */
+
+for (const source of ALL_SOURCES) {
+  const manifest = readManifest(source);
+  if (!manifest) continue;
+
+  describe(`${source} parsers`, () => {
+    const adapter = getSourceAdapter(source);
+
+    // Relative "posted 2d ago" dates resolve against the recording time
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      vi.setSystemTime(new Date(manifest.recordedAt));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("extracts listing URLs from the category page", async () => {
+      const body = readFixture(source, manifest.category);
+      const urls = adapter.parseCategoryPage(body);
+
+      expect(urls.length).toBeGreaterThan(0);
+      expect(new Set(urls.map((u) => u.url)).size).toBe(urls.length);
+      await expect(toGolden(urls)).toMatchFileSnapshot(
+        goldenPath(source, manifest.category)
+      );
+    });
+
+    it.each(manifest.listings)("parses $file", async (page) => {
+      const html = readFixture(source, page);
+      const listing = adapter.parseListing(html, page.url);
+
+      await expect(toGolden(listing)).toMatchFileSnapshot(
+        goldenPath(source, page)
+      );
+    });
+  });
+}
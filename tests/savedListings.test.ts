@@ -0,0 +1,20 @@
+import { describe, it, expect } from "vitest";
+import { savedListingStatus } from "../lib/rentals/savedListings";
+
+/* ------------------------------------------------------------------ */
+/*  savedListingStatus                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("savedListingStatus", () => {
+  it("flags price moves since saving and inactive listings", () => {
+    expect(savedListingStatus(800, { isActive: true, priceMonthlyUsd: 700 })).toEqual({
+      inactive: false,
+      priceChange: { fromUsd: 800, toUsd: 700, changePct: -12.5 },
+    });
+    expect(savedListingStatus(800, { isActive: false, priceMonthlyUsd: 804 })).toEqual({
+      inactive: true,
+      priceChange: null,
+    });
+    expect(savedListingStatus(null, { isActive: true, priceMonthlyUsd: 700 }).priceChange).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeSearchParams,
+  parseSavedParams,
+  savedSearchHref,
+  describeSearch,
+} from "../lib/rentals/savedSearch";
+
+/* ------------------------------------------------------------------ */
+/*  normalizeSearchParams                                               */
+/* ------------------------------------------------------------------ */
+
+describe("normalizeSearchParams", () => {
+  it("keeps filter keys and drops page, sort and unknown keys", () => {
+    expect(
+      normalizeSearchParams({
+        city: " Phnom Penh ",
+        bedsMin: "2",
+        maxPrice: "",
+        page: "3",
+        sort: "price_asc",
+        utm_source: "x",
+      }),
+    ).toEqual({ city: "Phnom Penh", bedsMin: "2" });
+  });
+
+  it("parses stored JSON and tolerates garbage", () => {
+    expect(parseSavedParams('{"district":"BKK1","page":"2"}')).toEqual({ district: "BKK1" });
+    expect(parseSavedParams("not json")).toEqual({});
+    expect(parseSavedParams("null")).toEqual({});
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  savedSearchHref / describeSearch                                    */
+/* ------------------------------------------------------------------ */
+
+describe("savedSearchHref", () => {
+  it("builds a /rentals link with extra params", () => {
+    expect(savedSearchHref({ city: "Phnom Penh" }, { sort: "newest" })).toBe(
+      "/rentals?city=Phnom+Penh&sort=newest",
+    );
+    expect(savedSearchHref({})).toBe("/rentals");
+  });
+});
+
+describe("describeSearch", () => {
+  it("names a search from its filters", () => {
+    expect(
+      describeSearch({ bedsMin: "2", propertyType: "CONDO", district: "BKK1", city: "Phnom Penh", maxPrice: "800" }),
+    ).toBe("2+ bed condo in BKK1, Phnom Penh under $800");
+    expect(describeSearch({ priceReduced: "1" })).toBe("Rental (price reduced)");
+  });
+});
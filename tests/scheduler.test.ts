@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { cronError, nextCronRun, parseCron } from "../lib/rentals/cron";
+import { nextInChain, retryDelayMs, shouldRetry, upstreamKinds } from "../lib/rentals/scheduler";
+import { SCHEDULER_RETRY_BASE_MS, SCHEDULER_RETRY_MAX_MS } from "../lib/rentals/config";
+
+const at = (iso: string) => new Date(iso);
+const next = (expr: string, after: string) => nextCronRun(expr, at(after))?.toISOString();
+
+/* ------------------------------------------------------------------ */
+/*  Cron parsing                                                        */
+/* ------------------------------------------------------------------ */
+
+describe("parseCron / cronError", () => {
+  it("expands lists, ranges and steps", () => {
+    const c = parseCron("0,30 8-18/2 * * 1-5");
+    expect([...c.minutes]).toEqual([0, 30]);
+    expect([...c.hours]).toEqual([8, 10, 12, 14, 16, 18]);
+    expect([...c.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(c.anyDayOfMonth).toBe(true);
+  });
+
+  it("treats 7 as Sunday and accepts macros", () => {
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+    expect(cronError("@daily")).toBeNull();
+  });
+
+  it("explains invalid expressions", () => {
+    expect(cronError("* * * *")).toMatch(/5 fields/);
+    expect(cronError("61 * * * *")).toMatch(/minute/);
+    expect(cronError("0 0 * * mon")).toMatch(/day of week/);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Next run                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("nextCronRun", () => {
+  it("finds the next matching minute strictly after the given time", () => {
+    expect(next("0 */6 * * *", "2026-03-10T06:00:00Z")).toBe("2026-03-10T12:00:00.000Z");
+    expect(next("15 1 * * *", "2026-03-10T01:15:30Z")).toBe("2026-03-11T01:15:00.000Z");
+  });
+
+  it("rolls over months and years", () => {
+    expect(next("0 0 1 * *", "2026-12-15T00:00:00Z")).toBe("2027-01-01T00:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 13th of the month or any Friday — 2026-03-13 is itself a Friday, 03-20 the next Friday
+    expect(next("0 9 13 * 5", "2026-03-13T10:00:00Z")).toBe("2026-03-20T09:00:00.000Z");
+  });
+
+  it("returns null for dates that never occur", () => {
+    expect(nextCronRun("0 0 31 2 *", at("2026-01-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Chaining + retries                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("scheduler policy", () => {
+  it("chains discover → process → index → stale", () => {
+    expect(nextInChain("DISCOVER")).toBe("PROCESS_QUEUE");
+    expect(nextInChain("PROCESS_QUEUE")).toBe("BUILD_INDEX");
+    expect(nextInChain("BUILD_INDEX")).toBe("MARK_STALE");
+    expect(nextInChain("MARK_STALE")).toBeNull();
+    expect(nextInChain("MARKET_REPORT")).toBeNull();
+  });
+
+  it("holds the index build until scraping is idle", () => {
+    expect(upstreamKinds("BUILD_INDEX")).toEqual(["DISCOVER", "PROCESS_QUEUE"]);
+    expect(upstreamKinds("DISCOVER")).toEqual([]);
+    expect(upstreamKinds("MARKET_REPORT")).toContain("BUILD_INDEX");
+  });
+
+  it("backs off exponentially up to the cap", () => {
+    expect(retryDelayMs(1)).toBe(SCHEDULER_RETRY_BASE_MS);
+    expect(retryDelayMs(3)).toBe(SCHEDULER_RETRY_BASE_MS * 4);
+    expect(retryDelayMs(20)).toBe(SCHEDULER_RETRY_MAX_MS);
+    expect(shouldRetry(2, 3)).toBe(true);
+    expect(shouldRetry(3, 3)).toBe(false);
+  });
+});
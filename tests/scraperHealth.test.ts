@@ -0,0 +1,135 @@
+import { describe, it, expect } from "vitest";
+import {
+  alertKey,
+  completeness,
+  detectFieldDrops,
+  fieldBaseline,
+  fieldDropAlerts,
+  newCompletenessTally,
+  parseCompleteness,
+  parseFailureAlerts,
+  parseFailureRate,
+  tallyListing,
+  tallyParseFailure,
+  zeroDiscoverAlert,
+  type FieldCompleteness,
+} from "../lib/rentals/scraperHealth";
+
+const full = {
+  priceMonthlyUsd: 650,
+  bedrooms: 2,
+  district: "BKK1",
+  latitude: 11.55,
+  longitude: 104.92,
+  imageUrls: ["https://img.example/1.jpg"],
+};
+
+function run(sample: number, shares: Partial<FieldCompleteness["shares"]> = {}): FieldCompleteness {
+  return {
+    sample,
+    shares: { price: 0.95, bedrooms: 0.9, district: 0.8, coordinates: 0.7, images: 1, ...shares },
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Tally                                                               */
+/* ------------------------------------------------------------------ */
+
+describe("completeness", () => {
+  it("reports the share of parsed listings with each field", () => {
+    const tally = newCompletenessTally();
+    tallyListing(tally, full);
+    tallyListing(tally, { ...full, district: null, latitude: null, imageUrls: [] });
+    tallyListing(tally, { ...full, priceMonthlyUsd: null, bedrooms: 0 });
+    tallyListing(tally, { ...full, bedrooms: null, longitude: null });
+
+    expect(completeness(tally)).toEqual({
+      sample: 4,
+      parseFailures: 0,
+      shares: { price: 0.75, bedrooms: 0.75, district: 0.75, coordinates: 0.5, images: 0.75 },
+    });
+  });
+
+  it("counts pages that didn't parse with every field missing", () => {
+    const tally = newCompletenessTally();
+    tallyListing(tally, full);
+    tallyParseFailure(tally);
+    tallyParseFailure(tally);
+    tallyParseFailure(tally);
+
+    const c = completeness(tally);
+    expect(c).toMatchObject({ sample: 4, parseFailures: 3, shares: { price: 0.25, images: 0.25 } });
+    expect(parseFailureRate(c)).toBe(0.75);
+    expect(parseFailureRate(run(40))).toBe(0);
+  });
+
+  it("round-trips through the JobRun column", () => {
+    const c = run(40);
+    expect(parseCompleteness(JSON.stringify(c))).toEqual(c);
+    expect(parseCompleteness(null)).toBeNull();
+    expect(parseCompleteness("{broken")).toBeNull();
+    expect(parseCompleteness('{"shares":{}}')).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Baseline + drift                                                    */
+/* ------------------------------------------------------------------ */
+
+describe("fieldBaseline", () => {
+  it("takes the per-field median, ignoring runs too small to count", () => {
+    const baseline = fieldBaseline([
+      run(50, { price: 0.9 }),
+      run(50, { price: 1 }),
+      run(3, { price: 0 }),
+      run(50, { price: 0.1 }),
+    ]);
+    expect(baseline?.runs).toBe(3);
+    expect(baseline?.shares.price).toBe(0.9);
+  });
+
+  it("has no baseline until enough runs have been recorded", () => {
+    expect(fieldBaseline([run(50), run(50)])).toBeNull();
+  });
+});
+
+describe("detectFieldDrops", () => {
+  const baseline = fieldBaseline([run(50), run(50), run(50)]);
+
+  it("flags fields that fell sharply below the baseline", () => {
+    const drops = detectFieldDrops(run(40, { district: 0.3, price: 0.8 }), baseline);
+    expect(drops).toEqual([{ field: "district", value: 0.3, baseline: 0.8 }]);
+  });
+
+  it("ignores small runs, missing baselines and rarely filled fields", () => {
+    expect(detectFieldDrops(run(5, { price: 0 }), baseline)).toEqual([]);
+    expect(detectFieldDrops(run(40, { price: 0 }), null)).toEqual([]);
+    const sparse = fieldBaseline([run(50, { coordinates: 0.1 }), run(50, { coordinates: 0.1 }), run(50, { coordinates: 0.1 })]);
+    expect(detectFieldDrops(run(40, { coordinates: 0 }), sparse)).toEqual([]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Alerts                                                              */
+/* ------------------------------------------------------------------ */
+
+describe("alerts", () => {
+  it("describes drops and dedupes by source, kind and field", () => {
+    const [alert] = fieldDropAlerts("REALESTATE_KH", [{ field: "images", value: 0.1, baseline: 0.95 }], 40);
+    expect(alert.message).toBe(
+      "Images found on 10% of 40 listings (normally 95%) — the listing parser may have drifted",
+    );
+    expect(alertKey(alert)).toBe("REALESTATE_KH|FIELD_DROP|images");
+    expect(alertKey(zeroDiscoverAlert("REALESTATE_KH"))).toBe("REALESTATE_KH|ZERO_DISCOVER|");
+  });
+
+  it("raises a parse failure alert when most pages didn't parse, baseline or not", () => {
+    const broken = { ...run(40, { price: 0, bedrooms: 0, district: 0, coordinates: 0, images: 0 }), parseFailures: 40 };
+    const [alert] = parseFailureAlerts("FAZWAZ", broken);
+    expect(alert).toMatchObject({ kind: "PARSE_FAILURE", field: null, value: 1 });
+    expect(alert.message).toBe("100% of 40 listing pages didn't parse — the listing parser may be broken");
+    // Some removed listings are normal, and small runs don't count
+    expect(parseFailureAlerts("FAZWAZ", { ...run(40), parseFailures: 8 })).toEqual([]);
+    expect(parseFailureAlerts("FAZWAZ", { ...run(5), parseFailures: 5 })).toEqual([]);
+  });
+});
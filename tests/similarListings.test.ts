@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  hashingVector,
+  cosineSimilarity,
+  embeddingContentHash,
+  listingEmbeddingText,
+} from "../lib/rentals/ml/embeddings";
+import { rankSimilarListings, type SimilarityCandidate } from "../lib/rentals/similar";
+
+/* ------------------------------------------------------------------ */
+/*  Hashing vectorizer                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("hashingVector", () => {
+  it("is unit length and deterministic", () => {
+    const v = hashingVector("Modern 2 bedroom condo with pool and gym in BKK1");
+    const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+    expect(norm).toBeCloseTo(1, 3);
+    expect(hashingVector("Modern 2 bedroom condo with pool and gym in BKK1")).toEqual(v);
+  });
+
+  it("scores related ads above unrelated ones", () => {
+    const a = hashingVector("Modern 2 bedroom condo, swimming pool, gym, balcony, river view");
+    const b = hashingVector("2 bedroom condo with swimming pool and gym, city view balcony");
+    const c = hashingVector("Shophouse for lease, ground floor commercial space, parking for trucks");
+    expect(cosineSimilarity(a, b)).toBeGreaterThan(cosineSimilarity(a, c) + 0.2);
+  });
+
+  it("keys the cache on provider and text", () => {
+    const text = listingEmbeddingText({
+      title: "Studio",
+      titleRewritten: null,
+      description: null,
+      descriptionRewritten: "Bright studio",
+      amenitiesJson: '["Gym","Pool"]',
+      propertyType: "SERVICED_APARTMENT",
+    });
+    expect(text).toBe("Studio\nSERVICED APARTMENT\nBright studio\nGym, Pool");
+    expect(embeddingContentHash("a", text)).not.toBe(embeddingContentHash("b", text));
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  rankSimilarListings                                                 */
+/* ------------------------------------------------------------------ */
+
+function listing(id: string, over: Partial<SimilarityCandidate> = {}): SimilarityCandidate {
+  return {
+    id,
+    clusterId: null,
+    district: "BKK1",
+    latitude: null,
+    longitude: null,
+    priceMonthlyUsd: 800,
+    bedrooms: 2,
+    vector: hashingVector("2 bedroom condo with pool and gym"),
+    ...over,
+  };
+}
+
+describe("rankSimilarListings", () => {
+  const target = listing("t");
+
+  it("applies price, bedroom, district and cluster constraints", () => {
+    const ranked = rankSimilarListings(target, [
+      listing("ok"),
+      listing("pricey", { priceMonthlyUsd: 1200 }),
+      listing("big", { bedrooms: 4 }),
+      listing("far", { district: "Toul Kork" }),
+      listing("t"),
+    ]);
+    expect(ranked.map((r) => r.id)).toEqual(["ok"]);
+
+    const clustered = rankSimilarListings({ ...target, clusterId: "c1" }, [listing("dupe", { clusterId: "c1" })]);
+    expect(clustered).toEqual([]);
+  });
+
+  it("allows other districts within the distance limit", () => {
+    const geoTarget = listing("t", { latitude: 11.55, longitude: 104.92 });
+    const ranked = rankSimilarListings(geoTarget, [
+      listing("near", { district: "Daun Penh", latitude: 11.56, longitude: 104.925 }),
+      listing("far", { district: "Sen Sok", latitude: 11.62, longitude: 104.88 }),
+    ]);
+    expect(ranked.map((r) => r.id)).toEqual(["near"]);
+  });
+
+  it("ranks by text similarity first", () => {
+    const ranked = rankSimilarListings(target, [
+      listing("other", { vector: hashingVector("villa garden garage quiet street") }),
+      listing("same"),
+      listing("close", { vector: hashingVector("2 bedroom condo with pool") }),
+    ]);
+    expect(ranked[0].id).toBe("same");
+    expect(ranked.map((r) => r.id)).not.toContain("other");
+  });
+});
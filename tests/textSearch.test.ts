@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSnippet,
+  editDistance,
+  extractBuildingNames,
+  normalizeText,
+  orderSearchHits,
+  parseQuery,
+  searchDocs,
+  stem,
+  suggest,
+  type SearchDoc,
+  type SearchHit,
+  type SortFields,
+} from "../lib/rentals/textSearch";
+
+function doc(id: string, overrides: Partial<SearchDoc> = {}): SearchDoc {
+  return {
+    id,
+    title: "Apartment for rent",
+    titleRewritten: null,
+    descriptionRewritten: null,
+    district: null,
+    amenitiesJson: null,
+    ...overrides,
+  };
+}
+
+function search(q: string, docs: SearchDoc[]): string[] {
+  return searchDocs(parseQuery(q)!, docs).map((h) => h.id);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Normalisation                                                       */
+/* ------------------------------------------------------------------ */
+
+describe("normalizeText / stem", () => {
+  it("folds case, accents, punctuation and Khmer digits", () => {
+    expect(normalizeText("  Café-Bar, 2BR!  ")).toBe("cafe bar 2br");
+    expect(normalizeText("បឹងកេងកង ១")).toBe("បឹងកេងកង 1");
+  });
+
+  it("reduces common English endings", () => {
+    expect(stem("balconies")).toBe("balcony");
+    expect(stem("pools")).toBe("pool");
+    expect(stem("furnished")).toBe(stem("furnishing"));
+    expect(stem("renovated")).toBe(stem("renovation"));
+    expect(stem("swimming")).toBe("swim");
+    expect(stem("glass")).toBe("glass");
+    expect(stem("bkk1")).toBe("bkk1");
+  });
+
+  it("measures edits with adjacent swaps and stops past the limit", () => {
+    expect(editDistance("balcony", "balcnoy", 2)).toBe(1);
+    expect(editDistance("kitchen", "kichen", 1)).toBe(1);
+    expect(editDistance("kitchen", "garden", 1)).toBe(2);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Query                                                               */
+/* ------------------------------------------------------------------ */
+
+describe("parseQuery", () => {
+  it("reads district aliases out of the query and drops stopwords", () => {
+    const q = parseQuery("pool near the Russian Market")!;
+    expect(q.districts.map((d) => d.canonical)).toEqual(["Toul Tom Poung"]);
+    expect(q.words.map((w) => w.text)).toEqual(["pool"]);
+  });
+
+  it("recognises Khmer district names inside the query", () => {
+    const q = parseQuery("ទួលគោក gym")!;
+    expect(q.districts.map((d) => d.canonical)).toEqual(["Toul Kork"]);
+    expect(q.words.map((w) => w.text)).toEqual(["gym"]);
+  });
+
+  it("returns null for an empty or stopword-only query", () => {
+    expect(parseQuery(undefined)).toBeNull();
+    expect(parseQuery("  ,, ")).toBeNull();
+    expect(parseQuery("for rent")).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Matching & ranking                                                  */
+/* ------------------------------------------------------------------ */
+
+describe("searchDocs", () => {
+  const docs = [
+    doc("pool-title", { title: "Condo with swimming pool", district: "Daun Penh" }),
+    doc("pool-amenity", { amenitiesJson: JSON.stringify(["Swimming Pool", "Gym"]), district: "Chamkarmon" }),
+    doc("ttp", { title: "Studio", district: "Toul Tom Poung" }),
+    doc("ttp-text", { descriptionRewritten: "<p>Walk to Tuol Tompong market</p>", district: "Chamkarmon" }),
+    doc("balcony", { descriptionRewritten: "Large balconies and a garden" }),
+  ];
+
+  it("requires every word, ranking title matches over amenities", () => {
+    expect(search("pools", docs)).toEqual(["pool-title", "pool-amenity"]);
+    expect(search("pool gym", docs)).toEqual(["pool-amenity"]);
+  });
+
+  it("tolerates typos and matches word prefixes", () => {
+    expect(search("balcnoy", docs)).toEqual(["balcony"]);
+    expect(search("swim", docs)).toEqual(["pool-title", "pool-amenity"]);
+    expect(search("gmy", docs)).toEqual([]);
+  });
+
+  it("matches a district under any of its spellings", () => {
+    expect(search("russian market", docs)).toEqual(["ttp", "ttp-text"]);
+    expect(search("ទួលទំពូង", docs)).toEqual(["ttp", "ttp-text"]);
+  });
+
+  it("records the matched words for highlighting", () => {
+    const [hit] = searchDocs(parseQuery("balconys")!, docs);
+    expect(hit.terms).toEqual(["balconies"]);
+  });
+});
+
+describe("orderSearchHits", () => {
+  const at = (d: number) => new Date(Date.UTC(2026, 9, d));
+  const hit = (id: string, score: number, price: number | null, day: number): SearchHit & SortFields => ({
+    id,
+    score,
+    terms: [],
+    firstSeenAt: at(day),
+    lastSeenAt: at(day),
+    priceMonthlyUsd: price,
+    sizeSqm: null,
+    priceDropPct: null,
+    lastPriceDropAt: null,
+  });
+  const hits = [hit("a", 4, 900, 1), hit("b", 7, 1200, 2), hit("c", 7, 500, 3), hit("d", 1, 300, 4), hit("e", 6, null, 5)];
+
+  it("orders by score, then newest, without a sort", () => {
+    expect(orderSearchHits(hits).map((h) => h.id)).toEqual(["c", "b", "e", "a", "d"]);
+    expect(orderSearchHits(hits, "relevance").map((h) => h.id)).toEqual(["c", "b", "e", "a", "d"]);
+  });
+
+  it("applies an explicit sort within strong and weak matches", () => {
+    expect(orderSearchHits(hits, "price_asc").map((h) => h.id)).toEqual(["c", "a", "b", "e", "d"]);
+    expect(orderSearchHits(hits, "newest").map((h) => h.id)).toEqual(["e", "c", "b", "a", "d"]);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Snippets                                                            */
+/* ------------------------------------------------------------------ */
+
+describe("buildSnippet", () => {
+  it("highlights matched words inside a window of the text", () => {
+    const text = `${"Lorem ipsum dolor sit amet. ".repeat(4)}The <b>Balconies</b> face the river. ${"More words here. ".repeat(10)}`;
+    const parts = buildSnippet(text, ["balconies"], 80)!;
+    expect(parts[0]).toEqual({ text: "…", hit: false });
+    expect(parts.filter((p) => p.hit)).toEqual([{ text: "Balconies", hit: true }]);
+    expect(parts[parts.length - 1]).toEqual({ text: "…", hit: false });
+    expect(parts.map((p) => p.text).join("").length).toBeLessThanOrEqual(82);
+  });
+
+  it("returns null when nothing matched in the text", () => {
+    expect(buildSnippet("A quiet studio", ["pool"])).toBeNull();
+    expect(buildSnippet(null, ["pool"])).toBeNull();
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  Autocomplete                                                        */
+/* ------------------------------------------------------------------ */
+
+describe("autocomplete", () => {
+  it("extracts building names from titles", () => {
+    expect(extractBuildingNames("Luxury 2 Bedroom at The Peak Residence, BKK1")).toEqual(["The Peak Residence"]);
+    expect(extractBuildingNames("Modern Condo for rent in Sky Villa Tower")).toEqual(["Sky Villa Tower"]);
+    expect(extractBuildingNames("Spacious Serviced Apartment near market")).toEqual([]);
+  });
+
+  it("suggests districts by alias and buildings by prefix", () => {
+    const districts = [
+      { name: "Toul Tom Poung", count: 40 },
+      { name: "Toul Kork", count: 25 },
+      { name: "BKK1", count: 80 },
+    ];
+    const buildings = [{ name: "Toul Kork Tower", count: 3 }, { name: "The Peak Residence", count: 12 }];
+
+    expect(suggest("toul", districts, buildings).map((s) => s.value)).toEqual([
+      "Toul Tom Poung",
+      "Toul Kork",
+      "Toul Kork Tower",
+    ]);
+    expect(suggest("russian", districts, buildings)).toEqual([{ kind: "district", value: "Toul Tom Poung", count: 40 }]);
+    expect(suggest("peak", districts, buildings)).toEqual([{ kind: "building", value: "The Peak Residence", count: 12 }]);
+    expect(suggest("បឹង", districts, buildings).map((s) => s.value)).toEqual(["BKK1"]);
+  });
+});